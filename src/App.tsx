@@ -1,10 +1,15 @@
 import { AuthProvider, useAuth } from './contexts/AuthContext'
+import { PermissionsProvider } from './contexts/PermissionsProvider'
+import { TimerProvider } from './contexts/TimerProvider'
+import { UndoProvider } from './contexts/UndoProvider'
 // ThemeProvider is provided in main.tsx
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom'
 import Login from './pages/Login'
 import AdminRegister from './pages/AdminRegister'
 import Dashboard from './pages/Dashboard'
 import CommandPalette from './components/CommandPalette'
+import TimerGapPrompt from './components/TimerGapPrompt'
+import UndoToast from './components/UndoToast'
 import './App.css'
 
 function AppContent() {
@@ -34,7 +39,15 @@ function AppContent() {
   }
 
   if (user) {
-    return <Dashboard />
+    return (
+      <PermissionsProvider>
+        <UndoProvider>
+          <CommandPalette />
+          <Dashboard />
+          <UndoToast />
+        </UndoProvider>
+      </PermissionsProvider>
+    )
   }
 
   return (
@@ -50,8 +63,10 @@ function App() {
   return (
     <BrowserRouter>
       <AuthProvider>
-        <CommandPalette />
-        <AppContent />
+        <TimerProvider>
+          <AppContent />
+          <TimerGapPrompt />
+        </TimerProvider>
       </AuthProvider>
     </BrowserRouter>
   )
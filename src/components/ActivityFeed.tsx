@@ -1,6 +1,8 @@
 import { useEffect, useState } from 'react'
 import { supabase } from '../lib/supabase'
 import { Clock, User, Trash2 } from 'lucide-react'
+import { usePermission } from '../contexts/PermissionsContext'
+import { TRASH_RETENTION_DAYS, moveToTrash } from '../data'
 
 interface Activity {
     id: string
@@ -17,6 +19,19 @@ interface Activity {
 export default function ActivityFeed() {
     const [activities, setActivities] = useState<Activity[]>([])
     const [loading, setLoading] = useState(true)
+    const canDelete = usePermission('activity.delete')
+
+    const loadActivities = () => supabase
+        .from('activities')
+        .select('*, profiles(full_name, email)')
+        .order('created_at', { ascending: false })
+        .limit(20)
+        .then(({ data, error }) => {
+            if (!error && data) {
+                setActivities(data)
+            }
+            setLoading(false)
+        })
 
     useEffect(() => {
         loadActivities()
@@ -34,30 +49,12 @@ export default function ActivityFeed() {
         }
     }, [])
 
-    const loadActivities = async () => {
-        const { data, error } = await supabase
-            .from('activities')
-            .select('*, profiles(full_name, email)')
-            .order('created_at', { ascending: false })
-            .limit(20)
-
-        if (!error && data) {
-            setActivities(data)
-        }
-        setLoading(false)
-    }
-
     const deleteActivity = async (id: string, e: React.MouseEvent) => {
         e.stopPropagation()
-        if (!confirm('Are you sure you want to delete this activity?')) return
+        if (!confirm(`Move this activity to the trash? You can restore it from the trash for ${TRASH_RETENTION_DAYS} days.`)) return
 
         try {
-            const { error } = await supabase
-                .from('activities')
-                .delete()
-                .eq('id', id)
-
-            if (error) throw error
+            await moveToTrash('activity', id)
 
             setActivities(prev => prev.filter(a => a.id !== id))
         } catch (error) {
@@ -68,16 +65,10 @@ export default function ActivityFeed() {
 
     const clearAllActivities = async () => {
         if (activities.length === 0) return
-        if (!confirm('Are you sure you want to clear all visible activities?')) return
+        if (!confirm(`Move all visible activities to the trash? You can restore them from the trash for ${TRASH_RETENTION_DAYS} days.`)) return
 
         try {
-            const idsToDelete = activities.map(a => a.id)
-            const { error } = await supabase
-                .from('activities')
-                .delete()
-                .in('id', idsToDelete)
-
-            if (error) throw error
+            await Promise.all(activities.map(a => moveToTrash('activity', a.id)))
 
             setActivities([])
         } catch (error) {
@@ -111,7 +102,7 @@ export default function ActivityFeed() {
                 <h2 style={{ fontSize: '1rem', fontWeight: '600', color: 'var(--text-primary)', display: 'flex', alignItems: 'center', gap: '0.5rem', margin: 0 }}>
                     <Clock size={18} /> Activity Feed
                 </h2>
-                {activities.length > 0 && (
+                {canDelete && activities.length > 0 && (
                     <button
                         onClick={clearAllActivities}
                         style={{
@@ -172,32 +163,34 @@ export default function ActivityFeed() {
                                     {new Date(activity.created_at).toLocaleString()}
                                 </span>
                             </div>
-                            <button
-                                onClick={(e) => deleteActivity(activity.id, e)}
-                                style={{
-                                    background: 'transparent',
-                                    border: 'none',
-                                    color: 'var(--text-secondary)',
-                                    cursor: 'pointer',
-                                    padding: '0.25rem',
-                                    display: 'flex',
-                                    alignItems: 'center',
-                                    justifyContent: 'center',
-                                    opacity: 0.6,
-                                    transition: 'all 0.2s'
-                                }}
-                                onMouseEnter={(e) => {
-                                    e.currentTarget.style.color = 'var(--danger-color)'
-                                    e.currentTarget.style.opacity = '1'
-                                }}
-                                onMouseLeave={(e) => {
-                                    e.currentTarget.style.color = 'var(--text-secondary)'
-                                    e.currentTarget.style.opacity = '0.6'
-                                }}
-                                title="Delete activity"
-                            >
-                                <Trash2 size={14} />
-                            </button>
+                            {canDelete && (
+                                <button
+                                    onClick={(e) => deleteActivity(activity.id, e)}
+                                    style={{
+                                        background: 'transparent',
+                                        border: 'none',
+                                        color: 'var(--text-secondary)',
+                                        cursor: 'pointer',
+                                        padding: '0.25rem',
+                                        display: 'flex',
+                                        alignItems: 'center',
+                                        justifyContent: 'center',
+                                        opacity: 0.6,
+                                        transition: 'all 0.2s'
+                                    }}
+                                    onMouseEnter={(e) => {
+                                        e.currentTarget.style.color = 'var(--danger-color)'
+                                        e.currentTarget.style.opacity = '1'
+                                    }}
+                                    onMouseLeave={(e) => {
+                                        e.currentTarget.style.color = 'var(--text-secondary)'
+                                        e.currentTarget.style.opacity = '0.6'
+                                    }}
+                                    title="Delete activity"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            )}
                         </div>
                     ))
                 )}
@@ -1,21 +1,11 @@
 
 import React from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
-
-interface Task {
-    id: string
-    status_id: string
-}
-
-interface TaskStatus {
-    id: string
-    label: string
-    color: string
-}
+import type { TaskRow, TaskStatusRow } from '../data';
 
 interface AnalyticsViewProps {
-    tasks: Task[]
-    statuses: TaskStatus[]
+    tasks: Pick<TaskRow, 'id' | 'status_id'>[]
+    statuses: Pick<TaskStatusRow, 'id' | 'label' | 'color'>[]
 }
 
 const AnalyticsView: React.FC<AnalyticsViewProps> = ({ tasks, statuses }) => {
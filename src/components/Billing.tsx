@@ -0,0 +1,202 @@
+import { useCallback, useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { CheckCircle2, Download, FileText, Printer, Receipt, Send, Trash2 } from 'lucide-react'
+import { usePermission } from '../contexts/PermissionsContext'
+import { deleteInvoice, listInvoiceLines, listInvoices, updateInvoiceStatus, type InvoiceRow, type InvoiceStatus } from '../data'
+import { downloadFile, invoiceToCsv, printInvoice } from '../lib/invoiceExport'
+import BillingRates from './BillingRates'
+import InvoiceBuilder from './InvoiceBuilder'
+
+interface BillingProps {
+    clientId: string | null
+    clientName?: string
+}
+
+const STATUS_STYLES: Record<string, { label: string; color: string; background: string }> = {
+    draft: { label: 'Draft', color: 'var(--text-secondary)', background: 'var(--bg-tertiary)' },
+    sent: { label: 'Sent', color: '#3b82f6', background: 'rgba(59, 130, 246, 0.15)' },
+    paid: { label: 'Paid', color: '#22c55e', background: 'rgba(34, 197, 94, 0.15)' }
+}
+
+export default function Billing({ clientId, clientName = 'Client' }: BillingProps) {
+    const canManage = usePermission('billing.manage')
+    const [tab, setTab] = useState<'invoices' | 'new' | 'rates'>('invoices')
+    const [invoices, setInvoices] = useState<InvoiceRow[]>([])
+
+    const loadInvoices = useCallback(() => {
+        if (!clientId) return
+        listInvoices({ clientId })
+            .then(setInvoices)
+            .catch(error => console.error('Error loading invoices:', error))
+    }, [clientId])
+
+    useEffect(() => {
+        loadInvoices()
+    }, [loadInvoices])
+
+    if (!clientId) {
+        return (
+            <div style={{ padding: '4rem 2rem', textAlign: 'center', color: 'var(--text-secondary)' }}>
+                <Receipt size={48} style={{ opacity: 0.5, marginBottom: '1rem' }} />
+                <p>Select a client to see their invoices and rates.</p>
+            </div>
+        )
+    }
+
+    const handleStatus = async (invoice: InvoiceRow, status: InvoiceStatus) => {
+        const prompt = status === 'sent'
+            ? `Mark ${invoice.number} as sent? Its lines can no longer be changed.`
+            : `Mark ${invoice.number} as paid?`
+        if (!confirm(prompt)) return
+
+        try {
+            await updateInvoiceStatus(invoice.id, status)
+            loadInvoices()
+        } catch (error) {
+            console.error('Error updating invoice:', error)
+            alert((error as { message?: string }).message || 'Failed to update invoice')
+        }
+    }
+
+    const handleDelete = async (invoice: InvoiceRow) => {
+        if (!confirm(`Delete draft ${invoice.number}? Its time entries will be available to invoice again.`)) return
+        try {
+            await deleteInvoice(invoice.id)
+            setInvoices(prev => prev.filter(i => i.id !== invoice.id))
+        } catch (error) {
+            console.error('Error deleting invoice:', error)
+            alert('Failed to delete invoice')
+        }
+    }
+
+    const handleExport = async (invoice: InvoiceRow, kind: 'csv' | 'pdf') => {
+        try {
+            const lines = await listInvoiceLines(invoice.id)
+            if (kind === 'csv') {
+                downloadFile(`${invoice.number}.csv`, invoiceToCsv(invoice, lines, clientName), 'text/csv')
+            } else {
+                printInvoice(invoice, lines, clientName)
+            }
+        } catch (error) {
+            console.error('Error exporting invoice:', error)
+            alert('Failed to export invoice')
+        }
+    }
+
+    const tabs = [
+        { id: 'invoices' as const, label: 'Invoices' },
+        ...(canManage ? [{ id: 'new' as const, label: 'New Invoice' }] : []),
+        { id: 'rates' as const, label: 'Rates' }
+    ]
+
+    return (
+        <div style={{ padding: '2rem' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1.5rem', flexWrap: 'wrap', gap: '1rem' }}>
+                <div>
+                    <h2 style={{ fontSize: '1.5rem', fontWeight: '700', margin: 0, display: 'flex', alignItems: 'center', gap: '0.5rem' }} className="text-gradient">
+                        <Receipt size={24} /> Billing
+                    </h2>
+                    <p style={{ color: 'var(--text-secondary)', margin: '0.25rem 0 0' }}>{clientName}</p>
+                </div>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    {tabs.map(t => (
+                        <button
+                            key={t.id}
+                            onClick={() => setTab(t.id)}
+                            style={{
+                                padding: '0.5rem 1rem',
+                                borderRadius: '0.5rem',
+                                border: tab === t.id ? 'none' : '1px solid var(--border-color)',
+                                background: tab === t.id ? 'linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)' : 'var(--bg-tertiary)',
+                                color: tab === t.id ? 'white' : 'var(--text-secondary)',
+                                fontWeight: '600',
+                                fontSize: '0.85rem',
+                                cursor: 'pointer'
+                            }}
+                        >
+                            {t.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div style={{ background: 'var(--bg-secondary)', border: '1px solid var(--border-color)', borderRadius: '12px', padding: '1.5rem' }}>
+                {tab === 'rates' ? (
+                    <BillingRates clientId={clientId} canManage={canManage} />
+                ) : tab === 'new' ? (
+                    <InvoiceBuilder
+                        clientId={clientId}
+                        onCreated={() => {
+                            loadInvoices()
+                            setTab('invoices')
+                        }}
+                    />
+                ) : invoices.length === 0 ? (
+                    <div style={{ padding: '2rem', textAlign: 'center', color: 'var(--text-secondary)' }}>
+                        <FileText size={32} style={{ opacity: 0.5, marginBottom: '0.5rem' }} />
+                        <p style={{ margin: 0 }}>No invoices for this client yet.</p>
+                    </div>
+                ) : (
+                    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem' }}>
+                        <thead>
+                            <tr style={{ color: 'var(--text-secondary)', fontSize: '0.75rem', textTransform: 'uppercase', textAlign: 'left' }}>
+                                <th style={{ padding: '0.5rem' }}>Invoice</th>
+                                <th style={{ padding: '0.5rem' }}>Period</th>
+                                <th style={{ padding: '0.5rem', textAlign: 'right' }}>Total</th>
+                                <th style={{ padding: '0.5rem' }}>Status</th>
+                                <th style={{ padding: '0.5rem' }} />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {invoices.map(invoice => {
+                                const status = STATUS_STYLES[invoice.status] || STATUS_STYLES.draft
+                                return (
+                                    <tr key={invoice.id} style={{ borderTop: '1px solid var(--border-color)', color: 'var(--text-primary)' }}>
+                                        <td style={{ padding: '0.75rem 0.5rem', fontWeight: '600' }}>{invoice.number}</td>
+                                        <td style={{ padding: '0.75rem 0.5rem', color: 'var(--text-secondary)' }}>
+                                            {format(new Date(`${invoice.period_start}T00:00`), 'MMM d')} – {format(new Date(`${invoice.period_end}T00:00`), 'MMM d, yyyy')}
+                                        </td>
+                                        <td style={{ padding: '0.75rem 0.5rem', textAlign: 'right', fontWeight: '600' }}>
+                                            {invoice.currency} {Number(invoice.total).toFixed(2)}
+                                        </td>
+                                        <td style={{ padding: '0.75rem 0.5rem' }}>
+                                            <span style={{ padding: '0.2rem 0.6rem', borderRadius: '9999px', fontSize: '0.75rem', fontWeight: '600', color: status.color, background: status.background }}>
+                                                {status.label}
+                                            </span>
+                                        </td>
+                                        <td style={{ padding: '0.75rem 0.5rem' }}>
+                                            <div style={{ display: 'flex', gap: '0.25rem', justifyContent: 'flex-end' }}>
+                                                {canManage && invoice.status === 'draft' && (
+                                                    <button onClick={() => handleStatus(invoice, 'sent')} style={iconButtonStyle} title="Mark as sent"><Send size={15} /></button>
+                                                )}
+                                                {canManage && invoice.status === 'sent' && (
+                                                    <button onClick={() => handleStatus(invoice, 'paid')} style={{ ...iconButtonStyle, color: '#22c55e' }} title="Mark as paid"><CheckCircle2 size={15} /></button>
+                                                )}
+                                                <button onClick={() => handleExport(invoice, 'csv')} style={iconButtonStyle} title="Download CSV"><Download size={15} /></button>
+                                                <button onClick={() => handleExport(invoice, 'pdf')} style={iconButtonStyle} title="Print / save as PDF"><Printer size={15} /></button>
+                                                {canManage && invoice.status === 'draft' && (
+                                                    <button onClick={() => handleDelete(invoice)} style={{ ...iconButtonStyle, color: 'var(--danger-color)' }} title="Delete draft"><Trash2 size={15} /></button>
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                )
+                            })}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </div>
+    )
+}
+
+const iconButtonStyle: React.CSSProperties = {
+    padding: '0.35rem',
+    border: 'none',
+    background: 'transparent',
+    color: 'var(--text-secondary)',
+    cursor: 'pointer',
+    display: 'flex',
+    alignItems: 'center',
+    borderRadius: '4px'
+}
@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { deleteBillingRate, listBillingRates, listProfiles, saveBillingRate, type BillingRateRow, type ProfileRow } from '../data'
+
+interface BillingRatesProps {
+    clientId: string
+    canManage: boolean
+}
+
+const CONTENT_TYPES = ['Static', 'Video', 'Reel', 'Shooting']
+
+export default function BillingRates({ clientId, canManage }: BillingRatesProps) {
+    const [rates, setRates] = useState<BillingRateRow[]>([])
+    const [employees, setEmployees] = useState<ProfileRow[]>([])
+    const [allClients, setAllClients] = useState(false)
+    const [employeeId, setEmployeeId] = useState('')
+    const [contentType, setContentType] = useState('')
+    const [hourlyRate, setHourlyRate] = useState('')
+
+    const loadRates = useCallback(() => {
+        listBillingRates({ clientId })
+            .then(setRates)
+            .catch(error => console.error('Error loading rates:', error))
+    }, [clientId])
+
+    useEffect(() => {
+        loadRates()
+    }, [loadRates])
+
+    useEffect(() => {
+        listProfiles({ role: 'employee' })
+            .then(setEmployees)
+            .catch(error => console.error('Error loading employees:', error))
+    }, [])
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault()
+        const rate = parseFloat(hourlyRate)
+        if (isNaN(rate) || rate < 0) return
+
+        try {
+            await saveBillingRate({
+                client_id: allClients ? null : clientId,
+                employee_id: employeeId || null,
+                content_type: contentType || null,
+                hourly_rate: rate
+            })
+            setHourlyRate('')
+            loadRates()
+        } catch (error) {
+            console.error('Error saving rate:', error)
+            alert('Failed to save rate')
+        }
+    }
+
+    const handleDelete = async (id: string) => {
+        if (!confirm('Remove this rate?')) return
+        try {
+            await deleteBillingRate(id)
+            setRates(prev => prev.filter(r => r.id !== id))
+        } catch (error) {
+            console.error('Error deleting rate:', error)
+            alert('Failed to delete rate')
+        }
+    }
+
+    const employeeName = (id: string | null) =>
+        id ? employees.find(e => e.id === id)?.full_name || 'Unknown employee' : 'Anyone'
+
+    return (
+        <div>
+            <p style={{ color: 'var(--text-secondary)', fontSize: '0.875rem', marginTop: 0 }}>
+                When several rates apply to an entry, the most specific one is used: employee, then content type, then client.
+            </p>
+
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem', marginBottom: '1.5rem' }}>
+                <thead>
+                    <tr style={{ color: 'var(--text-secondary)', textAlign: 'left', fontSize: '0.75rem', textTransform: 'uppercase' }}>
+                        <th style={{ padding: '0.5rem' }}>Client</th>
+                        <th style={{ padding: '0.5rem' }}>Employee</th>
+                        <th style={{ padding: '0.5rem' }}>Content Type</th>
+                        <th style={{ padding: '0.5rem', textAlign: 'right' }}>Hourly Rate</th>
+                        <th style={{ padding: '0.5rem' }} />
+                    </tr>
+                </thead>
+                <tbody>
+                    {rates.length === 0 ? (
+                        <tr><td colSpan={5} style={{ padding: '1.5rem', textAlign: 'center', color: 'var(--text-secondary)' }}>No rates yet.</td></tr>
+                    ) : rates.map(rate => (
+                        <tr key={rate.id} style={{ borderTop: '1px solid var(--border-color)', color: 'var(--text-primary)' }}>
+                            <td style={{ padding: '0.6rem 0.5rem' }}>{rate.client_id ? 'This client' : 'All clients'}</td>
+                            <td style={{ padding: '0.6rem 0.5rem' }}>{employeeName(rate.employee_id)}</td>
+                            <td style={{ padding: '0.6rem 0.5rem' }}>{rate.content_type || 'Any'}</td>
+                            <td style={{ padding: '0.6rem 0.5rem', textAlign: 'right', fontWeight: '600' }}>{Number(rate.hourly_rate).toFixed(2)}</td>
+                            <td style={{ padding: '0.6rem 0.5rem', textAlign: 'right' }}>
+                                {canManage && (
+                                    <button onClick={() => handleDelete(rate.id)} style={{ background: 'none', border: 'none', cursor: 'pointer', color: 'var(--danger-color)' }} title="Remove rate">
+                                        <Trash2 size={14} />
+                                    </button>
+                                )}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            {canManage && (
+                <form onSubmit={handleAdd} style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+                    <select value={allClients ? 'all' : 'this'} onChange={e => setAllClients(e.target.value === 'all')} style={inputStyle}>
+                        <option value="this">This client</option>
+                        <option value="all">All clients</option>
+                    </select>
+                    <select value={employeeId} onChange={e => setEmployeeId(e.target.value)} style={inputStyle}>
+                        <option value="">Anyone</option>
+                        {employees.map(emp => <option key={emp.id} value={emp.id}>{emp.full_name}</option>)}
+                    </select>
+                    <select value={contentType} onChange={e => setContentType(e.target.value)} style={inputStyle}>
+                        <option value="">Any content type</option>
+                        {CONTENT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                    </select>
+                    <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={hourlyRate}
+                        onChange={e => setHourlyRate(e.target.value)}
+                        placeholder="Rate / hour"
+                        required
+                        style={{ ...inputStyle, width: '8rem' }}
+                    />
+                    <button type="submit" style={{ padding: '0.5rem 1rem', borderRadius: '0.5rem', border: 'none', background: 'linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)', color: 'white', fontWeight: '600', cursor: 'pointer', display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+                        <Plus size={16} /> Add Rate
+                    </button>
+                </form>
+            )}
+        </div>
+    )
+}
+
+const inputStyle: React.CSSProperties = {
+    padding: '0.5rem 0.75rem',
+    borderRadius: '6px',
+    border: '1px solid var(--border-color)',
+    background: 'var(--bg-tertiary)',
+    color: 'var(--text-primary)',
+    fontSize: '0.875rem'
+}
@@ -0,0 +1,266 @@
+import { useEffect, useState } from 'react'
+import { AlertTriangle, CalendarClock, Trash2, Users, X } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import { usePermission } from '../contexts/PermissionsContext'
+import {
+    TRASH_RETENTION_DAYS,
+    applyBulkTaskChange,
+    listDepartments,
+    listProfiles,
+    type BulkTaskChange,
+    type BulkTaskResult,
+    type DepartmentOption,
+    type ProfileRow,
+    type TaskListItem,
+    type TaskPriority
+} from '../data'
+
+interface BulkActionBarProps {
+    // The selected tasks
+    tasks: TaskListItem[]
+    statusLabels: string[]
+    clientId?: string | null
+    onApplied: (result: BulkTaskResult) => void
+    onClear: () => void
+}
+
+// Floating bar for changing every selected task at once. Each task is
+// changed on its own; the ones that fail are listed and stay selected.
+export default function BulkActionBar({ tasks, statusLabels, clientId, onApplied, onClear }: BulkActionBarProps) {
+    const { user } = useAuth()
+    const canEdit = usePermission('task.edit')
+    const canDelete = usePermission('task.delete')
+    const [busy, setBusy] = useState(false)
+    const [result, setResult] = useState<BulkTaskResult | null>(null)
+    const [openPanel, setOpenPanel] = useState<'assignees' | 'due' | null>(null)
+    const [employees, setEmployees] = useState<ProfileRow[]>([])
+    const [departments, setDepartments] = useState<DepartmentOption[]>([])
+    const [pickedAssignees, setPickedAssignees] = useState<string[]>([])
+    const [shiftDays, setShiftDays] = useState(1)
+
+    useEffect(() => {
+        Promise.all([listProfiles({ role: 'employee' }), listDepartments({ clientId })])
+            .then(([profileData, departmentData]) => {
+                setEmployees(profileData)
+                setDepartments(departmentData)
+            })
+            .catch(error => console.error('Error loading bulk action options:', error))
+    }, [clientId])
+
+    if (tasks.length === 0 && !result) return null
+
+    const run = async (change: BulkTaskChange) => {
+        if (!user) return
+        setBusy(true)
+        setOpenPanel(null)
+        try {
+            const outcome = await applyBulkTaskChange(tasks, change, user.id)
+            setResult(outcome)
+            onApplied(outcome)
+        } catch (error) {
+            console.error('Error applying bulk change:', error)
+            alert('Failed to update the selected tasks')
+        } finally {
+            setBusy(false)
+        }
+    }
+
+    const handleDepartment = (departmentId: string) => {
+        const department = departments.find(d => d.id === departmentId)
+        if (!department) return
+        if (!confirm(`Move ${tasks.length} task(s) to ${department.name}?`)) return
+        run({ kind: 'department', department })
+    }
+
+    const handleDelete = () => {
+        if (!confirm(`Move ${tasks.length} task(s) to the trash? You can restore them from the trash for ${TRASH_RETENTION_DAYS} days.`)) return
+        run({ kind: 'delete' })
+    }
+
+    const togglePicked = (id: string) => {
+        setPickedAssignees(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id])
+    }
+
+    const total = result ? result.succeeded.length + result.failed.length : 0
+
+    return (
+        <div style={{
+            position: 'fixed',
+            bottom: '1.5rem',
+            left: '50%',
+            transform: 'translateX(-50%)',
+            zIndex: 900,
+            maxWidth: 'calc(100vw - 2rem)',
+            background: 'var(--bg-secondary)',
+            border: '1px solid var(--border-color)',
+            borderRadius: '12px',
+            boxShadow: '0 10px 25px rgba(0, 0, 0, 0.25)',
+            padding: '0.75rem 1rem',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '0.75rem'
+        }}>
+            {result && (
+                <div style={{ fontSize: '0.85rem', color: 'var(--text-primary)' }}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                        {result.failed.length > 0 && <AlertTriangle size={16} style={{ color: 'var(--danger-color)' }} />}
+                        <span>
+                            {result.succeeded.length} of {total} task{total === 1 ? '' : 's'} {result.change.kind === 'delete' ? 'deleted' : 'updated'}
+                            {result.failed.length > 0 && `; ${result.failed.length} failed and remain selected`}
+                        </span>
+                        <button onClick={() => setResult(null)} style={{ ...iconButtonStyle, marginLeft: 'auto' }} title="Dismiss">
+                            <X size={14} />
+                        </button>
+                    </div>
+                    {result.failed.length > 0 && (
+                        <ul style={{ margin: '0.5rem 0 0', paddingLeft: '1.25rem', maxHeight: '120px', overflowY: 'auto', color: 'var(--text-secondary)', fontSize: '0.8rem' }}>
+                            {result.failed.map(failure => (
+                                <li key={failure.taskId}>
+                                    <strong style={{ color: 'var(--text-primary)' }}>{failure.title}</strong>: {failure.message}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
+            {tasks.length > 0 && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap', position: 'relative' }}>
+                    <span style={{ fontSize: '0.85rem', fontWeight: '600', color: 'var(--text-primary)', marginRight: '0.25rem' }}>
+                        {tasks.length} selected
+                    </span>
+
+                    {canEdit && (
+                        <>
+                            <select value="" disabled={busy} onChange={e => run({ kind: 'status', label: e.target.value })} style={controlStyle}>
+                                <option value="" disabled>Status…</option>
+                                {statusLabels.map(label => <option key={label} value={label}>{label}</option>)}
+                            </select>
+                            <select value="" disabled={busy} onChange={e => run({ kind: 'priority', priority: e.target.value as TaskPriority })} style={controlStyle}>
+                                <option value="" disabled>Priority…</option>
+                                {(['low', 'medium', 'high'] as const).map(p => (
+                                    <option key={p} value={p} style={{ textTransform: 'capitalize' }}>{p}</option>
+                                ))}
+                            </select>
+                            <button disabled={busy} onClick={() => setOpenPanel(openPanel === 'assignees' ? null : 'assignees')} style={controlStyle}>
+                                <Users size={14} /> Assignees
+                            </button>
+                            <button disabled={busy} onClick={() => setOpenPanel(openPanel === 'due' ? null : 'due')} style={controlStyle}>
+                                <CalendarClock size={14} /> Shift Due
+                            </button>
+                            <select value="" disabled={busy} onChange={e => handleDepartment(e.target.value)} style={controlStyle}>
+                                <option value="" disabled>Department…</option>
+                                {departments.map(d => (
+                                    <option key={d.id} value={d.id}>{clientId ? d.name : `${d.client?.name || 'Unknown'} · ${d.name}`}</option>
+                                ))}
+                            </select>
+                        </>
+                    )}
+                    {canDelete && (
+                        <button disabled={busy} onClick={handleDelete} style={{ ...controlStyle, color: 'var(--danger-color)' }}>
+                            <Trash2 size={14} /> Delete
+                        </button>
+                    )}
+                    <button onClick={onClear} style={iconButtonStyle} title="Clear selection">
+                        <X size={16} />
+                    </button>
+
+                    {openPanel === 'assignees' && (
+                        <div style={panelStyle}>
+                            <div style={{ maxHeight: '200px', overflowY: 'auto', marginBottom: '0.5rem' }}>
+                                {employees.map(emp => (
+                                    <label key={emp.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', padding: '0.35rem', fontSize: '0.85rem', color: 'var(--text-primary)', cursor: 'pointer' }}>
+                                        <input
+                                            type="checkbox"
+                                            checked={pickedAssignees.includes(emp.id)}
+                                            onChange={() => togglePicked(emp.id)}
+                                            style={{ accentColor: 'var(--accent-color)' }}
+                                        />
+                                        {emp.full_name || emp.email}
+                                    </label>
+                                ))}
+                            </div>
+                            <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+                                <button
+                                    disabled={busy || pickedAssignees.length === 0}
+                                    onClick={() => run({ kind: 'assignees', userIds: pickedAssignees, mode: 'add' })}
+                                    style={controlStyle}
+                                >
+                                    Add
+                                </button>
+                                <button
+                                    disabled={busy}
+                                    onClick={() => run({ kind: 'assignees', userIds: pickedAssignees, mode: 'replace' })}
+                                    style={controlStyle}
+                                    title={pickedAssignees.length === 0 ? 'Unassign everyone' : undefined}
+                                >
+                                    Replace
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    {openPanel === 'due' && (
+                        <div style={panelStyle}>
+                            <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.85rem', color: 'var(--text-secondary)' }}>
+                                Move by
+                                <input
+                                    type="number"
+                                    value={shiftDays}
+                                    onChange={e => setShiftDays(Math.trunc(Number(e.target.value)) || 0)}
+                                    style={{ ...controlStyle, width: '5rem' }}
+                                />
+                                days
+                                <button
+                                    disabled={busy || shiftDays === 0}
+                                    onClick={() => run({ kind: 'shift_due', days: shiftDays })}
+                                    style={{ ...controlStyle, marginLeft: 'auto' }}
+                                >
+                                    Apply
+                                </button>
+                            </div>
+                            <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)', marginTop: '0.5rem' }}>
+                                Use a negative number to move due dates earlier.
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
+
+const controlStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.35rem',
+    padding: '0.4rem 0.65rem',
+    borderRadius: '6px',
+    border: '1px solid var(--border-color)',
+    background: 'var(--bg-tertiary)',
+    color: 'var(--text-primary)',
+    fontSize: '0.8rem',
+    cursor: 'pointer'
+}
+
+const iconButtonStyle: React.CSSProperties = {
+    background: 'transparent',
+    border: 'none',
+    color: 'var(--text-secondary)',
+    cursor: 'pointer',
+    display: 'flex',
+    alignItems: 'center',
+    padding: '0.2rem'
+}
+
+const panelStyle: React.CSSProperties = {
+    position: 'absolute',
+    bottom: 'calc(100% + 1rem)',
+    left: 0,
+    width: '300px',
+    background: 'var(--bg-secondary)',
+    border: '1px solid var(--border-color)',
+    borderRadius: '12px',
+    boxShadow: '0 10px 25px rgba(0, 0, 0, 0.25)',
+    padding: '0.75rem'
+}
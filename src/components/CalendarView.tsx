@@ -13,30 +13,12 @@ import {
     isToday
 } from 'date-fns'
 import { ChevronLeft, ChevronRight } from 'lucide-react'
-
-interface Task {
-    id: string
-    title: string
-    description: string
-    status_id: string
-    priority: 'low' | 'medium' | 'high'
-    due_date: string
-    department_id: string
-    department?: {
-        name: string
-    }
-}
-
-interface TaskStatus {
-    id: string
-    label: string
-    color: string
-}
+import type { TaskListItem, TaskStatusRow } from '../data'
 
 interface CalendarViewProps {
-    tasks: Task[]
-    statuses: TaskStatus[]
-    onTaskClick: (task: Task) => void
+    tasks: TaskListItem[]
+    statuses: Pick<TaskStatusRow, 'id' | 'label' | 'color'>[]
+    onTaskClick: (task: TaskListItem) => void
 }
 
 export default function CalendarView({ tasks, statuses, onTaskClick }: CalendarViewProps) {
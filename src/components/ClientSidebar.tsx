@@ -1,5 +1,6 @@
-import { LayoutGrid, Plus, Pencil, Trash2, LogOut, Briefcase, Users } from 'lucide-react'
+import { LayoutGrid, Plus, Pencil, Trash2, LogOut, Briefcase, Users, ClipboardCheck, Receipt, Bookmark } from 'lucide-react'
 import { useState, useEffect } from 'react'
+import type { SavedView } from '../data'
 
 
 
@@ -22,7 +23,7 @@ interface ClientSidebarProps {
     onSelect: (id: string) => void
     onAdd: () => void
     onEdit: (client: Client) => void
-    onDelete: (id: string) => void
+    onDelete?: (id: string) => void
     profile: Profile | null
     onSignOut: () => void
     onProfileClick?: () => void
@@ -30,7 +31,13 @@ interface ClientSidebarProps {
     onTasksTrackerClick?: () => void
     onMeetingsClick?: () => void
     onEmployeesClick?: () => void
-    activeView?: 'clients' | 'creative-progress' | 'tasks-tracker' | 'meetings' | 'employees' | 'profile'
+    onTimesheetsClick?: () => void
+    onBillingClick?: () => void
+    onTrashClick?: () => void
+    savedViews?: SavedView[]
+    activeSavedViewId?: string | null
+    onSavedViewClick?: (view: SavedView) => void
+    activeView?: 'clients' | 'creative-progress' | 'tasks-tracker' | 'meetings' | 'employees' | 'timesheets' | 'billing' | 'trash' | 'profile'
 }
 
 export default function ClientSidebar({
@@ -47,6 +54,12 @@ export default function ClientSidebar({
     onTasksTrackerClick,
     onMeetingsClick,
     onEmployeesClick,
+    onTimesheetsClick,
+    onBillingClick,
+    onTrashClick,
+    savedViews = [],
+    activeSavedViewId = null,
+    onSavedViewClick,
     activeView = 'clients',
     isOpen = false,
     onClose = () => {}
@@ -193,6 +206,9 @@ export default function ClientSidebar({
                             { id: 'tasks-tracker', label: 'Tasks Tracker', icon: Briefcase },
                             { id: 'meetings', label: 'Meetings', icon: Users },
                             { id: 'employees', label: 'Employees', icon: Users },
+                            { id: 'timesheets', label: 'Timesheets', icon: ClipboardCheck },
+                            { id: 'billing', label: 'Billing', icon: Receipt },
+                            { id: 'trash', label: 'Trash', icon: Trash2 },
                         ].map(item => (
                             <div
                                 key={item.id}
@@ -201,6 +217,9 @@ export default function ClientSidebar({
                                     if (item.id === 'tasks-tracker') onTasksTrackerClick?.()
                                     if (item.id === 'meetings') onMeetingsClick?.()
                                     if (item.id === 'employees') onEmployeesClick?.()
+                                    if (item.id === 'timesheets') onTimesheetsClick?.()
+                                    if (item.id === 'billing') onBillingClick?.()
+                                    if (item.id === 'trash') onTrashClick?.()
                                     if (isMobile) onClose()
                                 }}
                                 style={{
@@ -238,6 +257,54 @@ export default function ClientSidebar({
                     </div>
                 </div>
 
+                {/* Saved Views */}
+                {savedViews.length > 0 && (
+                    <div style={{ padding: '1rem 1rem 0' }}>
+                        <h2 style={{ fontSize: '0.75rem', fontWeight: '600', color: 'var(--text-secondary)', textTransform: 'uppercase', letterSpacing: '0.05em', marginBottom: '0.75rem', paddingLeft: '0.5rem' }}>
+                            Saved Views
+                        </h2>
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', maxHeight: '180px', overflowY: 'auto' }}>
+                            {savedViews.map(view => (
+                                <div
+                                    key={view.id}
+                                    onClick={() => {
+                                        onSavedViewClick?.(view)
+                                        if (isMobile) onClose()
+                                    }}
+                                    title={view.client ? `Shared with the ${view.client.name} team` : undefined}
+                                    style={{
+                                        padding: '0.5rem 0.75rem',
+                                        borderRadius: '0.5rem',
+                                        cursor: 'pointer',
+                                        display: 'flex',
+                                        alignItems: 'center',
+                                        gap: '0.75rem',
+                                        fontSize: '0.875rem',
+                                        background: activeSavedViewId === view.id ? 'var(--bg-tertiary)' : 'transparent',
+                                        color: activeSavedViewId === view.id ? 'var(--text-primary)' : 'var(--text-secondary)',
+                                        fontWeight: activeSavedViewId === view.id ? '600' : '400',
+                                        transition: 'all 0.2s'
+                                    }}
+                                    onMouseEnter={(e) => {
+                                        e.currentTarget.style.background = 'var(--bg-tertiary)'
+                                        e.currentTarget.style.color = 'var(--text-primary)'
+                                    }}
+                                    onMouseLeave={(e) => {
+                                        if (activeSavedViewId !== view.id) {
+                                            e.currentTarget.style.background = 'transparent'
+                                            e.currentTarget.style.color = 'var(--text-secondary)'
+                                        }
+                                    }}
+                                >
+                                    <Bookmark size={16} style={{ opacity: 0.7, flexShrink: 0 }} />
+                                    <span style={{ flex: 1, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>{view.name}</span>
+                                    {view.client && <Users size={12} style={{ opacity: 0.6, flexShrink: 0 }} />}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
                 {/* Clients List */}
                 <div style={{ flex: 1, overflowY: 'auto', padding: '1rem' }}>
                     <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem', padding: '0 0.5rem' }}>
@@ -321,7 +388,9 @@ export default function ClientSidebar({
                                     {(activeView === 'clients' && selectedId === client.id) && (
                                         <div style={{ display: 'flex', gap: '0.25rem' }}>
                                             <button onClick={(e) => { e.stopPropagation(); onEdit(client); }} style={{ padding: '0.25rem', border: 'none', background: 'rgba(255,255,255,0.2)', borderRadius: '4px', cursor: 'pointer', color: 'white' }} title="Edit"><Pencil size={12} /></button>
-                                            <button onClick={(e) => { e.stopPropagation(); onDelete(client.id); }} style={{ padding: '0.25rem', border: 'none', background: 'rgba(255,255,255,0.2)', borderRadius: '4px', cursor: 'pointer', color: '#fecaca' }} title="Delete"><Trash2 size={12} /></button>
+                                            {onDelete && (
+                                                <button onClick={(e) => { e.stopPropagation(); onDelete(client.id); }} style={{ padding: '0.25rem', border: 'none', background: 'rgba(255,255,255,0.2)', borderRadius: '4px', cursor: 'pointer', color: '#fecaca' }} title="Delete"><Trash2 size={12} /></button>
+                                            )}
                                         </div>
                                     )}
                                 </div>
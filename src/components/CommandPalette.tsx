@@ -1,19 +1,61 @@
-import { useState, useEffect } from 'react'
-import { Search, Moon, Sun, Briefcase, ArrowRight, LogOut, LayoutGrid, Calendar, CheckSquare, User } from 'lucide-react'
+import { Fragment, useState, useEffect } from 'react'
+import { Search, Moon, Sun, Briefcase, ArrowRight, LogOut, LayoutGrid, Calendar, CheckSquare, User, Play, Square, ListChecks, MessageSquare, Loader2, Bookmark } from 'lucide-react'
 import { useTheme } from '../contexts/ThemeContext'
 import { useAuth } from '../contexts/AuthContext'
+import { usePermissions } from '../contexts/PermissionsContext'
+import { useTimer } from '../contexts/TimerContext'
+import { SAVED_VIEW_TARGETS, getTask, isTimingTarget, listRecentTimers, listSavedViews, searchWorkspace, type RecentTimer, type SavedView, type SearchResult, type SearchResultKind, type TaskListItem } from '../data'
+import { dashboardViews, navigateDashboard, openSavedView } from '../lib/navigation'
 import { supabase } from '../lib/supabase'
+import TaskDetailsModal from './TaskDetailsModal'
+
+interface PaletteItem {
+    key: string
+    group: string
+    label: string
+    detail?: string | null
+    icon: React.ReactNode
+    action: () => void
+}
+
+const SEARCH_GROUPS: Record<SearchResultKind, { label: string; icon: React.ReactNode }> = {
+    task: { label: 'Tasks', icon: <CheckSquare size={14} /> },
+    subtask: { label: 'Subtasks', icon: <ListChecks size={14} /> },
+    comment: { label: 'Comments', icon: <MessageSquare size={14} /> },
+    meeting: { label: 'Meetings', icon: <Calendar size={14} /> },
+    person: { label: 'People', icon: <User size={14} /> }
+}
+
+const VIEW_ICONS: Record<string, React.ReactNode> = {
+    meetings: <Calendar size={14} />,
+    profile: <User size={14} />
+}
+
+// Renders a ts_headline snippet, bolding the words wrapped in **.
+function Snippet({ text }: { text: string }) {
+    return (
+        <>
+            {text.split('**').map((part, i) => i % 2 === 1 ? <strong key={i} style={{ color: 'var(--text-primary)' }}>{part}</strong> : part)}
+        </>
+    )
+}
 
 export default function CommandPalette() {
     const [isOpen, setIsOpen] = useState(false)
     const [query, setQuery] = useState('')
     const { theme, toggleTheme } = useTheme()
-    const { signOut } = useAuth()
-    const [results, setResults] = useState<any[]>([])
+    const { user, signOut } = useAuth()
+    const { role } = usePermissions()
+    const { activeLog, start, stop, switchTo } = useTimer()
     const [selectedIndex, setSelectedIndex] = useState(0)
 
     // Data
-    const [clients, setClients] = useState<any[]>([])
+    const [clients, setClients] = useState<{ id: string; name: string }[]>([])
+    const [recentTimers, setRecentTimers] = useState<RecentTimer[]>([])
+    const [savedViews, setSavedViews] = useState<SavedView[]>([])
+    const [searchResults, setSearchResults] = useState<SearchResult[]>([])
+    const [searching, setSearching] = useState(false)
+    const [openTask, setOpenTask] = useState<TaskListItem | null>(null)
 
     useEffect(() => {
         // Fetch clients for initial data
@@ -27,6 +69,8 @@ export default function CommandPalette() {
             if ((e.ctrlKey || e.metaKey) && e.key === 'k') {
                 e.preventDefault()
                 setIsOpen(prev => !prev)
+                setQuery('')
+                setSelectedIndex(0)
             }
             if (e.key === 'Escape') {
                 setIsOpen(false)
@@ -37,60 +81,158 @@ export default function CommandPalette() {
         return () => window.removeEventListener('keydown', handleKeyDown)
     }, [])
 
+    const close = () => {
+        setIsOpen(false)
+        setQuery('')
+        setSelectedIndex(0)
+    }
+
+    // Recent subtasks to start or switch the timer to
     useEffect(() => {
-        if (!isOpen) {
-            setQuery('')
-            setSelectedIndex(0)
-            return
-        }
-        // Focus input when opened (can utilize autoFocus prop)
-    }, [isOpen])
+        if (!isOpen || !user) return
+        listRecentTimers(user.id)
+            .then(setRecentTimers)
+            .catch(error => console.error('Error loading recent timers:', error))
+    }, [isOpen, user])
 
+    // Saved views open on the coordinator's list surfaces
     useEffect(() => {
-        if (!query) {
-            setResults([
-                { type: 'action', label: 'Toggle Theme', icon: theme === 'dark' ? <Sun size={14} /> : <Moon size={14} />, action: toggleTheme },
-            ])
-            return
+        if (!isOpen || role !== 'client_coordinator') return
+        listSavedViews()
+            .then(setSavedViews)
+            .catch(error => console.error('Error loading saved views:', error))
+    }, [isOpen, role])
+
+    // Search once typing pauses
+    useEffect(() => {
+        if (!isOpen || query.trim().length < 2) return
+
+        const timeout = setTimeout(() => {
+            setSearching(true)
+            searchWorkspace(query)
+                .then(setSearchResults)
+                .catch(error => console.error('Error searching:', error))
+                .finally(() => setSearching(false))
+        }, 200)
+
+        return () => clearTimeout(timeout)
+    }, [query, isOpen])
+
+    const openTaskById = async (taskId: string) => {
+        try {
+            setOpenTask(await getTask(taskId))
+        } catch (error) {
+            console.error('Error opening task:', error)
+            alert('Failed to open task')
+        }
+    }
+
+    // Where a search hit leads for this role; null hides the hit
+    const searchAction = (result: SearchResult): (() => void) | null => {
+        if (result.taskId) return () => openTaskById(result.taskId!)
+        if (result.kind === 'meeting' && role !== 'admin') {
+            return () => navigateDashboard({ view: 'meetings', meetingId: result.id, clientId: result.clientId })
+        }
+        if (result.kind === 'person') {
+            if (role === 'client_coordinator') {
+                return () => navigateDashboard({ view: 'employees', profileId: result.id, profileName: result.title })
+            }
+            if (result.id === user?.id && role !== 'admin') return () => navigateDashboard({ view: 'profile' })
+        }
+        return null
+    }
+
+    const buildItems = (): PaletteItem[] => {
+        const q = query.trim().toLowerCase()
+        const matches = (text: string) => !q || text.toLowerCase().includes(q)
+
+        const timerItems: PaletteItem[] = []
+        if (activeLog) {
+            timerItems.push({ key: 'timer-stop', group: 'Timer', label: `Stop timer: ${activeLog.subtask_name}`, detail: activeLog.task?.title, icon: <Square size={14} />, action: stop })
+        }
+        if (q) {
+            recentTimers
+                .filter(t => !isTimingTarget(activeLog, t))
+                .filter(t => matches(`${t.subtaskName} ${t.taskTitle}`))
+                .forEach(t => timerItems.push({
+                    key: `timer-${t.taskId}-${t.subtaskId ?? t.subtaskName}`,
+                    group: 'Timer',
+                    label: `${activeLog ? 'Switch timer to' : 'Start timer:'} ${t.subtaskName}`,
+                    detail: t.taskTitle,
+                    icon: <Play size={14} />,
+                    action: () => activeLog ? switchTo(t) : start(t)
+                }))
         }
 
-        const filteredClients = clients
-            .filter(c => c.name.toLowerCase().includes(query.toLowerCase()))
-            .map(c => ({
-                type: 'client',
+        const viewItems: PaletteItem[] = role === 'client_coordinator'
+            ? savedViews.filter(v => matches(v.name)).map(v => ({
+                key: `view-${v.id}`,
+                group: 'Saved Views',
+                label: v.name,
+                detail: [SAVED_VIEW_TARGETS.find(t => t.target === v.target)?.label, v.client && `shared with ${v.client.name}`].filter(Boolean).join(' · '),
+                icon: <Bookmark size={14} />,
+                action: () => openSavedView(v)
+            }))
+            : []
+
+        const navItems: PaletteItem[] = dashboardViews(role).map(link => ({
+            key: `nav-${link.view}`,
+            group: 'Navigation',
+            label: `Go to ${link.label}`,
+            icon: VIEW_ICONS[link.view] || <LayoutGrid size={14} />,
+            action: () => navigateDashboard({ view: link.view })
+        }))
+
+        const actionItems: PaletteItem[] = [
+            { key: 'theme', group: 'Actions', label: 'Toggle Theme', icon: theme === 'dark' ? <Sun size={14} /> : <Moon size={14} />, action: toggleTheme },
+            { key: 'logout', group: 'Actions', label: 'Logout', icon: <LogOut size={14} />, action: signOut }
+        ]
+
+        if (!q) return [...timerItems, actionItems[0]]
+
+        // Kinds in order of their best hit; hits keep the server's ranking
+        const hits = q.length >= 2 ? searchResults : []
+        const searchKinds = [...new Set(hits.map(r => r.kind))]
+        const searchItems: PaletteItem[] = searchKinds.flatMap(kind => hits
+            .filter(r => r.kind === kind)
+            .flatMap(result => {
+                const action = searchAction(result)
+                return action ? [{
+                    key: `${kind}-${result.id}`,
+                    group: SEARCH_GROUPS[kind].label,
+                    label: result.title,
+                    detail: result.snippet,
+                    icon: SEARCH_GROUPS[kind].icon,
+                    action
+                }] : []
+            }))
+
+        // Coordinators land on the client's dashboard
+        const clientItems: PaletteItem[] = role === 'client_coordinator'
+            ? clients.filter(c => matches(c.name)).map(c => ({
+                key: `client-${c.id}`,
+                group: 'Clients',
                 label: c.name,
                 icon: <Briefcase size={14} />,
-                id: c.id
+                action: () => navigateDashboard({ view: 'dashboard', clientId: c.id })
             }))
+            : []
 
-        const actions = [
-            { type: 'action', label: 'Toggle Theme', icon: theme === 'dark' ? <Sun size={14} /> : <Moon size={14} />, action: toggleTheme },
-            { type: 'nav', label: 'Go to Dashboard', icon: <LayoutGrid size={14} />, view: 'dashboard' },
-            { type: 'nav', label: 'Go to Tasks', icon: <CheckSquare size={14} />, view: 'tasks' },
-            { type: 'nav', label: 'Go to Meetings', icon: <Calendar size={14} />, view: 'meetings' },
-            { type: 'nav', label: 'Go to Profile', icon: <User size={14} />, view: 'profile' },
-            { type: 'action', label: 'Logout', icon: <LogOut size={14} />, action: () => { signOut(); setIsOpen(false) } },
-        ].filter(a => a.label.toLowerCase().includes(query.toLowerCase()))
+        return [
+            ...timerItems.filter(item => item.key !== 'timer-stop' || matches(`${item.label} ${item.detail || ''}`)),
+            ...searchItems,
+            ...clientItems,
+            ...viewItems,
+            ...navItems.filter(item => matches(item.label)),
+            ...actionItems.filter(item => matches(item.label))
+        ]
+    }
 
-        setResults([...actions, ...filteredClients])
-        setSelectedIndex(0)
+    const results = isOpen ? buildItems() : []
 
-    }, [query, clients, theme])
-
-
-    const handleSelect = (item: any) => {
-        if (item.type === 'action') {
-            item.action()
-            setIsOpen(false)
-        } else if (item.type === 'nav') {
-            window.dispatchEvent(new CustomEvent('dashboard-navigate', { detail: { view: item.view } }))
-            setIsOpen(false)
-        } else if (item.type === 'client') {
-            // Navigate or perform client action
-            console.log('Selected client', item)
-            // For now just close
-            setIsOpen(false)
-        }
+    const handleSelect = (item: PaletteItem) => {
+        item.action()
+        close()
     }
 
     const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -108,129 +250,153 @@ export default function CommandPalette() {
         }
     }
 
-    if (!isOpen) return null
+    const taskModal = (
+        <TaskDetailsModal
+            key={openTask?.id}
+            isOpen={!!openTask}
+            onClose={() => setOpenTask(null)}
+            task={openTask}
+            onUpdate={() => openTask && openTaskById(openTask.id)}
+        />
+    )
+
+    if (!isOpen) return taskModal
 
     return (
-        <div
-            style={{
-                position: 'fixed',
-                inset: 0,
-                zIndex: 9999, // Super high z-index
-                background: 'rgba(0,0,0,0.5)',
-                backdropFilter: 'blur(2px)',
-                display: 'flex',
-                alignItems: 'flex-start',
-                justifyContent: 'center',
-                paddingTop: '10vh'
-            }}
-            onClick={() => setIsOpen(false)}
-        >
+        <>
+            {taskModal}
             <div
                 style={{
-                    width: '100%',
-                    maxWidth: '600px',
-                    background: 'var(--bg-secondary)',
-                    borderRadius: '12px',
-                    boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 10px -5px rgba(0, 0, 0, 0.04)',
-                    overflow: 'hidden',
-                    border: '1px solid var(--border-color)',
+                    position: 'fixed',
+                    inset: 0,
+                    zIndex: 9999, // Super high z-index
+                    background: 'rgba(0,0,0,0.5)',
+                    backdropFilter: 'blur(2px)',
                     display: 'flex',
-                    flexDirection: 'column'
+                    alignItems: 'flex-start',
+                    justifyContent: 'center',
+                    paddingTop: '10vh'
                 }}
-                onClick={e => e.stopPropagation()}
+                onClick={close}
             >
-                <div style={{
-                    display: 'flex',
-                    alignItems: 'center',
-                    padding: '1rem',
-                    borderBottom: '1px solid var(--border-color)',
-                    gap: '0.75rem'
-                }}>
-                    <Search className="text-gray-400" size={20} />
-                    <input
-                        autoFocus
-                        type="text"
-                        placeholder="Type a command or search..."
-                        value={query}
-                        onChange={e => setQuery(e.target.value)}
-                        onKeyDown={handleKeyDown}
-                        style={{
-                            width: '100%',
-                            background: 'transparent',
-                            border: 'none',
-                            outline: 'none',
-                            fontSize: '1.1rem',
-                            color: 'var(--text-primary)'
-                        }}
-                    />
+                <div
+                    style={{
+                        width: '100%',
+                        maxWidth: '600px',
+                        background: 'var(--bg-secondary)',
+                        borderRadius: '12px',
+                        boxShadow: '0 20px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 10px -5px rgba(0, 0, 0, 0.04)',
+                        overflow: 'hidden',
+                        border: '1px solid var(--border-color)',
+                        display: 'flex',
+                        flexDirection: 'column'
+                    }}
+                    onClick={e => e.stopPropagation()}
+                >
                     <div style={{
-                        fontSize: '0.75rem',
-                        color: 'var(--text-secondary)',
-                        padding: '0.2rem 0.5rem',
-                        background: 'var(--bg-tertiary)',
-                        borderRadius: '4px',
-                        fontWeight: '500'
+                        display: 'flex',
+                        alignItems: 'center',
+                        padding: '1rem',
+                        borderBottom: '1px solid var(--border-color)',
+                        gap: '0.75rem'
                     }}>
-                        ESC
+                        <Search className="text-gray-400" size={20} />
+                        <input
+                            autoFocus
+                            type="text"
+                            placeholder="Type a command or search..."
+                            value={query}
+                            onChange={e => {
+                                setQuery(e.target.value)
+                                setSelectedIndex(0)
+                            }}
+                            onKeyDown={handleKeyDown}
+                            style={{
+                                width: '100%',
+                                background: 'transparent',
+                                border: 'none',
+                                outline: 'none',
+                                fontSize: '1.1rem',
+                                color: 'var(--text-primary)'
+                            }}
+                        />
+                        <div style={{
+                            fontSize: '0.75rem',
+                            color: 'var(--text-secondary)',
+                            padding: '0.2rem 0.5rem',
+                            background: 'var(--bg-tertiary)',
+                            borderRadius: '4px',
+                            fontWeight: '500'
+                        }}>
+                            ESC
+                        </div>
                     </div>
-                </div>
 
-                <div style={{ maxHeight: '400px', overflowY: 'auto', padding: '0.5rem' }}>
-                    {results.length === 0 ? (
-                        <div style={{ padding: '2rem', textAlign: 'center', color: 'var(--text-secondary)' }}>
-                            No results found.
-                        </div>
-                    ) : (
-                        results.map((item, index) => (
-                            <div
-                                key={index}
-                                onClick={() => handleSelect(item)}
-                                onMouseEnter={() => setSelectedIndex(index)}
-                                style={{
-                                    padding: '0.75rem 1rem',
-                                    display: 'flex',
-                                    alignItems: 'center',
-                                    gap: '0.75rem',
-                                    borderRadius: '8px',
-                                    cursor: 'pointer',
-                                    background: index === selectedIndex ? 'var(--bg-primary)' : 'transparent',
-                                    color: index === selectedIndex ? 'var(--accent-color)' : 'var(--text-primary)',
-                                    transition: 'all 0.1s'
-                                }}
-                            >
-                                <div style={{
-                                    opacity: index === selectedIndex ? 1 : 0.7,
-                                    display: 'flex',
-                                    alignItems: 'center'
-                                }}>
-                                    {item.icon}
-                                </div>
-                                <div style={{ flex: 1, display: 'flex', flexDirection: 'column' }}>
-                                    <span style={{ fontSize: '0.95rem', fontWeight: '500' }}>{item.label}</span>
-                                    {item.type === 'client' && <span style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>Client</span>}
-                                    {item.type === 'action' && <span style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>Action</span>}
-                                    {item.type === 'nav' && <span style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>Navigation</span>}
-                                </div>
-                                {index === selectedIndex && <ArrowRight size={16} style={{ opacity: 0.5 }} />}
+                    <div style={{ maxHeight: '400px', overflowY: 'auto', padding: '0.5rem' }}>
+                        {results.length === 0 ? (
+                            <div style={{ padding: '2rem', textAlign: 'center', color: 'var(--text-secondary)' }}>
+                                {searching ? <Loader2 size={18} className="animate-spin" /> : 'No results found.'}
                             </div>
-                        ))
-                    )}
-                </div>
+                        ) : (
+                            results.map((item, index) => (
+                                <Fragment key={item.key}>
+                                    {item.group !== results[index - 1]?.group && (
+                                        <div style={{ padding: '0.5rem 1rem 0.25rem', fontSize: '0.7rem', fontWeight: '700', textTransform: 'uppercase', letterSpacing: '0.05em', color: 'var(--text-secondary)' }}>
+                                            {item.group}
+                                        </div>
+                                    )}
+                                    <div
+                                        onClick={() => handleSelect(item)}
+                                        onMouseEnter={() => setSelectedIndex(index)}
+                                        style={{
+                                            padding: '0.75rem 1rem',
+                                            display: 'flex',
+                                            alignItems: 'center',
+                                            gap: '0.75rem',
+                                            borderRadius: '8px',
+                                            cursor: 'pointer',
+                                            background: index === selectedIndex ? 'var(--bg-primary)' : 'transparent',
+                                            color: index === selectedIndex ? 'var(--accent-color)' : 'var(--text-primary)',
+                                            transition: 'all 0.1s'
+                                        }}
+                                    >
+                                        <div style={{
+                                            opacity: index === selectedIndex ? 1 : 0.7,
+                                            display: 'flex',
+                                            alignItems: 'center'
+                                        }}>
+                                            {item.icon}
+                                        </div>
+                                        <div style={{ flex: 1, display: 'flex', flexDirection: 'column' }}>
+                                            <span style={{ fontSize: '0.95rem', fontWeight: '500' }}>{item.label}</span>
+                                            {item.detail && (
+                                                <span style={{ fontSize: '0.75rem', color: 'var(--text-secondary)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                                    <Snippet text={item.detail} />
+                                                </span>
+                                            )}
+                                        </div>
+                                        {index === selectedIndex && <ArrowRight size={16} style={{ opacity: 0.5 }} />}
+                                    </div>
+                                </Fragment>
+                            ))
+                        )}
+                    </div>
 
-                <div style={{
-                    padding: '0.5rem 1rem',
-                    background: 'var(--bg-tertiary)',
-                    borderTop: '1px solid var(--border-color)',
-                    fontSize: '0.75rem',
-                    color: 'var(--text-secondary)',
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'space-between'
-                }}>
-                    <span><strong>↑↓</strong> to navigate</span>
-                    <span><strong>↵</strong> to select</span>
+                    <div style={{
+                        padding: '0.5rem 1rem',
+                        background: 'var(--bg-tertiary)',
+                        borderTop: '1px solid var(--border-color)',
+                        fontSize: '0.75rem',
+                        color: 'var(--text-secondary)',
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'space-between'
+                    }}>
+                        <span><strong>↑↓</strong> to navigate</span>
+                        <span><strong>↵</strong> to select</span>
+                    </div>
                 </div>
             </div>
-        </div>
+        </>
     )
 }
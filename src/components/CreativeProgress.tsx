@@ -1,6 +1,39 @@
 import { useState, useEffect, useRef } from 'react'
-import { supabase } from '../lib/supabase'
+import {
+    listTasks,
+    listStatuses,
+    moveTask,
+    deleteTask,
+    sortStatusesAcrossDepartments,
+    listRecurrences,
+    topUpRecurrences,
+    projectOccurrences,
+    listDependencies,
+    getUnfinishedBlockers,
+    isClosedStatus,
+    isNotStartedStatus,
+    type TaskDependencyItem,
+    type TaskListItem,
+    type SavedViewState,
+    type TaskRecurrenceRow,
+    type TaskStatusRow
+} from '../data'
 import CreativeTaskModal from './CreativeTaskModal'
+import Modal from './Modal'
+import StatusEditor from './StatusEditor'
+import DependencyTimeline from './DependencyTimeline'
+import BulkActionBar from './BulkActionBar'
+import SavedViewsMenu from './SavedViewsMenu'
+import { useRowSelection } from '../lib/useRowSelection'
+import { TASK_GROUPINGS, groupTasks } from '../lib/taskGroups'
+import { confirmWipLimit } from '../lib/wipLimits'
+import { confirmWorkflowMove } from '../lib/workflows'
+import { confirmMoveToTrash } from '../lib/trash'
+import { rankMove, sortByRank } from '../lib/rank'
+import { useViewUrl } from '../lib/viewUrl'
+import { taskMoveCommand, taskTrashCommand } from '../lib/undo'
+import { usePermission } from '../contexts/PermissionsContext'
+import { useUndo } from '../contexts/UndoContext'
 import { DragDropContext, Droppable, Draggable, type DropResult } from '@hello-pangea/dnd'
 import {
     LayoutGrid,
@@ -18,7 +51,14 @@ import {
     ChevronLeft,
     ChevronRight,
     Clock,
-    Filter
+    Filter,
+    Repeat,
+    ChartGantt,
+    Lock,
+    ArrowUp,
+    ArrowDown,
+    ArrowUpDown,
+    Columns3
 } from 'lucide-react'
 import {
     format,
@@ -31,78 +71,66 @@ import {
     addMonths,
     subMonths,
     parseISO,
+    endOfDay,
     isSameWeek,
     isSameMonth
 } from 'date-fns'
 
-interface Task {
-    id: string
-    title: string
-    description?: string
-    content_type: string | null
-    start_date: string | null
-    due_date: string | null
-    status: {
-        id: string
-        label: string
-        color: string
-    } | null
-    assignee?: {
-        id: string
-        full_name: string
-        email: string
-        avatar_url?: string
-    } | null
-    assignees?: {
-        id: string
-        full_name: string
-        email: string
-        avatar_url?: string
-    }[]
-    priority: 'low' | 'medium' | 'high' | null
-    client: {
-        name: string
-    } | null
-    comments_count?: number
-}
+const VIEW_MODES = ['list', 'board', 'calendar', 'timeline'] as const
+type ViewMode = typeof VIEW_MODES[number]
+
+const CALENDAR_GROUPINGS = TASK_GROUPINGS.filter(g => g.key === 'status' || g.key === 'client' || g.key === 'content_type')
 
 interface CreativeProgressProps {
     clientId?: string | null
+    // A saved or bookmarked view to start from
+    initialView?: SavedViewState | null
+    savedViewId?: string | null
+    onSavedViewsChange?: () => void
 }
 
-interface TaskStatus {
-    id: string
-    label: string
-    color: string
-}
+export default function CreativeProgress({ clientId, initialView, savedViewId = null, onSavedViewsChange }: CreativeProgressProps) {
+    const initialFilter = (key: string) => {
+        const value = initialView?.filters[key]
+        return typeof value === 'string' ? value : ''
+    }
 
-export default function CreativeProgress({ clientId }: CreativeProgressProps) {
-    const [tasks, setTasks] = useState<Task[]>([])
-    const [taskStatuses, setTaskStatuses] = useState<TaskStatus[]>([])
+    const [tasks, setTasks] = useState<TaskListItem[]>([])
+    const [taskStatuses, setTaskStatuses] = useState<TaskStatusRow[]>([])
+    const [recurrences, setRecurrences] = useState<TaskRecurrenceRow[]>([])
+    const [dependencies, setDependencies] = useState<TaskDependencyItem[]>([])
     const [loading, setLoading] = useState(true)
-    const [activeTab, setActiveTab] = useState<string>('Overview')
-    const [searchTerm, setSearchTerm] = useState('')
+    const canDeleteTasks = usePermission('task.delete')
+    const { record } = useUndo()
+    const [activeTab, setActiveTab] = useState<string>(initialFilter('tab') || 'Overview')
+    const [searchTerm, setSearchTerm] = useState(initialView?.search || '')
     const [isModalOpen, setIsModalOpen] = useState(false)
 
     // New Status State
-    const [isAddingStatus, setIsAddingStatus] = useState(false)
-    const [newStatusName, setNewStatusName] = useState('')
+    const [isStatusEditorOpen, setIsStatusEditorOpen] = useState(false)
+    const canManageStatuses = usePermission('status.manage')
 
     // New View State
-    const [viewMode, setViewMode] = useState<'list' | 'board' | 'calendar'>('list')
+    const [viewMode, setViewMode] = useState<ViewMode>(VIEW_MODES.find(m => m === initialView?.viewMode) || 'list')
     const [currentDate, setCurrentDate] = useState(new Date())
 
     // Action State
     const [activeOpenMenuId, setActiveOpenMenuId] = useState<string | null>(null)
-    const [taskToEdit, setTaskToEdit] = useState<Task | null>(null)
-    const [filterTimeRange, setFilterTimeRange] = useState<'all' | 'weekly' | 'monthly'>('all')
-    const [showFilters, setShowFilters] = useState(false)
+    const [taskToEdit, setTaskToEdit] = useState<TaskListItem | null>(null)
+    const [filterTimeRange, setFilterTimeRange] = useState<'all' | 'weekly' | 'monthly'>(
+        initialFilter('timeRange') === 'weekly' || initialFilter('timeRange') === 'monthly' ? initialFilter('timeRange') as 'weekly' | 'monthly' : 'all'
+    )
 
     // Filter State
-    const [assigneeFilter, setAssigneeFilter] = useState('')
-    const [contentTypeFilter, setContentTypeFilter] = useState('')
-    const [dateRangeStart, setDateRangeStart] = useState('')
-    const [dateRangeEnd, setDateRangeEnd] = useState('')
+    const [assigneeFilter, setAssigneeFilter] = useState(initialFilter('assignee'))
+    const [contentTypeFilter, setContentTypeFilter] = useState(initialFilter('contentType'))
+    const [dateRangeStart, setDateRangeStart] = useState(initialFilter('dateStart'))
+    const [dateRangeEnd, setDateRangeEnd] = useState(initialFilter('dateEnd'))
+    const [showFilters, setShowFilters] = useState(!!(assigneeFilter || contentTypeFilter || dateRangeStart || dateRangeEnd || initialView?.groupBy))
+
+    // List sort and grouping
+    const [startDateSort, setStartDateSort] = useState<'asc' | 'desc' | null>(initialView?.sort?.key === 'start_date' ? initialView.sort.direction : null)
+    const [groupBy, setGroupBy] = useState<string | null>(initialView?.groupBy ?? null)
 
     const [isMobile, setIsMobile] = useState(false)
 
@@ -122,95 +150,18 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
     const fetchTasks = async () => {
         setLoading(true)
         try {
-            // Fetch Statuses
-            const { data: statusData } = await supabase
-                .from('task_statuses')
-                .select('*')
-                .order('position', { ascending: true }) // Assuming there's a position, if not, id or label.
-
-            if (statusData) {
-                // Determine order or use default if no position
-                // If checking locally, we might want to enforce specific order: To Do -> ... -> Completed
-                const order = ['To Do', 'Shooting', 'Editing', 'CG', 'Review', 'Completed']
-                const sorted = statusData.sort((a, b) => {
-                    const idxA = order.findIndex(o => a.label.includes(o))
-                    const idxB = order.findIndex(o => b.label.includes(o))
-                    return (idxA === -1 ? 99 : idxA) - (idxB === -1 ? 99 : idxB)
-                })
-                // Deduplicate statuses by label
-                const uniqueStatuses = sorted.filter((status, index, self) =>
-                    index === self.findIndex((s) => s.label === status.label)
-                )
-
-                setTaskStatuses(uniqueStatuses)
-            }
+            // Generate any recurring tasks now inside their horizon before listing
+            await topUpRecurrences(await listRecurrences({ clientId }))
+            setRecurrences(await listRecurrences({ clientId }))
 
             // Fetch Tasks
-            let query = supabase
-                .from('tasks')
-                .select(`
-                    id,
-                    title,
-                    description,
-                    department_id,
-                    content_type,
-                    start_date,
-                    due_date,
-                    priority,
-                    status:task_statuses(id, label, color),
-                    assignee:profiles!tasks_assigned_to_fkey(id, full_name, email, avatar_url, status),
-                    assignments:task_assignments(
-                        user:profiles(id, full_name, email, avatar_url, status)
-                    ),
-                    department:departments!inner(
-                        workspace:workspaces!inner(
-                            client:clients!inner(name)
-                        )
-                    ),
-                    task_comments(count)
-                `)
-                .order('created_at', { ascending: false })
-
-            if (clientId) {
-                query = query.eq('department.workspace.client_id', clientId)
-            }
-
-            const { data, error } = await query
-
-
-            if (error) throw error
-
-            const formattedTasks = data.map((t: any) => {
-                // Merge legacy assignee with new assignments
-                const assigneesMap = new Map()
-
-                if (t.assignee) {
-                    assigneesMap.set(t.assignee.id, t.assignee)
-                }
+            const { tasks: data } = await listTasks({ clientId })
+            setTasks(data)
 
-                if (t.assignments) {
-                    t.assignments.forEach((a: any) => {
-                        if (a.user) assigneesMap.set(a.user.id, a.user)
-                    })
-                }
-
-                return {
-                    id: t.id,
-                    title: t.title,
-                    description: t.description,
-                    department_id: t.department_id,
-                    content_type: t.content_type,
-                    start_date: t.start_date,
-                    due_date: t.due_date,
-                    priority: t.priority,
-                    status: t.status,
-                    assignees: Array.from(assigneesMap.values()),
-                    client: t.department?.workspace?.client,
-                    comments_count: t.task_comments?.[0]?.count || 0
-                }
-            })
-
-            setTasks(formattedTasks)
+            // Each department's columns, lined up by category: backlog -> ... -> done
+            const departmentIds = [...new Set(data.map(t => t.department_id))]
+            setTaskStatuses(sortStatusesAcrossDepartments(await listStatuses({ departmentIds })))
+            setDependencies(await listDependencies({ clientId }))
         } catch (error) {
             console.error('Error fetching data:', error)
         } finally {
@@ -237,28 +188,45 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
 
         if (!newStatus) return
 
+        const movedTask = tasks.find(t => t.id === draggableId)
+        if (movedTask && newStatus.department_id !== movedTask.department_id) {
+            alert(`"${movedTask.title}" belongs to ${movedTask.department?.name || 'another department'}; move it between that department's columns.`)
+            return
+        }
+
+        // Tasks waiting on unfinished blockers stay in the not-started columns
+        if (!isNotStartedStatus(newStatus)) {
+            const blockers = getUnfinishedBlockers(draggableId, dependencies, taskStatuses, tasks)
+            if (blockers.length > 0) {
+                alert(`This task is blocked by: ${blockers.map(b => b.title).join(', ')}. Finish those first.`)
+                return
+            }
+        }
+
+        if (destination.droppableId !== source.droppableId) {
+            if (!await confirmWorkflowMove(draggableId, newStatus.id)) return
+            if (!await confirmWipLimit(newStatus)) return
+        }
+
+        // Place the card among the ones shown in the column
+        const column = sortByRank(filteredTasks.filter(t => t.status_id === newStatus.id))
+        const ranks = rankMove(column, draggableId, destination.index)
+
         // Optimistic Update
         const updatedTasks = tasks.map(t => {
+            const rank = ranks.find(r => r.id === t.id)?.rank ?? t.rank
             if (t.id === draggableId) {
-                return { ...t, status: newStatus }
+                return { ...t, status_id: newStatus.id, status: newStatus, rank }
             }
-            return t
+            return { ...t, rank }
         })
         setTasks(updatedTasks)
 
         // API Update
         try {
-            const { error } = await supabase
-                .from('tasks')
-                .update({ status: targetStatusId }) // Use 'status' if it's the FK column, or 'status_id' if that's the name. Usually `status` in render is object, but column is likely `status_id`.
-                // Wait, Supabase returns object for relation, but update expects column ID. Column is likely `status_id`.
-                // Let's verify schema if possible, but standard is `status_id` or `status` if defined that way.
-                // Based on previous code `status` was used in `tasks` table? No, it often maps `status_id`.
-                // The select used `status:task_statuses(...)` which means the FK column is `status`.
-                // If the column name is `status`, then `.update({ status: id })` is correct.
-                .eq('id', draggableId)
-
-            if (error) throw error
+            await moveTask(draggableId, targetStatusId, ranks)
+            const command = movedTask && taskMoveCommand(movedTask, newStatus, ranks, fetchTasks)
+            if (command) record(command)
         } catch (error) {
             // Only reload if this was the latest request (prevents stale responses from causing issues)
             if (pendingDragUpdateRef.current === requestId) {
@@ -268,55 +236,26 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
         }
     }
 
-    const handleCreateStatus = async () => {
-        if (!newStatusName.trim()) return
-
-        try {
-            // Find max position
-            // Assuming we fetch all and can check local, but safe to just append or use default.
-            // Let's assume position is handled or we just insert.
-            const { error } = await supabase
-                .from('task_statuses')
-                .insert({
-                    label: newStatusName,
-                    color: '#E5E7EB', // Default grey 
-                    position: taskStatuses.length + 1
-                })
-
-            if (error) throw error
-
-            setNewStatusName('')
-            setIsAddingStatus(false)
-            fetchTasks()
-        } catch (error) {
-            console.error('Error creating status:', error)
-            alert('Failed to create status. It might already exist or you do not have permission.')
-        }
-    }
-
-    const handleShare = (task: Task) => {
+    const handleShare = (task: TaskListItem) => {
         // Create a shareable text or link
         const text = `Task: ${task.title}\nClient: ${task.client?.name}\nDue: ${task.due_date ? format(new Date(task.due_date), 'PPP') : 'No due date'}`
         navigator.clipboard.writeText(text)
         alert('Task details copied to clipboard!')
     }
 
-    const handleEdit = (task: Task) => {
+    const handleEdit = (task: TaskListItem) => {
         setTaskToEdit(task)
         setIsModalOpen(true)
         setActiveOpenMenuId(null)
     }
 
-    const handleDelete = async (taskId: string) => {
-        if (!confirm('Are you sure you want to delete this task?')) return
+    const handleDelete = async (task: TaskListItem) => {
+        if (!canDeleteTasks) return
+        if (!await confirmMoveToTrash('task', task.id, task.title)) return
 
         try {
-            const { error } = await supabase
-                .from('tasks')
-                .delete()
-                .eq('id', taskId)
-
-            if (error) throw error
+            const deletionId = await deleteTask(task.id)
+            record(taskTrashCommand(task, deletionId, fetchTasks))
 
             setActiveOpenMenuId(null)
             fetchTasks()
@@ -361,6 +300,8 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
         };
     }
 
+    const spansDepartments = new Set(taskStatuses.map(s => s.department_id)).size > 1
+
     const filteredTasks = tasks.filter(task => {
         const matchesSearch = task.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
             task.client?.name.toLowerCase().includes(searchTerm.toLowerCase())
@@ -458,6 +399,12 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
         else matchesTab = task.content_type === activeTab
 
         return matchesSearch && matchesTime && matchesDateRange && matchesAssignee && matchesType && matchesTab
+    }).sort((a, b) => {
+        if (!startDateSort) return 0
+        // Undated tasks go last either way
+        if (!a.start_date || !b.start_date) return (a.start_date ? -1 : 0) + (b.start_date ? 1 : 0)
+        const diff = new Date(a.start_date).getTime() - new Date(b.start_date).getTime()
+        return startDateSort === 'asc' ? diff : -diff
     })
 
     // Dynamic Tabs
@@ -472,6 +419,32 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
     // Filter out if activeTab is not in list (unless it's Overview)
     // Actually, we want to show all types that exist or are base.
 
+    // Groups keep the sort; selection ranges follow the grouped order
+    const taskGroups = groupTasks(filteredTasks, groupBy)
+    const selection = useRowSelection(taskGroups.flatMap(g => g.tasks.map(t => t.id)))
+    const selectedTasks = filteredTasks.filter(t => selection.isSelected(t.id))
+
+    const toggleStartDateSort = () => {
+        setStartDateSort(current => current === null ? 'asc' : current === 'asc' ? 'desc' : null)
+    }
+
+    const viewState: SavedViewState = {
+        viewMode,
+        search: searchTerm,
+        filters: {
+            tab: activeTab,
+            assignee: assigneeFilter,
+            contentType: contentTypeFilter,
+            dateStart: dateRangeStart,
+            dateEnd: dateRangeEnd,
+            timeRange: filterTimeRange
+        },
+        sort: startDateSort ? { key: 'start_date', direction: startDateSort } : null,
+        groupBy,
+        columns: []
+    }
+    useViewUrl({ view: 'creative-progress', clientId, savedViewId, state: viewState })
+
 
     return (
         <div style={{ padding: '2rem', height: '100%', display: 'flex', flexDirection: 'column' }}>
@@ -488,11 +461,12 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
                         {[
                             { id: 'list', icon: List, label: 'List' },
                             { id: 'board', icon: Kanban, label: 'Board' },
-                            { id: 'calendar', icon: CalendarIcon, label: 'Calendar' }
+                            { id: 'calendar', icon: CalendarIcon, label: 'Calendar' },
+                            { id: 'timeline', icon: ChartGantt, label: 'Timeline' }
                         ].map(view => (
                             <button
                                 key={view.id}
-                                onClick={() => setViewMode(view.id as any)}
+                                onClick={() => setViewMode(view.id as ViewMode)}
                                 title={view.label}
                                 style={{
                                     padding: '0.4rem',
@@ -563,6 +537,8 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
                                     setContentTypeFilter('');
                                     setDateRangeStart('');
                                     setDateRangeEnd('');
+                                    setStartDateSort(null);
+                                    setGroupBy(null);
                                 }}
                                 style={{
                                     padding: '0.5rem 1rem',
@@ -641,7 +617,13 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
                                     Monthly
                                 </button>
                             </div>
-                            {/* Save View button removed */}
+                            <SavedViewsMenu
+                                target="creative-progress"
+                                state={viewState}
+                                clientId={clientId || null}
+                                activeViewId={savedViewId}
+                                onChange={onSavedViewsChange}
+                            />
                             <button
                                 onClick={() => setIsModalOpen(true)}
                                 style={{
@@ -681,11 +663,10 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
                                 }}
                             >
                                 <option value="">All Assignees</option>
-                                {Array.from(new Set(tasks.flatMap(t => t.assignees?.map(a => JSON.stringify({ id: a.id, name: a.full_name || a.email, status: (a as any).status })) || [])))
-                                    .map(str => JSON.parse(str))
-                                    .filter((assignee: any) => assignee.status !== 'inactive')
-                                    .map((assignee: any) => (
-                                        <option key={assignee.id} value={assignee.id}>{assignee.name}</option>
+                                {Array.from(new Map(tasks.flatMap(t => t.assignees).map(a => [a.id, a])).values())
+                                    .filter(assignee => assignee.status !== 'inactive')
+                                    .map(assignee => (
+                                        <option key={assignee.id} value={assignee.id}>{assignee.full_name || assignee.email}</option>
                                     ))
                                 }
                             </select>
@@ -750,6 +731,29 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
                             />
                         </div>
 
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                            <label style={{ fontSize: '0.75rem', fontWeight: '600', color: 'var(--text-secondary)' }}>Group List By</label>
+                            <select
+                                value={groupBy || ''}
+                                onChange={(e) => setGroupBy(e.target.value || null)}
+                                style={{
+                                    padding: '0.5rem',
+                                    borderRadius: '6px',
+                                    border: '1px solid var(--border-color)',
+                                    background: 'var(--bg-tertiary)',
+                                    color: 'var(--text-primary)',
+                                    outline: 'none',
+                                    fontSize: '0.875rem',
+                                    minWidth: '150px'
+                                }}
+                            >
+                                <option value="">No Grouping</option>
+                                {CALENDAR_GROUPINGS.map(g => (
+                                    <option key={g.key} value={g.key}>{g.label}</option>
+                                ))}
+                            </select>
+                        </div>
+
                         {(assigneeFilter || contentTypeFilter || dateRangeStart || dateRangeEnd) && (
                             <button
                                 onClick={() => {
@@ -802,7 +806,7 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
                         {/* Table Header */}
                         <div style={{
                             display: 'grid',
-                            gridTemplateColumns: '150px 150px 1fr 200px 150px 50px',
+                            gridTemplateColumns: '32px 150px 150px 1fr 200px 150px 50px',
                             padding: '0.75rem 1.5rem',
                             borderBottom: '1px solid var(--border-color)',
                             background: 'var(--bg-tertiary)',
@@ -812,7 +816,24 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
                             textTransform: 'uppercase',
                             letterSpacing: '0.05em'
                         }}>
-                            <div>Start Date</div>
+                            <div>
+                                <input
+                                    type="checkbox"
+                                    checked={filteredTasks.length > 0 && selectedTasks.length === filteredTasks.length}
+                                    onChange={selection.toggleAll}
+                                    title="Select all"
+                                    style={{ accentColor: 'var(--accent-color)', cursor: 'pointer' }}
+                                />
+                            </div>
+                            <div
+                                onClick={toggleStartDateSort}
+                                style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', cursor: 'pointer', userSelect: 'none' }}
+                            >
+                                Start Date
+                                {startDateSort === 'asc' && <ArrowUp size={14} />}
+                                {startDateSort === 'desc' && <ArrowDown size={14} />}
+                                {startDateSort === null && <ArrowUpDown size={14} style={{ opacity: 0.5 }} />}
+                            </div>
                             <div>Client</div>
                             <div>Content Title</div>
                             <div>Designer</div>
@@ -826,171 +847,197 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
                                 <div style={{ padding: '2rem', textAlign: 'center', color: 'var(--text-secondary)' }}>Loading tasks...</div>
                             ) : filteredTasks.length === 0 ? (
                                 <div style={{ padding: '2rem', textAlign: 'center', color: 'var(--text-secondary)' }}>No tasks found.</div>
-                            ) : (
-                                filteredTasks.map(task => (
-                                    <div key={task.id} style={{
-                                        display: 'grid',
-                                        gridTemplateColumns: '150px 150px 1fr 200px 150px 50px',
-                                        padding: '1rem 1.5rem',
-                                        borderBottom: '1px solid var(--border-color)',
-                                        alignItems: 'center',
-                                        transition: 'background 0.2s',
-                                        cursor: 'pointer'
-                                    }}
-                                        onMouseEnter={(e) => e.currentTarget.style.background = 'var(--bg-tertiary)'}
-                                        onMouseLeave={(e) => e.currentTarget.style.background = 'transparent'}
-                                    >
-                                        <div style={{ fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
-                                            {task.start_date ? new Date(task.start_date).toLocaleDateString() : '-'}
-                                        </div>
-                                        <div>
-                                            <span style={{
-                                                padding: '0.2rem 0.5rem',
-                                                fontWeight: '500',
-                                                ...getClientColor(task.client?.name || '')
-                                            }}>
-                                                {task.client?.name || 'Unknown'}
-                                            </span>
-                                        </div>
-                                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', fontWeight: '500' }}>
-                                            {getTypeIcon(task.content_type)}
-                                            {task.title}
+                            ) : taskGroups.map(group => (
+                                <div key={group.key}>
+                                    {groupBy && (
+                                        <div style={{
+                                            padding: '0.6rem 1.5rem',
+                                            borderBottom: '1px solid var(--border-color)',
+                                            background: 'var(--bg-tertiary)',
+                                            fontSize: '0.8rem',
+                                            fontWeight: '600',
+                                            display: 'flex',
+                                            alignItems: 'center',
+                                            gap: '0.5rem'
+                                        }}>
+                                            {group.label}
+                                            <span style={{ fontSize: '0.7rem', fontWeight: '500', color: 'var(--text-secondary)' }}>{group.tasks.length}</span>
                                         </div>
-                                        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
-                                            {task.assignees && task.assignees.length > 0 ? (
-                                                task.assignees.map((assignee: any) => (
-                                                    <div key={assignee.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
-                                                        <div style={{ width: 20, height: 20, borderRadius: '50%', background: 'linear-gradient(135deg, #8b5cf6 0%, #ec4899 100%)', display: 'flex', alignItems: 'center', justifyContent: 'center', color: 'white', fontSize: '0.65rem', boxShadow: 'none' }}>
-                                                            {(assignee.full_name || assignee.email || 'U')[0].toUpperCase()}
+                                    )}
+                                    {group.tasks.map(task => (
+                                        <div key={task.id} style={{
+                                            display: 'grid',
+                                            gridTemplateColumns: '32px 150px 150px 1fr 200px 150px 50px',
+                                            padding: '1rem 1.5rem',
+                                            borderBottom: '1px solid var(--border-color)',
+                                            alignItems: 'center',
+                                            transition: 'background 0.2s',
+                                            cursor: 'pointer',
+                                            background: selection.isSelected(task.id) ? 'rgba(139, 92, 246, 0.1)' : 'transparent'
+                                        }}
+                                            onMouseEnter={(e) => e.currentTarget.style.background = 'var(--bg-tertiary)'}
+                                            onMouseLeave={(e) => e.currentTarget.style.background = selection.isSelected(task.id) ? 'rgba(139, 92, 246, 0.1)' : 'transparent'}
+                                        >
+                                            <div>
+                                                <input
+                                                    type="checkbox"
+                                                    checked={selection.isSelected(task.id)}
+                                                    onChange={e => selection.toggle(task.id, (e.nativeEvent as MouseEvent).shiftKey)}
+                                                    onClick={e => e.stopPropagation()}
+                                                    style={{ accentColor: 'var(--accent-color)', cursor: 'pointer' }}
+                                                />
+                                            </div>
+                                            <div style={{ fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
+                                                {task.start_date ? new Date(task.start_date).toLocaleDateString() : '-'}
+                                            </div>
+                                            <div>
+                                                <span style={{
+                                                    padding: '0.2rem 0.5rem',
+                                                    fontWeight: '500',
+                                                    ...getClientColor(task.client?.name || '')
+                                                }}>
+                                                    {task.client?.name || 'Unknown'}
+                                                </span>
+                                            </div>
+                                            <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', fontWeight: '500' }}>
+                                                {getTypeIcon(task.content_type)}
+                                                {task.title}
+                                            </div>
+                                            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                                                {task.assignees.length > 0 ? (
+                                                    task.assignees.map(assignee => (
+                                                        <div key={assignee.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                                                            <div style={{ width: 20, height: 20, borderRadius: '50%', background: 'linear-gradient(135deg, #8b5cf6 0%, #ec4899 100%)', display: 'flex', alignItems: 'center', justifyContent: 'center', color: 'white', fontSize: '0.65rem', boxShadow: 'none' }}>
+                                                                {(assignee.full_name || assignee.email || 'U')[0].toUpperCase()}
+                                                            </div>
+                                                            <span style={{ fontSize: '0.875rem' }}>{assignee.full_name || assignee.email}</span>
+                                                        </div>
+                                                    ))
+                                                ) : (
+                                                    <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                                                        <div style={{ width: 20, height: 20, borderRadius: '50%', background: '#e5e7eb', display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#6b7280', fontSize: '0.65rem' }}>
+                                                            U
                                                         </div>
-                                                        <span style={{ fontSize: '0.875rem' }}>{assignee.full_name || assignee.email}</span>
+                                                        <span style={{ fontSize: '0.875rem', color: 'var(--text-secondary)' }}>Unassigned</span>
                                                     </div>
-                                                ))
-                                            ) : (
-                                                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
-                                                    <div style={{ width: 20, height: 20, borderRadius: '50%', background: '#e5e7eb', display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#6b7280', fontSize: '0.65rem' }}>
-                                                        U
+                                                )}
+                                            </div>
+                                            <div>
+                                                <span style={{
+                                                    padding: '0.2rem 0.6rem',
+                                                    borderRadius: '12px',
+                                                    fontSize: '0.75rem',
+                                                    fontWeight: '500',
+                                                    background: 'transparent',
+                                                    border: '1px solid rgba(255, 255, 255, 0.2)',
+                                                    ...(() => {
+                                                        if (isClosedStatus(task.status)) {
+                                                            return { color: '#4ade80', borderColor: 'rgba(74, 222, 128, 0.4)' } // Green
+                                                        }
+                                                        if (!isNotStartedStatus(task.status)) {
+                                                            return { color: '#facc15', borderColor: 'rgba(250, 204, 21, 0.4)' } // Yellow
+                                                        }
+                                                        // Default / To Do
+                                                        return { color: '#f87171', borderColor: 'rgba(248, 113, 113, 0.4)' } // Red
+                                                    })()
+                                                }}>
+                                                    {task.status?.label || 'No Status'}
+                                                </span>
+                                            </div>
+                                            <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', justifyContent: 'flex-end' }}>
+                                                {(task.comments_count || 0) > 0 && (
+                                                    <div title={`${task.comments_count} comments`} style={{ display: 'flex', alignItems: 'center', gap: '2px', fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                                                        <MessageSquare size={14} />
+                                                        <span>{task.comments_count}</span>
                                                     </div>
-                                                    <span style={{ fontSize: '0.875rem', color: 'var(--text-secondary)' }}>Unassigned</span>
-                                                </div>
-                                            )}
-                                        </div>
-                                        <div>
-                                            <span style={{
-                                                padding: '0.2rem 0.6rem',
-                                                borderRadius: '12px',
-                                                fontSize: '0.75rem',
-                                                fontWeight: '500',
-                                                background: 'transparent',
-                                                border: '1px solid rgba(255, 255, 255, 0.2)',
-                                                ...(() => {
-                                                    const label = task.status?.label || 'Unknown'
-                                                    const l = label.toLowerCase()
-
-                                                    if (l.includes('done') || l.includes('complete')) {
-                                                        return { color: '#4ade80', borderColor: 'rgba(74, 222, 128, 0.4)' } // Green
-                                                    }
-                                                    if (l.includes('progress') || l.includes('going') || l.includes('review') || l.includes('shoot')) {
-                                                        return { color: '#facc15', borderColor: 'rgba(250, 204, 21, 0.4)' } // Yellow
-                                                    }
-                                                    // Default / To Do
-                                                    return { color: '#f87171', borderColor: 'rgba(248, 113, 113, 0.4)' } // Red
-                                                })()
-                                            }}>
-                                                {task.status?.label || 'No Status'}
-                                            </span>
-                                        </div>
-                                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', justifyContent: 'flex-end' }}>
-                                            {(task.comments_count || 0) > 0 && (
-                                                <div title={`${task.comments_count} comments`} style={{ display: 'flex', alignItems: 'center', gap: '2px', fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
-                                                    <MessageSquare size={14} />
-                                                    <span>{task.comments_count}</span>
-                                                </div>
-                                            )}
-                                            <button
-                                                onClick={(e) => {
-                                                    e.stopPropagation()
-                                                    handleShare(task)
-                                                }}
-                                                title="Share Task"
-                                                style={{ padding: '0.25rem', color: 'var(--text-secondary)', background: 'transparent', border: 'none', cursor: 'pointer' }}
-                                            >
-                                                <Share2 size={16} />
-                                            </button>
-
-                                            <div style={{ position: 'relative' }}>
+                                                )}
                                                 <button
                                                     onClick={(e) => {
                                                         e.stopPropagation()
-                                                        setActiveOpenMenuId(activeOpenMenuId === task.id ? null : task.id)
+                                                        handleShare(task)
                                                     }}
+                                                    title="Share Task"
                                                     style={{ padding: '0.25rem', color: 'var(--text-secondary)', background: 'transparent', border: 'none', cursor: 'pointer' }}
                                                 >
-                                                    <MoreHorizontal size={16} />
+                                                    <Share2 size={16} />
                                                 </button>
 
-                                                {activeOpenMenuId === task.id && (
-                                                    <div style={{
-                                                        position: 'absolute',
-                                                        right: 0,
-                                                        top: '100%',
-                                                        background: 'var(--bg-secondary)', // Use theme bg
-                                                        border: '1px solid var(--border-color)',
-                                                        borderRadius: '8px',
-                                                        boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
-                                                        zIndex: 50,
-                                                        minWidth: '120px',
-                                                        overflow: 'hidden'
-                                                    }}>
-                                                        <button
-                                                            onClick={(e) => {
-                                                                e.stopPropagation()
-                                                                handleEdit(task)
-                                                            }}
-                                                            style={{
-                                                                display: 'block',
-                                                                width: '100%',
-                                                                textAlign: 'left',
-                                                                padding: '0.5rem 1rem',
-                                                                border: 'none',
-                                                                background: 'transparent', // Transparent to show container bg
-                                                                cursor: 'pointer',
-                                                                fontSize: '0.875rem',
-                                                                color: 'var(--text-primary)' // Use theme text
-                                                            }}
-                                                            onMouseEnter={(e) => e.currentTarget.style.background = 'var(--bg-tertiary)'}
-                                                            onMouseLeave={(e) => e.currentTarget.style.background = 'transparent'}
-                                                        >
-                                                            Edit
-                                                        </button>
-                                                        <button
-                                                            onClick={(e) => {
-                                                                e.stopPropagation()
-                                                                handleDelete(task.id)
-                                                            }}
-                                                            style={{
-                                                                display: 'block',
-                                                                width: '100%',
-                                                                textAlign: 'left',
-                                                                padding: '0.5rem 1rem',
-                                                                border: 'none',
-                                                                background: 'transparent',
-                                                                cursor: 'pointer',
-                                                                fontSize: '0.875rem',
-                                                                color: 'var(--danger-color)'
-                                                            }}
-                                                            onMouseEnter={(e) => e.currentTarget.style.background = 'rgba(239, 68, 68, 0.1)'}
-                                                            onMouseLeave={(e) => e.currentTarget.style.background = 'transparent'}
-                                                        >
-                                                            Delete
-                                                        </button>
-                                                    </div>
-                                                )}
+                                                <div style={{ position: 'relative' }}>
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation()
+                                                            setActiveOpenMenuId(activeOpenMenuId === task.id ? null : task.id)
+                                                        }}
+                                                        style={{ padding: '0.25rem', color: 'var(--text-secondary)', background: 'transparent', border: 'none', cursor: 'pointer' }}
+                                                    >
+                                                        <MoreHorizontal size={16} />
+                                                    </button>
+
+                                                    {activeOpenMenuId === task.id && (
+                                                        <div style={{
+                                                            position: 'absolute',
+                                                            right: 0,
+                                                            top: '100%',
+                                                            background: 'var(--bg-secondary)', // Use theme bg
+                                                            border: '1px solid var(--border-color)',
+                                                            borderRadius: '8px',
+                                                            boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
+                                                            zIndex: 50,
+                                                            minWidth: '120px',
+                                                            overflow: 'hidden'
+                                                        }}>
+                                                            <button
+                                                                onClick={(e) => {
+                                                                    e.stopPropagation()
+                                                                    handleEdit(task)
+                                                                }}
+                                                                style={{
+                                                                    display: 'block',
+                                                                    width: '100%',
+                                                                    textAlign: 'left',
+                                                                    padding: '0.5rem 1rem',
+                                                                    border: 'none',
+                                                                    background: 'transparent', // Transparent to show container bg
+                                                                    cursor: 'pointer',
+                                                                    fontSize: '0.875rem',
+                                                                    color: 'var(--text-primary)' // Use theme text
+                                                                }}
+                                                                onMouseEnter={(e) => e.currentTarget.style.background = 'var(--bg-tertiary)'}
+                                                                onMouseLeave={(e) => e.currentTarget.style.background = 'transparent'}
+                                                            >
+                                                                Edit
+                                                            </button>
+                                                            {canDeleteTasks && (
+                                                                <button
+                                                                    onClick={(e) => {
+                                                                        e.stopPropagation()
+                                                                        handleDelete(task)
+                                                                    }}
+                                                                    style={{
+                                                                        display: 'block',
+                                                                        width: '100%',
+                                                                        textAlign: 'left',
+                                                                        padding: '0.5rem 1rem',
+                                                                        border: 'none',
+                                                                        background: 'transparent',
+                                                                        cursor: 'pointer',
+                                                                        fontSize: '0.875rem',
+                                                                        color: 'var(--danger-color)'
+                                                                    }}
+                                                                    onMouseEnter={(e) => e.currentTarget.style.background = 'rgba(239, 68, 68, 0.1)'}
+                                                                    onMouseLeave={(e) => e.currentTarget.style.background = 'transparent'}
+                                                                >
+                                                                    Delete
+                                                                </button>
+                                                            )}
+                                                        </div>
+                                                    )}
+                                                </div>
                                             </div>
                                         </div>
-                                    </div>
-                                ))
-                            )}
+                                    ))}
+                                </div>
+                            ))}
                         </div>
                     </div>
                 )}
@@ -1000,8 +1047,8 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
                     <DragDropContext onDragEnd={handleDragEnd}>
                         <div style={{ flex: 1, overflowX: 'auto', overflowY: 'hidden', display: 'flex', gap: '1rem', paddingBottom: '0.5rem' }}>
                             {taskStatuses.map(status => {
-                                // Match by Label instead of ID to merge duplicates visually
-                                const columnTasks = filteredTasks.filter(t => t.status?.label === status.label)
+                                const columnTasks = sortByRank(filteredTasks.filter(t => t.status_id === status.id))
+                                const departmentName = spansDepartments ? tasks.find(t => t.department_id === status.department_id)?.department?.name : undefined
 
                                 return (
                                     <Droppable key={status.id} droppableId={status.id}>
@@ -1016,7 +1063,10 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
                                                 }}
                                             >
                                                 <div style={{ padding: '1rem', borderBottom: '1px solid var(--border-color)', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                                                    <h3 style={{ fontSize: '0.875rem', fontWeight: '600', color: 'var(--text-secondary)', textTransform: 'uppercase' }}>{status.label}</h3>
+                                                    <div>
+                                                        <h3 style={{ fontSize: '0.875rem', fontWeight: '600', color: 'var(--text-secondary)', textTransform: 'uppercase' }}>{status.label}</h3>
+                                                        {departmentName && <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>{departmentName}</div>}
+                                                    </div>
                                                     <span style={{ fontSize: '0.75rem', background: 'var(--bg-tertiary)', padding: '0.1rem 0.4rem', borderRadius: '10px' }}>{columnTasks.length}</span>
                                                 </div>
                                                 <div style={{ padding: '0.75rem', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '0.75rem', minHeight: '100px' }}>
@@ -1037,7 +1087,14 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
                                                                 >
                                                                     <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'start' }}>
                                                                         <span style={{ fontSize: '0.65rem', padding: '0.1rem 0.4rem', borderRadius: '4px', ...getClientColor(task.client?.name || '') }}>{task.client?.name}</span>
-                                                                        {getTypeIcon(task.content_type)}
+                                                                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.35rem' }}>
+                                                                            {getUnfinishedBlockers(task.id, dependencies, taskStatuses, tasks).length > 0 && (
+                                                                                <span title={`Blocked by: ${getUnfinishedBlockers(task.id, dependencies, taskStatuses, tasks).map(b => b.title).join(', ')}`} style={{ display: 'flex', color: '#f59e0b' }}>
+                                                                                    <Lock size={14} />
+                                                                                </span>
+                                                                            )}
+                                                                            {getTypeIcon(task.content_type)}
+                                                                        </div>
                                                                     </div>
                                                                     <div style={{ fontWeight: '500', fontSize: '0.875rem', lineHeight: '1.3' }}>{task.title}</div>
                                                                     <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginTop: '0.25rem' }}>
@@ -1045,8 +1102,8 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
                                                                             <Clock size={12} />
                                                                             <span>{task.start_date ? format(new Date(task.start_date), 'MMM d') : '-'}</span>
                                                                         </div>
-                                                                        <div title={task.assignee?.full_name || task.assignee?.email} style={{ width: 22, height: 22, borderRadius: '50%', background: '#3b82f6', color: 'white', display: 'flex', alignItems: 'center', justifyContent: 'center', fontSize: '0.7rem' }}>
-                                                                            {(task.assignee?.full_name || task.assignee?.email || 'U')[0].toUpperCase()}
+                                                                        <div title={task.assignees[0]?.full_name || task.assignees[0]?.email} style={{ width: 22, height: 22, borderRadius: '50%', background: '#3b82f6', color: 'white', display: 'flex', alignItems: 'center', justifyContent: 'center', fontSize: '0.7rem' }}>
+                                                                            {(task.assignees[0]?.full_name || task.assignees[0]?.email || 'U')[0].toUpperCase()}
                                                                         </div>
                                                                     </div>
                                                                 </div>
@@ -1061,30 +1118,11 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
                                 )
                             })}
 
-                            {/* Add New Status Column */}
-                            <div style={{ width: '280px', flexShrink: 0, display: 'flex', flexDirection: 'column' }}>
-                                {isAddingStatus ? (
-                                    <div style={{ background: 'var(--bg-secondary)', borderRadius: '12px', padding: '1rem', border: '1px solid var(--border-color)' }}>
-                                        <input
-                                            autoFocus
-                                            type="text"
-                                            value={newStatusName}
-                                            onChange={(e) => setNewStatusName(e.target.value)}
-                                            placeholder="Status Name"
-                                            style={{ width: '100%', padding: '0.5rem', borderRadius: '6px', border: '1px solid var(--border-color)', marginBottom: '0.5rem' }}
-                                            onKeyDown={(e) => {
-                                                if (e.key === 'Enter') handleCreateStatus()
-                                                if (e.key === 'Escape') setIsAddingStatus(false)
-                                            }}
-                                        />
-                                        <div style={{ display: 'flex', gap: '0.5rem' }}>
-                                            <button onClick={handleCreateStatus} style={{ flex: 1, padding: '0.5rem', background: '#3b82f6', color: 'white', borderRadius: '6px', border: 'none', cursor: 'pointer', fontSize: '0.875rem' }}>Add</button>
-                                            <button onClick={() => setIsAddingStatus(false)} style={{ flex: 1, padding: '0.5rem', background: 'transparent', color: 'var(--text-secondary)', borderRadius: '6px', border: '1px solid var(--border-color)', cursor: 'pointer', fontSize: '0.875rem' }}>Cancel</button>
-                                        </div>
-                                    </div>
-                                ) : (
+                            {/* Columns belong to departments; edit them there */}
+                            {canManageStatuses && (
+                                <div style={{ width: '280px', flexShrink: 0 }}>
                                     <button
-                                        onClick={() => setIsAddingStatus(true)}
+                                        onClick={() => setIsStatusEditorOpen(true)}
                                         style={{
                                             width: '100%',
                                             height: '50px',
@@ -1103,10 +1141,10 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
                                         onMouseEnter={(e) => { e.currentTarget.style.borderColor = '#3b82f6'; e.currentTarget.style.color = '#3b82f6' }}
                                         onMouseLeave={(e) => { e.currentTarget.style.borderColor = 'var(--border-color)'; e.currentTarget.style.color = 'var(--text-secondary)' }}
                                     >
-                                        <Plus size={20} /> Add Status
+                                        <Columns3 size={20} /> Manage Columns
                                     </button>
-                                )}
-                            </div>
+                                </div>
+                            )}
                         </div>
                     </DragDropContext>
                 )}
@@ -1140,9 +1178,17 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
                                     const endDate = endOfWeek(monthEnd);
                                     const days = eachDayOfInterval({ start: startDate, end: endDate });
 
+                                    // Occurrences past each series' horizon, not yet created as tasks
+                                    const projected = recurrences
+                                        .filter(r => activeTab === 'Overview' || r.content_type === activeTab)
+                                        .filter(r => !contentTypeFilter || r.content_type === contentTypeFilter)
+                                        .filter(r => r.title.toLowerCase().includes(searchTerm.toLowerCase()))
+                                        .flatMap(r => projectOccurrences(r, startDate, endOfDay(endDate)).map(date => ({ recurrence: r, date })));
+
                                     return days.map(day => {
                                         const isCurrentMonth = day.getMonth() === monthStart.getMonth();
                                         const dayTasks = filteredTasks.filter(t => t.start_date && isSameDay(parseISO(t.start_date), day));
+                                        const dayProjected = projected.filter(p => isSameDay(p.date, day));
 
                                         return (
                                             <div key={day.toString()} style={{
@@ -1159,6 +1205,7 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
                                                 <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
                                                     {dayTasks.map(t => (
                                                         <div key={t.id} style={{ fontSize: '0.7rem', padding: '0.2rem 0.4rem', borderRadius: '4px', background: 'var(--bg-tertiary)', borderLeft: '2px solid #ec4899', overflow: 'hidden', whiteSpace: 'nowrap', textOverflow: 'ellipsis', cursor: 'pointer', marginBottom: '2px', boxShadow: '0 1px 2px rgba(0,0,0,0.1)' }} title={t.title}>
+                                                            {t.recurrence_id && <Repeat size={10} style={{ marginRight: '0.25rem', color: '#a78bfa', verticalAlign: 'middle' }} />}
                                                             <span style={{
                                                                 background: 'linear-gradient(135deg, #8b5cf6 0%, #ec4899 100%)',
                                                                 WebkitBackgroundClip: 'text',
@@ -1169,6 +1216,12 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
                                                             </span>
                                                         </div>
                                                     ))}
+                                                    {dayProjected.map(p => (
+                                                        <div key={`${p.recurrence.id}-${p.date.toISOString()}`} style={{ fontSize: '0.7rem', padding: '0.2rem 0.4rem', borderRadius: '4px', border: '1px dashed var(--border-color)', color: 'var(--text-secondary)', overflow: 'hidden', whiteSpace: 'nowrap', textOverflow: 'ellipsis', marginBottom: '2px', opacity: 0.7 }} title={`Upcoming: ${p.recurrence.title} (created ${p.recurrence.horizon_days} days ahead)`}>
+                                                            <Repeat size={10} style={{ marginRight: '0.25rem', verticalAlign: 'middle' }} />
+                                                            {p.recurrence.title}
+                                                        </div>
+                                                    ))}
                                                 </div>
                                             </div>
                                         );
@@ -1179,8 +1232,31 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
                     </div>
                 )}
 
+                {/* TIMELINE VIEW */}
+                {viewMode === 'timeline' && (
+                    <DependencyTimeline
+                        tasks={filteredTasks}
+                        statuses={taskStatuses}
+                        dependencies={dependencies}
+                        onTaskClick={handleEdit}
+                    />
+                )}
+
             </div>
 
+            {viewMode === 'list' && (
+                <BulkActionBar
+                    tasks={selectedTasks}
+                    statusLabels={[...new Set(taskStatuses.map(s => s.label))]}
+                    clientId={clientId}
+                    onApplied={result => {
+                        selection.replace(result.failed.map(f => f.taskId))
+                        fetchTasks()
+                    }}
+                    onClear={() => selection.replace([])}
+                />
+            )}
+
             {/* Task Modal - Updated with taskToEdit */}
             <CreativeTaskModal
                 isOpen={isModalOpen}
@@ -1194,6 +1270,15 @@ export default function CreativeProgress({ clientId }: CreativeProgressProps) {
                 }}
                 taskToEdit={taskToEdit}
             />
+
+            <Modal
+                isOpen={isStatusEditorOpen}
+                onClose={() => { setIsStatusEditorOpen(false); fetchTasks() }}
+                title="Board Columns"
+                maxWidth="640px"
+            >
+                <StatusEditor clientId={clientId} canManage={canManageStatuses} />
+            </Modal>
         </div>
     )
 }
@@ -1,13 +1,94 @@
 import { useState, useEffect, useRef } from 'react'
 import { supabase } from '../lib/supabase'
 import Modal from './Modal'
-import { Calendar, Briefcase, Video, LayoutGrid, Camera, Image as ImageIcon, Check, ChevronDown, X, Search } from 'lucide-react'
+import CustomFieldInput from './CustomFieldInput'
+import WorkloadBadge from './WorkloadBadge'
+import { Calendar, Briefcase, Video, LayoutGrid, Camera, Image as ImageIcon, Check, ChevronDown, X, Search, Repeat, Hourglass } from 'lucide-react'
+import { format } from 'date-fns'
+import {
+    createTask,
+    updateTask,
+    assignTask,
+    listTaskAssigneeIds,
+    ensureDepartmentStatuses,
+    initialStatus,
+    getRecurrence,
+    createRecurringSeries,
+    editRecurringTask,
+    listCustomFields,
+    fieldsForDepartment,
+    customFieldValues,
+    cleanCustomFieldValues,
+    parseEstimateHours,
+    getWorkloads,
+    rankByCapacity,
+    workloadWindow,
+    type EmployeeWorkload,
+    type CustomFieldDefinition,
+    type CustomFieldValues,
+    type RecurrenceEditScope,
+    type TaskListItem,
+    type TaskPriority,
+    type TaskStatusRow,
+    type TablesInsert
+} from '../data'
+import { WEEKDAYS, describeRRule, formatRRule, parseRRule, weekdayOf, type Weekday } from '../lib/rrule'
+import { confirmWorkflowMove } from '../lib/workflows'
+import { assigneesCommand } from '../lib/undo'
+import { confirmOverCapacity } from '../lib/capacity'
+import { useUndo } from '../contexts/UndoContext'
+
+type RepeatMode = 'none' | 'daily' | 'weekly' | 'monthly' | 'custom'
+
+interface RepeatForm {
+    mode: RepeatMode
+    interval: number
+    weekdays: Weekday[]
+    until: string
+    customRule: string
+    horizonDays: number
+}
+
+const DEFAULT_REPEAT: RepeatForm = { mode: 'none', interval: 1, weekdays: [], until: '', customRule: '', horizonDays: 60 }
+
+// Rules the presets can't express open in the custom editor
+function repeatFormFromRule(rrule: string, horizonDays: number): RepeatForm {
+    const form = { ...DEFAULT_REPEAT, horizonDays, customRule: rrule, mode: 'custom' as RepeatMode }
+    try {
+        const rule = parseRRule(rrule)
+        const plain = !rule.count && rule.byMonthDay.length === 0 && rule.byDay.every(d => !d.ordinal)
+        if (!plain) return form
+
+        const until = rule.until ? format(rule.until, 'yyyy-MM-dd') : ''
+        const base = { ...form, interval: rule.interval, until }
+        if (rule.freq === 'DAILY' && rule.byDay.length === 0) return { ...base, mode: 'daily' }
+        if (rule.freq === 'WEEKLY') return { ...base, mode: 'weekly', weekdays: rule.byDay.map(d => d.weekday) }
+        if (rule.freq === 'MONTHLY' && rule.byDay.length === 0) return { ...base, mode: 'monthly' }
+    } catch {
+        // Keep the raw text so it can be fixed by hand
+    }
+    return form
+}
+
+// Throws when a custom rule doesn't parse
+function ruleFromRepeatForm(form: RepeatForm): string | null {
+    if (form.mode === 'none') return null
+    if (form.mode === 'custom') return formatRRule(parseRRule(form.customRule))
+
+    return formatRRule({
+        freq: form.mode === 'daily' ? 'DAILY' : form.mode === 'weekly' ? 'WEEKLY' : 'MONTHLY',
+        interval: Math.max(1, form.interval),
+        byDay: form.mode === 'weekly' ? form.weekdays.map(weekday => ({ weekday })) : [],
+        byMonthDay: [],
+        until: form.until ? new Date(`${form.until}T23:59:59`) : undefined
+    })
+}
 
 interface CreativeTaskModalProps {
     isOpen: boolean
     onClose: () => void
     onTaskCreated: () => void
-    taskToEdit?: any
+    taskToEdit?: TaskListItem | null
 }
 
 export default function CreativeTaskModal({ isOpen, onClose, onTaskCreated, taskToEdit }: CreativeTaskModalProps) {
@@ -15,10 +96,12 @@ export default function CreativeTaskModal({ isOpen, onClose, onTaskCreated, task
     const [description, setDescription] = useState('')
     const [clientId, setClientId] = useState('')
     const [contentType, setContentType] = useState<string>('Static')
-    const [priority, setPriority] = useState<string>('medium')
+    const [priority, setPriority] = useState<TaskPriority>('medium')
     const [startDate, setStartDate] = useState('')
     const [dueDate, setDueDate] = useState('')
+    const [estimate, setEstimate] = useState('')
     const [assigneeIds, setAssigneeIds] = useState<string[]>([])
+    const { record } = useUndo()
     const [loading, setLoading] = useState(false)
     const [dropdownOpen, setDropdownOpen] = useState(false)
     const [searchTerm, setSearchTerm] = useState('')
@@ -27,12 +110,20 @@ export default function CreativeTaskModal({ isOpen, onClose, onTaskCreated, task
 
     // Status State
     const [statusId, setStatusId] = useState('')
-    const [statuses, setStatuses] = useState<any[]>([])
+    const [statuses, setStatuses] = useState<TaskStatusRow[]>([])
 
+    // Recurrence State
+    const [repeat, setRepeat] = useState<RepeatForm>(DEFAULT_REPEAT)
+    const [isScopePromptOpen, setIsScopePromptOpen] = useState(false)
+
+    // Custom Fields State
+    const [allFields, setAllFields] = useState<CustomFieldDefinition[]>([])
+    const [customValues, setCustomValues] = useState<CustomFieldValues>({})
 
     // Data for dropdowns
     const [profiles, setProfiles] = useState<any[]>([])
     const [departments, setDepartments] = useState<any[]>([])
+    const [workloads, setWorkloads] = useState<Record<string, EmployeeWorkload>>({})
     const dropdownRef = useRef<HTMLDivElement>(null)
     const clientDropdownRef = useRef<HTMLDivElement>(null)
 
@@ -60,39 +151,21 @@ export default function CreativeTaskModal({ isOpen, onClose, onTaskCreated, task
     }, [clientId])
 
     const fetchStatuses = async (deptId: string) => {
-        let { data } = await supabase
-            .from('task_statuses')
-            .select('*')
-            .eq('department_id', deptId)
-            .order('position')
-
-        // If no statuses found, create defaults (To maintain consistency with DepartmentTasksModal)
-        if (!data || data.length === 0) {
-            const defaultStatuses = [
-                { department_id: deptId, label: 'To Do', position: 0, color: '#e2e8f0' },
-                { department_id: deptId, label: 'In Progress', position: 1, color: '#fef3c7' },
-                { department_id: deptId, label: 'Done', position: 2, color: '#ecfdf5' }
-            ]
-
-            const { data: newStatuses, error: createError } = await supabase
-                .from('task_statuses')
-                .insert(defaultStatuses)
-                .select()
-                .order('position')
-
-            if (!createError && newStatuses) {
-                data = newStatuses
-            }
+        // A task filed into a department without columns gets the defaults
+        let data: TaskStatusRow[]
+        try {
+            data = await ensureDepartmentStatuses(deptId)
+        } catch (error) {
+            console.error('Error loading statuses:', error)
+            return
         }
 
-        if (data) {
-            setStatuses(data)
-            // If we are NOT editing a task (new task), OR if we switched department manually, set default.
-            // We can check if statusId is valid for this new dept, if not, reset.
-            if (!taskToEdit || taskToEdit.department_id !== deptId) {
-                const todo = data.find(s => s.label === 'To Do') || data[0]
-                if (todo) setStatusId(todo.id)
-            }
+        setStatuses(data)
+        // If we are NOT editing a task (new task), OR if we switched department manually, set default.
+        // We can check if statusId is valid for this new dept, if not, reset.
+        if (!taskToEdit || taskToEdit.department_id !== deptId) {
+            const todo = initialStatus(data)
+            if (todo) setStatusId(todo.id)
         }
     }
 
@@ -105,10 +178,12 @@ export default function CreativeTaskModal({ isOpen, onClose, onTaskCreated, task
                 setDescription(taskToEdit.description || '')
                 setContentType(taskToEdit.content_type || 'Static')
                 setPriority(taskToEdit.priority || 'medium')
+                setCustomValues(customFieldValues(taskToEdit))
 
                 if (taskToEdit.department_id) setClientId(taskToEdit.department_id)
                 if (taskToEdit.start_date) setStartDate(new Date(taskToEdit.start_date).toISOString().slice(0, 16))
                 if (taskToEdit.due_date) setDueDate(new Date(taskToEdit.due_date).toISOString().slice(0, 16))
+                setEstimate(taskToEdit.estimate_hours?.toString() || '')
 
                 // Set initial status from taskToEdit
                 if (taskToEdit.status?.id) setStatusId(taskToEdit.status.id)
@@ -116,6 +191,7 @@ export default function CreativeTaskModal({ isOpen, onClose, onTaskCreated, task
 
                 // Fetch existing assignments for this task
                 fetchTaskAssignments(taskToEdit.id)
+                fetchRecurrence(taskToEdit.recurrence_id)
             } else {
                 resetForm()
             }
@@ -124,22 +200,32 @@ export default function CreativeTaskModal({ isOpen, onClose, onTaskCreated, task
 
     const fetchTaskAssignments = async (taskId: string) => {
         try {
-            const { data } = await supabase
-                .from('task_assignments')
-                .select('user_id')
-                .eq('task_id', taskId)
-
-            if (data && data.length > 0) {
-                setAssigneeIds(data.map(d => d.user_id))
-            } else if (taskToEdit?.assignee?.id) {
+            const ids = await listTaskAssigneeIds(taskId)
+
+            if (ids.length > 0) {
+                setAssigneeIds(ids)
+            } else if (taskToEdit?.assigned_to) {
                 // Fallback to legacy assignee if no table entries
-                setAssigneeIds([taskToEdit.assignee.id])
+                setAssigneeIds([taskToEdit.assigned_to])
             }
         } catch (error) {
             console.error('Error fetching assignments:', error)
         }
     }
 
+    const fetchRecurrence = async (recurrenceId: string | null) => {
+        if (!recurrenceId) {
+            setRepeat(DEFAULT_REPEAT)
+            return
+        }
+        try {
+            const recurrence = await getRecurrence(recurrenceId)
+            setRepeat(repeatFormFromRule(recurrence.rrule, recurrence.horizon_days))
+        } catch (error) {
+            console.error('Error fetching recurrence:', error)
+        }
+    }
+
     const fetchFormData = async () => {
         try {
             // Fetch Departments
@@ -150,6 +236,7 @@ export default function CreativeTaskModal({ isOpen, onClose, onTaskCreated, task
                     name, 
                     workspace:workspaces!inner(
                         name, 
+                        client_id,
                         client:clients!inner(name)
                     )
                 `)
@@ -167,12 +254,26 @@ export default function CreativeTaskModal({ isOpen, onClose, onTaskCreated, task
             if (profError) throw profError
             setProfiles(profs || [])
 
+            setAllFields(await listCustomFields())
+
         } catch (error) {
             console.error('Error loading form data:', error)
         }
     }
 
+    // Load over the task's dates, fetched while the picker is open
+    useEffect(() => {
+        if (!dropdownOpen || profiles.length === 0) return
+        getWorkloads(profiles.map(p => p.id), workloadWindow(startDate || null, dueDate || null))
+            .then(setWorkloads)
+            .catch(error => console.error('Error loading workloads:', error))
+    }, [dropdownOpen, profiles, startDate, dueDate])
+
     const toggleAssignee = (id: string) => {
+        if (!assigneeIds.includes(id)) {
+            const person = profiles.find(p => p.id === id)
+            if (!confirmOverCapacity(person?.full_name || person?.email || 'This person', workloads[id])) return
+        }
         setAssigneeIds(prev =>
             prev.includes(id)
                 ? prev.filter(p => p !== id)
@@ -187,6 +288,28 @@ export default function CreativeTaskModal({ isOpen, onClose, onTaskCreated, task
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault()
+
+        try {
+            ruleFromRepeatForm(repeat)
+        } catch (error) {
+            alert(`Invalid repeat rule: ${(error as Error).message}`)
+            return
+        }
+        if (repeat.mode !== 'none' && !startDate && !dueDate) {
+            alert('Repeating tasks need a start or due date')
+            return
+        }
+
+        // Instances of a series ask how far the edit should reach
+        if (taskToEdit?.recurrence_id) {
+            setIsScopePromptOpen(true)
+            return
+        }
+        await saveTask()
+    }
+
+    const saveTask = async (scope?: RecurrenceEditScope) => {
+        setIsScopePromptOpen(false)
         setLoading(true)
 
         try {
@@ -195,14 +318,17 @@ export default function CreativeTaskModal({ isOpen, onClose, onTaskCreated, task
             // Use selected status, or find default if somehow missing
             let finalStatusId = statusId
             if (!finalStatusId && statuses.length > 0) {
-                const todo = statuses.find(s => s.label === 'To Do') || statuses[0]
-                finalStatusId = todo.id
+                finalStatusId = initialStatus(statuses)?.id || ''
+            }
+
+            if (taskToEdit && finalStatusId && finalStatusId !== taskToEdit.status_id) {
+                if (!await confirmWorkflowMove(taskToEdit.id, finalStatusId)) return
             }
 
             // For backward compatibility, set the first assignee as the main 'assigned_to'
             const primaryAssignee = assigneeIds.length > 0 ? assigneeIds[0] : null
 
-            const payload: any = {
+            const payload: TablesInsert<'tasks'> = {
                 title,
                 description,
                 department_id: departmentId,
@@ -210,37 +336,46 @@ export default function CreativeTaskModal({ isOpen, onClose, onTaskCreated, task
                 priority,
                 start_date: startDate ? new Date(startDate).toISOString() : null,
                 due_date: dueDate ? new Date(dueDate).toISOString() : null,
+                estimate_hours: parseEstimateHours(estimate),
                 assigned_to: primaryAssignee,
-                status_id: finalStatusId
+                status_id: finalStatusId,
+                custom_fields: cleanCustomFieldValues(customValues, fields)
             }
 
-            let targetTaskId = taskToEdit?.id
+            const rrule = ruleFromRepeatForm(repeat)
+            const series = { task: payload, assigneeIds, rrule, horizonDays: repeat.horizonDays }
 
-            if (taskToEdit) {
-                const { error: updateError } = await supabase
-                    .from('tasks')
-                    .update(payload)
-                    .eq('id', taskToEdit.id)
-                if (updateError) throw updateError
+            if (taskToEdit?.recurrence_id && scope) {
+                await editRecurringTask(taskToEdit, scope, series)
+            } else if (!taskToEdit && rrule) {
+                // Every occurrence, including the first, comes from the generator
+                await createRecurringSeries({ ...series, rrule })
             } else {
-                const { data: newTask, error: insertError } = await supabase
-                    .from('tasks')
-                    .insert(payload)
-                    .select()
-                    .single()
-
-                if (insertError) throw insertError
-                targetTaskId = newTask.id
-            }
-
-            // Handle Assignments Atomically
-            if (targetTaskId) {
-                const { error: rpcError } = await supabase.rpc('update_task_assignments', {
-                    p_task_id: targetTaskId,
-                    p_assignee_ids: assigneeIds
-                })
-
-                if (rpcError) throw rpcError
+                let targetTaskId = taskToEdit?.id
+
+                if (taskToEdit) {
+                    await updateTask(taskToEdit.id, payload)
+                } else {
+                    const newTask = await createTask(payload)
+                    targetTaskId = newTask.id
+                }
+
+                // Handle Assignments Atomically
+                if (targetTaskId) {
+                    await assignTask(targetTaskId, assigneeIds)
+                }
+                const assigneeChange = taskToEdit && assigneesCommand(
+                    { id: taskToEdit.id, title },
+                    taskToEdit.assignees.map(a => a.id),
+                    assigneeIds,
+                    onTaskCreated
+                )
+                if (assigneeChange) record(assigneeChange)
+
+                // A one-off task that now repeats becomes the first occurrence
+                if (taskToEdit && rrule) {
+                    await createRecurringSeries({ ...series, rrule }, taskToEdit.id)
+                }
             }
 
             onTaskCreated()
@@ -263,10 +398,53 @@ export default function CreativeTaskModal({ isOpen, onClose, onTaskCreated, task
         setPriority('medium')
         setStartDate('')
         setDueDate('')
+        setEstimate('')
         setAssigneeIds([])
         setStatusId('') // Reset status
+        setRepeat(DEFAULT_REPEAT)
+        setCustomValues({})
+    }
+
+    const toggleWeekday = (day: Weekday) => {
+        setRepeat(prev => ({
+            ...prev,
+            weekdays: prev.weekdays.includes(day)
+                ? prev.weekdays.filter(d => d !== day)
+                : WEEKDAYS.filter(d => d === day || prev.weekdays.includes(d))
+        }))
     }
 
+    const setRepeatMode = (mode: RepeatMode) => {
+        setRepeat(prev => {
+            const next = { ...prev, mode }
+            // Weekly starts on the weekday of the first occurrence
+            if (mode === 'weekly' && prev.weekdays.length === 0) {
+                const anchor = startDate || dueDate
+                next.weekdays = [weekdayOf(anchor ? new Date(anchor) : new Date())]
+            }
+            if (mode === 'custom' && !prev.customRule) {
+                try {
+                    next.customRule = ruleFromRepeatForm(prev) || ''
+                } catch {
+                    next.customRule = ''
+                }
+            }
+            return next
+        })
+    }
+
+    let repeatSummary = ''
+    let repeatError = ''
+    try {
+        const rule = ruleFromRepeatForm(repeat)
+        if (rule) repeatSummary = describeRRule(parseRRule(rule))
+    } catch (error) {
+        repeatError = (error as Error).message
+    }
+
+    // Fields of the chosen department and of its client
+    const fields = fieldsForDepartment(allFields, clientId, departments.find(d => d.id === clientId)?.workspace?.client_id || null)
+
     if (!isOpen) return null
 
     return (
@@ -558,7 +736,7 @@ export default function CreativeTaskModal({ isOpen, onClose, onTaskCreated, task
                                         {profiles.filter(p => (p.full_name || p.email).toLowerCase().includes(searchTerm.toLowerCase()) && p.status !== 'inactive').length === 0 ? (
                                             <div style={{ padding: '0.5rem', color: 'var(--text-secondary)', fontSize: '0.875rem' }}>No profiles found</div>
                                         ) : (
-                                            profiles.filter(p => (p.full_name || p.email).toLowerCase().includes(searchTerm.toLowerCase()) && p.status !== 'inactive').map(p => {
+                                            rankByCapacity(profiles.filter(p => (p.full_name || p.email).toLowerCase().includes(searchTerm.toLowerCase()) && p.status !== 'inactive'), workloads).map(p => {
                                                 const isSelected = assigneeIds.includes(p.id)
                                                 return (
                                                     <div
@@ -587,7 +765,10 @@ export default function CreativeTaskModal({ isOpen, onClose, onTaskCreated, task
                                                             }}>
                                                                 {(p.full_name || 'U')[0].toUpperCase()}
                                                             </div>
-                                                            {p.full_name || p.email}
+                                                            <div style={{ display: 'flex', flexDirection: 'column' }}>
+                                                                {p.full_name || p.email}
+                                                                <WorkloadBadge workload={workloads[p.id]} />
+                                                            </div>
                                                         </div>
                                                         {isSelected && <Check size={14} className="text-blue-500" />}
                                                     </div>
@@ -631,11 +812,28 @@ export default function CreativeTaskModal({ isOpen, onClose, onTaskCreated, task
                             </div>
                         </div>
 
+                        {/* Estimate */}
+                        <div>
+                            <label style={labelStyle}>Estimate (hours)</label>
+                            <div style={{ position: 'relative' }}>
+                                <Hourglass size={16} style={{ position: 'absolute', left: '0.75rem', top: '50%', transform: 'translateY(-50%)', color: 'var(--text-secondary)' }} />
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="0.25"
+                                    value={estimate}
+                                    onChange={e => setEstimate(e.target.value)}
+                                    placeholder="From subtasks"
+                                    style={{ ...inputStyle, paddingLeft: '2.5rem' }}
+                                />
+                            </div>
+                        </div>
+
                         {/* Priority */}
                         <div>
                             <label style={labelStyle}>Priority</label>
                             <div style={{ display: 'flex', gap: '0.5rem' }}>
-                                {['low', 'medium', 'high'].map(p => (
+                                {(['low', 'medium', 'high'] as const).map(p => (
                                     <button
                                         key={p}
                                         type="button"
@@ -664,9 +862,129 @@ export default function CreativeTaskModal({ isOpen, onClose, onTaskCreated, task
                                 ))}
                             </div>
                         </div>
+
+                        {/* Repeat */}
+                        <div>
+                            <label style={labelStyle}>Repeat</label>
+                            <div style={{ position: 'relative' }}>
+                                <Repeat size={16} style={{ position: 'absolute', left: '0.75rem', top: '50%', transform: 'translateY(-50%)', color: 'var(--text-secondary)' }} />
+                                <select
+                                    value={repeat.mode}
+                                    onChange={e => setRepeatMode(e.target.value as RepeatMode)}
+                                    style={{ ...inputStyle, paddingLeft: '2.5rem', cursor: 'pointer' }}
+                                >
+                                    <option value="none">Does not repeat</option>
+                                    <option value="daily">Daily</option>
+                                    <option value="weekly">Weekly</option>
+                                    <option value="monthly">Monthly</option>
+                                    <option value="custom">Custom (RRULE)</option>
+                                </select>
+                            </div>
+
+                            {repeat.mode !== 'none' && (
+                                <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem', marginTop: '0.75rem', padding: '0.75rem', borderRadius: '6px', border: '1px solid var(--border-color)', background: 'var(--bg-tertiary)' }}>
+                                    {repeat.mode === 'custom' ? (
+                                        <input
+                                            type="text"
+                                            value={repeat.customRule}
+                                            onChange={e => setRepeat(prev => ({ ...prev, customRule: e.target.value }))}
+                                            placeholder="e.g. FREQ=WEEKLY;BYDAY=MO,WE,FR"
+                                            style={{ ...inputStyle, fontFamily: 'monospace' }}
+                                        />
+                                    ) : (
+                                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8rem', color: 'var(--text-secondary)' }}>
+                                            Every
+                                            <input
+                                                type="number"
+                                                min={1}
+                                                value={repeat.interval}
+                                                onChange={e => setRepeat(prev => ({ ...prev, interval: Math.max(1, Number(e.target.value) || 1) }))}
+                                                style={{ ...inputStyle, width: '4rem' }}
+                                            />
+                                            {repeat.mode === 'daily' ? 'day(s)' : repeat.mode === 'weekly' ? 'week(s)' : 'month(s)'}
+                                        </div>
+                                    )}
+
+                                    {repeat.mode === 'weekly' && (
+                                        <div style={{ display: 'flex', gap: '0.25rem' }}>
+                                            {WEEKDAYS.map(day => {
+                                                const isSelected = repeat.weekdays.includes(day)
+                                                return (
+                                                    <button
+                                                        key={day}
+                                                        type="button"
+                                                        onClick={() => toggleWeekday(day)}
+                                                        style={{
+                                                            flex: 1,
+                                                            padding: '0.35rem 0',
+                                                            borderRadius: '6px',
+                                                            border: isSelected ? '1px solid #8b5cf6' : '1px solid var(--border-color)',
+                                                            background: isSelected ? 'rgba(139, 92, 246, 0.15)' : 'var(--bg-secondary)',
+                                                            color: isSelected ? '#a78bfa' : 'var(--text-secondary)',
+                                                            fontSize: '0.7rem',
+                                                            fontWeight: '600',
+                                                            cursor: 'pointer'
+                                                        }}
+                                                    >
+                                                        {day.charAt(0) + day.charAt(1).toLowerCase()}
+                                                    </button>
+                                                )
+                                            })}
+                                        </div>
+                                    )}
+
+                                    {repeat.mode !== 'custom' && (
+                                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8rem', color: 'var(--text-secondary)' }}>
+                                            Until
+                                            <input
+                                                type="date"
+                                                value={repeat.until}
+                                                onChange={e => setRepeat(prev => ({ ...prev, until: e.target.value }))}
+                                                style={{ ...inputStyle, flex: 1 }}
+                                            />
+                                        </div>
+                                    )}
+
+                                    <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8rem', color: 'var(--text-secondary)' }}>
+                                        Create tasks
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            max={366}
+                                            value={repeat.horizonDays}
+                                            onChange={e => setRepeat(prev => ({ ...prev, horizonDays: Math.min(366, Math.max(1, Number(e.target.value) || 1)) }))}
+                                            style={{ ...inputStyle, width: '4.5rem' }}
+                                        />
+                                        days ahead
+                                    </div>
+
+                                    <div style={{ fontSize: '0.75rem', color: repeatError ? '#ef4444' : 'var(--text-secondary)' }}>
+                                        {repeatError || repeatSummary}
+                                    </div>
+                                </div>
+                            )}
+                        </div>
                     </div>
                 </div>
 
+                {/* Custom Fields */}
+                {fields.length > 0 && (
+                    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(260px, 1fr))', gap: '1.25rem' }}>
+                        {fields.map(field => (
+                            <div key={field.id} style={{ gridColumn: field.field_type === 'multi_select' ? '1 / -1' : undefined }}>
+                                <label style={labelStyle}>{field.name}</label>
+                                <CustomFieldInput
+                                    field={field}
+                                    value={customValues[field.id]}
+                                    onChange={value => setCustomValues(prev => ({ ...prev, [field.id]: value }))}
+                                    people={profiles}
+                                    style={inputStyle}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                )}
+
                 <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '0.75rem', marginTop: '1rem' }}>
                     <button
                         type="button"
@@ -702,6 +1020,36 @@ export default function CreativeTaskModal({ isOpen, onClose, onTaskCreated, task
                     </button>
                 </div>
 
+
+                {isScopePromptOpen && (
+                    <div style={{ position: 'fixed', inset: 0, zIndex: 1100, background: 'rgba(0, 0, 0, 0.5)', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                        <div style={{ width: '100%', maxWidth: '380px', padding: '1.5rem', borderRadius: '12px', border: '1px solid var(--border-color)', background: 'var(--bg-secondary)', display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                            <h3 style={{ margin: '0 0 0.5rem', fontSize: '1rem', fontWeight: '600', color: 'var(--text-primary)' }}>Edit recurring task</h3>
+                            {([
+                                ['this', 'This task', 'Only this occurrence changes; the repeat rule stays.'],
+                                ['following', 'This and following tasks', 'The series is split here.'],
+                                ['all', 'All tasks in the series', 'Past occurrences keep their dates.']
+                            ] as const).map(([scope, label, hint]) => (
+                                <button
+                                    key={scope}
+                                    type="button"
+                                    onClick={() => saveTask(scope)}
+                                    style={{ textAlign: 'left', padding: '0.6rem 0.75rem', borderRadius: '6px', border: '1px solid var(--border-color)', background: 'var(--bg-tertiary)', color: 'var(--text-primary)', cursor: 'pointer' }}
+                                >
+                                    <div style={{ fontSize: '0.875rem', fontWeight: '500' }}>{label}</div>
+                                    <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>{hint}</div>
+                                </button>
+                            ))}
+                            <button
+                                type="button"
+                                onClick={() => setIsScopePromptOpen(false)}
+                                style={{ alignSelf: 'flex-end', marginTop: '0.5rem', padding: '0.4rem 0.8rem', borderRadius: '6px', border: 'none', background: 'transparent', color: 'var(--text-secondary)', cursor: 'pointer' }}
+                            >
+                                Cancel
+                            </button>
+                        </div>
+                    </div>
+                )}
             </form>
         </Modal >
     )
@@ -0,0 +1,93 @@
+import type { CustomFieldDefinition, CustomFieldValue, ProfileRow } from '../data'
+
+interface CustomFieldInputProps {
+    field: CustomFieldDefinition
+    value: CustomFieldValue | undefined
+    onChange: (value: CustomFieldValue) => void
+    people: Pick<ProfileRow, 'id' | 'full_name' | 'email'>[]
+    style?: React.CSSProperties
+    // Filters pick a single choice even for multi-select fields
+    single?: boolean
+}
+
+// The editor for one custom field value, matched to the field's type.
+export default function CustomFieldInput({ field, value, onChange, people, style, single }: CustomFieldInputProps) {
+    const text = value === undefined || Array.isArray(value) ? '' : String(value)
+
+    switch (field.field_type) {
+        case 'number':
+            return (
+                <input
+                    type="number"
+                    step="any"
+                    value={text}
+                    onChange={e => onChange(e.target.value === '' ? '' : Number(e.target.value))}
+                    style={style}
+                />
+            )
+        case 'date':
+            return <input type="date" value={text} onChange={e => onChange(e.target.value)} style={style} />
+        case 'url':
+            return <input type="url" value={text} onChange={e => onChange(e.target.value)} placeholder="https://" style={style} />
+        case 'person':
+            return (
+                <select value={text} onChange={e => onChange(e.target.value)} style={{ ...style, cursor: 'pointer' }}>
+                    <option value="">—</option>
+                    {people.map(person => (
+                        <option key={person.id} value={person.id}>{person.full_name || person.email}</option>
+                    ))}
+                </select>
+            )
+        case 'select':
+            return (
+                <select value={text} onChange={e => onChange(e.target.value)} style={{ ...style, cursor: 'pointer' }}>
+                    <option value="">—</option>
+                    {field.options.map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+            )
+        case 'multi_select': {
+            if (single) {
+                return (
+                    <select value={text} onChange={e => onChange(e.target.value)} style={{ ...style, cursor: 'pointer' }}>
+                        <option value="">—</option>
+                        {field.options.map(option => <option key={option} value={option}>{option}</option>)}
+                    </select>
+                )
+            }
+            const selected = Array.isArray(value) ? value : []
+            return (
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.35rem' }}>
+                    {field.options.map(option => {
+                        const isSelected = selected.includes(option)
+                        return (
+                            <button
+                                key={option}
+                                type="button"
+                                onClick={() => onChange(isSelected
+                                    ? selected.filter(o => o !== option)
+                                    : field.options.filter(o => o === option || selected.includes(o)))}
+                                style={{
+                                    padding: '0.3rem 0.6rem',
+                                    borderRadius: '9999px',
+                                    border: isSelected ? '1px solid #8b5cf6' : '1px solid var(--border-color)',
+                                    background: isSelected ? 'rgba(139, 92, 246, 0.15)' : 'var(--bg-tertiary)',
+                                    color: isSelected ? '#a78bfa' : 'var(--text-secondary)',
+                                    fontSize: '0.75rem',
+                                    fontWeight: '600',
+                                    cursor: 'pointer'
+                                }}
+                            >
+                                {option}
+                            </button>
+                        )
+                    })}
+                    {field.options.length === 0 && (
+                        <span style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>No choices defined</span>
+                    )}
+                </div>
+            )
+        }
+        default:
+            return <input type="text" value={text} onChange={e => onChange(e.target.value)} style={style} />
+    }
+}
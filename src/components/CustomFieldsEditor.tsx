@@ -0,0 +1,202 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import {
+    CUSTOM_FIELD_TYPES,
+    createCustomField,
+    deleteCustomField,
+    fieldsForDepartment,
+    listCustomFields,
+    updateCustomField,
+    type CustomFieldDefinition,
+    type CustomFieldType
+} from '../data'
+
+interface CustomFieldsEditorProps {
+    departmentId: string
+    clientId: string | null
+    canManage: boolean
+}
+
+const hasOptions = (type: CustomFieldType) => type === 'select' || type === 'multi_select'
+
+const parseOptions = (text: string) =>
+    [...new Set(text.split(',').map(o => o.trim()).filter(Boolean))]
+
+// Lists and edits the custom fields a department's tasks carry, including
+// the ones shared by every department of its client.
+export default function CustomFieldsEditor({ departmentId, clientId, canManage }: CustomFieldsEditorProps) {
+    const [fields, setFields] = useState<CustomFieldDefinition[]>([])
+    const [name, setName] = useState('')
+    const [fieldType, setFieldType] = useState<CustomFieldType>('text')
+    const [options, setOptions] = useState('')
+    const [wholeClient, setWholeClient] = useState(false)
+
+    const loadFields = useCallback(() => {
+        listCustomFields({ clientId })
+            .then(all => setFields(fieldsForDepartment(all, departmentId, clientId)))
+            .catch(error => console.error('Error loading custom fields:', error))
+    }, [departmentId, clientId])
+
+    useEffect(() => {
+        loadFields()
+    }, [loadFields])
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!name.trim()) return
+        if (hasOptions(fieldType) && parseOptions(options).length === 0) {
+            alert('Add at least one choice, separated by commas')
+            return
+        }
+
+        try {
+            await createCustomField({
+                department_id: wholeClient ? null : departmentId,
+                client_id: wholeClient ? clientId : null,
+                name: name.trim(),
+                field_type: fieldType,
+                options: hasOptions(fieldType) ? parseOptions(options) : [],
+                position: fields.reduce((max, f) => Math.max(max, f.position + 1), 0)
+            })
+            setName('')
+            setOptions('')
+            loadFields()
+        } catch (error) {
+            console.error('Error creating custom field:', error)
+            alert('Failed to create field')
+        }
+    }
+
+    const handleRename = async (field: CustomFieldDefinition, newName: string) => {
+        if (!newName.trim() || newName.trim() === field.name) return
+        try {
+            await updateCustomField(field.id, { name: newName.trim() })
+            loadFields()
+        } catch (error) {
+            console.error('Error renaming custom field:', error)
+            alert('Failed to rename field')
+        }
+    }
+
+    // Removing a choice leaves tasks that already use it untouched
+    const handleOptionsChange = async (field: CustomFieldDefinition, text: string) => {
+        const next = parseOptions(text)
+        if (next.length === 0 || next.join(',') === field.options.join(',')) return
+        try {
+            await updateCustomField(field.id, { options: next })
+            loadFields()
+        } catch (error) {
+            console.error('Error updating field choices:', error)
+            alert('Failed to update choices')
+        }
+    }
+
+    const handleDelete = async (field: CustomFieldDefinition) => {
+        if (!confirm(`Delete "${field.name}"? Its values are removed from every task.`)) return
+        try {
+            await deleteCustomField(field.id)
+            setFields(prev => prev.filter(f => f.id !== field.id))
+        } catch (error) {
+            console.error('Error deleting custom field:', error)
+            alert('Failed to delete field')
+        }
+    }
+
+    const typeLabel = (type: CustomFieldType) => CUSTOM_FIELD_TYPES.find(t => t.type === type)?.label || type
+
+    return (
+        <div>
+            <p style={{ color: 'var(--text-secondary)', fontSize: '0.875rem', marginTop: 0 }}>
+                Fields appear on every task of this department. Client-wide fields appear in all of the client's departments.
+            </p>
+
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem', marginBottom: '1.5rem' }}>
+                <thead>
+                    <tr style={{ color: 'var(--text-secondary)', textAlign: 'left', fontSize: '0.75rem', textTransform: 'uppercase' }}>
+                        <th style={{ padding: '0.5rem' }}>Name</th>
+                        <th style={{ padding: '0.5rem' }}>Type</th>
+                        <th style={{ padding: '0.5rem' }}>Applies To</th>
+                        <th style={{ padding: '0.5rem' }}>Choices</th>
+                        <th style={{ padding: '0.5rem' }} />
+                    </tr>
+                </thead>
+                <tbody>
+                    {fields.length === 0 ? (
+                        <tr><td colSpan={5} style={{ padding: '1.5rem', textAlign: 'center', color: 'var(--text-secondary)' }}>No custom fields yet.</td></tr>
+                    ) : fields.map(field => (
+                        <tr key={field.id} style={{ borderTop: '1px solid var(--border-color)', color: 'var(--text-primary)' }}>
+                            <td style={{ padding: '0.6rem 0.5rem' }}>
+                                {canManage ? (
+                                    <input
+                                        defaultValue={field.name}
+                                        onBlur={e => handleRename(field, e.target.value)}
+                                        style={{ ...inputStyle, width: '100%' }}
+                                    />
+                                ) : field.name}
+                            </td>
+                            <td style={{ padding: '0.6rem 0.5rem' }}>{typeLabel(field.field_type)}</td>
+                            <td style={{ padding: '0.6rem 0.5rem' }}>{field.client_id ? 'Whole client' : 'This department'}</td>
+                            <td style={{ padding: '0.6rem 0.5rem' }}>
+                                {!hasOptions(field.field_type) ? '—' : canManage ? (
+                                    <input
+                                        defaultValue={field.options.join(', ')}
+                                        onBlur={e => handleOptionsChange(field, e.target.value)}
+                                        style={{ ...inputStyle, width: '100%' }}
+                                    />
+                                ) : field.options.join(', ')}
+                            </td>
+                            <td style={{ padding: '0.6rem 0.5rem', textAlign: 'right' }}>
+                                {canManage && (
+                                    <button onClick={() => handleDelete(field)} style={{ background: 'none', border: 'none', cursor: 'pointer', color: 'var(--danger-color)' }} title="Delete field">
+                                        <Trash2 size={14} />
+                                    </button>
+                                )}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            {canManage && (
+                <form onSubmit={handleAdd} style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+                    <input
+                        value={name}
+                        onChange={e => setName(e.target.value)}
+                        placeholder="Field name, e.g. Aspect Ratio"
+                        required
+                        style={{ ...inputStyle, flex: 1, minWidth: '12rem' }}
+                    />
+                    <select value={fieldType} onChange={e => setFieldType(e.target.value as CustomFieldType)} style={inputStyle}>
+                        {CUSTOM_FIELD_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+                    </select>
+                    {clientId && (
+                        <select value={wholeClient ? 'client' : 'department'} onChange={e => setWholeClient(e.target.value === 'client')} style={inputStyle}>
+                            <option value="department">This department</option>
+                            <option value="client">Whole client</option>
+                        </select>
+                    )}
+                    {hasOptions(fieldType) && (
+                        <input
+                            value={options}
+                            onChange={e => setOptions(e.target.value)}
+                            placeholder="Choices, comma separated"
+                            style={{ ...inputStyle, flexBasis: '100%' }}
+                        />
+                    )}
+                    <button type="submit" style={{ padding: '0.5rem 1rem', borderRadius: '0.5rem', border: 'none', background: 'linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)', color: 'white', fontWeight: '600', cursor: 'pointer', display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+                        <Plus size={16} /> Add Field
+                    </button>
+                </form>
+            )}
+        </div>
+    )
+}
+
+const inputStyle: React.CSSProperties = {
+    padding: '0.5rem 0.75rem',
+    borderRadius: '6px',
+    border: '1px solid var(--border-color)',
+    background: 'var(--bg-tertiary)',
+    color: 'var(--text-primary)',
+    fontSize: '0.875rem'
+}
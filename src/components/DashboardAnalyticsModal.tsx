@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react'
-import { supabase } from '../lib/supabase'
+import { listTasks, isClosedStatus, isNotStartedStatus } from '../data'
 import Modal from './Modal'
+import EstimateReport from './EstimateReport'
 import {
     BarChart3,
     CheckCircle2,
@@ -38,46 +39,20 @@ export default function DashboardAnalyticsModal({
     const loadTaskStats = async () => {
         setLoading(true)
         try {
-            // Fetch all tasks associated with the CC's clients/workspaces/departments
-            // We can do this by joining tables. 
-            // A more efficient way for stats might be a direct count query if we had a view, 
-            // but for now we'll fetch tasks that belong to departments under the CC.
-
-            const { data: tasks, error } = await supabase
-                .from('tasks')
-                .select(`
-                    id,
-                    status_id,
-                    task_statuses!inner (
-                        label,
-                        department_id,
-                        departments!inner (
-                            workspace_id,
-                            workspaces!inner (
-                                client_id,
-                                clients!inner (
-                                    cc_id
-                                )
-                            )
-                        )
-                    )
-                `)
-                .eq('task_statuses.departments.workspaces.clients.cc_id', ccId)
-
-            if (error) throw error
+            // Fetch all tasks that belong to departments under the CC's clients
+            const { tasks } = await listTasks({ coordinatorId: ccId })
 
             const stats = {
-                total: tasks?.length || 0,
+                total: tasks.length,
                 todo: 0,
                 inProgress: 0,
                 done: 0
             }
 
-            tasks?.forEach((task: any) => {
-                const statusLabel = task.task_statuses?.label?.toLowerCase() || ''
-                if (statusLabel.includes('done') || statusLabel.includes('complete')) {
+            tasks.forEach(task => {
+                if (isClosedStatus(task.status)) {
                     stats.done++
-                } else if (statusLabel.includes('progress') || statusLabel.includes('doing')) {
+                } else if (!isNotStartedStatus(task.status)) {
                     stats.inProgress++
                 } else {
                     stats.todo++
@@ -163,6 +138,8 @@ export default function DashboardAnalyticsModal({
                         </div>
                     )}
                 </div>
+
+                {ccId && <EstimateReport coordinatorId={ccId} />}
             </div>
         </Modal>
     )
@@ -1,49 +1,60 @@
 import { useEffect, useState, useRef } from 'react'
-import { supabase } from '../lib/supabase'
 import Modal from './Modal'
-import { CheckCircle2, Calendar, User, LayoutGrid, List, X } from 'lucide-react'
+import { CheckCircle2, Calendar, User, LayoutGrid, List, X, SlidersHorizontal, Workflow, Columns3 } from 'lucide-react'
 import KanbanBoard from './KanbanBoard'
 import RichTextEditor from './RichTextEditor'
 import SubtaskTimer from './SubtaskTimer'
+import CustomFieldInput from './CustomFieldInput'
+import CustomFieldsEditor from './CustomFieldsEditor'
+import WorkflowEditor from './WorkflowEditor'
+import StatusEditor from './StatusEditor'
+import { usePermission } from '../contexts/PermissionsContext'
+import { useUndo } from '../contexts/UndoContext'
+import { confirmMoveToTrash } from '../lib/trash'
+import { assigneesCommand, taskMoveCommand, taskTrashCommand } from '../lib/undo'
+import {
+    listTasks,
+    createTask,
+    updateTask,
+    moveTask,
+    deleteTask,
+    assignTask,
+    ensureDepartmentStatuses,
+    listStatuses,
+    initialStatus,
+    isClosedStatus,
+    isNotStartedStatus,
+    createStatus,
+    updateStatus,
+    reorderStatuses,
+    listSubtasks,
+    setSubtaskCompleted,
+    getTimeLoggedByTask,
+    listCustomFields,
+    fieldsForDepartment,
+    customFieldValues,
+    cleanCustomFieldValues,
+    parseEstimateHours,
+    formatCustomFieldValue,
+    type CustomFieldDefinition,
+    type CustomFieldValues,
+    type SubtaskRow,
+    type TaskListItem,
+    type TaskPriority,
+    type TaskRank,
+    type TaskStatusRow,
+    type WipPolicy
+} from '../data'
 
 interface DepartmentTasksModalProps {
     isOpen: boolean
     onClose: () => void
     departmentId: string | null
     departmentName: string
+    clientId?: string | null
     employees: any[]
 }
 
-interface Task {
-    id: string
-    title: string
-    description?: string
-    subtasks?: {
-        id: string
-        title: string
-        is_completed: boolean
-    }[]
-    subtasks_content?: string
-    status_id: string
-    priority: 'low' | 'medium' | 'high'
-    due_date?: string
-    created_at: string
-    assignments?: {
-        user_id: string
-        user: {
-            full_name: string
-            email: string
-        }
-    }[]
-}
-
-interface TaskStatus {
-    id: string
-    label: string
-    color: string
-    position: number
-}
-
 interface TimeLogSummary {
     task_id: string
     total_seconds: number
@@ -54,15 +65,16 @@ export default function DepartmentTasksModal({
     onClose,
     departmentId,
     departmentName,
+    clientId = null,
     employees
 }: DepartmentTasksModalProps) {
-    const [tasks, setTasks] = useState<Task[]>([])
-    const [statuses, setStatuses] = useState<TaskStatus[]>([])
+    const [tasks, setTasks] = useState<TaskListItem[]>([])
+    const [statuses, setStatuses] = useState<TaskStatusRow[]>([])
     const [timeLogs, setTimeLogs] = useState<TimeLogSummary[]>([])
     const [loading, setLoading] = useState(false)
     const [showCreateForm, setShowCreateForm] = useState(false)
     const [viewMode, setViewMode] = useState<'list' | 'board'>('list')
-    const [editingTask, setEditingTask] = useState<Task | null>(null)
+    const [editingTask, setEditingTask] = useState<TaskListItem | null>(null)
 
     // Pagination State
     const [page, setPage] = useState(1)
@@ -73,11 +85,23 @@ export default function DepartmentTasksModal({
     const [title, setTitle] = useState('')
     const [description, setDescription] = useState('')
     const [assignedTo, setAssignedTo] = useState<string[]>([])
-    const [priority, setPriority] = useState<'low' | 'medium' | 'high'>('medium')
+    const [priority, setPriority] = useState<TaskPriority>('medium')
     const [dueDate, setDueDate] = useState('')
+    const [estimate, setEstimate] = useState('')
+    const [customValues, setCustomValues] = useState<CustomFieldValues>({})
+
+    // Custom Fields
+    const [fields, setFields] = useState<CustomFieldDefinition[]>([])
+    const [isFieldsEditorOpen, setIsFieldsEditorOpen] = useState(false)
+    const canManageFields = usePermission('field.manage')
+    const canManageStatuses = usePermission('status.manage')
+    const { record } = useUndo()
+    const [isWorkflowEditorOpen, setIsWorkflowEditorOpen] = useState(false)
+    const [isStatusEditorOpen, setIsStatusEditorOpen] = useState(false)
+    const [statusToDelete, setStatusToDelete] = useState<string | null>(null)
 
     // Subtask State for Editing
-    const [subtasks, setEditingSubtasks] = useState<{ id: string, title: string, is_completed: boolean }[]>([])
+    const [subtasks, setEditingSubtasks] = useState<SubtaskRow[]>([])
 
     useEffect(() => {
         if (editingTask) {
@@ -88,12 +112,11 @@ export default function DepartmentTasksModal({
     }, [editingTask])
 
     const loadSubtasks = async (taskId: string) => {
-        const { data } = await supabase
-            .from('subtasks')
-            .select('*')
-            .eq('task_id', taskId)
-            .order('created_at', { ascending: true })
-        setEditingSubtasks(data || [])
+        try {
+            setEditingSubtasks(await listSubtasks(taskId))
+        } catch (error) {
+            console.error('Error loading subtasks:', error)
+        }
     }
 
     const handleToggleSubtask = async (id: string, isCompleted: boolean) => {
@@ -101,12 +124,7 @@ export default function DepartmentTasksModal({
         setEditingSubtasks(prev => prev.map(t => t.id === id ? { ...t, is_completed: isCompleted } : t))
 
         try {
-            const { error } = await supabase
-                .from('subtasks')
-                .update({ is_completed: isCompleted })
-                .eq('id', id)
-
-            if (error) throw error
+            await setSubtaskCompleted(id, isCompleted)
         } catch (error) {
             console.error('Error toggling subtask:', error)
             loadSubtasks(editingTask!.id) // Revert
@@ -123,70 +141,18 @@ export default function DepartmentTasksModal({
         if (!departmentId) return
         setLoading(true)
         try {
-            // 1. Ensure statuses exist
-            let { data: statusData } = await supabase
-                .from('task_statuses')
-                .select('*')
-                .eq('department_id', departmentId)
-                .order('position')
-
-            if (!statusData || statusData.length === 0) {
-                // Create default statuses
-                const defaultStatuses = [
-                    { department_id: departmentId, label: 'To Do', position: 0, color: '#e2e8f0' },
-                    { department_id: departmentId, label: 'In Progress', position: 1, color: '#fef3c7' },
-                    { department_id: departmentId, label: 'Done', position: 2, color: '#ecfdf5' }
-                ]
-                const { data: newStatuses, error: createError } = await supabase
-                    .from('task_statuses')
-                    .insert(defaultStatuses)
-                    .select()
-
-                if (createError) throw createError
-                statusData = newStatuses
-            }
-            setStatuses(statusData || [])
+            // 1. Statuses; a department without any is offered a set below
+            setStatuses(await listStatuses({ departmentId }))
+            setFields(fieldsForDepartment(await listCustomFields({ clientId }), departmentId, clientId))
 
             // 2. Load Tasks with Assignments
-            const { data: tasksData, error: tasksError, count } = await supabase
-                .from('tasks')
-                .select(`
-                    *,
-                    assignments:task_assignments(
-                        user_id,
-                        user:profiles(full_name, email)
-                    ),
-                    subtasks(id, is_completed)
-                `, { count: 'exact' })
-                .eq('department_id', departmentId)
-                .order('created_at', { ascending: false })
-                .range((page - 1) * ITEMS_PER_PAGE, page * ITEMS_PER_PAGE - 1)
-
-            if (tasksError) throw tasksError
-            setTasks(tasksData || [])
-            setTotalCount(count || 0)
+            const { tasks: tasksData, count } = await listTasks({ departmentId, page, pageSize: ITEMS_PER_PAGE })
+            setTasks(tasksData)
+            setTotalCount(count)
 
             // 3. Load Time Logs Summary
-            if (tasksData && tasksData.length > 0) {
-                const { data: logsData, error: logsError } = await supabase
-                    .from('subtask_time_logs')
-                    .select('task_id, duration_seconds, end_time, start_time')
-                    .in('task_id', tasksData.map(t => t.id))
-
-                if (logsError) throw logsError
-
-                // Calculate total time per task
-                const summary: Record<string, number> = {}
-                logsData?.forEach(log => {
-                    let duration = log.duration_seconds || 0
-                    if (!duration && log.end_time && log.start_time) {
-                        duration = (new Date(log.end_time).getTime() - new Date(log.start_time).getTime()) / 1000
-                    }
-                    summary[log.task_id] = (summary[log.task_id] || 0) + duration
-                })
-
-                setTimeLogs(Object.entries(summary).map(([task_id, total_seconds]) => ({ task_id, total_seconds })))
-            }
+            const summary = await getTimeLoggedByTask(tasksData.map(t => t.id))
+            setTimeLogs(Object.entries(summary).map(([task_id, total_seconds]) => ({ task_id, total_seconds })))
 
         } catch (error) {
             console.error('Error loading department tasks:', error)
@@ -204,71 +170,53 @@ export default function DepartmentTasksModal({
 
             if (editingTask) {
                 // Update existing task
-                const { error } = await supabase
-                    .from('tasks')
-                    .update({
-                        title,
-                        description,
-                        priority,
-                        due_date: dueDate || null
-                    })
-                    .eq('id', editingTask.id)
-
-                if (error) throw error
-                taskId = editingTask.id
-
-                if (error) throw error
+                await updateTask(editingTask.id, {
+                    title,
+                    description,
+                    priority,
+                    due_date: dueDate || null,
+                    estimate_hours: parseEstimateHours(estimate),
+                    custom_fields: cleanCustomFieldValues(customValues, fields)
+                })
                 taskId = editingTask.id
 
                 // Note: Assignment updates are handled atomically at the end via RPC
 
             } else {
                 // Create new task
-                const todoStatus = statuses.find(s => s.label === 'To Do') || statuses[0]
-
-                const { data, error } = await supabase
-                    .from('tasks')
-                    .insert({
-                        department_id: departmentId,
-                        title,
-                        description,
-                        priority,
-                        due_date: dueDate || null,
-                        status_id: todoStatus?.id
-                    })
-                    .select()
-                    .single()
-
-                if (error) throw error
-                taskId = data.id
-            }
-
-            // Atomic update of assignments
-            if (assignedTo.length > 0) {
-                const uniqueUserIds = [...new Set(assignedTo)]
-
-                const { error: rpcError } = await supabase.rpc('update_task_assignments', {
-                    p_task_id: taskId,
-                    p_assignee_ids: uniqueUserIds
-                })
+                const todoStatus = initialStatus(statuses)
 
-                if (rpcError) throw rpcError
-            } else {
-                // Clear assignments if empty
-                const { error: rpcError } = await supabase.rpc('update_task_assignments', {
-                    p_task_id: taskId,
-                    p_assignee_ids: []
+                const data = await createTask({
+                    department_id: departmentId,
+                    title,
+                    description,
+                    priority,
+                    due_date: dueDate || null,
+                    estimate_hours: parseEstimateHours(estimate),
+                    status_id: todoStatus?.id,
+                    custom_fields: cleanCustomFieldValues(customValues, fields)
                 })
-
-                if (rpcError) throw rpcError
+                taskId = data.id
             }
 
+            // Atomic update of assignments (an empty list clears them)
+            await assignTask(taskId, assignedTo)
+            const assigneeChange = editingTask && assigneesCommand(
+                { id: taskId, title },
+                editingTask.assignees.map(a => a.id),
+                assignedTo,
+                loadData
+            )
+            if (assigneeChange) record(assigneeChange)
+
             // Reset form and reload
             setTitle('')
             setDescription('')
             setAssignedTo([])
             setPriority('medium')
             setDueDate('')
+            setEstimate('')
+            setCustomValues({})
             setShowCreateForm(false)
             setEditingTask(null)
             loadData()
@@ -282,7 +230,7 @@ export default function DepartmentTasksModal({
     // Track latest request per task to prevent race conditions
     const pendingStatusUpdateRef = useRef<Record<string, string>>({})
 
-    const handleUpdateTaskStatus = async (taskId: string, newStatusLabel: string) => {
+    const handleMoveTask = async (taskId: string, newStatusLabel: string, ranks: TaskRank[]) => {
         // Generate unique request ID to track this specific update
         const requestId = `${taskId}-${Date.now()}`
         pendingStatusUpdateRef.current[taskId] = requestId
@@ -290,54 +238,53 @@ export default function DepartmentTasksModal({
         const task = tasks.find(t => t.id === taskId)
         if (!task) return
 
-        const newStatus = statuses.find(s => s.label === newStatusLabel)
+        const newStatus = statuses.find(s => s.id === newStatusLabel || s.label === newStatusLabel)
         if (!newStatus) return
 
         const previousStatusId = task.status_id
+        const previousRank = task.rank
 
         // Optimistic update
-        setTasks(prev => prev.map(t =>
-            t.id === taskId ? { ...t, status_id: newStatus.id } : t
-        ))
-
-        const { error } = await supabase
-            .from('tasks')
-            .update({ status_id: newStatus.id })
-            .eq('id', taskId)
+        setTasks(prev => prev.map(t => {
+            const rank = ranks.find(r => r.id === t.id)?.rank ?? t.rank
+            return t.id === taskId ? { ...t, status_id: newStatus.id, rank } : { ...t, rank }
+        }))
 
-        // Error Handling
-        if (error) {
+        try {
+            await moveTask(taskId, newStatus.id, ranks)
+            const command = taskMoveCommand(task, newStatus, ranks, loadData)
+            if (command) record(command)
+        } catch (error) {
             console.error('Error updating task status:', error)
 
             if (pendingStatusUpdateRef.current[taskId] === requestId) {
                 // Revert changes for this task only
                 setTasks(prev => prev.map(t =>
-                    t.id === taskId ? { ...t, status_id: previousStatusId } : t
+                    t.id === taskId ? { ...t, status_id: previousStatusId, rank: previousRank } : t
                 ))
             }
         }
     }
 
-    const handleEditTask = (task: Task) => {
+    const handleEditTask = (task: TaskListItem) => {
         setEditingTask(task)
         setTitle(task.title)
         setDescription(task.description || '')
-        setAssignedTo(task.assignments?.map(a => a.user_id) || [])
-        setPriority(task.priority)
+        setAssignedTo(task.assignees.map(a => a.id))
+        setPriority(task.priority || 'medium')
         setDueDate(task.due_date ? task.due_date.split('T')[0] : '')
+        setEstimate(task.estimate_hours?.toString() || '')
+        setCustomValues(customFieldValues(task))
         setShowCreateForm(true)
     }
 
     const handleDeleteTask = async (taskId: string) => {
-        if (!confirm('Are you sure you want to delete this task?')) return
+        const task = tasks.find(t => t.id === taskId)
+        if (!await confirmMoveToTrash('task', taskId, task?.title || 'this task')) return
 
         try {
-            const { error } = await supabase
-                .from('tasks')
-                .delete()
-                .eq('id', taskId)
-
-            if (error) throw error
+            const deletionId = await deleteTask(taskId)
+            if (task) record(taskTrashCommand(task, deletionId, loadData))
             loadData()
         } catch (error) {
             console.error('Error deleting task:', error)
@@ -366,7 +313,7 @@ export default function DepartmentTasksModal({
         return tmp.textContent || tmp.innerText || ''
     }
 
-    const calculateProgress = (task: Task): number => {
+    const calculateProgress = (task: TaskListItem): number => {
         if (task.subtasks && Array.isArray(task.subtasks) && task.subtasks.length > 0) {
             const completed = task.subtasks.filter(t => t.is_completed).length
             return Math.round((completed / task.subtasks.length) * 100)
@@ -378,15 +325,11 @@ export default function DepartmentTasksModal({
         if (!departmentId) return
 
         try {
-            const { error } = await supabase
-                .from('task_statuses')
-                .insert({
-                    department_id: departmentId,
-                    label,
-                    position: statuses.length
-                })
-
-            if (error) throw error
+            await createStatus({
+                department_id: departmentId,
+                label,
+                position: statuses.length
+            })
             loadData()
         } catch (error) {
             console.error('Error creating status:', error)
@@ -407,36 +350,39 @@ export default function DepartmentTasksModal({
 
         try {
             // Update all positions in db
-            const updates = newStatuses.map(s => ({
-                id: s.id,
-                position: s.position,
-                label: s.label,
-                department_id: departmentId
-            }))
-
-            const { error } = await supabase
-                .from('task_statuses')
-                .upsert(updates)
-
-            if (error) throw error
+            await reorderStatuses(departmentId, newStatuses)
         } catch (error) {
             console.error('Error reordering statuses:', error)
             loadData() // Revert
         }
     }
 
-    const handleDeleteStatus = async (statusId: string) => {
-        try {
-            const { error } = await supabase
-                .from('task_statuses')
-                .delete()
-                .eq('id', statusId)
+    const handleUpdateStatusLimit = async (statusId: string, limit: number | null, policy: WipPolicy) => {
+        setStatuses(prev => prev.map(s => s.id === statusId ? { ...s, wip_limit: limit, wip_policy: policy } : s))
 
-            if (error) throw error
+        try {
+            await updateStatus(statusId, { wip_limit: limit, wip_policy: policy })
+        } catch (error) {
+            console.error('Error updating status limit:', error)
+            alert('Failed to update the limit')
             loadData()
+        }
+    }
+
+    // The status editor asks where the column's tasks go
+    const handleDeleteStatus = (statusId: string) => {
+        setStatusToDelete(statusId)
+        setIsStatusEditorOpen(true)
+    }
+
+    const handleUseDefaultStatuses = async () => {
+        if (!departmentId) return
+
+        try {
+            setStatuses(await ensureDepartmentStatuses(departmentId))
         } catch (error) {
-            console.error('Error deleting status:', error)
-            alert('Failed to delete status')
+            console.error('Error creating default statuses:', error)
+            alert('Failed to create the columns')
         }
     }
 
@@ -529,6 +475,63 @@ export default function DepartmentTasksModal({
                                     <LayoutGrid size={14} /> Board
                                 </button>
                             </div>
+                            <button
+                                onClick={() => setIsFieldsEditorOpen(true)}
+                                style={{
+                                    padding: '0.25rem 0.5rem',
+                                    background: 'var(--bg-tertiary)',
+                                    color: 'var(--text-secondary)',
+                                    border: '1px solid var(--border-color)',
+                                    borderRadius: '0.5rem',
+                                    cursor: 'pointer',
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    gap: '0.25rem',
+                                    fontSize: '0.75rem',
+                                    fontWeight: '500'
+                                }}
+                                title="Custom fields"
+                            >
+                                <SlidersHorizontal size={14} /> Fields
+                            </button>
+                            <button
+                                onClick={() => setIsWorkflowEditorOpen(true)}
+                                style={{
+                                    padding: '0.25rem 0.5rem',
+                                    background: 'var(--bg-tertiary)',
+                                    color: 'var(--text-secondary)',
+                                    border: '1px solid var(--border-color)',
+                                    borderRadius: '0.5rem',
+                                    cursor: 'pointer',
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    gap: '0.25rem',
+                                    fontSize: '0.75rem',
+                                    fontWeight: '500'
+                                }}
+                                title="Workflow rules"
+                            >
+                                <Workflow size={14} /> Workflow
+                            </button>
+                            <button
+                                onClick={() => setIsStatusEditorOpen(true)}
+                                style={{
+                                    padding: '0.25rem 0.5rem',
+                                    background: 'var(--bg-tertiary)',
+                                    color: 'var(--text-secondary)',
+                                    border: '1px solid var(--border-color)',
+                                    borderRadius: '0.5rem',
+                                    cursor: 'pointer',
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    gap: '0.25rem',
+                                    fontSize: '0.75rem',
+                                    fontWeight: '500'
+                                }}
+                                title="Board columns"
+                            >
+                                <Columns3 size={14} /> Columns
+                            </button>
 
                         </div>
                     </div>
@@ -537,6 +540,29 @@ export default function DepartmentTasksModal({
                     <div style={{ flex: 1, overflowY: 'auto', padding: '1rem', background: 'var(--bg-primary)' }}>
                         {loading ? (
                             <div style={{ textAlign: 'center', padding: '2rem', color: 'var(--text-secondary)' }}>Loading tasks...</div>
+                        ) : statuses.length === 0 ? (
+                            <div style={{ textAlign: 'center', padding: '3rem', color: 'var(--text-secondary)' }}>
+                                <Columns3 size={32} style={{ marginBottom: '0.5rem', opacity: 0.5 }} />
+                                <p>This department has no board columns yet.</p>
+                                {canManageStatuses ? (
+                                    <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'center' }}>
+                                        <button
+                                            onClick={handleUseDefaultStatuses}
+                                            style={{ padding: '0.5rem 1rem', borderRadius: '0.5rem', border: 'none', background: 'linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)', color: 'white', fontWeight: '600', cursor: 'pointer' }}
+                                        >
+                                            Use To Do / In Progress / Done
+                                        </button>
+                                        <button
+                                            onClick={() => setIsStatusEditorOpen(true)}
+                                            style={{ padding: '0.5rem 1rem', borderRadius: '0.5rem', border: '1px solid var(--border-color)', background: 'transparent', color: 'var(--text-primary)', cursor: 'pointer' }}
+                                        >
+                                            Set Up Columns
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <p>Ask an admin to set them up.</p>
+                                )}
+                            </div>
                         ) : tasks.length === 0 ? (
                             <div style={{ textAlign: 'center', padding: '3rem', color: 'var(--text-secondary)' }}>
                                 <CheckCircle2 size={32} style={{ marginBottom: '0.5rem', opacity: 0.5 }} />
@@ -546,12 +572,14 @@ export default function DepartmentTasksModal({
                             <KanbanBoard
                                 tasks={tasks}
                                 statuses={statuses}
-                                onUpdateTaskStatus={handleUpdateTaskStatus}
+                                onMoveTask={handleMoveTask}
                                 onEdit={handleEditTask}
                                 onDelete={handleDeleteTask}
                                 onAddStatus={handleCreateStatus}
                                 onReorderStatus={handleReorderStatus}
                                 onDeleteStatus={handleDeleteStatus}
+                                onUpdateStatusLimit={canManageStatuses ? handleUpdateStatusLimit : undefined}
+                                onTasksChanged={loadData}
                             />
                         ) : (
                             <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
@@ -590,8 +618,8 @@ export default function DepartmentTasksModal({
                                                     padding: '0.125rem 0.5rem',
                                                     borderRadius: '9999px',
                                                     background: status?.color ? `${status.color}20` : 'var(--bg-tertiary)',
-                                                    color: (status?.label?.toLowerCase().includes('done') || status?.label?.toLowerCase().includes('complete')) ? '#22c55e' : // Green
-                                                        (status?.label?.toLowerCase().includes('progress') || status?.label?.toLowerCase().includes('review')) ? '#eab308' : // Yellow
+                                                    color: isClosedStatus(status) ? '#22c55e' : // Green
+                                                        !isNotStartedStatus(status) ? '#eab308' : // Yellow
                                                             '#ef4444', // Red for To Do/Backlog
                                                     fontWeight: '600',
                                                     border: `1px solid ${status?.color}40`
@@ -602,11 +630,24 @@ export default function DepartmentTasksModal({
                                             <p style={{ margin: '0 0 0.75rem 0', fontSize: '0.875rem', color: 'var(--text-secondary)', display: '-webkit-box', WebkitLineClamp: 2, WebkitBoxOrient: 'vertical', overflow: 'hidden' }}>
                                                 {stripHtml(task.description || '')}
                                             </p>
+                                            {fields.some(f => formatCustomFieldValue(f, customFieldValues(task)[f.id], employees)) && (
+                                                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.35rem', marginBottom: '0.75rem' }}>
+                                                    {fields.map(field => {
+                                                        const value = formatCustomFieldValue(field, customFieldValues(task)[field.id], employees)
+                                                        if (!value) return null
+                                                        return (
+                                                            <span key={field.id} style={{ fontSize: '0.7rem', padding: '0.125rem 0.5rem', borderRadius: '9999px', background: 'var(--bg-tertiary)', border: '1px solid var(--border-color)', color: 'var(--text-secondary)' }}>
+                                                                {field.name}: <span style={{ color: 'var(--text-primary)' }}>{value}</span>
+                                                            </span>
+                                                        )
+                                                    })}
+                                                </div>
+                                            )}
                                             <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                                                 <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
                                                     <div style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
                                                         <User size={12} />
-                                                        {task.assignments && task.assignments.length > 0 ? task.assignments.length : '0'}
+                                                        {task.assignees.length}
                                                     </div>
                                                     {task.due_date && (
                                                         <div style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', fontSize: '0.75rem', color: new Date(task.due_date) < new Date() ? 'var(--danger-color)' : 'var(--text-secondary)' }}>
@@ -803,8 +844,71 @@ export default function DepartmentTasksModal({
                                             }}
                                         />
                                     </div>
+                                    <div>
+                                        <label style={{
+                                            display: 'block',
+                                            fontSize: '0.875rem',
+                                            fontWeight: '700',
+                                            marginBottom: '0.5rem',
+                                            background: 'linear-gradient(to right, #ec4899, #8b5cf6)',
+                                            WebkitBackgroundClip: 'text',
+                                            WebkitTextFillColor: 'transparent',
+                                            backgroundClip: 'text',
+                                            width: 'fit-content'
+                                        }}>Estimate (hours)</label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.25"
+                                            value={estimate}
+                                            onChange={e => setEstimate(e.target.value)}
+                                            placeholder="From subtasks"
+                                            style={{
+                                                width: '100%',
+                                                padding: '0.6rem',
+                                                borderRadius: '0.5rem',
+                                                border: '1px solid var(--border-color)',
+                                                background: 'var(--bg-tertiary)',
+                                                color: 'var(--text-primary)'
+                                            }}
+                                        />
+                                    </div>
                                 </div>
 
+                                {fields.length > 0 && (
+                                    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1.5rem', marginBottom: '1.5rem' }}>
+                                        {fields.map(field => (
+                                            <div key={field.id} style={{ gridColumn: field.field_type === 'multi_select' ? '1 / -1' : undefined }}>
+                                                <label style={{
+                                                    display: 'block',
+                                                    fontSize: '0.875rem',
+                                                    fontWeight: '700',
+                                                    marginBottom: '0.5rem',
+                                                    background: 'linear-gradient(to right, #ec4899, #8b5cf6)',
+                                                    WebkitBackgroundClip: 'text',
+                                                    WebkitTextFillColor: 'transparent',
+                                                    backgroundClip: 'text',
+                                                    width: 'fit-content'
+                                                }}>{field.name}</label>
+                                                <CustomFieldInput
+                                                    field={field}
+                                                    value={customValues[field.id]}
+                                                    onChange={value => setCustomValues(prev => ({ ...prev, [field.id]: value }))}
+                                                    people={employees}
+                                                    style={{
+                                                        width: '100%',
+                                                        padding: '0.6rem',
+                                                        borderRadius: '0.5rem',
+                                                        border: '1px solid var(--border-color)',
+                                                        background: 'var(--bg-tertiary)',
+                                                        color: 'var(--text-primary)'
+                                                    }}
+                                                />
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+
                                 <div style={{ marginBottom: '1.5rem' }}>
                                     <label style={{
                                         display: 'block',
@@ -901,6 +1005,7 @@ export default function DepartmentTasksModal({
                                         <SubtaskTimer
                                             taskId={editingTask.id}
                                             subtasks={subtasks}
+                                            estimateHours={editingTask.estimate_hours}
                                             onToggleSubtask={handleToggleSubtask}
                                             onEdit={() => { alert('Please use the Task Details view to add/remove subtasks.') }}
                                         />
@@ -930,6 +1035,36 @@ export default function DepartmentTasksModal({
                     </div>
                 )}
             </div>
+            {departmentId && (
+                <Modal
+                    isOpen={isFieldsEditorOpen}
+                    onClose={() => { setIsFieldsEditorOpen(false); loadData() }}
+                    title={`Custom Fields - ${departmentName}`}
+                    maxWidth="720px"
+                >
+                    <CustomFieldsEditor departmentId={departmentId} clientId={clientId} canManage={canManageFields} />
+                </Modal>
+            )}
+            {departmentId && (
+                <Modal
+                    isOpen={isWorkflowEditorOpen}
+                    onClose={() => { setIsWorkflowEditorOpen(false); loadData() }}
+                    title={`Workflow - ${departmentName}`}
+                    maxWidth="820px"
+                >
+                    <WorkflowEditor departmentId={departmentId} statuses={statuses} canManage={canManageStatuses} />
+                </Modal>
+            )}
+            {departmentId && (
+                <Modal
+                    isOpen={isStatusEditorOpen}
+                    onClose={() => { setIsStatusEditorOpen(false); setStatusToDelete(null); loadData() }}
+                    title={`Columns - ${departmentName}`}
+                    maxWidth="640px"
+                >
+                    <StatusEditor departmentId={departmentId} canManage={canManageStatuses} deleteStatusId={statusToDelete} />
+                </Modal>
+            )}
             <style>{`
                 @keyframes slideIn {
                     from { transform: translateX(20px); opacity: 0; }
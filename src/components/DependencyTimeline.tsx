@@ -0,0 +1,187 @@
+import { useMemo } from 'react'
+import { addDays, differenceInCalendarDays, eachDayOfInterval, endOfDay, format, startOfDay } from 'date-fns'
+import { Lock } from 'lucide-react'
+import { findCriticalPath, linkKey } from '../lib/criticalPath'
+import { getUnfinishedBlockers, type TaskDependencyItem, type TaskListItem, type TaskStatusRow } from '../data'
+
+interface DependencyTimelineProps {
+    tasks: TaskListItem[]
+    statuses: Pick<TaskStatusRow, 'id' | 'label' | 'category'>[]
+    dependencies: TaskDependencyItem[]
+    onTaskClick: (task: TaskListItem) => void
+}
+
+const DAY_WIDTH = 32
+const ROW_HEIGHT = 36
+const BAR_HEIGHT = 20
+const LABEL_WIDTH = 220
+const HEADER_HEIGHT = 40
+
+export default function DependencyTimeline({ tasks, statuses, dependencies, onTaskClick }: DependencyTimelineProps) {
+    const timeline = useMemo(() => {
+        // A task with only one date is drawn as a one-day bar
+        const rows = tasks
+            .filter(t => t.start_date || t.due_date)
+            .map(t => {
+                const start = new Date((t.start_date || t.due_date)!)
+                const due = new Date((t.due_date || t.start_date)!)
+                return { task: t, start: start < due ? start : due, end: due > start ? due : start }
+            })
+            .sort((a, b) => a.start.getTime() - b.start.getTime())
+
+        if (rows.length === 0) return null
+
+        const rangeStart = startOfDay(addDays(new Date(Math.min(...rows.map(r => r.start.getTime()))), -1))
+        const rangeEnd = endOfDay(addDays(new Date(Math.max(...rows.map(r => r.end.getTime()))), 1))
+        const links = dependencies.map(d => ({ from: d.depends_on_id, to: d.task_id }))
+        const path = findCriticalPath(
+            rows.map(r => ({ id: r.task.id, start: r.start.getTime(), end: r.end.getTime() })),
+            links
+        )
+
+        return { rows, rangeStart, rangeEnd, links, path }
+    }, [tasks, dependencies])
+
+    if (!timeline) {
+        return (
+            <div style={{ padding: '3rem', textAlign: 'center', color: 'var(--text-secondary)', background: 'var(--bg-secondary)', borderRadius: '12px', border: '1px solid var(--border-color)' }}>
+                No scheduled tasks. Add start and due dates to see them on the timeline.
+            </div>
+        )
+    }
+
+    const { rows, rangeStart, rangeEnd, links, path } = timeline
+    const days = eachDayOfInterval({ start: rangeStart, end: rangeEnd })
+    const xOf = (date: Date) => (date.getTime() - rangeStart.getTime()) / (24 * 60 * 60 * 1000) * DAY_WIDTH
+    const rowIndex = new Map(rows.map((r, i) => [r.task.id, i]))
+    const width = days.length * DAY_WIDTH
+    const height = rows.length * ROW_HEIGHT
+    const todayX = xOf(new Date())
+
+    return (
+        <div style={{ flex: 1, display: 'flex', flexDirection: 'column', background: 'var(--bg-secondary)', borderRadius: '12px', border: '1px solid var(--border-color)', overflow: 'hidden' }}>
+            {/* Legend */}
+            <div style={{ padding: '0.75rem 1rem', borderBottom: '1px solid var(--border-color)', display: 'flex', gap: '1.25rem', fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                <span style={{ display: 'flex', alignItems: 'center', gap: '0.4rem' }}>
+                    <span style={{ width: 16, height: 8, borderRadius: 4, background: 'linear-gradient(135deg, #8b5cf6 0%, #ec4899 100%)' }} /> Critical path
+                </span>
+                <span style={{ display: 'flex', alignItems: 'center', gap: '0.4rem' }}>
+                    <span style={{ width: 16, height: 8, borderRadius: 4, background: '#4b5563' }} /> Has slack
+                </span>
+                <span style={{ display: 'flex', alignItems: 'center', gap: '0.4rem' }}>
+                    <Lock size={12} /> Waiting on unfinished blockers
+                </span>
+            </div>
+
+            <div style={{ flex: 1, overflow: 'auto', display: 'flex' }}>
+                {/* Task names */}
+                <div style={{ position: 'sticky', left: 0, zIndex: 2, width: LABEL_WIDTH, flexShrink: 0, background: 'var(--bg-secondary)', borderRight: '1px solid var(--border-color)' }}>
+                    <div style={{ height: HEADER_HEIGHT, borderBottom: '1px solid var(--border-color)' }} />
+                    {rows.map(({ task }) => (
+                        <div
+                            key={task.id}
+                            onClick={() => onTaskClick(task)}
+                            title={task.title}
+                            style={{
+                                height: ROW_HEIGHT,
+                                padding: '0 0.75rem',
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: '0.4rem',
+                                fontSize: '0.8rem',
+                                fontWeight: path.critical.has(task.id) ? '600' : '400',
+                                color: path.critical.has(task.id) ? 'var(--text-primary)' : 'var(--text-secondary)',
+                                cursor: 'pointer',
+                                whiteSpace: 'nowrap',
+                                overflow: 'hidden',
+                                textOverflow: 'ellipsis'
+                            }}
+                        >
+                            {getUnfinishedBlockers(task.id, dependencies, statuses, tasks).length > 0 && <Lock size={12} style={{ flexShrink: 0 }} />}
+                            <span style={{ overflow: 'hidden', textOverflow: 'ellipsis' }}>{task.title}</span>
+                        </div>
+                    ))}
+                </div>
+
+                {/* Chart */}
+                <div style={{ position: 'relative', width, flexShrink: 0 }}>
+                    <div style={{ display: 'flex', height: HEADER_HEIGHT, borderBottom: '1px solid var(--border-color)' }}>
+                        {days.map(day => (
+                            <div key={day.toISOString()} style={{ width: DAY_WIDTH, flexShrink: 0, borderRight: '1px solid var(--border-color)', fontSize: '0.65rem', color: 'var(--text-secondary)', display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center' }}>
+                                {(day.getDate() === 1 || day.getTime() === rangeStart.getTime()) && <span style={{ fontWeight: '600' }}>{format(day, 'MMM')}</span>}
+                                <span>{format(day, 'd')}</span>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div style={{ position: 'relative', height }}>
+                        {todayX >= 0 && todayX <= width && (
+                            <div style={{ position: 'absolute', top: 0, bottom: 0, left: todayX, width: 1, background: '#3b82f6', opacity: 0.6 }} />
+                        )}
+
+                        <svg width={width} height={height} style={{ position: 'absolute', inset: 0, pointerEvents: 'none' }}>
+                            <defs>
+                                <marker id="dependency-arrow" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                                    <path d="M0,0 L6,3 L0,6 Z" fill="#6b7280" />
+                                </marker>
+                                <marker id="dependency-arrow-critical" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                                    <path d="M0,0 L6,3 L0,6 Z" fill="#ec4899" />
+                                </marker>
+                            </defs>
+                            {links.map(link => {
+                                const from = rowIndex.get(link.from)
+                                const to = rowIndex.get(link.to)
+                                if (from === undefined || to === undefined) return null
+
+                                const x1 = xOf(rows[from].end)
+                                const y1 = from * ROW_HEIGHT + ROW_HEIGHT / 2
+                                const x2 = xOf(rows[to].start)
+                                const y2 = to * ROW_HEIGHT + ROW_HEIGHT / 2
+                                const bend = Math.max(x1 + 8, x2 - 8)
+                                const isCritical = path.criticalLinks.has(linkKey(link))
+
+                                return (
+                                    <path
+                                        key={linkKey(link)}
+                                        d={`M${x1},${y1} H${bend} V${y2} H${x2}`}
+                                        fill="none"
+                                        stroke={isCritical ? '#ec4899' : '#6b7280'}
+                                        strokeWidth={isCritical ? 2 : 1}
+                                        strokeDasharray={x2 < x1 ? '4 3' : undefined}
+                                        markerEnd={`url(#${isCritical ? 'dependency-arrow-critical' : 'dependency-arrow'})`}
+                                    />
+                                )
+                            })}
+                        </svg>
+
+                        {rows.map(({ task, start, end }, i) => {
+                            const isCritical = path.critical.has(task.id)
+                            const left = xOf(start)
+                            const barWidth = Math.max(xOf(end) - left, DAY_WIDTH / 2)
+                            const slackDays = Math.round((path.slack.get(task.id) || 0) / (24 * 60 * 60 * 1000))
+
+                            return (
+                                <div
+                                    key={task.id}
+                                    onClick={() => onTaskClick(task)}
+                                    title={`${task.title}\n${format(start, 'MMM d')} – ${format(end, 'MMM d')} (${differenceInCalendarDays(end, start) + 1}d)${isCritical ? '\nOn the critical path' : `\nSlack: ${slackDays}d`}`}
+                                    style={{
+                                        position: 'absolute',
+                                        top: i * ROW_HEIGHT + (ROW_HEIGHT - BAR_HEIGHT) / 2,
+                                        left,
+                                        width: barWidth,
+                                        height: BAR_HEIGHT,
+                                        borderRadius: '4px',
+                                        background: isCritical ? 'linear-gradient(135deg, #8b5cf6 0%, #ec4899 100%)' : '#4b5563',
+                                        boxShadow: isCritical ? '0 0 0 1px rgba(236, 72, 153, 0.5)' : 'none',
+                                        cursor: 'pointer'
+                                    }}
+                                />
+                            )
+                        })}
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
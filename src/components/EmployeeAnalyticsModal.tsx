@@ -5,24 +5,13 @@ import {
     Circle,
     Clock
 } from 'lucide-react'
-
-interface Task {
-    id: string
-    status_id: string
-    [key: string]: any
-}
-
-interface TaskStatus {
-    id: string
-    label: string
-    [key: string]: any
-}
+import { isClosedStatus, isNotStartedStatus, type TaskRow, type TaskStatusRow } from '../data'
 
 interface EmployeeAnalyticsModalProps {
     isOpen: boolean
     onClose: () => void
-    tasks: Task[]
-    statuses: TaskStatus[]
+    tasks: Pick<TaskRow, 'id' | 'status_id'>[]
+    statuses: Pick<TaskStatusRow, 'id' | 'label' | 'category'>[]
 }
 
 export default function EmployeeAnalyticsModal({
@@ -41,11 +30,10 @@ export default function EmployeeAnalyticsModal({
 
     tasks.forEach(task => {
         const status = statuses.find(s => s.id === task.status_id)
-        const statusLabel = status?.label?.toLowerCase() || ''
 
-        if (statusLabel.includes('done') || statusLabel.includes('complete')) {
+        if (isClosedStatus(status)) {
             stats.done++
-        } else if (statusLabel.includes('progress') || statusLabel.includes('doing')) {
+        } else if (!isNotStartedStatus(status)) {
             stats.inProgress++
         } else {
             stats.todo++
@@ -1,13 +1,9 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import Modal from './Modal'
+import WorkloadBadge from './WorkloadBadge'
 import { User, Check, Search } from 'lucide-react'
-
-interface Employee {
-    id: string
-    email: string
-    full_name: string
-    created_at: string
-}
+import { getWorkloads, rankByCapacity, workloadWindow, type Employee, type EmployeeWorkload } from '../data'
+import { confirmOverCapacity } from '../lib/capacity'
 
 interface EmployeeAssignmentModalProps {
     isOpen: boolean
@@ -30,13 +26,26 @@ export default function EmployeeAssignmentModal({
 }: EmployeeAssignmentModalProps) {
     const [searchTerm, setSearchTerm] = useState('')
     const [loadingId, setLoadingId] = useState<string | null>(null)
+    const [workloads, setWorkloads] = useState<Record<string, EmployeeWorkload>>({})
 
-    const filteredEmployees = allEmployees.filter(emp =>
+    // Load over the coming week
+    useEffect(() => {
+        if (!isOpen || allEmployees.length === 0) return
+        getWorkloads(allEmployees.map(emp => emp.id), workloadWindow())
+            .then(setWorkloads)
+            .catch(error => console.error('Error loading workloads:', error))
+    }, [isOpen, allEmployees])
+
+    const filteredEmployees = rankByCapacity(allEmployees.filter(emp =>
         emp.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
         emp.email.toLowerCase().includes(searchTerm.toLowerCase())
-    )
+    ), workloads)
 
     const handleToggle = async (employeeId: string) => {
+        if (!assignedEmployeeIds.has(employeeId)) {
+            const employee = allEmployees.find(emp => emp.id === employeeId)
+            if (!confirmOverCapacity(employee?.full_name || 'This employee', workloads[employeeId])) return
+        }
         setLoadingId(employeeId)
         await onToggleAssignment(employeeId)
         setLoadingId(null)
@@ -130,6 +139,7 @@ export default function EmployeeAssignmentModal({
                                         <div>
                                             <div style={{ fontWeight: '500', color: 'var(--text-primary)' }}>{emp.full_name}</div>
                                             <div style={{ fontSize: '0.875rem', color: 'var(--text-secondary)' }}>{emp.email}</div>
+                                            <WorkloadBadge workload={workloads[emp.id]} />
                                         </div>
                                     </div>
 
@@ -1,23 +1,12 @@
 import { useState } from 'react'
 import { LayoutGrid, List, UserPlus, Pencil, Trash2, Mail, Calendar, User } from 'lucide-react'
-
-interface Employee {
-    id: string
-    email: string
-    full_name: string
-    created_at: string
-    status?: 'active' | 'inactive'
-    created_by?: string
-    role?: string
-    avatar_url?: string
-    task_count?: number
-}
+import type { Employee } from '../data'
 
 interface EmployeeGalleryProps {
     employees: Employee[]
     onAdd: () => void
     onEdit: (employee: Employee) => void
-    onDelete: (id: string) => void
+    onDelete?: (id: string) => void
     onStatusChange: (id: string, status: 'active' | 'inactive') => void
     onTaskClick?: (id: string, name: string) => void
 }
@@ -252,9 +241,11 @@ export default function EmployeeGallery({ employees, onAdd, onEdit, onDelete, on
                                         <button onClick={() => onEdit(emp)} style={{ ...buttonStyle, padding: '0.4rem' }} title="Edit">
                                             <Pencil size={16} />
                                         </button>
-                                        <button onClick={() => onDelete(emp.id)} style={{ ...buttonStyle, padding: '0.4rem', color: '#ef4444', borderColor: 'rgba(239,68,68,0.3)' }} title="Delete">
-                                            <Trash2 size={16} />
-                                        </button>
+                                        {onDelete && (
+                                            <button onClick={() => onDelete(emp.id)} style={{ ...buttonStyle, padding: '0.4rem', color: '#ef4444', borderColor: 'rgba(239,68,68,0.3)' }} title="Delete">
+                                                <Trash2 size={16} />
+                                            </button>
+                                        )}
                                     </div>
                                 </div>
                             </div>
@@ -301,7 +292,9 @@ export default function EmployeeGallery({ employees, onAdd, onEdit, onDelete, on
                                         <td style={{ padding: '1rem', textAlign: 'right' }}>
                                             <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '0.5rem' }}>
                                                 <button onClick={() => onEdit(emp)} style={{ ...buttonStyle, padding: '0.3rem', border: 'none', background: 'transparent' }}><Pencil size={16} /></button>
-                                                <button onClick={() => onDelete(emp.id)} style={{ ...buttonStyle, padding: '0.3rem', border: 'none', background: 'transparent', color: '#ef4444' }}><Trash2 size={16} /></button>
+                                                {onDelete && (
+                                                    <button onClick={() => onDelete(emp.id)} style={{ ...buttonStyle, padding: '0.3rem', border: 'none', background: 'transparent', color: '#ef4444' }}><Trash2 size={16} /></button>
+                                                )}
                                             </div>
                                         </td>
                                     </tr>
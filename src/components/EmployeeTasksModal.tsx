@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react'
-import { supabase } from '../lib/supabase'
+import { listTasks, isClosedStatus, type TaskListItem } from '../data'
 import Modal from './Modal'
 import { CheckCircle2, Calendar, Clock, ArrowRight } from 'lucide-react'
 
@@ -10,29 +10,8 @@ interface EmployeeTasksModalProps {
     employeeName: string
 }
 
-interface Task {
-    id: string
-    title: string
-    description?: string
-    status_id: string
-    priority: 'low' | 'medium' | 'high'
-    due_date?: string
-    status?: {
-        label: string
-        color: string
-    }
-    department?: {
-        name: string
-        workspace?: {
-            client?: {
-                name: string
-            }
-        }
-    }
-}
-
 export default function EmployeeTasksModal({ isOpen, onClose, employeeId, employeeName }: EmployeeTasksModalProps) {
-    const [tasks, setTasks] = useState<Task[]>([])
+    const [tasks, setTasks] = useState<TaskListItem[]>([])
     const [loading, setLoading] = useState(false)
 
     useEffect(() => {
@@ -45,36 +24,8 @@ export default function EmployeeTasksModal({ isOpen, onClose, employeeId, employ
         if (!employeeId) return
         setLoading(true)
         try {
-            const { data, error } = await supabase
-                .from('tasks')
-                .select(`
-                    id,
-                    title,
-                    description,
-                    priority,
-                    due_date,
-                    status_id,
-                    status:task_statuses(label, color),
-                    assignments:task_assignments!inner(user_id),
-                    department:departments(
-                        name,
-                        workspace:workspaces(
-                            client:clients(name)
-                        )
-                    )
-                `)
-                .eq('assignments.user_id', employeeId)
-                .order('due_date', { ascending: true })
-
-            if (error) throw error
-
-            const formattedTasks = data?.map((t: any) => ({
-                ...t,
-                status: Array.isArray(t.status) ? t.status[0] : t.status,
-                department: Array.isArray(t.department) ? t.department[0] : t.department
-            }))
-
-            setTasks(formattedTasks || [])
+            const { tasks } = await listTasks({ assigneeId: employeeId, orderBy: 'due_date', ascending: true })
+            setTasks(tasks)
         } catch (error) {
             console.error('Error loading employee tasks:', error)
         } finally {
@@ -82,12 +33,12 @@ export default function EmployeeTasksModal({ isOpen, onClose, employeeId, employ
         }
     }
 
-    const formatDate = (dateString?: string) => {
+    const formatDate = (dateString?: string | null) => {
         if (!dateString) return '-'
         return new Date(dateString).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
     }
 
-    const getPriorityColor = (priority: string) => {
+    const getPriorityColor = (priority: string | null) => {
         switch (priority) {
             case 'high': return '#ef4444'
             case 'medium': return '#f59e0b'
@@ -144,7 +95,7 @@ export default function EmployeeTasksModal({ isOpen, onClose, employeeId, employ
                                     </div>
                                     <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', fontSize: '0.8rem', color: 'var(--text-secondary)' }}>
                                         <span style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
-                                            {task.department?.workspace?.client?.name} <ArrowRight size={10} /> {task.department?.name}
+                                            {task.client?.name} <ArrowRight size={10} /> {task.department?.name}
                                         </span>
                                     </div>
                                 </div>
@@ -155,7 +106,7 @@ export default function EmployeeTasksModal({ isOpen, onClose, employeeId, employ
                                         padding: '0.2rem 0.6rem',
                                         borderRadius: '6px',
                                         background: task.status?.color ? `${task.status.color}20` : 'var(--bg-tertiary)',
-                                        color: task.status?.label?.toLowerCase().includes('done') ? '#22c55e' : 'var(--text-primary)',
+                                        color: isClosedStatus(task.status) ? '#22c55e' : 'var(--text-primary)',
                                         border: `1px solid ${task.status?.color}40`,
                                         fontWeight: '600'
                                     }}>
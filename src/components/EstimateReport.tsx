@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react'
+import { Hourglass } from 'lucide-react'
+import {
+    estimateRatio,
+    formatHours,
+    getEstimateAccuracy,
+    type EstimateAccuracyReport,
+    type EstimateAccuracyRow
+} from '../data'
+
+interface EstimateReportProps {
+    // Limits the report to one coordinator's clients
+    coordinatorId?: string
+}
+
+const GROUPINGS = [
+    { key: 'employees', label: 'Employee' },
+    { key: 'contentTypes', label: 'Content Type' },
+    { key: 'clients', label: 'Client' }
+] as const
+
+type Grouping = typeof GROUPINGS[number]['key']
+
+const EMPTY_REPORT: EstimateAccuracyReport = { employees: [], contentTypes: [], clients: [] }
+
+// "+25%" over or "-10%" under the estimate
+function formatVariance(row: EstimateAccuracyRow): string {
+    const ratio = estimateRatio(row)
+    if (ratio === null) return '—'
+    const percent = Math.round((ratio - 1) * 100)
+    return `${percent > 0 ? '+' : ''}${percent}%`
+}
+
+// Within a tenth of the estimate counts as on target
+function varianceColor(row: EstimateAccuracyRow): string {
+    const ratio = estimateRatio(row)
+    if (ratio === null || Math.abs(ratio - 1) <= 0.1) return 'var(--text-primary)'
+    return ratio > 1 ? '#ef4444' : '#3b82f6'
+}
+
+// Estimated against logged hours on finished tasks, by employee, content
+// type or client.
+export default function EstimateReport({ coordinatorId }: EstimateReportProps) {
+    const [report, setReport] = useState<EstimateAccuracyReport>(EMPTY_REPORT)
+    const [loading, setLoading] = useState(true)
+    const [grouping, setGrouping] = useState<Grouping>('employees')
+
+    useEffect(() => {
+        getEstimateAccuracy({ coordinatorId })
+            .then(setReport)
+            .catch(error => console.error('Error loading estimate accuracy:', error))
+            .finally(() => setLoading(false))
+    }, [coordinatorId])
+
+    const rows = report[grouping]
+    // Every task counts under exactly one content type
+    const totals = report.contentTypes.reduce(
+        (sum, row) => ({ estimatedSeconds: sum.estimatedSeconds + row.estimatedSeconds, actualSeconds: sum.actualSeconds + row.actualSeconds }),
+        { estimatedSeconds: 0, actualSeconds: 0 }
+    )
+    const cellStyle: React.CSSProperties = { padding: '0.75rem 1rem', textAlign: 'right', whiteSpace: 'nowrap' }
+
+    return (
+        <div style={{ background: 'var(--bg-secondary)', borderRadius: '1rem', padding: '1.5rem', border: '1px solid var(--border-color)', marginTop: '1.5rem' }}>
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '1rem', flexWrap: 'wrap', gap: '1rem' }}>
+                <div>
+                    <h3 style={{ fontSize: '1.125rem', fontWeight: '600', color: 'var(--text-primary)', display: 'flex', alignItems: 'center', gap: '0.5rem', margin: 0 }}>
+                        <Hourglass size={20} />
+                        Estimate Accuracy
+                    </h3>
+                    <p style={{ color: 'var(--text-secondary)', fontSize: '0.85rem', margin: '0.25rem 0 0' }}>
+                        Finished tasks with an estimate, against the time logged on them
+                        {totals.estimatedSeconds > 0 && ` · ${formatHours(totals.actualSeconds)} logged of ${formatHours(totals.estimatedSeconds)} estimated`}
+                    </p>
+                </div>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    {GROUPINGS.map(g => (
+                        <button
+                            key={g.key}
+                            onClick={() => setGrouping(g.key)}
+                            style={{
+                                padding: '0.4rem 0.8rem',
+                                borderRadius: '0.5rem',
+                                border: grouping === g.key ? 'none' : '1px solid var(--border-color)',
+                                background: grouping === g.key ? 'linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)' : 'var(--bg-tertiary)',
+                                color: grouping === g.key ? 'white' : 'var(--text-secondary)',
+                                fontWeight: '600',
+                                fontSize: '0.8rem',
+                                cursor: 'pointer'
+                            }}
+                        >
+                            {g.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {loading ? (
+                <div style={{ padding: '2rem', textAlign: 'center', color: 'var(--text-secondary)' }}>Loading estimates...</div>
+            ) : rows.length === 0 ? (
+                <div style={{ padding: '2rem', textAlign: 'center', color: 'var(--text-secondary)' }}>No finished tasks with estimates yet.</div>
+            ) : (
+                <div style={{ overflowX: 'auto' }}>
+                    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem' }}>
+                        <thead>
+                            <tr style={{ color: 'var(--text-secondary)', borderBottom: '1px solid var(--border-color)' }}>
+                                <th style={{ ...cellStyle, textAlign: 'left' }}>{GROUPINGS.find(g => g.key === grouping)?.label}</th>
+                                <th style={cellStyle}>Tasks</th>
+                                <th style={cellStyle}>Estimated</th>
+                                <th style={cellStyle}>Logged</th>
+                                <th style={cellStyle}>Variance</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map(row => (
+                                <tr key={row.key} style={{ borderBottom: '1px solid var(--border-color)', color: 'var(--text-primary)' }}>
+                                    <td style={{ ...cellStyle, textAlign: 'left', fontWeight: '500' }}>{row.label}</td>
+                                    <td style={cellStyle}>{row.tasks}</td>
+                                    <td style={cellStyle}>{formatHours(row.estimatedSeconds)}</td>
+                                    <td style={cellStyle}>{formatHours(row.actualSeconds)}</td>
+                                    <td style={{ ...cellStyle, fontWeight: '600', color: varianceColor(row) }}>{formatVariance(row)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -1,35 +1,11 @@
 
 import { Pencil, Trash2, Clock } from 'lucide-react'
-
-interface Task {
-    id: string
-    title: string
-    description?: string
-    status_id: string
-    priority: 'low' | 'medium' | 'high'
-    due_date?: string
-    assigned_to?: string
-    created_at: string
-    assignments?: {
-        user_id: string
-        user: {
-            full_name: string
-            email: string
-        }
-    }[]
-}
-
-interface TaskStatus {
-    id: string
-    label: string
-    color: string
-    position: number
-}
+import type { TaskListItem, TaskStatusRow } from '../data'
 
 interface GalleryViewProps {
-    tasks: Task[]
-    statuses: TaskStatus[]
-    onEdit: (task: Task) => void
+    tasks: TaskListItem[]
+    statuses: TaskStatusRow[]
+    onEdit: (task: TaskListItem) => void
     onDelete: (taskId: string) => void
 }
 
@@ -46,7 +22,7 @@ export default function GalleryView({
         return tmp.textContent || tmp.innerText || ''
     }
 
-    const getStatusInfo = (statusId: string) => {
+    const getStatusInfo = (statusId: string | null) => {
         const status = statuses.find(s => s.id === statusId)
         return status || { label: 'Unassigned', color: '#fee2e2' }
     }
@@ -131,9 +107,9 @@ export default function GalleryView({
                                         </div>
                                     )}
                                     <div style={{ display: 'flex', alignItems: 'center', marginLeft: '0.5rem' }}>
-                                        {task.assignments && task.assignments.length > 0 ? (
-                                            task.assignments.map((assignment, i) => (
-                                                <div key={assignment.user_id} style={{
+                                        {task.assignees.length > 0 ? (
+                                            task.assignees.map((assignee, i) => (
+                                                <div key={assignee.id} style={{
                                                     width: '24px',
                                                     height: '24px',
                                                     borderRadius: '50%',
@@ -146,8 +122,8 @@ export default function GalleryView({
                                                     color: '#4b5563',
                                                     border: '2px solid white',
                                                     marginLeft: i > 0 ? '-10px' : '0'
-                                                }} title={assignment.user.full_name || assignment.user.email}>
-                                                    {(assignment.user.full_name || assignment.user.email).charAt(0).toUpperCase()}
+                                                }} title={assignee.full_name || assignee.email || undefined}>
+                                                    {(assignee.full_name || assignee.email || '?').charAt(0).toUpperCase()}
                                                 </div>
                                             ))
                                         ) : (
@@ -0,0 +1,214 @@
+import { useState } from 'react'
+import { addDays, endOfMonth, format, startOfMonth, subMonths } from 'date-fns'
+import { AlertTriangle, FileText, Search } from 'lucide-react'
+import {
+    buildInvoiceLines,
+    createInvoice,
+    formatHours,
+    listBillableLogs,
+    listBillingRates,
+    logDurationSeconds,
+    setTimeLogBillable,
+    type BillableLog,
+    type BillingRateRow
+} from '../data'
+
+interface InvoiceBuilderProps {
+    clientId: string
+    onCreated: () => void
+}
+
+export default function InvoiceBuilder({ clientId, onCreated }: InvoiceBuilderProps) {
+    const lastMonth = subMonths(new Date(), 1)
+    const [from, setFrom] = useState(format(startOfMonth(lastMonth), 'yyyy-MM-dd'))
+    const [to, setTo] = useState(format(endOfMonth(lastMonth), 'yyyy-MM-dd'))
+    const [logs, setLogs] = useState<BillableLog[] | null>(null)
+    const [rates, setRates] = useState<BillingRateRow[]>([])
+    const [notes, setNotes] = useState('')
+    const [loading, setLoading] = useState(false)
+    const [creating, setCreating] = useState(false)
+
+    const periodStart = new Date(`${from}T00:00`)
+    const periodEnd = new Date(`${to}T00:00`)
+
+    const handleLoad = async () => {
+        setLoading(true)
+        try {
+            const [clientLogs, clientRates] = await Promise.all([
+                // The end date is inclusive
+                listBillableLogs(clientId, periodStart, addDays(periodEnd, 1)),
+                listBillingRates({ clientId })
+            ])
+            setLogs(clientLogs)
+            setRates(clientRates)
+        } catch (error) {
+            console.error('Error loading time logs:', error)
+            alert('Failed to load time logs')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const handleToggleBillable = async (log: BillableLog) => {
+        try {
+            await setTimeLogBillable(log.id, !log.is_billable)
+            setLogs(prev => prev && prev.map(l => l.id === log.id ? { ...l, is_billable: !log.is_billable } : l))
+        } catch (error) {
+            console.error('Error updating time log:', error)
+            alert('Failed to update time log')
+        }
+    }
+
+    const { lines, unpriced } = logs ? buildInvoiceLines(logs, rates, clientId) : { lines: [], unpriced: [] }
+    const total = lines.reduce((sum, line) => sum + line.amount, 0)
+
+    const handleCreate = async () => {
+        if (lines.length === 0) return
+        if (unpriced.length > 0 && !confirm(`${unpriced.length} billable entries have no rate and will be left off. Create the invoice anyway?`)) return
+
+        setCreating(true)
+        try {
+            await createInvoice({ clientId, periodStart, periodEnd, lines, notes })
+            setLogs(null)
+            setNotes('')
+            onCreated()
+        } catch (error) {
+            console.error('Error creating invoice:', error)
+            alert((error as { message?: string }).message || 'Failed to create invoice')
+        } finally {
+            setCreating(false)
+        }
+    }
+
+    return (
+        <div>
+            <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'flex-end', marginBottom: '1.5rem', flexWrap: 'wrap' }}>
+                <div>
+                    <label style={labelStyle}>From</label>
+                    <input type="date" value={from} onChange={e => setFrom(e.target.value)} style={inputStyle} />
+                </div>
+                <div>
+                    <label style={labelStyle}>To</label>
+                    <input type="date" value={to} min={from} onChange={e => setTo(e.target.value)} style={inputStyle} />
+                </div>
+                <button onClick={handleLoad} disabled={loading || !from || !to} style={secondaryButtonStyle}>
+                    <Search size={16} /> {loading ? 'Loading...' : 'Find Time'}
+                </button>
+            </div>
+
+            {logs && (
+                <>
+                    {unpriced.length > 0 && (
+                        <div style={{ padding: '0.75rem 1rem', borderRadius: '0.5rem', background: 'rgba(245, 158, 11, 0.1)', color: '#f59e0b', fontSize: '0.85rem', display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem' }}>
+                            <AlertTriangle size={16} />
+                            {unpriced.length} billable {unpriced.length === 1 ? 'entry has' : 'entries have'} no matching rate. Add a rate to include them.
+                        </div>
+                    )}
+
+                    <h4 style={sectionHeadingStyle}>Line Items</h4>
+                    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem', marginBottom: '1.5rem' }}>
+                        <thead>
+                            <tr style={{ color: 'var(--text-secondary)', fontSize: '0.75rem', textTransform: 'uppercase', textAlign: 'left' }}>
+                                <th style={{ padding: '0.5rem' }}>Description</th>
+                                <th style={{ padding: '0.5rem', textAlign: 'right' }}>Hours</th>
+                                <th style={{ padding: '0.5rem', textAlign: 'right' }}>Rate</th>
+                                <th style={{ padding: '0.5rem', textAlign: 'right' }}>Amount</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {lines.length === 0 ? (
+                                <tr><td colSpan={4} style={{ padding: '1.5rem', textAlign: 'center', color: 'var(--text-secondary)' }}>Nothing to invoice in this period.</td></tr>
+                            ) : lines.map(line => (
+                                <tr key={`${line.taskId}-${line.description}-${line.rate}`} style={{ borderTop: '1px solid var(--border-color)', color: 'var(--text-primary)' }}>
+                                    <td style={{ padding: '0.5rem' }}>{line.description}</td>
+                                    <td style={{ padding: '0.5rem', textAlign: 'right' }}>{line.hours.toFixed(2)}</td>
+                                    <td style={{ padding: '0.5rem', textAlign: 'right' }}>{line.rate.toFixed(2)}</td>
+                                    <td style={{ padding: '0.5rem', textAlign: 'right', fontWeight: '600' }}>{line.amount.toFixed(2)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                        <tfoot>
+                            <tr style={{ borderTop: '2px solid var(--border-color)', color: 'var(--text-primary)', fontWeight: '700' }}>
+                                <td style={{ padding: '0.5rem' }} colSpan={3}>Total</td>
+                                <td style={{ padding: '0.5rem', textAlign: 'right' }}>{total.toFixed(2)}</td>
+                            </tr>
+                        </tfoot>
+                    </table>
+
+                    <h4 style={sectionHeadingStyle}>Time Entries</h4>
+                    <div style={{ maxHeight: '280px', overflowY: 'auto', border: '1px solid var(--border-color)', borderRadius: '0.5rem', marginBottom: '1.5rem' }}>
+                        {logs.length === 0 ? (
+                            <div style={{ padding: '1rem', color: 'var(--text-secondary)', fontSize: '0.85rem' }}>No uninvoiced time in this period.</div>
+                        ) : logs.map(log => (
+                            <label key={log.id} style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '0.5rem 0.75rem', borderBottom: '1px solid var(--border-color)', fontSize: '0.85rem', cursor: 'pointer', opacity: log.is_billable ? 1 : 0.6 }}>
+                                <input type="checkbox" checked={log.is_billable} onChange={() => handleToggleBillable(log)} />
+                                <span style={{ color: 'var(--text-secondary)', whiteSpace: 'nowrap' }}>{format(new Date(log.start_time), 'MMM d')}</span>
+                                <span style={{ flex: 1, color: 'var(--text-primary)' }}>{log.task.title} · {log.subtask_name}</span>
+                                <span style={{ color: 'var(--text-secondary)' }}>{log.is_billable ? 'Billable' : 'Non-billable'}</span>
+                                <span style={{ width: '4.5rem', textAlign: 'right', color: 'var(--text-primary)' }}>{formatHours(logDurationSeconds(log))}</span>
+                            </label>
+                        ))}
+                    </div>
+
+                    <label style={labelStyle}>Notes</label>
+                    <textarea
+                        value={notes}
+                        onChange={e => setNotes(e.target.value)}
+                        placeholder="Payment terms, bank details..."
+                        style={{ ...inputStyle, width: '100%', minHeight: '80px', resize: 'vertical', marginBottom: '1rem' }}
+                    />
+
+                    <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+                        <button
+                            onClick={handleCreate}
+                            disabled={creating || lines.length === 0}
+                            style={{ padding: '0.6rem 1.2rem', borderRadius: '0.5rem', border: 'none', background: 'linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)', color: 'white', fontWeight: '600', cursor: lines.length === 0 ? 'not-allowed' : 'pointer', opacity: creating || lines.length === 0 ? 0.6 : 1, display: 'flex', alignItems: 'center', gap: '0.4rem' }}
+                        >
+                            <FileText size={16} /> {creating ? 'Creating...' : 'Create Draft Invoice'}
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    )
+}
+
+const labelStyle: React.CSSProperties = {
+    display: 'block',
+    fontSize: '0.75rem',
+    fontWeight: '700',
+    color: 'var(--text-secondary)',
+    marginBottom: '0.4rem',
+    textTransform: 'uppercase',
+    letterSpacing: '0.05em'
+}
+
+const sectionHeadingStyle: React.CSSProperties = {
+    fontSize: '0.85rem',
+    fontWeight: '700',
+    color: 'var(--text-primary)',
+    margin: '0 0 0.5rem'
+}
+
+const inputStyle: React.CSSProperties = {
+    padding: '0.5rem 0.75rem',
+    borderRadius: '6px',
+    border: '1px solid var(--border-color)',
+    background: 'var(--bg-tertiary)',
+    color: 'var(--text-primary)',
+    fontSize: '0.875rem'
+}
+
+const secondaryButtonStyle: React.CSSProperties = {
+    padding: '0.5rem 1rem',
+    borderRadius: '0.5rem',
+    border: '1px solid var(--border-color)',
+    background: 'var(--bg-tertiary)',
+    color: 'var(--text-primary)',
+    cursor: 'pointer',
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.4rem',
+    fontWeight: '600',
+    fontSize: '0.875rem'
+}
@@ -1,95 +1,159 @@
 import { DragDropContext, Droppable, Draggable } from '@hello-pangea/dnd'
-import type { DropResult } from '@hello-pangea/dnd'
-import { Pencil, Trash2, Plus, GripVertical, X } from 'lucide-react'
+import type { DraggableProvidedDragHandleProps, DropResult } from '@hello-pangea/dnd'
+import { Pencil, Trash2, Plus, GripVertical, X, Lock, Gauge } from 'lucide-react'
 import { useState, useEffect } from 'react'
-
-interface Task {
-    id: string
-    title: string
-    description?: string
-    status_id: string
-    priority: 'low' | 'medium' | 'high'
-    due_date?: string
-    assigned_to?: string
-    created_at: string
-    assignments?: {
-        user_id: string
-        user: {
-            full_name: string
-            email: string
-        }
-    }[]
-}
-
-interface TaskStatus {
-    id: string
-    label: string
-    color: string
-    position: number
-}
+import { useAuth } from '../contexts/AuthContext'
+import { useUndo } from '../contexts/UndoContext'
+import {
+    listDependencies,
+    sortStatusesAcrossDepartments,
+    listDepartments,
+    getUnfinishedBlockers,
+    isNotStartedStatus,
+    applyBulkTaskChange,
+    type BulkTaskChange,
+    type TaskDependencyItem,
+    type TaskListItem,
+    type TaskPriority,
+    type TaskRank,
+    type TaskStatusRow,
+    type WipPolicy
+} from '../data'
+import { TASK_GROUPINGS, groupTasks, type TaskGroup, type TaskGrouping } from '../lib/taskGroups'
+import { confirmWipLimit } from '../lib/wipLimits'
+import { confirmWorkflowMove } from '../lib/workflows'
+import { assigneesCommand } from '../lib/undo'
+import { rankMove, sortByRank } from '../lib/rank'
 
 interface KanbanBoardProps {
-    tasks: Task[]
-    statuses: TaskStatus[]
-    onUpdateTaskStatus: (taskId: string, newStatusId: string) => void
-    onEdit: (task: Task) => void
+    tasks: TaskListItem[]
+    statuses: TaskStatusRow[]
+    // Ranks place the card in its column
+    onMoveTask: (taskId: string, newStatusId: string, ranks: TaskRank[]) => void
+    onEdit: (task: TaskListItem) => void
     onDelete: (taskId: string) => void
     onAddStatus: (label: string) => void
     onReorderStatus: (startIndex: number, endIndex: number) => void
+    // Asks where the column's tasks go before deleting it
     onDeleteStatus: (statusId: string) => void
-    groupByLabel?: boolean
+    // Lets the user set each column's work-in-progress limit
+    onUpdateStatusLimit?: (statusId: string, limit: number | null, policy: WipPolicy) => void
+    // A task was moved between swimlanes and should be reloaded
+    onTasksChanged?: () => void
+    // Statuses come from several departments; each keeps its own columns
+    acrossDepartments?: boolean
 }
 
+type BoardColumn = Pick<TaskStatusRow, 'id' | 'department_id' | 'label' | 'color' | 'position' | 'wip_limit' | 'wip_policy'>
+
+const LANE_GROUPINGS = TASK_GROUPINGS.filter(g => ['assignee', 'priority', 'client', 'content_type'].includes(g.key))
+const PRIORITY_LANES = ['high', 'medium', 'low', '']
+
+// Task droppables in swimlane mode are "<lane key>::<column key>"
+const LANE_SEPARATOR = '::'
+
 export default function KanbanBoard({
     tasks,
     statuses,
-    onUpdateTaskStatus,
+    onMoveTask,
     onEdit,
     onDelete,
     onAddStatus,
     onReorderStatus,
     onDeleteStatus,
-    groupByLabel = false
+    onUpdateStatusLimit,
+    onTasksChanged,
+    acrossDepartments = false
 }: KanbanBoardProps) {
+    const { user } = useAuth()
+    const { record } = useUndo()
     const [isAddingStatus, setIsAddingStatus] = useState(false)
     const [newStatusLabel, setNewStatusLabel] = useState('')
+    const [dependencies, setDependencies] = useState<TaskDependencyItem[]>([])
+    const [laneBy, setLaneBy] = useState<TaskGrouping | null>(null)
+    const [editingLimitId, setEditingLimitId] = useState<string | null>(null)
+    const [limitDraft, setLimitDraft] = useState('')
+    const [policyDraft, setPolicyDraft] = useState<WipPolicy>('warn')
 
-    const getTasksByStatus = (statusIdOrLabel: string) => {
-        if (statusIdOrLabel === 'unassigned') {
-            return tasks.filter(task => !statuses.find(s => s.id === task.status_id))
-        }
-        if (groupByLabel) {
-            return tasks.filter(task => {
-                const status = statuses.find(s => s.id === task.status_id)
-                return status?.label === statusIdOrLabel
-            })
+    // Reload blockers whenever the set of tasks on the board changes
+    const taskIdsKey = tasks.map(t => t.id).join(',')
+    const departmentIdsKey = [...new Set(tasks.map(t => t.department_id))].sort().join(',')
+    useEffect(() => {
+        listDependencies({ departmentIds: departmentIdsKey ? departmentIdsKey.split(',') : [] })
+            .then(setDependencies)
+            .catch(error => console.error('Error loading dependencies:', error))
+    }, [taskIdsKey, departmentIdsKey])
+
+    const getTasksByStatus = (statusId: string, source: TaskListItem[] = tasks) => {
+        if (statusId === 'unassigned') {
+            return source.filter(task => !statuses.find(s => s.id === task.status_id))
         }
-        return tasks.filter(task => task.status_id === statusIdOrLabel)
+        return sortByRank(source.filter(task => task.status_id === statusId))
     }
 
-    const processedStatuses = groupByLabel
-        ? statuses.filter((status, index, self) =>
-            index === self.findIndex((s) => s.label === status.label)
-        )
-        : statuses
+    const processedStatuses = acrossDepartments ? sortStatusesAcrossDepartments(statuses) : statuses
+    const departmentNames = new Map(tasks.map(task => [task.department_id, task.department?.name]))
 
-    const displayStatuses = [
+    const displayStatuses: BoardColumn[] = [
         ...(tasks.some(task => !statuses.find(s => s.id === task.status_id)) ? [{
             id: 'unassigned',
+            department_id: null,
             label: 'Unassigned / Invalid Status',
             color: '#fee2e2',
-            position: -1
+            position: -1,
+            wip_limit: null,
+            wip_policy: 'warn'
         }] : []),
         ...processedStatuses
     ]
 
+    const lanes: TaskGroup<TaskListItem>[] = (() => {
+        if (!laneBy) return []
+        const grouped = groupTasks(tasks, laneBy)
+        if (laneBy !== 'priority') return grouped
+        // Every priority gets a lane, so a task can be dropped into an empty one
+        return PRIORITY_LANES.map(key => grouped.find(g => g.key === key) || {
+            key,
+            label: key ? key[0].toUpperCase() + key.slice(1) : 'Normal',
+            tasks: []
+        })
+    })()
+
     const stripHtml = (html: string) => {
         const tmp = document.createElement('DIV')
         tmp.innerHTML = html
         return tmp.textContent || tmp.innerText || ''
     }
 
-    const onDragEnd = (result: DropResult) => {
+    // What moving `task` into the lane `laneKey` changes about it
+    const laneChange = async (task: TaskListItem, laneKey: string): Promise<BulkTaskChange | null> => {
+        switch (laneBy) {
+            case 'priority':
+                return { kind: 'priority', priority: (laneKey || null) as TaskPriority | null }
+            case 'content_type':
+                return { kind: 'content_type', contentType: laneKey || null }
+            case 'assignee': {
+                const others = task.assignees.slice(1).map(a => a.id).filter(id => id !== laneKey)
+                return { kind: 'assignees', userIds: laneKey ? [laneKey, ...others] : [], mode: 'replace' }
+            }
+            case 'client': {
+                if (!laneKey) return null
+                // Prefer the department of the same name in the other client
+                const departments = await listDepartments({ clientId: laneKey })
+                const department = departments.find(d => d.name === task.department?.name) || departments[0]
+                if (!department) {
+                    alert('That client has no departments to move the task into.')
+                    return null
+                }
+                if (!confirm(`Move "${task.title}" to ${department.client?.name || 'the client'} · ${department.name}?`)) return null
+                return { kind: 'department', department }
+            }
+            default:
+                return null
+        }
+    }
+
+    const onDragEnd = async (result: DropResult) => {
         const { destination, source, draggableId, type } = result
 
         if (!destination) return
@@ -106,8 +170,59 @@ export default function KanbanBoard({
             return
         }
 
-        // Task drag
-        onUpdateTaskStatus(draggableId, destination.droppableId)
+        const [fromLane, fromColumn] = laneBy ? source.droppableId.split(LANE_SEPARATOR) : ['', source.droppableId]
+        const [toLane, toColumn] = laneBy ? destination.droppableId.split(LANE_SEPARATOR) : ['', destination.droppableId]
+        const task = tasks.find(t => t.id === draggableId)
+        const target = statuses.find(s => s.id === toColumn)
+        const columnChanged = fromColumn !== toColumn
+        const laneTasks = laneBy ? lanes.find(l => l.key === toLane)?.tasks || [] : tasks
+        const ranks = rankMove(getTasksByStatus(toColumn, laneTasks), draggableId, destination.index)
+
+        if (columnChanged && target) {
+            // Only a move to another client changes the task's department
+            const changesClient = laneBy === 'client' && fromLane !== toLane
+            if (task && !changesClient && target.department_id !== task.department_id) {
+                alert(`"${task.title}" belongs to ${task.department?.name || 'another department'}; move it between that department's columns.`)
+                return
+            }
+            // Tasks waiting on unfinished blockers stay in the not-started columns
+            if (!isNotStartedStatus(target)) {
+                const blockers = getUnfinishedBlockers(draggableId, dependencies, statuses, tasks)
+                if (blockers.length > 0) {
+                    alert(`This task is blocked by: ${blockers.map(b => b.title).join(', ')}. Finish those first.`)
+                    return
+                }
+            }
+            if (task && !await confirmWorkflowMove(task.id, target.id)) return
+            if (!await confirmWipLimit(target)) return
+        }
+
+        if (task && laneBy && fromLane !== toLane) {
+            const change = await laneChange(task, toLane)
+            if (!change || !user) return
+            // A move to another client maps the status by label itself, so
+            // it carries the new column's label along instead
+            const moved = change.kind === 'department' && columnChanged && target
+                ? { ...task, status: { id: target.id, label: target.label, color: target.color, category: target.category } }
+                : task
+            if (change.kind !== 'department') onMoveTask(draggableId, toColumn, ranks)
+            try {
+                const outcome = await applyBulkTaskChange([moved], change, user.id)
+                if (outcome.failed.length > 0) alert(`Failed to move the task: ${outcome.failed[0].message}`)
+                else if (change.kind === 'assignees') {
+                    const command = assigneesCommand(task, task.assignees.map(a => a.id), change.userIds, () => onTasksChanged?.())
+                    if (command) record(command)
+                }
+            } catch (error) {
+                console.error('Error moving task between lanes:', error)
+                alert('Failed to move the task')
+            }
+            onTasksChanged?.()
+            return
+        }
+
+        // Task drag, within or across columns
+        onMoveTask(draggableId, toColumn, ranks)
     }
 
     const handleAddStatusSubmit = (e: React.FormEvent) => {
@@ -119,6 +234,19 @@ export default function KanbanBoard({
         }
     }
 
+    const startEditingLimit = (status: BoardColumn) => {
+        setEditingLimitId(editingLimitId === status.id ? null : status.id)
+        setLimitDraft(status.wip_limit ? String(status.wip_limit) : '')
+        setPolicyDraft(status.wip_policy === 'block' ? 'block' : 'warn')
+    }
+
+    const handleLimitSubmit = (e: React.FormEvent, statusId: string) => {
+        e.preventDefault()
+        const limit = Math.trunc(Number(limitDraft))
+        onUpdateStatusLimit?.(statusId, limit > 0 ? limit : null, policyDraft)
+        setEditingLimitId(null)
+    }
+
     const [isMounted, setIsMounted] = useState(false)
 
     useEffect(() => {
@@ -130,7 +258,7 @@ export default function KanbanBoard({
             <div style={{ display: 'flex', gap: '2rem', overflowX: 'auto', paddingBottom: '1.5rem', height: '100%', paddingLeft: '0.5rem', paddingRight: '0.5rem' }}>
                 {displayStatuses.map((status) => (
                     <div
-                        key={groupByLabel && status.id !== 'unassigned' ? status.label : status.id}
+                        key={status.id}
                         style={{
                             flex: '1 0 300px',
                             display: 'flex',
@@ -155,211 +283,333 @@ export default function KanbanBoard({
         )
     }
 
-    return (
-        <DragDropContext onDragEnd={onDragEnd}>
-            <Droppable droppableId="board" direction="horizontal" type="COLUMN">
-                {(provided) => (
-                    <div
-                        ref={provided.innerRef}
-                        {...provided.droppableProps}
-                        style={{ display: 'flex', gap: '2rem', overflowX: 'auto', paddingBottom: '1.5rem', height: '100%', paddingLeft: '0.5rem', paddingRight: '0.5rem' }}
-                    >
-                        {/* Debug section removed */}
-                        {displayStatuses.map((status, index) => {
-                            const draggableId = groupByLabel && status.id !== 'unassigned' ? status.label : status.id
-                            return (
-                                <Draggable key={draggableId} draggableId={draggableId} index={index}>
-                                    {(provided) => (
-                                        <div
-                                            ref={provided.innerRef}
-                                            {...provided.draggableProps}
-                                            style={{
-                                                ...provided.draggableProps.style,
-                                                flex: '1 0 300px',
-                                                display: 'flex',
-                                                flexDirection: 'column',
-                                                background: 'var(--bg-secondary)',
-                                                borderRadius: '1rem',
-                                                padding: '1.25rem',
-                                                height: '100%',
-                                                maxHeight: '100%',
-                                                border: '1px solid var(--border-color)'
-                                            }}
-                                        >
-                                            <div
-                                                {...provided.dragHandleProps}
-                                                style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginBottom: '1.25rem', padding: '0 0.5rem', cursor: 'grab' }}
-                                            >
-                                                <GripVertical size={16} color="#9ca3af" />
-                                                <div style={{
-                                                    width: '12px',
-                                                    height: '12px',
-                                                    borderRadius: '50%',
-                                                    background: status.color || '#e5e7eb'
-                                                }} />
-                                                <h3 style={{ fontSize: '1rem', fontWeight: '600', color: 'var(--text-primary)', margin: 0 }}>{status.label}</h3>
-                                                <span style={{ marginLeft: 'auto', background: 'var(--bg-primary)', padding: '0.25rem 0.625rem', borderRadius: '1rem', fontSize: '0.75rem', color: 'var(--text-secondary)', border: '1px solid var(--border-color)' }}>
-                                                    {getTasksByStatus(groupByLabel && status.id !== 'unassigned' ? status.label : status.id).length}
-                                                </span>
-                                                <button
-                                                    onClick={() => {
-                                                        if (confirm(`Delete status "${status.label}"? Tasks in this status will need to be reassigned.`)) {
-                                                            onDeleteStatus(status.id)
-                                                        }
-                                                    }}
-                                                    style={{ background: 'none', border: 'none', cursor: 'pointer', color: '#9ca3af', padding: '4px' }}
-                                                >
-                                                    <X size={16} />
-                                                </button>
-                                            </div>
-
-                                            <Droppable droppableId={groupByLabel && status.id !== 'unassigned' ? status.label : status.id} type="TASK">
-                                                {(provided, snapshot) => (
-                                                    <div
-                                                        {...provided.droppableProps}
-                                                        ref={provided.innerRef}
-                                                        style={{
-                                                            flex: 1,
-                                                            display: 'flex',
-                                                            flexDirection: 'column',
-                                                            background: snapshot.isDraggingOver ? 'var(--bg-tertiary)' : 'transparent',
-                                                            transition: 'background 0.2s',
-                                                            borderRadius: '0.5rem',
-                                                            padding: '0.25rem',
-                                                            overflowY: 'auto',
-                                                            minHeight: '100px'
-                                                        }}
-                                                    >
-                                                        {getTasksByStatus(groupByLabel && status.id !== 'unassigned' ? status.label : status.id).map((task, index) => (
-                                                            <Draggable key={task.id} draggableId={task.id} index={index}>
-                                                                {(provided, snapshot) => (
-                                                                    <div
-                                                                        ref={provided.innerRef}
-                                                                        {...provided.draggableProps}
-                                                                        {...provided.dragHandleProps}
-                                                                        onClick={() => onEdit(task)}
-                                                                        style={{
-                                                                            background: 'var(--bg-primary)',
-                                                                            padding: '1rem',
-                                                                            marginBottom: '1rem',
-                                                                            borderRadius: '0.5rem',
-                                                                            border: '1px solid var(--border-color)',
-                                                                            boxShadow: snapshot.isDragging ? '0 4px 6px -1px rgba(0, 0, 0, 0.1)' : '0 1px 2px 0 rgba(0, 0, 0, 0.05)',
-                                                                            cursor: 'pointer',
-                                                                            ...provided.draggableProps.style
-                                                                        }}
-                                                                    >
-                                                                        <div style={{ fontSize: '0.95rem', fontWeight: '500', color: 'var(--text-primary)', marginBottom: '0.5rem', display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
-                                                                            <span className="text-gradient">{task.title}</span>
-                                                                            <div style={{ display: 'flex', gap: '0.25rem' }}>
-                                                                                <button
-                                                                                    onClick={(e) => { e.stopPropagation(); onEdit(task) }}
-                                                                                    style={{ background: 'none', border: 'none', cursor: 'pointer', padding: '0.125rem', color: '#6b7280' }}
-                                                                                >
-                                                                                    <Pencil size={12} />
-                                                                                </button>
-                                                                                <button
-                                                                                    onClick={(e) => { e.stopPropagation(); onDelete(task.id) }}
-                                                                                    style={{ background: 'none', border: 'none', cursor: 'pointer', padding: '0.125rem', color: '#ef4444' }}
-                                                                                >
-                                                                                    <Trash2 size={12} />
-                                                                                </button>
-                                                                            </div>
-                                                                        </div>
-                                                                        {task.description && (
-                                                                            <div style={{ fontSize: '0.875rem', color: 'var(--text-secondary)', marginBottom: '0.75rem', display: '-webkit-box', WebkitLineClamp: 2, WebkitBoxOrient: 'vertical', overflow: 'hidden' }}>
-                                                                                {stripHtml(task.description)}
-                                                                            </div>
-                                                                        )}
-                                                                        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: '0.75rem' }}>
-                                                                            <div style={{ display: 'flex', alignItems: 'center', marginLeft: '0.5rem' }}>
-                                                                                {task.assignments && task.assignments.length > 0 ? (
-                                                                                    task.assignments.map((assignment, i) => (
-                                                                                        <div key={assignment.user_id} style={{
-                                                                                            width: '20px',
-                                                                                            height: '20px',
-                                                                                            borderRadius: '50%',
-                                                                                            background: 'var(--bg-tertiary)',
-                                                                                            display: 'flex',
-                                                                                            alignItems: 'center',
-                                                                                            justifyContent: 'center',
-                                                                                            fontSize: '0.625rem',
-                                                                                            fontWeight: '600',
-                                                                                            color: 'var(--text-secondary)',
-                                                                                            border: '1px solid var(--bg-primary)',
-                                                                                            marginLeft: i > 0 ? '-8px' : '0'
-                                                                                        }} title={assignment.user.full_name || assignment.user.email}>
-                                                                                            {(assignment.user.full_name || assignment.user.email).charAt(0).toUpperCase()}
-                                                                                        </div>
-                                                                                    ))
-                                                                                ) : (
-                                                                                    <span style={{ color: '#9ca3af' }}>Unassigned</span>
-                                                                                )}
-                                                                            </div>
-                                                                            {task.due_date && (
-                                                                                <div style={{ color: new Date(task.due_date) < new Date() ? '#ef4444' : '#6b7280' }}>
-                                                                                    {new Date(task.due_date).toLocaleDateString()}
-                                                                                </div>
-                                                                            )}
-                                                                        </div>
-                                                                    </div>
-                                                                )}
-                                                            </Draggable>
-                                                        ))}
-                                                        {provided.placeholder}
-                                                    </div>
-                                                )}
-                                            </Droppable>
-                                        </div>
-                                    )}
-                                </Draggable>
-                            )
-                        })}
-                        {provided.placeholder}
-
-                        {/* Add Status Button */}
-                        <div style={{ flex: '0 0 300px' }}>
-                            {isAddingStatus ? (
-                                <form onSubmit={handleAddStatusSubmit} style={{ background: 'var(--bg-secondary)', padding: '1rem', borderRadius: '0.75rem', border: '1px solid var(--border-color)' }}>
-                                    <input
-                                        autoFocus
-                                        type="text"
-                                        value={newStatusLabel}
-                                        onChange={(e) => setNewStatusLabel(e.target.value)}
-                                        placeholder="Status Name"
-                                        style={{ width: '100%', padding: '0.5rem', borderRadius: '0.375rem', border: '1px solid var(--border-color)', marginBottom: '0.5rem', background: 'var(--bg-primary)', color: 'var(--text-primary)' }}
-                                    />
-                                    <div style={{ display: 'flex', gap: '0.5rem' }}>
-                                        <button type="submit" style={{ flex: 1, padding: '0.375rem', background: 'var(--accent-color)', color: 'white', border: 'none', borderRadius: '0.375rem', cursor: 'pointer' }}>Add</button>
-                                        <button type="button" onClick={() => setIsAddingStatus(false)} style={{ flex: 1, padding: '0.375rem', background: 'var(--bg-primary)', color: 'var(--text-secondary)', border: '1px solid var(--border-color)', borderRadius: '0.375rem', cursor: 'pointer' }}>Cancel</button>
-                                    </div>
-                                </form>
-                            ) : (
-                                <button
-                                    onClick={() => setIsAddingStatus(true)}
-                                    style={{
-                                        width: '100%',
-                                        padding: '1rem',
-                                        background: 'transparent',
-                                        border: '2px dashed var(--border-color)',
-                                        borderRadius: '0.75rem',
-                                        color: 'var(--text-secondary)',
-                                        fontWeight: '500',
-                                        cursor: 'pointer',
+    const renderTaskCard = (task: TaskListItem, index: number) => (
+        <Draggable key={task.id} draggableId={task.id} index={index}>
+            {(provided, snapshot) => (
+                <div
+                    ref={provided.innerRef}
+                    {...provided.draggableProps}
+                    {...provided.dragHandleProps}
+                    onClick={() => onEdit(task)}
+                    style={{
+                        background: 'var(--bg-primary)',
+                        padding: '1rem',
+                        marginBottom: '1rem',
+                        borderRadius: '0.5rem',
+                        border: '1px solid var(--border-color)',
+                        boxShadow: snapshot.isDragging ? '0 4px 6px -1px rgba(0, 0, 0, 0.1)' : '0 1px 2px 0 rgba(0, 0, 0, 0.05)',
+                        cursor: 'pointer',
+                        ...provided.draggableProps.style
+                    }}
+                >
+                    <div style={{ fontSize: '0.95rem', fontWeight: '500', color: 'var(--text-primary)', marginBottom: '0.5rem', display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+                        <span className="text-gradient">{task.title}</span>
+                        <div style={{ display: 'flex', gap: '0.25rem' }}>
+                            {getUnfinishedBlockers(task.id, dependencies, statuses, tasks).length > 0 && (
+                                <span title={`Blocked by: ${getUnfinishedBlockers(task.id, dependencies, statuses, tasks).map(b => b.title).join(', ')}`} style={{ display: 'flex', alignItems: 'center', padding: '0.125rem', color: '#f59e0b' }}>
+                                    <Lock size={12} />
+                                </span>
+                            )}
+                            <button
+                                onClick={(e) => { e.stopPropagation(); onEdit(task) }}
+                                style={{ background: 'none', border: 'none', cursor: 'pointer', padding: '0.125rem', color: '#6b7280' }}
+                            >
+                                <Pencil size={12} />
+                            </button>
+                            <button
+                                onClick={(e) => { e.stopPropagation(); onDelete(task.id) }}
+                                style={{ background: 'none', border: 'none', cursor: 'pointer', padding: '0.125rem', color: '#ef4444' }}
+                            >
+                                <Trash2 size={12} />
+                            </button>
+                        </div>
+                    </div>
+                    {task.description && (
+                        <div style={{ fontSize: '0.875rem', color: 'var(--text-secondary)', marginBottom: '0.75rem', display: '-webkit-box', WebkitLineClamp: 2, WebkitBoxOrient: 'vertical', overflow: 'hidden' }}>
+                            {stripHtml(task.description)}
+                        </div>
+                    )}
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: '0.75rem' }}>
+                        <div style={{ display: 'flex', alignItems: 'center', marginLeft: '0.5rem' }}>
+                            {task.assignees.length > 0 ? (
+                                task.assignees.map((assignee, i) => (
+                                    <div key={assignee.id} style={{
+                                        width: '20px',
+                                        height: '20px',
+                                        borderRadius: '50%',
+                                        background: 'var(--bg-tertiary)',
                                         display: 'flex',
                                         alignItems: 'center',
                                         justifyContent: 'center',
-                                        gap: '0.5rem',
-                                        transition: 'all 0.2s'
-                                    }}
-                                >
-                                    <Plus size={20} /> Add Status
-                                </button>
+                                        fontSize: '0.625rem',
+                                        fontWeight: '600',
+                                        color: 'var(--text-secondary)',
+                                        border: '1px solid var(--bg-primary)',
+                                        marginLeft: i > 0 ? '-8px' : '0'
+                                    }} title={assignee.full_name || assignee.email}>
+                                        {(assignee.full_name || assignee.email).charAt(0).toUpperCase()}
+                                    </div>
+                                ))
+                            ) : (
+                                <span style={{ color: '#9ca3af' }}>Unassigned</span>
                             )}
                         </div>
+                        {task.due_date && (
+                            <div style={{ color: new Date(task.due_date) < new Date() ? '#ef4444' : '#6b7280' }}>
+                                {new Date(task.due_date).toLocaleDateString()}
+                            </div>
+                        )}
                     </div>
+                </div>
+            )}
+        </Draggable>
+    )
+
+    const renderTaskList = (droppableId: string, columnTasks: TaskListItem[]) => (
+        <Droppable droppableId={droppableId} type="TASK">
+            {(provided, snapshot) => (
+                <div
+                    {...provided.droppableProps}
+                    ref={provided.innerRef}
+                    style={{
+                        flex: 1,
+                        display: 'flex',
+                        flexDirection: 'column',
+                        background: snapshot.isDraggingOver ? 'var(--bg-tertiary)' : 'transparent',
+                        transition: 'background 0.2s',
+                        borderRadius: '0.5rem',
+                        padding: '0.25rem',
+                        overflowY: 'auto',
+                        minHeight: '100px'
+                    }}
+                >
+                    {columnTasks.map(renderTaskCard)}
+                    {provided.placeholder}
+                </div>
+            )}
+        </Droppable>
+    )
+
+    const renderColumnHeader = (status: BoardColumn, dragHandleProps?: DraggableProvidedDragHandleProps | null) => {
+        const count = getTasksByStatus(status.id).length
+        const limit = status.wip_limit
+        const overLimit = !!limit && count > limit
+        const canEditLimit = !!onUpdateStatusLimit && status.id !== 'unassigned'
+
+        return (
+            <>
+                <div
+                    {...dragHandleProps}
+                    style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginBottom: '1.25rem', padding: '0 0.5rem', cursor: dragHandleProps ? 'grab' : 'default' }}
+                >
+                    {dragHandleProps && <GripVertical size={16} color="#9ca3af" />}
+                    <div style={{
+                        width: '12px',
+                        height: '12px',
+                        borderRadius: '50%',
+                        background: status.color || '#e5e7eb'
+                    }} />
+                    <h3 style={{ fontSize: '1rem', fontWeight: '600', color: 'var(--text-primary)', margin: 0 }}>{status.label}</h3>
+                    {acrossDepartments && status.department_id && departmentNames.get(status.department_id) && (
+                        <span style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>{departmentNames.get(status.department_id)}</span>
+                    )}
+                    <span
+                        title={limit ? `Limit ${limit} (${status.wip_policy === 'block' ? 'blocks' : 'warns on'} drops over it)` : undefined}
+                        style={{
+                            marginLeft: 'auto',
+                            background: overLimit ? 'rgba(239, 68, 68, 0.1)' : 'var(--bg-primary)',
+                            padding: '0.25rem 0.625rem',
+                            borderRadius: '1rem',
+                            fontSize: '0.75rem',
+                            color: overLimit ? '#ef4444' : 'var(--text-secondary)',
+                            border: overLimit ? '1px solid rgba(239, 68, 68, 0.4)' : '1px solid var(--border-color)'
+                        }}
+                    >
+                        {limit ? `${count} / ${limit}` : count}
+                    </span>
+                    {canEditLimit && (
+                        <button
+                            onClick={() => startEditingLimit(status)}
+                            title="Work-in-progress limit"
+                            style={{ background: 'none', border: 'none', cursor: 'pointer', color: status.wip_limit ? 'var(--accent-color)' : '#9ca3af', padding: '4px', display: 'flex' }}
+                        >
+                            <Gauge size={16} />
+                        </button>
+                    )}
+                    {dragHandleProps && (
+                        <button
+                            onClick={() => onDeleteStatus(status.id)}
+                            title="Delete column"
+                            style={{ background: 'none', border: 'none', cursor: 'pointer', color: '#9ca3af', padding: '4px' }}
+                        >
+                            <X size={16} />
+                        </button>
+                    )}
+                </div>
+                {editingLimitId === status.id && (
+                    <form onSubmit={(e) => handleLimitSubmit(e, status.id)} style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem', padding: '0 0.5rem' }}>
+                        <input
+                            autoFocus
+                            type="number"
+                            min={1}
+                            value={limitDraft}
+                            onChange={(e) => setLimitDraft(e.target.value)}
+                            placeholder="No limit"
+                            style={{ width: '6rem', padding: '0.375rem', borderRadius: '0.375rem', border: '1px solid var(--border-color)', background: 'var(--bg-primary)', color: 'var(--text-primary)' }}
+                        />
+                        <select
+                            value={policyDraft}
+                            onChange={(e) => setPolicyDraft(e.target.value as WipPolicy)}
+                            style={{ flex: 1, padding: '0.375rem', borderRadius: '0.375rem', border: '1px solid var(--border-color)', background: 'var(--bg-primary)', color: 'var(--text-primary)' }}
+                        >
+                            <option value="warn">Warn</option>
+                            <option value="block">Block</option>
+                        </select>
+                        <button type="submit" style={{ padding: '0.375rem 0.75rem', background: 'var(--accent-color)', color: 'white', border: 'none', borderRadius: '0.375rem', cursor: 'pointer' }}>Save</button>
+                    </form>
                 )}
-            </Droppable>
-        </DragDropContext>
+            </>
+        )
+    }
+
+    const columnStyle: React.CSSProperties = {
+        flex: '1 0 300px',
+        display: 'flex',
+        flexDirection: 'column',
+        background: 'var(--bg-secondary)',
+        borderRadius: '1rem',
+        padding: '1.25rem',
+        border: '1px solid var(--border-color)'
+    }
+
+    const laneSelect = (
+        <div style={{ display: 'flex', justifyContent: 'flex-end', padding: '0 0.5rem 0.75rem' }}>
+            <select
+                value={laneBy || ''}
+                onChange={(e) => setLaneBy((e.target.value || null) as TaskGrouping | null)}
+                style={{ padding: '0.375rem 0.5rem', borderRadius: '0.375rem', border: '1px solid var(--border-color)', background: 'var(--bg-secondary)', color: 'var(--text-primary)', fontSize: '0.85rem' }}
+            >
+                <option value="">No swimlanes</option>
+                {LANE_GROUPINGS.map(g => <option key={g.key} value={g.key}>Swimlanes by {g.label}</option>)}
+            </select>
+        </div>
+    )
+
+    // Swimlanes: column headers once, then one row of columns per lane.
+    // Columns keep their order here; reordering happens without lanes.
+    if (laneBy) {
+        return (
+            <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+                {laneSelect}
+                <DragDropContext onDragEnd={onDragEnd}>
+                    <div style={{ flex: 1, overflow: 'auto', paddingBottom: '1.5rem', paddingLeft: '0.5rem', paddingRight: '0.5rem' }}>
+                        <div style={{ display: 'flex', gap: '2rem', minWidth: 'fit-content' }}>
+                            {displayStatuses.map(status => (
+                                <div key={status.id} style={{ ...columnStyle, paddingBottom: 0, borderBottomLeftRadius: 0, borderBottomRightRadius: 0 }}>
+                                    {renderColumnHeader(status)}
+                                </div>
+                            ))}
+                        </div>
+                        {lanes.map(lane => (
+                            <div key={lane.key} style={{ marginTop: '1rem', minWidth: 'fit-content' }}>
+                                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', padding: '0.5rem', fontSize: '0.875rem', fontWeight: '600', color: 'var(--text-primary)', borderBottom: '1px solid var(--border-color)', marginBottom: '0.75rem' }}>
+                                    {lane.label}
+                                    <span style={{ fontSize: '0.75rem', fontWeight: '500', color: 'var(--text-secondary)' }}>{lane.tasks.length}</span>
+                                </div>
+                                <div style={{ display: 'flex', gap: '2rem' }}>
+                                    {displayStatuses.map(status => (
+                                        <div key={status.id} style={{ ...columnStyle, padding: '0.75rem' }}>
+                                            {renderTaskList(`${lane.key}${LANE_SEPARATOR}${status.id}`, getTasksByStatus(status.id, lane.tasks))}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </DragDropContext>
+            </div>
+        )
+    }
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
+            {laneSelect}
+            <DragDropContext onDragEnd={onDragEnd}>
+                <Droppable droppableId="board" direction="horizontal" type="COLUMN">
+                    {(provided) => (
+                        <div
+                            ref={provided.innerRef}
+                            {...provided.droppableProps}
+                            style={{ flex: 1, minHeight: 0, display: 'flex', gap: '2rem', overflowX: 'auto', paddingBottom: '1.5rem', paddingLeft: '0.5rem', paddingRight: '0.5rem' }}
+                        >
+                            {displayStatuses.map((status, index) => {
+                                const draggableId = status.id
+                                return (
+                                    <Draggable key={draggableId} draggableId={draggableId} index={index}>
+                                        {(provided) => (
+                                            <div
+                                                ref={provided.innerRef}
+                                                {...provided.draggableProps}
+                                                style={{
+                                                    ...provided.draggableProps.style,
+                                                    ...columnStyle,
+                                                    height: '100%',
+                                                    maxHeight: '100%'
+                                                }}
+                                            >
+                                                {renderColumnHeader(status, provided.dragHandleProps)}
+                                                {renderTaskList(draggableId, getTasksByStatus(draggableId))}
+                                            </div>
+                                        )}
+                                    </Draggable>
+                                )
+                            })}
+                            {provided.placeholder}
+
+                            {/* Add Status Button */}
+                            <div style={{ flex: '0 0 300px' }}>
+                                {isAddingStatus ? (
+                                    <form onSubmit={handleAddStatusSubmit} style={{ background: 'var(--bg-secondary)', padding: '1rem', borderRadius: '0.75rem', border: '1px solid var(--border-color)' }}>
+                                        <input
+                                            autoFocus
+                                            type="text"
+                                            value={newStatusLabel}
+                                            onChange={(e) => setNewStatusLabel(e.target.value)}
+                                            placeholder="Status Name"
+                                            style={{ width: '100%', padding: '0.5rem', borderRadius: '0.375rem', border: '1px solid var(--border-color)', marginBottom: '0.5rem', background: 'var(--bg-primary)', color: 'var(--text-primary)' }}
+                                        />
+                                        <div style={{ display: 'flex', gap: '0.5rem' }}>
+                                            <button type="submit" style={{ flex: 1, padding: '0.375rem', background: 'var(--accent-color)', color: 'white', border: 'none', borderRadius: '0.375rem', cursor: 'pointer' }}>Add</button>
+                                            <button type="button" onClick={() => setIsAddingStatus(false)} style={{ flex: 1, padding: '0.375rem', background: 'var(--bg-primary)', color: 'var(--text-secondary)', border: '1px solid var(--border-color)', borderRadius: '0.375rem', cursor: 'pointer' }}>Cancel</button>
+                                        </div>
+                                    </form>
+                                ) : (
+                                    <button
+                                        onClick={() => setIsAddingStatus(true)}
+                                        style={{
+                                            width: '100%',
+                                            padding: '1rem',
+                                            background: 'transparent',
+                                            border: '2px dashed var(--border-color)',
+                                            borderRadius: '0.75rem',
+                                            color: 'var(--text-secondary)',
+                                            fontWeight: '500',
+                                            cursor: 'pointer',
+                                            display: 'flex',
+                                            alignItems: 'center',
+                                            justifyContent: 'center',
+                                            gap: '0.5rem',
+                                            transition: 'all 0.2s'
+                                        }}
+                                    >
+                                        <Plus size={20} /> Add Status
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </Droppable>
+            </DragDropContext>
+        </div>
     )
 }
@@ -1,17 +1,16 @@
 import React from 'react'
 import { Droppable } from '@hello-pangea/dnd'
 import TaskCard from './TaskCard'
+import type { TaskListItem, TaskStatusRow } from '../data'
 
 interface KanbanColumnProps {
-    status: {
-        id: string
-        label: string
-        color: string
-    }
-    tasks: any[]
+    status: Pick<TaskStatusRow, 'id' | 'label' | 'color'>
+    tasks: TaskListItem[]
+    // Set when the board shows several departments' columns
+    departmentName?: string
 }
 
-const KanbanColumn = ({ status, tasks }: KanbanColumnProps) => {
+const KanbanColumn = ({ status, tasks, departmentName }: KanbanColumnProps) => {
     return (
         <div style={{
             width: '320px',
@@ -26,7 +25,10 @@ const KanbanColumn = ({ status, tasks }: KanbanColumnProps) => {
         }}>
             {/* Header */}
             <div style={{ padding: '1rem', borderBottom: '1px solid var(--border-color)', display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexShrink: 0 }}>
-                <h3 style={{ fontSize: '0.875rem', fontWeight: '600', color: 'var(--text-secondary)', textTransform: 'uppercase' }}>{status.label}</h3>
+                <div>
+                    <h3 style={{ fontSize: '0.875rem', fontWeight: '600', color: 'var(--text-secondary)', textTransform: 'uppercase' }}>{status.label}</h3>
+                    {departmentName && <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>{departmentName}</div>}
+                </div>
                 <span style={{ fontSize: '0.75rem', background: 'var(--bg-tertiary)', padding: '0.1rem 0.4rem', borderRadius: '10px' }}>{tasks.length}</span>
             </div>
 
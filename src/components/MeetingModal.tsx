@@ -1,7 +1,10 @@
 import { useState, useEffect } from 'react'
 import { supabase } from '../lib/supabase'
 import Modal from './Modal'
+import WorkloadBadge from './WorkloadBadge'
 import { Briefcase, Link, MapPin, ChevronDown, ChevronUp, Search, Check } from 'lucide-react'
+import { getWorkloads, rankByCapacity, workloadWindow, type EmployeeWorkload } from '../data'
+import { confirmOverCapacity } from '../lib/capacity'
 
 interface MeetingModalProps {
     isOpen: boolean
@@ -23,6 +26,7 @@ export default function MeetingModal({ isOpen, onClose, onMeetingCreated, meetin
     const [clients, setClients] = useState<any[]>([])
     const [profiles, setProfiles] = useState<any[]>([])
     const [participants, setParticipants] = useState<string[]>([])
+    const [workloads, setWorkloads] = useState<Record<string, EmployeeWorkload>>({})
     const [isParticipantsOpen, setIsParticipantsOpen] = useState(false)
     const [searchTerm, setSearchTerm] = useState('')
     const [isClientOpen, setIsClientOpen] = useState(false)
@@ -52,6 +56,14 @@ export default function MeetingModal({ isOpen, onClose, onMeetingCreated, meetin
         }
     }, [isOpen, meetingToEdit])
 
+    // Load over the meeting's days, fetched while the picker is open
+    useEffect(() => {
+        if (!isParticipantsOpen || profiles.length === 0) return
+        getWorkloads(profiles.map(p => p.id), workloadWindow(startTime || null, endTime || null))
+            .then(setWorkloads)
+            .catch(error => console.error('Error loading workloads:', error))
+    }, [isParticipantsOpen, profiles, startTime, endTime])
+
     const fetchClients = async () => {
         const { data } = await supabase.from('clients').select('id, name')
         setClients(data || [])
@@ -403,7 +415,7 @@ export default function MeetingModal({ isOpen, onClose, onMeetingCreated, meetin
                                     <p style={{ color: 'var(--text-secondary)', fontSize: '0.875rem', padding: '0.5rem' }}>No profiles found</p>
                                 ) : (
                                     <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', padding: '0.5rem' }}>
-                                        {profiles.filter(p => (p.full_name || p.email).toLowerCase().includes(searchTerm.toLowerCase())).map(p => (
+                                        {rankByCapacity(profiles.filter(p => (p.full_name || p.email).toLowerCase().includes(searchTerm.toLowerCase())), workloads).map(p => (
                                             <label key={p.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer', fontSize: '0.875rem', color: 'var(--text-primary)', padding: '0.25rem', borderRadius: '4px', transition: 'background 0.2s', ':hover': { background: 'var(--bg-tertiary)' } } as any}>
                                                 <input
                                                     type="checkbox"
@@ -411,6 +423,7 @@ export default function MeetingModal({ isOpen, onClose, onMeetingCreated, meetin
                                                     checked={participants.includes(p.id)}
                                                     onChange={e => {
                                                         if (e.target.checked) {
+                                                            if (!confirmOverCapacity(p.full_name || p.email, workloads[p.id])) return
                                                             setParticipants([...participants, p.id])
                                                         } else {
                                                             setParticipants(participants.filter(id => id !== p.id))
@@ -418,7 +431,10 @@ export default function MeetingModal({ isOpen, onClose, onMeetingCreated, meetin
                                                     }}
                                                     style={{ cursor: 'pointer', accentColor: '#3b82f6' }}
                                                 />
-                                                {p.full_name || p.email}
+                                                <div style={{ display: 'flex', flexDirection: 'column' }}>
+                                                    {p.full_name || p.email}
+                                                    <WorkloadBadge workload={workloads[p.id]} />
+                                                </div>
                                             </label>
                                         ))}
                                     </div>
@@ -28,9 +28,11 @@ import { useAuth } from '../contexts/AuthContext'
 interface MeetingsProps {
     clientId?: string | null
     filterByParticipant?: boolean
+    // Scrolled to and highlighted once loaded, e.g. from a search result
+    focusMeetingId?: string | null
 }
 
-export default function Meetings({ clientId, filterByParticipant = false }: MeetingsProps) {
+export default function Meetings({ clientId, filterByParticipant = false, focusMeetingId = null }: MeetingsProps) {
     const { user } = useAuth()
     const [meetings, setMeetings] = useState<Meeting[]>([])
     const [loading, setLoading] = useState(true)
@@ -44,6 +46,11 @@ export default function Meetings({ clientId, filterByParticipant = false }: Meet
         }
     }, [user, clientId])
 
+    useEffect(() => {
+        if (!focusMeetingId || loading) return
+        document.getElementById(`meeting-${focusMeetingId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    }, [focusMeetingId, loading])
+
     const fetchMeetings = async () => {
         setLoading(true)
         try {
@@ -184,11 +191,12 @@ export default function Meetings({ clientId, filterByParticipant = false }: Meet
 
                             <div style={{ display: 'grid', gap: '1rem' }}>
                                 {dayMeetings.map(meeting => (
-                                    <div key={meeting.id} style={{
+                                    <div key={meeting.id} id={`meeting-${meeting.id}`} style={{
                                         display: 'flex', alignItems: 'center', gap: '1.5rem',
                                         padding: '1.25rem',
                                         background: 'var(--bg-secondary)',
-                                        border: '1px solid var(--border-color)',
+                                        border: meeting.id === focusMeetingId ? '1px solid var(--accent-color)' : '1px solid var(--border-color)',
+                                        boxShadow: meeting.id === focusMeetingId ? '0 0 0 3px rgba(99, 102, 241, 0.2)' : undefined,
                                         borderRadius: '12px',
                                         transition: 'transform 0.1s, box-shadow 0.1s',
                                         cursor: 'pointer'
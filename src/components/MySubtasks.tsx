@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react'
+import { format, parseISO } from 'date-fns'
+import { Calendar, ListChecks } from 'lucide-react'
+import { listAssignedSubtasks, setSubtaskCompleted, type AssignedSubtask } from '../data'
+
+interface MySubtasksProps {
+    userId: string
+    onOpenTask: (taskId: string) => void
+}
+
+// Open subtasks assigned to the user, including on tasks they aren't
+// assigned to themselves.
+export default function MySubtasks({ userId, onOpenTask }: MySubtasksProps) {
+    const [subtasks, setSubtasks] = useState<AssignedSubtask[]>([])
+
+    useEffect(() => {
+        listAssignedSubtasks(userId)
+            .then(setSubtasks)
+            .catch(error => console.error('Error loading assigned subtasks:', error))
+    }, [userId])
+
+    const handleComplete = async (subtask: AssignedSubtask) => {
+        setSubtasks(prev => prev.filter(s => s.id !== subtask.id))
+        try {
+            await setSubtaskCompleted(subtask.id, true)
+        } catch (error) {
+            console.error('Error completing subtask:', error)
+            alert('Failed to complete the subtask')
+            setSubtasks(prev => [...prev, subtask])
+        }
+    }
+
+    if (subtasks.length === 0) return null
+
+    const today = format(new Date(), 'yyyy-MM-dd')
+
+    return (
+        <div style={{ background: 'var(--bg-secondary)', border: 'var(--glass-border)', borderRadius: 'var(--radius-lg)', padding: '1.25rem 1.5rem', marginBottom: '1.5rem' }}>
+            <h3 style={{ margin: '0 0 1rem', fontSize: '1rem', fontWeight: '700', display: 'flex', alignItems: 'center', gap: '0.5rem' }} className="text-gradient">
+                <ListChecks size={18} style={{ color: '#ec4899' }} />
+                My Subtasks
+                <span style={{ fontSize: '0.8rem', fontWeight: '600', color: 'var(--text-secondary)' }}>{subtasks.length}</span>
+            </h3>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                {subtasks.map(subtask => (
+                    <div
+                        key={subtask.id}
+                        style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '0.5rem 0.75rem', background: 'var(--bg-tertiary)', borderRadius: '0.5rem', border: '1px solid var(--border-color)' }}
+                    >
+                        <button
+                            onClick={() => handleComplete(subtask)}
+                            title="Mark as done"
+                            style={{ width: 18, height: 18, borderRadius: '4px', border: '2px solid var(--text-secondary)', background: 'transparent', cursor: 'pointer', flexShrink: 0, padding: 0 }}
+                        />
+                        <div
+                            onClick={() => onOpenTask(subtask.task.id)}
+                            style={{ flex: 1, minWidth: 0, cursor: 'pointer' }}
+                        >
+                            <div style={{ fontSize: '0.9rem', fontWeight: '500', color: 'var(--text-primary)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{subtask.title}</div>
+                            <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{subtask.task.title}</div>
+                        </div>
+                        {subtask.due_date && (
+                            <span style={{ display: 'flex', alignItems: 'center', gap: '0.35rem', fontSize: '0.8rem', fontWeight: '500', color: subtask.due_date < today ? '#ef4444' : 'var(--text-secondary)' }}>
+                                <Calendar size={14} />
+                                {format(parseISO(subtask.due_date), 'MMM d')}
+                            </span>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    )
+}
@@ -1,23 +1,12 @@
 
 import { useMemo } from 'react'
 import { AlertCircle, Clock, CheckCircle2 } from 'lucide-react'
-
-interface Task {
-    id: string
-    title: string
-    status_id: string
-    due_date?: string
-}
-
-interface TaskStatus {
-    id: string
-    label: string
-}
+import { isClosedStatus, type TaskRow, type TaskStatusRow } from '../data'
 
 interface NotificationDropdownProps {
-    tasks: Task[]
-    statuses: TaskStatus[]
-    onTaskClick: (task: any) => void
+    tasks: TaskRow[]
+    statuses: Pick<TaskStatusRow, 'id' | 'label' | 'category'>[]
+    onTaskClick: (task: TaskRow) => void
     onClose: () => void
 }
 
@@ -32,11 +21,7 @@ export default function NotificationDropdown({
         const next24Hours = new Date(now.getTime() + 24 * 60 * 60 * 1000)
 
         // Helper to check if status considered "done"
-        const isCompleted = (statusId: string) => {
-            const status = statuses.find(s => s.id === statusId)
-            const label = status?.label.toLowerCase() || ''
-            return label.includes('done') || label.includes('complete') || label.includes('finish')
-        }
+        const isCompleted = (statusId: string | null) => isClosedStatus(statuses.find(s => s.id === statusId))
 
         const dueTasks = tasks.filter(task => {
             if (!task.due_date) return false
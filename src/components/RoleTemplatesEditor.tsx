@@ -0,0 +1,115 @@
+import { Fragment, useEffect, useState } from 'react'
+import { ShieldCheck } from 'lucide-react'
+import { listRoleCapabilities, setRoleCapability } from '../data'
+import { CAPABILITIES, CAPABILITY_KEYS, EDITABLE_ROLES, ROLE_LABELS, type Capability } from '../lib/permissions'
+
+const grantKey = (role: string, capability: string) => `${role}:${capability}`
+
+export default function RoleTemplatesEditor() {
+    const [grants, setGrants] = useState<Set<string>>(new Set())
+    const [loading, setLoading] = useState(true)
+    const [saving, setSaving] = useState<string | null>(null)
+
+    useEffect(() => {
+        listRoleCapabilities()
+            .then(rows => setGrants(new Set(rows.map(r => grantKey(r.role, r.capability)))))
+            .catch(error => console.error('Error loading role templates:', error))
+            .finally(() => setLoading(false))
+    }, [])
+
+    const handleToggle = async (role: string, capability: Capability) => {
+        const key = grantKey(role, capability)
+        const granted = !grants.has(key)
+        setSaving(key)
+
+        try {
+            await setRoleCapability(role, capability, granted)
+            setGrants(prev => {
+                const next = new Set(prev)
+                if (granted) next.add(key)
+                else next.delete(key)
+                return next
+            })
+        } catch (error) {
+            console.error('Error updating role template:', error)
+            alert('Failed to update role template')
+        } finally {
+            setSaving(null)
+        }
+    }
+
+    const groups = [...new Set(CAPABILITY_KEYS.map(c => CAPABILITIES[c].group))]
+
+    return (
+        <div style={{
+            background: 'white',
+            borderRadius: '1rem',
+            border: '1px solid #e6dccf',
+            overflow: 'hidden',
+            boxShadow: '0 2px 4px rgba(74, 59, 50, 0.05)',
+            marginTop: '2rem',
+        }}>
+            <div style={{ padding: '1.5rem', borderBottom: '1px solid #e6dccf', display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                <ShieldCheck size={22} style={{ color: '#c19a6b' }} />
+                <div>
+                    <h2 style={{ fontSize: '1.25rem', fontWeight: '700', color: '#4a3b32', marginBottom: '0.25rem' }}>
+                        Role Templates
+                    </h2>
+                    <p style={{ color: '#8c7b70', fontSize: '0.875rem', margin: 0 }}>
+                        Choose what each role may do. Admins always have every permission.
+                    </p>
+                </div>
+            </div>
+
+            {loading ? (
+                <div style={{ padding: '2rem', textAlign: 'center', color: '#8c7b70' }}>Loading role templates...</div>
+            ) : (
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                    <thead style={{ background: '#fdfbf7' }}>
+                        <tr>
+                            <th style={{ padding: '0.75rem 1.5rem', textAlign: 'left', fontSize: '0.75rem', fontWeight: '600', color: '#8c7b70', textTransform: 'uppercase', letterSpacing: '0.05em' }}>Permission</th>
+                            {EDITABLE_ROLES.map(role => (
+                                <th key={role} style={{ padding: '0.75rem 1.5rem', textAlign: 'center', fontSize: '0.75rem', fontWeight: '600', color: '#8c7b70', textTransform: 'uppercase', letterSpacing: '0.05em' }}>
+                                    {ROLE_LABELS[role]}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {groups.map(group => (
+                            <Fragment key={group}>
+                                <tr>
+                                    <td colSpan={EDITABLE_ROLES.length + 1} style={{ padding: '0.75rem 1.5rem 0.25rem', fontSize: '0.75rem', fontWeight: '700', color: '#c19a6b', textTransform: 'uppercase' }}>
+                                        {group}
+                                    </td>
+                                </tr>
+                                {CAPABILITY_KEYS.filter(c => CAPABILITIES[c].group === group).map(capability => (
+                                    <tr key={capability} style={{ borderBottom: '1px solid #f5f0e6' }}>
+                                        <td style={{ padding: '0.75rem 1.5rem' }}>
+                                            <div style={{ fontWeight: '500', color: '#4a3b32', fontSize: '0.9rem' }}>{CAPABILITIES[capability].label}</div>
+                                            <div style={{ fontSize: '0.75rem', color: '#8c7b70', fontFamily: 'monospace' }}>{capability}</div>
+                                        </td>
+                                        {EDITABLE_ROLES.map(role => {
+                                            const key = grantKey(role, capability)
+                                            return (
+                                                <td key={role} style={{ padding: '0.75rem 1.5rem', textAlign: 'center' }}>
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={grants.has(key)}
+                                                        disabled={saving === key}
+                                                        onChange={() => handleToggle(role, capability)}
+                                                        style={{ width: '18px', height: '18px', accentColor: '#c19a6b', cursor: 'pointer' }}
+                                                    />
+                                                </td>
+                                            )
+                                        })}
+                                    </tr>
+                                ))}
+                            </Fragment>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    )
+}
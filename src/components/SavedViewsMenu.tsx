@@ -0,0 +1,273 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Bookmark, Link2, Save, Trash2, Users } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import {
+    createSavedView,
+    deleteSavedView,
+    listSavedViews,
+    updateSavedView,
+    type SavedView,
+    type SavedViewState,
+    type SavedViewTarget
+} from '../data'
+import { openSavedView } from '../lib/navigation'
+
+interface SavedViewsMenuProps {
+    target: SavedViewTarget
+    // The surface's current filters, sort, grouping, columns and view mode
+    state: SavedViewState
+    clientId: string | null
+    activeViewId: string | null
+    // Views were created, renamed or removed
+    onChange?: () => void
+}
+
+// Saves the current list state under a name, privately or for the client's
+// team, and switches between the views saved for this surface.
+export default function SavedViewsMenu({ target, state, clientId, activeViewId, onChange }: SavedViewsMenuProps) {
+    const { user } = useAuth()
+    const [views, setViews] = useState<SavedView[]>([])
+    const [isOpen, setIsOpen] = useState(false)
+    const [name, setName] = useState('')
+    const [share, setShare] = useState(false)
+    const [saving, setSaving] = useState(false)
+    const menuRef = useRef<HTMLDivElement>(null)
+
+    const loadViews = useCallback(() => {
+        listSavedViews({ target })
+            .then(setViews)
+            .catch(error => console.error('Error loading saved views:', error))
+    }, [target])
+
+    useEffect(() => {
+        loadViews()
+    }, [loadViews])
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setIsOpen(false)
+            }
+        }
+        document.addEventListener('mousedown', handleClickOutside)
+        return () => document.removeEventListener('mousedown', handleClickOutside)
+    }, [])
+
+    const activeView = views.find(v => v.id === activeViewId) || null
+    const ownsActive = !!activeView && activeView.owner_id === user?.id
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!name.trim()) return
+
+        setSaving(true)
+        try {
+            const view = await createSavedView({
+                name: name.trim(),
+                target,
+                state,
+                clientId: share ? clientId : null
+            })
+            setName('')
+            setShare(false)
+            setIsOpen(false)
+            onChange?.()
+            openSavedView({ ...view, target, state })
+        } catch (error) {
+            console.error('Error saving view:', error)
+            alert('Failed to save view')
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleUpdate = async () => {
+        if (!activeView) return
+        try {
+            await updateSavedView(activeView.id, { state })
+            loadViews()
+            onChange?.()
+        } catch (error) {
+            console.error('Error updating view:', error)
+            alert('Failed to update view')
+        }
+    }
+
+    const handleDelete = async (view: SavedView) => {
+        if (!confirm(`Delete the view "${view.name}"?`)) return
+        try {
+            await deleteSavedView(view.id)
+            setViews(prev => prev.filter(v => v.id !== view.id))
+            onChange?.()
+        } catch (error) {
+            console.error('Error deleting view:', error)
+            alert('Failed to delete view')
+        }
+    }
+
+    // The URL always carries the current state, saved or not
+    const handleCopyLink = () => {
+        navigator.clipboard.writeText(window.location.href)
+        alert('Link to this view copied to clipboard!')
+    }
+
+    return (
+        <div ref={menuRef} style={{ position: 'relative' }}>
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                style={{
+                    height: '100%',
+                    padding: '0.5rem 0.875rem',
+                    borderRadius: '8px',
+                    border: activeView ? '1px solid var(--accent-color)' : '1px solid var(--border-color)',
+                    background: 'var(--bg-secondary)',
+                    color: activeView ? 'var(--accent-color)' : 'var(--text-secondary)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '0.5rem',
+                    cursor: 'pointer',
+                    fontSize: '0.875rem',
+                    whiteSpace: 'nowrap',
+                    maxWidth: '220px'
+                }}
+            >
+                <Bookmark size={16} />
+                <span style={{ overflow: 'hidden', textOverflow: 'ellipsis' }}>{activeView ? activeView.name : 'Views'}</span>
+            </button>
+
+            {isOpen && (
+                <div style={{
+                    position: 'absolute',
+                    top: 'calc(100% + 0.5rem)',
+                    right: 0,
+                    width: '320px',
+                    background: 'var(--bg-secondary)',
+                    border: '1px solid var(--border-color)',
+                    borderRadius: '12px',
+                    boxShadow: '0 10px 25px rgba(0, 0, 0, 0.15)',
+                    padding: '0.75rem',
+                    zIndex: 50,
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: '0.75rem'
+                }}>
+                    <div style={{ maxHeight: '240px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                        {views.length === 0 ? (
+                            <div style={{ padding: '0.5rem', fontSize: '0.8rem', color: 'var(--text-secondary)', textAlign: 'center' }}>No saved views yet.</div>
+                        ) : views.map(view => (
+                            <div
+                                key={view.id}
+                                onClick={() => {
+                                    setIsOpen(false)
+                                    openSavedView(view)
+                                }}
+                                style={{
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    gap: '0.5rem',
+                                    padding: '0.5rem',
+                                    borderRadius: '6px',
+                                    cursor: 'pointer',
+                                    fontSize: '0.85rem',
+                                    color: 'var(--text-primary)',
+                                    background: view.id === activeViewId ? 'rgba(139, 92, 246, 0.1)' : 'transparent'
+                                }}
+                            >
+                                <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{view.name}</span>
+                                {view.client && (
+                                    <span title={`Shared with the ${view.client.name} team`} style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', fontSize: '0.7rem', color: 'var(--text-secondary)' }}>
+                                        <Users size={12} /> {view.client.name}
+                                    </span>
+                                )}
+                                {view.owner_id === user?.id ? (
+                                    <button
+                                        onClick={e => {
+                                            e.stopPropagation()
+                                            handleDelete(view)
+                                        }}
+                                        title="Delete view"
+                                        style={{ background: 'none', border: 'none', cursor: 'pointer', color: 'var(--danger-color)', display: 'flex', padding: '0.1rem' }}
+                                    >
+                                        <Trash2 size={13} />
+                                    </button>
+                                ) : (
+                                    <span style={{ fontSize: '0.7rem', color: 'var(--text-secondary)' }}>{view.owner?.full_name || view.owner?.email}</span>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+
+                    {ownsActive && (
+                        <button onClick={handleUpdate} style={secondaryButtonStyle}>
+                            <Save size={14} /> Update "{activeView.name}"
+                        </button>
+                    )}
+
+                    <form onSubmit={handleSave} style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', borderTop: '1px solid var(--border-color)', paddingTop: '0.75rem' }}>
+                        <input
+                            value={name}
+                            onChange={e => setName(e.target.value)}
+                            placeholder="Save current view as…"
+                            style={{
+                                padding: '0.45rem 0.65rem',
+                                borderRadius: '6px',
+                                border: '1px solid var(--border-color)',
+                                background: 'var(--bg-tertiary)',
+                                color: 'var(--text-primary)',
+                                fontSize: '0.85rem'
+                            }}
+                        />
+                        {clientId && (
+                            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8rem', color: 'var(--text-secondary)', cursor: 'pointer' }}>
+                                <input
+                                    type="checkbox"
+                                    checked={share}
+                                    onChange={e => setShare(e.target.checked)}
+                                    style={{ accentColor: 'var(--accent-color)' }}
+                                />
+                                Share with this client's team
+                            </label>
+                        )}
+                        <div style={{ display: 'flex', gap: '0.5rem' }}>
+                            <button type="button" onClick={handleCopyLink} style={{ ...secondaryButtonStyle, flex: 1 }}>
+                                <Link2 size={14} /> Copy Link
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={saving || !name.trim()}
+                                style={{
+                                    flex: 1,
+                                    padding: '0.45rem 0.75rem',
+                                    borderRadius: '6px',
+                                    border: 'none',
+                                    background: 'linear-gradient(135deg, #8b5cf6 0%, #ec4899 100%)',
+                                    color: 'white',
+                                    fontWeight: '600',
+                                    fontSize: '0.8rem',
+                                    cursor: saving || !name.trim() ? 'not-allowed' : 'pointer',
+                                    opacity: saving || !name.trim() ? 0.6 : 1
+                                }}
+                            >
+                                Save View
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            )}
+        </div>
+    )
+}
+
+const secondaryButtonStyle: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: '0.35rem',
+    padding: '0.45rem 0.75rem',
+    borderRadius: '6px',
+    border: '1px solid var(--border-color)',
+    background: 'var(--bg-tertiary)',
+    color: 'var(--text-primary)',
+    fontSize: '0.8rem',
+    cursor: 'pointer'
+}
@@ -0,0 +1,378 @@
+import { useEffect, useState } from 'react'
+import { DragDropContext, Droppable, Draggable, type DropResult } from '@hello-pangea/dnd'
+import { Copy, GripVertical, Plus, Trash2 } from 'lucide-react'
+import {
+    STATUS_CATEGORIES,
+    copyStatuses,
+    countTasksInStatus,
+    createStatus,
+    deleteStatus,
+    listDepartments,
+    listStatuses,
+    reorderStatuses,
+    updateStatus,
+    type DepartmentOption,
+    type StatusCategory,
+    type TaskStatusRow
+} from '../data'
+
+interface StatusEditorProps {
+    // Edits this department's columns; without one the editor offers a
+    // picker over the client's departments
+    departmentId?: string
+    clientId?: string | null
+    canManage: boolean
+    // Opens with this column's delete prompt showing
+    deleteStatusId?: string | null
+}
+
+const COLORS = ['#e2e8f0', '#fef3c7', '#ecfdf5', '#dbeafe', '#ede9fe', '#fce7f3', '#fee2e2', '#ffedd5', '#ccfbf1', '#e5e7eb']
+
+interface PendingDelete {
+    status: TaskStatusRow
+    taskCount: number
+    replacementId: string
+}
+
+async function pendingDeleteFor(status: TaskStatusRow, statuses: TaskStatusRow[]): Promise<PendingDelete> {
+    const taskCount = await countTasksInStatus(status.id)
+    return {
+        status,
+        taskCount,
+        // Nothing to move, so any other column will do
+        replacementId: taskCount === 0 ? statuses.find(s => s.id !== status.id)?.id || '' : ''
+    }
+}
+
+// Renames, recolours, categorises and reorders a department's board columns,
+// deletes them once their tasks have somewhere to go, and copies the set to
+// another department.
+export default function StatusEditor({ departmentId, clientId, canManage, deleteStatusId }: StatusEditorProps) {
+    const [departments, setDepartments] = useState<DepartmentOption[]>([])
+    const [selectedDepartmentId, setSelectedDepartmentId] = useState('')
+    const [statuses, setStatuses] = useState<TaskStatusRow[]>([])
+    const [newLabel, setNewLabel] = useState('')
+    const [colorPickerId, setColorPickerId] = useState<string | null>(null)
+    const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null)
+    const [copyTargetId, setCopyTargetId] = useState('')
+
+    useEffect(() => {
+        listDepartments()
+            .then(setDepartments)
+            .catch(error => console.error('Error loading departments:', error))
+    }, [])
+
+    const pickable = departments.filter(d => !clientId || d.client?.id === clientId)
+    const activeDepartmentId = departmentId || selectedDepartmentId || pickable[0]?.id || ''
+
+    const loadStatuses = async () => {
+        if (!activeDepartmentId) return
+        try {
+            setStatuses(await listStatuses({ departmentId: activeDepartmentId }))
+        } catch (error) {
+            console.error('Error loading columns:', error)
+        }
+    }
+
+    const patchStatus = async (status: TaskStatusRow, patch: Partial<Pick<TaskStatusRow, 'label' | 'color' | 'category'>>) => {
+        setStatuses(prev => prev.map(s => s.id === status.id ? { ...s, ...patch } : s))
+
+        try {
+            await updateStatus(status.id, patch)
+        } catch (error) {
+            console.error('Error updating column:', error)
+            alert('Failed to update the column')
+            setStatuses(prev => prev.map(s => s.id === status.id ? status : s))
+        }
+    }
+
+    const handleRename = (status: TaskStatusRow, input: HTMLInputElement) => {
+        const label = input.value.trim()
+        if (label === status.label) return
+        if (!label || statuses.some(s => s.id !== status.id && s.label.toLowerCase() === label.toLowerCase())) {
+            if (label) alert(`This department already has a "${label}" column.`)
+            input.value = status.label
+            return
+        }
+        patchStatus(status, { label })
+    }
+
+    const handleDragEnd = async (result: DropResult) => {
+        if (!result.destination || result.destination.index === result.source.index) return
+
+        const previous = statuses
+        const reordered = Array.from(statuses)
+        const [moved] = reordered.splice(result.source.index, 1)
+        reordered.splice(result.destination.index, 0, moved)
+        setStatuses(reordered.map((s, index) => ({ ...s, position: index })))
+
+        try {
+            await reorderStatuses(activeDepartmentId, reordered)
+        } catch (error) {
+            console.error('Error reordering columns:', error)
+            alert('Failed to reorder the columns')
+            setStatuses(previous)
+        }
+    }
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault()
+        const label = newLabel.trim()
+        if (!label || !activeDepartmentId) return
+
+        try {
+            await createStatus({
+                department_id: activeDepartmentId,
+                label,
+                position: statuses.reduce((max, s) => Math.max(max, s.position + 1), 0)
+            })
+            setNewLabel('')
+            loadStatuses()
+        } catch (error) {
+            console.error('Error creating column:', error)
+            alert('Failed to add the column. It may already exist.')
+        }
+    }
+
+    const startDelete = async (status: TaskStatusRow) => {
+        try {
+            setPendingDelete(await pendingDeleteFor(status, statuses))
+        } catch (error) {
+            console.error('Error counting column tasks:', error)
+            alert('Failed to check the column\'s tasks')
+        }
+    }
+
+    useEffect(() => {
+        if (!activeDepartmentId) return
+        listStatuses({ departmentId: activeDepartmentId })
+            .then(async data => {
+                setStatuses(data)
+                const initial = data.find(s => s.id === deleteStatusId)
+                if (initial) setPendingDelete(await pendingDeleteFor(initial, data))
+            })
+            .catch(error => console.error('Error loading columns:', error))
+    }, [activeDepartmentId, deleteStatusId])
+
+    const handleDelete = async () => {
+        if (!pendingDelete?.replacementId) return
+
+        try {
+            await deleteStatus(pendingDelete.status.id, pendingDelete.replacementId)
+            setPendingDelete(null)
+            loadStatuses()
+        } catch (error) {
+            console.error('Error deleting column:', error)
+            alert('Failed to delete the column')
+        }
+    }
+
+    const handleCopy = async () => {
+        if (!copyTargetId) return
+        const target = departments.find(d => d.id === copyTargetId)
+
+        try {
+            const added = await copyStatuses(activeDepartmentId, copyTargetId)
+            alert(added > 0
+                ? `Added ${added} column${added === 1 ? '' : 's'} to ${target?.name}.`
+                : `${target?.name} already has every one of these columns.`)
+            setCopyTargetId('')
+        } catch (error) {
+            console.error('Error copying columns:', error)
+            alert('Failed to copy the columns')
+        }
+    }
+
+    const departmentLabel = (d: DepartmentOption) => clientId || !d.client ? d.name : `${d.client.name} · ${d.name}`
+
+    const renderDeletePrompt = (status: TaskStatusRow) => {
+        if (pendingDelete?.status.id !== status.id) return null
+        const others = statuses.filter(s => s.id !== status.id)
+
+        return (
+            <div style={{ padding: '0.75rem', margin: '0 0 0.5rem 2rem', borderRadius: '8px', border: '1px solid rgba(239, 68, 68, 0.4)', background: 'rgba(239, 68, 68, 0.05)', fontSize: '0.875rem', color: 'var(--text-primary)' }}>
+                {others.length === 0 ? (
+                    <p style={{ margin: '0 0 0.5rem' }}>A department needs at least one column; add another before deleting "{status.label}".</p>
+                ) : pendingDelete.taskCount > 0 ? (
+                    <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap', marginBottom: '0.5rem' }}>
+                        Move its {pendingDelete.taskCount} task{pendingDelete.taskCount === 1 ? '' : 's'} to
+                        <select
+                            value={pendingDelete.replacementId}
+                            onChange={e => setPendingDelete({ ...pendingDelete, replacementId: e.target.value })}
+                            style={inputStyle}
+                        >
+                            <option value="">Choose a column…</option>
+                            {others.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                        </select>
+                    </label>
+                ) : (
+                    <p style={{ margin: '0 0 0.5rem' }}>No tasks are in "{status.label}".</p>
+                )}
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    <button
+                        onClick={handleDelete}
+                        disabled={!pendingDelete.replacementId}
+                        style={{ padding: '0.4rem 0.75rem', borderRadius: '6px', border: 'none', background: 'var(--danger-color)', color: 'white', fontWeight: '600', cursor: pendingDelete.replacementId ? 'pointer' : 'not-allowed', opacity: pendingDelete.replacementId ? 1 : 0.5 }}
+                    >
+                        Delete Column
+                    </button>
+                    <button onClick={() => setPendingDelete(null)} style={{ padding: '0.4rem 0.75rem', borderRadius: '6px', border: '1px solid var(--border-color)', background: 'transparent', color: 'var(--text-secondary)', cursor: 'pointer' }}>
+                        Cancel
+                    </button>
+                </div>
+            </div>
+        )
+    }
+
+    return (
+        <div>
+            {!departmentId && (
+                <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem', fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
+                    Department
+                    <select value={activeDepartmentId} onChange={e => { setPendingDelete(null); setSelectedDepartmentId(e.target.value) }} style={{ ...inputStyle, flex: 1 }}>
+                        {pickable.length === 0 && <option value="">No departments</option>}
+                        {pickable.map(d => <option key={d.id} value={d.id}>{departmentLabel(d)}</option>)}
+                    </select>
+                </label>
+            )}
+
+            <h4 style={sectionTitleStyle}>Columns</h4>
+            {statuses.length === 0 && (
+                <p style={{ color: 'var(--text-secondary)', fontSize: '0.875rem' }}>This department has no columns yet.</p>
+            )}
+            <DragDropContext onDragEnd={handleDragEnd}>
+                <Droppable droppableId="status-editor" isDropDisabled={!canManage}>
+                    {(provided) => (
+                        <div ref={provided.innerRef} {...provided.droppableProps}>
+                            {statuses.map((status, index) => (
+                                <Draggable key={status.id} draggableId={status.id} index={index} isDragDisabled={!canManage}>
+                                    {(provided) => (
+                                        <div ref={provided.innerRef} {...provided.draggableProps}>
+                                            <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', padding: '0.4rem 0', borderBottom: '1px solid var(--border-color)', background: 'var(--bg-secondary)' }}>
+                                                <span {...provided.dragHandleProps} style={{ color: '#9ca3af', display: 'flex', cursor: canManage ? 'grab' : 'default' }} title="Drag to reorder">
+                                                    <GripVertical size={16} />
+                                                </span>
+                                                <div style={{ position: 'relative' }}>
+                                                    <button
+                                                        onClick={() => setColorPickerId(colorPickerId === status.id ? null : status.id)}
+                                                        disabled={!canManage}
+                                                        title="Colour"
+                                                        style={{ width: '20px', height: '20px', borderRadius: '50%', border: '1px solid var(--border-color)', background: status.color || '#e5e7eb', cursor: canManage ? 'pointer' : 'default', padding: 0 }}
+                                                    />
+                                                    {colorPickerId === status.id && (
+                                                        <div style={{ position: 'absolute', top: '26px', left: 0, zIndex: 10, display: 'grid', gridTemplateColumns: 'repeat(5, 20px)', gap: '0.35rem', padding: '0.5rem', borderRadius: '8px', border: '1px solid var(--border-color)', background: 'var(--bg-secondary)', boxShadow: 'var(--glass-shadow)' }}>
+                                                            {COLORS.map(color => (
+                                                                <button
+                                                                    key={color}
+                                                                    onClick={() => { setColorPickerId(null); patchStatus(status, { color }) }}
+                                                                    style={{ width: '20px', height: '20px', borderRadius: '50%', padding: 0, cursor: 'pointer', background: color, border: color === status.color ? '2px solid var(--accent-color)' : '1px solid var(--border-color)' }}
+                                                                />
+                                                            ))}
+                                                        </div>
+                                                    )}
+                                                </div>
+                                                <input
+                                                    key={status.label}
+                                                    defaultValue={status.label}
+                                                    disabled={!canManage}
+                                                    onBlur={e => handleRename(status, e.currentTarget)}
+                                                    onKeyDown={e => {
+                                                        if (e.key === 'Enter') e.currentTarget.blur()
+                                                        if (e.key === 'Escape') {
+                                                            e.currentTarget.value = status.label
+                                                            e.currentTarget.blur()
+                                                        }
+                                                    }}
+                                                    style={{ ...inputStyle, flex: 1 }}
+                                                />
+                                                <select
+                                                    value={status.category}
+                                                    disabled={!canManage}
+                                                    onChange={e => patchStatus(status, { category: e.target.value as StatusCategory })}
+                                                    style={inputStyle}
+                                                    title="Category"
+                                                >
+                                                    {STATUS_CATEGORIES.map(c => <option key={c.category} value={c.category}>{c.label}</option>)}
+                                                </select>
+                                                {canManage && (
+                                                    <button onClick={() => startDelete(status)} style={{ background: 'none', border: 'none', cursor: 'pointer', color: 'var(--danger-color)', display: 'flex' }} title="Delete column">
+                                                        <Trash2 size={14} />
+                                                    </button>
+                                                )}
+                                            </div>
+                                            {renderDeletePrompt(status)}
+                                        </div>
+                                    )}
+                                </Draggable>
+                            ))}
+                            {provided.placeholder}
+                        </div>
+                    )}
+                </Droppable>
+            </DragDropContext>
+
+            {canManage && activeDepartmentId && (
+                <>
+                    <form onSubmit={handleAdd} style={{ display: 'flex', gap: '0.5rem', margin: '1rem 0 1.5rem' }}>
+                        <input
+                            value={newLabel}
+                            onChange={e => setNewLabel(e.target.value)}
+                            placeholder="New column name"
+                            style={{ ...inputStyle, flex: 1 }}
+                        />
+                        <button type="submit" style={primaryButtonStyle}>
+                            <Plus size={16} /> Add Column
+                        </button>
+                    </form>
+
+                    <h4 style={sectionTitleStyle}>Copy to Another Department</h4>
+                    <p style={{ color: 'var(--text-secondary)', fontSize: '0.875rem', marginTop: 0 }}>
+                        Columns the other department already has, by name, are left as they are.
+                    </p>
+                    <div style={{ display: 'flex', gap: '0.5rem' }}>
+                        <select value={copyTargetId} onChange={e => setCopyTargetId(e.target.value)} style={{ ...inputStyle, flex: 1 }}>
+                            <option value="">Choose a department…</option>
+                            {departments.filter(d => d.id !== activeDepartmentId).map(d => (
+                                <option key={d.id} value={d.id}>{d.client ? `${d.client.name} · ${d.name}` : d.name}</option>
+                            ))}
+                        </select>
+                        <button onClick={handleCopy} disabled={!copyTargetId || statuses.length === 0} style={{ ...primaryButtonStyle, opacity: copyTargetId && statuses.length > 0 ? 1 : 0.5 }}>
+                            <Copy size={16} /> Copy Columns
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    )
+}
+
+const sectionTitleStyle: React.CSSProperties = {
+    margin: '0 0 0.75rem',
+    fontSize: '0.85rem',
+    fontWeight: '600',
+    color: 'var(--text-primary)',
+    textTransform: 'uppercase',
+    letterSpacing: '0.05em'
+}
+
+const inputStyle: React.CSSProperties = {
+    padding: '0.4rem 0.6rem',
+    borderRadius: '6px',
+    border: '1px solid var(--border-color)',
+    background: 'var(--bg-tertiary)',
+    color: 'var(--text-primary)',
+    fontSize: '0.875rem'
+}
+
+const primaryButtonStyle: React.CSSProperties = {
+    padding: '0.5rem 1rem',
+    borderRadius: '0.5rem',
+    border: 'none',
+    background: 'linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)',
+    color: 'white',
+    fontWeight: '600',
+    cursor: 'pointer',
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.25rem'
+}
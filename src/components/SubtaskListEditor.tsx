@@ -1,30 +1,94 @@
 import React, { useState } from 'react'
-import { Plus, Check, Trash2 } from 'lucide-react'
+import { DragDropContext, Droppable, Draggable, type DropResult } from '@hello-pangea/dnd'
+import { Plus, Check, Trash2, GripVertical, ListIndentIncrease, ListIndentDecrease, ArrowUpRight } from 'lucide-react'
+import { useUndo } from '../contexts/UndoContext'
+import { subtaskToggleCommand } from '../lib/undo'
+import {
+    indentSubtask,
+    moveSubtask,
+    nestingParent,
+    outdentSubtask,
+    parseEstimateHours,
+    type ProfileRow
+} from '../data'
 
 export interface Subtask {
     id: string
     title: string // Changed from text to title to match DB
     is_completed: boolean // Changed from completed to match DB
+    parent_id: string | null
+    position: number
+    estimate_hours?: number | null
+    assigned_to?: string | null
+    due_date?: string | null
 }
 
-interface SubtaskListEditorProps {
-    subtasks: Subtask[]
+export type SubtaskPatch = Partial<Pick<Subtask, 'assigned_to' | 'due_date'>>
+
+interface SubtaskListEditorProps<T extends Subtask> {
+    subtasks: T[]
     onAdd: (text: string) => void
     onToggle: (id: string, isCompleted: boolean) => void
     onDelete: (id: string) => void
     onUpdateText: (id: string, text: string) => void
+    // Shows an hours estimate per subtask when given
+    onUpdateEstimate?: (id: string, hours: number | null) => void
+    // Shows an assignee and due date per subtask when given
+    onUpdate?: (id: string, patch: SubtaskPatch) => void
+    people?: Pick<ProfileRow, 'id' | 'full_name' | 'email'>[]
+    // Allows dragging and nesting; gets the whole list in its new order
+    onReorder?: (ordered: T[]) => void
+    onConvertToTask?: (id: string) => void
     readOnly?: boolean
 }
 
-export default function SubtaskListEditor({
+const iconButtonStyle: React.CSSProperties = {
+    background: 'transparent',
+    border: 'none',
+    color: 'var(--text-secondary)',
+    cursor: 'pointer',
+    opacity: 0.5,
+    padding: '4px',
+    display: 'flex',
+    alignItems: 'center'
+}
+
+const fieldStyle: React.CSSProperties = {
+    background: 'var(--bg-secondary)',
+    border: '1px solid var(--border-color)',
+    borderRadius: '0.25rem',
+    padding: '0.25rem 0.4rem',
+    color: 'var(--text-primary)',
+    fontSize: '0.8rem',
+    outline: 'none'
+}
+
+export default function SubtaskListEditor<T extends Subtask>({
     subtasks,
     onAdd,
     onToggle,
     onDelete,
     onUpdateText,
+    onUpdateEstimate,
+    onUpdate,
+    people = [],
+    onReorder,
+    onConvertToTask,
     readOnly = false
-}: SubtaskListEditorProps) {
+}: SubtaskListEditorProps<T>) {
     const [newItemText, setNewItemText] = useState('')
+    const { record } = useUndo()
+    const canReorder = !!onReorder && !readOnly
+
+    const handleToggle = (task: T) => {
+        onToggle(task.id, !task.is_completed)
+        record(subtaskToggleCommand(task, !task.is_completed, onToggle))
+    }
+
+    const handleDragEnd = (result: DropResult) => {
+        if (!onReorder || !result.destination || result.destination.index === result.source.index) return
+        onReorder(moveSubtask(subtasks, result.source.index, result.destination.index))
+    }
 
     const handleAddItem = (e?: React.FormEvent) => {
         e?.preventDefault()
@@ -41,77 +105,148 @@ export default function SubtaskListEditor({
         }
     }
 
+    const hoverProps = {
+        onMouseEnter: (e: React.MouseEvent<HTMLButtonElement>) => e.currentTarget.style.opacity = '1',
+        onMouseLeave: (e: React.MouseEvent<HTMLButtonElement>) => e.currentTarget.style.opacity = '0.5'
+    }
+
     return (
         <div className="subtask-list-editor" style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
             {/* List */}
-            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
-                {subtasks.map((task) => (
-                    <div
-                        key={task.id}
-                        style={{
-                            display: 'flex',
-                            alignItems: 'center',
-                            gap: '0.5rem',
-                            padding: '0.5rem',
-                            background: 'var(--bg-tertiary)',
-                            borderRadius: '0.375rem',
-                            border: '1px solid var(--border-color)',
-                            transition: 'all 0.2s'
-                        }}
-                    >
-                        <button
-                            type="button"
-                            onClick={() => onToggle(task.id, !task.is_completed)}
-                            style={{
-                                background: 'transparent',
-                                border: 'none',
-                                cursor: readOnly ? 'default' : 'pointer',
-                                display: 'flex',
-                                alignItems: 'center',
-                                color: task.is_completed ? '#22c55e' : 'var(--text-secondary)'
-                            }}
-                        >
-                            {task.is_completed ? <Check size={18} /> : <div style={{ width: 18, height: 18, borderRadius: '4px', border: '2px solid currentColor' }} />}
-                        </button>
-
-                        <input
-                            type="text"
-                            value={task.title}
-                            onChange={(e) => onUpdateText(task.id, e.target.value)}
-                            readOnly={readOnly}
-                            style={{
-                                flex: 1,
-                                background: 'transparent',
-                                border: 'none',
-                                color: 'var(--text-primary)',
-                                fontSize: '0.9rem',
-                                textDecoration: task.is_completed ? 'line-through' : 'none',
-                                opacity: task.is_completed ? 0.7 : 1,
-                                outline: 'none'
-                            }}
-                        />
-
-                        {!readOnly && (
-                            <button
-                                type="button"
-                                onClick={() => onDelete(task.id)}
-                                style={{
-                                    background: 'transparent',
-                                    border: 'none',
-                                    color: 'var(--text-secondary)',
-                                    cursor: 'pointer',
-                                    opacity: 0.5,
-                                    padding: '4px'
-                                }}
-                                onMouseEnter={(e) => e.currentTarget.style.opacity = '1'}
-                                onMouseLeave={(e) => e.currentTarget.style.opacity = '0.5'}
-                            >
-                                <Trash2 size={16} />
-                            </button>
-                        )}
-                    </div>
-                ))}
-            </div>
+            <DragDropContext onDragEnd={handleDragEnd}>
+                <Droppable droppableId="subtask-list" isDropDisabled={!canReorder}>
+                    {(provided) => (
+                        <div ref={provided.innerRef} {...provided.droppableProps} style={{ display: 'flex', flexDirection: 'column' }}>
+                            {subtasks.map((task, index) => (
+                                <Draggable key={task.id} draggableId={task.id} index={index} isDragDisabled={!canReorder}>
+                                    {(provided) => (
+                                        <div ref={provided.innerRef} {...provided.draggableProps} style={{ ...provided.draggableProps.style, paddingBottom: '0.5rem' }}>
+                                            <div
+                                                style={{
+                                                    display: 'flex',
+                                                    alignItems: 'center',
+                                                    gap: '0.5rem',
+                                                    padding: '0.5rem',
+                                                    marginLeft: task.parent_id ? '1.75rem' : 0,
+                                                    background: 'var(--bg-tertiary)',
+                                                    borderRadius: '0.375rem',
+                                                    border: '1px solid var(--border-color)',
+                                                    transition: 'all 0.2s'
+                                                }}
+                                            >
+                                                {canReorder && (
+                                                    <span {...provided.dragHandleProps} style={{ color: '#9ca3af', display: 'flex', cursor: 'grab' }} title="Drag to reorder">
+                                                        <GripVertical size={16} />
+                                                    </span>
+                                                )}
+
+                                                <button
+                                                    type="button"
+                                                    onClick={() => handleToggle(task)}
+                                                    style={{
+                                                        background: 'transparent',
+                                                        border: 'none',
+                                                        cursor: readOnly ? 'default' : 'pointer',
+                                                        display: 'flex',
+                                                        alignItems: 'center',
+                                                        color: task.is_completed ? '#22c55e' : 'var(--text-secondary)'
+                                                    }}
+                                                >
+                                                    {task.is_completed ? <Check size={18} /> : <div style={{ width: 18, height: 18, borderRadius: '4px', border: '2px solid currentColor' }} />}
+                                                </button>
+
+                                                <input
+                                                    type="text"
+                                                    value={task.title}
+                                                    onChange={(e) => onUpdateText(task.id, e.target.value)}
+                                                    readOnly={readOnly}
+                                                    style={{
+                                                        flex: 1,
+                                                        minWidth: 0,
+                                                        background: 'transparent',
+                                                        border: 'none',
+                                                        color: 'var(--text-primary)',
+                                                        fontSize: '0.9rem',
+                                                        textDecoration: task.is_completed ? 'line-through' : 'none',
+                                                        opacity: task.is_completed ? 0.7 : 1,
+                                                        outline: 'none'
+                                                    }}
+                                                />
+
+                                                {onUpdate && (
+                                                    <>
+                                                        <select
+                                                            value={task.assigned_to || ''}
+                                                            onChange={(e) => onUpdate(task.id, { assigned_to: e.target.value || null })}
+                                                            disabled={readOnly}
+                                                            title="Assignee"
+                                                            style={{ ...fieldStyle, maxWidth: '9rem' }}
+                                                        >
+                                                            <option value="">Unassigned</option>
+                                                            {people.map(p => (
+                                                                <option key={p.id} value={p.id}>{p.full_name || p.email}</option>
+                                                            ))}
+                                                        </select>
+                                                        <input
+                                                            type="date"
+                                                            value={task.due_date || ''}
+                                                            onChange={(e) => onUpdate(task.id, { due_date: e.target.value || null })}
+                                                            readOnly={readOnly}
+                                                            title="Due date"
+                                                            style={fieldStyle}
+                                                        />
+                                                    </>
+                                                )}
+
+                                                {onUpdateEstimate && (
+                                                    <input
+                                                        key={`${task.id}-${task.estimate_hours ?? ''}`}
+                                                        type="number"
+                                                        min="0"
+                                                        step="0.25"
+                                                        defaultValue={task.estimate_hours ?? ''}
+                                                        onBlur={(e) => {
+                                                            const hours = parseEstimateHours(e.target.value)
+                                                            if (hours !== (task.estimate_hours ?? null)) onUpdateEstimate(task.id, hours)
+                                                        }}
+                                                        readOnly={readOnly}
+                                                        placeholder="Est. h"
+                                                        title="Estimated hours"
+                                                        style={{ ...fieldStyle, width: '4.5rem' }}
+                                                    />
+                                                )}
+
+                                                {canReorder && (task.parent_id ? (
+                                                    <button type="button" onClick={() => onReorder(outdentSubtask(subtasks, task.id))} title="Move out a level" style={iconButtonStyle} {...hoverProps}>
+                                                        <ListIndentDecrease size={16} />
+                                                    </button>
+                                                ) : nestingParent(subtasks, task.id) && (
+                                                    <button type="button" onClick={() => onReorder(indentSubtask(subtasks, task.id))} title="Nest under the subtask above" style={iconButtonStyle} {...hoverProps}>
+                                                        <ListIndentIncrease size={16} />
+                                                    </button>
+                                                ))}
+
+                                                {onConvertToTask && !readOnly && (
+                                                    <button type="button" onClick={() => onConvertToTask(task.id)} title="Convert to a task" style={iconButtonStyle} {...hoverProps}>
+                                                        <ArrowUpRight size={16} />
+                                                    </button>
+                                                )}
+
+                                                {!readOnly && (
+                                                    <button type="button" onClick={() => onDelete(task.id)} style={iconButtonStyle} {...hoverProps}>
+                                                        <Trash2 size={16} />
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </div>
+                                    )}
+                                </Draggable>
+                            ))}
+                            {provided.placeholder}
+                        </div>
+                    )}
+                </Droppable>
+            </DragDropContext>
 
             {/* Add New */}
             {!readOnly && (
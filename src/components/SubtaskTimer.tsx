@@ -1,13 +1,16 @@
 import { useEffect, useState } from 'react'
+import { format, parseISO } from 'date-fns'
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
-import { Play, Square, Clock } from 'lucide-react'
-import { TIMER_SAFETY_ENABLED } from '../config'
+import { Play, Square, Clock, AlertTriangle, Calendar } from 'lucide-react'
+import { useTimer } from '../contexts/TimerContext'
+import { TASK_TIME_LABEL, formatHours, taskEstimateHours } from '../data'
 
 interface SubtaskTimeLog {
     id: string
     task_id: string
     user_id: string
+    subtask_id: string | null
     subtask_name: string
     start_time: string
     end_time: string | null
@@ -19,41 +22,49 @@ interface Subtask {
     id: string
     title: string
     is_completed: boolean
+    estimate_hours?: number | null
+    parent_id?: string | null
+    due_date?: string | null
 }
 
 interface SubtaskTimerProps {
     taskId: string
     subtasks: Subtask[]
+    // The task's own estimate; without one the subtasks' estimates add up
+    estimateHours?: number | null
     onToggleSubtask: (id: string, isCompleted: boolean) => void
     onEdit: () => void
 }
 
-export default function SubtaskTimer({ taskId, subtasks, onToggleSubtask, onEdit }: SubtaskTimerProps) {
+export default function SubtaskTimer({ taskId, subtasks, estimateHours = null, onToggleSubtask, onEdit }: SubtaskTimerProps) {
     const { user } = useAuth()
-    const [activeTimer, setActiveTimer] = useState<{ id: string; subtaskName: string; startTime: Date } | null>(null)
-    const [elapsedSeconds, setElapsedSeconds] = useState(0)
+    const { activeLog, busy: loading, start, stop } = useTimer()
+    const [now, setNow] = useState(() => Date.now())
     const [timeLogs, setTimeLogs] = useState<SubtaskTimeLog[]>([])
-    const [loading, setLoading] = useState(false)
 
-    // Load time logs
+    // The running timer lives in TimerContext; it belongs here only when it
+    // times this task
+    const activeTimer = activeLog && activeLog.task_id === taskId
+        ? { id: activeLog.id, subtaskId: activeLog.subtask_id, startTime: new Date(activeLog.start_time) }
+        : null
+    const activeTimerId = activeTimer?.id
+    const elapsedSeconds = activeTimer ? Math.max(0, Math.floor((now - activeTimer.startTime.getTime()) / 1000)) : 0
+
+    // Load time logs, again whenever the running timer changes
     useEffect(() => {
         if (user && taskId) {
             loadTimeLogs()
-            loadActiveTimer()
         }
-    }, [user, taskId])
+    }, [user, taskId, activeTimerId])
 
     // Timer tick
     useEffect(() => {
-        if (!activeTimer) return
+        if (!activeTimerId) return
 
-        const interval = setInterval(() => {
-            const elapsed = Math.floor((new Date().getTime() - activeTimer.startTime.getTime()) / 1000)
-            setElapsedSeconds(elapsed)
-        }, 1000)
+        const interval = setInterval(() => setNow(Date.now()), 1000)
 
         return () => clearInterval(interval)
-    }, [activeTimer])
+    }, [activeTimerId])
 
     const loadTimeLogs = async () => {
         if (!user) return
@@ -71,118 +82,16 @@ export default function SubtaskTimer({ taskId, subtasks, onToggleSubtask, onEdit
         }
     }
 
-    const loadActiveTimer = async () => {
-        if (!user) return
-        try {
-            const { data } = await supabase
-                .from('subtask_time_logs')
-                .select('*')
-                .eq('task_id', taskId)
-                .eq('user_id', user.id)
-                .is('end_time', null)
-                .maybeSingle()
-
-            if (data) {
-                const startTime = new Date(data.start_time)
-                setActiveTimer({
-                    id: data.id,
-                    subtaskName: data.subtask_name,
-                    startTime: startTime
-                })
-                setElapsedSeconds(Math.floor((new Date().getTime() - startTime.getTime()) / 1000))
-            }
-        } catch (error) {
-            // No active timer
-        }
-    }
-
-    const handleStartTimer = async (subtaskName: string) => {
+    // Without a subtask the time goes on the task itself
+    const handleStartTimer = async (subtask: Subtask | null) => {
         if (!user || activeTimer) return
-
-        setLoading(true)
-        try {
-            if (TIMER_SAFETY_ENABLED) {
-                const { data: existingTimer } = await supabase
-                    .from('subtask_time_logs')
-                    .select('id, task_id, subtask_name')
-                    .eq('user_id', user.id)
-                    .is('end_time', null)
-                    .maybeSingle()
-
-                if (existingTimer) {
-                    alert(`You already have an active timer running for subtask "${existingTimer.subtask_name}". Please stop it before starting a new one.`)
-                    setLoading(false)
-                    return
-                }
-            }
-
-            const startTime = new Date()
-            const payload = {
-                task_id: taskId,
-                user_id: user.id,
-                subtask_name: subtaskName,
-                start_time: startTime.toISOString(),
-                end_time: null
-            }
-
-            const { data, error } = await supabase
-                .from('subtask_time_logs')
-                .insert(payload)
-                .select()
-                .single()
-
-            if (error) throw error
-
-            if (data) {
-                setActiveTimer({
-                    id: data.id,
-                    subtaskName: subtaskName,
-                    startTime: startTime
-                })
-                setElapsedSeconds(0)
-            }
-        } catch (error: any) {
-            // Handle unique constraint violation (code 23505)
-            if (error.code === '23505' || error.message?.includes('duplicate key value') || error.message?.includes('unique constraint')) {
-                alert('A timer is already running for this task.')
-                await loadActiveTimer() // Sync state with the server
-            } else {
-                console.error('Error starting timer:', error)
-                alert('Failed to start timer.')
-            }
-        } finally {
-            setLoading(false)
-        }
+        setNow(Date.now())
+        await start({ taskId, subtaskId: subtask?.id ?? null, subtaskName: subtask?.title ?? TASK_TIME_LABEL })
     }
 
     const handleStopTimer = async () => {
         if (!activeTimer || !user) return
-
-        setLoading(true)
-        try {
-            const endTime = new Date()
-            const durationSeconds = Math.floor((endTime.getTime() - activeTimer.startTime.getTime()) / 1000)
-
-            const { error } = await supabase
-                .from('subtask_time_logs')
-                .update({
-                    end_time: endTime.toISOString(),
-                    duration_seconds: durationSeconds
-                })
-                .eq('id', activeTimer.id)
-
-            if (error) throw error
-
-            setActiveTimer(null)
-            setElapsedSeconds(0)
-            loadTimeLogs()
-            loadActiveTimer()
-        } catch (error) {
-            console.error('Error stopping timer:', error)
-            alert('Failed to stop timer.')
-        } finally {
-            setLoading(false)
-        }
+        await stop()
     }
 
     const formatTime = (seconds: number): string => {
@@ -192,20 +101,99 @@ export default function SubtaskTimer({ taskId, subtasks, onToggleSubtask, onEdit
         return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`
     }
 
-    const getTotalTimeForSubtask = (subtaskName: string): number => {
+    const getTotalTimeForSubtask = (subtaskId: string | null): number => {
         return timeLogs
-            .filter(log => log.subtask_name === subtaskName && log.duration_seconds)
+            .filter(log => log.subtask_id === subtaskId && log.duration_seconds)
+            .reduce((total, log) => total + (log.duration_seconds || 0), 0)
+    }
+
+    // Logged time including the session the timer is counting right now;
+    // the whole task's when no subtask is given, the task's own with null
+    const loggedSeconds = (subtaskId?: string | null) => {
+        const logged = timeLogs
+            .filter(log => subtaskId === undefined || log.subtask_id === subtaskId)
             .reduce((total, log) => total + (log.duration_seconds || 0), 0)
+        const running = activeTimer && (subtaskId === undefined || activeTimer.subtaskId === subtaskId)
+        return logged + (running ? elapsedSeconds : 0)
     }
 
+    const taskEstimate = taskEstimateHours(
+        { estimate_hours: estimateHours },
+        subtasks.map(s => ({ estimate_hours: s.estimate_hours ?? null }))
+    )
+    const taskEstimateSeconds = taskEstimate !== null ? taskEstimate * 3600 : null
+    const taskLoggedSeconds = loggedSeconds()
+
     const handleToggleSubtask = (id: string, isCompleted: boolean) => {
         onToggleSubtask(id, isCompleted)
     }
 
+    // Elapsed or logged time with a start/stop button
+    const renderTimerControls = (isActive: boolean, totalTime: number, onStart: () => void, completed = false) => (
+        <>
+            {/* Time Display */}
+            <div style={{
+                fontFamily: 'monospace',
+                fontSize: '0.9rem',
+                fontWeight: '600',
+                color: isActive ? 'var(--success-color)' : 'var(--text-secondary)'
+            }}>
+                {isActive ? formatTime(elapsedSeconds) : formatTime(totalTime)}
+            </div>
+
+            {/* Timer Button */}
+            {isActive ? (
+                <button
+                    onClick={handleStopTimer}
+                    disabled={loading}
+                    style={{
+                        background: 'rgba(239, 68, 68, 0.1)',
+                        color: 'var(--danger-color)',
+                        border: '1px solid var(--danger-color)',
+                        width: '32px',
+                        height: '32px',
+                        borderRadius: '50%',
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        cursor: 'pointer'
+                    }}
+                    title="Stop Timer"
+                >
+                    <Square size={12} fill="currentColor" />
+                </button>
+            ) : (
+                <button
+                    onClick={onStart}
+                    disabled={loading || (activeTimer !== null) || completed}
+                    style={{
+                        background: 'rgba(34, 197, 94, 0.1)',
+                        color: 'var(--success-color)',
+                        border: '1px solid var(--success-color)',
+                        width: '32px',
+                        height: '32px',
+                        borderRadius: '50%',
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        cursor: (loading || activeTimer || completed) ? 'not-allowed' : 'pointer',
+                        opacity: (loading || activeTimer || completed) ? 0.5 : 1
+                    }}
+                    title={completed ? "Cannot time completed task" : "Start Timer"}
+                >
+                    <Play size={12} fill="currentColor" />
+                </button>
+            )}
+        </>
+    )
+
     if (!subtasks || subtasks.length === 0) {
         return (
             <div style={{ padding: '2rem', textAlign: 'center', background: 'var(--bg-tertiary)', borderRadius: '0.5rem', border: '1px dashed var(--border-color)' }}>
-                <p style={{ color: 'var(--text-secondary)', marginBottom: '1rem' }}>No subtasks yet.</p>
+                <p style={{ color: 'var(--text-secondary)', marginBottom: '1rem' }}>No subtasks yet. Time can go on the task itself.</p>
+                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '1rem', marginBottom: '1rem' }}>
+                    {renderTimerControls(activeTimer?.subtaskId === null, loggedSeconds(null), () => handleStartTimer(null))}
+                </div>
                 <button
                     onClick={onEdit}
                     style={{
@@ -248,11 +236,36 @@ export default function SubtaskTimer({ taskId, subtasks, onToggleSubtask, onEdit
                 </button>
             </div>
 
+            {taskEstimateSeconds !== null && (
+                <div style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '0.5rem',
+                    marginBottom: '1rem',
+                    padding: '0.5rem 0.75rem',
+                    borderRadius: '0.5rem',
+                    fontSize: '0.85rem',
+                    background: taskLoggedSeconds > taskEstimateSeconds ? 'rgba(239, 68, 68, 0.1)' : 'var(--bg-tertiary)',
+                    border: `1px solid ${taskLoggedSeconds > taskEstimateSeconds ? 'var(--danger-color)' : 'var(--border-color)'}`,
+                    color: taskLoggedSeconds > taskEstimateSeconds ? 'var(--danger-color)' : 'var(--text-secondary)'
+                }}>
+                    {taskLoggedSeconds > taskEstimateSeconds && <AlertTriangle size={16} />}
+                    <span>
+                        {formatHours(taskLoggedSeconds)} logged of {formatHours(taskEstimateSeconds)} estimated
+                        {' · '}
+                        {taskLoggedSeconds > taskEstimateSeconds
+                            ? `over by ${formatHours(taskLoggedSeconds - taskEstimateSeconds)}`
+                            : `${formatHours(taskEstimateSeconds - taskLoggedSeconds)} left`}
+                    </span>
+                </div>
+            )}
+
             {/* List */}
             <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
                 {subtasks.map((task) => {
-                    const isActive = activeTimer?.subtaskName === task.title
-                    const totalTime = getTotalTimeForSubtask(task.title)
+                    const isActive = activeTimer?.subtaskId === task.id
+                    const totalTime = getTotalTimeForSubtask(task.id)
+                    const isOverdue = !task.is_completed && !!task.due_date && task.due_date < format(new Date(), 'yyyy-MM-dd')
 
                     return (
                         <div key={task.id} style={{
@@ -263,6 +276,7 @@ export default function SubtaskTimer({ taskId, subtasks, onToggleSubtask, onEdit
                             border: isActive ? '1px solid var(--success-color)' : '1px solid var(--border-color)',
                             borderRadius: '0.5rem',
                             padding: '0.75rem',
+                            marginLeft: task.parent_id ? '1.75rem' : 0,
                             gap: '1rem'
                         }}>
                             {/* Checkbox & Text */}
@@ -292,63 +306,38 @@ export default function SubtaskTimer({ taskId, subtasks, onToggleSubtask, onEdit
                                 }}>
                                     {task.title}
                                 </span>
+                                {task.due_date && (
+                                    <span style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', fontSize: '0.75rem', color: isOverdue ? 'var(--danger-color)' : 'var(--text-secondary)' }}>
+                                        <Calendar size={12} />
+                                        {format(parseISO(task.due_date), 'MMM d')}
+                                    </span>
+                                )}
                             </div>
 
                             {/* Controls */}
                             <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
-                                {/* Time Display */}
-                                <div style={{
-                                    fontFamily: 'monospace',
-                                    fontSize: '0.9rem',
-                                    fontWeight: '600',
-                                    color: isActive ? 'var(--success-color)' : 'var(--text-secondary)'
-                                }}>
-                                    {isActive ? formatTime(elapsedSeconds) : formatTime(totalTime)}
-                                </div>
-
-                                {/* Timer Button */}
-                                {isActive ? (
-                                    <button
-                                        onClick={handleStopTimer}
-                                        disabled={loading}
-                                        style={{
-                                            background: 'rgba(239, 68, 68, 0.1)',
-                                            color: 'var(--danger-color)',
-                                            border: '1px solid var(--danger-color)',
-                                            width: '32px',
-                                            height: '32px',
-                                            borderRadius: '50%',
-                                            display: 'flex',
-                                            alignItems: 'center',
-                                            justifyContent: 'center',
-                                            cursor: 'pointer'
-                                        }}
-                                        title="Stop Timer"
-                                    >
-                                        <Square size={12} fill="currentColor" />
-                                    </button>
-                                ) : (
-                                    <button
-                                        onClick={() => handleStartTimer(task.title)}
-                                        disabled={loading || (activeTimer !== null) || task.is_completed}
-                                        style={{
-                                            background: 'rgba(34, 197, 94, 0.1)',
-                                            color: 'var(--success-color)',
-                                            border: '1px solid var(--success-color)',
-                                            width: '32px',
-                                            height: '32px',
-                                            borderRadius: '50%',
-                                            display: 'flex',
-                                            alignItems: 'center',
-                                            justifyContent: 'center',
-                                            cursor: (loading || activeTimer || task.is_completed) ? 'not-allowed' : 'pointer',
-                                            opacity: (loading || activeTimer || task.is_completed) ? 0.5 : 1
-                                        }}
-                                        title={task.is_completed ? "Cannot time completed task" : "Start Timer"}
-                                    >
-                                        <Play size={12} fill="currentColor" />
-                                    </button>
-                                )}
+                                {/* Remaining against the subtask's estimate */}
+                                {task.estimate_hours != null && task.estimate_hours > 0 && (() => {
+                                    const remaining = task.estimate_hours * 3600 - loggedSeconds(task.id)
+                                    return (
+                                        <span
+                                            title={`Estimated ${formatHours(task.estimate_hours * 3600)}`}
+                                            style={{
+                                                display: 'flex',
+                                                alignItems: 'center',
+                                                gap: '0.25rem',
+                                                fontSize: '0.75rem',
+                                                fontWeight: '600',
+                                                color: remaining < 0 ? 'var(--danger-color)' : 'var(--text-secondary)'
+                                            }}
+                                        >
+                                            {remaining < 0 && <AlertTriangle size={12} />}
+                                            {remaining < 0 ? `${formatHours(-remaining)} over` : `${formatHours(remaining)} left`}
+                                        </span>
+                                    )
+                                })()}
+
+                                {renderTimerControls(isActive, totalTime, () => handleStartTimer(task), task.is_completed)}
                             </div>
                         </div>
                     )
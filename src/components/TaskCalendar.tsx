@@ -13,19 +13,11 @@ import {
     isToday
 } from 'date-fns'
 import { ChevronLeft, ChevronRight } from 'lucide-react'
-
-interface Task {
-    id: string
-    title: string
-    description?: string
-    due_date?: string
-    priority?: string
-    status_id?: string
-}
+import type { TaskListItem } from '../data'
 
 interface TaskCalendarProps {
-    tasks: Task[]
-    onEdit: (task: Task) => void
+    tasks: TaskListItem[]
+    onEdit: (task: TaskListItem) => void
 }
 
 export default function TaskCalendar({ tasks, onEdit }: TaskCalendarProps) {
@@ -1,36 +1,10 @@
 import React from 'react'
 import { Draggable } from '@hello-pangea/dnd'
 import { User, Calendar } from 'lucide-react'
-
-interface Task {
-    id: string
-    title: string
-    description?: string
-    status_id: string
-    department_id: string
-    priority: 'low' | 'medium' | 'high'
-    due_date?: string
-    assigned_to?: string
-    assignee?: {
-        full_name: string
-        avatar_url?: string
-    }
-    status?: {
-        label: string
-        color: string
-    }
-    department?: {
-        name: string
-        workspace?: {
-            client?: {
-                name: string
-            }
-        }
-    }
-}
+import type { TaskListItem } from '../data'
 
 interface TaskCardProps {
-    task: Task
+    task: TaskListItem
     index: number
 }
 
@@ -66,19 +40,19 @@ const TaskCard = React.memo(({ task, index }: TaskCardProps) => {
                         width: 'fit-content'
                     }}>{task.title}</div>
                     <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
-                        {task.department?.workspace?.client?.name} • {task.department?.name}
+                        {task.client?.name} • {task.department?.name}
                     </div>
                     <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginTop: '0.25rem' }}>
-                        <div title={task.assignee?.full_name} style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
+                        <div title={task.assignees[0]?.full_name} style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', fontSize: '0.75rem', color: 'var(--text-secondary)' }}>
                             <div style={{
                                 width: '20px', height: '20px', borderRadius: '50%',
                                 background: 'var(--bg-tertiary)', border: '1px solid var(--border-color)',
                                 display: 'flex', alignItems: 'center', justifyContent: 'center',
                                 fontSize: '0.65rem', fontWeight: '600', color: 'var(--text-secondary)'
                             }}>
-                                {task.assignee?.full_name?.[0] || <User size={10} />}
+                                {task.assignees[0]?.full_name?.[0] || <User size={10} />}
                             </div>
-                            {task.assignee?.full_name || 'Unassigned'}
+                            {task.assignees[0]?.full_name || 'Unassigned'}
                         </div>
                         <div style={{ display: 'flex', gap: '4px' }}>
                             {task.due_date && (
@@ -1,36 +1,18 @@
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
-
-interface Task {
-    id: string
-    status_id?: string
-    [key: string]: any
-}
+import { STATUS_CATEGORIES, statusCategory, type TaskRow, type TaskStatusRow } from '../data'
 
 interface TaskChartProps {
-    tasks: Task[]
-    statuses: any[]
+    tasks: Pick<TaskRow, 'id' | 'status_id'>[]
+    statuses: Pick<TaskStatusRow, 'id' | 'category'>[]
 }
 
 export default function TaskChart({ tasks, statuses }: TaskChartProps) {
-    // Process data for the chart
-    // 1. Get unique status labels to avoid duplicates in the chart
-    const uniqueLabels = Array.from(new Set(statuses.map(s => s.label)))
-
-    // 2. Map data for each unique label
-    const data = uniqueLabels.map((label) => {
-        // Find all status IDs that match this label (handling duplicates from different departments)
-        const matchingStatusIds = statuses
-            .filter(s => s.label === label)
-            .map(s => s.id)
-
-        // Count tasks that match any of these status IDs
-        const count = tasks.filter(t => t.status_id && matchingStatusIds.includes(t.status_id)).length
-
-        return {
-            name: label,
-            count: count,
-        }
-    })
+    // One bar per category, so every department's columns add up no matter
+    // what they are called
+    const data = STATUS_CATEGORIES.map(({ category, label }) => ({
+        name: label,
+        count: tasks.filter(t => statusCategory(statuses.find(s => s.id === t.status_id)) === category).length
+    }))
 
     // Custom Tooltip
     const CustomTooltip = ({ active, payload, label }: any) => {
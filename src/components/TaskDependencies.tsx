@@ -0,0 +1,153 @@
+import { useCallback, useEffect, useState } from 'react'
+import { GitBranch, Lock, X, CheckCircle2 } from 'lucide-react'
+import {
+    listDependencies,
+    addDependency,
+    removeDependency,
+    listTasks,
+    isClosedStatus,
+    type DependencyTask,
+    type TaskDependencyItem,
+    type TaskListItem
+} from '../data'
+
+interface TaskDependenciesProps {
+    taskId: string
+    departmentId: string
+}
+
+export default function TaskDependencies({ taskId, departmentId }: TaskDependenciesProps) {
+    const [blockedBy, setBlockedBy] = useState<TaskDependencyItem[]>([])
+    const [blocking, setBlocking] = useState<TaskDependencyItem[]>([])
+    const [candidates, setCandidates] = useState<TaskListItem[]>([])
+    const [selectedId, setSelectedId] = useState('')
+
+    const loadDependencies = useCallback(() => {
+        Promise.all([
+            listDependencies({ taskIds: [taskId] }),
+            listDependencies({ blockerIds: [taskId] })
+        ])
+            .then(([upstream, downstream]) => {
+                setBlockedBy(upstream)
+                setBlocking(downstream)
+            })
+            .catch(error => console.error('Error loading dependencies:', error))
+    }, [taskId])
+
+    useEffect(() => {
+        loadDependencies()
+    }, [loadDependencies])
+
+    useEffect(() => {
+        // Blockers are picked from the same department's tasks
+        listTasks({ departmentId, orderBy: 'title', ascending: true })
+            .then(({ tasks }) => setCandidates(tasks))
+            .catch(error => console.error('Error loading candidate tasks:', error))
+    }, [departmentId])
+
+    const handleAdd = async () => {
+        if (!selectedId) return
+        try {
+            await addDependency(taskId, selectedId)
+            setSelectedId('')
+            loadDependencies()
+        } catch (error) {
+            console.error('Error adding dependency:', error)
+            alert((error as { message?: string }).message || 'Failed to add dependency')
+        }
+    }
+
+    const handleRemove = async (dependsOnId: string) => {
+        try {
+            await removeDependency(taskId, dependsOnId)
+            setBlockedBy(prev => prev.filter(d => d.depends_on_id !== dependsOnId))
+        } catch (error) {
+            console.error('Error removing dependency:', error)
+            alert('Failed to remove dependency')
+        }
+    }
+
+    const available = candidates.filter(t =>
+        t.id !== taskId &&
+        !blockedBy.some(d => d.depends_on_id === t.id) &&
+        !blocking.some(d => d.task_id === t.id)
+    )
+
+    const renderTask = (task: DependencyTask, onRemove?: () => void) => {
+        const isDone = isClosedStatus(task.status)
+        return (
+            <div key={task.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', padding: '0.5rem 0.75rem', background: 'var(--bg-tertiary)', borderRadius: '0.5rem', border: '1px solid var(--border-color)', fontSize: '0.85rem' }}>
+                {isDone
+                    ? <CheckCircle2 size={14} style={{ color: '#22c55e', flexShrink: 0 }} />
+                    : <Lock size={14} style={{ color: '#f59e0b', flexShrink: 0 }} />}
+                <span style={{ flex: 1, color: 'var(--text-primary)', textDecoration: isDone ? 'line-through' : 'none' }}>{task.title}</span>
+                <span style={{ fontSize: '0.75rem', color: task.status?.color || 'var(--text-secondary)' }}>{task.status?.label || 'No status'}</span>
+                {onRemove && (
+                    <button onClick={onRemove} title="Remove dependency" style={{ background: 'none', border: 'none', cursor: 'pointer', color: 'var(--text-secondary)', padding: '0.125rem', display: 'flex' }}>
+                        <X size={14} />
+                    </button>
+                )}
+            </div>
+        )
+    }
+
+    return (
+        <div style={{ marginBottom: '2rem' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', color: 'var(--text-primary)', marginBottom: '1rem' }}>
+                <GitBranch size={20} style={{ color: '#ec4899' }} />
+                <h3 style={{
+                    fontSize: '1rem',
+                    fontWeight: '700',
+                    margin: 0,
+                    textTransform: 'uppercase',
+                    letterSpacing: '0.05em',
+                    background: 'linear-gradient(to right, #ec4899, #8b5cf6)',
+                    WebkitBackgroundClip: 'text',
+                    WebkitTextFillColor: 'transparent',
+                    backgroundClip: 'text',
+                    width: 'fit-content'
+                }}>
+                    Dependencies
+                </h3>
+            </div>
+
+            <div style={{ fontSize: '0.75rem', fontWeight: '600', color: 'var(--text-secondary)', textTransform: 'uppercase', marginBottom: '0.5rem' }}>Blocked by</div>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', marginBottom: '0.75rem' }}>
+                {blockedBy.length === 0 ? (
+                    <span style={{ fontSize: '0.85rem', color: 'var(--text-secondary)' }}>Nothing. This task can start any time.</span>
+                ) : (
+                    blockedBy.map(d => renderTask(d.blocker, () => handleRemove(d.depends_on_id)))
+                )}
+            </div>
+
+            <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1.25rem' }}>
+                <select
+                    value={selectedId}
+                    onChange={e => setSelectedId(e.target.value)}
+                    style={{ flex: 1, background: 'var(--bg-tertiary)', color: 'var(--text-primary)', padding: '0.375rem 0.5rem', borderRadius: '0.375rem', border: '1px solid var(--border-color)', fontSize: '0.85rem' }}
+                >
+                    <option value="">Add a blocking task...</option>
+                    {available.map(t => (
+                        <option key={t.id} value={t.id}>{t.title}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={handleAdd}
+                    disabled={!selectedId}
+                    style={{ padding: '0.375rem 0.875rem', borderRadius: '0.375rem', border: 'none', background: selectedId ? 'linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)' : 'var(--bg-tertiary)', color: selectedId ? 'white' : 'var(--text-secondary)', fontWeight: '600', fontSize: '0.85rem', cursor: selectedId ? 'pointer' : 'not-allowed' }}
+                >
+                    Add
+                </button>
+            </div>
+
+            {blocking.length > 0 && (
+                <>
+                    <div style={{ fontSize: '0.75rem', fontWeight: '600', color: 'var(--text-secondary)', textTransform: 'uppercase', marginBottom: '0.5rem' }}>Blocking</div>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                        {blocking.map(d => renderTask(d.dependent))}
+                    </div>
+                </>
+            )}
+        </div>
+    )
+}
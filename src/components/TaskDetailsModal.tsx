@@ -1,81 +1,117 @@
 import { useState, useEffect } from 'react'
-import { supabase } from '../lib/supabase'
-import { User, Flag, Clock, Layout, CheckSquare, Briefcase } from 'lucide-react'
+import { User, Flag, Clock, Layout, CheckSquare, Briefcase, Hourglass, ListTree } from 'lucide-react'
 import Modal from './Modal'
 
 import TaskComments from './TaskComments'
+import TaskDependencies from './TaskDependencies'
+import TaskHistory from './TaskHistory'
 import SubtaskTimer from './SubtaskTimer'
-import SubtaskListEditor from './SubtaskListEditor'
+import SubtaskListEditor, { type SubtaskPatch } from './SubtaskListEditor'
+import {
+    listStatuses,
+    listSubtasks,
+    addSubtask,
+    setSubtaskCompleted,
+    renameSubtask,
+    setSubtaskEstimate,
+    updateSubtask,
+    reorderSubtasks,
+    convertSubtaskToTask,
+    convertTaskToSubtask,
+    parseEstimateHours,
+    deleteSubtask,
+    listProfiles,
+    listTasks,
+    updateTask,
+    updateTaskStatus,
+    compareStatuses,
+    statusCategory,
+    type ProfileRow,
+    type SubtaskRow,
+    type TaskListItem,
+    type TaskStatusRow
+} from '../data'
+import { confirmWorkflowMove } from '../lib/workflows'
+import { usePermission } from '../contexts/PermissionsContext'
+
+// Marks subtasks shown before the server has created them
+const TEMP_ID_PREFIX = 'temp-'
 
 interface TaskDetailsModalProps {
     isOpen: boolean
     onClose: () => void
-    task: any
+    task: TaskListItem | null
     onUpdate: () => void
     isCoordinator?: boolean
 }
 
-interface Subtask {
-    id: string
-    title: string
-    is_completed: boolean
-}
+type Subtask = Pick<SubtaskRow, 'id' | 'title' | 'is_completed' | 'estimate_hours' | 'parent_id' | 'position' | 'assigned_to' | 'due_date'>
 
-// TaskDetailsModal component
+// TaskDetailsModal component. Callers key it by task, so each task starts
+// from its own title.
 export default function TaskDetailsModal({ isOpen, onClose, task, onUpdate }: TaskDetailsModalProps) {
     // Data State
     const [subtasks, setSubtasks] = useState<Subtask[]>([])
-    const [title, setTitle] = useState('')
-    const [statuses, setStatuses] = useState<any[]>([])
-    const [progress, setProgress] = useState(0)
+    const [title, setTitle] = useState(task?.title || '')
+    const [statuses, setStatuses] = useState<TaskStatusRow[]>([])
     const [isEditingSubtasks, setIsEditingSubtasks] = useState(false)
+    const [tab, setTab] = useState<'details' | 'history'>('details')
+    const [people, setPeople] = useState<ProfileRow[]>([])
+    const [parentCandidates, setParentCandidates] = useState<TaskListItem[] | null>(null)
+    const canConvertTask = usePermission('task.delete')
 
     // Load statuses
     useEffect(() => {
         const loadStatuses = async () => {
             if (!task?.department_id) return
-            const { data } = await supabase
-                .from('task_statuses')
-                .select('*')
-                .eq('department_id', task.department_id)
-                .order('position')
-            setStatuses(data || [])
+            try {
+                setStatuses(await listStatuses({ departmentId: task.department_id }))
+            } catch (error) {
+                console.error('Error loading statuses:', error)
+            }
         }
         loadStatuses()
     }, [task?.department_id])
 
-    // Load Subtasks & Init Title
-    useEffect(() => {
-        if (isOpen && task) {
-            setTitle(task.title || '')
-            loadSubtasks()
-        }
-    }, [isOpen, task])
-
     const loadSubtasks = async () => {
         if (!task?.id) return
-        const { data } = await supabase
-            .from('subtasks')
-            .select('*')
-            .eq('task_id', task.id)
-            .order('created_at', { ascending: true }) // Tasks usually ordered by creation unless positioned
-
-        if (data) {
+        try {
+            const data = await listSubtasks(task.id)
             setSubtasks(data)
-            calculateProgress(data)
-        } else {
+        } catch (error) {
+            console.error('Error loading subtasks:', error)
             setSubtasks([])
-            setProgress(0)
         }
     }
 
-    const calculateProgress = (items: Subtask[]) => {
-        if (!items || items.length === 0) {
-            setProgress(0)
-            return
+    const progress = subtasks.length === 0
+        ? 0
+        : Math.round((subtasks.filter(t => t.is_completed).length / subtasks.length) * 100)
+
+    // Load Subtasks
+    useEffect(() => {
+        if (isOpen && task) {
+            loadSubtasks()
+        }
+    }, [isOpen, task])
+
+    // People to assign subtasks to
+    useEffect(() => {
+        if (!isEditingSubtasks || people.length > 0) return
+        listProfiles()
+            .then(setPeople)
+            .catch(error => console.error('Error loading people:', error))
+    }, [isEditingSubtasks, people.length])
+
+    // Other tasks in the department, loaded when converting is first offered
+    const loadParentCandidates = async () => {
+        if (!task || parentCandidates) return
+        try {
+            const { tasks } = await listTasks({ departmentId: task.department_id, orderBy: 'title', ascending: true })
+            setParentCandidates(tasks.filter(t => t.id !== task.id))
+        } catch (error) {
+            console.error('Error loading tasks:', error)
         }
-        const completed = items.filter(t => t.is_completed).length
-        setProgress(Math.round((completed / items.length) * 100))
     }
 
     // -- Atomic Subtask Handlers --
@@ -86,23 +122,11 @@ export default function TaskDetailsModal({ isOpen, onClose, task, onUpdate }: Ta
         let newStatusId = undefined
 
         if (total > 0) {
-            let targetStatusId = undefined
-
-            if (completed === 0) {
-                // 0 checked -> To Do
-                const s = statuses.find(s => /to\s?do|backlog|pending|open|not started/i.test(s.label))
-                if (s) targetStatusId = s.id
-            } else if (completed === total) {
-                // All checked -> Done
-                const s = statuses.find(s => /done|complete|resolved|closed|finish/i.test(s.label))
-                if (s) targetStatusId = s.id
-            } else {
-                // Some checked -> In Progress
-                const s = statuses.find(s => /progress|review|doing|working/i.test(s.label))
-                if (s) targetStatusId = s.id
-            }
+            // 0 checked -> backlog, all checked -> done, some -> the first active column
+            const category = completed === 0 ? 'backlog' : completed === total ? 'done' : 'active'
+            const targetStatusId = [...statuses].sort(compareStatuses).find(s => statusCategory(s) === category)?.id
 
-            if (targetStatusId && task.status_id !== targetStatusId) {
+            if (targetStatusId && task?.status_id !== targetStatusId) {
                 newStatusId = targetStatusId
             }
         }
@@ -113,25 +137,18 @@ export default function TaskDetailsModal({ isOpen, onClose, task, onUpdate }: Ta
     }
 
     const handleAddSubtask = async (text: string) => {
+        if (!task) return
         // Optimistic
-        const tempId = crypto.randomUUID()
-        const newSubtask: Subtask = { id: tempId, title: text, is_completed: false }
+        const tempId = `${TEMP_ID_PREFIX}${crypto.randomUUID()}`
+        const position = subtasks.filter(t => !t.parent_id).length
+        const newSubtask: Subtask = { id: tempId, title: text, is_completed: false, estimate_hours: null, parent_id: null, position, assigned_to: null, due_date: null }
         const updatedList = [...subtasks, newSubtask]
         setSubtasks(updatedList)
-        calculateProgress(updatedList)
 
         try {
-            const { data, error } = await supabase
-                .from('subtasks')
-                .insert({ task_id: task.id, title: text, is_completed: false })
-                .select()
-                .single()
-
-            if (error) throw error
-            if (data) {
-                // Replace temp ID with real ID
-                setSubtasks(prev => prev.map(t => t.id === tempId ? data : t))
-            }
+            const data = await addSubtask(task.id, text, position)
+            // Replace temp ID with real ID
+            setSubtasks(prev => prev.map(t => t.id === tempId ? data : t))
         } catch (error) {
             console.error('Error adding subtask:', error)
             // Rollback
@@ -144,16 +161,10 @@ export default function TaskDetailsModal({ isOpen, onClose, task, onUpdate }: Ta
         // Optimistic
         const updatedList = subtasks.map(t => t.id === id ? { ...t, is_completed: isCompleted } : t)
         setSubtasks(updatedList)
-        calculateProgress(updatedList)
         checkAutoStatusUpdate(updatedList)
 
         try {
-            const { error } = await supabase
-                .from('subtasks')
-                .update({ is_completed: isCompleted })
-                .eq('id', id)
-
-            if (error) throw error
+            await setSubtaskCompleted(id, isCompleted)
         } catch (error) {
             console.error('Error toggling subtask:', error)
             // Rollback
@@ -162,26 +173,22 @@ export default function TaskDetailsModal({ isOpen, onClose, task, onUpdate }: Ta
     }
 
     const handleDeleteSubtask = async (id: string) => {
+        // Nested subtasks go with their parent
+        const nestedCount = subtasks.filter(t => t.parent_id === id).length
+        if (nestedCount > 0 && !confirm(`Delete this subtask and the ${nestedCount} nested under it?`)) return
+
         // Optimistic
-        const deletedTask = subtasks.find(t => t.id === id)
-        const updatedList = subtasks.filter(t => t.id !== id)
+        const previousList = subtasks
+        const updatedList = subtasks.filter(t => t.id !== id && t.parent_id !== id)
         setSubtasks(updatedList)
-        calculateProgress(updatedList)
         checkAutoStatusUpdate(updatedList)
 
         try {
-            const { error } = await supabase
-                .from('subtasks')
-                .delete()
-                .eq('id', id)
-
-            if (error) throw error
+            await deleteSubtask(id)
         } catch (error) {
             console.error('Error deleting subtask:', error)
             // Rollback
-            if (deletedTask) {
-                setSubtasks(prev => [...prev, deletedTask])
-            }
+            setSubtasks(previousList)
         }
     }
 
@@ -192,23 +199,92 @@ export default function TaskDetailsModal({ isOpen, onClose, task, onUpdate }: Ta
 
         // Debounce could be good here, but for now direct contentEditable logic
         try {
-            const { error } = await supabase
-                .from('subtasks')
-                .update({ title: text })
-                .eq('id', id)
-
-            if (error) throw error
+            await renameSubtask(id, text)
         } catch (error) {
             console.error('Error updating subtask text:', error)
         }
     }
 
+    const handleUpdateSubtaskEstimate = async (id: string, hours: number | null) => {
+        setSubtasks(prev => prev.map(t => t.id === id ? { ...t, estimate_hours: hours } : t))
+        try {
+            await setSubtaskEstimate(id, hours)
+        } catch (error) {
+            console.error('Error updating subtask estimate:', error)
+            alert('Failed to save the estimate')
+        }
+    }
+
+    const handleUpdateSubtask = async (id: string, patch: SubtaskPatch) => {
+        setSubtasks(prev => prev.map(t => t.id === id ? { ...t, ...patch } : t))
+        try {
+            await updateSubtask(id, patch)
+        } catch (error) {
+            console.error('Error updating subtask:', error)
+            alert('Failed to save the subtask')
+            loadSubtasks()
+        }
+    }
+
+    const handleReorderSubtasks = async (ordered: Subtask[]) => {
+        if (!task) return
+        setSubtasks(ordered)
+        try {
+            // Subtasks still being added keep the position they were added at
+            await reorderSubtasks(task.id, ordered.filter(t => !t.id.startsWith(TEMP_ID_PREFIX)))
+        } catch (error) {
+            console.error('Error reordering subtasks:', error)
+            alert(`Failed to reorder the subtasks. ${(error as Error).message}`)
+            loadSubtasks()
+        }
+    }
+
+    const handleConvertSubtask = async (id: string) => {
+        const subtask = subtasks.find(t => t.id === id)
+        if (!subtask || !confirm(`Make "${subtask.title}" a task of its own?`)) return
+        try {
+            await convertSubtaskToTask(id)
+            loadSubtasks()
+            onUpdate()
+        } catch (error) {
+            console.error('Error converting subtask:', error)
+            alert(`Failed to convert the subtask. ${(error as Error).message}`)
+        }
+    }
+
+    const handleConvertToSubtask = async (parentTaskId: string) => {
+        if (!task || !parentTaskId) return
+        const parent = parentCandidates?.find(t => t.id === parentTaskId)
+        if (!confirm(`Make this task a subtask of "${parent?.title}"? The task itself moves to the trash.`)) return
+        try {
+            await convertTaskToSubtask(task.id, parentTaskId)
+            onUpdate()
+            onClose()
+        } catch (error) {
+            console.error('Error converting task:', error)
+            alert(`Failed to convert the task. ${(error as Error).message}`)
+        }
+    }
+
     // ----------------------------
 
+    const handleUpdateEstimate = async (input: string) => {
+        if (!task) return
+        const hours = parseEstimateHours(input)
+        if (hours === task.estimate_hours) return
+        try {
+            await updateTask(task.id, { estimate_hours: hours })
+            onUpdate()
+        } catch (error) {
+            console.error('Error updating estimate:', error)
+            alert('Failed to save the estimate')
+        }
+    }
+
     const handleUpdateTitle = async () => {
-        if (title !== task.title) {
+        if (task && title !== task.title) {
             try {
-                await supabase.from('tasks').update({ title }).eq('id', task.id)
+                await updateTask(task.id, { title })
                 onUpdate()
             } catch (error) {
                 console.error('Error updating title:', error)
@@ -217,8 +293,10 @@ export default function TaskDetailsModal({ isOpen, onClose, task, onUpdate }: Ta
     }
 
     const handleUpdateStatus = async (statusId: string) => {
+        if (!task) return
+        if (!await confirmWorkflowMove(task.id, statusId)) return
         try {
-            await supabase.from('tasks').update({ status_id: statusId }).eq('id', task.id)
+            await updateTaskStatus(task.id, statusId)
             onUpdate()
         } catch (error) {
             console.error('Error updating status:', error)
@@ -258,177 +336,275 @@ export default function TaskDetailsModal({ isOpen, onClose, task, onUpdate }: Ta
                         />
                     </div>
 
-                    {/* Task Properties */}
-                    <div style={{ display: 'grid', gridTemplateColumns: '120px 1fr', gap: '0.75rem 1rem', alignItems: 'center', fontSize: '0.9rem', marginBottom: '2rem' }}>
-                        {/* Status */}
-                        <div style={labelStyle}>
-                            <Layout size={16} /> Status
-                        </div>
-                        <div>
-                            <select
-                                value={task.status_id || ''}
-                                onChange={(e) => handleUpdateStatus(e.target.value)}
+                    {/* Tabs */}
+                    <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '2rem', borderBottom: '1px solid var(--border-color)' }}>
+                        {(['details', 'history'] as const).map(t => (
+                            <button
+                                key={t}
+                                onClick={() => setTab(t)}
                                 style={{
-                                    background: 'var(--bg-tertiary)',
-                                    color: (() => {
-                                        const currentStatus = statuses.find(s => s.id === task.status_id)
-                                        const label = currentStatus?.label?.toLowerCase() || ''
-                                        if (label.includes('done') || label.includes('complete') || label.includes('finish')) return '#22c55e' // Green
-                                        if (label.includes('progress') || label.includes('review')) return '#3b82f6' // Blue
-                                        return 'var(--text-primary)' // Default/White
-                                    })(),
-                                    padding: '0.125rem 0.5rem',
-                                    borderRadius: '0.25rem',
-                                    fontSize: '0.85rem',
-                                    border: '1px solid var(--border-color)',
+                                    padding: '0.5rem 1rem',
+                                    background: 'none',
+                                    border: 'none',
+                                    borderBottom: tab === t ? '2px solid #ec4899' : '2px solid transparent',
+                                    color: tab === t ? 'var(--text-primary)' : 'var(--text-secondary)',
+                                    fontWeight: '600',
+                                    fontSize: '0.9rem',
                                     cursor: 'pointer',
-                                    outline: 'none',
-                                    fontWeight: '600'
+                                    marginBottom: '-1px'
                                 }}
                             >
-                                <option value="" disabled>Select Status</option>
-                                {statuses.map(status => (
-                                    <option key={status.id} value={status.id}>
-                                        {status.label}
-                                    </option>
-                                ))}
-                            </select>
-                        </div>
-                        {/* Priority */}
-                        <div style={labelStyle}>
-                            <Flag size={16} /> Priority
-                        </div>
-                        <div>
-                            <span style={{
-                                background: task.priority === 'high' ? 'rgba(239, 68, 68, 0.2)' : task.priority === 'medium' ? 'rgba(245, 158, 11, 0.2)' : 'rgba(99, 102, 241, 0.2)',
-                                color: task.priority === 'high' ? '#ef4444' : task.priority === 'medium' ? '#f59e0b' : '#6366f1',
-                                padding: '0.125rem 0.5rem',
-                                borderRadius: '0.25rem',
-                                fontSize: '0.85rem',
-                                textTransform: 'capitalize',
-                                border: `1px solid ${task.priority === 'high' ? 'rgba(239, 68, 68, 0.3)' : task.priority === 'medium' ? 'rgba(245, 158, 11, 0.3)' : 'rgba(99, 102, 241, 0.3)'}`
-                            }}>
-                                {task.priority || 'Medium'}
-                            </span>
-                        </div>
-                        {/* Assignees */}
-                        <div style={labelStyle}>
-                            <User size={16} /> Assignees
-                        </div>
-                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', flexWrap: 'wrap' }}>
-                            {task.assignments?.length > 0 ? (
-                                task.assignments.map((assignment: any) => (
-                                    <div key={assignment.user_id} style={{ display: 'flex', alignItems: 'center', gap: '0.375rem', background: 'var(--bg-tertiary)', padding: '2px 8px 2px 2px', borderRadius: '12px', border: '1px solid var(--border-color)' }}>
-                                        <div style={{ width: 20, height: 20, borderRadius: '50%', background: 'linear-gradient(135deg, #6366f1, #ec4899)', display: 'flex', alignItems: 'center', justifyContent: 'center', fontSize: '0.65rem', fontWeight: 'bold', color: 'white' }}>
-                                            {(assignment.user?.full_name || assignment.user?.email || '?').charAt(0).toUpperCase()}
+                                {t === 'details' ? 'Details' : 'History'}
+                            </button>
+                        ))}
+                    </div>
+
+                    {tab === 'history' ? (
+                        <TaskHistory taskId={task.id} onReverted={onUpdate} />
+                    ) : (
+                    <>
+                        {/* Task Properties */}
+                        <div style={{ display: 'grid', gridTemplateColumns: '120px 1fr', gap: '0.75rem 1rem', alignItems: 'center', fontSize: '0.9rem', marginBottom: '2rem' }}>
+                            {/* Status */}
+                            <div style={labelStyle}>
+                                <Layout size={16} /> Status
+                            </div>
+                            <div>
+                                <select
+                                    value={task.status_id || ''}
+                                    onChange={(e) => handleUpdateStatus(e.target.value)}
+                                    style={{
+                                        background: 'var(--bg-tertiary)',
+                                        color: (() => {
+                                            const category = statusCategory(statuses.find(s => s.id === task.status_id))
+                                            if (category === 'done') return '#22c55e' // Green
+                                            if (category === 'active' || category === 'review') return '#3b82f6' // Blue
+                                            return 'var(--text-primary)' // Default/White
+                                        })(),
+                                        padding: '0.125rem 0.5rem',
+                                        borderRadius: '0.25rem',
+                                        fontSize: '0.85rem',
+                                        border: '1px solid var(--border-color)',
+                                        cursor: 'pointer',
+                                        outline: 'none',
+                                        fontWeight: '600'
+                                    }}
+                                >
+                                    <option value="" disabled>Select Status</option>
+                                    {statuses.map(status => (
+                                        <option key={status.id} value={status.id}>
+                                            {status.label}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                            {/* Priority */}
+                            <div style={labelStyle}>
+                                <Flag size={16} /> Priority
+                            </div>
+                            <div>
+                                <span style={{
+                                    background: task.priority === 'high' ? 'rgba(239, 68, 68, 0.2)' : task.priority === 'medium' ? 'rgba(245, 158, 11, 0.2)' : 'rgba(99, 102, 241, 0.2)',
+                                    color: task.priority === 'high' ? '#ef4444' : task.priority === 'medium' ? '#f59e0b' : '#6366f1',
+                                    padding: '0.125rem 0.5rem',
+                                    borderRadius: '0.25rem',
+                                    fontSize: '0.85rem',
+                                    textTransform: 'capitalize',
+                                    border: `1px solid ${task.priority === 'high' ? 'rgba(239, 68, 68, 0.3)' : task.priority === 'medium' ? 'rgba(245, 158, 11, 0.3)' : 'rgba(99, 102, 241, 0.3)'}`
+                                }}>
+                                    {task.priority || 'Medium'}
+                                </span>
+                            </div>
+                            {/* Assignees */}
+                            <div style={labelStyle}>
+                                <User size={16} /> Assignees
+                            </div>
+                            <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', flexWrap: 'wrap' }}>
+                                {task.assignees.length > 0 ? (
+                                    task.assignees.map(assignee => (
+                                        <div key={assignee.id} style={{ display: 'flex', alignItems: 'center', gap: '0.375rem', background: 'var(--bg-tertiary)', padding: '2px 8px 2px 2px', borderRadius: '12px', border: '1px solid var(--border-color)' }}>
+                                            <div style={{ width: 20, height: 20, borderRadius: '50%', background: 'linear-gradient(135deg, #6366f1, #ec4899)', display: 'flex', alignItems: 'center', justifyContent: 'center', fontSize: '0.65rem', fontWeight: 'bold', color: 'white' }}>
+                                                {(assignee.full_name || assignee.email || '?').charAt(0).toUpperCase()}
+                                            </div>
+                                            <span style={{ color: 'var(--text-primary)', fontSize: '0.8rem', fontWeight: '500' }}>{assignee.full_name || 'Unknown'}</span>
                                         </div>
-                                        <span style={{ color: 'var(--text-primary)', fontSize: '0.8rem', fontWeight: '500' }}>{assignment.user?.full_name || 'Unknown'}</span>
+                                    ))
+                                ) : (
+                                    <span style={{ color: 'var(--text-secondary)', fontSize: '0.85rem' }}>Unassigned</span>
+                                )}
+                            </div>
+                            {/* Content Type */}
+                            <div style={labelStyle}>
+                                <Briefcase size={16} /> Content Type
+                            </div>
+                            <div style={{ color: 'var(--text-primary)', fontWeight: '500', textTransform: 'capitalize' }}>
+                                {task.content_type || 'N/A'}
+                            </div>
+                            {/* Estimate */}
+                            <div style={labelStyle}>
+                                <Hourglass size={16} /> Estimate
+                            </div>
+                            <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                                <input
+                                    key={`${task.id}-${task.estimate_hours ?? ''}`}
+                                    type="number"
+                                    min="0"
+                                    step="0.25"
+                                    defaultValue={task.estimate_hours ?? ''}
+                                    onBlur={(e) => handleUpdateEstimate(e.target.value)}
+                                    placeholder={subtasks.some(s => s.estimate_hours !== null) ? 'From subtasks' : 'None'}
+                                    style={{
+                                        width: '7rem',
+                                        background: 'var(--bg-tertiary)',
+                                        border: '1px solid var(--border-color)',
+                                        borderRadius: '0.25rem',
+                                        padding: '0.125rem 0.5rem',
+                                        color: 'var(--text-primary)',
+                                        fontSize: '0.85rem',
+                                        outline: 'none'
+                                    }}
+                                />
+                                <span style={{ color: 'var(--text-secondary)', fontSize: '0.85rem' }}>hours</span>
+                            </div>
+                            {/* Start Date */}
+                            <div style={labelStyle}>
+                                <Clock size={16} /> Start Date
+                            </div>
+                            <div style={{ color: '#22c55e', fontWeight: '500' }}>
+                                {task.start_date ? new Date(task.start_date).toLocaleDateString() : 'No start date'}
+                            </div>
+                            {/* Due Date */}
+                            <div style={labelStyle}>
+                                <Clock size={16} /> Due Date
+                            </div>
+                            <div style={{
+                                color: '#ef4444',
+                                fontWeight: '500'
+                            }}>
+                                {task.due_date ? new Date(task.due_date).toLocaleDateString() : 'No due date'}
+                            </div>
+                            {/* Convert */}
+                            {canConvertTask && (
+                                <>
+                                    <div style={labelStyle}>
+                                        <ListTree size={16} /> Convert
                                     </div>
-                                ))
-                            ) : (
-                                <span style={{ color: 'var(--text-secondary)', fontSize: '0.85rem' }}>Unassigned</span>
+                                    <div>
+                                        <select
+                                            value=""
+                                            onFocus={loadParentCandidates}
+                                            onChange={(e) => handleConvertToSubtask(e.target.value)}
+                                            style={{
+                                                background: 'var(--bg-tertiary)',
+                                                color: 'var(--text-primary)',
+                                                padding: '0.125rem 0.5rem',
+                                                borderRadius: '0.25rem',
+                                                fontSize: '0.85rem',
+                                                border: '1px solid var(--border-color)',
+                                                cursor: 'pointer',
+                                                outline: 'none',
+                                                maxWidth: '100%'
+                                            }}
+                                        >
+                                            <option value="">Make this a subtask of...</option>
+                                            {parentCandidates === null ? (
+                                                <option value="" disabled>Loading tasks...</option>
+                                            ) : parentCandidates.map(t => (
+                                                <option key={t.id} value={t.id}>{t.title}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                </>
                             )}
                         </div>
-                        {/* Content Type */}
-                        <div style={labelStyle}>
-                            <Briefcase size={16} /> Content Type
-                        </div>
-                        <div style={{ color: 'var(--text-primary)', fontWeight: '500', textTransform: 'capitalize' }}>
-                            {task.content_type || 'N/A'}
-                        </div>
-                        {/* Start Date */}
-                        <div style={labelStyle}>
-                            <Clock size={16} /> Start Date
-                        </div>
-                        <div style={{ color: '#22c55e', fontWeight: '500' }}>
-                            {task.start_date ? new Date(task.start_date).toLocaleDateString() : 'No start date'}
-                        </div>
-                        {/* Due Date */}
-                        <div style={labelStyle}>
-                            <Clock size={16} /> Due Date
-                        </div>
-                        <div style={{
-                            color: '#ef4444',
-                            fontWeight: '500'
-                        }}>
-                            {task.due_date ? new Date(task.due_date).toLocaleDateString() : 'No due date'}
-                        </div>
-                    </div>
-                    <hr style={{ border: 'none', borderBottom: '1px solid #e5e7eb', margin: '2rem 0' }} />
-
-                    {/* Comments Section */}
-                    <TaskComments taskId={task.id} />
-
-                    <hr style={{ border: 'none', borderBottom: '1px solid #e5e7eb', margin: '2rem 0' }} />
-
-                    {/* Subtasks Section */}
-                    <div style={{ marginBottom: '3rem' }}>
-                        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '1rem' }}>
-                            {isEditingSubtasks && (
-                                <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', color: 'var(--text-primary)' }}>
-                                    <CheckSquare size={20} style={{ color: '#ec4899' }} />
-                                    <h3 style={{
-                                        fontSize: '1rem',
-                                        fontWeight: '700',
-                                        margin: 0,
-                                        textTransform: 'uppercase',
-                                        letterSpacing: '0.05em',
-                                        background: 'linear-gradient(to right, #ec4899, #8b5cf6)',
-                                        WebkitBackgroundClip: 'text',
-                                        WebkitTextFillColor: 'transparent',
-                                        backgroundClip: 'text',
-                                        width: 'fit-content'
-                                    }}>Edit Subtasks</h3>
-                                </div>
-                            )}
+                        <hr style={{ border: 'none', borderBottom: '1px solid #e5e7eb', margin: '2rem 0' }} />
+
+                        {/* Dependencies Section */}
+                        <TaskDependencies taskId={task.id} departmentId={task.department_id} />
+
+                        <hr style={{ border: 'none', borderBottom: '1px solid #e5e7eb', margin: '2rem 0' }} />
+
+                        {/* Comments Section */}
+                        <TaskComments taskId={task.id} />
+
+                        <hr style={{ border: 'none', borderBottom: '1px solid #e5e7eb', margin: '2rem 0' }} />
+
+                        {/* Subtasks Section */}
+                        <div style={{ marginBottom: '3rem' }}>
+                            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '1rem' }}>
+                                {isEditingSubtasks && (
+                                    <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', color: 'var(--text-primary)' }}>
+                                        <CheckSquare size={20} style={{ color: '#ec4899' }} />
+                                        <h3 style={{
+                                            fontSize: '1rem',
+                                            fontWeight: '700',
+                                            margin: 0,
+                                            textTransform: 'uppercase',
+                                            letterSpacing: '0.05em',
+                                            background: 'linear-gradient(to right, #ec4899, #8b5cf6)',
+                                            WebkitBackgroundClip: 'text',
+                                            WebkitTextFillColor: 'transparent',
+                                            backgroundClip: 'text',
+                                            width: 'fit-content'
+                                        }}>Edit Subtasks</h3>
+                                    </div>
+                                )}
 
-                            {!isEditingSubtasks && <div />}
+                                {!isEditingSubtasks && <div />}
 
-                            {progress > 0 && (
-                                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
-                                    <div style={{ width: '100px', height: '8px', background: 'var(--bg-tertiary)', borderRadius: '4px', overflow: 'hidden' }}>
-                                        <div style={{ width: `${progress}%`, height: '100%', background: 'linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)', transition: 'width 0.3s' }} />
+                                {progress > 0 && (
+                                    <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                                        <div style={{ width: '100px', height: '8px', background: 'var(--bg-tertiary)', borderRadius: '4px', overflow: 'hidden' }}>
+                                            <div style={{ width: `${progress}%`, height: '100%', background: 'linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)', transition: 'width 0.3s' }} />
+                                        </div>
+                                        <span style={{ fontSize: '0.875rem', fontWeight: '600', color: '#ec4899' }}>{progress}%</span>
                                     </div>
-                                    <span style={{ fontSize: '0.875rem', fontWeight: '600', color: '#ec4899' }}>{progress}%</span>
-                                </div>
-                            )}
-                        </div>
+                                )}
+                            </div>
 
-                        {isEditingSubtasks ? (
-                            <div className="subtasks-editor-wrapper">
-                                <SubtaskListEditor
+                            {isEditingSubtasks ? (
+                                <div className="subtasks-editor-wrapper">
+                                    <SubtaskListEditor
+                                        subtasks={subtasks}
+                                        onAdd={handleAddSubtask}
+                                        onToggle={handleToggleSubtask}
+                                        onDelete={handleDeleteSubtask}
+                                        onUpdateText={handleUpdateSubtaskText}
+                                        onUpdateEstimate={handleUpdateSubtaskEstimate}
+                                        onUpdate={handleUpdateSubtask}
+                                        people={people}
+                                        onReorder={handleReorderSubtasks}
+                                        onConvertToTask={handleConvertSubtask}
+                                    />
+                                    <button
+                                        onClick={() => setIsEditingSubtasks(false)}
+                                        style={{
+                                            marginTop: '1rem',
+                                            background: 'var(--success-color)',
+                                            color: 'white',
+                                            border: 'none',
+                                            padding: '0.5rem 1rem',
+                                            borderRadius: '0.375rem',
+                                            cursor: 'pointer',
+                                            fontWeight: '600',
+                                            fontSize: '0.875rem'
+                                        }}
+                                    >
+                                        Done Editing
+                                    </button>
+                                </div>
+                            ) : (
+                                <SubtaskTimer
+                                    taskId={task.id}
                                     subtasks={subtasks}
-                                    onAdd={handleAddSubtask}
-                                    onToggle={handleToggleSubtask}
-                                    onDelete={handleDeleteSubtask}
-                                    onUpdateText={handleUpdateSubtaskText}
+                                    estimateHours={task.estimate_hours}
+                                    onToggleSubtask={handleToggleSubtask}
+                                    onEdit={() => setIsEditingSubtasks(true)}
                                 />
-                                <button
-                                    onClick={() => setIsEditingSubtasks(false)}
-                                    style={{
-                                        marginTop: '1rem',
-                                        background: 'var(--success-color)',
-                                        color: 'white',
-                                        border: 'none',
-                                        padding: '0.5rem 1rem',
-                                        borderRadius: '0.375rem',
-                                        cursor: 'pointer',
-                                        fontWeight: '600',
-                                        fontSize: '0.875rem'
-                                    }}
-                                >
-                                    Done Editing
-                                </button>
-                            </div>
-                        ) : (
-                            <SubtaskTimer
-                                taskId={task.id}
-                                subtasks={subtasks}
-                                onToggleSubtask={handleToggleSubtask}
-                                onEdit={() => setIsEditingSubtasks(true)}
-                            />
-                        )}
-                    </div>
+                            )}
+                        </div>
+                    </>
+                    )}
 
                 </div>
             </div>
@@ -0,0 +1,192 @@
+import { useCallback, useEffect, useState } from 'react'
+import { format, formatDistanceToNow } from 'date-fns'
+import { History, RotateCcw } from 'lucide-react'
+import {
+    TASK_HISTORY_FIELDS,
+    changedCustomFieldId,
+    formatCustomFieldValue,
+    listCustomFields,
+    listDepartments,
+    listProfiles,
+    listStatuses,
+    listTaskChanges,
+    revertTaskChange,
+    type CustomFieldDefinition,
+    type CustomFieldValue,
+    type DepartmentOption,
+    type Json,
+    type ProfileRow,
+    type TaskChange,
+    type TaskStatusRow
+} from '../data'
+import { confirmWorkflowMove } from '../lib/workflows'
+
+interface TaskHistoryProps {
+    taskId: string
+    onReverted: () => void
+}
+
+interface Lookups {
+    statuses: TaskStatusRow[]
+    departments: DepartmentOption[]
+    profiles: ProfileRow[]
+    fields: CustomFieldDefinition[]
+}
+
+const stripHtml = (html: string) => {
+    const tmp = document.createElement('DIV')
+    tmp.innerHTML = html
+    return tmp.textContent || tmp.innerText || ''
+}
+
+// Every change made to the task, field by field, each of which can be
+// set back to the value it had before.
+export default function TaskHistory({ taskId, onReverted }: TaskHistoryProps) {
+    const [changes, setChanges] = useState<TaskChange[]>([])
+    const [lookups, setLookups] = useState<Lookups>({ statuses: [], departments: [], profiles: [], fields: [] })
+    const [loading, setLoading] = useState(true)
+    const [revertingId, setRevertingId] = useState<string | null>(null)
+
+    const loadChanges = useCallback(() => {
+        listTaskChanges(taskId)
+            .then(setChanges)
+            .catch(error => console.error('Error loading task history:', error))
+            .finally(() => setLoading(false))
+    }, [taskId])
+
+    useEffect(() => {
+        loadChanges()
+    }, [loadChanges])
+
+    useEffect(() => {
+        Promise.all([listStatuses(), listDepartments(), listProfiles(), listCustomFields()])
+            .then(([statuses, departments, profiles, fields]) => setLookups({ statuses, departments, profiles, fields }))
+            .catch(error => console.error('Error loading history labels:', error))
+    }, [])
+
+    const personName = (id: string) => {
+        const person = lookups.profiles.find(p => p.id === id)
+        return person ? person.full_name || person.email || 'Unknown person' : 'Unknown person'
+    }
+
+    const fieldLabel = (change: TaskChange) => {
+        const fieldId = changedCustomFieldId(change)
+        if (!fieldId) return TASK_HISTORY_FIELDS[change.field] || change.field
+        return lookups.fields.find(f => f.id === fieldId)?.name || 'Deleted field'
+    }
+
+    const formatValue = (change: TaskChange, value: Json | null) => {
+        if (value === null || value === '') return 'empty'
+
+        const fieldId = changedCustomFieldId(change)
+        if (fieldId) {
+            const field = lookups.fields.find(f => f.id === fieldId)
+            return field
+                ? formatCustomFieldValue(field, value as CustomFieldValue, lookups.profiles) || 'empty'
+                : JSON.stringify(value)
+        }
+
+        switch (change.field) {
+            case 'status_id':
+                return lookups.statuses.find(s => s.id === value)?.label || 'Deleted column'
+            case 'department_id':
+                return lookups.departments.find(d => d.id === value)?.name || 'Deleted department'
+            case 'assigned_to':
+            case 'assignees':
+                return personName(String(value))
+            case 'priority':
+                return String(value).charAt(0).toUpperCase() + String(value).slice(1)
+            case 'start_date':
+            case 'due_date':
+                return format(new Date(String(value)), 'MMM d, yyyy')
+            case 'estimate_hours':
+                return `${value}h`
+            case 'description': {
+                const text = stripHtml(String(value)).trim()
+                if (!text) return 'empty'
+                return text.length > 120 ? `${text.slice(0, 120)}…` : text
+            }
+            default:
+                return String(value)
+        }
+    }
+
+    const describe = (change: TaskChange) => {
+        if (change.field === 'assignees') {
+            return change.new_value !== null
+                ? `added ${formatValue(change, change.new_value)}`
+                : `removed ${formatValue(change, change.old_value)}`
+        }
+        return `changed ${fieldLabel(change).toLowerCase()}`
+    }
+
+    const handleRevert = async (change: TaskChange) => {
+        const prompt = change.field === 'assignees'
+            ? `Undo: ${describe(change)}?`
+            : `Set ${fieldLabel(change).toLowerCase()} back to "${formatValue(change, change.old_value)}"?`
+        if (!confirm(prompt)) return
+        if (change.field === 'status_id' && typeof change.old_value === 'string'
+            && !await confirmWorkflowMove(taskId, change.old_value)) return
+
+        setRevertingId(change.id)
+        try {
+            await revertTaskChange(change)
+            loadChanges()
+            onReverted()
+        } catch (error) {
+            console.error('Error reverting change:', error)
+            alert(`Failed to revert the change. ${(error as Error).message}`)
+        } finally {
+            setRevertingId(null)
+        }
+    }
+
+    return (
+        <div style={{ marginBottom: '3rem' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginBottom: '1rem', color: 'var(--text-primary)' }}>
+                <History size={20} style={{ color: '#ec4899' }} />
+                <h3 style={{ fontSize: '1rem', fontWeight: '700', margin: 0, textTransform: 'uppercase', letterSpacing: '0.05em' }}>History</h3>
+            </div>
+
+            {loading ? (
+                <div style={{ color: 'var(--text-secondary)', fontSize: '0.9rem' }}>Loading history...</div>
+            ) : changes.length === 0 ? (
+                <div style={{ color: 'var(--text-secondary)', fontSize: '0.9rem' }}>No changes recorded yet.</div>
+            ) : (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+                    {changes.map(change => (
+                        <div key={change.id} style={{ display: 'flex', alignItems: 'flex-start', gap: '1rem', padding: '0.75rem 1rem', background: 'var(--bg-tertiary)', borderRadius: '0.5rem', border: '1px solid var(--border-color)' }}>
+                            <div style={{ flex: 1, minWidth: 0 }}>
+                                <div style={{ fontSize: '0.85rem', color: 'var(--text-secondary)' }}>
+                                    <span style={{ fontWeight: '600', color: 'var(--text-primary)' }}>
+                                        {change.changer ? change.changer.full_name || change.changer.email : 'System'}
+                                    </span>
+                                    {' '}{describe(change)}
+                                    {' · '}
+                                    <span title={format(new Date(change.changed_at), 'PPpp')}>
+                                        {formatDistanceToNow(new Date(change.changed_at), { addSuffix: true })}
+                                    </span>
+                                </div>
+                                {change.field !== 'assignees' && (
+                                    <div style={{ fontSize: '0.9rem', marginTop: '0.25rem', display: 'flex', alignItems: 'baseline', gap: '0.5rem', flexWrap: 'wrap' }}>
+                                        <span style={{ color: '#ef4444', textDecoration: 'line-through', wordBreak: 'break-word' }}>{formatValue(change, change.old_value)}</span>
+                                        <span style={{ color: 'var(--text-secondary)' }}>→</span>
+                                        <span style={{ color: '#22c55e', wordBreak: 'break-word' }}>{formatValue(change, change.new_value)}</span>
+                                    </div>
+                                )}
+                            </div>
+                            <button
+                                onClick={() => handleRevert(change)}
+                                disabled={revertingId !== null}
+                                title="Revert this change"
+                                style={{ padding: '0.35rem 0.7rem', borderRadius: '0.5rem', border: '1px solid var(--border-color)', background: 'transparent', color: 'var(--text-secondary)', cursor: revertingId ? 'wait' : 'pointer', display: 'flex', alignItems: 'center', gap: '0.25rem', fontSize: '0.8rem', fontWeight: '600', flexShrink: 0 }}
+                            >
+                                <RotateCcw size={14} /> Revert
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -1,5 +1,25 @@
 import { useState, useEffect, useRef } from 'react'
-import { supabase } from '../lib/supabase'
+import {
+    listTasks,
+    listStatuses,
+    moveTask,
+    sortStatusesAcrossDepartments,
+    isClosedStatus,
+    isNotStartedStatus,
+    getTimeLoggedByTask,
+    listCustomFields,
+    listProfiles,
+    customFieldValues,
+    formatCustomFieldValue,
+    isEmptyCustomFieldValue,
+    type CustomFieldDefinition,
+    type CustomFieldFilter,
+    type CustomFieldValues,
+    type ProfileRow,
+    type SavedViewState,
+    type TaskListItem,
+    type TaskStatusRow
+} from '../data'
 import {
     LayoutGrid,
     List,
@@ -8,64 +28,57 @@ import {
     Calendar,
     ArrowUpDown,
     ArrowUp,
-    ArrowDown
+    ArrowDown,
+    SlidersHorizontal
 } from 'lucide-react'
 import { DragDropContext, type DropResult } from '@hello-pangea/dnd'
 import KanbanColumn from './KanbanColumn'
-
-interface Task {
-    id: string
-    title: string
-    description?: string
-    status_id: string
-    department_id: string
-    priority: 'low' | 'medium' | 'high'
-    due_date?: string
-    assigned_to?: string
-    assignee?: {
-        full_name: string
-        avatar_url?: string
-    }
-    assignees?: {
-        id: string
-        full_name: string
-        avatar_url?: string
-    }[]
-    status?: {
-        label: string
-        color: string
-    }
-    department?: {
-        name: string
-        workspace?: {
-            client?: {
-                name: string
-            }
-        }
-    }
-    subtasks_content?: string
-    time_logged?: number
+import CustomFieldInput from './CustomFieldInput'
+import BulkActionBar from './BulkActionBar'
+import SavedViewsMenu from './SavedViewsMenu'
+import { useRowSelection } from '../lib/useRowSelection'
+import { TASK_GROUPINGS, groupTasks } from '../lib/taskGroups'
+import { confirmWipLimit } from '../lib/wipLimits'
+import { confirmWorkflowMove } from '../lib/workflows'
+import { rankMove, sortByRank } from '../lib/rank'
+import { useViewUrl } from '../lib/viewUrl'
+import { taskMoveCommand } from '../lib/undo'
+import { useUndo } from '../contexts/UndoContext'
+
+type TrackedTask = TaskListItem & {
+    time_logged: number
 }
 
+const NO_FILTERS: CustomFieldValues = {}
 
-
-interface TaskStatus {
-    id: string
-    label: string
-    color: string
-}
+const TRACKER_GROUPINGS = TASK_GROUPINGS.filter(g => g.key !== 'content_type')
 
 interface TasksTrackerProps {
     clientId?: string | null
+    // A saved or bookmarked view to start from
+    initialView?: SavedViewState | null
+    savedViewId?: string | null
+    onSavedViewsChange?: () => void
 }
 
-export default function TasksTracker({ clientId }: TasksTrackerProps) {
-    const [viewMode, setViewMode] = useState<'list' | 'board'>('list')
-    const [tasks, setTasks] = useState<Task[]>([])
-    const [taskStatuses, setTaskStatuses] = useState<TaskStatus[]>([])
+export default function TasksTracker({ clientId, initialView, savedViewId = null, onSavedViewsChange }: TasksTrackerProps) {
+    const [viewMode, setViewMode] = useState<'list' | 'board'>(initialView?.viewMode === 'board' ? 'board' : 'list')
+    const [tasks, setTasks] = useState<TrackedTask[]>([])
+    const [taskStatuses, setTaskStatuses] = useState<TaskStatusRow[]>([])
     const [loading, setLoading] = useState(true)
-    const [searchTerm, setSearchTerm] = useState('')
-    const [prioritySort, setPrioritySort] = useState<'asc' | 'desc' | null>(null)
+    const [searchTerm, setSearchTerm] = useState(initialView?.search || '')
+    const [prioritySort, setPrioritySort] = useState<'asc' | 'desc' | null>(initialView?.sort?.key === 'priority' ? initialView.sort.direction : null)
+    const [groupBy, setGroupBy] = useState<string | null>(initialView?.groupBy ?? null)
+    const { record } = useUndo()
+
+    // Custom Fields: optional columns and filters
+    const [fields, setFields] = useState<CustomFieldDefinition[]>([])
+    const [people, setPeople] = useState<ProfileRow[]>([])
+    const [visibleFieldIds, setVisibleFieldIds] = useState<string[]>(initialView?.columns || [])
+    const [fieldFilters, setFieldFilters] = useState<CustomFieldValues>(initialView?.filters || NO_FILTERS)
+    const [appliedFilters, setAppliedFilters] = useState<CustomFieldValues>(initialView?.filters || NO_FILTERS)
+    const [isFieldsMenuOpen, setIsFieldsMenuOpen] = useState(false)
+    const fieldsMenuRef = useRef<HTMLDivElement>(null)
 
     // Pagination State
     const [page, setPage] = useState(1)
@@ -79,109 +92,58 @@ export default function TasksTracker({ clientId }: TasksTrackerProps) {
 
     useEffect(() => {
         fetchTasks()
-    }, [page])
+    }, [page, appliedFilters])
 
-    const fetchTasks = async () => {
-        setLoading(true)
-        try {
-            // Fetch Statuses
-            const { data: statusData } = await supabase
-                .from('task_statuses')
-                .select('*')
-                .order('position', { ascending: true })
-
-            if (statusData) {
-                // Deduplicate statuses by label
-                const uniqueStatuses = statusData.reduce((acc: any[], current) => {
-                    const x = acc.find(item => item.label === current.label);
-                    if (!x) {
-                        return acc.concat([current]);
-                    } else {
-                        return acc;
-                    }
-                }, []);
-                setTaskStatuses(uniqueStatuses)
-            }
+    useEffect(() => {
+        Promise.all([listCustomFields({ clientId }), listProfiles()])
+            .then(([fieldData, profileData]) => {
+                setFields(fieldData)
+                setPeople(profileData)
+            })
+            .catch(error => console.error('Error loading custom fields:', error))
+    }, [clientId])
 
-            let query = supabase
-                .from('tasks')
-                .select(`
-                    id,
-                    title,
-                    description,
-                    subtasks_content,
-                    priority,
-                    due_date,
-                    status_id,
-                    department_id,
-                    status:task_statuses(label, color),
-                    assignee:profiles!tasks_assigned_to_fkey(id, full_name, avatar_url),
-                    assignments:task_assignments(
-                        user:profiles(id, full_name, avatar_url)
-                    ),
-                    department:departments!inner(
-                        name,
-                        workspace:workspaces!inner(
-                            client:clients!inner(name)
-                        )
-                    )
-                `, { count: 'exact' })
-                .order('created_at', { ascending: false })
-
-            if (clientId) {
-                // @ts-ignore
-                query = query.eq('department.workspace.client_id', clientId)
+    // Filters are sent to the server once typing pauses
+    useEffect(() => {
+        if (fieldFilters === appliedFilters) return
+        const timeout = setTimeout(() => {
+            setAppliedFilters(fieldFilters)
+            setPage(1)
+        }, 300)
+        return () => clearTimeout(timeout)
+    }, [fieldFilters, appliedFilters])
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (fieldsMenuRef.current && !fieldsMenuRef.current.contains(event.target as Node)) {
+                setIsFieldsMenuOpen(false)
             }
+        }
+        document.addEventListener('mousedown', handleClickOutside)
+        return () => document.removeEventListener('mousedown', handleClickOutside)
+    }, [])
 
-            query = query.range((page - 1) * ITEMS_PER_PAGE, page * ITEMS_PER_PAGE - 1)
+    const fetchTasks = async () => {
+        setLoading(true)
+        try {
+            const customFieldFilters: CustomFieldFilter[] = fields
+                .filter(field => !isEmptyCustomFieldValue(appliedFilters[field.id]))
+                .map(field => ({ field, value: appliedFilters[field.id] }))
 
-            const { data, error, count } = await query
+            const { tasks: data, count } = await listTasks({ clientId, customFieldFilters, page, pageSize: ITEMS_PER_PAGE })
+            setTotalCount(count)
 
-            if (error) throw error
-            setTotalCount(count || 0)
+            // The columns of the departments on this page, each kept apart
+            const departmentIds = [...new Set(data.map(t => t.department_id))]
+            setTaskStatuses(sortStatusesAcrossDepartments(await listStatuses({ departmentIds })))
 
             // Fetch Time Logs
-            const { data: logsData } = await supabase
-                .from('subtask_time_logs')
-                .select('task_id, duration_seconds, end_time, start_time')
-                .in('task_id', data.map(t => t.id))
-
-            const timeLogSummary: Record<string, number> = {}
-            if (logsData) {
-                logsData.forEach(log => {
-                    let duration = log.duration_seconds || 0
-                    if (!duration && log.end_time && log.start_time) {
-                        duration = (new Date(log.end_time).getTime() - new Date(log.start_time).getTime()) / 1000
-                    }
-                    timeLogSummary[log.task_id] = (timeLogSummary[log.task_id] || 0) + duration
-                })
-            }
-
-            const formattedTasks = data.map((t: any) => {
-                // Merge legacy assignee with new assignments
-                const assigneesMap = new Map()
-
-                if (t.assignee) {
-                    assigneesMap.set(t.assignee.id, t.assignee)
-                }
-
-                if (t.assignments) {
-                    t.assignments.forEach((a: any) => {
-                        if (a.user) assigneesMap.set(a.user.id, a.user)
-                    })
-                }
-
-                return {
-                    ...t,
-                    assignee: t.assignee, // Legacy Profile object
-                    assignees: Array.from(assigneesMap.values()),
-                    client_name: t.department?.workspace?.client?.name,
-                    dept_name: t.department?.name,
-                    time_logged: timeLogSummary[t.id] || 0
-                }
-            })
+            const timeLogSummary = await getTimeLoggedByTask(data.map(t => t.id))
 
-            setTasks(formattedTasks)
+            setTasks(data.map(t => ({
+                ...t,
+                time_logged: timeLogSummary[t.id] || 0
+            })))
         } catch (error) {
             console.error('Error fetching tasks:', error)
         } finally {
@@ -189,6 +151,18 @@ export default function TasksTracker({ clientId }: TasksTrackerProps) {
         }
     }
 
+    const toggleFieldColumn = (fieldId: string) => {
+        setVisibleFieldIds(prev =>
+            prev.includes(fieldId)
+                ? prev.filter(id => id !== fieldId)
+                : [...prev, fieldId]
+        )
+    }
+
+    const visibleFields = fields.filter(f => visibleFieldIds.includes(f.id))
+    const activeFilterCount = fields.filter(f => !isEmptyCustomFieldValue(fieldFilters[f.id])).length
+    const gridTemplateColumns = `32px minmax(300px, 2fr) 150px 150px 150px 150px 100px${' 150px'.repeat(visibleFields.length)}`
+
     const togglePrioritySort = () => {
         setPrioritySort(current => {
             if (current === null) return 'desc' // Default to High -> Low first
@@ -197,9 +171,11 @@ export default function TasksTracker({ clientId }: TasksTrackerProps) {
         })
     }
 
+    const spansDepartments = new Set(taskStatuses.map(s => s.department_id)).size > 1
+
     const filteredTasks = tasks.filter(task =>
         task.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        task.department?.workspace?.client?.name.toLowerCase().includes(searchTerm.toLowerCase())
+        task.client?.name.toLowerCase().includes(searchTerm.toLowerCase())
     ).sort((a, b) => {
         if (!prioritySort) return 0
 
@@ -214,6 +190,21 @@ export default function TasksTracker({ clientId }: TasksTrackerProps) {
         }
     })
 
+    // Groups keep the sort; selection ranges follow the grouped order
+    const taskGroups = groupTasks(filteredTasks, groupBy)
+    const selection = useRowSelection(taskGroups.flatMap(g => g.tasks.map(t => t.id)))
+    const selectedTasks = filteredTasks.filter(t => selection.isSelected(t.id))
+
+    const viewState: SavedViewState = {
+        viewMode,
+        search: searchTerm,
+        filters: appliedFilters,
+        sort: prioritySort ? { key: 'priority', direction: prioritySort } : null,
+        groupBy,
+        columns: visibleFieldIds
+    }
+    useViewUrl({ view: 'tasks-tracker', clientId, savedViewId, state: viewState })
+
     const calculateProgress = (subtasksContent: string | undefined): number => {
         if (!subtasksContent) return 0
         const parser = new DOMParser()
@@ -250,28 +241,42 @@ export default function TasksTracker({ clientId }: TasksTrackerProps) {
 
         if (!newStatus) return
 
-        // Optimistic update
+        const movedTask = tasks.find(t => t.id === draggableId)
+        if (movedTask && newStatus.department_id !== movedTask.department_id) {
+            alert(`"${movedTask.title}" belongs to ${movedTask.department?.name || 'another department'}; move it between that department's columns.`)
+            return
+        }
+
+        if (destination.droppableId !== source.droppableId) {
+            if (!await confirmWorkflowMove(draggableId, newStatus.id)) return
+            if (!await confirmWipLimit(newStatus)) return
+        }
+
         const taskIndex = tasks.findIndex(t => t.id === draggableId)
         if (taskIndex === -1) return
 
-        const updatedTasks = [...tasks]
+        // Place the card among the ones shown in the column
+        const column = sortByRank(filteredTasks.filter(t => t.status_id === newStatus.id))
+        const ranks = rankMove(column, draggableId, destination.index)
+
+        // Optimistic update
+        const updatedTasks = tasks.map(t => ({ ...t, rank: ranks.find(r => r.id === t.id)?.rank ?? t.rank }))
         updatedTasks[taskIndex] = {
             ...updatedTasks[taskIndex],
             status_id: targetStatusId,
             status: {
+                id: newStatus.id,
                 label: newStatus.label,
-                color: newStatus.color
+                color: newStatus.color,
+                category: newStatus.category
             }
         }
         setTasks(updatedTasks)
 
         try {
-            const { error } = await supabase
-                .from('tasks')
-                .update({ status_id: targetStatusId })
-                .eq('id', draggableId)
-
-            if (error) throw error
+            await moveTask(draggableId, targetStatusId, ranks)
+            const command = taskMoveCommand(tasks[taskIndex], newStatus, ranks, fetchTasks)
+            if (command) record(command)
         } catch (error) {
             // Only reload if this was the latest request (prevents stale responses from causing issues)
             if (pendingDragUpdateRef.current === requestId) {
@@ -310,6 +315,111 @@ export default function TasksTracker({ clientId }: TasksTrackerProps) {
                             }}
                         />
                     </div>
+                    <select
+                        value={groupBy || ''}
+                        onChange={e => setGroupBy(e.target.value || null)}
+                        title="Group list by"
+                        style={{
+                            padding: '0 0.75rem',
+                            borderRadius: '8px',
+                            border: groupBy ? '1px solid var(--accent-color)' : '1px solid var(--border-color)',
+                            background: 'var(--bg-secondary)',
+                            color: groupBy ? 'var(--accent-color)' : 'var(--text-secondary)',
+                            fontSize: '0.875rem',
+                            cursor: 'pointer'
+                        }}
+                    >
+                        <option value="">No grouping</option>
+                        {TRACKER_GROUPINGS.map(g => <option key={g.key} value={g.key}>Group by {g.label}</option>)}
+                    </select>
+                    {fields.length > 0 && (
+                        <div ref={fieldsMenuRef} style={{ position: 'relative' }}>
+                            <button
+                                onClick={() => setIsFieldsMenuOpen(open => !open)}
+                                style={{
+                                    height: '100%',
+                                    padding: '0 0.875rem',
+                                    borderRadius: '8px',
+                                    border: activeFilterCount > 0 ? '1px solid var(--accent-color)' : '1px solid var(--border-color)',
+                                    background: 'var(--bg-secondary)',
+                                    color: activeFilterCount > 0 ? 'var(--accent-color)' : 'var(--text-secondary)',
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    gap: '0.5rem',
+                                    cursor: 'pointer',
+                                    fontSize: '0.875rem'
+                                }}
+                            >
+                                <SlidersHorizontal size={16} />
+                                Fields{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+                            </button>
+                            {isFieldsMenuOpen && (
+                                <div style={{
+                                    position: 'absolute',
+                                    top: 'calc(100% + 0.5rem)',
+                                    right: 0,
+                                    width: '340px',
+                                    maxHeight: '420px',
+                                    overflowY: 'auto',
+                                    background: 'var(--bg-secondary)',
+                                    border: '1px solid var(--border-color)',
+                                    borderRadius: '12px',
+                                    boxShadow: '0 10px 25px rgba(0, 0, 0, 0.15)',
+                                    padding: '0.75rem',
+                                    zIndex: 50,
+                                    display: 'flex',
+                                    flexDirection: 'column',
+                                    gap: '0.75rem'
+                                }}>
+                                    {fields.map(field => (
+                                        <div key={field.id} style={{ display: 'flex', flexDirection: 'column', gap: '0.35rem' }}>
+                                            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8rem', fontWeight: '600', color: 'var(--text-primary)', cursor: 'pointer' }}>
+                                                <input
+                                                    type="checkbox"
+                                                    checked={visibleFieldIds.includes(field.id)}
+                                                    onChange={() => toggleFieldColumn(field.id)}
+                                                    style={{ accentColor: 'var(--accent-color)' }}
+                                                />
+                                                {field.name}
+                                                <span style={{ marginLeft: 'auto', fontSize: '0.7rem', fontWeight: '400', color: 'var(--text-secondary)' }}>Show column</span>
+                                            </label>
+                                            <CustomFieldInput
+                                                field={field}
+                                                value={fieldFilters[field.id]}
+                                                onChange={value => setFieldFilters(prev => ({ ...prev, [field.id]: value }))}
+                                                people={people}
+                                                single
+                                                style={{
+                                                    width: '100%',
+                                                    padding: '0.4rem 0.6rem',
+                                                    borderRadius: '6px',
+                                                    border: '1px solid var(--border-color)',
+                                                    background: 'var(--bg-tertiary)',
+                                                    color: 'var(--text-primary)',
+                                                    fontSize: '0.8rem'
+                                                }}
+                                            />
+                                        </div>
+                                    ))}
+                                    {activeFilterCount > 0 && (
+                                        <button
+                                            onClick={() => setFieldFilters(NO_FILTERS)}
+                                            style={{ alignSelf: 'flex-end', background: 'none', border: 'none', color: 'var(--accent-color)', fontSize: '0.8rem', cursor: 'pointer' }}
+                                        >
+                                            Clear filters
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    )}
+                    <SavedViewsMenu
+                        target="tasks-tracker"
+                        state={viewState}
+                        clientId={clientId || null}
+                        activeViewId={savedViewId}
+                        onChange={onSavedViewsChange}
+                    />
                     {/* View Toggle - simplified for now */}
                     <div style={{ display: 'flex', background: 'var(--bg-tertiary)', padding: '4px', borderRadius: '8px', border: '1px solid var(--border-color)' }}>
                         <button
@@ -358,7 +468,7 @@ export default function TasksTracker({ clientId }: TasksTrackerProps) {
                     {/* Header */}
                     <div style={{
                         display: 'grid',
-                        gridTemplateColumns: 'minmax(300px, 2fr) 150px 150px 150px 150px 100px',
+                        gridTemplateColumns,
                         padding: '1rem 1.5rem',
                         borderBottom: '1px solid var(--border-color)',
                         background: 'var(--bg-tertiary)',
@@ -368,6 +478,15 @@ export default function TasksTracker({ clientId }: TasksTrackerProps) {
                         textTransform: 'uppercase',
                         letterSpacing: '0.05em'
                     }}>
+                        <div>
+                            <input
+                                type="checkbox"
+                                checked={filteredTasks.length > 0 && selectedTasks.length === filteredTasks.length}
+                                onChange={selection.toggleAll}
+                                title="Select all"
+                                style={{ accentColor: 'var(--accent-color)', cursor: 'pointer' }}
+                            />
+                        </div>
                         <div>Task</div>
                         <div>Client / Dept</div>
                         <div>Assignee</div>
@@ -382,6 +501,9 @@ export default function TasksTracker({ clientId }: TasksTrackerProps) {
                             {prioritySort === 'desc' && <ArrowDown size={14} />}
                             {prioritySort === null && <ArrowUpDown size={14} style={{ opacity: 0.5 }} />}
                         </div>
+                        {visibleFields.map(field => (
+                            <div key={field.id} style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{field.name}</div>
+                        ))}
                     </div>
 
                     {/* Body */}
@@ -390,142 +512,200 @@ export default function TasksTracker({ clientId }: TasksTrackerProps) {
                             <div style={{ padding: '3rem', textAlign: 'center', color: 'var(--text-secondary)' }}>Loading tasks...</div>
                         ) : filteredTasks.length === 0 ? (
                             <div style={{ padding: '3rem', textAlign: 'center', color: 'var(--text-secondary)' }}>No tasks found.</div>
-                        ) : (
-                            filteredTasks.map(task => (
-                                <div key={task.id} style={{
-                                    display: 'grid',
-                                    gridTemplateColumns: 'minmax(300px, 2fr) 150px 150px 150px 150px 100px',
-                                    padding: '1rem 1.5rem',
-                                    borderBottom: '1px solid var(--border-color)',
-                                    alignItems: 'center',
-                                    transition: 'background 0.2s',
-                                    cursor: 'pointer',
-                                    background: 'var(--bg-secondary)'
-                                }}
-                                    onMouseEnter={(e) => e.currentTarget.style.background = 'var(--bg-tertiary)'}
-                                    onMouseLeave={(e) => e.currentTarget.style.background = 'var(--bg-secondary)'}
-                                >
-                                    {/* Task Title & Desc */}
-                                    <div>
-                                        <div style={{ fontWeight: '600', color: 'var(--text-primary)', marginBottom: '0.25rem' }}>{task.title}</div>
-                                        <div style={{ fontSize: '0.875rem', color: 'var(--text-secondary)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
-                                            {task.description ? task.description.replace(/<[^>]*>?/gm, '') : 'No description'}
+                        ) : taskGroups.map(group => (
+                            <div key={group.key}>
+                                {groupBy && (
+                                    <div style={{
+                                        padding: '0.6rem 1.5rem',
+                                        borderBottom: '1px solid var(--border-color)',
+                                        background: 'var(--bg-tertiary)',
+                                        fontSize: '0.8rem',
+                                        fontWeight: '600',
+                                        color: 'var(--text-primary)',
+                                        display: 'flex',
+                                        alignItems: 'center',
+                                        gap: '0.5rem'
+                                    }}>
+                                        {group.label}
+                                        <span style={{ fontSize: '0.7rem', fontWeight: '500', color: 'var(--text-secondary)' }}>{group.tasks.length}</span>
+                                    </div>
+                                )}
+                                {group.tasks.map(task => (
+                                    <div key={task.id} style={{
+                                        display: 'grid',
+                                        gridTemplateColumns,
+                                        padding: '1rem 1.5rem',
+                                        borderBottom: '1px solid var(--border-color)',
+                                        alignItems: 'center',
+                                        transition: 'background 0.2s',
+                                        cursor: 'pointer',
+                                        background: selection.isSelected(task.id) ? 'rgba(139, 92, 246, 0.1)' : 'var(--bg-secondary)'
+                                    }}
+                                        onMouseEnter={(e) => e.currentTarget.style.background = 'var(--bg-tertiary)'}
+                                        onMouseLeave={(e) => e.currentTarget.style.background = selection.isSelected(task.id) ? 'rgba(139, 92, 246, 0.1)' : 'var(--bg-secondary)'}
+                                    >
+                                        <div>
+                                            <input
+                                                type="checkbox"
+                                                checked={selection.isSelected(task.id)}
+                                                onChange={e => selection.toggle(task.id, (e.nativeEvent as MouseEvent).shiftKey)}
+                                                onClick={e => e.stopPropagation()}
+                                                style={{ accentColor: 'var(--accent-color)', cursor: 'pointer' }}
+                                            />
                                         </div>
-                                        {task.subtasks_content && calculateProgress(task.subtasks_content) > 0 && (
-                                            <div style={{ marginTop: '0.5rem', display: 'flex', flexDirection: 'column', gap: '0.25rem', width: '90%' }}>
-                                                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
-                                                    <div style={{ flex: 1, height: '6px', background: 'var(--bg-tertiary)', borderRadius: '3px', overflow: 'hidden' }}>
-                                                        <div style={{ width: `${calculateProgress(task.subtasks_content)}%`, height: '100%', background: 'linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)', transition: 'width 0.3s' }} />
+                                        {/* Task Title & Desc */}
+                                        <div>
+                                            <div style={{ fontWeight: '600', color: 'var(--text-primary)', marginBottom: '0.25rem' }}>{task.title}</div>
+                                            <div style={{ fontSize: '0.875rem', color: 'var(--text-secondary)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                                {task.description ? task.description.replace(/<[^>]*>?/gm, '') : 'No description'}
+                                            </div>
+                                            {task.subtasks_content && calculateProgress(task.subtasks_content) > 0 && (
+                                                <div style={{ marginTop: '0.5rem', display: 'flex', flexDirection: 'column', gap: '0.25rem', width: '90%' }}>
+                                                    <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                                                        <div style={{ flex: 1, height: '6px', background: 'var(--bg-tertiary)', borderRadius: '3px', overflow: 'hidden' }}>
+                                                            <div style={{ width: `${calculateProgress(task.subtasks_content)}%`, height: '100%', background: 'linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)', transition: 'width 0.3s' }} />
+                                                        </div>
+                                                        <span style={{ fontSize: '0.65rem', fontWeight: '600', color: 'var(--accent-color)', minWidth: '25px' }}>
+                                                            {calculateProgress(task.subtasks_content)}%
+                                                        </span>
+                                                    </div>
+                                                    <div style={{ alignSelf: 'flex-end', fontSize: '0.7rem', color: 'var(--accent-color)', fontWeight: '600' }}>
+                                                        {formatDuration(task.time_logged || 0)}
                                                     </div>
-                                                    <span style={{ fontSize: '0.65rem', fontWeight: '600', color: 'var(--accent-color)', minWidth: '25px' }}>
-                                                        {calculateProgress(task.subtasks_content)}%
-                                                    </span>
-                                                </div>
-                                                <div style={{ alignSelf: 'flex-end', fontSize: '0.7rem', color: 'var(--accent-color)', fontWeight: '600' }}>
-                                                    {formatDuration(task.time_logged || 0)}
                                                 </div>
-                                            </div>
-                                        )}
-                                    </div>
+                                            )}
+                                        </div>
 
-                                    {/* Client */}
-                                    <div>
-                                        <div style={{ fontWeight: '500', fontSize: '0.875rem' }}>{task.department?.workspace?.client?.name || '-'}</div>
-                                        <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>{task.department?.name}</div>
-                                    </div>
+                                        {/* Client */}
+                                        <div>
+                                            <div style={{ fontWeight: '500', fontSize: '0.875rem' }}>{task.client?.name || '-'}</div>
+                                            <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)' }}>{task.department?.name}</div>
+                                        </div>
 
-                                    {/* Assignee */}
-                                    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
-                                        {task.assignees && task.assignees.length > 0 ? (
-                                            task.assignees.map((assignee: any) => (
-                                                <div key={assignee.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
-                                                    <div style={{
-                                                        width: '24px', height: '24px', borderRadius: '50%',
-                                                        background: 'linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)',
-                                                        display: 'flex', alignItems: 'center', justifyContent: 'center',
-                                                        fontSize: '0.75rem', fontWeight: '600', color: 'white',
-                                                        boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
-                                                    }}>
-                                                        {assignee.full_name?.[0]?.toUpperCase() || <User size={12} />}
+                                        {/* Assignee */}
+                                        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                                            {task.assignees.length > 0 ? (
+                                                task.assignees.map(assignee => (
+                                                    <div key={assignee.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                                                        <div style={{
+                                                            width: '24px', height: '24px', borderRadius: '50%',
+                                                            background: 'linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)',
+                                                            display: 'flex', alignItems: 'center', justifyContent: 'center',
+                                                            fontSize: '0.75rem', fontWeight: '600', color: 'white',
+                                                            boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
+                                                        }}>
+                                                            {assignee.full_name?.[0]?.toUpperCase() || <User size={12} />}
+                                                        </div>
+                                                        <span style={{ fontSize: '0.875rem', color: 'var(--text-primary)' }}>{assignee.full_name || assignee.email}</span>
                                                     </div>
-                                                    <span style={{ fontSize: '0.875rem', color: 'var(--text-primary)' }}>{assignee.full_name || assignee.email}</span>
+                                                ))
+                                            ) : (
+                                                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', opacity: 0.5 }}>
+                                                    <User size={14} />
+                                                    <span style={{ fontSize: '0.875rem' }}>Unassigned</span>
                                                 </div>
-                                            ))
-                                        ) : (
-                                            <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', opacity: 0.5 }}>
-                                                <User size={14} />
-                                                <span style={{ fontSize: '0.875rem' }}>Unassigned</span>
-                                            </div>
-                                        )}
-                                    </div>
+                                            )}
+                                        </div>
 
-                                    {/* Status */}
-                                    <div>
-                                        <span style={{
-                                            padding: '0.25rem 0.75rem',
-                                            borderRadius: '9999px',
-                                            fontSize: '0.75rem',
-                                            fontWeight: '600',
-                                            background: 'transparent',
-                                            border: '1px solid rgba(255,255,255,0.2)',
-                                            ...(() => {
-                                                const label = (task.status?.label || '').toLowerCase();
-                                                if (label.includes('done') || label.includes('complete')) return { color: '#4ade80', borderColor: 'rgba(74, 222, 128, 0.4)' }
-                                                if (label.includes('progress')) return { color: '#facc15', borderColor: 'rgba(250, 204, 21, 0.4)' }
-                                                return { color: '#f87171', borderColor: 'rgba(248, 113, 113, 0.4)' }
-                                            })()
-                                        }}>
-                                            {task.status?.label || 'No Status'}
-                                        </span>
-                                    </div>
+                                        {/* Status */}
+                                        <div>
+                                            <span style={{
+                                                padding: '0.25rem 0.75rem',
+                                                borderRadius: '9999px',
+                                                fontSize: '0.75rem',
+                                                fontWeight: '600',
+                                                background: 'transparent',
+                                                border: '1px solid rgba(255,255,255,0.2)',
+                                                ...(() => {
+                                                    if (isClosedStatus(task.status)) return { color: '#4ade80', borderColor: 'rgba(74, 222, 128, 0.4)' }
+                                                    if (!isNotStartedStatus(task.status)) return { color: '#facc15', borderColor: 'rgba(250, 204, 21, 0.4)' }
+                                                    return { color: '#f87171', borderColor: 'rgba(248, 113, 113, 0.4)' }
+                                                })()
+                                            }}>
+                                                {task.status?.label || 'No Status'}
+                                            </span>
+                                        </div>
 
-                                    {/* Due Date */}
-                                    <div style={{ fontSize: '0.875rem', color: (task.status?.label?.toLowerCase().includes('done') || task.status?.label?.toLowerCase().includes('complete')) ? '#4ade80' : (task.due_date && new Date(task.due_date) < new Date() ? 'var(--danger-color)' : 'var(--text-secondary)'), display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
-                                        {task.due_date ? (
-                                            <>
-                                                <Calendar size={14} />
-                                                {new Date(task.due_date).toLocaleDateString()}
-                                            </>
-                                        ) : '-'}
-                                    </div>
+                                        {/* Due Date */}
+                                        <div style={{ fontSize: '0.875rem', color: isClosedStatus(task.status) ? '#4ade80' : (task.due_date && new Date(task.due_date) < new Date() ? 'var(--danger-color)' : 'var(--text-secondary)'), display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+                                            {task.due_date ? (
+                                                <>
+                                                    <Calendar size={14} />
+                                                    {new Date(task.due_date).toLocaleDateString()}
+                                                </>
+                                            ) : '-'}
+                                        </div>
 
-                                    {/* Priority */}
-                                    <div>
-                                        <span style={{
-                                            padding: '0.2rem 0.6rem',
-                                            borderRadius: '4px',
-                                            fontSize: '0.75rem',
-                                            fontWeight: '600',
-                                            textTransform: 'capitalize',
-                                            background: 'transparent',
-                                            border: '1px solid rgba(255,255,255,0.2)',
-                                            ...(() => {
-                                                switch (task.priority) {
-                                                    case 'high': return { color: '#f87171', borderColor: 'rgba(248, 113, 113, 0.4)' } // Red
-                                                    case 'medium': return { color: '#facc15', borderColor: 'rgba(250, 204, 21, 0.4)' } // Yellow
-                                                    case 'low': return { color: '#4ade80', borderColor: 'rgba(74, 222, 128, 0.4)' } // Green
-                                                    default: return { color: '#9ca3af', borderColor: 'rgba(156, 163, 175, 0.4)' }
-                                                }
-                                            })()
-                                        }}>
-                                            {task.priority || 'Normal'}
-                                        </span>
+                                        {/* Priority */}
+                                        <div>
+                                            <span style={{
+                                                padding: '0.2rem 0.6rem',
+                                                borderRadius: '4px',
+                                                fontSize: '0.75rem',
+                                                fontWeight: '600',
+                                                textTransform: 'capitalize',
+                                                background: 'transparent',
+                                                border: '1px solid rgba(255,255,255,0.2)',
+                                                ...(() => {
+                                                    switch (task.priority) {
+                                                        case 'high': return { color: '#f87171', borderColor: 'rgba(248, 113, 113, 0.4)' } // Red
+                                                        case 'medium': return { color: '#facc15', borderColor: 'rgba(250, 204, 21, 0.4)' } // Yellow
+                                                        case 'low': return { color: '#4ade80', borderColor: 'rgba(74, 222, 128, 0.4)' } // Green
+                                                        default: return { color: '#9ca3af', borderColor: 'rgba(156, 163, 175, 0.4)' }
+                                                    }
+                                                })()
+                                            }}>
+                                                {task.priority || 'Normal'}
+                                            </span>
+                                        </div>
+
+                                        {/* Custom Fields */}
+                                        {visibleFields.map(field => {
+                                            const value = customFieldValues(task)[field.id]
+                                            return (
+                                                <div key={field.id} style={{ fontSize: '0.875rem', color: 'var(--text-secondary)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                                    {field.field_type === 'url' && typeof value === 'string' && value ? (
+                                                        <a href={value} target="_blank" rel="noreferrer" onClick={e => e.stopPropagation()} style={{ color: 'var(--accent-color)' }}>
+                                                            {value}
+                                                        </a>
+                                                    ) : formatCustomFieldValue(field, value, people) || '-'}
+                                                </div>
+                                            )
+                                        })}
                                     </div>
-                                </div>
-                            ))
-                        )}
+                                ))}
+                            </div>
+                        ))}
                     </div>
                 </div>
             )}
 
+            {viewMode === 'list' && (
+                <BulkActionBar
+                    tasks={selectedTasks}
+                    statusLabels={[...new Set(taskStatuses.map(s => s.label))]}
+                    clientId={clientId}
+                    onApplied={result => {
+                        selection.replace(result.failed.map(f => f.taskId))
+                        fetchTasks()
+                    }}
+                    onClear={() => selection.replace([])}
+                />
+            )}
+
             {/* Board View */}
             {viewMode === 'board' && (
                 <DragDropContext onDragEnd={handleDragEnd}>
                     <div style={{ flex: 1, overflowX: 'auto', overflowY: 'hidden', display: 'flex', gap: '1rem', paddingBottom: '0.5rem' }}>
                         {taskStatuses.map(status => {
-                            const columnTasks = filteredTasks.filter(t => t.status?.label === status.label)
+                            const columnTasks = sortByRank(filteredTasks.filter(t => t.status_id === status.id))
                             return (
-                                <KanbanColumn key={status.id} status={status} tasks={columnTasks} />
+                                <KanbanColumn
+                                    key={status.id}
+                                    status={status}
+                                    tasks={columnTasks}
+                                    departmentName={spansDepartments ? tasks.find(t => t.department_id === status.department_id)?.department?.name : undefined}
+                                />
                             )
                         })}
                     </div>
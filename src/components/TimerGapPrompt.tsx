@@ -0,0 +1,56 @@
+import { format, formatDistanceStrict } from 'date-fns'
+import { useTimer } from '../contexts/TimerContext'
+import Modal from './Modal'
+
+// Asks what to do with time a running timer may have counted while nobody
+// was working: idle, after its tab closed, or past midnight.
+export default function TimerGapPrompt() {
+    const { activeLog, pendingGap, busy, resolveGap } = useTimer()
+
+    if (!activeLog || !pendingGap) return null
+
+    const subtask = activeLog.subtask_name
+
+    return (
+        <Modal
+            isOpen
+            onClose={() => resolveGap('keep')}
+            title={pendingGap.trigger === 'midnight' ? 'Timer Ran Past Midnight' : 'Are You Still Working?'}
+            maxWidth="420px"
+        >
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+                <p style={{ margin: 0, color: 'var(--text-secondary)', fontSize: '0.9rem', lineHeight: 1.5 }}>
+                    {pendingGap.trigger === 'closed'
+                        ? `The timer for "${subtask}" kept running after its tab was closed at ${format(pendingGap.start, 'MMM d, HH:mm')}.`
+                        : pendingGap.trigger === 'midnight'
+                            ? `The timer for "${subtask}" has been running since before midnight.`
+                            : `You have been idle since ${format(pendingGap.start, 'HH:mm')} while timing "${subtask}".`}
+                    {' '}What should happen to the {formatDistanceStrict(pendingGap.start, new Date())} since then?
+                </p>
+                {[
+                    { choice: 'keep' as const, label: 'Keep the time', hint: 'Count it and keep the timer running.' },
+                    { choice: 'discard' as const, label: 'Discard the time', hint: 'Drop it and keep the timer running from now.' },
+                    { choice: 'trim' as const, label: `Stop at ${format(pendingGap.start, 'HH:mm')}`, hint: 'Drop it and stop the timer.' }
+                ].map(option => (
+                    <button
+                        key={option.choice}
+                        onClick={() => resolveGap(option.choice)}
+                        disabled={busy}
+                        style={{
+                            textAlign: 'left',
+                            padding: '0.75rem 1rem',
+                            borderRadius: '0.5rem',
+                            border: '1px solid var(--border-color)',
+                            background: 'var(--bg-tertiary)',
+                            color: 'var(--text-primary)',
+                            cursor: busy ? 'not-allowed' : 'pointer'
+                        }}
+                    >
+                        <div style={{ fontWeight: '600', fontSize: '0.9rem' }}>{option.label}</div>
+                        <div style={{ color: 'var(--text-secondary)', fontSize: '0.8rem' }}>{option.hint}</div>
+                    </button>
+                ))}
+            </div>
+        </Modal>
+    )
+}
@@ -0,0 +1,201 @@
+import { useEffect, useRef, useState } from 'react'
+import { ChevronDown, Clock, Play, Square } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import { useTimer } from '../contexts/TimerContext'
+import { isTimingTarget, listRecentTimers, listSubtasks, type RecentTimer, type SubtaskRow, type TimerTarget } from '../data'
+
+const formatTime = (seconds: number): string => {
+    const h = Math.floor(seconds / 3600)
+    const m = Math.floor((seconds % 3600) / 60)
+    const s = seconds % 60
+    return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`
+}
+
+// Header pill showing the running timer from any task, with stop and a
+// quick switch to another subtask.
+export default function TimerWidget() {
+    const { user } = useAuth()
+    const { activeLog, busy, start, stop, switchTo } = useTimer()
+    const [now, setNow] = useState(() => Date.now())
+    const [isOpen, setIsOpen] = useState(false)
+    const [subtasks, setSubtasks] = useState<SubtaskRow[]>([])
+    const [recent, setRecent] = useState<RecentTimer[]>([])
+    const containerRef = useRef<HTMLDivElement>(null)
+
+    useEffect(() => {
+        if (!activeLog) return
+        const interval = setInterval(() => setNow(Date.now()), 1000)
+        return () => clearInterval(interval)
+    }, [activeLog])
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+                setIsOpen(false)
+            }
+        }
+        document.addEventListener('mousedown', handleClickOutside)
+        return () => document.removeEventListener('mousedown', handleClickOutside)
+    }, [])
+
+    const handleToggle = async () => {
+        if (isOpen) {
+            setIsOpen(false)
+            return
+        }
+        setIsOpen(true)
+        if (!user) return
+        try {
+            const [taskSubtasks, recentTimers] = await Promise.all([
+                activeLog ? listSubtasks(activeLog.task_id) : Promise.resolve([]),
+                listRecentTimers(user.id)
+            ])
+            setSubtasks(taskSubtasks)
+            setRecent(recentTimers)
+        } catch (error) {
+            console.error('Error loading timer shortcuts:', error)
+        }
+    }
+
+    const handlePick = (target: TimerTarget) => {
+        setIsOpen(false)
+        if (activeLog) switchTo(target)
+        else start(target)
+    }
+
+    const subtaskTarget = (subtask: SubtaskRow): TimerTarget => ({ taskId: subtask.task_id, subtaskId: subtask.id, subtaskName: subtask.title })
+
+    const sameTask = subtasks.filter(s => !s.is_completed && activeLog && !isTimingTarget(activeLog, subtaskTarget(s)))
+    const others = recent.filter(r => !isTimingTarget(activeLog, r) && !(activeLog && r.taskId === activeLog.task_id))
+    const elapsed = activeLog ? Math.max(0, Math.floor((now - new Date(activeLog.start_time).getTime()) / 1000)) : 0
+
+    return (
+        <div ref={containerRef} style={{ position: 'relative' }}>
+            <div style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '0.5rem',
+                padding: '0.4rem 0.5rem 0.4rem 0.75rem',
+                borderRadius: '12px',
+                border: activeLog ? '1px solid var(--success-color)' : 'var(--glass-border)',
+                background: activeLog ? 'rgba(34, 197, 94, 0.1)' : 'var(--bg-tertiary)',
+                color: 'var(--text-secondary)',
+                maxWidth: '320px'
+            }}>
+                <Clock size={16} style={{ color: activeLog ? 'var(--success-color)' : undefined, flexShrink: 0 }} />
+                {activeLog ? (
+                    <>
+                        <span style={{ fontFamily: 'monospace', fontWeight: '700', color: 'var(--success-color)' }}>{formatTime(elapsed)}</span>
+                        <span
+                            title={`${activeLog.task?.title || 'Task'} · ${activeLog.subtask_name}`}
+                            style={{ fontSize: '0.8rem', color: 'var(--text-primary)', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}
+                        >
+                            {activeLog.subtask_name}
+                        </span>
+                    </>
+                ) : (
+                    <span style={{ fontSize: '0.8rem' }}>No timer</span>
+                )}
+                <button onClick={handleToggle} style={iconButtonStyle} title={activeLog ? 'Switch subtask' : 'Start a recent timer'}>
+                    <ChevronDown size={16} />
+                </button>
+                {activeLog && (
+                    <button
+                        onClick={stop}
+                        disabled={busy}
+                        style={{ ...iconButtonStyle, color: 'var(--danger-color)' }}
+                        title="Stop Timer"
+                    >
+                        <Square size={14} fill="currentColor" />
+                    </button>
+                )}
+            </div>
+
+            {isOpen && (
+                <div style={{
+                    position: 'absolute',
+                    top: 'calc(100% + 0.5rem)',
+                    right: 0,
+                    width: '300px',
+                    maxHeight: '360px',
+                    overflowY: 'auto',
+                    background: 'var(--bg-secondary)',
+                    border: '1px solid var(--border-color)',
+                    borderRadius: '12px',
+                    boxShadow: '0 10px 25px rgba(0, 0, 0, 0.15)',
+                    padding: '0.5rem',
+                    zIndex: 50
+                }}>
+                    {activeLog && (
+                        <div style={{ padding: '0.5rem', fontSize: '0.8rem', color: 'var(--text-secondary)', borderBottom: '1px solid var(--border-color)', marginBottom: '0.25rem' }}>
+                            Timing <strong style={{ color: 'var(--text-primary)' }}>{activeLog.subtask_name}</strong> on {activeLog.task?.title || 'a task'}
+                        </div>
+                    )}
+                    {sameTask.length > 0 && (
+                        <>
+                            <div style={sectionLabelStyle}>This task</div>
+                            {sameTask.map(subtask => (
+                                <button key={subtask.id} onClick={() => handlePick(subtaskTarget(subtask))} disabled={busy} style={optionStyle}>
+                                    <Play size={12} /> {subtask.title}
+                                </button>
+                            ))}
+                        </>
+                    )}
+                    {others.length > 0 && (
+                        <>
+                            <div style={sectionLabelStyle}>Recent</div>
+                            {others.map(timer => (
+                                <button key={`${timer.taskId}|${timer.subtaskId ?? timer.subtaskName}`} onClick={() => handlePick(timer)} disabled={busy} style={optionStyle}>
+                                    <Play size={12} />
+                                    <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                        {timer.subtaskName} <span style={{ color: 'var(--text-secondary)' }}>· {timer.taskTitle}</span>
+                                    </span>
+                                </button>
+                            ))}
+                        </>
+                    )}
+                    {sameTask.length === 0 && others.length === 0 && (
+                        <div style={{ padding: '1rem', textAlign: 'center', fontSize: '0.8rem', color: 'var(--text-secondary)' }}>
+                            Nothing to switch to yet.
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
+
+const iconButtonStyle: React.CSSProperties = {
+    background: 'transparent',
+    border: 'none',
+    color: 'var(--text-secondary)',
+    cursor: 'pointer',
+    display: 'flex',
+    alignItems: 'center',
+    padding: '0.2rem',
+    borderRadius: '6px'
+}
+
+const sectionLabelStyle: React.CSSProperties = {
+    padding: '0.5rem 0.5rem 0.25rem',
+    fontSize: '0.7rem',
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: '0.05em',
+    color: 'var(--text-secondary)'
+}
+
+const optionStyle: React.CSSProperties = {
+    width: '100%',
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.5rem',
+    padding: '0.5rem',
+    border: 'none',
+    borderRadius: '8px',
+    background: 'transparent',
+    color: 'var(--text-primary)',
+    fontSize: '0.85rem',
+    textAlign: 'left',
+    cursor: 'pointer'
+}
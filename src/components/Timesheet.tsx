@@ -0,0 +1,382 @@
+import { useCallback, useEffect, useState } from 'react'
+import { addWeeks, eachDayOfInterval, format, isSameDay, subDays } from 'date-fns'
+import { ChevronLeft, ChevronRight, Clock, Lock, Pencil, Plus, Scissors, Send } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import Modal from './Modal'
+import {
+    TASK_TIME_LABEL,
+    addTimesheetEntry,
+    formatHours,
+    getTimesheet,
+    getWeekPeriod,
+    listTimesheetEntries,
+    logDurationSeconds,
+    splitTimesheetEntry,
+    submitTimesheet,
+    updateTimesheetEntry,
+    type TaskRow,
+    type TimesheetEntry,
+    type TimesheetRow
+} from '../data'
+
+interface TimesheetProps {
+    // Tasks the employee can log manual time against
+    tasks: Pick<TaskRow, 'id' | 'title'>[]
+}
+
+type EditorMode = 'add' | 'edit' | 'split'
+
+interface EditorState {
+    mode: EditorMode
+    entry?: TimesheetEntry
+    taskId: string
+    subtaskName: string
+    date: string
+    startTime: string
+    endTime: string
+    splitAt: string
+    reason: string
+}
+
+const STATUS_STYLES: Record<string, { label: string; color: string; background: string }> = {
+    draft: { label: 'Draft', color: 'var(--text-secondary)', background: 'var(--bg-tertiary)' },
+    submitted: { label: 'Awaiting approval', color: '#f59e0b', background: 'rgba(245, 158, 11, 0.15)' },
+    approved: { label: 'Approved', color: '#22c55e', background: 'rgba(34, 197, 94, 0.15)' },
+    rejected: { label: 'Rejected', color: '#ef4444', background: 'rgba(239, 68, 68, 0.15)' }
+}
+
+const combine = (date: string, time: string) => new Date(`${date}T${time}`)
+
+export default function Timesheet({ tasks }: TimesheetProps) {
+    const { user } = useAuth()
+    const [weekOf, setWeekOf] = useState(new Date())
+    const [timesheet, setTimesheet] = useState<TimesheetRow | null>(null)
+    const [entries, setEntries] = useState<TimesheetEntry[]>([])
+    const [loading, setLoading] = useState(true)
+    const [editor, setEditor] = useState<EditorState | null>(null)
+    const [saving, setSaving] = useState(false)
+
+    const period = getWeekPeriod(weekOf)
+    const periodStart = period.start.getTime()
+    const days = eachDayOfInterval({ start: period.start, end: subDays(period.end, 1) })
+    const status = timesheet?.status || 'draft'
+    const isLocked = status === 'submitted' || status === 'approved'
+    const weekTotal = entries.reduce((sum, e) => sum + logDurationSeconds(e), 0)
+
+    const loadWeek = useCallback(() => {
+        if (!user) return
+        const week = getWeekPeriod(new Date(periodStart))
+        Promise.all([getTimesheet(user.id, week), listTimesheetEntries(user.id, week)])
+            .then(([sheet, weekEntries]) => {
+                setTimesheet(sheet)
+                setEntries(weekEntries)
+            })
+            .catch(error => console.error('Error loading timesheet:', error))
+            .finally(() => setLoading(false))
+    }, [user, periodStart])
+
+    useEffect(() => {
+        loadWeek()
+    }, [loadWeek])
+
+    const openEditor = (mode: EditorMode, entry?: TimesheetEntry, day?: Date) => {
+        const start = entry ? new Date(entry.start_time) : day || new Date()
+        const end = entry?.end_time ? new Date(entry.end_time) : start
+        setEditor({
+            mode,
+            entry,
+            taskId: entry?.task_id || tasks[0]?.id || '',
+            subtaskName: entry?.subtask_name || '',
+            date: format(start, 'yyyy-MM-dd'),
+            startTime: entry ? format(start, 'HH:mm') : '09:00',
+            endTime: entry ? format(end, 'HH:mm') : '10:00',
+            splitAt: format(new Date((start.getTime() + end.getTime()) / 2), 'HH:mm'),
+            reason: ''
+        })
+    }
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!user || !editor) return
+
+        setSaving(true)
+        try {
+            const input = {
+                taskId: editor.taskId,
+                subtaskName: editor.subtaskName.trim() || TASK_TIME_LABEL,
+                startTime: combine(editor.date, editor.startTime),
+                endTime: combine(editor.date, editor.endTime)
+            }
+
+            if (editor.mode === 'add') {
+                await addTimesheetEntry(user.id, input, editor.reason)
+            } else if (editor.mode === 'edit' && editor.entry) {
+                await updateTimesheetEntry(editor.entry.id, input, editor.reason)
+            } else if (editor.mode === 'split' && editor.entry) {
+                const at = combine(format(new Date(editor.entry.start_time), 'yyyy-MM-dd'), editor.splitAt)
+                await splitTimesheetEntry(editor.entry, at, editor.reason)
+            }
+
+            setEditor(null)
+            loadWeek()
+        } catch (error) {
+            console.error('Error saving time entry:', error)
+            alert((error as { message?: string }).message || 'Failed to save time entry')
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleSubmitWeek = async () => {
+        if (!user) return
+        if (entries.some(e => !e.end_time)) {
+            alert('Stop your running timer before submitting this week.')
+            return
+        }
+        if (!confirm(`Submit ${formatHours(weekTotal)} for the week of ${format(period.start, 'MMM d')}?`)) return
+
+        try {
+            await submitTimesheet(user.id, period)
+            loadWeek()
+        } catch (error) {
+            console.error('Error submitting timesheet:', error)
+            alert((error as { message?: string }).message || 'Failed to submit timesheet')
+        }
+    }
+
+    const statusStyle = STATUS_STYLES[status]
+
+    return (
+        <div style={{ background: 'var(--bg-secondary)', border: '1px solid var(--border-color)', borderRadius: '12px', overflow: 'hidden' }}>
+            {/* Header */}
+            <div style={{ padding: '1rem 1.5rem', borderBottom: '1px solid var(--border-color)', display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '1rem', flexWrap: 'wrap' }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                    <button onClick={() => setWeekOf(addWeeks(weekOf, -1))} style={iconButtonStyle} title="Previous week"><ChevronLeft size={18} /></button>
+                    <div>
+                        <div style={{ fontWeight: '700', color: 'var(--text-primary)' }}>
+                            {format(period.start, 'MMM d')} – {format(subDays(period.end, 1), 'MMM d, yyyy')}
+                        </div>
+                        <div style={{ fontSize: '0.8rem', color: 'var(--text-secondary)' }}>{formatHours(weekTotal)} logged</div>
+                    </div>
+                    <button onClick={() => setWeekOf(addWeeks(weekOf, 1))} style={iconButtonStyle} title="Next week"><ChevronRight size={18} /></button>
+                    <span style={{ padding: '0.25rem 0.75rem', borderRadius: '9999px', fontSize: '0.75rem', fontWeight: '600', color: statusStyle.color, background: statusStyle.background }}>
+                        {statusStyle.label}
+                    </span>
+                </div>
+
+                {!isLocked && (
+                    <div style={{ display: 'flex', gap: '0.5rem' }}>
+                        <button onClick={() => openEditor('add')} disabled={tasks.length === 0} style={secondaryButtonStyle}>
+                            <Plus size={16} /> Add Entry
+                        </button>
+                        <button onClick={handleSubmitWeek} disabled={entries.length === 0} style={{ ...primaryButtonStyle, opacity: entries.length === 0 ? 0.5 : 1 }}>
+                            <Send size={16} /> Submit Week
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {status === 'rejected' && timesheet?.review_note && (
+                <div style={{ padding: '0.75rem 1.5rem', background: 'rgba(239, 68, 68, 0.1)', color: '#ef4444', fontSize: '0.875rem', borderBottom: '1px solid var(--border-color)' }}>
+                    Returned for changes: {timesheet.review_note}
+                </div>
+            )}
+            {isLocked && (
+                <div style={{ padding: '0.75rem 1.5rem', background: 'var(--bg-tertiary)', color: 'var(--text-secondary)', fontSize: '0.875rem', borderBottom: '1px solid var(--border-color)', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                    <Lock size={14} />
+                    {status === 'approved'
+                        ? 'This week has been approved and can no longer be changed.'
+                        : 'This week is waiting for approval. Entries can be changed again if it is returned.'}
+                </div>
+            )}
+
+            {/* Days */}
+            {loading ? (
+                <div style={{ padding: '2rem', textAlign: 'center', color: 'var(--text-secondary)' }}>Loading timesheet...</div>
+            ) : (
+                days.map(day => {
+                    const dayEntries = entries.filter(e => isSameDay(new Date(e.start_time), day))
+                    const dayTotal = dayEntries.reduce((sum, e) => sum + logDurationSeconds(e), 0)
+
+                    return (
+                        <div key={day.toISOString()} style={{ borderBottom: '1px solid var(--border-color)' }}>
+                            <div style={{ padding: '0.6rem 1.5rem', display: 'flex', justifyContent: 'space-between', alignItems: 'center', background: 'var(--bg-tertiary)' }}>
+                                <span style={{ fontSize: '0.8rem', fontWeight: '600', color: 'var(--text-primary)' }}>{format(day, 'EEEE, MMM d')}</span>
+                                <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                                    <span style={{ fontSize: '0.8rem', color: 'var(--text-secondary)' }}>{formatHours(dayTotal)}</span>
+                                    {!isLocked && tasks.length > 0 && (
+                                        <button onClick={() => openEditor('add', undefined, day)} style={iconButtonStyle} title="Add entry"><Plus size={14} /></button>
+                                    )}
+                                </div>
+                            </div>
+                            {dayEntries.map(entry => (
+                                <div key={entry.id} style={{ padding: '0.6rem 1.5rem', display: 'flex', alignItems: 'center', gap: '1rem', fontSize: '0.875rem' }}>
+                                    <Clock size={14} style={{ color: 'var(--text-secondary)', flexShrink: 0 }} />
+                                    <div style={{ flex: 1, minWidth: 0 }}>
+                                        <div style={{ color: 'var(--text-primary)', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                                            {entry.task?.title || 'Unknown task'} <span style={{ color: 'var(--text-secondary)' }}>· {entry.subtask_name}</span>
+                                        </div>
+                                        {entry.edit_reason && (
+                                            <div style={{ fontSize: '0.75rem', color: 'var(--text-secondary)', fontStyle: 'italic' }}>
+                                                {entry.source === 'manual' ? 'Added' : 'Edited'}: {entry.edit_reason}
+                                            </div>
+                                        )}
+                                    </div>
+                                    <span style={{ color: 'var(--text-secondary)', whiteSpace: 'nowrap' }}>
+                                        {format(new Date(entry.start_time), 'HH:mm')} – {entry.end_time ? format(new Date(entry.end_time), 'HH:mm') : 'running'}
+                                    </span>
+                                    <span style={{ width: '4.5rem', textAlign: 'right', fontWeight: '600', color: 'var(--text-primary)' }}>{formatHours(logDurationSeconds(entry))}</span>
+                                    {!isLocked && entry.end_time && (
+                                        <div style={{ display: 'flex', gap: '0.25rem' }}>
+                                            <button onClick={() => openEditor('edit', entry)} style={iconButtonStyle} title="Edit entry"><Pencil size={14} /></button>
+                                            <button onClick={() => openEditor('split', entry)} style={iconButtonStyle} title="Split entry"><Scissors size={14} /></button>
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )
+                })
+            )}
+
+            <Modal
+                isOpen={!!editor}
+                onClose={() => setEditor(null)}
+                title={editor?.mode === 'split' ? 'Split Entry' : editor?.mode === 'edit' ? 'Edit Entry' : 'Add Entry'}
+            >
+                {editor && (
+                    <form onSubmit={handleSave} style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+                        {editor.mode === 'split' ? (
+                            <div>
+                                <label style={labelStyle}>Split at</label>
+                                <input
+                                    type="time"
+                                    value={editor.splitAt}
+                                    onChange={e => setEditor({ ...editor, splitAt: e.target.value })}
+                                    required
+                                    style={inputStyle}
+                                />
+                                <p style={{ fontSize: '0.75rem', color: 'var(--text-secondary)', marginTop: '0.25rem' }}>
+                                    Between {format(new Date(editor.entry!.start_time), 'HH:mm')} and {format(new Date(editor.entry!.end_time!), 'HH:mm')}
+                                </p>
+                            </div>
+                        ) : (
+                            <>
+                                <div>
+                                    <label style={labelStyle}>Task</label>
+                                    <select value={editor.taskId} onChange={e => setEditor({ ...editor, taskId: e.target.value })} required style={inputStyle}>
+                                        {editor.entry && !tasks.some(t => t.id === editor.entry!.task_id) && (
+                                            <option value={editor.entry.task_id}>{editor.entry.task?.title || 'Current task'}</option>
+                                        )}
+                                        {tasks.map(t => <option key={t.id} value={t.id}>{t.title}</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label style={labelStyle}>Subtask / Activity</label>
+                                    <input
+                                        type="text"
+                                        value={editor.subtaskName}
+                                        onChange={e => setEditor({ ...editor, subtaskName: e.target.value })}
+                                        placeholder="General"
+                                        style={inputStyle}
+                                    />
+                                </div>
+                                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '0.75rem' }}>
+                                    <div>
+                                        <label style={labelStyle}>Date</label>
+                                        <input type="date" value={editor.date} onChange={e => setEditor({ ...editor, date: e.target.value })} required style={inputStyle} />
+                                    </div>
+                                    <div>
+                                        <label style={labelStyle}>Start</label>
+                                        <input type="time" value={editor.startTime} onChange={e => setEditor({ ...editor, startTime: e.target.value })} required style={inputStyle} />
+                                    </div>
+                                    <div>
+                                        <label style={labelStyle}>End</label>
+                                        <input type="time" value={editor.endTime} onChange={e => setEditor({ ...editor, endTime: e.target.value })} required style={inputStyle} />
+                                    </div>
+                                </div>
+                            </>
+                        )}
+                        <div>
+                            <label style={labelStyle}>Reason</label>
+                            <input
+                                type="text"
+                                value={editor.reason}
+                                onChange={e => setEditor({ ...editor, reason: e.target.value })}
+                                placeholder={editor.mode === 'add' ? 'e.g. Forgot to start the timer' : 'e.g. Timer left running over lunch'}
+                                required
+                                style={inputStyle}
+                            />
+                        </div>
+                        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '0.75rem' }}>
+                            <button type="button" onClick={() => setEditor(null)} style={secondaryButtonStyle}>Cancel</button>
+                            <button type="submit" disabled={saving} style={{ ...primaryButtonStyle, opacity: saving ? 0.7 : 1 }}>
+                                {saving ? 'Saving...' : 'Save'}
+                            </button>
+                        </div>
+                    </form>
+                )}
+            </Modal>
+        </div>
+    )
+}
+
+const labelStyle: React.CSSProperties = {
+    display: 'block',
+    fontSize: '0.75rem',
+    fontWeight: '700',
+    color: 'var(--text-secondary)',
+    marginBottom: '0.4rem',
+    textTransform: 'uppercase',
+    letterSpacing: '0.05em'
+}
+
+const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '0.6rem 0.75rem',
+    borderRadius: '6px',
+    border: '1px solid var(--border-color)',
+    background: 'var(--bg-tertiary)',
+    color: 'var(--text-primary)',
+    fontSize: '0.875rem',
+    outline: 'none'
+}
+
+const iconButtonStyle: React.CSSProperties = {
+    padding: '0.3rem',
+    border: 'none',
+    background: 'transparent',
+    color: 'var(--text-secondary)',
+    cursor: 'pointer',
+    display: 'flex',
+    alignItems: 'center',
+    borderRadius: '4px'
+}
+
+const secondaryButtonStyle: React.CSSProperties = {
+    padding: '0.5rem 1rem',
+    borderRadius: '0.5rem',
+    border: '1px solid var(--border-color)',
+    background: 'var(--bg-tertiary)',
+    color: 'var(--text-primary)',
+    cursor: 'pointer',
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.4rem',
+    fontWeight: '600',
+    fontSize: '0.875rem'
+}
+
+const primaryButtonStyle: React.CSSProperties = {
+    padding: '0.5rem 1rem',
+    borderRadius: '0.5rem',
+    border: 'none',
+    background: 'linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)',
+    color: 'white',
+    cursor: 'pointer',
+    display: 'flex',
+    alignItems: 'center',
+    gap: '0.4rem',
+    fontWeight: '600',
+    fontSize: '0.875rem'
+}
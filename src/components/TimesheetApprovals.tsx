@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useState } from 'react'
+import { format, subDays } from 'date-fns'
+import { Check, ChevronDown, ChevronRight, ClipboardCheck, X } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import { usePermission } from '../contexts/PermissionsContext'
+import {
+    formatHours,
+    listTimesheetEntries,
+    listTimesheets,
+    logDurationSeconds,
+    reviewTimesheet,
+    type TimesheetEntry,
+    type TimesheetListItem,
+    type TimesheetStatus
+} from '../data'
+
+const FILTERS: { id: TimesheetStatus; label: string }[] = [
+    { id: 'submitted', label: 'Awaiting Approval' },
+    { id: 'approved', label: 'Approved' },
+    { id: 'rejected', label: 'Returned' }
+]
+
+export default function TimesheetApprovals() {
+    const { user } = useAuth()
+    const canApprove = usePermission('timesheet.approve')
+    const [filter, setFilter] = useState<TimesheetStatus>('submitted')
+    const [timesheets, setTimesheets] = useState<TimesheetListItem[]>([])
+    const [loading, setLoading] = useState(true)
+    const [expandedId, setExpandedId] = useState<string | null>(null)
+    const [entries, setEntries] = useState<Record<string, TimesheetEntry[]>>({})
+
+    const loadTimesheets = useCallback(() => {
+        listTimesheets({ status: filter })
+            .then(setTimesheets)
+            .catch(error => console.error('Error loading timesheets:', error))
+            .finally(() => setLoading(false))
+    }, [filter])
+
+    useEffect(() => {
+        loadTimesheets()
+    }, [loadTimesheets])
+
+    const handleExpand = async (timesheet: TimesheetListItem) => {
+        if (expandedId === timesheet.id) {
+            setExpandedId(null)
+            return
+        }
+        setExpandedId(timesheet.id)
+        if (entries[timesheet.id]) return
+
+        try {
+            const weekEntries = await listTimesheetEntries(timesheet.user_id, {
+                start: new Date(timesheet.period_start),
+                end: new Date(timesheet.period_end)
+            })
+            setEntries(prev => ({ ...prev, [timesheet.id]: weekEntries }))
+        } catch (error) {
+            console.error('Error loading timesheet entries:', error)
+        }
+    }
+
+    const handleReview = async (timesheet: TimesheetListItem, decision: 'approved' | 'rejected') => {
+        let note: string | undefined
+        if (decision === 'rejected') {
+            const input = window.prompt('What needs to change before this week can be approved?')
+            if (input === null) return
+            note = input
+        } else if (!confirm(`Approve ${timesheet.user?.full_name || 'this employee'}'s timesheet? Approved weeks can no longer be edited.`)) {
+            return
+        }
+
+        try {
+            await reviewTimesheet(timesheet.id, decision, note)
+            setTimesheets(prev => prev.filter(t => t.id !== timesheet.id))
+        } catch (error) {
+            console.error('Error reviewing timesheet:', error)
+            alert((error as { message?: string }).message || 'Failed to review timesheet')
+        }
+    }
+
+    return (
+        <div style={{ padding: '2rem' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1.5rem', flexWrap: 'wrap', gap: '1rem' }}>
+                <div>
+                    <h2 style={{ fontSize: '1.5rem', fontWeight: '700', margin: 0, display: 'flex', alignItems: 'center', gap: '0.5rem' }} className="text-gradient">
+                        <ClipboardCheck size={24} /> Timesheets
+                    </h2>
+                    <p style={{ color: 'var(--text-secondary)', margin: '0.25rem 0 0' }}>Review the weeks your team has submitted.</p>
+                </div>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    {FILTERS.map(f => (
+                        <button
+                            key={f.id}
+                            onClick={() => {
+                                setLoading(true)
+                                setExpandedId(null)
+                                setFilter(f.id)
+                            }}
+                            style={{
+                                padding: '0.5rem 1rem',
+                                borderRadius: '0.5rem',
+                                border: filter === f.id ? 'none' : '1px solid var(--border-color)',
+                                background: filter === f.id ? 'linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)' : 'var(--bg-tertiary)',
+                                color: filter === f.id ? 'white' : 'var(--text-secondary)',
+                                fontWeight: '600',
+                                fontSize: '0.85rem',
+                                cursor: 'pointer'
+                            }}
+                        >
+                            {f.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div style={{ background: 'var(--bg-secondary)', border: '1px solid var(--border-color)', borderRadius: '12px', overflow: 'hidden' }}>
+                {loading ? (
+                    <div style={{ padding: '2rem', textAlign: 'center', color: 'var(--text-secondary)' }}>Loading timesheets...</div>
+                ) : timesheets.length === 0 ? (
+                    <div style={{ padding: '3rem', textAlign: 'center', color: 'var(--text-secondary)' }}>No timesheets here.</div>
+                ) : (
+                    timesheets.map(timesheet => {
+                        const isExpanded = expandedId === timesheet.id
+                        const weekEntries = entries[timesheet.id]
+                        const total = weekEntries?.reduce((sum, e) => sum + logDurationSeconds(e), 0)
+
+                        return (
+                            <div key={timesheet.id} style={{ borderBottom: '1px solid var(--border-color)' }}>
+                                <div
+                                    onClick={() => handleExpand(timesheet)}
+                                    style={{ padding: '1rem 1.5rem', display: 'flex', alignItems: 'center', gap: '1rem', cursor: 'pointer' }}
+                                >
+                                    {isExpanded ? <ChevronDown size={18} /> : <ChevronRight size={18} />}
+                                    <div style={{ flex: 1 }}>
+                                        <div style={{ fontWeight: '600', color: 'var(--text-primary)' }}>{timesheet.user?.full_name || timesheet.user?.email || 'Unknown'}</div>
+                                        <div style={{ fontSize: '0.8rem', color: 'var(--text-secondary)' }}>
+                                            {format(new Date(timesheet.period_start), 'MMM d')} – {format(subDays(new Date(timesheet.period_end), 1), 'MMM d, yyyy')}
+                                            {timesheet.submitted_at && ` · submitted ${format(new Date(timesheet.submitted_at), 'MMM d, HH:mm')}`}
+                                        </div>
+                                        {timesheet.review_note && (
+                                            <div style={{ fontSize: '0.8rem', color: 'var(--text-secondary)', fontStyle: 'italic' }}>{timesheet.review_note}</div>
+                                        )}
+                                    </div>
+                                    {total !== undefined && (
+                                        <span style={{ fontWeight: '600', color: 'var(--text-primary)' }}>{formatHours(total)}</span>
+                                    )}
+                                    {canApprove && timesheet.status === 'submitted' && timesheet.user_id !== user?.id && (
+                                        <div style={{ display: 'flex', gap: '0.5rem' }} onClick={e => e.stopPropagation()}>
+                                            <button
+                                                onClick={() => handleReview(timesheet, 'rejected')}
+                                                style={{ padding: '0.4rem 0.8rem', borderRadius: '0.5rem', border: '1px solid rgba(239,68,68,0.3)', background: 'transparent', color: '#ef4444', cursor: 'pointer', display: 'flex', alignItems: 'center', gap: '0.25rem', fontWeight: '600', fontSize: '0.8rem' }}
+                                            >
+                                                <X size={14} /> Return
+                                            </button>
+                                            <button
+                                                onClick={() => handleReview(timesheet, 'approved')}
+                                                style={{ padding: '0.4rem 0.8rem', borderRadius: '0.5rem', border: 'none', background: '#22c55e', color: 'white', cursor: 'pointer', display: 'flex', alignItems: 'center', gap: '0.25rem', fontWeight: '600', fontSize: '0.8rem' }}
+                                            >
+                                                <Check size={14} /> Approve
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+
+                                {isExpanded && (
+                                    <div style={{ padding: '0 1.5rem 1rem 3.5rem' }}>
+                                        {!weekEntries ? (
+                                            <div style={{ color: 'var(--text-secondary)', fontSize: '0.85rem' }}>Loading entries...</div>
+                                        ) : weekEntries.length === 0 ? (
+                                            <div style={{ color: 'var(--text-secondary)', fontSize: '0.85rem' }}>No time logged this week.</div>
+                                        ) : (
+                                            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.85rem' }}>
+                                                <tbody>
+                                                    {weekEntries.map(entry => (
+                                                        <tr key={entry.id} style={{ borderTop: '1px solid var(--border-color)' }}>
+                                                            <td style={{ padding: '0.5rem 0', color: 'var(--text-secondary)', whiteSpace: 'nowrap' }}>{format(new Date(entry.start_time), 'EEE d, HH:mm')}</td>
+                                                            <td style={{ padding: '0.5rem 1rem', color: 'var(--text-primary)' }}>
+                                                                {entry.task?.title || 'Unknown task'} <span style={{ color: 'var(--text-secondary)' }}>· {entry.subtask_name}</span>
+                                                                {entry.edit_reason && (
+                                                                    <div style={{ fontSize: '0.75rem', color: '#f59e0b' }}>
+                                                                        {entry.source === 'manual' ? 'Manual entry' : 'Edited'}: {entry.edit_reason}
+                                                                    </div>
+                                                                )}
+                                                            </td>
+                                                            <td style={{ padding: '0.5rem 0', textAlign: 'right', fontWeight: '600', color: 'var(--text-primary)' }}>{formatHours(logDurationSeconds(entry))}</td>
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        )
+                    })
+                )}
+            </div>
+        </div>
+    )
+}
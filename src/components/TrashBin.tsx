@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react'
+import { differenceInCalendarDays, formatDistanceToNow } from 'date-fns'
+import { RotateCcw, Trash2 } from 'lucide-react'
+import {
+    TRASH_ENTITIES,
+    TRASH_RETENTION_DAYS,
+    formatDeletionSummary,
+    listTrash,
+    purgeDeletion,
+    restoreDeletion,
+    type TrashEntity,
+    type TrashItem
+} from '../data'
+
+// Deleted clients, departments, tasks, employees and activity entries the
+// current user may restore. Which ones that is comes from the database: an
+// admin sees everything, others what they deleted or what was deleted from
+// the clients they coordinate.
+export default function TrashBin() {
+    const [items, setItems] = useState<TrashItem[]>([])
+    const [loading, setLoading] = useState(true)
+    const [filter, setFilter] = useState<TrashEntity | 'all'>('all')
+
+    const loadTrash = () => {
+        listTrash()
+            .then(setItems)
+            .catch(error => console.error('Error loading trash:', error))
+            .finally(() => setLoading(false))
+    }
+
+    useEffect(() => {
+        loadTrash()
+    }, [])
+
+    const handleRestore = async (item: TrashItem) => {
+        try {
+            await restoreDeletion(item.id)
+            setItems(prev => prev.filter(i => i.id !== item.id))
+        } catch (error) {
+            console.error('Error restoring from trash:', error)
+            alert(`Failed to restore "${item.label}". ${(error as Error).message}`)
+        }
+    }
+
+    const handlePurge = async (item: TrashItem) => {
+        const summary = formatDeletionSummary(item.summary)
+        if (!confirm(`Delete "${item.label}" for good?${summary ? ` Its ${summary} go with it.` : ''} This cannot be undone.`)) return
+
+        try {
+            await purgeDeletion(item.id)
+            setItems(prev => prev.filter(i => i.id !== item.id))
+        } catch (error) {
+            console.error('Error purging from trash:', error)
+            alert(`Failed to delete "${item.label}". ${(error as Error).message}`)
+        }
+    }
+
+    const present = TRASH_ENTITIES.filter(e => items.some(i => i.entity === e.entity))
+    const shown = filter === 'all' ? items : items.filter(i => i.entity === filter)
+
+    return (
+        <div style={{ padding: '2rem' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1.5rem', flexWrap: 'wrap', gap: '1rem' }}>
+                <div>
+                    <h2 style={{ fontSize: '1.5rem', fontWeight: '700', margin: 0, display: 'flex', alignItems: 'center', gap: '0.5rem' }} className="text-gradient">
+                        <Trash2 size={24} /> Trash
+                    </h2>
+                    <p style={{ color: 'var(--text-secondary)', margin: '0.25rem 0 0' }}>
+                        Deleted items are kept for {TRASH_RETENTION_DAYS} days. Restoring one brings back everything deleted with it.
+                    </p>
+                </div>
+                {present.length > 1 && (
+                    <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+                        {[{ entity: 'all' as const, label: 'All' }, ...present].map(f => (
+                            <button
+                                key={f.entity}
+                                onClick={() => setFilter(f.entity)}
+                                style={{
+                                    padding: '0.5rem 1rem',
+                                    borderRadius: '0.5rem',
+                                    border: filter === f.entity ? 'none' : '1px solid var(--border-color)',
+                                    background: filter === f.entity ? 'linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)' : 'var(--bg-tertiary)',
+                                    color: filter === f.entity ? 'white' : 'var(--text-secondary)',
+                                    fontWeight: '600',
+                                    fontSize: '0.85rem',
+                                    cursor: 'pointer'
+                                }}
+                            >
+                                {f.label}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div style={{ background: 'var(--bg-secondary)', border: '1px solid var(--border-color)', borderRadius: '12px', overflow: 'hidden' }}>
+                {loading ? (
+                    <div style={{ padding: '2rem', textAlign: 'center', color: 'var(--text-secondary)' }}>Loading trash...</div>
+                ) : shown.length === 0 ? (
+                    <div style={{ padding: '3rem', textAlign: 'center', color: 'var(--text-secondary)' }}>The trash is empty.</div>
+                ) : (
+                    shown.map(item => {
+                        const summary = formatDeletionSummary(item.summary)
+                        const daysLeft = Math.max(0, differenceInCalendarDays(new Date(item.purge_after), new Date()))
+
+                        return (
+                            <div key={item.id} style={{ padding: '1rem 1.5rem', display: 'flex', alignItems: 'center', gap: '1rem', borderBottom: '1px solid var(--border-color)' }}>
+                                <span style={{ padding: '0.2rem 0.6rem', borderRadius: '9999px', background: 'var(--bg-tertiary)', color: 'var(--text-secondary)', fontSize: '0.75rem', fontWeight: '600', flexShrink: 0 }}>
+                                    {TRASH_ENTITIES.find(e => e.entity === item.entity)?.label}
+                                </span>
+                                <div style={{ flex: 1, minWidth: 0 }}>
+                                    <div style={{ fontWeight: '600', color: 'var(--text-primary)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{item.label}</div>
+                                    <div style={{ fontSize: '0.8rem', color: 'var(--text-secondary)' }}>
+                                        Deleted {formatDistanceToNow(new Date(item.deleted_at), { addSuffix: true })}
+                                        {item.deleter && ` by ${item.deleter.full_name || item.deleter.email}`}
+                                        {summary && ` · with ${summary}`}
+                                    </div>
+                                </div>
+                                <span style={{ fontSize: '0.8rem', color: daysLeft <= 3 ? '#ef4444' : 'var(--text-secondary)', flexShrink: 0 }}>
+                                    {daysLeft === 0 ? 'Purged today' : `Purged in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`}
+                                </span>
+                                <div style={{ display: 'flex', gap: '0.5rem', flexShrink: 0 }}>
+                                    <button
+                                        onClick={() => handleRestore(item)}
+                                        style={{ padding: '0.4rem 0.8rem', borderRadius: '0.5rem', border: 'none', background: 'linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)', color: 'white', cursor: 'pointer', display: 'flex', alignItems: 'center', gap: '0.25rem', fontWeight: '600', fontSize: '0.8rem' }}
+                                    >
+                                        <RotateCcw size={14} /> Restore
+                                    </button>
+                                    <button
+                                        onClick={() => handlePurge(item)}
+                                        style={{ padding: '0.4rem 0.8rem', borderRadius: '0.5rem', border: '1px solid rgba(239,68,68,0.3)', background: 'transparent', color: '#ef4444', cursor: 'pointer', display: 'flex', alignItems: 'center', gap: '0.25rem', fontWeight: '600', fontSize: '0.8rem' }}
+                                    >
+                                        <Trash2 size={14} /> Delete Forever
+                                    </button>
+                                </div>
+                            </div>
+                        )
+                    })
+                )}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,73 @@
+import { useEffect } from 'react'
+import { RotateCcw, RotateCw, X } from 'lucide-react'
+import { useUndo } from '../contexts/UndoContext'
+
+// How long the toast stays up after an action
+const TOAST_MS = 6000
+
+// Offers to undo the last board change, or to redo it once undone.
+export default function UndoToast() {
+    const { notice, undo, redo, dismiss } = useUndo()
+
+    useEffect(() => {
+        if (!notice) return
+        const timeout = setTimeout(dismiss, TOAST_MS)
+        return () => clearTimeout(timeout)
+    }, [notice, dismiss])
+
+    if (!notice) return null
+
+    const shortcut = navigator.platform.toLowerCase().includes('mac') ? '⌘' : 'Ctrl+'
+
+    return (
+        <div style={{
+            position: 'fixed',
+            bottom: '1.5rem',
+            left: '50%',
+            transform: 'translateX(-50%)',
+            zIndex: 2000,
+            display: 'flex',
+            alignItems: 'center',
+            gap: '1rem',
+            padding: '0.75rem 1rem',
+            background: 'var(--bg-secondary)',
+            border: '1px solid var(--border-color)',
+            borderRadius: '0.75rem',
+            boxShadow: '0 10px 30px rgba(0,0,0,0.3)',
+            color: 'var(--text-primary)',
+            fontSize: '0.9rem',
+            maxWidth: 'calc(100vw - 2rem)'
+        }}>
+            <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {notice.undone ? `Undone: ${notice.command.label}` : notice.command.label}
+            </span>
+            <button
+                onClick={notice.undone ? redo : undo}
+                title={notice.undone ? `${shortcut}Shift+Z` : `${shortcut}Z`}
+                style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '0.35rem',
+                    padding: '0.35rem 0.75rem',
+                    borderRadius: '0.5rem',
+                    border: 'none',
+                    background: 'linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)',
+                    color: 'white',
+                    fontWeight: '600',
+                    fontSize: '0.8rem',
+                    cursor: 'pointer',
+                    flexShrink: 0
+                }}
+            >
+                {notice.undone ? <><RotateCw size={14} /> Redo</> : <><RotateCcw size={14} /> Undo</>}
+            </button>
+            <button
+                onClick={dismiss}
+                title="Dismiss"
+                style={{ background: 'none', border: 'none', color: 'var(--text-secondary)', cursor: 'pointer', padding: 0, display: 'flex', flexShrink: 0 }}
+            >
+                <X size={16} />
+            </button>
+        </div>
+    )
+}
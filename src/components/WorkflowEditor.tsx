@@ -0,0 +1,208 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import {
+    ENTRY_ACTIONS,
+    ENTRY_REQUIREMENTS,
+    createWorkflowTransition,
+    deleteWorkflowTransition,
+    listWorkflowTransitions,
+    updateStatus,
+    type TaskStatusRow,
+    type WorkflowTransitionRow
+} from '../data'
+
+interface WorkflowEditorProps {
+    departmentId: string
+    statuses: TaskStatusRow[]
+    canManage: boolean
+}
+
+// Who may make a move; an empty list means anyone who can edit tasks.
+const MOVERS: { key: string; label: string; roles: string[] }[] = [
+    { key: 'anyone', label: 'Anyone', roles: [] },
+    { key: 'coordinators', label: 'Coordinators', roles: ['client_coordinator'] },
+    { key: 'admins', label: 'Admins only', roles: ['admin'] }
+]
+
+const moverLabel = (roles: string[]) =>
+    MOVERS.find(m => m.roles.join(',') === [...roles].sort().join(','))?.label || roles.join(', ')
+
+// Edits a department's workflow: what each column requires and does on
+// entry, and which moves between columns are allowed.
+export default function WorkflowEditor({ departmentId, statuses: initialStatuses, canManage }: WorkflowEditorProps) {
+    const [statuses, setStatuses] = useState<TaskStatusRow[]>(initialStatuses)
+    const [transitions, setTransitions] = useState<WorkflowTransitionRow[]>([])
+    const [fromId, setFromId] = useState('')
+    const [toId, setToId] = useState('')
+    const [mover, setMover] = useState('anyone')
+
+    const loadTransitions = useCallback(() => {
+        listWorkflowTransitions(departmentId)
+            .then(setTransitions)
+            .catch(error => console.error('Error loading workflow:', error))
+    }, [departmentId])
+
+    useEffect(() => {
+        loadTransitions()
+    }, [loadTransitions])
+
+    const toggleRule = async (status: TaskStatusRow, column: 'entry_requirements' | 'entry_actions', key: string) => {
+        const current = status[column]
+        const next = current.includes(key) ? current.filter(k => k !== key) : [...current, key]
+        setStatuses(prev => prev.map(s => s.id === status.id ? { ...s, [column]: next } : s))
+
+        try {
+            await updateStatus(status.id, { [column]: next })
+        } catch (error) {
+            console.error('Error updating column rules:', error)
+            alert('Failed to update the column')
+            setStatuses(prev => prev.map(s => s.id === status.id ? { ...s, [column]: current } : s))
+        }
+    }
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!toId || fromId === toId) return
+
+        try {
+            await createWorkflowTransition({
+                department_id: departmentId,
+                from_status_id: fromId || null,
+                to_status_id: toId,
+                allowed_roles: MOVERS.find(m => m.key === mover)?.roles || []
+            })
+            setToId('')
+            loadTransitions()
+        } catch (error) {
+            console.error('Error adding transition:', error)
+            alert('Failed to add the move. It may already be listed.')
+        }
+    }
+
+    const handleDelete = async (transition: WorkflowTransitionRow) => {
+        try {
+            await deleteWorkflowTransition(transition.id)
+            setTransitions(prev => prev.filter(t => t.id !== transition.id))
+        } catch (error) {
+            console.error('Error deleting transition:', error)
+            alert('Failed to remove the move')
+        }
+    }
+
+    const statusLabel = (statusId: string | null) =>
+        statusId ? statuses.find(s => s.id === statusId)?.label || 'Removed column' : 'Any column'
+
+    const ruleList = (status: TaskStatusRow, column: 'entry_requirements' | 'entry_actions', rules: { key: string; label: string }[]) => (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+            {rules.map(rule => (
+                <label key={rule.key} style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', color: status[column].includes(rule.key) ? 'var(--text-primary)' : 'var(--text-secondary)', cursor: canManage ? 'pointer' : 'default' }}>
+                    <input
+                        type="checkbox"
+                        checked={status[column].includes(rule.key)}
+                        disabled={!canManage}
+                        onChange={() => toggleRule(status, column, rule.key)}
+                    />
+                    {rule.label}
+                </label>
+            ))}
+        </div>
+    )
+
+    return (
+        <div>
+            <h4 style={sectionTitleStyle}>Columns</h4>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.8rem', marginBottom: '1.5rem' }}>
+                <thead>
+                    <tr style={{ color: 'var(--text-secondary)', textAlign: 'left', fontSize: '0.75rem', textTransform: 'uppercase' }}>
+                        <th style={{ padding: '0.5rem' }}>Column</th>
+                        <th style={{ padding: '0.5rem' }}>Entering Requires</th>
+                        <th style={{ padding: '0.5rem' }}>On Entry</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {statuses.map(status => (
+                        <tr key={status.id} style={{ borderTop: '1px solid var(--border-color)', verticalAlign: 'top' }}>
+                            <td style={{ padding: '0.6rem 0.5rem', color: 'var(--text-primary)', fontWeight: '500' }}>
+                                <span style={{ display: 'inline-block', width: '10px', height: '10px', borderRadius: '50%', background: status.color || '#e5e7eb', marginRight: '0.5rem' }} />
+                                {status.label}
+                            </td>
+                            <td style={{ padding: '0.6rem 0.5rem' }}>{ruleList(status, 'entry_requirements', ENTRY_REQUIREMENTS)}</td>
+                            <td style={{ padding: '0.6rem 0.5rem' }}>{ruleList(status, 'entry_actions', ENTRY_ACTIONS)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            <h4 style={sectionTitleStyle}>Allowed Moves</h4>
+            <p style={{ color: 'var(--text-secondary)', fontSize: '0.875rem', marginTop: 0 }}>
+                With no moves listed, tasks can move between any columns. Once one is listed, only the listed moves are allowed.
+            </p>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.875rem', marginBottom: '1rem' }}>
+                <thead>
+                    <tr style={{ color: 'var(--text-secondary)', textAlign: 'left', fontSize: '0.75rem', textTransform: 'uppercase' }}>
+                        <th style={{ padding: '0.5rem' }}>From</th>
+                        <th style={{ padding: '0.5rem' }}>To</th>
+                        <th style={{ padding: '0.5rem' }}>Who</th>
+                        <th style={{ padding: '0.5rem' }} />
+                    </tr>
+                </thead>
+                <tbody>
+                    {transitions.length === 0 ? (
+                        <tr><td colSpan={4} style={{ padding: '1.5rem', textAlign: 'center', color: 'var(--text-secondary)' }}>Any move is allowed.</td></tr>
+                    ) : transitions.map(transition => (
+                        <tr key={transition.id} style={{ borderTop: '1px solid var(--border-color)', color: 'var(--text-primary)' }}>
+                            <td style={{ padding: '0.6rem 0.5rem' }}>{statusLabel(transition.from_status_id)}</td>
+                            <td style={{ padding: '0.6rem 0.5rem' }}>{statusLabel(transition.to_status_id)}</td>
+                            <td style={{ padding: '0.6rem 0.5rem' }}>{moverLabel(transition.allowed_roles)}</td>
+                            <td style={{ padding: '0.6rem 0.5rem', textAlign: 'right' }}>
+                                {canManage && (
+                                    <button onClick={() => handleDelete(transition)} style={{ background: 'none', border: 'none', cursor: 'pointer', color: 'var(--danger-color)' }} title="Remove move">
+                                        <Trash2 size={14} />
+                                    </button>
+                                )}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            {canManage && (
+                <form onSubmit={handleAdd} style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+                    <select value={fromId} onChange={e => setFromId(e.target.value)} style={inputStyle}>
+                        <option value="">Any column</option>
+                        {statuses.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                    </select>
+                    <span style={{ color: 'var(--text-secondary)' }}>→</span>
+                    <select value={toId} onChange={e => setToId(e.target.value)} required style={inputStyle}>
+                        <option value="">To column…</option>
+                        {statuses.filter(s => s.id !== fromId).map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                    </select>
+                    <select value={mover} onChange={e => setMover(e.target.value)} style={inputStyle}>
+                        {MOVERS.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+                    </select>
+                    <button type="submit" style={{ padding: '0.5rem 1rem', borderRadius: '0.5rem', border: 'none', background: 'linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)', color: 'white', fontWeight: '600', cursor: 'pointer', display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+                        <Plus size={16} /> Add Move
+                    </button>
+                </form>
+            )}
+        </div>
+    )
+}
+
+const sectionTitleStyle: React.CSSProperties = {
+    margin: '0 0 0.75rem',
+    fontSize: '0.85rem',
+    fontWeight: '600',
+    color: 'var(--text-primary)',
+    textTransform: 'uppercase',
+    letterSpacing: '0.05em'
+}
+
+const inputStyle: React.CSSProperties = {
+    padding: '0.5rem 0.75rem',
+    borderRadius: '6px',
+    border: '1px solid var(--border-color)',
+    background: 'var(--bg-tertiary)',
+    color: 'var(--text-primary)',
+    fontSize: '0.875rem'
+}
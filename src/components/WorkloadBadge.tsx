@@ -0,0 +1,32 @@
+import { AlertTriangle } from 'lucide-react'
+import { availableHours, type EmployeeWorkload } from '../data'
+import { formatWorkloadHours } from '../lib/capacity'
+
+// One person's load over the period being planned, for assignee pickers.
+export default function WorkloadBadge({ workload }: { workload: EmployeeWorkload | undefined }) {
+    if (!workload) return null
+
+    const available = availableHours(workload)
+    const over = available < 0
+    // Under a fifth of capacity left reads as nearly full
+    const tight = !over && available < workload.capacity_hours * 0.2
+
+    return (
+        <span
+            title={`${workload.open_tasks} open tasks, ${formatWorkloadHours(workload.estimated_hours)} estimated, ${formatWorkloadHours(workload.meeting_hours)} in meetings, ${formatWorkloadHours(workload.capacity_hours)} capacity`}
+            style={{
+                display: 'inline-flex',
+                alignItems: 'center',
+                gap: '0.25rem',
+                fontSize: '0.7rem',
+                fontWeight: '500',
+                whiteSpace: 'nowrap',
+                color: over ? '#ef4444' : tight ? '#f59e0b' : 'var(--text-secondary)'
+            }}
+        >
+            {over && <AlertTriangle size={11} />}
+            {workload.open_tasks} open · {formatWorkloadHours(workload.estimated_hours)} est · {formatWorkloadHours(workload.meeting_hours)} mtg ·{' '}
+            {over ? `${formatWorkloadHours(-available)} over` : `${formatWorkloadHours(available)} free`}
+        </span>
+    )
+}
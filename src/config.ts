@@ -1,2 +1,3 @@
 export const TIMER_SAFETY_ENABLED = true;
-export const ENABLE_NOTIFICATION_DEDUPLICATION = false;
+// Ask about idle time, closed tabs and timers running past midnight
+export const TIMER_IDLE_DETECTION_ENABLED = true;
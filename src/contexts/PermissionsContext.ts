@@ -0,0 +1,26 @@
+import { createContext, useContext } from 'react'
+import type { Capability } from '../lib/permissions'
+
+interface PermissionsContextType {
+    role: string | null
+    capabilities: Set<string>
+    loading: boolean
+    can: (capability: Capability) => boolean
+    refresh: () => Promise<void>
+}
+
+export const PermissionsContext = createContext<PermissionsContextType | undefined>(undefined)
+
+export function usePermissions() {
+    const context = useContext(PermissionsContext)
+    if (context === undefined) {
+        throw new Error('usePermissions must be used within a PermissionsProvider')
+    }
+    return context
+}
+
+// Whether the signed-in user may perform `capability`. False while the
+// grants are still loading, so actions appear rather than disappear.
+export function usePermission(capability: Capability): boolean {
+    return usePermissions().can(capability)
+}
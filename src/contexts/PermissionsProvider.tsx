@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useAuth } from './AuthContext'
+import { getUserRole, listRoleCapabilities } from '../data'
+import { hasCapability, type Capability } from '../lib/permissions'
+import { PermissionsContext } from './PermissionsContext'
+
+async function fetchPermissions(userId: string) {
+    const role = await getUserRole(userId)
+    // Admins hold everything, so their template is never read
+    const grants = role && role !== 'admin' ? await listRoleCapabilities(role) : []
+    return { role, capabilities: new Set(grants.map(g => g.capability)) }
+}
+
+export function PermissionsProvider({ children }: { children: React.ReactNode }) {
+    const { user } = useAuth()
+    const [role, setRole] = useState<string | null>(null)
+    const [capabilities, setCapabilities] = useState<Set<string>>(new Set())
+    const [loading, setLoading] = useState(true)
+
+    const refresh = useCallback(async () => {
+        if (!user) return
+        try {
+            const permissions = await fetchPermissions(user.id)
+            setRole(permissions.role)
+            setCapabilities(permissions.capabilities)
+        } catch (error) {
+            console.error('Error loading permissions:', error)
+        } finally {
+            setLoading(false)
+        }
+    }, [user])
+
+    useEffect(() => {
+        refresh()
+    }, [refresh])
+
+    const can = useCallback(
+        (capability: Capability) => hasCapability(role, capabilities, capability),
+        [role, capabilities]
+    )
+
+    const value = {
+        role,
+        capabilities,
+        loading,
+        can,
+        refresh,
+    }
+
+    return <PermissionsContext.Provider value={value}>{children}</PermissionsContext.Provider>
+}
+
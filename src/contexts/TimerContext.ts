@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react'
+import type { RunningTimeLog, TimerGap, TimerGapChoice, TimerTarget } from '../data'
+
+interface TimerContextType {
+    activeLog: RunningTimeLog | null
+    // A gap the user still has to keep, discard or trim
+    pendingGap: TimerGap | null
+    busy: boolean
+    start: (target: TimerTarget) => Promise<void>
+    stop: () => Promise<void>
+    switchTo: (target: TimerTarget) => Promise<void>
+    resolveGap: (choice: TimerGapChoice) => Promise<void>
+    refresh: () => Promise<void>
+}
+
+export const TimerContext = createContext<TimerContextType | undefined>(undefined)
+
+export function useTimer() {
+    const context = useContext(TimerContext)
+    if (context === undefined) {
+        throw new Error('useTimer must be used within a TimerProvider')
+    }
+    return context
+}
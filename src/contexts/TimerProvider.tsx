@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { startOfDay } from 'date-fns'
+import { useAuth } from './AuthContext'
+import { TIMER_IDLE_DETECTION_ENABLED, TIMER_SAFETY_ENABLED } from '../config'
+import {
+    getRunningTimeLog,
+    getTimerSettings,
+    recordTimerHeartbeat,
+    resolveTimerGap,
+    startTimeLog,
+    stopTimeLog,
+    timerAdjustments,
+    type RunningTimeLog,
+    type TimerGap,
+    type TimerGapChoice,
+    type TimerTarget
+} from '../data'
+import { useIdleGap } from '../lib/useIdleGap'
+import { TimerContext } from './TimerContext'
+
+// Tabs tell each other to reload the running timer after changing it.
+const SYNC_CHANNEL = 'subtask-timer'
+
+export function TimerProvider({ children }: { children: React.ReactNode }) {
+    const { user } = useAuth()
+    const [activeLog, setActiveLog] = useState<RunningTimeLog | null>(null)
+    const [busy, setBusy] = useState(false)
+    const [idleMinutes, setIdleMinutes] = useState(15)
+    const [gap, setGap] = useState<TimerGap | null>(null)
+    const [idleSince, clearIdle] = useIdleGap(idleMinutes * 60 * 1000, TIMER_IDLE_DETECTION_ENABLED && !!activeLog && !gap)
+    const channelRef = useRef<BroadcastChannel | null>(null)
+
+    // A closed tab or midnight takes precedence over plain idleness
+    const pendingGap: TimerGap | null = activeLog && (gap || (idleSince ? { trigger: 'idle', start: idleSince } : null))
+    const activeLogId = activeLog?.id
+    const hasPendingGap = !!pendingGap
+
+    const load = useCallback(async (checkClosedTab: boolean) => {
+        if (!user) {
+            setActiveLog(null)
+            return
+        }
+        try {
+            const [log, settings] = await Promise.all([getRunningTimeLog(user.id), getTimerSettings()])
+            setIdleMinutes(settings.idle_minutes)
+            setActiveLog(log)
+
+            // No heartbeat for a while means the tab that ran it was closed
+            if (log && checkClosedTab && TIMER_IDLE_DETECTION_ENABLED) {
+                const lastSeen = new Date(log.last_heartbeat_at || log.start_time)
+                if (Date.now() - lastSeen.getTime() > settings.idle_minutes * 60 * 1000) {
+                    setGap({ trigger: 'closed', start: lastSeen })
+                }
+            }
+        } catch (error) {
+            console.error('Error loading running timer:', error)
+        }
+    }, [user])
+
+    const refresh = useCallback(() => load(false), [load])
+
+    useEffect(() => {
+        load(true)
+    }, [load])
+
+    // Another tab changed the timer: take its state and drop any prompt it answered
+    useEffect(() => {
+        if (!user || typeof BroadcastChannel === 'undefined') return
+
+        const channel = new BroadcastChannel(SYNC_CHANNEL)
+        channel.onmessage = () => {
+            setGap(null)
+            clearIdle()
+            load(false)
+        }
+        channelRef.current = channel
+
+        return () => {
+            channel.close()
+            channelRef.current = null
+        }
+    }, [user, load, clearIdle])
+
+    const announce = () => channelRef.current?.postMessage('changed')
+
+    // Heartbeat, so a later visit can tell when the tab was closed
+    useEffect(() => {
+        if (!activeLogId || hasPendingGap) return
+
+        const interval = setInterval(() => {
+            recordTimerHeartbeat(activeLogId)
+                .catch(error => console.error('Error recording timer heartbeat:', error))
+        }, 60 * 1000)
+
+        return () => clearInterval(interval)
+    }, [activeLogId, hasPendingGap])
+
+    // Ask once per midnight the timer runs past
+    useEffect(() => {
+        if (!activeLog || !TIMER_IDLE_DETECTION_ENABLED) return
+
+        const check = () => {
+            const midnight = startOfDay(new Date())
+            if (new Date(activeLog.start_time) >= midnight) return
+            const asked = timerAdjustments(activeLog)
+                .some(a => a.trigger === 'midnight' && new Date(a.gap_start) >= midnight)
+            if (!asked) setGap(prev => prev || { trigger: 'midnight', start: midnight })
+        }
+        const interval = setInterval(check, 30 * 1000)
+
+        return () => clearInterval(interval)
+    }, [activeLog])
+
+    const run = async (label: string, action: () => Promise<void>) => {
+        setBusy(true)
+        try {
+            await action()
+            announce()
+        } catch (error) {
+            // Unique constraint violation: this task already has a running timer
+            if ((error as { code?: string }).code === '23505') {
+                alert('A timer is already running for this task.')
+            } else {
+                console.error(`Error trying to ${label}:`, error)
+                alert(`Failed to ${label}.`)
+            }
+            await load(false)
+        } finally {
+            setBusy(false)
+        }
+    }
+
+    const start = (target: TimerTarget) => run('start timer', async () => {
+        if (!user) return
+        if (TIMER_SAFETY_ENABLED && activeLog) {
+            alert(`You already have an active timer running for subtask "${activeLog.subtask_name}". Please stop it before starting a new one.`)
+            return
+        }
+        setActiveLog(await startTimeLog(user.id, target))
+    })
+
+    const stop = () => run('stop timer', async () => {
+        if (!activeLog) return
+        const stopped = await stopTimeLog(activeLog)
+        if (!stopped) alert('This timer was already stopped automatically after running past the maximum duration.')
+        setActiveLog(null)
+        setGap(null)
+    })
+
+    const switchTo = (target: TimerTarget) => run('switch timer', async () => {
+        if (!user) return
+        if (activeLog) await stopTimeLog(activeLog)
+        setActiveLog(await startTimeLog(user.id, target))
+    })
+
+    const resolveGap = (choice: TimerGapChoice) => run('adjust timer', async () => {
+        if (!activeLog || !pendingGap) return
+        await resolveTimerGap(activeLog, pendingGap, choice)
+        setGap(null)
+        clearIdle()
+        await load(false)
+    })
+
+    const value = {
+        activeLog,
+        pendingGap,
+        busy,
+        start,
+        stop,
+        switchTo,
+        resolveGap,
+        refresh,
+    }
+
+    return <TimerContext.Provider value={value}>{children}</TimerContext.Provider>
+}
+
@@ -0,0 +1,35 @@
+import { createContext, useContext } from 'react'
+
+// Something the user did that can be taken back and done again. Both
+// directions write to the database and refresh whatever shows the result.
+export interface UndoCommand {
+    label: string
+    undo: () => Promise<void>
+    redo: () => Promise<void>
+}
+
+// The command the toast offers to undo, or to redo once it has been undone
+export interface UndoNotice {
+    command: UndoCommand
+    undone: boolean
+}
+
+interface UndoContextType {
+    canUndo: boolean
+    canRedo: boolean
+    notice: UndoNotice | null
+    record: (command: UndoCommand) => void
+    undo: () => Promise<void>
+    redo: () => Promise<void>
+    dismiss: () => void
+}
+
+export const UndoContext = createContext<UndoContextType | undefined>(undefined)
+
+export function useUndo() {
+    const context = useContext(UndoContext)
+    if (context === undefined) {
+        throw new Error('useUndo must be used within an UndoProvider')
+    }
+    return context
+}
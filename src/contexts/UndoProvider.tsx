@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { UndoContext, type UndoCommand, type UndoNotice } from './UndoContext'
+
+const HISTORY_LIMIT = 50
+
+// Ctrl+Z in a text field undoes typing, not the last board change
+function isEditing(target: EventTarget | null) {
+    if (!(target instanceof HTMLElement)) return false
+    return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+export function UndoProvider({ children }: { children: React.ReactNode }) {
+    const [done, setDone] = useState<UndoCommand[]>([])
+    const [undone, setUndone] = useState<UndoCommand[]>([])
+    const [notice, setNotice] = useState<UndoNotice | null>(null)
+    const busyRef = useRef(false)
+
+    const record = useCallback((command: UndoCommand) => {
+        setDone(prev => [...prev, command].slice(-HISTORY_LIMIT))
+        setUndone([])
+        setNotice({ command, undone: false })
+    }, [])
+
+    const undo = useCallback(async () => {
+        const command = done[done.length - 1]
+        if (!command || busyRef.current) return
+        busyRef.current = true
+        try {
+            await command.undo()
+            setDone(prev => prev.slice(0, -1))
+            setUndone(prev => [...prev, command])
+            setNotice({ command, undone: true })
+        } catch (error) {
+            console.error('Error undoing:', error)
+            alert(`Couldn't undo "${command.label}". ${(error as Error).message}`)
+        } finally {
+            busyRef.current = false
+        }
+    }, [done])
+
+    const redo = useCallback(async () => {
+        const command = undone[undone.length - 1]
+        if (!command || busyRef.current) return
+        busyRef.current = true
+        try {
+            await command.redo()
+            setUndone(prev => prev.slice(0, -1))
+            setDone(prev => [...prev, command])
+            setNotice({ command, undone: false })
+        } catch (error) {
+            console.error('Error redoing:', error)
+            alert(`Couldn't redo "${command.label}". ${(error as Error).message}`)
+        } finally {
+            busyRef.current = false
+        }
+    }, [undone])
+
+    const dismiss = useCallback(() => setNotice(null), [])
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || isEditing(e.target)) return
+            const key = e.key.toLowerCase()
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault()
+                undo()
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault()
+                redo()
+            }
+        }
+
+        window.addEventListener('keydown', handleKeyDown)
+        return () => window.removeEventListener('keydown', handleKeyDown)
+    }, [undo, redo])
+
+    const value = {
+        canUndo: done.length > 0,
+        canRedo: undone.length > 0,
+        notice,
+        record,
+        undo,
+        redo,
+        dismiss,
+    }
+
+    return <UndoContext.Provider value={value}>{children}</UndoContext.Provider>
+}
+
@@ -0,0 +1,10 @@
+import { supabase } from '../lib/supabase'
+import type { TablesInsert } from './database.types'
+
+export async function logActivity(input: TablesInsert<'activities'>): Promise<void> {
+    const { error } = await supabase
+        .from('activities')
+        .insert(input)
+
+    if (error) throw error
+}
@@ -0,0 +1,211 @@
+import { format } from 'date-fns'
+import { supabase } from '../lib/supabase'
+import { BILLABLE_LOG_SELECT } from './queries'
+import { logDurationSeconds } from './timeLogs'
+import type { TablesInsert } from './database.types'
+import type { BillableLog, BillingRateRow, InvoiceLineItemRow, InvoiceRow, InvoiceStatus } from './types'
+
+export interface RateScope {
+    clientId: string
+    employeeId: string
+    contentType: string | null
+}
+
+// One invoice line before it is saved, with the logs it bills.
+export interface InvoiceLineDraft {
+    taskId: string | null
+    description: string
+    hours: number
+    rate: number
+    amount: number
+    logIds: string[]
+}
+
+export interface CreateInvoiceInput {
+    clientId: string
+    periodStart: Date
+    periodEnd: Date
+    lines: InvoiceLineDraft[]
+    notes?: string
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+// Rates for this client plus the ones that apply to every client.
+export async function listBillingRates(options: { clientId?: string } = {}): Promise<BillingRateRow[]> {
+    let query = supabase
+        .from('billing_rates')
+        .select('*')
+        .order('created_at', { ascending: true })
+
+    if (options.clientId) query = query.or(`client_id.eq.${options.clientId},client_id.is.null`)
+
+    const { data, error } = await query
+    if (error) throw error
+    return data || []
+}
+
+// Replaces the rate for the same client/employee/content type combination.
+export async function saveBillingRate(input: TablesInsert<'billing_rates'>): Promise<void> {
+    const { error } = await supabase
+        .from('billing_rates')
+        .upsert(input, { onConflict: 'client_id,employee_id,content_type' })
+
+    if (error) throw error
+}
+
+export async function deleteBillingRate(id: string): Promise<void> {
+    const { error } = await supabase
+        .from('billing_rates')
+        .delete()
+        .eq('id', id)
+
+    if (error) throw error
+}
+
+// The most specific matching rate: an employee rate beats a content type
+// rate, which beats a client rate; combinations beat any single scope.
+export function resolveHourlyRate(rates: BillingRateRow[], scope: RateScope): number | null {
+    let best: BillingRateRow | null = null
+    let bestWeight = -1
+
+    for (const rate of rates) {
+        if (rate.client_id && rate.client_id !== scope.clientId) continue
+        if (rate.employee_id && rate.employee_id !== scope.employeeId) continue
+        if (rate.content_type && rate.content_type !== scope.contentType) continue
+
+        const weight = (rate.employee_id ? 4 : 0) + (rate.content_type ? 2 : 0) + (rate.client_id ? 1 : 0)
+        if (weight > bestWeight) {
+            best = rate
+            bestWeight = weight
+        }
+    }
+
+    return best ? Number(best.hourly_rate) : null
+}
+
+// Finished logs on this client's tasks in [from, to) that no invoice has
+// claimed yet, billable or not.
+export async function listBillableLogs(clientId: string, from: Date, to: Date): Promise<BillableLog[]> {
+    const { data, error } = await supabase
+        .from('subtask_time_logs')
+        .select(BILLABLE_LOG_SELECT)
+        .eq('task.department.workspace.client_id', clientId)
+        .is('invoice_id', null)
+        .not('end_time', 'is', null)
+        .gte('start_time', from.toISOString())
+        .lt('start_time', to.toISOString())
+        .order('start_time', { ascending: true })
+
+    if (error) throw error
+    return (data || []) as unknown as BillableLog[]
+}
+
+export async function setTimeLogBillable(logId: string, isBillable: boolean): Promise<void> {
+    const { error } = await supabase
+        .from('subtask_time_logs')
+        .update({ is_billable: isBillable })
+        .eq('id', logId)
+
+    if (error) throw error
+}
+
+// Groups billable logs by task and subtask. Logs at different rates stay on
+// separate lines; logs no rate covers are returned so they can be priced.
+// Logs without a subtask group by their label, so time on the task itself
+// and on different deleted subtasks stay apart.
+export function buildInvoiceLines(logs: BillableLog[], rates: BillingRateRow[], clientId: string) {
+    const lines = new Map<string, InvoiceLineDraft>()
+    const seconds = new Map<string, number>()
+    const unpriced: BillableLog[] = []
+
+    logs.filter(log => log.is_billable).forEach(log => {
+        const rate = resolveHourlyRate(rates, { clientId, employeeId: log.user_id, contentType: log.task.content_type })
+        if (rate === null) {
+            unpriced.push(log)
+            return
+        }
+
+        const key = `${log.task_id}|${log.subtask_id ?? `label:${log.subtask_name}`}|${rate}`
+        const line = lines.get(key) || {
+            taskId: log.task_id,
+            description: `${log.task.title} – ${log.subtask_name}`,
+            hours: 0,
+            rate,
+            amount: 0,
+            logIds: []
+        }
+        seconds.set(key, (seconds.get(key) || 0) + logDurationSeconds(log))
+        line.logIds.push(log.id)
+        lines.set(key, line)
+    })
+
+    const drafts = [...lines.entries()]
+        .map(([key, line]) => {
+            const hours = round2(seconds.get(key)! / 3600)
+            return { ...line, hours, amount: round2(hours * line.rate) }
+        })
+        .sort((a, b) => a.description.localeCompare(b.description))
+
+    return { lines: drafts, unpriced }
+}
+
+// Saves the invoice and its lines and claims their logs in one call, which
+// fails if any of the logs was invoiced since the lines were built. The
+// server prices each line from its logs; the draft's figures are a preview.
+export async function createInvoice(input: CreateInvoiceInput): Promise<InvoiceRow> {
+    const { data, error } = await supabase.rpc('create_invoice', {
+        p_client_id: input.clientId,
+        p_period_start: format(input.periodStart, 'yyyy-MM-dd'),
+        p_period_end: format(input.periodEnd, 'yyyy-MM-dd'),
+        p_lines: input.lines.map(line => ({ description: line.description, log_ids: line.logIds })),
+        p_notes: input.notes || null
+    })
+
+    if (error) throw error
+    return data
+}
+
+export async function listInvoices(options: { clientId?: string } = {}): Promise<InvoiceRow[]> {
+    let query = supabase
+        .from('invoices')
+        .select('*')
+        .order('created_at', { ascending: false })
+
+    if (options.clientId) query = query.eq('client_id', options.clientId)
+
+    const { data, error } = await query
+    if (error) throw error
+    return data || []
+}
+
+export async function listInvoiceLines(invoiceId: string): Promise<InvoiceLineItemRow[]> {
+    const { data, error } = await supabase
+        .from('invoice_line_items')
+        .select('*')
+        .eq('invoice_id', invoiceId)
+        .order('position', { ascending: true })
+
+    if (error) throw error
+    return data || []
+}
+
+// Sent and paid timestamps are stamped by the server.
+export async function updateInvoiceStatus(invoiceId: string, status: InvoiceStatus): Promise<void> {
+    const { error } = await supabase
+        .from('invoices')
+        .update({ status })
+        .eq('id', invoiceId)
+
+    if (error) throw error
+}
+
+// Drafts only; their logs become available to the next invoice.
+export async function deleteInvoice(invoiceId: string): Promise<void> {
+    const { error } = await supabase
+        .from('invoices')
+        .delete()
+        .eq('id', invoiceId)
+
+    if (error) throw error
+}
@@ -0,0 +1,151 @@
+import { addDays } from 'date-fns'
+import { supabase } from '../lib/supabase'
+import { logActivity } from './activities'
+import { getUnfinishedBlockers, listDependencies } from './dependencies'
+import { ensureDepartmentStatuses, initialStatus, isClosedStatus, isNotStartedStatus, listStatuses } from './statuses'
+import { assignTask } from './tasks'
+import type { TablesUpdate } from './database.types'
+import type { BulkTaskChange, BulkTaskFailure, BulkTaskResult, TaskListItem, TaskStatusRow } from './types'
+
+type BulkTask = Pick<TaskListItem, 'id' | 'title' | 'department_id' | 'status' | 'due_date' | 'recurrence_id' | 'assignees'>
+
+// Row level security filters out rows the user may not change, which
+// PostgREST reports as success with nothing touched.
+async function updateOne(taskId: string, patch: TablesUpdate<'tasks'>): Promise<void> {
+    const { data, error } = await supabase
+        .from('tasks')
+        .update(patch)
+        .eq('id', taskId)
+        .select('id')
+
+    if (error) throw error
+    if (!data?.length) throw new Error('Not allowed, or the task no longer exists')
+}
+
+// Each task gets its own deletion so it can be restored on its own.
+async function deleteOne(taskId: string): Promise<void> {
+    const { error } = await supabase.rpc('move_to_trash', { p_entity: 'task', p_id: taskId })
+    if (error) throw error
+}
+
+const plural = (count: number) => `${count} task${count === 1 ? '' : 's'}`
+
+// Completes "<user> ..." in the activity feed.
+export function describeBulkTaskChange(change: BulkTaskChange, count: number): string {
+    switch (change.kind) {
+        case 'status': return `moved ${plural(count)} to ${change.label}`
+        case 'priority': return `set the priority of ${plural(count)} to ${change.priority || 'none'}`
+        case 'assignees': return change.mode === 'add'
+            ? `added assignees to ${plural(count)}`
+            : `replaced the assignees of ${plural(count)}`
+        case 'shift_due': return `moved the due date of ${plural(count)} by ${change.days > 0 ? '+' : ''}${change.days} day${Math.abs(change.days) === 1 ? '' : 's'}`
+        case 'department': return `moved ${plural(count)} to ${change.department.name}`
+        case 'content_type': return `set the content type of ${plural(count)} to ${change.contentType || 'none'}`
+        case 'delete': return `moved ${plural(count)} to the trash`
+    }
+}
+
+// Applies `change` to each task on its own, so one refused row does not stop
+// the rest, then logs the batch as a single activity.
+export async function applyBulkTaskChange(tasks: BulkTask[], change: BulkTaskChange, userId: string): Promise<BulkTaskResult> {
+    let apply: (task: BulkTask) => Promise<void>
+
+    // Edits other than status take an instance out of its series' edits,
+    // as "this task only" does in the task modal
+    const exception = (task: BulkTask): TablesUpdate<'tasks'> =>
+        task.recurrence_id ? { is_recurrence_exception: true } : {}
+
+    switch (change.kind) {
+        case 'status': {
+            const departmentIds = [...new Set(tasks.map(t => t.department_id))]
+            const [statuses, dependencies] = await Promise.all([
+                listStatuses({ departmentIds }),
+                listDependencies({ departmentIds })
+            ])
+            const targetOf = (task: BulkTask) => statuses.find(s => s.department_id === task.department_id && s.label === change.label)
+            // Blockers finished in this same batch no longer block
+            const finishing = new Set(tasks.filter(t => isClosedStatus(targetOf(t))).map(t => t.id))
+
+            apply = async task => {
+                const status = targetOf(task)
+                if (!status) throw new Error(`This department has no "${change.label}" status`)
+                const blockers = isNotStartedStatus(status)
+                    ? []
+                    : getUnfinishedBlockers(task.id, dependencies, statuses).filter(b => !finishing.has(b.id))
+                if (blockers.length > 0) throw new Error(`Blocked by ${blockers.map(b => b.title).join(', ')}`)
+                await updateOne(task.id, { status_id: status.id })
+            }
+            break
+        }
+        case 'priority':
+            apply = task => updateOne(task.id, { priority: change.priority, ...exception(task) })
+            break
+        case 'assignees':
+            apply = async task => {
+                const userIds = change.mode === 'add'
+                    ? [...new Set([...task.assignees.map(a => a.id), ...change.userIds])]
+                    : change.userIds
+                // The legacy column follows the first assignee, as in the task modals
+                await updateOne(task.id, { assigned_to: userIds[0] ?? null, ...exception(task) })
+                await assignTask(task.id, userIds)
+            }
+            break
+        case 'shift_due':
+            apply = async task => {
+                if (!task.due_date) throw new Error('No due date to move')
+                await updateOne(task.id, { due_date: addDays(new Date(task.due_date), change.days).toISOString(), ...exception(task) })
+            }
+            break
+        case 'department': {
+            // Each task keeps its column when the new department has one with the same label
+            const statuses: TaskStatusRow[] = await ensureDepartmentStatuses(change.department.id)
+            const fallback = initialStatus(statuses)
+
+            apply = async task => {
+                if (task.department_id === change.department.id) return
+                const status = statuses.find(s => s.label === task.status?.label) || fallback
+                await updateOne(task.id, { department_id: change.department.id, status_id: status?.id ?? null, ...exception(task) })
+            }
+            break
+        }
+        case 'content_type':
+            apply = task => updateOne(task.id, { content_type: change.contentType, ...exception(task) })
+            break
+        case 'delete':
+            apply = task => deleteOne(task.id)
+            break
+    }
+
+    const outcomes = await Promise.allSettled(tasks.map(task => apply(task)))
+    const succeeded: string[] = []
+    const failed: BulkTaskFailure[] = []
+    outcomes.forEach((outcome, index) => {
+        const task = tasks[index]
+        if (outcome.status === 'fulfilled') {
+            succeeded.push(task.id)
+        } else {
+            const reason = outcome.reason as { message?: string }
+            failed.push({ taskId: task.id, title: task.title, message: reason?.message || 'Unknown error' })
+        }
+    })
+
+    if (succeeded.length > 0) {
+        try {
+            await logActivity({
+                user_id: userId,
+                action_type: `tasks_bulk_${change.kind}`,
+                description: describeBulkTaskChange(change, succeeded.length),
+                details: {
+                    change: change.kind === 'department' ? { kind: change.kind, department_id: change.department.id } : change,
+                    task_ids: succeeded,
+                    failed: failed.map(f => ({ task_id: f.taskId, message: f.message }))
+                }
+            })
+        } catch (error) {
+            // The edits went through; a missing feed entry is not worth failing them
+            console.error('Error logging bulk activity:', error)
+        }
+    }
+
+    return { change, succeeded, failed }
+}
@@ -0,0 +1,53 @@
+import { addDays, endOfDay, startOfDay } from 'date-fns'
+import { supabase } from '../lib/supabase'
+import type { EmployeeWorkload, WorkloadWindow } from './types'
+
+// Days looked ahead when the work has no dates of its own; employee_workloads()
+// counts undated tasks over the same week
+const DEFAULT_WINDOW_DAYS = 7
+
+// The days a task or meeting occupies: from its start, or today, until its
+// due date, or a week on. Accepts ISO strings and datetime-local values.
+export function workloadWindow(start?: string | null, end?: string | null): WorkloadWindow {
+    const from = start ? new Date(start) : end ? new Date(Math.min(Date.now(), new Date(end).getTime())) : new Date()
+    const to = end ? new Date(end) : addDays(from, DEFAULT_WINDOW_DAYS)
+    return { from: startOfDay(from), to: endOfDay(to < from ? from : to) }
+}
+
+// Workloads keyed by person over `window`.
+export async function getWorkloads(userIds: string[], window: WorkloadWindow): Promise<Record<string, EmployeeWorkload>> {
+    if (userIds.length === 0) return {}
+
+    const { data, error } = await supabase.rpc('employee_workloads', {
+        p_user_ids: userIds,
+        p_from: window.from.toISOString(),
+        p_to: window.to.toISOString()
+    })
+
+    if (error) throw error
+    return Object.fromEntries(((data || []) as EmployeeWorkload[]).map(w => [w.user_id, w]))
+}
+
+// Hours left once estimated work and meetings are taken out; negative
+// when over capacity.
+export function availableHours(workload: EmployeeWorkload): number {
+    return workload.capacity_hours - workload.estimated_hours - workload.meeting_hours
+}
+
+export function isOverCapacity(workload: EmployeeWorkload | undefined): boolean {
+    return !!workload && availableHours(workload) < 0
+}
+
+// Most available first; people without a known workload go last, and ties
+// stay in their original (alphabetical) order.
+export function rankByCapacity<T extends { id: string }>(people: T[], workloads: Record<string, EmployeeWorkload>): T[] {
+    return people
+        .map((person, index) => ({ person, index, available: workloads[person.id] ? availableHours(workloads[person.id]) : null }))
+        .sort((a, b) => {
+            if (a.available === null || b.available === null) {
+                return a.available === b.available ? a.index - b.index : a.available === null ? 1 : -1
+            }
+            return b.available - a.available || a.index - b.index
+        })
+        .map(r => r.person)
+}
@@ -0,0 +1,118 @@
+import { format } from 'date-fns'
+import { supabase } from '../lib/supabase'
+import { CUSTOM_FIELD_SELECT } from './queries'
+import { one, type Embedded } from './tasks'
+import type { TablesInsert, TablesUpdate } from './database.types'
+import type { CustomFieldDefinition, CustomFieldDefinitionRow, CustomFieldType, CustomFieldValue, CustomFieldValues, ProfileRow, TaskRow } from './types'
+
+interface RawCustomFieldRow extends CustomFieldDefinitionRow {
+    department: Embedded<{ workspace: Embedded<{ client_id: string }> }>
+}
+
+export const CUSTOM_FIELD_TYPES: { type: CustomFieldType; label: string }[] = [
+    { type: 'text', label: 'Text' },
+    { type: 'number', label: 'Number' },
+    { type: 'select', label: 'Select' },
+    { type: 'multi_select', label: 'Multi-select' },
+    { type: 'date', label: 'Date' },
+    { type: 'url', label: 'URL' },
+    { type: 'person', label: 'Person' }
+]
+
+// Department fields and client-wide fields, ordered for display. With a
+// client, only the fields that apply to that client's tasks.
+export async function listCustomFields(options: { clientId?: string | null } = {}): Promise<CustomFieldDefinition[]> {
+    const { data, error } = await supabase
+        .from('custom_field_definitions')
+        .select(CUSTOM_FIELD_SELECT)
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true })
+
+    if (error) throw error
+
+    const fields = ((data || []) as RawCustomFieldRow[]).map(({ department, ...row }) => ({
+        ...row,
+        field_type: row.field_type as CustomFieldType,
+        scope_client_id: row.client_id || one(one(department)?.workspace)?.client_id || null
+    }))
+    return options.clientId ? fields.filter(f => f.scope_client_id === options.clientId) : fields
+}
+
+// The fields a task in this department carries.
+export function fieldsForDepartment(fields: CustomFieldDefinition[], departmentId: string | null, clientId: string | null): CustomFieldDefinition[] {
+    return fields.filter(f =>
+        (!!departmentId && f.department_id === departmentId) ||
+        (!!clientId && f.client_id === clientId)
+    )
+}
+
+export async function createCustomField(input: TablesInsert<'custom_field_definitions'>): Promise<void> {
+    const { error } = await supabase
+        .from('custom_field_definitions')
+        .insert(input)
+
+    if (error) throw error
+}
+
+export async function updateCustomField(fieldId: string, patch: TablesUpdate<'custom_field_definitions'>): Promise<void> {
+    const { error } = await supabase
+        .from('custom_field_definitions')
+        .update(patch)
+        .eq('id', fieldId)
+
+    if (error) throw error
+}
+
+// Also clears the field's values from every task (see the custom_fields migration).
+export async function deleteCustomField(fieldId: string): Promise<void> {
+    const { error } = await supabase
+        .from('custom_field_definitions')
+        .delete()
+        .eq('id', fieldId)
+
+    if (error) throw error
+}
+
+export function customFieldValues(task: Pick<TaskRow, 'custom_fields'> | null | undefined): CustomFieldValues {
+    const raw = task?.custom_fields
+    return raw && typeof raw === 'object' && !Array.isArray(raw) ? raw as CustomFieldValues : {}
+}
+
+export function isEmptyCustomFieldValue(value: CustomFieldValue | null | undefined): boolean {
+    if (value === null || value === undefined) return true
+    if (Array.isArray(value)) return value.length === 0
+    if (typeof value === 'number') return Number.isNaN(value)
+    return value.trim() === ''
+}
+
+// What to save for a task carrying `fields`: values of other fields, say a
+// department the task moved away from, and empty values are dropped.
+export function cleanCustomFieldValues(values: CustomFieldValues, fields: CustomFieldDefinition[]): CustomFieldValues {
+    const cleaned: CustomFieldValues = {}
+    fields.forEach(field => {
+        const value = values[field.id]
+        if (isEmptyCustomFieldValue(value)) return
+        cleaned[field.id] = typeof value === 'string' ? value.trim() : value
+    })
+    return cleaned
+}
+
+export function formatCustomFieldValue(
+    field: CustomFieldDefinition,
+    value: CustomFieldValue | null | undefined,
+    people: Pick<ProfileRow, 'id' | 'full_name' | 'email'>[] = []
+): string {
+    if (isEmptyCustomFieldValue(value)) return ''
+    if (Array.isArray(value)) return value.join(', ')
+
+    switch (field.field_type) {
+        case 'date':
+            return format(new Date(`${value}T00:00:00`), 'MMM d, yyyy')
+        case 'person': {
+            const person = people.find(p => p.id === value)
+            return person ? person.full_name || person.email || '' : 'Unknown person'
+        }
+        default:
+            return String(value)
+    }
+}
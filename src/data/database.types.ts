@@ -0,0 +1,1166 @@
+// Generated from the Supabase schema. Regenerate with `npm run gen:types`
+// after applying a migration instead of editing by hand.
+
+export type Json =
+    | string
+    | number
+    | boolean
+    | null
+    | { [key: string]: Json | undefined }
+    | Json[]
+
+export type Database = {
+    public: {
+        Tables: {
+            activities: {
+                Row: {
+                    action_type: string
+                    created_at: string
+                    deleted_at: string | null
+                    deletion_id: string | null
+                    description: string
+                    details: Json | null
+                    entity_id: string | null
+                    id: string
+                    user_id: string
+                }
+                Insert: {
+                    action_type: string
+                    created_at?: string
+                    deleted_at?: string | null
+                    deletion_id?: string | null
+                    description: string
+                    details?: Json | null
+                    entity_id?: string | null
+                    id?: string
+                    user_id: string
+                }
+                Update: {
+                    action_type?: string
+                    created_at?: string
+                    deleted_at?: string | null
+                    deletion_id?: string | null
+                    description?: string
+                    details?: Json | null
+                    entity_id?: string | null
+                    id?: string
+                    user_id?: string
+                }
+                Relationships: []
+            }
+            billing_rates: {
+                Row: {
+                    client_id: string | null
+                    content_type: string | null
+                    created_at: string
+                    employee_id: string | null
+                    hourly_rate: number
+                    id: string
+                }
+                Insert: {
+                    client_id?: string | null
+                    content_type?: string | null
+                    created_at?: string
+                    employee_id?: string | null
+                    hourly_rate: number
+                    id?: string
+                }
+                Update: {
+                    client_id?: string | null
+                    content_type?: string | null
+                    created_at?: string
+                    employee_id?: string | null
+                    hourly_rate?: number
+                    id?: string
+                }
+                Relationships: []
+            }
+            capabilities: {
+                Row: {
+                    key: string
+                    label: string
+                }
+                Insert: {
+                    key: string
+                    label: string
+                }
+                Update: {
+                    key?: string
+                    label?: string
+                }
+                Relationships: []
+            }
+            clients: {
+                Row: {
+                    cc_id: string
+                    created_at: string
+                    deleted_at: string | null
+                    deletion_id: string | null
+                    id: string
+                    name: string
+                }
+                Insert: {
+                    cc_id: string
+                    created_at?: string
+                    deleted_at?: string | null
+                    deletion_id?: string | null
+                    id?: string
+                    name: string
+                }
+                Update: {
+                    cc_id?: string
+                    created_at?: string
+                    deleted_at?: string | null
+                    deletion_id?: string | null
+                    id?: string
+                    name?: string
+                }
+                Relationships: []
+            }
+            custom_field_definitions: {
+                Row: {
+                    client_id: string | null
+                    created_at: string
+                    department_id: string | null
+                    field_type: string
+                    id: string
+                    name: string
+                    options: string[]
+                    position: number
+                }
+                Insert: {
+                    client_id?: string | null
+                    created_at?: string
+                    department_id?: string | null
+                    field_type: string
+                    id?: string
+                    name: string
+                    options?: string[]
+                    position?: number
+                }
+                Update: {
+                    client_id?: string | null
+                    created_at?: string
+                    department_id?: string | null
+                    field_type?: string
+                    id?: string
+                    name?: string
+                    options?: string[]
+                    position?: number
+                }
+                Relationships: []
+            }
+            deletions: {
+                Row: {
+                    client_id: string | null
+                    deleted_at: string
+                    deleted_by: string | null
+                    entity: string
+                    entity_id: string
+                    id: string
+                    label: string
+                    purge_after: string
+                    summary: Json
+                }
+                Insert: {
+                    client_id?: string | null
+                    deleted_at?: string
+                    deleted_by?: string | null
+                    entity: string
+                    entity_id: string
+                    id?: string
+                    label: string
+                    purge_after?: string
+                    summary?: Json
+                }
+                Update: {
+                    client_id?: string | null
+                    deleted_at?: string
+                    deleted_by?: string | null
+                    entity?: string
+                    entity_id?: string
+                    id?: string
+                    label?: string
+                    purge_after?: string
+                    summary?: Json
+                }
+                Relationships: []
+            }
+            department_employees: {
+                Row: {
+                    department_id: string
+                    employee_id: string
+                }
+                Insert: {
+                    department_id: string
+                    employee_id: string
+                }
+                Update: {
+                    department_id?: string
+                    employee_id?: string
+                }
+                Relationships: []
+            }
+            departments: {
+                Row: {
+                    created_at: string
+                    deleted_at: string | null
+                    deletion_id: string | null
+                    id: string
+                    name: string
+                    workspace_id: string
+                }
+                Insert: {
+                    created_at?: string
+                    deleted_at?: string | null
+                    deletion_id?: string | null
+                    id?: string
+                    name: string
+                    workspace_id: string
+                }
+                Update: {
+                    created_at?: string
+                    deleted_at?: string | null
+                    deletion_id?: string | null
+                    id?: string
+                    name?: string
+                    workspace_id?: string
+                }
+                Relationships: []
+            }
+            invoice_line_items: {
+                Row: {
+                    amount: number
+                    description: string
+                    hours: number
+                    id: string
+                    invoice_id: string
+                    position: number
+                    rate: number
+                    task_id: string | null
+                }
+                Insert: {
+                    amount: number
+                    description: string
+                    hours: number
+                    id?: string
+                    invoice_id: string
+                    position?: number
+                    rate: number
+                    task_id?: string | null
+                }
+                Update: {
+                    amount?: number
+                    description?: string
+                    hours?: number
+                    id?: string
+                    invoice_id?: string
+                    position?: number
+                    rate?: number
+                    task_id?: string | null
+                }
+                Relationships: []
+            }
+            invoices: {
+                Row: {
+                    client_id: string
+                    created_at: string
+                    created_by: string | null
+                    currency: string
+                    id: string
+                    notes: string | null
+                    number: string
+                    paid_at: string | null
+                    period_end: string
+                    period_start: string
+                    sent_at: string | null
+                    status: string
+                    total: number
+                }
+                Insert: {
+                    client_id: string
+                    created_at?: string
+                    created_by?: string | null
+                    currency?: string
+                    id?: string
+                    notes?: string | null
+                    number?: string
+                    paid_at?: string | null
+                    period_end: string
+                    period_start: string
+                    sent_at?: string | null
+                    status?: string
+                    total?: number
+                }
+                Update: {
+                    client_id?: string
+                    created_at?: string
+                    created_by?: string | null
+                    currency?: string
+                    id?: string
+                    notes?: string | null
+                    number?: string
+                    paid_at?: string | null
+                    period_end?: string
+                    period_start?: string
+                    sent_at?: string | null
+                    status?: string
+                    total?: number
+                }
+                Relationships: []
+            }
+            meeting_participants: {
+                Row: {
+                    meeting_id: string
+                    user_id: string
+                }
+                Insert: {
+                    meeting_id: string
+                    user_id: string
+                }
+                Update: {
+                    meeting_id?: string
+                    user_id?: string
+                }
+                Relationships: []
+            }
+            meetings: {
+                Row: {
+                    client_id: string | null
+                    created_at: string
+                    created_by: string | null
+                    description: string | null
+                    end_time: string
+                    id: string
+                    meeting_link: string | null
+                    platform: string | null
+                    start_time: string
+                    title: string
+                }
+                Insert: {
+                    client_id?: string | null
+                    created_at?: string
+                    created_by?: string | null
+                    description?: string | null
+                    end_time: string
+                    id?: string
+                    meeting_link?: string | null
+                    platform?: string | null
+                    start_time: string
+                    title: string
+                }
+                Update: {
+                    client_id?: string | null
+                    created_at?: string
+                    created_by?: string | null
+                    description?: string | null
+                    end_time?: string
+                    id?: string
+                    meeting_link?: string | null
+                    platform?: string | null
+                    start_time?: string
+                    title?: string
+                }
+                Relationships: []
+            }
+            notifications: {
+                Row: {
+                    created_at: string
+                    deduplication_key: string | null
+                    id: string
+                    is_read: boolean
+                    message: string
+                    title: string
+                    type: string
+                    user_id: string
+                }
+                Insert: {
+                    created_at?: string
+                    deduplication_key?: string | null
+                    id?: string
+                    is_read?: boolean
+                    message: string
+                    title: string
+                    type?: string
+                    user_id: string
+                }
+                Update: {
+                    created_at?: string
+                    deduplication_key?: string | null
+                    id?: string
+                    is_read?: boolean
+                    message?: string
+                    title?: string
+                    type?: string
+                    user_id?: string
+                }
+                Relationships: []
+            }
+            profiles: {
+                Row: {
+                    avatar_url: string | null
+                    created_at: string
+                    created_by: string | null
+                    deleted_at: string | null
+                    deletion_id: string | null
+                    email: string
+                    full_name: string
+                    id: string
+                    role: string
+                    status: string | null
+                    weekly_capacity_hours: number
+                }
+                Insert: {
+                    avatar_url?: string | null
+                    created_at?: string
+                    created_by?: string | null
+                    deleted_at?: string | null
+                    deletion_id?: string | null
+                    email: string
+                    full_name: string
+                    id: string
+                    role?: string
+                    status?: string | null
+                    weekly_capacity_hours?: number
+                }
+                Update: {
+                    avatar_url?: string | null
+                    created_at?: string
+                    created_by?: string | null
+                    deleted_at?: string | null
+                    deletion_id?: string | null
+                    email?: string
+                    full_name?: string
+                    id?: string
+                    role?: string
+                    status?: string | null
+                    weekly_capacity_hours?: number
+                }
+                Relationships: []
+            }
+            role_capabilities: {
+                Row: {
+                    capability: string
+                    role: string
+                }
+                Insert: {
+                    capability: string
+                    role: string
+                }
+                Update: {
+                    capability?: string
+                    role?: string
+                }
+                Relationships: []
+            }
+            saved_views: {
+                Row: {
+                    client_id: string | null
+                    created_at: string
+                    id: string
+                    name: string
+                    owner_id: string
+                    state: Json
+                    target: string
+                    updated_at: string
+                }
+                Insert: {
+                    client_id?: string | null
+                    created_at?: string
+                    id?: string
+                    name: string
+                    owner_id?: string
+                    state?: Json
+                    target: string
+                    updated_at?: string
+                }
+                Update: {
+                    client_id?: string | null
+                    created_at?: string
+                    id?: string
+                    name?: string
+                    owner_id?: string
+                    state?: Json
+                    target?: string
+                    updated_at?: string
+                }
+                Relationships: []
+            }
+            subtask_time_logs: {
+                Row: {
+                    adjustments: Json
+                    created_at: string
+                    duration_seconds: number | null
+                    edit_reason: string | null
+                    edited_at: string | null
+                    end_time: string | null
+                    id: string
+                    invoice_id: string | null
+                    is_billable: boolean
+                    last_heartbeat_at: string | null
+                    source: string
+                    split_from: string | null
+                    start_time: string
+                    subtask_id: string | null
+                    subtask_name: string
+                    task_id: string
+                    user_id: string
+                }
+                Insert: {
+                    adjustments?: Json
+                    created_at?: string
+                    duration_seconds?: number | null
+                    edit_reason?: string | null
+                    edited_at?: string | null
+                    end_time?: string | null
+                    id?: string
+                    invoice_id?: string | null
+                    is_billable?: boolean
+                    last_heartbeat_at?: string | null
+                    source?: string
+                    split_from?: string | null
+                    start_time: string
+                    subtask_id?: string | null
+                    subtask_name: string
+                    task_id: string
+                    user_id: string
+                }
+                Update: {
+                    adjustments?: Json
+                    created_at?: string
+                    duration_seconds?: number | null
+                    edit_reason?: string | null
+                    edited_at?: string | null
+                    end_time?: string | null
+                    id?: string
+                    invoice_id?: string | null
+                    is_billable?: boolean
+                    last_heartbeat_at?: string | null
+                    source?: string
+                    split_from?: string | null
+                    start_time?: string
+                    subtask_id?: string | null
+                    subtask_name?: string
+                    task_id?: string
+                    user_id?: string
+                }
+                Relationships: []
+            }
+            subtasks: {
+                Row: {
+                    assigned_to: string | null
+                    created_at: string
+                    due_date: string | null
+                    estimate_hours: number | null
+                    id: string
+                    is_completed: boolean
+                    parent_id: string | null
+                    position: number
+                    task_id: string
+                    title: string
+                }
+                Insert: {
+                    assigned_to?: string | null
+                    created_at?: string
+                    due_date?: string | null
+                    estimate_hours?: number | null
+                    id?: string
+                    is_completed?: boolean
+                    parent_id?: string | null
+                    position?: number
+                    task_id: string
+                    title: string
+                }
+                Update: {
+                    assigned_to?: string | null
+                    created_at?: string
+                    due_date?: string | null
+                    estimate_hours?: number | null
+                    id?: string
+                    is_completed?: boolean
+                    parent_id?: string | null
+                    position?: number
+                    task_id?: string
+                    title?: string
+                }
+                Relationships: []
+            }
+            task_assignments: {
+                Row: {
+                    created_at: string
+                    task_id: string
+                    user_id: string
+                }
+                Insert: {
+                    created_at?: string
+                    task_id: string
+                    user_id: string
+                }
+                Update: {
+                    created_at?: string
+                    task_id?: string
+                    user_id?: string
+                }
+                Relationships: []
+            }
+            task_changes: {
+                Row: {
+                    changed_at: string
+                    changed_by: string | null
+                    field: string
+                    id: string
+                    new_value: Json | null
+                    old_value: Json | null
+                    task_id: string
+                }
+                Insert: {
+                    changed_at?: string
+                    changed_by?: string | null
+                    field: string
+                    id?: string
+                    new_value?: Json | null
+                    old_value?: Json | null
+                    task_id: string
+                }
+                Update: {
+                    changed_at?: string
+                    changed_by?: string | null
+                    field?: string
+                    id?: string
+                    new_value?: Json | null
+                    old_value?: Json | null
+                    task_id?: string
+                }
+                Relationships: []
+            }
+            task_comments: {
+                Row: {
+                    content: string
+                    created_at: string
+                    id: string
+                    task_id: string
+                    updated_at: string
+                    user_id: string
+                }
+                Insert: {
+                    content: string
+                    created_at?: string
+                    id?: string
+                    task_id: string
+                    updated_at?: string
+                    user_id: string
+                }
+                Update: {
+                    content?: string
+                    created_at?: string
+                    id?: string
+                    task_id?: string
+                    updated_at?: string
+                    user_id?: string
+                }
+                Relationships: []
+            }
+            task_dependencies: {
+                Row: {
+                    created_at: string
+                    created_by: string | null
+                    depends_on_id: string
+                    task_id: string
+                }
+                Insert: {
+                    created_at?: string
+                    created_by?: string | null
+                    depends_on_id: string
+                    task_id: string
+                }
+                Update: {
+                    created_at?: string
+                    created_by?: string | null
+                    depends_on_id?: string
+                    task_id?: string
+                }
+                Relationships: []
+            }
+            task_recurrences: {
+                Row: {
+                    assignee_ids: string[]
+                    content_type: string | null
+                    created_at: string
+                    created_by: string | null
+                    custom_fields: Json
+                    department_id: string
+                    description: string | null
+                    dtstart: string
+                    due_offset_seconds: number | null
+                    generated_until: string | null
+                    horizon_days: number
+                    id: string
+                    priority: string | null
+                    rrule: string
+                    start_offset_seconds: number | null
+                    title: string
+                    until: string | null
+                }
+                Insert: {
+                    assignee_ids?: string[]
+                    content_type?: string | null
+                    created_at?: string
+                    created_by?: string | null
+                    custom_fields?: Json
+                    department_id: string
+                    description?: string | null
+                    dtstart: string
+                    due_offset_seconds?: number | null
+                    generated_until?: string | null
+                    horizon_days?: number
+                    id?: string
+                    priority?: string | null
+                    rrule: string
+                    start_offset_seconds?: number | null
+                    title: string
+                    until?: string | null
+                }
+                Update: {
+                    assignee_ids?: string[]
+                    content_type?: string | null
+                    created_at?: string
+                    created_by?: string | null
+                    custom_fields?: Json
+                    department_id?: string
+                    description?: string | null
+                    dtstart?: string
+                    due_offset_seconds?: number | null
+                    generated_until?: string | null
+                    horizon_days?: number
+                    id?: string
+                    priority?: string | null
+                    rrule?: string
+                    start_offset_seconds?: number | null
+                    title?: string
+                    until?: string | null
+                }
+                Relationships: []
+            }
+            task_statuses: {
+                Row: {
+                    category: string
+                    color: string
+                    department_id: string | null
+                    entry_actions: string[]
+                    entry_requirements: string[]
+                    id: string
+                    label: string
+                    position: number
+                    wip_limit: number | null
+                    wip_policy: string
+                }
+                Insert: {
+                    category?: string
+                    color?: string
+                    department_id?: string | null
+                    entry_actions?: string[]
+                    entry_requirements?: string[]
+                    id?: string
+                    label: string
+                    position?: number
+                    wip_limit?: number | null
+                    wip_policy?: string
+                }
+                Update: {
+                    category?: string
+                    color?: string
+                    department_id?: string | null
+                    entry_actions?: string[]
+                    entry_requirements?: string[]
+                    id?: string
+                    label?: string
+                    position?: number
+                    wip_limit?: number | null
+                    wip_policy?: string
+                }
+                Relationships: []
+            }
+            tasks: {
+                Row: {
+                    assigned_to: string | null
+                    content_type: string | null
+                    created_at: string
+                    created_by: string | null
+                    custom_fields: Json
+                    deleted_at: string | null
+                    deletion_id: string | null
+                    department_id: string
+                    description: string | null
+                    due_date: string | null
+                    estimate_hours: number | null
+                    id: string
+                    is_recurrence_exception: boolean
+                    occurrence_date: string | null
+                    priority: string | null
+                    rank: string | null
+                    recurrence_id: string | null
+                    start_date: string | null
+                    status_id: string | null
+                    subtasks_content: string | null
+                    title: string
+                }
+                Insert: {
+                    assigned_to?: string | null
+                    content_type?: string | null
+                    created_at?: string
+                    created_by?: string | null
+                    custom_fields?: Json
+                    deleted_at?: string | null
+                    deletion_id?: string | null
+                    department_id: string
+                    description?: string | null
+                    due_date?: string | null
+                    estimate_hours?: number | null
+                    id?: string
+                    is_recurrence_exception?: boolean
+                    occurrence_date?: string | null
+                    priority?: string | null
+                    rank?: string | null
+                    recurrence_id?: string | null
+                    start_date?: string | null
+                    status_id?: string | null
+                    subtasks_content?: string | null
+                    title: string
+                }
+                Update: {
+                    assigned_to?: string | null
+                    content_type?: string | null
+                    created_at?: string
+                    created_by?: string | null
+                    custom_fields?: Json
+                    deleted_at?: string | null
+                    deletion_id?: string | null
+                    department_id?: string
+                    description?: string | null
+                    due_date?: string | null
+                    estimate_hours?: number | null
+                    id?: string
+                    is_recurrence_exception?: boolean
+                    occurrence_date?: string | null
+                    priority?: string | null
+                    rank?: string | null
+                    recurrence_id?: string | null
+                    start_date?: string | null
+                    status_id?: string | null
+                    subtasks_content?: string | null
+                    title?: string
+                }
+                Relationships: []
+            }
+            timer_settings: {
+                Row: {
+                    id: number
+                    idle_minutes: number
+                    max_duration_hours: number
+                    updated_at: string
+                }
+                Insert: {
+                    id?: number
+                    idle_minutes?: number
+                    max_duration_hours?: number
+                    updated_at?: string
+                }
+                Update: {
+                    id?: number
+                    idle_minutes?: number
+                    max_duration_hours?: number
+                    updated_at?: string
+                }
+                Relationships: []
+            }
+            timesheets: {
+                Row: {
+                    created_at: string
+                    id: string
+                    period_end: string
+                    period_start: string
+                    review_note: string | null
+                    reviewed_at: string | null
+                    reviewed_by: string | null
+                    status: string
+                    submitted_at: string | null
+                    user_id: string
+                }
+                Insert: {
+                    created_at?: string
+                    id?: string
+                    period_end: string
+                    period_start: string
+                    review_note?: string | null
+                    reviewed_at?: string | null
+                    reviewed_by?: string | null
+                    status?: string
+                    submitted_at?: string | null
+                    user_id: string
+                }
+                Update: {
+                    created_at?: string
+                    id?: string
+                    period_end?: string
+                    period_start?: string
+                    review_note?: string | null
+                    reviewed_at?: string | null
+                    reviewed_by?: string | null
+                    status?: string
+                    submitted_at?: string | null
+                    user_id?: string
+                }
+                Relationships: []
+            }
+            workflow_transitions: {
+                Row: {
+                    allowed_roles: string[]
+                    created_at: string
+                    department_id: string
+                    from_status_id: string | null
+                    id: string
+                    to_status_id: string
+                }
+                Insert: {
+                    allowed_roles?: string[]
+                    created_at?: string
+                    department_id: string
+                    from_status_id?: string | null
+                    id?: string
+                    to_status_id: string
+                }
+                Update: {
+                    allowed_roles?: string[]
+                    created_at?: string
+                    department_id?: string
+                    from_status_id?: string | null
+                    id?: string
+                    to_status_id?: string
+                }
+                Relationships: []
+            }
+            workspaces: {
+                Row: {
+                    client_id: string
+                    created_at: string
+                    deleted_at: string | null
+                    deletion_id: string | null
+                    id: string
+                    name: string
+                }
+                Insert: {
+                    client_id: string
+                    created_at?: string
+                    deleted_at?: string | null
+                    deletion_id?: string | null
+                    id?: string
+                    name: string
+                }
+                Update: {
+                    client_id?: string
+                    created_at?: string
+                    deleted_at?: string | null
+                    deletion_id?: string | null
+                    id?: string
+                    name?: string
+                }
+                Relationships: []
+            }
+        }
+        Views: {
+            [_ in never]: never
+        }
+        Functions: {
+            billing_rate: {
+                Args: { p_client_id: string; p_employee_id: string; p_content_type: string }
+                Returns: number
+            }
+            can_manage_deletion: {
+                Args: { p_client_id: string; p_deleted_by: string; p_entity: string }
+                Returns: boolean
+            }
+            can_trash: {
+                Args: { p_entity: string; p_id: string }
+                Returns: boolean
+            }
+            cap_long_running_timers: {
+                Args: { p_now?: string }
+                Returns: number
+            }
+            convert_subtask_to_task: {
+                Args: { p_subtask_id: string }
+                Returns: string
+            }
+            convert_task_to_subtask: {
+                Args: { p_parent_task_id: string; p_task_id: string }
+                Returns: string
+            }
+            coordinates_client: {
+                Args: { p_client_id: string }
+                Returns: boolean
+            }
+            create_invoice: {
+                Args: {
+                    p_client_id: string
+                    p_period_start: string
+                    p_period_end: string
+                    p_lines: Json
+                    p_notes?: string | null
+                }
+                Returns: {
+                    client_id: string
+                    created_at: string
+                    created_by: string | null
+                    currency: string
+                    id: string
+                    notes: string | null
+                    number: string
+                    paid_at: string | null
+                    period_end: string
+                    period_start: string
+                    sent_at: string | null
+                    status: string
+                    total: number
+                }
+            }
+            delete_recurrence_instances: {
+                Args: { p_recurrence_id: string; p_task_ids: string[] }
+                Returns: number
+            }
+            delete_task_status: {
+                Args: { p_replacement_id: string; p_status_id: string }
+                Returns: number
+            }
+            deletion_preview: {
+                Args: { p_entity: string; p_id: string }
+                Returns: Json
+            }
+            employee_workloads: {
+                Args: { p_user_ids: string[]; p_from: string; p_to: string }
+                Returns: {
+                    user_id: string
+                    open_tasks: number
+                    estimated_hours: number
+                    meeting_hours: number
+                    capacity_hours: number
+                }[]
+            }
+            estimate_accuracy: {
+                Args: { p_coordinator_id?: string }
+                Returns: {
+                    dimension: string
+                    key: string
+                    label: string
+                    tasks: number
+                    estimated_seconds: number
+                    actual_seconds: number
+                }[]
+            }
+            generate_task_due_notifications: {
+                Args: { p_now?: string }
+                Returns: number
+            }
+            has_capability: {
+                Args: { p_capability: string }
+                Returns: boolean
+            }
+            is_status_reassignment: {
+                Args: never
+                Returns: boolean
+            }
+            is_time_locked: {
+                Args: { p_user_id: string; p_at: string }
+                Returns: boolean
+            }
+            move_to_trash: {
+                Args: { p_entity: string; p_id: string }
+                Returns: string
+            }
+            person_search_document: {
+                Args: { p_full_name: string; p_email: string }
+                Returns: unknown
+            }
+            purge_deletion: {
+                Args: { p_deletion_id: string }
+                Returns: undefined
+            }
+            purge_deletion_rows: {
+                Args: { p_deletion: Database['public']['Tables']['deletions']['Row'] }
+                Returns: undefined
+            }
+            purge_expired_deletions: {
+                Args: { p_now?: string }
+                Returns: number
+            }
+            reorder_subtasks: {
+                Args: { p_task_id: string; p_ids: string[]; p_parents: (string | null)[] }
+                Returns: undefined
+            }
+            restore_deletion: {
+                Args: { p_deletion_id: string }
+                Returns: undefined
+            }
+            role_rank: {
+                Args: { p_role: string }
+                Returns: number
+            }
+            search_document: {
+                Args: { p_title: string; p_body?: string }
+                Returns: unknown
+            }
+            search_workspace: {
+                Args: { p_query: string; p_limit?: number }
+                Returns: {
+                    kind: string
+                    id: string
+                    task_id: string | null
+                    client_id: string | null
+                    title: string
+                    snippet: string | null
+                    rank: number
+                }[]
+            }
+            subtask_time_log_ids: {
+                Args: { p_task_id: string; p_subtask_ids: string[] }
+                Returns: string[]
+            }
+            task_move_rejection: {
+                Args: { p_status_id: string; p_task_id: string }
+                Returns: string | null
+            }
+            task_status_is_closed: {
+                Args: { p_label: string }
+                Returns: boolean
+            }
+            task_time_log_ids: {
+                Args: { p_task_id: string }
+                Returns: string[]
+            }
+            trash_capability: {
+                Args: { p_entity: string }
+                Returns: string
+            }
+            update_task_assignments: {
+                Args: { p_task_id: string; p_assignee_ids: string[] }
+                Returns: undefined
+            }
+            workflow_rejection: {
+                Args: { p_task: Database['public']['Tables']['tasks']['Row']; p_from_status_id: string; p_to_status_id: string }
+                Returns: string
+            }
+            working_days: {
+                Args: { p_from: string; p_to: string }
+                Returns: number
+            }
+        }
+        Enums: {
+            [_ in never]: never
+        }
+    }
+}
+
+type PublicSchema = Database['public']
+
+export type Tables<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Row']
+export type TablesInsert<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Insert']
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> = PublicSchema['Tables'][T]['Update']
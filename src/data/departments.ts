@@ -0,0 +1,26 @@
+import { supabase } from '../lib/supabase'
+import { DEPARTMENT_OPTION_SELECT } from './queries'
+import { one, type Embedded } from './tasks'
+import type { ClientRow, DepartmentOption, DepartmentRow } from './types'
+
+interface RawDepartmentOption extends Pick<DepartmentRow, 'id' | 'name'> {
+    workspace: Embedded<{ client: Embedded<Pick<ClientRow, 'id' | 'name'>> }>
+}
+
+export async function listDepartments(options: { clientId?: string | null } = {}): Promise<DepartmentOption[]> {
+    let query = supabase
+        .from('departments')
+        .select(DEPARTMENT_OPTION_SELECT)
+        .order('name', { ascending: true })
+
+    if (options.clientId) query = query.eq('workspace.client.id', options.clientId)
+
+    const { data, error } = await query
+    if (error) throw error
+
+    return ((data || []) as RawDepartmentOption[]).map(d => ({
+        id: d.id,
+        name: d.name,
+        client: one(one(d.workspace)?.client)
+    }))
+}
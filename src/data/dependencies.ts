@@ -0,0 +1,69 @@
+import { supabase } from '../lib/supabase'
+import { TASK_DEPENDENCY_BY_CLIENT_SELECT, TASK_DEPENDENCY_SELECT } from './queries'
+import { isClosedStatus } from './statuses'
+import type { DependencyTask, TaskDependencyItem, TaskRow, TaskStatusRow } from './types'
+
+export interface ListDependenciesOptions {
+    // Dependencies of these tasks (their blockers)
+    taskIds?: string[]
+    // Dependencies on these tasks (what they block)
+    blockerIds?: string[]
+    // Dependencies of tasks in these departments, for whole boards where
+    // listing every task id would not fit in the request
+    departmentIds?: string[]
+    clientId?: string | null
+}
+
+export async function listDependencies(options: ListDependenciesOptions = {}): Promise<TaskDependencyItem[]> {
+    const { taskIds, blockerIds, departmentIds, clientId } = options
+    if (taskIds?.length === 0 || blockerIds?.length === 0 || departmentIds?.length === 0) return []
+
+    let query = supabase
+        .from('task_dependencies')
+        .select(clientId || departmentIds ? TASK_DEPENDENCY_BY_CLIENT_SELECT : TASK_DEPENDENCY_SELECT)
+
+    if (taskIds) query = query.in('task_id', taskIds)
+    if (blockerIds) query = query.in('depends_on_id', blockerIds)
+    if (departmentIds) query = query.in('dependent.department_id', departmentIds)
+    if (clientId) query = query.eq('dependent.department.workspace.client_id', clientId)
+
+    const { data, error } = await query
+    if (error) throw error
+    return (data || []) as TaskDependencyItem[]
+}
+
+// Fails with the server's message when the new edge would create a cycle.
+export async function addDependency(taskId: string, dependsOnId: string): Promise<void> {
+    const { error } = await supabase
+        .from('task_dependencies')
+        .insert({ task_id: taskId, depends_on_id: dependsOnId })
+
+    if (error) throw error
+}
+
+export async function removeDependency(taskId: string, dependsOnId: string): Promise<void> {
+    const { error } = await supabase
+        .from('task_dependencies')
+        .delete()
+        .eq('task_id', taskId)
+        .eq('depends_on_id', dependsOnId)
+
+    if (error) throw error
+}
+
+// Blockers of `taskId` that are not finished yet. The board's own copy of a
+// blocker wins over the embedded one, so optimistic moves count immediately.
+export function getUnfinishedBlockers(
+    taskId: string,
+    dependencies: TaskDependencyItem[],
+    statuses: Pick<TaskStatusRow, 'id' | 'category'>[],
+    tasks: Pick<TaskRow, 'id' | 'status_id'>[] = []
+): DependencyTask[] {
+    return dependencies
+        .filter(d => d.task_id === taskId)
+        .map(d => d.blocker)
+        .filter(blocker => {
+            const statusId = tasks.find(t => t.id === blocker.id)?.status_id ?? blocker.status_id
+            return !isClosedStatus(statuses.find(s => s.id === statusId) ?? blocker.status)
+        })
+}
@@ -0,0 +1,59 @@
+import { supabase } from '../lib/supabase'
+import type { EstimateAccuracyReport, EstimateAccuracyRow, SubtaskRow, TaskRow } from './types'
+
+// Hours the task is expected to take: its own estimate, else the sum of
+// its subtasks' estimates. Null when nothing is estimated.
+export function taskEstimateHours(
+    task: Pick<TaskRow, 'estimate_hours'>,
+    subtasks: Pick<SubtaskRow, 'estimate_hours'>[] = []
+): number | null {
+    if (task.estimate_hours !== null) return task.estimate_hours
+    const estimated = subtasks.filter(s => s.estimate_hours !== null)
+    return estimated.length > 0 ? estimated.reduce((sum, s) => sum + (s.estimate_hours || 0), 0) : null
+}
+
+// Reads "1.5" or "1,5" as hours; blank clears the estimate.
+export function parseEstimateHours(input: string): number | null {
+    const hours = parseFloat(input.replace(',', '.'))
+    return Number.isFinite(hours) && hours >= 0 ? Math.round(hours * 100) / 100 : null
+}
+
+// Logged over estimated, e.g. 1.25 for a quarter over. Null without an estimate.
+export function estimateRatio(row: Pick<EstimateAccuracyRow, 'estimatedSeconds' | 'actualSeconds'>): number | null {
+    return row.estimatedSeconds > 0 ? row.actualSeconds / row.estimatedSeconds : null
+}
+
+// A row of estimate_accuracy()
+type EstimateAccuracyResult = Pick<EstimateAccuracyRow, 'key' | 'label' | 'tasks'> & {
+    dimension: string
+    estimated_seconds: number
+    actual_seconds: number
+}
+
+const REPORT_GROUPINGS: Record<string, keyof EstimateAccuracyReport> = {
+    employee: 'employees',
+    content_type: 'contentTypes',
+    client: 'clients'
+}
+
+// How finished, estimated tasks compared with the time logged on them, by
+// employee, content type and client. Totalled on the server, see
+// estimate_accuracy().
+export async function getEstimateAccuracy(options: { coordinatorId?: string } = {}): Promise<EstimateAccuracyReport> {
+    const { data, error } = await supabase.rpc('estimate_accuracy', { p_coordinator_id: options.coordinatorId })
+    if (error) throw error
+
+    const report: EstimateAccuracyReport = { employees: [], contentTypes: [], clients: [] }
+    const results = (data || []) as EstimateAccuracyResult[]
+    results.forEach(row => {
+        report[REPORT_GROUPINGS[row.dimension]]?.push({
+            key: row.key,
+            label: row.label,
+            tasks: row.tasks,
+            estimatedSeconds: Number(row.estimated_seconds),
+            actualSeconds: Number(row.actual_seconds)
+        })
+    })
+
+    return report
+}
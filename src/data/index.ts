@@ -0,0 +1,24 @@
+export * from './types'
+export * from './queries'
+export * from './tasks'
+export * from './statuses'
+export * from './subtasks'
+export * from './timeLogs'
+export * from './recurrences'
+export * from './dependencies'
+export * from './permissions'
+export * from './timesheets'
+export * from './profiles'
+export * from './billing'
+export * from './search'
+export * from './customFields'
+export * from './departments'
+export * from './activities'
+export * from './bulkTasks'
+export * from './savedViews'
+export * from './workflows'
+export * from './trash'
+export * from './taskHistory'
+export * from './estimates'
+export * from './capacity'
+export type { Database, Json, Tables, TablesInsert, TablesUpdate } from './database.types'
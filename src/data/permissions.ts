@@ -0,0 +1,39 @@
+import { supabase } from '../lib/supabase'
+import type { RoleCapabilityRow } from './types'
+
+export async function getUserRole(userId: string): Promise<string | null> {
+    const { data, error } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', userId)
+        .single()
+
+    if (error) throw error
+    return data?.role || null
+}
+
+export async function listRoleCapabilities(role?: string): Promise<RoleCapabilityRow[]> {
+    let query = supabase
+        .from('role_capabilities')
+        .select('*')
+
+    if (role) query = query.eq('role', role)
+
+    const { data, error } = await query
+    if (error) throw error
+    return data || []
+}
+
+export async function setRoleCapability(role: string, capability: string, granted: boolean): Promise<void> {
+    const { error } = granted
+        ? await supabase
+            .from('role_capabilities')
+            .upsert({ role, capability }, { onConflict: 'role,capability', ignoreDuplicates: true })
+        : await supabase
+            .from('role_capabilities')
+            .delete()
+            .eq('role', role)
+            .eq('capability', capability)
+
+    if (error) throw error
+}
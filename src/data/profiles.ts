@@ -0,0 +1,15 @@
+import { supabase } from '../lib/supabase'
+import type { ProfileRow } from './types'
+
+export async function listProfiles(options: { role?: string } = {}): Promise<ProfileRow[]> {
+    let query = supabase
+        .from('profiles')
+        .select('*')
+        .order('full_name', { ascending: true })
+
+    if (options.role) query = query.eq('role', options.role)
+
+    const { data, error } = await query
+    if (error) throw error
+    return data || []
+}
@@ -0,0 +1,76 @@
+// PostgREST select strings shared by the repository functions. Keep the
+// embedded resource names in sync with the Raw* shapes that parse them.
+
+export const TASK_ASSIGNEE_COLUMNS = 'id, full_name, email, avatar_url, status'
+
+export const TASK_LIST_SELECT = `
+    *,
+    status:task_statuses(id, label, color, category),
+    assignee:profiles!tasks_assigned_to_fkey(${TASK_ASSIGNEE_COLUMNS}),
+    assignments:task_assignments(
+        user:profiles(${TASK_ASSIGNEE_COLUMNS})
+    ),
+    department:departments!inner(
+        id,
+        name,
+        workspace:workspaces!inner(
+            client_id,
+            client:clients!inner(id, name, cc_id)
+        )
+    ),
+    task_comments(count),
+    subtasks(id, is_completed, estimate_hours)
+`
+
+export const TIME_LOG_SUMMARY_SELECT = 'task_id, duration_seconds, end_time, start_time'
+
+export const TIMESHEET_ENTRY_SELECT = '*, task:tasks(id, title)'
+
+export const RUNNING_TIME_LOG_SELECT = '*, task:tasks(id, title)'
+
+export const TIMESHEET_LIST_SELECT = '*, user:profiles!timesheets_user_id_fkey(id, full_name, email, avatar_url)'
+
+// Logs filtered to one client through their task's department.
+export const BILLABLE_LOG_SELECT = `
+    id, task_id, user_id, subtask_id, subtask_name, start_time, end_time, duration_seconds, is_billable,
+    task:tasks!inner(
+        id,
+        title,
+        content_type,
+        department:departments!inner(workspace:workspaces!inner(client_id))
+    )
+`
+
+export const DEPARTMENT_OPTION_SELECT = 'id, name, workspace:workspaces!inner(client:clients!inner(id, name))'
+
+// The department's client resolves which client a field belongs to.
+export const CUSTOM_FIELD_SELECT = '*, department:departments(workspace:workspaces(client_id))'
+
+export const SAVED_VIEW_SELECT = '*, owner:profiles(id, full_name, email), client:clients(id, name)'
+
+const DEPENDENCY_TASK_COLUMNS = 'id, title, status_id, start_date, due_date, status:task_statuses(label, color, category)'
+
+export const TASK_DEPENDENCY_SELECT = `
+    *,
+    blocker:tasks!task_dependencies_depends_on_id_fkey(${DEPENDENCY_TASK_COLUMNS}),
+    dependent:tasks!task_dependencies_task_id_fkey(${DEPENDENCY_TASK_COLUMNS})
+`
+
+// Same as TASK_DEPENDENCY_SELECT, with the dependent's department and client
+// joined in so the list can be filtered by either.
+export const TASK_DEPENDENCY_BY_CLIENT_SELECT = `
+    *,
+    blocker:tasks!task_dependencies_depends_on_id_fkey(${DEPENDENCY_TASK_COLUMNS}),
+    dependent:tasks!task_dependencies_task_id_fkey!inner(
+        ${DEPENDENCY_TASK_COLUMNS},
+        department_id,
+        department:departments!inner(workspace:workspaces!inner(client_id))
+    )
+`
+
+export const TRASH_ITEM_SELECT = '*, deleter:profiles(id, full_name, email)'
+
+export const TASK_CHANGE_SELECT = '*, changer:profiles(id, full_name, email)'
+
+// Inner join: subtasks of trashed tasks stay hidden
+export const ASSIGNED_SUBTASK_SELECT = '*, task:tasks!inner(id, title)'
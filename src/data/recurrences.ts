@@ -0,0 +1,375 @@
+import { addDays } from 'date-fns'
+import { supabase } from '../lib/supabase'
+import { expandRRule, formatRRule, parseRRule } from '../lib/rrule'
+import type { TablesInsert, TablesUpdate } from './database.types'
+import { ensureDepartmentStatuses, initialStatus, isNotStartedStatus } from './statuses'
+import { assignTask, updateTask } from './tasks'
+import type { TaskRecurrenceRow, TaskRow, TaskStatusRow } from './types'
+
+// How an edit to one instance of a series is applied.
+export type RecurrenceEditScope = 'this' | 'following' | 'all'
+
+type TaskFields = Pick<TablesInsert<'tasks'>, 'title' | 'description' | 'content_type' | 'priority' | 'department_id' | 'start_date' | 'due_date' | 'custom_fields'>
+
+export interface SeriesInput {
+    task: TaskFields
+    assigneeIds: string[]
+    rrule: string
+    horizonDays: number
+}
+
+type SeriesTemplate = Pick<TaskRecurrenceRow,
+    'title' | 'description' | 'content_type' | 'priority' | 'department_id' | 'assignee_ids' | 'start_offset_seconds' | 'due_offset_seconds' | 'custom_fields'
+> & { anchor: Date }
+
+type InstanceRef = Pick<TaskRow, 'id' | 'occurrence_date' | 'is_recurrence_exception'>
+
+type Counted = { count: number }[]
+
+// What shows whether anyone has started on an instance
+type InstanceActivity = Pick<TaskRow, 'id'> & {
+    status: Pick<TaskStatusRow, 'category'> | null
+    subtasks: Counted
+    subtask_time_logs: Counted
+    task_comments: Counted
+}
+
+// A series is anchored on the start date, or the due date when a task has
+// only a deadline. The other date is stored as an offset from the anchor.
+function toTemplate(task: TaskFields, assigneeIds: string[]): SeriesTemplate {
+    const start = task.start_date ? new Date(task.start_date) : null
+    const due = task.due_date ? new Date(task.due_date) : null
+    const anchor = start || due
+    if (!anchor) throw new Error('A recurring task needs a start or due date')
+
+    return {
+        anchor,
+        title: task.title,
+        description: task.description ?? null,
+        content_type: task.content_type ?? null,
+        priority: task.priority ?? null,
+        department_id: task.department_id,
+        assignee_ids: [...new Set(assigneeIds)],
+        custom_fields: task.custom_fields ?? {},
+        start_offset_seconds: start ? 0 : null,
+        due_offset_seconds: due ? Math.round((due.getTime() - anchor.getTime()) / 1000) : null
+    }
+}
+
+function offsetDate(occurrence: Date, offsetSeconds: number | null): string | null {
+    return offsetSeconds === null ? null : new Date(occurrence.getTime() + offsetSeconds * 1000).toISOString()
+}
+
+export async function listRecurrences(options: { clientId?: string | null } = {}): Promise<TaskRecurrenceRow[]> {
+    let query = supabase
+        .from('task_recurrences')
+        .select('*, department:departments!inner(workspace:workspaces!inner(client_id))')
+        .order('created_at', { ascending: true })
+
+    if (options.clientId) query = query.eq('department.workspace.client_id', options.clientId)
+
+    const { data, error } = await query
+    if (error) throw error
+    return (data || []) as TaskRecurrenceRow[]
+}
+
+export async function getRecurrence(recurrenceId: string): Promise<TaskRecurrenceRow> {
+    const { data, error } = await supabase
+        .from('task_recurrences')
+        .select('*')
+        .eq('id', recurrenceId)
+        .single()
+
+    if (error) throw error
+    return data
+}
+
+async function createRecurrence(input: TablesInsert<'task_recurrences'>): Promise<TaskRecurrenceRow> {
+    const { data, error } = await supabase
+        .from('task_recurrences')
+        .insert(input)
+        .select()
+        .single()
+
+    if (error) throw error
+    return data
+}
+
+async function updateRecurrence(recurrenceId: string, patch: TablesUpdate<'task_recurrences'>): Promise<TaskRecurrenceRow> {
+    const { data, error } = await supabase
+        .from('task_recurrences')
+        .update(patch)
+        .eq('id', recurrenceId)
+        .select()
+        .single()
+
+    if (error) throw error
+    return data
+}
+
+async function listInstances(recurrenceId: string, from?: Date): Promise<InstanceRef[]> {
+    let query = supabase
+        .from('tasks')
+        .select('id, occurrence_date, is_recurrence_exception')
+        .eq('recurrence_id', recurrenceId)
+
+    if (from) query = query.gte('occurrence_date', from.toISOString())
+
+    const { data, error } = await query
+    if (error) throw error
+    return data || []
+}
+
+// Removes generated placeholders after `after` so they can be regenerated
+// on the new schedule. Only instances nobody has started on go: still in a
+// backlog column, with no subtasks, logged time or comments. Instances edited
+// on their own are kept too. Throws when one couldn't be removed, rather
+// than leave it next to its regenerated replacement.
+async function deleteInstancesAfter(recurrenceId: string, after: Date, keepTaskId: string): Promise<void> {
+    const { data, error } = await supabase
+        .from('tasks')
+        .select('id, status:task_statuses(category), subtasks(count), subtask_time_logs(count), task_comments(count)')
+        .eq('recurrence_id', recurrenceId)
+        .eq('is_recurrence_exception', false)
+        .is('deleted_at', null)
+        .gt('occurrence_date', after.toISOString())
+        .neq('id', keepTaskId)
+
+    if (error) throw error
+
+    const untouched = ((data || []) as unknown as InstanceActivity[])
+        .filter(t => isNotStartedStatus(t.status) &&
+            [t.subtasks, t.subtask_time_logs, t.task_comments].every(rows => (rows[0]?.count ?? 0) === 0))
+        .map(t => t.id)
+    if (untouched.length === 0) return
+
+    const { data: deleted, error: deleteError } = await supabase.rpc('delete_recurrence_instances', {
+        p_recurrence_id: recurrenceId,
+        p_task_ids: untouched
+    })
+
+    if (deleteError) throw deleteError
+    if (deleted < untouched.length) {
+        throw new Error('Someone started on a later instance meanwhile; reload the series and try again')
+    }
+}
+
+async function updateInstances(taskIds: string[], patch: TablesUpdate<'tasks'>, assigneeIds: string[] | null): Promise<void> {
+    if (taskIds.length === 0) return
+
+    const { error } = await supabase
+        .from('tasks')
+        .update(patch)
+        .in('id', taskIds)
+
+    if (error) throw error
+    if (assigneeIds) await Promise.all(taskIds.map(id => assignTask(id, assigneeIds)))
+}
+
+// Occurrences of a series inside [from, to] that have not been generated yet.
+// Used to preview a series beyond its horizon.
+export function projectOccurrences(recurrence: TaskRecurrenceRow, from: Date, to: Date): Date[] {
+    try {
+        const rule = parseRRule(recurrence.rrule)
+        const generatedUntil = recurrence.generated_until ? new Date(recurrence.generated_until) : null
+        const start = generatedUntil && generatedUntil >= from ? new Date(generatedUntil.getTime() + 1) : from
+        return expandRRule(rule, new Date(recurrence.dtstart), start, to)
+    } catch (error) {
+        console.error(`Invalid recurrence rule on ${recurrence.id}:`, error)
+        return []
+    }
+}
+
+// Creates the tasks a series owes up to its horizon and moves the
+// generated_until watermark forward. Returns the number of tasks created.
+export async function generateOccurrences(recurrence: TaskRecurrenceRow, now = new Date()): Promise<number> {
+    const horizon = addDays(now, recurrence.horizon_days)
+    const dates = projectOccurrences(recurrence, new Date(recurrence.dtstart), horizon)
+    let created = 0
+
+    if (dates.length > 0) {
+        const statuses = await ensureDepartmentStatuses(recurrence.department_id)
+        const firstStatus = initialStatus(statuses)
+
+        const rows: TablesInsert<'tasks'>[] = dates.map(occurrence => ({
+            title: recurrence.title,
+            description: recurrence.description,
+            content_type: recurrence.content_type,
+            priority: recurrence.priority,
+            department_id: recurrence.department_id,
+            status_id: firstStatus?.id ?? null,
+            assigned_to: recurrence.assignee_ids[0] ?? null,
+            custom_fields: recurrence.custom_fields,
+            start_date: offsetDate(occurrence, recurrence.start_offset_seconds),
+            due_date: offsetDate(occurrence, recurrence.due_offset_seconds),
+            recurrence_id: recurrence.id,
+            occurrence_date: occurrence.toISOString()
+        }))
+
+        const { data, error } = await supabase
+            .from('tasks')
+            .upsert(rows, { onConflict: 'recurrence_id,occurrence_date', ignoreDuplicates: true })
+            .select('id')
+
+        if (error) throw error
+        created = data?.length || 0
+
+        if (recurrence.assignee_ids.length > 0) {
+            await Promise.all((data || []).map(t => assignTask(t.id, recurrence.assignee_ids)))
+        }
+    }
+
+    await updateRecurrence(recurrence.id, { generated_until: horizon.toISOString() })
+    return created
+}
+
+// Brings every series up to its horizon. Series that have ended are skipped.
+export async function topUpRecurrences(recurrences: TaskRecurrenceRow[], now = new Date()): Promise<number> {
+    let created = 0
+    for (const recurrence of recurrences) {
+        if (recurrence.until && recurrence.generated_until && new Date(recurrence.until) <= new Date(recurrence.generated_until)) continue
+        if (recurrence.generated_until && new Date(recurrence.generated_until) >= addDays(now, recurrence.horizon_days)) continue
+        created += await generateOccurrences(recurrence, now)
+    }
+    return created
+}
+
+// Starts a new series. When `existingTaskId` is given that task becomes the
+// first occurrence; otherwise the first occurrence is generated like the rest.
+export async function createRecurringSeries(input: SeriesInput, existingTaskId?: string): Promise<TaskRecurrenceRow> {
+    const { anchor, ...template } = toTemplate(input.task, input.assigneeIds)
+    parseRRule(input.rrule)
+
+    const recurrence = await createRecurrence({
+        ...template,
+        rrule: input.rrule,
+        dtstart: anchor.toISOString(),
+        horizon_days: input.horizonDays,
+        generated_until: existingTaskId ? anchor.toISOString() : null
+    })
+
+    if (existingTaskId) {
+        await updateTask(existingTaskId, { recurrence_id: recurrence.id, occurrence_date: anchor.toISOString() })
+    }
+
+    await generateOccurrences(recurrence)
+    return recurrence
+}
+
+// Ends the series just before `occurrence`. COUNT rules are rewritten as
+// UNTIL so the occurrences already created keep their meaning.
+function ruleEndingBefore(rrule: string, occurrence: Date): { rrule: string; until: string } {
+    const until = new Date(occurrence.getTime() - 1)
+    const rule = parseRRule(rrule)
+    return { rrule: formatRRule({ ...rule, count: undefined, until }), until: until.toISOString() }
+}
+
+// The part of a COUNT rule left from `occurrence` on, for the second half of
+// a split series.
+function remainingRule(recurrence: TaskRecurrenceRow, occurrence: Date): string {
+    const rule = parseRRule(recurrence.rrule)
+    if (!rule.count) return recurrence.rrule
+
+    const dtstart = new Date(recurrence.dtstart)
+    const before = expandRRule(rule, dtstart, dtstart, new Date(occurrence.getTime() - 1), rule.count).length
+    return formatRRule({ ...rule, count: Math.max(rule.count - before, 1) })
+}
+
+// Applies an edit made to one instance of a series. `rrule` is null when the
+// user switched the task to "Does not repeat".
+export async function editRecurringTask(
+    task: TaskRow,
+    scope: RecurrenceEditScope,
+    changes: { task: TaskFields & Pick<TablesUpdate<'tasks'>, 'status_id' | 'assigned_to'>; assigneeIds: string[]; rrule: string | null; horizonDays: number },
+    now = new Date()
+): Promise<void> {
+    if (!task.recurrence_id || scope === 'this') {
+        await updateTask(task.id, { ...changes.task, is_recurrence_exception: !!task.recurrence_id })
+        await assignTask(task.id, changes.assigneeIds)
+        return
+    }
+
+    const recurrence = await getRecurrence(task.recurrence_id)
+    const { anchor, ...template } = toTemplate(changes.task, changes.assigneeIds)
+    const oldOccurrence = task.occurrence_date ? new Date(task.occurrence_date) : anchor
+    const isFirst = oldOccurrence.getTime() <= new Date(recurrence.dtstart).getTime()
+    if (changes.rrule) parseRRule(changes.rrule)
+
+    const timingChanged = anchor.getTime() !== oldOccurrence.getTime() ||
+        changes.rrule !== recurrence.rrule ||
+        template.start_offset_seconds !== recurrence.start_offset_seconds ||
+        template.due_offset_seconds !== recurrence.due_offset_seconds ||
+        template.department_id !== recurrence.department_id
+    const assigneesChanged = template.assignee_ids.slice().sort().join() !== recurrence.assignee_ids.slice().sort().join()
+    const shared: TablesUpdate<'tasks'> = {
+        title: template.title,
+        description: template.description,
+        content_type: template.content_type,
+        priority: template.priority,
+        custom_fields: template.custom_fields,
+        assigned_to: template.assignee_ids[0] ?? null
+    }
+
+    // The edited instance itself always takes the full change
+    await updateTask(task.id, { ...changes.task, occurrence_date: anchor.toISOString() })
+    await assignTask(task.id, changes.assigneeIds)
+
+    let target = recurrence
+    if (scope === 'following' && !isFirst) {
+        // Split: the old series stops before this occurrence and a new one
+        // carries it and everything after
+        await updateRecurrence(recurrence.id, ruleEndingBefore(recurrence.rrule, oldOccurrence))
+
+        if (!changes.rrule) {
+            await deleteInstancesAfter(recurrence.id, oldOccurrence < now ? now : oldOccurrence, task.id)
+            await updateTask(task.id, { recurrence_id: null, occurrence_date: null })
+            return
+        }
+
+        target = await createRecurrence({
+            ...template,
+            rrule: changes.rrule === recurrence.rrule ? remainingRule(recurrence, oldOccurrence) : changes.rrule,
+            dtstart: anchor.toISOString(),
+            horizon_days: changes.horizonDays,
+            generated_until: timingChanged ? anchor.toISOString() : recurrence.generated_until
+        })
+
+        const moved = await listInstances(recurrence.id, oldOccurrence)
+        const { error } = await supabase
+            .from('tasks')
+            .update({ recurrence_id: target.id })
+            .in('id', moved.map(t => t.id))
+        if (error) throw error
+    } else {
+        if (!changes.rrule) {
+            // Stop the whole series; what already happened stays
+            const end = anchor > now ? anchor : now
+            await updateRecurrence(recurrence.id, { until: end.toISOString(), generated_until: end.toISOString() })
+            await deleteInstancesAfter(recurrence.id, now, task.id)
+            return
+        }
+
+        const shift = anchor.getTime() - oldOccurrence.getTime()
+        target = await updateRecurrence(recurrence.id, {
+            ...template,
+            rrule: changes.rrule,
+            dtstart: new Date(new Date(recurrence.dtstart).getTime() + shift).toISOString(),
+            horizon_days: changes.horizonDays
+        })
+    }
+
+    if (timingChanged) {
+        // Past occurrences keep their dates; a split series only owns what
+        // comes after the edited instance
+        const regenerateFrom = scope === 'following' && anchor > now ? anchor : now
+        await deleteInstancesAfter(target.id, regenerateFrom, task.id)
+        target = await updateRecurrence(target.id, { generated_until: regenerateFrom.toISOString() })
+    }
+
+    const remaining = (await listInstances(target.id))
+        .filter(t => !t.is_recurrence_exception && t.id !== task.id)
+        .map(t => t.id)
+    await updateInstances(remaining, shared, assigneesChanged ? template.assignee_ids : null)
+
+    await generateOccurrences(target, now)
+}
@@ -0,0 +1,115 @@
+import { supabase } from '../lib/supabase'
+import { SAVED_VIEW_SELECT } from './queries'
+import { one, type Embedded } from './tasks'
+import type { Json } from './database.types'
+import type { ClientRow, CustomFieldValue, ProfileRow, SavedView, SavedViewRow, SavedViewSort, SavedViewState, SavedViewTarget } from './types'
+
+interface RawSavedView extends SavedViewRow {
+    owner: Embedded<Pick<ProfileRow, 'id' | 'full_name' | 'email'>>
+    client: Embedded<Pick<ClientRow, 'id' | 'name'>>
+}
+
+export const SAVED_VIEW_TARGETS: { target: SavedViewTarget; label: string }[] = [
+    { target: 'creative-progress', label: 'Content Calendar' },
+    { target: 'tasks-tracker', label: 'Tasks Tracker' }
+]
+
+export function isSavedViewTarget(view: string | null): view is SavedViewTarget {
+    return SAVED_VIEW_TARGETS.some(t => t.target === view)
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value)
+
+// Reads a stored or URL-decoded state, dropping anything malformed so an
+// old or hand-edited view still opens.
+export function normalizeViewState(raw: unknown): SavedViewState {
+    const state = isRecord(raw) ? raw : {}
+    const filters: Record<string, CustomFieldValue> = {}
+    if (isRecord(state.filters)) {
+        Object.entries(state.filters).forEach(([key, value]) => {
+            if (typeof value === 'string' || typeof value === 'number') filters[key] = value
+            else if (Array.isArray(value)) filters[key] = value.filter((v): v is string => typeof v === 'string')
+        })
+    }
+    const sort = isRecord(state.sort) && typeof state.sort.key === 'string' && (state.sort.direction === 'asc' || state.sort.direction === 'desc')
+        ? { key: state.sort.key, direction: state.sort.direction } as SavedViewSort
+        : null
+
+    return {
+        viewMode: typeof state.viewMode === 'string' ? state.viewMode : '',
+        search: typeof state.search === 'string' ? state.search : '',
+        filters,
+        sort,
+        groupBy: typeof state.groupBy === 'string' ? state.groupBy : null,
+        columns: Array.isArray(state.columns) ? state.columns.filter((c): c is string => typeof c === 'string') : []
+    }
+}
+
+// The user's own views and the ones shared with their client teams.
+export async function listSavedViews(options: { target?: SavedViewTarget } = {}): Promise<SavedView[]> {
+    let query = supabase
+        .from('saved_views')
+        .select(SAVED_VIEW_SELECT)
+        .order('name', { ascending: true })
+
+    if (options.target) query = query.eq('target', options.target)
+
+    const { data, error } = await query
+    if (error) throw error
+
+    return ((data || []) as RawSavedView[]).map(view => ({
+        ...view,
+        target: view.target as SavedViewTarget,
+        state: normalizeViewState(view.state),
+        owner: one(view.owner),
+        client: one(view.client)
+    }))
+}
+
+export async function createSavedView(input: {
+    name: string
+    target: SavedViewTarget
+    state: SavedViewState
+    clientId: string | null
+}): Promise<SavedViewRow> {
+    const { data, error } = await supabase
+        .from('saved_views')
+        .insert({
+            name: input.name,
+            target: input.target,
+            state: input.state as Json,
+            client_id: input.clientId
+        })
+        .select()
+        .single()
+
+    if (error) throw error
+    return data
+}
+
+export async function updateSavedView(viewId: string, patch: {
+    name?: string
+    state?: SavedViewState
+    clientId?: string | null
+}): Promise<void> {
+    const { error } = await supabase
+        .from('saved_views')
+        .update({
+            name: patch.name,
+            state: patch.state as Json | undefined,
+            client_id: patch.clientId
+        })
+        .eq('id', viewId)
+
+    if (error) throw error
+}
+
+export async function deleteSavedView(viewId: string): Promise<void> {
+    const { error } = await supabase
+        .from('saved_views')
+        .delete()
+        .eq('id', viewId)
+
+    if (error) throw error
+}
@@ -0,0 +1,32 @@
+import { supabase } from '../lib/supabase'
+import type { SearchResult, SearchResultKind } from './types'
+
+interface RawSearchRow {
+    kind: SearchResultKind
+    id: string
+    task_id: string | null
+    client_id: string | null
+    title: string
+    snippet: string | null
+    rank: number
+}
+
+// Ranked matches across tasks, subtasks, comments, meetings and people that
+// the signed-in user is allowed to see.
+export async function searchWorkspace(query: string, limitPerKind = 8): Promise<SearchResult[]> {
+    if (!query.trim()) return []
+
+    const { data, error } = await supabase.rpc('search_workspace', { p_query: query, p_limit: limitPerKind })
+    if (error) throw error
+
+    return ((data || []) as RawSearchRow[]).map(row => ({
+        kind: row.kind,
+        id: row.id,
+        taskId: row.task_id,
+        clientId: row.client_id,
+        title: row.title,
+        // ts_headline returns the whole (empty) text when nothing matched
+        snippet: row.snippet?.trim() || null,
+        rank: row.rank
+    }))
+}
@@ -0,0 +1,170 @@
+import { supabase } from '../lib/supabase'
+import type { TablesInsert, TablesUpdate } from './database.types'
+import type { StatusCategory, TaskStatusRow } from './types'
+
+// Offered to a department whose board has no columns yet, and seeded when
+// a task is filed into one.
+export const DEFAULT_STATUSES: Pick<TaskStatusRow, 'label' | 'position' | 'color' | 'category'>[] = [
+    { label: 'To Do', position: 0, color: '#e2e8f0', category: 'backlog' },
+    { label: 'In Progress', position: 1, color: '#fef3c7', category: 'active' },
+    { label: 'Done', position: 2, color: '#ecfdf5', category: 'done' }
+]
+
+// In board order.
+export const STATUS_CATEGORIES: { category: StatusCategory; label: string }[] = [
+    { category: 'backlog', label: 'Backlog' },
+    { category: 'active', label: 'Active' },
+    { category: 'review', label: 'Review' },
+    { category: 'done', label: 'Done' },
+    { category: 'cancelled', label: 'Cancelled' }
+]
+
+export async function listStatuses(options: { departmentId?: string; departmentIds?: string[] } = {}): Promise<TaskStatusRow[]> {
+    let query = supabase
+        .from('task_statuses')
+        .select('*')
+        .order('position', { ascending: true })
+
+    if (options.departmentId) query = query.eq('department_id', options.departmentId)
+    if (options.departmentIds) query = query.in('department_id', options.departmentIds)
+
+    const { data, error } = await query
+    if (error) throw error
+    return data || []
+}
+
+export async function ensureDepartmentStatuses(departmentId: string): Promise<TaskStatusRow[]> {
+    const existing = await listStatuses({ departmentId })
+    if (existing.length > 0) return existing
+
+    const { data, error } = await supabase
+        .from('task_statuses')
+        .insert(DEFAULT_STATUSES.map(s => ({ ...s, department_id: departmentId })))
+        .select()
+        .order('position')
+
+    if (error) throw error
+    return data || []
+}
+
+export async function createStatus(input: TablesInsert<'task_statuses'>): Promise<void> {
+    const { error } = await supabase
+        .from('task_statuses')
+        .insert(input)
+
+    if (error) throw error
+}
+
+export async function updateStatus(statusId: string, patch: TablesUpdate<'task_statuses'>): Promise<void> {
+    const { error } = await supabase
+        .from('task_statuses')
+        .update(patch)
+        .eq('id', statusId)
+
+    if (error) throw error
+}
+
+// Moves the status's tasks into `replacementId`, a column of the same
+// department, then deletes it. Returns how many tasks moved.
+export async function deleteStatus(statusId: string, replacementId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('delete_task_status', {
+        p_status_id: statusId,
+        p_replacement_id: replacementId
+    })
+
+    if (error) throw error
+    return data ?? 0
+}
+
+// Appends the source department's columns that the target lacks by label,
+// with their colour, category, limits and entry rules. Returns how many
+// were added.
+export async function copyStatuses(fromDepartmentId: string, toDepartmentId: string): Promise<number> {
+    const [source, target] = await Promise.all([
+        listStatuses({ departmentId: fromDepartmentId }),
+        listStatuses({ departmentId: toDepartmentId })
+    ])
+
+    const existing = new Set(target.map(s => s.label.toLowerCase()))
+    const missing = source.filter(s => !existing.has(s.label.toLowerCase()))
+    if (missing.length === 0) return 0
+
+    const start = target.reduce((max, s) => Math.max(max, s.position + 1), 0)
+    const { error } = await supabase
+        .from('task_statuses')
+        .insert(missing.map((s, index) => ({
+            department_id: toDepartmentId,
+            label: s.label,
+            color: s.color,
+            category: s.category,
+            position: start + index,
+            wip_limit: s.wip_limit,
+            wip_policy: s.wip_policy,
+            entry_requirements: s.entry_requirements,
+            entry_actions: s.entry_actions
+        })))
+
+    if (error) throw error
+    return missing.length
+}
+
+// Every task in the status, not only the ones a board has loaded.
+export async function countTasksInStatus(statusId: string): Promise<number> {
+    const { count, error } = await supabase
+        .from('tasks')
+        .select('id', { count: 'exact', head: true })
+        .eq('status_id', statusId)
+
+    if (error) throw error
+    return count || 0
+}
+
+// Persists the given order as each status's position.
+export async function reorderStatuses(departmentId: string, ordered: TaskStatusRow[]): Promise<void> {
+    const { error } = await supabase
+        .from('task_statuses')
+        .upsert(ordered.map((s, index) => ({
+            id: s.id,
+            position: index,
+            label: s.label,
+            department_id: departmentId
+        })))
+
+    if (error) throw error
+}
+
+type CategorizedStatus = Pick<TaskStatusRow, 'category'> | null | undefined
+
+// A task without a status counts as not started.
+export function statusCategory(status: CategorizedStatus): StatusCategory {
+    return STATUS_CATEGORIES.find(c => c.category === status?.category)?.category ?? 'backlog'
+}
+
+// Done and cancelled tasks are finished: they no longer block, remind or
+// count as open work.
+export function isClosedStatus(status: CategorizedStatus): boolean {
+    const category = statusCategory(status)
+    return category === 'done' || category === 'cancelled'
+}
+
+export function isNotStartedStatus(status: CategorizedStatus): boolean {
+    return statusCategory(status) === 'backlog'
+}
+
+// Category first, then the department's own order.
+export function compareStatuses(a: Pick<TaskStatusRow, 'category' | 'position'>, b: Pick<TaskStatusRow, 'category' | 'position'>): number {
+    const rank = (s: CategorizedStatus) => STATUS_CATEGORIES.findIndex(c => c.category === statusCategory(s))
+    return rank(a) - rank(b) || a.position - b.position
+}
+
+// Where a new task starts: the first backlog column, else the first column.
+export function initialStatus<T extends Pick<TaskStatusRow, 'category' | 'position'>>(statuses: T[]): T | undefined {
+    const ordered = [...statuses].sort(compareStatuses)
+    return ordered.find(s => isNotStartedStatus(s)) ?? ordered[0]
+}
+
+// Cross-department views keep every department's own columns, ordered by
+// category so the departments' matching columns sit side by side.
+export function sortStatusesAcrossDepartments<T extends Pick<TaskStatusRow, 'category' | 'position'>>(statuses: T[]): T[] {
+    return [...statuses].sort(compareStatuses)
+}
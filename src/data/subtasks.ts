@@ -0,0 +1,198 @@
+import { supabase } from '../lib/supabase'
+import type { TablesUpdate } from './database.types'
+import { ASSIGNED_SUBTASK_SELECT } from './queries'
+import type { AssignedSubtask, SubtaskRow } from './types'
+
+type SubtaskNode = Pick<SubtaskRow, 'id' | 'parent_id' | 'position'>
+
+// Top-level subtasks in order, each followed by the subtasks nested under
+// it. A subtask whose parent isn't in the list shows at the top level.
+export function orderSubtasks<T extends SubtaskNode>(subtasks: T[]): T[] {
+    const ids = new Set(subtasks.map(s => s.id))
+    const isTopLevel = (s: T) => !s.parent_id || !ids.has(s.parent_id)
+    const sorted = [...subtasks].sort((a, b) => a.position - b.position)
+
+    return sorted
+        .filter(isTopLevel)
+        .flatMap(parent => [parent, ...sorted.filter(s => !isTopLevel(s) && s.parent_id === parent.id)])
+}
+
+// Numbers each subtask by its place among its siblings in the list.
+function renumber<T extends SubtaskNode>(subtasks: T[]): T[] {
+    const counts = new Map<string | null, number>()
+    return subtasks.map(s => {
+        const position = counts.get(s.parent_id) ?? 0
+        counts.set(s.parent_id, position + 1)
+        return { ...s, position }
+    })
+}
+
+// Moves the subtask at `from` in the displayed list to `to`, as a drag and
+// drop reports them. A top-level subtask takes its nested subtasks along and
+// lands between groups, never inside one. A nested subtask goes under the
+// top-level subtask that ends up above it, or to the top level when dropped
+// first.
+export function moveSubtask<T extends SubtaskNode>(subtasks: T[], from: number, to: number): T[] {
+    const moved = subtasks[from]
+    if (!moved || from === to) return subtasks
+
+    const block = moved.parent_id ? [moved] : [moved, ...subtasks.filter(s => s.parent_id === moved.id)]
+    const rest = subtasks.filter(s => !block.includes(s))
+
+    // `to` counts rows without the dragged one, whose nested rows follow it
+    let index = Math.min(to > from ? Math.max(from, to - (block.length - 1)) : to, rest.length)
+
+    if (moved.parent_id) {
+        const parent = rest.slice(0, index).reverse().find(s => !s.parent_id)
+        block[0] = { ...moved, parent_id: parent?.id ?? null }
+    } else {
+        while (rest[index]?.parent_id) index++
+    }
+
+    return renumber([...rest.slice(0, index), ...block, ...rest.slice(index)])
+}
+
+// The top-level subtask a subtask would nest under: the closest one above
+// it. Null when it can't be nested, being nested already, having nested
+// subtasks of its own, or being first.
+export function nestingParent<T extends SubtaskNode>(subtasks: T[], id: string): T | null {
+    const index = subtasks.findIndex(s => s.id === id)
+    const subtask = subtasks[index]
+    if (!subtask || subtask.parent_id || subtasks.some(s => s.parent_id === id)) return null
+    return subtasks.slice(0, index).reverse().find(s => !s.parent_id) ?? null
+}
+
+// Nests the subtask as the last one under the top-level subtask above it.
+export function indentSubtask<T extends SubtaskNode>(subtasks: T[], id: string): T[] {
+    const parent = nestingParent(subtasks, id)
+    if (!parent) return subtasks
+    return renumber(subtasks.map(s => s.id === id ? { ...s, parent_id: parent.id } : s))
+}
+
+// Brings a nested subtask back to the top level, just after its parent's group.
+export function outdentSubtask<T extends SubtaskNode>(subtasks: T[], id: string): T[] {
+    const subtask = subtasks.find(s => s.id === id)
+    if (!subtask?.parent_id) return subtasks
+
+    const rest = subtasks.filter(s => s.id !== id)
+    const parentIndex = rest.findIndex(s => s.id === subtask.parent_id)
+    let index = parentIndex + 1
+    while (rest[index]?.parent_id) index++
+
+    return renumber([...rest.slice(0, index), { ...subtask, parent_id: null }, ...rest.slice(index)])
+}
+
+// A task's subtasks in display order, see orderSubtasks.
+export async function listSubtasks(taskId: string): Promise<SubtaskRow[]> {
+    const { data, error } = await supabase
+        .from('subtasks')
+        .select('*')
+        .eq('task_id', taskId)
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true })
+
+    if (error) throw error
+    return orderSubtasks(data || [])
+}
+
+// Open subtasks assigned to the user, soonest due first.
+export async function listAssignedSubtasks(userId: string): Promise<AssignedSubtask[]> {
+    const { data, error } = await supabase
+        .from('subtasks')
+        .select(ASSIGNED_SUBTASK_SELECT)
+        .eq('assigned_to', userId)
+        .eq('is_completed', false)
+        .order('due_date', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: true })
+
+    if (error) throw error
+    return (data || []) as AssignedSubtask[]
+}
+
+// Adds a top-level subtask at `position` among the task's subtasks.
+export async function addSubtask(taskId: string, title: string, position = 0): Promise<SubtaskRow> {
+    const { data, error } = await supabase
+        .from('subtasks')
+        .insert({ task_id: taskId, title, is_completed: false, position })
+        .select()
+        .single()
+
+    if (error) throw error
+    return data
+}
+
+export async function updateSubtask(subtaskId: string, patch: TablesUpdate<'subtasks'>): Promise<void> {
+    const { error } = await supabase
+        .from('subtasks')
+        .update(patch)
+        .eq('id', subtaskId)
+
+    if (error) throw error
+}
+
+export async function setSubtaskCompleted(subtaskId: string, isCompleted: boolean): Promise<void> {
+    const { error } = await supabase
+        .from('subtasks')
+        .update({ is_completed: isCompleted })
+        .eq('id', subtaskId)
+
+    if (error) throw error
+}
+
+export async function renameSubtask(subtaskId: string, title: string): Promise<void> {
+    const { error } = await supabase
+        .from('subtasks')
+        .update({ title })
+        .eq('id', subtaskId)
+
+    if (error) throw error
+}
+
+export async function setSubtaskEstimate(subtaskId: string, estimateHours: number | null): Promise<void> {
+    const { error } = await supabase
+        .from('subtasks')
+        .update({ estimate_hours: estimateHours })
+        .eq('id', subtaskId)
+
+    if (error) throw error
+}
+
+// Saves the nesting and order of a task's subtasks as listed. Only ids and
+// parents are sent, so titles and other fields edited meanwhile stay.
+export async function reorderSubtasks(taskId: string, ordered: Pick<SubtaskRow, 'id' | 'parent_id'>[]): Promise<void> {
+    const { error } = await supabase.rpc('reorder_subtasks', {
+        p_task_id: taskId,
+        p_ids: ordered.map(s => s.id),
+        p_parents: ordered.map(s => s.parent_id)
+    })
+
+    if (error) throw error
+}
+
+// Deleting a subtask deletes the subtasks nested under it.
+export async function deleteSubtask(subtaskId: string): Promise<void> {
+    const { error } = await supabase
+        .from('subtasks')
+        .delete()
+        .eq('id', subtaskId)
+
+    if (error) throw error
+}
+
+// Turns the subtask into a task next to its own. Returns the new task's id.
+export async function convertSubtaskToTask(subtaskId: string): Promise<string> {
+    const { data, error } = await supabase.rpc('convert_subtask_to_task', { p_subtask_id: subtaskId })
+    if (error) throw error
+    return data
+}
+
+// Turns the task into a subtask of `parentTaskId` and moves it to the trash.
+// Returns the new subtask's id.
+export async function convertTaskToSubtask(taskId: string, parentTaskId: string): Promise<string> {
+    const { data, error } = await supabase.rpc('convert_task_to_subtask', {
+        p_task_id: taskId,
+        p_parent_task_id: parentTaskId
+    })
+    if (error) throw error
+    return data
+}
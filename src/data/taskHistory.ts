@@ -0,0 +1,75 @@
+import { supabase } from '../lib/supabase'
+import type { Json, TablesUpdate } from './database.types'
+import { TASK_CHANGE_SELECT } from './queries'
+import { assignTask, listTaskAssigneeIds, one, updateTask, type Embedded } from './tasks'
+import type { ProfileRow, TaskChange, TaskChangeRow } from './types'
+
+// Labels for the task columns the history records. Custom fields are
+// logged as 'custom_fields.<field id>' and named from their definitions.
+export const TASK_HISTORY_FIELDS: Record<string, string> = {
+    title: 'Title',
+    description: 'Description',
+    status_id: 'Status',
+    priority: 'Priority',
+    assigned_to: 'Assignee',
+    assignees: 'Assignees',
+    department_id: 'Department',
+    content_type: 'Content type',
+    start_date: 'Start date',
+    due_date: 'Due date',
+    estimate_hours: 'Estimate'
+}
+
+const CUSTOM_FIELD_PREFIX = 'custom_fields.'
+
+interface RawTaskChange extends TaskChangeRow {
+    changer: Embedded<Pick<ProfileRow, 'id' | 'full_name' | 'email'>>
+}
+
+// The custom field a change touched, or null for a task column.
+export function changedCustomFieldId(change: Pick<TaskChangeRow, 'field'>): string | null {
+    return change.field.startsWith(CUSTOM_FIELD_PREFIX) ? change.field.slice(CUSTOM_FIELD_PREFIX.length) : null
+}
+
+// Every recorded change to the task, newest first.
+export async function listTaskChanges(taskId: string): Promise<TaskChange[]> {
+    const { data, error } = await supabase
+        .from('task_changes')
+        .select(TASK_CHANGE_SELECT)
+        .eq('task_id', taskId)
+        .order('changed_at', { ascending: false })
+
+    if (error) throw error
+    return ((data || []) as RawTaskChange[]).map(c => ({ ...c, changer: one(c.changer) }))
+}
+
+// Puts the field back to its value before the change. The revert is itself
+// a change and shows up in the history.
+export async function revertTaskChange(change: TaskChangeRow): Promise<void> {
+    if (change.field === 'assignees') {
+        const current = await listTaskAssigneeIds(change.task_id)
+        const ids = change.new_value
+            ? current.filter(id => id !== change.new_value)
+            : [...current, change.old_value as string]
+        await assignTask(change.task_id, ids)
+        return
+    }
+
+    const fieldId = changedCustomFieldId(change)
+    if (fieldId) {
+        const { data, error } = await supabase
+            .from('tasks')
+            .select('custom_fields')
+            .eq('id', change.task_id)
+            .single()
+
+        if (error) throw error
+        const values = { ...(data.custom_fields as Record<string, Json>) }
+        if (change.old_value === null) delete values[fieldId]
+        else values[fieldId] = change.old_value
+        await updateTask(change.task_id, { custom_fields: values })
+        return
+    }
+
+    await updateTask(change.task_id, { [change.field]: change.old_value } as TablesUpdate<'tasks'>)
+}
@@ -0,0 +1,191 @@
+import { supabase } from '../lib/supabase'
+import type { TablesInsert, TablesUpdate } from './database.types'
+import { TASK_LIST_SELECT } from './queries'
+import type { ClientRow, CustomFieldFilter, DepartmentRow, SubtaskRow, TaskAssignee, TaskListItem, TaskRank, TaskRow, TaskStatusRow } from './types'
+
+// PostgREST returns to-one embeds as an object, but older relationships
+// without a unique constraint come back as one-element arrays.
+export type Embedded<T> = T | T[] | null
+
+interface RawTaskListRow extends TaskRow {
+    status: Embedded<Pick<TaskStatusRow, 'id' | 'label' | 'color' | 'category'>>
+    assignee: Embedded<TaskAssignee>
+    assignments: { user: Embedded<TaskAssignee> }[] | null
+    department: Embedded<Pick<DepartmentRow, 'id' | 'name'> & {
+        workspace: Embedded<{
+            client_id: string
+            client: Embedded<Pick<ClientRow, 'id' | 'name' | 'cc_id'>>
+        }>
+    }>
+    task_comments: { count: number }[] | null
+    subtasks: Pick<SubtaskRow, 'id' | 'is_completed' | 'estimate_hours'>[] | null
+}
+
+export interface ListTasksOptions {
+    clientId?: string | null
+    coordinatorId?: string | null
+    departmentId?: string | null
+    assigneeId?: string | null
+    customFieldFilters?: CustomFieldFilter[]
+    page?: number
+    pageSize?: number
+    orderBy?: keyof TaskRow
+    ascending?: boolean
+}
+
+export interface TaskPage {
+    tasks: TaskListItem[]
+    count: number
+}
+
+export function one<T>(value: Embedded<T> | undefined): T | null {
+    if (Array.isArray(value)) return value[0] ?? null
+    return value ?? null
+}
+
+function toTaskListItem(raw: RawTaskListRow): TaskListItem {
+    const { assignee, assignments, department, task_comments, subtasks, status, ...row } = raw
+
+    // Merge legacy assignee with new assignments
+    const assignees = new Map<string, TaskAssignee>()
+    const legacy = one(assignee)
+    if (legacy) assignees.set(legacy.id, legacy)
+    assignments?.forEach(a => {
+        const user = one(a.user)
+        if (user) assignees.set(user.id, user)
+    })
+
+    const dept = one(department)
+    const workspace = one(dept?.workspace)
+
+    return {
+        ...row,
+        status: one(status),
+        assignees: Array.from(assignees.values()),
+        department: dept ? { id: dept.id, name: dept.name } : null,
+        client: one(workspace?.client),
+        comments_count: task_comments?.[0]?.count || 0,
+        subtasks: subtasks || []
+    }
+}
+
+export async function listTaskIdsForAssignee(userId: string): Promise<string[]> {
+    const { data, error } = await supabase
+        .from('task_assignments')
+        .select('task_id')
+        .eq('user_id', userId)
+
+    if (error) throw error
+    return data?.map(a => a.task_id) || []
+}
+
+export async function listTasks(options: ListTasksOptions = {}): Promise<TaskPage> {
+    const { clientId, coordinatorId, departmentId, assigneeId, customFieldFilters = [], page, pageSize = 20, orderBy = 'created_at', ascending = false } = options
+
+    let query = supabase
+        .from('tasks')
+        .select(TASK_LIST_SELECT, { count: 'exact' })
+        .order(orderBy, { ascending })
+
+    if (clientId) query = query.eq('department.workspace.client_id', clientId)
+    if (coordinatorId) query = query.eq('department.workspace.client.cc_id', coordinatorId)
+    if (departmentId) query = query.eq('department_id', departmentId)
+
+    if (assigneeId) {
+        // Tasks where the user is assigned directly OR via task_assignments
+        const taskIds = await listTaskIdsForAssignee(assigneeId)
+        query = taskIds.length > 0
+            ? query.or(`assigned_to.eq.${assigneeId},id.in.(${taskIds.join(',')})`)
+            : query.eq('assigned_to', assigneeId)
+    }
+
+    customFieldFilters.forEach(({ field, value }) => {
+        if (field.field_type === 'text' || field.field_type === 'url') {
+            query = query.ilike(`custom_fields->>"${field.id}"`, `%${value}%`)
+        } else {
+            const match = field.field_type === 'multi_select' && !Array.isArray(value) ? [value] : value
+            query = query.contains('custom_fields', { [field.id]: match })
+        }
+    })
+
+    if (page) query = query.range((page - 1) * pageSize, page * pageSize - 1)
+
+    const { data, error, count } = await query
+    if (error) throw error
+
+    return {
+        tasks: ((data || []) as RawTaskListRow[]).map(toTaskListItem),
+        count: count || 0
+    }
+}
+
+export async function getTask(taskId: string): Promise<TaskListItem | null> {
+    const { data, error } = await supabase
+        .from('tasks')
+        .select(TASK_LIST_SELECT)
+        .eq('id', taskId)
+        .maybeSingle()
+
+    if (error) throw error
+    return data ? toTaskListItem(data as RawTaskListRow) : null
+}
+
+export async function createTask(input: TablesInsert<'tasks'>): Promise<TaskRow> {
+    const { data, error } = await supabase
+        .from('tasks')
+        .insert(input)
+        .select()
+        .single()
+
+    if (error) throw error
+    return data
+}
+
+export async function updateTask(taskId: string, patch: TablesUpdate<'tasks'>): Promise<void> {
+    const { error } = await supabase
+        .from('tasks')
+        .update(patch)
+        .eq('id', taskId)
+
+    if (error) throw error
+}
+
+export async function updateTaskStatus(taskId: string, statusId: string): Promise<void> {
+    await updateTask(taskId, { status_id: statusId })
+}
+
+// Drops a task into a column. `ranks` holds its new rank and those of any
+// unranked neighbours that had to be ranked along with it.
+export async function moveTask(taskId: string, statusId: string, ranks: TaskRank[]): Promise<void> {
+    await Promise.all(ranks.filter(r => r.id !== taskId).map(r => updateTask(r.id, { rank: r.rank })))
+    const own = ranks.find(r => r.id === taskId)
+    await updateTask(taskId, own ? { status_id: statusId, rank: own.rank } : { status_id: statusId })
+}
+
+// Moves the task to the trash, from where it can be restored. Returns the
+// deletion's id.
+export async function deleteTask(taskId: string): Promise<string> {
+    const { data, error } = await supabase.rpc('move_to_trash', { p_entity: 'task', p_id: taskId })
+    if (error) throw error
+    return data
+}
+
+export async function listTaskAssigneeIds(taskId: string): Promise<string[]> {
+    const { data, error } = await supabase
+        .from('task_assignments')
+        .select('user_id')
+        .eq('task_id', taskId)
+
+    if (error) throw error
+    return data?.map(a => a.user_id) || []
+}
+
+// Replaces the task's assignees in one transaction on the server.
+export async function assignTask(taskId: string, userIds: string[]): Promise<void> {
+    const { error } = await supabase.rpc('update_task_assignments', {
+        p_task_id: taskId,
+        p_assignee_ids: [...new Set(userIds)]
+    })
+
+    if (error) throw error
+}
@@ -0,0 +1,225 @@
+import { supabase } from '../lib/supabase'
+import { RUNNING_TIME_LOG_SELECT, TIME_LOG_SUMMARY_SELECT } from './queries'
+import type { Json } from './database.types'
+import type { RecentTimer, RunningTimeLog, SubtaskTimeLogRow, TimerAdjustment, TimerGapTrigger, TimerSettingsRow, TimerTarget } from './types'
+
+// The label on time logged against a task rather than one of its subtasks
+export const TASK_TIME_LABEL = 'General'
+
+// Seconds a log covers; open or legacy rows without a stored duration fall
+// back to the start/end difference.
+export function logDurationSeconds(log: Pick<SubtaskTimeLogRow, 'duration_seconds' | 'start_time' | 'end_time'>): number {
+    if (log.duration_seconds) return log.duration_seconds
+    if (log.end_time && log.start_time) {
+        return (new Date(log.end_time).getTime() - new Date(log.start_time).getTime()) / 1000
+    }
+    return 0
+}
+
+// e.g. "3h 05m", as timesheets show totals.
+export function formatHours(seconds: number): string {
+    const h = Math.floor(seconds / 3600)
+    const m = Math.floor((seconds % 3600) / 60)
+    return `${h}h ${m.toString().padStart(2, '0')}m`
+}
+
+export async function getTimeLoggedByTask(taskIds: string[]): Promise<Record<string, number>> {
+    if (taskIds.length === 0) return {}
+
+    const { data, error } = await supabase
+        .from('subtask_time_logs')
+        .select(TIME_LOG_SUMMARY_SELECT)
+        .in('task_id', taskIds)
+
+    if (error) throw error
+
+    const summary: Record<string, number> = {}
+    data?.forEach(log => {
+        summary[log.task_id] = (summary[log.task_id] || 0) + logDurationSeconds(log)
+    })
+    return summary
+}
+
+// A stretch of a running timer the user is asked about, from `start` until
+// they answer.
+export interface TimerGap {
+    trigger: TimerGapTrigger
+    start: Date
+}
+
+// keep: count the gap; discard: drop it and carry on timing; trim: stop the
+// timer where the gap began.
+export type TimerGapChoice = 'keep' | 'discard' | 'trim'
+
+const DEFAULT_TIMER_SETTINGS: Pick<TimerSettingsRow, 'idle_minutes' | 'max_duration_hours'> = {
+    idle_minutes: 15,
+    max_duration_hours: 12
+}
+
+export async function getTimerSettings(): Promise<Pick<TimerSettingsRow, 'idle_minutes' | 'max_duration_hours'>> {
+    const { data, error } = await supabase
+        .from('timer_settings')
+        .select('idle_minutes, max_duration_hours')
+        .eq('id', 1)
+        .maybeSingle()
+
+    if (error) throw error
+    return data || DEFAULT_TIMER_SETTINGS
+}
+
+export function timerAdjustments(log: Pick<SubtaskTimeLogRow, 'adjustments'>): TimerAdjustment[] {
+    return Array.isArray(log.adjustments) ? log.adjustments as unknown as TimerAdjustment[] : []
+}
+
+// The user's running timer on any task. With TIMER_SAFETY_ENABLED there is
+// at most one; otherwise the latest one started.
+export async function getRunningTimeLog(userId: string): Promise<RunningTimeLog | null> {
+    const { data, error } = await supabase
+        .from('subtask_time_logs')
+        .select(RUNNING_TIME_LOG_SELECT)
+        .eq('user_id', userId)
+        .is('end_time', null)
+        .order('start_time', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+    if (error) throw error
+    return data as unknown as RunningTimeLog | null
+}
+
+// The user's most recently timed subtasks, newest first, one entry each.
+export async function listRecentTimers(userId: string, limit = 8): Promise<RecentTimer[]> {
+    const { data, error } = await supabase
+        .from('subtask_time_logs')
+        .select(RUNNING_TIME_LOG_SELECT)
+        .eq('user_id', userId)
+        .order('start_time', { ascending: false })
+        .limit(50)
+
+    if (error) throw error
+
+    const recent = new Map<string, RecentTimer>()
+    for (const log of (data || []) as unknown as RunningTimeLog[]) {
+        if (!log.task) continue
+        const key = `${log.task_id}|${log.subtask_id ?? log.subtask_name}`
+        if (!recent.has(key)) {
+            recent.set(key, { taskId: log.task_id, taskTitle: log.task.title, subtaskId: log.subtask_id, subtaskName: log.subtask_name })
+        }
+        if (recent.size === limit) break
+    }
+    return [...recent.values()]
+}
+
+// Whether the log times `target`: the same subtask, or for time on the task
+// itself, the same label.
+export function isTimingTarget(log: Pick<SubtaskTimeLogRow, 'task_id' | 'subtask_id' | 'subtask_name'> | null, target: TimerTarget): boolean {
+    if (!log || log.task_id !== target.taskId || log.subtask_id !== target.subtaskId) return false
+    return target.subtaskId !== null || log.subtask_name === target.subtaskName
+}
+
+export async function startTimeLog(userId: string, target: TimerTarget): Promise<RunningTimeLog> {
+    const startTime = new Date().toISOString()
+    const { data, error } = await supabase
+        .from('subtask_time_logs')
+        .insert({
+            task_id: target.taskId,
+            user_id: userId,
+            subtask_id: target.subtaskId,
+            subtask_name: target.subtaskName,
+            start_time: startTime,
+            end_time: null,
+            last_heartbeat_at: startTime
+        })
+        .select(RUNNING_TIME_LOG_SELECT)
+        .single()
+
+    if (error) throw error
+    return data as unknown as RunningTimeLog
+}
+
+// False when the timer had already been stopped, e.g. by the server sweep.
+export async function stopTimeLog(log: Pick<SubtaskTimeLogRow, 'id' | 'start_time'>): Promise<boolean> {
+    const endTime = new Date()
+    const { data, error } = await supabase
+        .from('subtask_time_logs')
+        .update({
+            end_time: endTime.toISOString(),
+            duration_seconds: Math.floor((endTime.getTime() - new Date(log.start_time).getTime()) / 1000)
+        })
+        .eq('id', log.id)
+        .is('end_time', null)
+        .select('id')
+
+    if (error) throw error
+    return (data || []).length > 0
+}
+
+// Marks the timer's tab as still open; a stale heartbeat means it was closed.
+export async function recordTimerHeartbeat(logId: string): Promise<void> {
+    const { error } = await supabase
+        .from('subtask_time_logs')
+        .update({ last_heartbeat_at: new Date().toISOString() })
+        .eq('id', logId)
+
+    if (error) throw error
+}
+
+// Applies the user's answer about a gap and records it on the log. Returns
+// the log that is still running afterwards, or null when the timer stopped.
+// A log another tab already stopped is left alone and counts as resolved.
+export async function resolveTimerGap(log: SubtaskTimeLogRow, gap: TimerGap, choice: TimerGapChoice): Promise<SubtaskTimeLogRow | null> {
+    const now = new Date()
+    const adjustment: TimerAdjustment = {
+        kind: choice === 'keep' ? 'kept' : choice === 'discard' ? 'discarded' : 'trimmed',
+        trigger: gap.trigger,
+        at: now.toISOString(),
+        gap_start: gap.start.toISOString(),
+        seconds: Math.max(0, Math.floor((now.getTime() - gap.start.getTime()) / 1000))
+    }
+    const adjustments = [...timerAdjustments(log), adjustment] as unknown as Json
+
+    if (choice === 'keep') {
+        const { data, error } = await supabase
+            .from('subtask_time_logs')
+            .update({ adjustments, last_heartbeat_at: now.toISOString() })
+            .eq('id', log.id)
+            .is('end_time', null)
+            .select()
+            .maybeSingle()
+
+        if (error) throw error
+        return data
+    }
+
+    const { data: stopped, error } = await supabase
+        .from('subtask_time_logs')
+        .update({
+            end_time: gap.start.toISOString(),
+            duration_seconds: Math.max(0, Math.floor((gap.start.getTime() - new Date(log.start_time).getTime()) / 1000)),
+            adjustments
+        })
+        .eq('id', log.id)
+        .is('end_time', null)
+        .select('id')
+
+    if (error) throw error
+    if (choice === 'trim' || (stopped || []).length === 0) return null
+
+    // Discarding carries on timing the same subtask from now
+    const { data, error: insertError } = await supabase
+        .from('subtask_time_logs')
+        .insert({
+            task_id: log.task_id,
+            user_id: log.user_id,
+            subtask_id: log.subtask_id,
+            subtask_name: log.subtask_name,
+            start_time: now.toISOString(),
+            last_heartbeat_at: now.toISOString(),
+            split_from: log.id
+        })
+        .select()
+        .single()
+
+    if (insertError) throw insertError
+    return data
+}
@@ -0,0 +1,176 @@
+import { addWeeks, startOfWeek } from 'date-fns'
+import { supabase } from '../lib/supabase'
+import { TIMESHEET_ENTRY_SELECT, TIMESHEET_LIST_SELECT } from './queries'
+import type { TimesheetEntry, TimesheetListItem, TimesheetRow, TimesheetStatus } from './types'
+
+export interface TimesheetPeriod {
+    start: Date
+    end: Date
+}
+
+export interface TimesheetEntryInput {
+    taskId: string
+    subtaskName: string
+    startTime: Date
+    endTime: Date
+}
+
+// Timesheets run Monday to Monday in the viewer's local time.
+export function getWeekPeriod(date: Date): TimesheetPeriod {
+    const start = startOfWeek(date, { weekStartsOn: 1 })
+    return { start, end: addWeeks(start, 1) }
+}
+
+function requireReason(reason: string): string {
+    const trimmed = reason.trim()
+    if (!trimmed) throw new Error('Please give a reason for the change')
+    return trimmed
+}
+
+function entryTimes(input: Pick<TimesheetEntryInput, 'startTime' | 'endTime'>) {
+    if (input.endTime <= input.startTime) throw new Error('The end time must be after the start time')
+    return {
+        start_time: input.startTime.toISOString(),
+        end_time: input.endTime.toISOString(),
+        duration_seconds: Math.floor((input.endTime.getTime() - input.startTime.getTime()) / 1000)
+    }
+}
+
+export async function getTimesheet(userId: string, period: TimesheetPeriod): Promise<TimesheetRow | null> {
+    const { data, error } = await supabase
+        .from('timesheets')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('period_start', period.start.toISOString())
+        .maybeSingle()
+
+    if (error) throw error
+    return data
+}
+
+export async function listTimesheets(options: { status?: TimesheetStatus; userIds?: string[] } = {}): Promise<TimesheetListItem[]> {
+    if (options.userIds?.length === 0) return []
+
+    let query = supabase
+        .from('timesheets')
+        .select(TIMESHEET_LIST_SELECT)
+        .order('period_start', { ascending: false })
+
+    if (options.status) query = query.eq('status', options.status)
+    if (options.userIds) query = query.in('user_id', options.userIds)
+
+    const { data, error } = await query
+    if (error) throw error
+    return (data || []) as TimesheetListItem[]
+}
+
+export async function listTimesheetEntries(userId: string, period: TimesheetPeriod): Promise<TimesheetEntry[]> {
+    const { data, error } = await supabase
+        .from('subtask_time_logs')
+        .select(TIMESHEET_ENTRY_SELECT)
+        .eq('user_id', userId)
+        .gte('start_time', period.start.toISOString())
+        .lt('start_time', period.end.toISOString())
+        .order('start_time', { ascending: true })
+
+    if (error) throw error
+    return (data || []) as TimesheetEntry[]
+}
+
+export async function addTimesheetEntry(userId: string, input: TimesheetEntryInput, reason: string): Promise<void> {
+    const { error } = await supabase
+        .from('subtask_time_logs')
+        .insert({
+            user_id: userId,
+            task_id: input.taskId,
+            subtask_name: input.subtaskName,
+            ...entryTimes(input),
+            source: 'manual',
+            edit_reason: requireReason(reason),
+            edited_at: new Date().toISOString()
+        })
+
+    if (error) throw error
+}
+
+export async function updateTimesheetEntry(id: string, input: TimesheetEntryInput, reason: string): Promise<void> {
+    const { error } = await supabase
+        .from('subtask_time_logs')
+        .update({
+            task_id: input.taskId,
+            subtask_name: input.subtaskName,
+            ...entryTimes(input),
+            edit_reason: requireReason(reason),
+            edited_at: new Date().toISOString()
+        })
+        .eq('id', id)
+
+    if (error) throw error
+}
+
+// Cuts a finished entry in two at `at`; the second half remembers where it
+// came from.
+export async function splitTimesheetEntry(entry: TimesheetEntry, at: Date, reason: string): Promise<void> {
+    if (!entry.end_time) throw new Error('Stop the timer before splitting this entry')
+    const start = new Date(entry.start_time)
+    const end = new Date(entry.end_time)
+    if (at <= start || at >= end) throw new Error('The split time must fall inside the entry')
+
+    const note = requireReason(reason)
+    const editedAt = new Date().toISOString()
+
+    const { error: updateError } = await supabase
+        .from('subtask_time_logs')
+        .update({ ...entryTimes({ startTime: start, endTime: at }), edit_reason: note, edited_at: editedAt })
+        .eq('id', entry.id)
+
+    if (updateError) throw updateError
+
+    const { error } = await supabase
+        .from('subtask_time_logs')
+        .insert({
+            user_id: entry.user_id,
+            task_id: entry.task_id,
+            subtask_id: entry.subtask_id,
+            subtask_name: entry.subtask_name,
+            ...entryTimes({ startTime: at, endTime: end }),
+            source: entry.source,
+            edit_reason: note,
+            edited_at: editedAt,
+            split_from: entry.id
+        })
+
+    if (error) throw error
+}
+
+// The week is created as a draft if needed and then submitted, since the
+// server only accepts new weeks as drafts. Submission time is stamped there.
+export async function submitTimesheet(userId: string, period: TimesheetPeriod): Promise<void> {
+    const { error: draftError } = await supabase
+        .from('timesheets')
+        .upsert({
+            user_id: userId,
+            period_start: period.start.toISOString(),
+            period_end: period.end.toISOString()
+        }, { onConflict: 'user_id,period_start', ignoreDuplicates: true })
+
+    if (draftError) throw draftError
+
+    const { error } = await supabase
+        .from('timesheets')
+        .update({ status: 'submitted' })
+        .eq('user_id', userId)
+        .eq('period_start', period.start.toISOString())
+
+    if (error) throw error
+}
+
+// Reviewer and review time are stamped by the server.
+export async function reviewTimesheet(id: string, decision: Extract<TimesheetStatus, 'approved' | 'rejected'>, note?: string): Promise<void> {
+    const { error } = await supabase
+        .from('timesheets')
+        .update({ status: decision, review_note: note?.trim() || null })
+        .eq('id', id)
+
+    if (error) throw error
+}
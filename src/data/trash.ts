@@ -0,0 +1,81 @@
+import { supabase } from '../lib/supabase'
+import { TRASH_ITEM_SELECT } from './queries'
+import { one, type Embedded } from './tasks'
+import type { DeletionRow, DeletionSummary, ProfileRow, TrashEntity, TrashItem } from './types'
+
+export const TRASH_ENTITIES: { entity: TrashEntity; label: string }[] = [
+    { entity: 'client', label: 'Client' },
+    { entity: 'department', label: 'Department' },
+    { entity: 'task', label: 'Task' },
+    { entity: 'employee', label: 'Employee' },
+    { entity: 'activity', label: 'Activity' }
+]
+
+// Trashed rows are purged for good after this many days.
+export const TRASH_RETENTION_DAYS = 30
+
+const SUMMARY_NOUNS: Record<string, [string, string]> = {
+    workspaces: ['workspace', 'workspaces'],
+    departments: ['department', 'departments'],
+    tasks: ['task', 'tasks'],
+    subtasks: ['subtask', 'subtasks'],
+    comments: ['comment', 'comments'],
+    assigned_tasks: ['assigned task', 'assigned tasks']
+}
+
+interface RawTrashItem extends DeletionRow {
+    deleter: Embedded<Pick<ProfileRow, 'id' | 'full_name' | 'email'>>
+}
+
+// "3 workspaces, 7 departments, 212 tasks", or '' when nothing comes along.
+export function formatDeletionSummary(summary: DeletionSummary): string {
+    return Object.entries(summary)
+        .filter(([, count]) => count > 0)
+        .map(([key, count]) => {
+            const [singular, plural] = SUMMARY_NOUNS[key] || [key, key]
+            return `${count} ${count === 1 ? singular : plural}`
+        })
+        .join(', ')
+}
+
+// What deleting the row would take with it, counted across every row.
+export async function previewDeletion(entity: TrashEntity, id: string): Promise<DeletionSummary> {
+    const { data, error } = await supabase.rpc('deletion_preview', { p_entity: entity, p_id: id })
+    if (error) throw error
+    return (data || {}) as DeletionSummary
+}
+
+// Hides the row and everything under it until it is restored or purged.
+// Returns the deletion's id.
+export async function moveToTrash(entity: TrashEntity, id: string): Promise<string> {
+    const { data, error } = await supabase.rpc('move_to_trash', { p_entity: entity, p_id: id })
+    if (error) throw error
+    return data
+}
+
+// The deletions the current user may restore, newest first.
+export async function listTrash(): Promise<TrashItem[]> {
+    const { data, error } = await supabase
+        .from('deletions')
+        .select(TRASH_ITEM_SELECT)
+        .order('deleted_at', { ascending: false })
+
+    if (error) throw error
+    return ((data || []) as RawTrashItem[]).map(d => ({
+        ...d,
+        entity: d.entity as TrashEntity,
+        summary: (d.summary || {}) as DeletionSummary,
+        deleter: one(d.deleter)
+    }))
+}
+
+// Brings the row back with every child the deletion took along.
+export async function restoreDeletion(deletionId: string): Promise<void> {
+    const { error } = await supabase.rpc('restore_deletion', { p_deletion_id: deletionId })
+    if (error) throw error
+}
+
+export async function purgeDeletion(deletionId: string): Promise<void> {
+    const { error } = await supabase.rpc('purge_deletion', { p_deletion_id: deletionId })
+    if (error) throw error
+}
@@ -0,0 +1,279 @@
+import type { Tables } from './database.types'
+
+export type ActivityRow = Tables<'activities'>
+export type BillingRateRow = Tables<'billing_rates'>
+export type ClientRow = Tables<'clients'>
+export type CustomFieldDefinitionRow = Tables<'custom_field_definitions'>
+export type DeletionRow = Tables<'deletions'>
+export type DepartmentRow = Tables<'departments'>
+export type InvoiceLineItemRow = Tables<'invoice_line_items'>
+export type InvoiceRow = Tables<'invoices'>
+export type MeetingRow = Tables<'meetings'>
+export type NotificationRow = Tables<'notifications'>
+export type ProfileRow = Tables<'profiles'>
+export type RoleCapabilityRow = Tables<'role_capabilities'>
+export type SavedViewRow = Tables<'saved_views'>
+export type SubtaskRow = Tables<'subtasks'>
+export type SubtaskTimeLogRow = Tables<'subtask_time_logs'>
+export type TaskAssignmentRow = Tables<'task_assignments'>
+export type TaskChangeRow = Tables<'task_changes'>
+export type TaskCommentRow = Tables<'task_comments'>
+export type TaskDependencyRow = Tables<'task_dependencies'>
+export type TaskRecurrenceRow = Tables<'task_recurrences'>
+export type TaskStatusRow = Tables<'task_statuses'>
+export type TimerSettingsRow = Tables<'timer_settings'>
+export type TimesheetRow = Tables<'timesheets'>
+export type WorkflowTransitionRow = Tables<'workflow_transitions'>
+export type WorkspaceRow = Tables<'workspaces'>
+
+export type TaskPriority = 'low' | 'medium' | 'high'
+
+// The schema stores priority as text; the app only ever writes these.
+export type TaskRow = Omit<Tables<'tasks'>, 'priority'> & { priority: TaskPriority | null }
+
+// What a status means regardless of its label; see STATUS_CATEGORIES.
+export type StatusCategory = 'backlog' | 'active' | 'review' | 'done' | 'cancelled'
+
+// What a task needs before it may enter a status, and what entering it
+// does. See the workflows migration for how each is checked.
+export type EntryRequirement = 'subtasks_done' | 'url_field' | 'assignee' | 'due_date'
+export type EntryAction = 'complete_subtasks' | 'notify_assignees' | 'notify_coordinator'
+
+// A card's new place in its column; see lib/rank.
+export interface TaskRank {
+    id: string
+    rank: string
+}
+
+// What a board does when a drop would take a column over its wip_limit.
+export type WipPolicy = 'warn' | 'block'
+
+// An employee profile as listed in the coordinator views, with the number
+// of tasks currently assigned to them.
+export type Employee = ProfileRow & {
+    task_count?: number
+}
+
+// The slice of a profile shown wherever a person is attached to a task.
+export type TaskAssignee = Pick<ProfileRow, 'id' | 'full_name' | 'email' | 'avatar_url' | 'status'>
+
+// A task as the list, board and calendar views render it. `assignees`
+// merges the legacy `assigned_to` column with `task_assignments`.
+export interface TaskListItem extends TaskRow {
+    status: Pick<TaskStatusRow, 'id' | 'label' | 'color' | 'category'> | null
+    assignees: TaskAssignee[]
+    department: Pick<DepartmentRow, 'id' | 'name'> | null
+    client: Pick<ClientRow, 'id' | 'name' | 'cc_id'> | null
+    comments_count: number
+    subtasks: Pick<SubtaskRow, 'id' | 'is_completed' | 'estimate_hours'>[]
+}
+
+// A subtask on its assignee's own list, with the task it belongs to.
+export type AssignedSubtask = SubtaskRow & {
+    task: Pick<TaskRow, 'id' | 'title'>
+}
+
+// One side of a dependency, with enough of the task to judge whether it
+// still blocks and to place it on the timeline.
+export type DependencyTask = Pick<TaskRow, 'id' | 'title' | 'status_id' | 'start_date' | 'due_date'> & {
+    status: Pick<TaskStatusRow, 'label' | 'color' | 'category'> | null
+}
+
+// `dependent` cannot start until `blocker` is finished.
+export interface TaskDependencyItem extends TaskDependencyRow {
+    blocker: DependencyTask
+    dependent: DependencyTask
+}
+
+export type TimesheetStatus = 'draft' | 'submitted' | 'approved' | 'rejected'
+
+// A time log as a timesheet lists it, with the task it was logged against.
+export type TimesheetEntry = SubtaskTimeLogRow & {
+    task: Pick<TaskRow, 'id' | 'title'> | null
+}
+
+// The user's running timer, with the task it is timing.
+export type RunningTimeLog = SubtaskTimeLogRow & {
+    task: Pick<TaskRow, 'id' | 'title'> | null
+}
+
+// What a timer runs against: one of the task's subtasks, or the task itself
+// when subtaskId is null. subtaskName labels the log either way.
+export interface TimerTarget {
+    taskId: string
+    subtaskId: string | null
+    subtaskName: string
+}
+
+// A task and subtask the user has timed before, offered as a quick switch.
+export interface RecentTimer extends TimerTarget {
+    taskTitle: string
+}
+
+// A timesheet in the coordinator's review queue.
+export interface TimesheetListItem extends TimesheetRow {
+    user: Pick<ProfileRow, 'id' | 'full_name' | 'email' | 'avatar_url'> | null
+}
+
+export type InvoiceStatus = 'draft' | 'sent' | 'paid'
+
+// A billable time log with the task facts its rate depends on.
+export type BillableLog = Pick<SubtaskTimeLogRow, 'id' | 'task_id' | 'user_id' | 'subtask_id' | 'subtask_name' | 'start_time' | 'end_time' | 'duration_seconds' | 'is_billable'> & {
+    task: Pick<TaskRow, 'id' | 'title' | 'content_type'>
+}
+
+// Why a running timer has a stretch of time nobody may have worked.
+export type TimerGapTrigger = 'idle' | 'closed' | 'midnight' | 'max_duration'
+
+// One entry in subtask_time_logs.adjustments. `seconds` is the length of the
+// gap that was kept or removed, starting at `gap_start`.
+export interface TimerAdjustment {
+    kind: 'kept' | 'discarded' | 'trimmed' | 'capped'
+    trigger: TimerGapTrigger
+    at: string
+    gap_start: string
+    seconds: number
+}
+
+export type SearchResultKind = 'task' | 'subtask' | 'comment' | 'meeting' | 'person'
+
+// One command palette search hit. `taskId` is the task a task, subtask or
+// comment hit opens, `clientId` a meeting's client; `snippet` marks matched
+// words with **.
+export interface SearchResult {
+    kind: SearchResultKind
+    id: string
+    taskId: string | null
+    clientId: string | null
+    title: string
+    snippet: string | null
+    rank: number
+}
+
+export type CustomFieldType = 'text' | 'number' | 'select' | 'multi_select' | 'date' | 'url' | 'person'
+
+// One value in tasks.custom_fields. Numbers are stored as numbers and
+// multi-select choices as an array; every other type is a string (a date as
+// yyyy-MM-dd, a person as a profile id).
+export type CustomFieldValue = string | number | string[]
+
+// tasks.custom_fields, keyed by field definition id.
+export type CustomFieldValues = Record<string, CustomFieldValue>
+
+// A field definition with the client it belongs to, whether it was defined
+// for one department or for all of the client's departments.
+export interface CustomFieldDefinition extends CustomFieldDefinitionRow {
+    field_type: CustomFieldType
+    scope_client_id: string | null
+}
+
+// Narrows a task list to tasks whose `field` matches `value`: text and URL
+// fields by substring, multi-select by holding the choice, the rest exactly.
+export interface CustomFieldFilter {
+    field: CustomFieldDefinition
+    value: CustomFieldValue
+}
+
+// A department as pickers list it, with its client.
+export type DepartmentOption = Pick<DepartmentRow, 'id' | 'name'> & {
+    client: Pick<ClientRow, 'id' | 'name'> | null
+}
+
+// One edit applied to every selected task. Statuses are matched by label,
+// since each department has its own columns.
+export type BulkTaskChange =
+    | { kind: 'status'; label: string }
+    | { kind: 'priority'; priority: TaskPriority | null }
+    | { kind: 'assignees'; userIds: string[]; mode: 'add' | 'replace' }
+    | { kind: 'shift_due'; days: number }
+    | { kind: 'department'; department: DepartmentOption }
+    | { kind: 'content_type'; contentType: string | null }
+    | { kind: 'delete' }
+
+export interface BulkTaskFailure {
+    taskId: string
+    title: string
+    message: string
+}
+
+export interface BulkTaskResult {
+    change: BulkTaskChange
+    succeeded: string[]
+    failed: BulkTaskFailure[]
+}
+
+// The list surfaces a saved view can restore, named as the dashboard view.
+export type SavedViewTarget = 'creative-progress' | 'tasks-tracker'
+
+export type SavedViewSort = {
+    key: string
+    direction: 'asc' | 'desc'
+}
+
+// What a view restores. Each surface reads the parts it supports: the
+// content calendar keeps its tab, assignee, type and date filters in
+// `filters`, the tracker its custom field filters keyed by field id.
+export type SavedViewState = {
+    viewMode: string
+    search: string
+    filters: Record<string, CustomFieldValue>
+    sort: SavedViewSort | null
+    groupBy: string | null
+    columns: string[]
+}
+
+// A saved view with who made it and, when shared, the client team it is
+// shared with.
+export interface SavedView extends SavedViewRow {
+    target: SavedViewTarget
+    state: SavedViewState
+    owner: Pick<ProfileRow, 'id' | 'full_name' | 'email'> | null
+    client: Pick<ClientRow, 'id' | 'name'> | null
+}
+
+// Rows that go to the trash instead of being deleted outright.
+export type TrashEntity = 'client' | 'department' | 'task' | 'employee' | 'activity'
+
+// What a deletion takes along, keyed by kind of row, e.g. { tasks: 212 }.
+export type DeletionSummary = Record<string, number>
+
+export interface TrashItem extends DeletionRow {
+    entity: TrashEntity
+    summary: DeletionSummary
+    deleter: Pick<ProfileRow, 'id' | 'full_name' | 'email'> | null
+}
+
+// One changed field of a task, with who changed it (null for the system).
+export interface TaskChange extends TaskChangeRow {
+    changer: Pick<ProfileRow, 'id' | 'full_name' | 'email'> | null
+}
+
+// Estimated against logged time for one employee, content type or client.
+export interface EstimateAccuracyRow {
+    key: string
+    label: string
+    tasks: number
+    estimatedSeconds: number
+    actualSeconds: number
+}
+
+export interface EstimateAccuracyReport {
+    employees: EstimateAccuracyRow[]
+    contentTypes: EstimateAccuracyRow[]
+    clients: EstimateAccuracyRow[]
+}
+
+// Someone's load over a window of days, in hours. Capacity is their weekly
+// hours spread over the window's working days.
+export interface EmployeeWorkload {
+    user_id: string
+    open_tasks: number
+    estimated_hours: number
+    meeting_hours: number
+    capacity_hours: number
+}
+
+export interface WorkloadWindow {
+    from: Date
+    to: Date
+}
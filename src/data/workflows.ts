@@ -0,0 +1,52 @@
+import { supabase } from '../lib/supabase'
+import type { TablesInsert } from './database.types'
+import type { EntryAction, EntryRequirement, WorkflowTransitionRow } from './types'
+
+export const ENTRY_REQUIREMENTS: { key: EntryRequirement; label: string }[] = [
+    { key: 'subtasks_done', label: 'All subtasks done' },
+    { key: 'url_field', label: 'A link in a URL field' },
+    { key: 'assignee', label: 'An assignee' },
+    { key: 'due_date', label: 'A due date' }
+]
+
+export const ENTRY_ACTIONS: { key: EntryAction; label: string }[] = [
+    { key: 'complete_subtasks', label: 'Mark every subtask done' },
+    { key: 'notify_assignees', label: 'Notify the assignees' },
+    { key: 'notify_coordinator', label: "Notify the client's coordinator" }
+]
+
+export async function listWorkflowTransitions(departmentId: string): Promise<WorkflowTransitionRow[]> {
+    const { data, error } = await supabase
+        .from('workflow_transitions')
+        .select('*')
+        .eq('department_id', departmentId)
+        .order('created_at', { ascending: true })
+
+    if (error) throw error
+    return data || []
+}
+
+export async function createWorkflowTransition(input: TablesInsert<'workflow_transitions'>): Promise<void> {
+    const { error } = await supabase
+        .from('workflow_transitions')
+        .insert(input)
+
+    if (error) throw error
+}
+
+export async function deleteWorkflowTransition(transitionId: string): Promise<void> {
+    const { error } = await supabase
+        .from('workflow_transitions')
+        .delete()
+        .eq('id', transitionId)
+
+    if (error) throw error
+}
+
+// Why the workflow refuses to move the task into the status, or null when
+// it may go. The database enforces the same rules on save.
+export async function getMoveRejection(taskId: string, statusId: string): Promise<string | null> {
+    const { data, error } = await supabase.rpc('task_move_rejection', { p_task_id: taskId, p_status_id: statusId })
+    if (error) throw error
+    return data
+}
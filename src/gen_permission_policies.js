@@ -0,0 +1,14 @@
+import { readFileSync } from 'fs'
+import ts from 'typescript'
+
+// Loads src/lib/permissions.ts without a build step and prints the RLS
+// policies it defines. Redirect into a new migration:
+//   npm run gen:policies > supabase/migrations/<timestamp>_capability_policies.sql
+
+const source = readFileSync(new URL('./lib/permissions.ts', import.meta.url), 'utf8')
+const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 }
+})
+
+const { buildPolicySql } = await import('data:text/javascript,' + encodeURIComponent(outputText))
+process.stdout.write(buildPolicySql())
@@ -0,0 +1,18 @@
+import { availableHours, isOverCapacity, type EmployeeWorkload } from '../data'
+
+// e.g. "12.5h"
+export function formatWorkloadHours(hours: number): string {
+    return `${Math.round(hours * 10) / 10}h`
+}
+
+// Asks before more work goes to someone already past their capacity over
+// the period it falls in.
+export function confirmOverCapacity(name: string, workload: EmployeeWorkload | undefined): boolean {
+    if (!workload || !isOverCapacity(workload)) return true
+
+    const booked = workload.estimated_hours + workload.meeting_hours
+    return confirm(
+        `${name} is over capacity for this period: ${formatWorkloadHours(booked)} of estimated work and meetings ` +
+        `against ${formatWorkloadHours(workload.capacity_hours)} available (${formatWorkloadHours(-availableHours(workload))} over). Assign anyway?`
+    )
+}
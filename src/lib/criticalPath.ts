@@ -0,0 +1,89 @@
+// Critical path over scheduled tasks and finish-to-start dependencies.
+//
+// Each task may not start before its own scheduled start nor before all of
+// its blockers have finished. The forward pass gives the earliest finish of
+// the whole plan; the backward pass gives how late each task could finish
+// without moving that date. Tasks with no slack form the critical path.
+
+export interface ScheduleItem {
+    id: string
+    start: number
+    end: number
+}
+
+export interface ScheduleLink {
+    // The blocker
+    from: string
+    // The task waiting on it
+    to: string
+}
+
+export interface CriticalPathResult {
+    critical: Set<string>
+    // `${from}->${to}` for links where the blocker drives the task's start
+    criticalLinks: Set<string>
+    slack: Map<string, number>
+    earliestStart: Map<string, number>
+}
+
+// Differences below a minute are rounding, not slack
+const TOLERANCE_MS = 60 * 1000
+
+export function linkKey(link: ScheduleLink): string {
+    return `${link.from}->${link.to}`
+}
+
+export function findCriticalPath(items: ScheduleItem[], links: ScheduleLink[]): CriticalPathResult {
+    const byId = new Map(items.map(item => [item.id, item]))
+    const edges = links.filter(l => byId.has(l.from) && byId.has(l.to))
+    const predecessors = new Map<string, string[]>(items.map(i => [i.id, []]))
+    const successors = new Map<string, string[]>(items.map(i => [i.id, []]))
+    edges.forEach(l => {
+        predecessors.get(l.to)!.push(l.from)
+        successors.get(l.from)!.push(l.to)
+    })
+
+    // Kahn's algorithm; anything left over sits on a cycle and is skipped
+    const inDegree = new Map(items.map(i => [i.id, predecessors.get(i.id)!.length]))
+    const queue = items.filter(i => inDegree.get(i.id) === 0).map(i => i.id)
+    const order: string[] = []
+    while (queue.length > 0) {
+        const id = queue.shift()!
+        order.push(id)
+        successors.get(id)!.forEach(next => {
+            inDegree.set(next, inDegree.get(next)! - 1)
+            if (inDegree.get(next) === 0) queue.push(next)
+        })
+    }
+
+    const duration = (id: string) => Math.max(0, byId.get(id)!.end - byId.get(id)!.start)
+    const earliestStart = new Map<string, number>()
+    const earliestFinish = new Map<string, number>()
+
+    order.forEach(id => {
+        const start = Math.max(byId.get(id)!.start, ...predecessors.get(id)!.map(p => earliestFinish.get(p) ?? -Infinity))
+        earliestStart.set(id, start)
+        earliestFinish.set(id, start + duration(id))
+    })
+
+    const projectEnd = Math.max(...order.map(id => earliestFinish.get(id)!))
+    const latestStart = new Map<string, number>()
+    const slack = new Map<string, number>()
+
+    order.slice().reverse().forEach(id => {
+        const nextStarts = successors.get(id)!.map(s => latestStart.get(s)).filter((v): v is number => v !== undefined)
+        const latestFinish = nextStarts.length > 0 ? Math.min(...nextStarts) : projectEnd
+        latestStart.set(id, latestFinish - duration(id))
+        slack.set(id, latestStart.get(id)! - earliestStart.get(id)!)
+    })
+
+    const critical = new Set(order.filter(id => slack.get(id)! <= TOLERANCE_MS))
+    const criticalLinks = new Set(
+        edges
+            .filter(l => critical.has(l.from) && critical.has(l.to) &&
+                Math.abs(earliestFinish.get(l.from)! - earliestStart.get(l.to)!) <= TOLERANCE_MS)
+            .map(linkKey)
+    )
+
+    return { critical, criticalLinks, slack, earliestStart }
+}
@@ -0,0 +1,90 @@
+// CSV and printable (save-as-PDF) renderings of an invoice.
+
+import type { InvoiceLineItemRow, InvoiceRow } from '../data'
+
+const money = (value: number, currency: string) =>
+    new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(value)
+
+const csvCell = (value: string | number) => {
+    const text = String(value)
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+export function invoiceToCsv(invoice: InvoiceRow, lines: InvoiceLineItemRow[], clientName: string): string {
+    const rows: (string | number)[][] = [
+        ['Invoice', invoice.number],
+        ['Client', clientName],
+        ['Period', `${invoice.period_start} to ${invoice.period_end}`],
+        ['Currency', invoice.currency],
+        [],
+        ['Description', 'Hours', 'Rate', 'Amount'],
+        ...lines.map(line => [line.description, line.hours, line.rate, line.amount]),
+        [],
+        ['Total', '', '', invoice.total]
+    ]
+    return rows.map(row => row.map(csvCell).join(',')).join('\n')
+}
+
+export function downloadFile(filename: string, content: string, type: string) {
+    const url = URL.createObjectURL(new Blob([content], { type }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = filename
+    link.click()
+    URL.revokeObjectURL(url)
+}
+
+// Opens the invoice in a print window; the browser's "Save as PDF" produces
+// the PDF.
+export function printInvoice(invoice: InvoiceRow, lines: InvoiceLineItemRow[], clientName: string) {
+    const win = window.open('', '_blank')
+    if (!win) {
+        alert('Allow pop-ups for this site to export the invoice.')
+        return
+    }
+
+    const rows = lines.map(line => `
+        <tr>
+            <td>${escapeHtml(line.description)}</td>
+            <td class="num">${line.hours.toFixed(2)}</td>
+            <td class="num">${money(line.rate, invoice.currency)}</td>
+            <td class="num">${money(line.amount, invoice.currency)}</td>
+        </tr>`).join('')
+
+    win.document.write(`<!doctype html>
+<html>
+<head>
+    <title>${escapeHtml(invoice.number)}</title>
+    <style>
+        body { font-family: Inter, Arial, sans-serif; color: #1f2937; margin: 3rem; }
+        h1 { margin: 0 0 0.25rem; }
+        .meta { color: #6b7280; margin-bottom: 2rem; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { padding: 0.6rem 0.5rem; border-bottom: 1px solid #e5e7eb; text-align: left; }
+        th { font-size: 0.75rem; text-transform: uppercase; color: #6b7280; }
+        .num { text-align: right; }
+        .total td { font-weight: 700; border-bottom: none; }
+        .notes { margin-top: 2rem; color: #4b5563; white-space: pre-wrap; }
+    </style>
+</head>
+<body>
+    <h1>Invoice ${escapeHtml(invoice.number)}</h1>
+    <div class="meta">
+        ${escapeHtml(clientName)}<br />
+        ${invoice.period_start} – ${invoice.period_end}
+    </div>
+    <table>
+        <thead><tr><th>Description</th><th class="num">Hours</th><th class="num">Rate</th><th class="num">Amount</th></tr></thead>
+        <tbody>${rows}</tbody>
+        <tfoot><tr class="total"><td colspan="3">Total</td><td class="num">${money(invoice.total, invoice.currency)}</td></tr></tfoot>
+    </table>
+    ${invoice.notes ? `<div class="notes">${escapeHtml(invoice.notes)}</div>` : ''}
+</body>
+</html>`)
+    win.document.close()
+    win.focus()
+    win.print()
+}
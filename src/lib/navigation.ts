@@ -0,0 +1,71 @@
+// Command palette → dashboard navigation. The palette sits above whichever
+// dashboard is mounted, so it asks over a window event and the dashboard
+// switches its own view.
+
+import type { SavedView, SavedViewState } from '../data'
+
+export const DASHBOARD_NAVIGATE_EVENT = 'dashboard-navigate'
+
+export interface DashboardNavigation {
+    view: string
+    // Scroll to and highlight this meeting in the meetings view
+    meetingId?: string
+    clientId?: string | null
+    // Open this person's tasks in the employees view
+    profileId?: string
+    profileName?: string
+    // Restore this state on a list surface, remembering the saved view it came from
+    viewState?: SavedViewState
+    savedViewId?: string | null
+}
+
+export interface DashboardViewLink {
+    view: string
+    label: string
+}
+
+// The views each role's dashboard can show, named as its viewMode.
+export const DASHBOARD_VIEWS: Record<string, DashboardViewLink[]> = {
+    admin: [
+        { view: 'dashboard', label: 'Dashboard' }
+    ],
+    client_coordinator: [
+        { view: 'dashboard', label: 'Dashboard' },
+        { view: 'creative-progress', label: 'Content Calendar' },
+        { view: 'tasks-tracker', label: 'Tasks Tracker' },
+        { view: 'meetings', label: 'Meetings' },
+        { view: 'employees', label: 'Employees' },
+        { view: 'timesheets', label: 'Timesheets' },
+        { view: 'billing', label: 'Billing' },
+        { view: 'trash', label: 'Trash' },
+        { view: 'profile', label: 'Profile' }
+    ],
+    employee: [
+        { view: 'list', label: 'Task List' },
+        { view: 'board', label: 'Board' },
+        { view: 'calendar', label: 'Calendar' },
+        { view: 'chart', label: 'Chart' },
+        { view: 'meetings', label: 'Meetings' },
+        { view: 'timesheet', label: 'Timesheet' },
+        { view: 'trash', label: 'Trash' },
+        { view: 'profile', label: 'Profile' }
+    ]
+}
+
+export function dashboardViews(role: string | null): DashboardViewLink[] {
+    return DASHBOARD_VIEWS[role || 'employee'] || DASHBOARD_VIEWS.employee
+}
+
+export function navigateDashboard(navigation: DashboardNavigation) {
+    window.dispatchEvent(new CustomEvent<DashboardNavigation>(DASHBOARD_NAVIGATE_EVENT, { detail: navigation }))
+}
+
+// Opens a saved view on its surface, on the client it is shared with.
+export function openSavedView(view: Pick<SavedView, 'id' | 'target' | 'state' | 'client_id'>) {
+    navigateDashboard({ view: view.target, viewState: view.state, savedViewId: view.id, clientId: view.client_id })
+}
+
+// Narrows an incoming view name to one the dashboard for `role` knows.
+export function isDashboardView<T extends string>(role: string, view: string): view is T {
+    return dashboardViews(role).some(link => link.view === view)
+}
@@ -0,0 +1,221 @@
+// Named capabilities and the role templates they are granted through.
+//
+// This module is the single definition both sides read: the UI asks
+// usePermission() before offering an action, and `npm run gen:policies`
+// renders the same table into RLS policies so the database refuses what the
+// UI hides. Keep it free of imports so the generator can load it on its own.
+
+export type Role = 'admin' | 'client_coordinator' | 'employee'
+
+export type PolicyCommand = 'insert' | 'update' | 'delete'
+
+export interface CapabilityPolicy {
+    table: string
+    commands: PolicyCommand[]
+    // Rows whose owner column matches the current user are exempt, which is
+    // how "edit_others" style capabilities leave a user's own rows alone.
+    ownerColumn?: string
+}
+
+export interface CapabilityDefinition {
+    label: string
+    group: string
+    policies: CapabilityPolicy[]
+}
+
+export const CAPABILITIES = {
+    'client.manage': {
+        label: 'Create, rename and delete clients',
+        group: 'Clients',
+        policies: [{ table: 'clients', commands: ['insert', 'update', 'delete'] }]
+    },
+    'department.manage': {
+        label: 'Create, rename and delete departments',
+        group: 'Clients',
+        policies: [
+            { table: 'workspaces', commands: ['insert', 'update', 'delete'] },
+            { table: 'departments', commands: ['insert', 'update', 'delete'] }
+        ]
+    },
+    'employee.manage': {
+        label: 'Edit and delete employee profiles',
+        group: 'People',
+        policies: [{ table: 'profiles', commands: ['update', 'delete'], ownerColumn: 'id' }]
+    },
+    'employee.assign': {
+        label: 'Assign employees to departments',
+        group: 'People',
+        policies: [{ table: 'department_employees', commands: ['insert', 'delete'] }]
+    },
+    'task.create': {
+        label: 'Create tasks',
+        group: 'Tasks',
+        policies: [
+            { table: 'tasks', commands: ['insert'] },
+            { table: 'task_recurrences', commands: ['insert'] }
+        ]
+    },
+    'task.edit': {
+        label: 'Edit and move tasks',
+        group: 'Tasks',
+        policies: [
+            { table: 'tasks', commands: ['update'] },
+            { table: 'task_recurrences', commands: ['update'] },
+            { table: 'task_dependencies', commands: ['insert', 'update', 'delete'] }
+        ]
+    },
+    'task.delete': {
+        label: 'Delete tasks',
+        group: 'Tasks',
+        policies: [
+            { table: 'tasks', commands: ['delete'] },
+            { table: 'task_recurrences', commands: ['delete'] }
+        ]
+    },
+    'status.manage': {
+        label: 'Add, remove and configure board columns and workflows',
+        group: 'Tasks',
+        policies: [
+            { table: 'task_statuses', commands: ['insert', 'update', 'delete'] },
+            { table: 'workflow_transitions', commands: ['insert', 'update', 'delete'] }
+        ]
+    },
+    'field.manage': {
+        label: 'Define custom task fields',
+        group: 'Tasks',
+        policies: [{ table: 'custom_field_definitions', commands: ['insert', 'update', 'delete'] }]
+    },
+    'comment.delete_others': {
+        label: "Delete other people's comments",
+        group: 'Tasks',
+        policies: [{ table: 'task_comments', commands: ['delete'], ownerColumn: 'user_id' }]
+    },
+    'timelog.edit_others': {
+        label: "Edit and delete other people's time logs",
+        group: 'Time',
+        policies: [{ table: 'subtask_time_logs', commands: ['update', 'delete'], ownerColumn: 'user_id' }]
+    },
+    'timesheet.approve': {
+        label: 'Approve and reject timesheets',
+        group: 'Time',
+        policies: [{ table: 'timesheets', commands: ['update'], ownerColumn: 'user_id' }]
+    },
+    'billing.manage': {
+        label: 'Set billing rates and issue invoices',
+        group: 'Billing',
+        policies: [
+            { table: 'billing_rates', commands: ['insert', 'update', 'delete'] },
+            { table: 'invoices', commands: ['insert', 'update', 'delete'] },
+            { table: 'invoice_line_items', commands: ['insert', 'update', 'delete'] }
+        ]
+    },
+    'activity.delete': {
+        label: 'Delete activity feed entries',
+        group: 'Activity',
+        policies: [{ table: 'activities', commands: ['delete'] }]
+    }
+} satisfies Record<string, CapabilityDefinition>
+
+export type Capability = keyof typeof CAPABILITIES
+
+export const CAPABILITY_KEYS = Object.keys(CAPABILITIES) as Capability[]
+
+// Roles whose templates an admin can edit. Admins hold every capability so
+// nobody can lock the last admin out of the role editor.
+export const EDITABLE_ROLES: Exclude<Role, 'admin'>[] = ['client_coordinator', 'employee']
+
+export const ROLE_LABELS: Record<Role, string> = {
+    admin: 'Admin',
+    client_coordinator: 'Client Coordinator',
+    employee: 'Employee'
+}
+
+// What a fresh install grants; mirrors what each dashboard already offered.
+export const DEFAULT_ROLE_TEMPLATES: Record<Exclude<Role, 'admin'>, Capability[]> = {
+    client_coordinator: [
+        'client.manage',
+        'department.manage',
+        'employee.manage',
+        'employee.assign',
+        'task.create',
+        'task.edit',
+        'task.delete',
+        'status.manage',
+        'field.manage',
+        'comment.delete_others',
+        'timelog.edit_others',
+        'timesheet.approve',
+        'billing.manage',
+        'activity.delete'
+    ],
+    employee: ['task.create', 'task.edit']
+}
+
+export function hasCapability(role: string | null, granted: Iterable<string>, capability: Capability): boolean {
+    if (role === 'admin') return true
+    for (const c of granted) {
+        if (c === capability) return true
+    }
+    return false
+}
+
+const quote = (value: string) => `'${value.replace(/'/g, "''")}'`
+
+// Restrictive policies are ANDed with whatever permissive policies a table
+// already has, so they narrow access without having to restate it.
+export function buildPolicySql(): string {
+    const lines: string[] = [
+        '-- Generated by `npm run gen:policies` from src/lib/permissions.ts.',
+        '-- Do not edit by hand; change the definitions and regenerate.',
+        '',
+        'create table if not exists public.capabilities (',
+        '    key text primary key,',
+        '    label text not null',
+        ');',
+        '',
+        '-- Default grants apply only the first time a capability is seen, so an',
+        "-- admin's later changes to the templates survive regeneration.",
+        'insert into public.role_capabilities (role, capability)',
+        'select v.role, v.capability',
+        'from (values'
+    ]
+
+    const seeds = Object.entries(DEFAULT_ROLE_TEMPLATES).flatMap(([role, capabilities]) =>
+        capabilities.map(capability => `    (${quote(role)}, ${quote(capability)})`)
+    )
+    lines.push(
+        seeds.join(',\n'),
+        ') as v (role, capability)',
+        'where not exists (select 1 from public.capabilities c where c.key = v.capability)',
+        'on conflict do nothing;',
+        '',
+        'insert into public.capabilities (key, label) values',
+        CAPABILITY_KEYS.map(c => `    (${quote(c)}, ${quote(CAPABILITIES[c].label)})`).join(',\n'),
+        'on conflict (key) do update set label = excluded.label;',
+        ''
+    )
+
+    CAPABILITY_KEYS.forEach(capability => {
+        const definition: CapabilityDefinition = CAPABILITIES[capability]
+        definition.policies.forEach(policy => {
+            policy.commands.forEach(command => {
+                const name = `${capability} (${policy.table} ${command})`
+                const granted = `public.has_capability(${quote(capability)})`
+                const condition = policy.ownerColumn
+                    ? `${policy.ownerColumn} = auth.uid() or ${granted}`
+                    : granted
+                const clause = command === 'insert' ? 'with check' : 'using'
+
+                lines.push(
+                    `drop policy if exists "${name}" on public.${policy.table};`,
+                    `create policy "${name}" on public.${policy.table}`,
+                    `    as restrictive for ${command} to authenticated`,
+                    `    ${clause} (${condition});`,
+                    ''
+                )
+            })
+        })
+    })
+
+    return lines.join('\n')
+}
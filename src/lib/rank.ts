@@ -0,0 +1,65 @@
+import type { TaskRank } from '../data'
+
+// Fractional ranks: base-36 digit strings read as the fraction 0.xxx, so a
+// card can always be placed between two others by rewriting only its own
+// rank. Ranks never end in '0', which keeps every pair of ranks apart.
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz'
+
+function midpoint(a: string, b: string | null): string {
+    if (b) {
+        // Shared prefix first, then split the rest
+        let n = 0
+        while ((a[n] || '0') === b[n]) n++
+        if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n))
+    }
+
+    const digitA = a ? DIGITS.indexOf(a[0]) : 0
+    const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length
+    if (digitB - digitA > 1) return DIGITS[Math.round((digitA + digitB) / 2)]
+    if (b && b.length > 1) return b[0]
+    return DIGITS[digitA] + midpoint(a.slice(1), null)
+}
+
+// A rank that sorts after `before` and ahead of `after`; null means the
+// start or the end of the column.
+export function rankBetween(before: string | null, after: string | null): string {
+    // Out-of-order neighbours can't be split; place after the lower one
+    if (before !== null && after !== null && before >= after) return midpoint(before, null)
+    return midpoint(before || '', after)
+}
+
+// `count` evenly spread ranks between two neighbours.
+export function ranksBetween(before: string | null, after: string | null, count: number): string[] {
+    if (count <= 0) return []
+    const middle = rankBetween(before, after)
+    const left = ranksBetween(before, middle, Math.floor((count - 1) / 2))
+    const right = ranksBetween(middle, after, count - 1 - left.length)
+    return [...left, middle, ...right]
+}
+
+// Cards that have never been moved have no rank and stay on top, in the
+// order they came in.
+export function compareRank(a: { rank: string | null }, b: { rank: string | null }): number {
+    if (!a.rank || !b.rank) return (a.rank ? 1 : 0) - (b.rank ? 1 : 0)
+    return a.rank < b.rank ? -1 : a.rank > b.rank ? 1 : 0
+}
+
+export function sortByRank<T extends { rank: string | null }>(tasks: T[]): T[] {
+    return [...tasks].sort(compareRank)
+}
+
+// The ranks to write when `taskId` is dropped at `index` of a column, given
+// the column's cards in their shown order. Unranked cards next to the drop
+// get ranks as well so the position sticks.
+export function rankMove(column: { id: string; rank: string | null }[], taskId: string, index: number): TaskRank[] {
+    const others = column.filter(t => t.id !== taskId)
+    const list = [...others.slice(0, index), { id: taskId, rank: null }, ...others.slice(index)]
+
+    let start = index
+    while (start > 0 && !list[start - 1].rank) start--
+    let end = index
+    while (end + 1 < list.length && !list[end + 1].rank) end++
+
+    const ranks = ranksBetween(list[start - 1]?.rank ?? null, list[end + 1]?.rank ?? null, end - start + 1)
+    return ranks.map((rank, i) => ({ id: list[start + i].id, rank }))
+}
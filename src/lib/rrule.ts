@@ -0,0 +1,243 @@
+import { addDays, addMonths, addWeeks, format, getDaysInMonth, startOfMonth, startOfWeek } from 'date-fns'
+
+// The subset of RFC 5545 recurrence rules the content calendar supports:
+// FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY (with ordinals such
+// as 1MO or -1FR for monthly rules), BYMONTHDAY, COUNT and UNTIL.
+// Occurrences keep the local time of day of the series start.
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU'
+
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+    MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat', SU: 'Sun'
+}
+
+const FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']
+
+export interface ByDay {
+    weekday: Weekday
+    ordinal?: number
+}
+
+export interface RRule {
+    freq: RRuleFrequency
+    interval: number
+    byDay: ByDay[]
+    byMonthDay: number[]
+    count?: number
+    until?: Date
+}
+
+// Guards against rules that never produce a match (e.g. BYMONTHDAY=31 with
+// FREQ=MONTHLY;INTERVAL=12 starting in April).
+const MAX_PERIODS = 5000
+
+export function weekdayOf(date: Date): Weekday {
+    return WEEKDAYS[(date.getDay() + 6) % 7]
+}
+
+function parseUntil(value: string): Date {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/)
+    if (!match) throw new Error(`Invalid UNTIL value "${value}"`)
+    const [, y, m, d, hh, mm, ss, utc] = match
+    if (hh === undefined) {
+        // A bare date includes the whole day
+        return new Date(Number(y), Number(m) - 1, Number(d), 23, 59, 59, 999)
+    }
+    const parts = [Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss)] as const
+    return utc ? new Date(Date.UTC(...parts)) : new Date(...parts)
+}
+
+export function parseRRule(text: string): RRule {
+    const body = text.trim().replace(/^RRULE:/i, '')
+    if (!body) throw new Error('Recurrence rule is empty')
+
+    const rule: RRule = { freq: 'DAILY', interval: 1, byDay: [], byMonthDay: [] }
+    let hasFreq = false
+
+    for (const part of body.split(';').filter(Boolean)) {
+        const [rawKey, rawValue = ''] = part.split('=')
+        const key = rawKey.trim().toUpperCase()
+        const value = rawValue.trim().toUpperCase()
+
+        switch (key) {
+            case 'FREQ':
+                if (!FREQUENCIES.includes(value as RRuleFrequency)) throw new Error(`Unsupported FREQ "${value}"`)
+                rule.freq = value as RRuleFrequency
+                hasFreq = true
+                break
+            case 'INTERVAL':
+                rule.interval = Number(value)
+                if (!Number.isInteger(rule.interval) || rule.interval < 1) throw new Error(`Invalid INTERVAL "${value}"`)
+                break
+            case 'BYDAY':
+                rule.byDay = value.split(',').map(token => {
+                    const match = token.match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/)
+                    if (!match) throw new Error(`Invalid BYDAY value "${token}"`)
+                    return match[1] ? { weekday: match[2] as Weekday, ordinal: Number(match[1]) } : { weekday: match[2] as Weekday }
+                })
+                break
+            case 'BYMONTHDAY':
+                rule.byMonthDay = value.split(',').map(token => {
+                    const day = Number(token)
+                    if (!Number.isInteger(day) || day === 0 || Math.abs(day) > 31) throw new Error(`Invalid BYMONTHDAY value "${token}"`)
+                    return day
+                })
+                break
+            case 'COUNT':
+                rule.count = Number(value)
+                if (!Number.isInteger(rule.count) || rule.count < 1) throw new Error(`Invalid COUNT "${value}"`)
+                break
+            case 'UNTIL':
+                rule.until = parseUntil(value)
+                break
+            case 'WKST':
+                // Weeks always start on Monday here
+                break
+            default:
+                throw new Error(`Unsupported rule part "${key}"`)
+        }
+    }
+
+    if (!hasFreq) throw new Error('Recurrence rule needs a FREQ')
+    if (rule.count && rule.until) throw new Error('COUNT and UNTIL cannot be combined')
+    if (rule.freq !== 'MONTHLY' && rule.byDay.some(d => d.ordinal)) {
+        throw new Error('Numbered weekdays (e.g. 1MO) are only supported for monthly rules')
+    }
+    return rule
+}
+
+export function formatRRule(rule: RRule): string {
+    const parts = [`FREQ=${rule.freq}`]
+    if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+    if (rule.byDay.length > 0) parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ''}${d.weekday}`).join(',')}`)
+    if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`)
+    if (rule.count) parts.push(`COUNT=${rule.count}`)
+    if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`)
+    return parts.join(';')
+}
+
+function withTimeOf(day: Date, time: Date): Date {
+    return new Date(day.getFullYear(), day.getMonth(), day.getDate(), time.getHours(), time.getMinutes(), time.getSeconds(), time.getMilliseconds())
+}
+
+function nthWeekdayOfMonth(month: Date, weekday: Weekday, ordinal: number): Date | null {
+    const matches: Date[] = []
+    for (let day = 1; day <= getDaysInMonth(month); day++) {
+        const date = new Date(month.getFullYear(), month.getMonth(), day)
+        if (weekdayOf(date) === weekday) matches.push(date)
+    }
+    return (ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal]) ?? null
+}
+
+// Candidate days in the p-th period (day, week, month or year) of the rule.
+function periodCandidates(rule: RRule, dtstart: Date, period: number): Date[] {
+    const step = period * rule.interval
+    const weekdays = rule.byDay.map(d => d.weekday)
+
+    switch (rule.freq) {
+        case 'DAILY': {
+            const day = addDays(dtstart, step)
+            return weekdays.length === 0 || weekdays.includes(weekdayOf(day)) ? [day] : []
+        }
+        case 'WEEKLY': {
+            const weekStart = addWeeks(startOfWeek(dtstart, { weekStartsOn: 1 }), step)
+            const days = weekdays.length > 0 ? weekdays : [weekdayOf(dtstart)]
+            return WEEKDAYS
+                .filter(w => days.includes(w))
+                .map(w => withTimeOf(addDays(weekStart, WEEKDAYS.indexOf(w)), dtstart))
+        }
+        case 'MONTHLY': {
+            const month = addMonths(startOfMonth(dtstart), step)
+            const daysInMonth = getDaysInMonth(month)
+            let days: Date[] = []
+
+            if (rule.byMonthDay.length > 0) {
+                days = rule.byMonthDay
+                    .map(n => n > 0 ? n : daysInMonth + n + 1)
+                    .filter(n => n >= 1 && n <= daysInMonth)
+                    .map(n => new Date(month.getFullYear(), month.getMonth(), n))
+            }
+            if (rule.byDay.length > 0) {
+                const weekdayDays: Date[] = []
+                rule.byDay.forEach(({ weekday, ordinal }) => {
+                    if (ordinal) {
+                        const date = nthWeekdayOfMonth(month, weekday, ordinal)
+                        if (date) weekdayDays.push(date)
+                    } else {
+                        for (let n = 1; n <= daysInMonth; n++) {
+                            const date = new Date(month.getFullYear(), month.getMonth(), n)
+                            if (weekdayOf(date) === weekday) weekdayDays.push(date)
+                        }
+                    }
+                })
+                // With BYMONTHDAY too a day must match both, e.g. Friday the 13th
+                days = rule.byMonthDay.length > 0
+                    ? days.filter(d => weekdayDays.some(w => w.getTime() === d.getTime()))
+                    : weekdayDays
+            }
+            if (rule.byMonthDay.length === 0 && rule.byDay.length === 0 && dtstart.getDate() <= daysInMonth) {
+                // Months without that day (e.g. the 31st) are skipped, as in RFC 5545
+                days = [new Date(month.getFullYear(), month.getMonth(), dtstart.getDate())]
+            }
+
+            return days
+                .sort((a, b) => a.getTime() - b.getTime())
+                .map(d => withTimeOf(d, dtstart))
+        }
+        case 'YEARLY': {
+            const year = dtstart.getFullYear() + step
+            const day = new Date(year, dtstart.getMonth(), dtstart.getDate())
+            // Feb 29 only recurs in leap years
+            return day.getMonth() === dtstart.getMonth() ? [withTimeOf(day, dtstart)] : []
+        }
+    }
+}
+
+// Occurrences of the rule that fall within [from, to], in order. COUNT is
+// counted from dtstart, so earlier occurrences still use up the count.
+export function expandRRule(rule: RRule, dtstart: Date, from: Date, to: Date, limit = 500): Date[] {
+    const occurrences: Date[] = []
+    let emitted = 0
+
+    for (let period = 0; period < MAX_PERIODS; period++) {
+        const candidates = periodCandidates(rule, dtstart, period)
+
+        for (const candidate of candidates) {
+            if (candidate < dtstart) continue
+            if (candidate > to || (rule.until && candidate > rule.until)) return occurrences
+
+            emitted++
+            if (rule.count && emitted > rule.count) return occurrences
+
+            if (candidate >= from) {
+                occurrences.push(candidate)
+                if (occurrences.length >= limit) return occurrences
+            }
+        }
+    }
+
+    return occurrences
+}
+
+export function describeRRule(rule: RRule): string {
+    const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[rule.freq]
+    let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`
+
+    if (rule.byDay.length > 0) {
+        const days = rule.byDay.map(({ weekday, ordinal }) => {
+            if (!ordinal) return WEEKDAY_NAMES[weekday]
+            const nth = ordinal === -1 ? 'last' : ordinal === 1 ? '1st' : ordinal === 2 ? '2nd' : ordinal === 3 ? '3rd' : `${ordinal}th`
+            return `${nth} ${WEEKDAY_NAMES[weekday]}`
+        })
+        text += ` on ${days.join(', ')}`
+    }
+    if (rule.byMonthDay.length > 0) {
+        text += ` on day ${rule.byMonthDay.map(n => n === -1 ? 'last' : String(n)).join(', ')}`
+    }
+    if (rule.count) text += `, ${rule.count} times`
+    if (rule.until) text += `, until ${format(rule.until, 'MMM d, yyyy')}`
+    return text
+}
@@ -0,0 +1,55 @@
+import type { TaskListItem } from '../data'
+
+export type TaskGrouping = 'status' | 'priority' | 'assignee' | 'client' | 'department' | 'content_type'
+
+export const TASK_GROUPINGS: { key: TaskGrouping; label: string }[] = [
+    { key: 'status', label: 'Status' },
+    { key: 'priority', label: 'Priority' },
+    { key: 'assignee', label: 'Assignee' },
+    { key: 'client', label: 'Client' },
+    { key: 'department', label: 'Department' },
+    { key: 'content_type', label: 'Content Type' }
+]
+
+export interface TaskGroup<T> {
+    key: string
+    label: string
+    tasks: T[]
+}
+
+const PRIORITY_ORDER = ['high', 'medium', 'low']
+
+function groupOf(task: TaskListItem, grouping: TaskGrouping): { key: string; label: string } {
+    switch (grouping) {
+        case 'status': return { key: task.status?.label || '', label: task.status?.label || 'No Status' }
+        case 'priority': return { key: task.priority || '', label: task.priority ? task.priority[0].toUpperCase() + task.priority.slice(1) : 'Normal' }
+        // A task with several assignees sits with the first one
+        case 'assignee': return { key: task.assignees[0]?.id || '', label: task.assignees[0]?.full_name || task.assignees[0]?.email || 'Unassigned' }
+        case 'client': return { key: task.client?.id || '', label: task.client?.name || 'No Client' }
+        case 'department': return { key: task.department?.id || '', label: task.department?.name || 'No Department' }
+        case 'content_type': return { key: task.content_type || '', label: task.content_type || 'No Type' }
+    }
+}
+
+// Splits an already sorted list into groups, keeping the sort inside each
+// group. Groups appear in the order of their first task, priorities from
+// high to low; an unknown grouping gives one unlabeled group.
+export function groupTasks<T extends TaskListItem>(tasks: T[], grouping: string | null): TaskGroup<T>[] {
+    const known = TASK_GROUPINGS.find(g => g.key === grouping)?.key
+    if (!known) return [{ key: '', label: '', tasks }]
+
+    const groups = new Map<string, TaskGroup<T>>()
+    tasks.forEach(task => {
+        const { key, label } = groupOf(task, known)
+        const group = groups.get(key) || { key, label, tasks: [] }
+        group.tasks.push(task)
+        groups.set(key, group)
+    })
+
+    const result = [...groups.values()]
+    if (known === 'priority') {
+        const rank = (key: string) => PRIORITY_ORDER.includes(key) ? PRIORITY_ORDER.indexOf(key) : PRIORITY_ORDER.length
+        result.sort((a, b) => rank(a.key) - rank(b.key))
+    }
+    return result
+}
@@ -0,0 +1,19 @@
+import { TRASH_ENTITIES, TRASH_RETENTION_DAYS, formatDeletionSummary, previewDeletion, type TrashEntity } from '../data'
+
+// Asks before moving a row to the trash, naming what goes along with it.
+export async function confirmMoveToTrash(entity: TrashEntity, id: string, name: string): Promise<boolean> {
+    let summary = ''
+    try {
+        summary = formatDeletionSummary(await previewDeletion(entity, id))
+    } catch (error) {
+        // Still ask; the preview only adds detail
+        console.error('Error previewing deletion:', error)
+    }
+
+    const noun = TRASH_ENTITIES.find(e => e.entity === entity)?.label.toLowerCase() || 'item'
+    return confirm(
+        `Move ${noun} "${name}" to the trash?` +
+        (summary ? ` This ${noun} has ${summary}.` : '') +
+        ` You can restore it from the trash for ${TRASH_RETENTION_DAYS} days.`
+    )
+}
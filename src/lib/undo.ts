@@ -0,0 +1,99 @@
+import {
+    assignTask,
+    moveTask,
+    moveToTrash,
+    restoreDeletion,
+    type TaskRank,
+    type TaskRow
+} from '../data'
+import type { UndoCommand } from '../contexts/UndoContext'
+
+type UndoableTask = Pick<TaskRow, 'id' | 'title' | 'status_id' | 'rank'>
+
+// A card dropped into `status`; `task` holds where it was before. Undoing
+// puts it back in its old column at its old place. Null when the task had
+// no column to go back to.
+export function taskMoveCommand(
+    task: UndoableTask,
+    status: { id: string; label: string },
+    ranks: TaskRank[],
+    refresh: () => void
+): UndoCommand | null {
+    const fromStatusId = task.status_id
+    if (!fromStatusId) return null
+    const fromRanks = task.rank ? [{ id: task.id, rank: task.rank }] : []
+
+    return {
+        label: fromStatusId === status.id ? `Reordered "${task.title}"` : `Moved "${task.title}" to ${status.label}`,
+        undo: async () => {
+            await moveTask(task.id, fromStatusId, fromRanks)
+            refresh()
+        },
+        redo: async () => {
+            await moveTask(task.id, status.id, ranks)
+            refresh()
+        }
+    }
+}
+
+// The task's assignees replaced; null when the set did not change.
+export function assigneesCommand(
+    task: Pick<TaskRow, 'id' | 'title'>,
+    before: string[],
+    after: string[],
+    refresh: () => void
+): UndoCommand | null {
+    if (before.length === after.length && before.every(id => after.includes(id))) return null
+
+    return {
+        label: `Changed assignees of "${task.title}"`,
+        undo: async () => {
+            await assignTask(task.id, before)
+            refresh()
+        },
+        redo: async () => {
+            await assignTask(task.id, after)
+            refresh()
+        }
+    }
+}
+
+// A subtask checked or unchecked through `toggle`, which updates both the
+// list on screen and the database.
+export function subtaskToggleCommand(
+    subtask: { id: string; title: string },
+    isCompleted: boolean,
+    toggle: (id: string, isCompleted: boolean) => void | Promise<void>
+): UndoCommand {
+    return {
+        label: `${isCompleted ? 'Checked' : 'Unchecked'} "${subtask.title}"`,
+        undo: async () => {
+            await toggle(subtask.id, !isCompleted)
+        },
+        redo: async () => {
+            await toggle(subtask.id, isCompleted)
+        }
+    }
+}
+
+// A task moved to the trash as `deletionId`. Redoing trashes it again
+// under a new deletion.
+export function taskTrashCommand(
+    task: Pick<TaskRow, 'id' | 'title'>,
+    deletionId: string,
+    refresh: () => void
+): UndoCommand {
+    let current = deletionId
+
+    return {
+        label: `Moved "${task.title}" to the trash`,
+        undo: async () => {
+            await restoreDeletion(current)
+            refresh()
+        },
+        redo: async () => {
+            current = await moveToTrash('task', task.id)
+            refresh()
+        }
+    }
+}
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from 'react'
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel'] as const
+const CHECK_INTERVAL_MS = 15_000
+
+// Reports when the user has been away for longer than `thresholdMs`, with
+// the moment they were last seen. Time spent in another window does not
+// count: people often work in other apps while a timer runs. Only a focused
+// tab with no input, or a machine that slept, counts as idle.
+export function useIdleGap(thresholdMs: number, enabled: boolean): [Date | null, () => void] {
+    const [idleSince, setIdleSince] = useState<Date | null>(null)
+
+    useEffect(() => {
+        if (!enabled) return
+
+        let lastActivity: number | null = document.hasFocus() ? Date.now() : null
+        let lastTick = Date.now()
+
+        const markActive = () => {
+            if (document.hasFocus()) lastActivity = Date.now()
+        }
+        const markAway = () => {
+            lastActivity = null
+        }
+
+        const check = () => {
+            const now = Date.now()
+            // Intervals do not fire while the machine sleeps
+            if (now - lastTick > thresholdMs) {
+                setIdleSince(prev => prev || new Date(lastTick))
+            } else if (lastActivity !== null && now - lastActivity > thresholdMs) {
+                const since = lastActivity
+                setIdleSince(prev => prev || new Date(since))
+            }
+            lastTick = now
+        }
+
+        ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }))
+        window.addEventListener('focus', markActive)
+        window.addEventListener('blur', markAway)
+        const interval = setInterval(check, CHECK_INTERVAL_MS)
+
+        return () => {
+            ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive))
+            window.removeEventListener('focus', markActive)
+            window.removeEventListener('blur', markAway)
+            clearInterval(interval)
+        }
+    }, [thresholdMs, enabled])
+
+    const clear = useCallback(() => setIdleSince(null), [])
+
+    return [idleSince, clear]
+}
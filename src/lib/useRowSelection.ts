@@ -0,0 +1,46 @@
+import { useRef, useState } from 'react'
+
+export interface RowSelection {
+    selectedIds: string[]
+    isSelected: (id: string) => boolean
+    // With shift held, every row between the last clicked one and `id`
+    // takes the state `id` is switching to
+    toggle: (id: string, shiftKey?: boolean) => void
+    toggleAll: () => void
+    replace: (ids: string[]) => void
+}
+
+// Checkbox selection over the rows a list currently shows, in display
+// order. Rows that get filtered out drop out of the selection.
+export function useRowSelection(rowIds: string[]): RowSelection {
+    const [selected, setSelected] = useState<string[]>([])
+    const anchorRef = useRef<string | null>(null)
+
+    const selectedIds = selected.filter(id => rowIds.includes(id))
+
+    const toggle = (id: string, shiftKey = false) => {
+        const index = rowIds.indexOf(id)
+        const anchorIndex = anchorRef.current ? rowIds.indexOf(anchorRef.current) : -1
+        const range = shiftKey && index !== -1 && anchorIndex !== -1
+            ? rowIds.slice(Math.min(index, anchorIndex), Math.max(index, anchorIndex) + 1)
+            : [id]
+        const select = !selectedIds.includes(id)
+
+        setSelected(prev => select
+            ? [...new Set([...prev, ...range])]
+            : prev.filter(r => !range.includes(r)))
+        anchorRef.current = id
+    }
+
+    const toggleAll = () => {
+        setSelected(selectedIds.length === rowIds.length ? [] : rowIds)
+    }
+
+    return {
+        selectedIds,
+        isSelected: id => selectedIds.includes(id),
+        toggle,
+        toggleAll,
+        replace: setSelected
+    }
+}
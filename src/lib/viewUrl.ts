@@ -0,0 +1,68 @@
+import { useEffect } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
+import { normalizeViewState, type SavedViewState } from '../data'
+
+// Saved views and list state in the page URL, so any view can be bookmarked:
+// ?view=tasks-tracker&client=<id>&saved=<id>&state=<base64url JSON>
+
+const VIEW_PARAM = 'view'
+const CLIENT_PARAM = 'client'
+const SAVED_VIEW_PARAM = 'saved'
+const STATE_PARAM = 'state'
+
+export interface ViewLocation {
+    view: string | null
+    clientId: string | null
+    savedViewId: string | null
+    state: SavedViewState | null
+}
+
+export function encodeViewState(state: SavedViewState): string {
+    const bytes = new TextEncoder().encode(JSON.stringify(state))
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+// Null for anything that is not an encoded state, e.g. a truncated link.
+export function decodeViewState(text: string): SavedViewState | null {
+    try {
+        const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+        const bytes = Uint8Array.from(binary, c => c.charCodeAt(0))
+        return normalizeViewState(JSON.parse(new TextDecoder().decode(bytes)))
+    } catch {
+        return null
+    }
+}
+
+export function readViewLocation(search: string): ViewLocation {
+    const params = new URLSearchParams(search)
+    const state = params.get(STATE_PARAM)
+    return {
+        view: params.get(VIEW_PARAM),
+        clientId: params.get(CLIENT_PARAM),
+        savedViewId: params.get(SAVED_VIEW_PARAM),
+        state: state ? decodeViewState(state) : null
+    }
+}
+
+export function viewSearch(location: Partial<ViewLocation>): string {
+    const params = new URLSearchParams()
+    if (location.view) params.set(VIEW_PARAM, location.view)
+    if (location.clientId) params.set(CLIENT_PARAM, location.clientId)
+    if (location.savedViewId) params.set(SAVED_VIEW_PARAM, location.savedViewId)
+    if (location.state) params.set(STATE_PARAM, encodeViewState(location.state))
+    const search = params.toString()
+    return search ? `?${search}` : ''
+}
+
+// Keeps the page URL in step with what the dashboard shows. The URL is
+// replaced rather than pushed, so filtering does not fill the history.
+// Null leaves the URL to whichever component below owns it.
+export function useViewUrl(location: Partial<ViewLocation> | null) {
+    const navigate = useNavigate()
+    const { search: current } = useLocation()
+    const search = location ? viewSearch(location) : null
+
+    useEffect(() => {
+        if (search !== null && search !== current) navigate({ search }, { replace: true })
+    }, [search, current, navigate])
+}
@@ -0,0 +1,23 @@
+import { countTasksInStatus, type TaskStatusRow } from '../data'
+
+// Asks before a task moves into a column at its work-in-progress limit.
+// Columns with the 'block' policy refuse; the database enforces the same.
+export async function confirmWipLimit(status: Pick<TaskStatusRow, 'id' | 'label' | 'wip_limit' | 'wip_policy'>): Promise<boolean> {
+    if (!status.wip_limit) return true
+
+    let count: number
+    try {
+        count = await countTasksInStatus(status.id)
+    } catch (error) {
+        // Let the move through; a blocking column still refuses it on save
+        console.error('Error counting tasks in status:', error)
+        return true
+    }
+    if (count < status.wip_limit) return true
+
+    if (status.wip_policy === 'block') {
+        alert(`"${status.label}" is at its limit of ${status.wip_limit} tasks. Move something out first.`)
+        return false
+    }
+    return confirm(`"${status.label}" already holds ${count} tasks, over its limit of ${status.wip_limit}. Move this one in anyway?`)
+}
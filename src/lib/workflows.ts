@@ -0,0 +1,18 @@
+import { getMoveRejection } from '../data'
+
+// Explains and refuses a status change the department's workflow does not
+// allow, before the task is moved on screen.
+export async function confirmWorkflowMove(taskId: string, statusId: string): Promise<boolean> {
+    let reason: string | null
+    try {
+        reason = await getMoveRejection(taskId, statusId)
+    } catch (error) {
+        // Let the move through; the database still refuses it on save
+        console.error('Error checking workflow rules:', error)
+        return true
+    }
+    if (!reason) return true
+
+    alert(`Can't move this task. ${reason}`)
+    return false
+}
@@ -2,6 +2,10 @@ import { useAuth } from '../contexts/AuthContext'
 import { useEffect, useState } from 'react'
 import { supabase } from '../lib/supabase'
 import Modal from '../components/Modal'
+import RoleTemplatesEditor from '../components/RoleTemplatesEditor'
+import TrashBin from '../components/TrashBin'
+import EstimateReport from '../components/EstimateReport'
+import TimerWidget from '../components/TimerWidget'
 import {
     Users,
     UserPlus,
@@ -141,34 +145,37 @@ export default function AdminDashboard() {
                             </p>
                         </div>
                     </div>
-                    <button
-                        onClick={signOut}
-                        style={{
-                            padding: '0.5rem 1rem',
-                            background: 'white',
-                            color: '#a68256',
-                            border: '1px solid #e6dccf',
-                            borderRadius: '0.5rem',
-                            cursor: 'pointer',
-                            fontWeight: '600',
-                            fontSize: '0.875rem',
-                            display: 'flex',
-                            alignItems: 'center',
-                            gap: '0.5rem',
-                            transition: 'all 0.2s',
-                        }}
-                        onMouseEnter={(e) => {
-                            e.currentTarget.style.background = '#fdfbf7';
-                            e.currentTarget.style.borderColor = '#d9cbb8';
-                        }}
-                        onMouseLeave={(e) => {
-                            e.currentTarget.style.background = 'white';
-                            e.currentTarget.style.borderColor = '#e6dccf';
-                        }}
-                    >
-                        <LogOut size={16} />
-                        Sign Out
-                    </button>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                        <TimerWidget />
+                        <button
+                            onClick={signOut}
+                            style={{
+                                padding: '0.5rem 1rem',
+                                background: 'white',
+                                color: '#a68256',
+                                border: '1px solid #e6dccf',
+                                borderRadius: '0.5rem',
+                                cursor: 'pointer',
+                                fontWeight: '600',
+                                fontSize: '0.875rem',
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: '0.5rem',
+                                transition: 'all 0.2s',
+                            }}
+                            onMouseEnter={(e) => {
+                                e.currentTarget.style.background = '#fdfbf7';
+                                e.currentTarget.style.borderColor = '#d9cbb8';
+                            }}
+                            onMouseLeave={(e) => {
+                                e.currentTarget.style.background = 'white';
+                                e.currentTarget.style.borderColor = '#e6dccf';
+                            }}
+                        >
+                            <LogOut size={16} />
+                            Sign Out
+                        </button>
+                    </div>
                 </div>
             </header>
 
@@ -312,6 +319,15 @@ export default function AdminDashboard() {
                         )}
                     </div>
                 </div>
+
+                {/* Estimate Accuracy Section */}
+                <EstimateReport />
+
+                {/* Role Templates Section */}
+                <RoleTemplatesEditor />
+
+                {/* Trash Section */}
+                <TrashBin />
             </main>
 
             {/* Add CC Modal */}
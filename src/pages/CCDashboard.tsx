@@ -1,10 +1,10 @@
 import { useAuth } from '../contexts/AuthContext'
 import { useTheme } from '../contexts/ThemeContext'
+import { usePermission } from '../contexts/PermissionsContext'
 import { useEffect, useState } from 'react'
 import { supabase } from '../lib/supabase'
 import { createClient } from '@supabase/supabase-js'
 import Modal from '../components/Modal'
-import { ENABLE_NOTIFICATION_DEDUPLICATION } from '../config'
 import {
     Users,
     Briefcase,
@@ -27,6 +27,7 @@ import DashboardAnalyticsModal from '../components/DashboardAnalyticsModal'
 import EmployeeAssignmentModal from '../components/EmployeeAssignmentModal'
 import ActivityFeed from '../components/ActivityFeed'
 import NotificationCenter from '../components/NotificationCenter'
+import TimerWidget from '../components/TimerWidget'
 import ClientSidebar from '../components/ClientSidebar'
 import CCProfile from '../components/CCProfile'
 import CreativeProgress from '../components/CreativeProgress'
@@ -34,6 +35,13 @@ import TasksTracker from '../components/TasksTracker'
 import Meetings from '../components/Meetings'
 import EmployeeGallery from '../components/EmployeeGallery'
 import EmployeeTasksModal from '../components/EmployeeTasksModal'
+import TimesheetApprovals from '../components/TimesheetApprovals'
+import Billing from '../components/Billing'
+import TrashBin from '../components/TrashBin'
+import { isSavedViewTarget, listSavedViews, moveToTrash, type Employee, type SavedView, type SavedViewState, type SavedViewTarget } from '../data'
+import { DASHBOARD_NAVIGATE_EVENT, isDashboardView, openSavedView, type DashboardNavigation } from '../lib/navigation'
+import { readViewLocation, useViewUrl } from '../lib/viewUrl'
+import { confirmMoveToTrash } from '../lib/trash'
 
 
 interface Profile {
@@ -60,28 +68,40 @@ interface Department {
     created_at: string
 }
 
-interface Employee {
-    id: string
-    email: string
-    full_name: string
-    created_at: string
-    status?: 'active' | 'inactive'
-    created_by?: string
-    avatar_url?: string
-    task_count?: number
+type DashboardView = 'dashboard' | 'profile' | 'creative-progress' | 'tasks-tracker' | 'meetings' | 'employees' | 'timesheets' | 'billing' | 'trash'
+
+// The state a list surface was last opened with. A new key remounts it.
+interface AppliedView {
+    target: SavedViewTarget
+    savedViewId: string | null
+    state: SavedViewState
+    key: number
 }
 
 export default function CCDashboard() {
     const { user, signOut } = useAuth()
+    const canManageClients = usePermission('client.manage')
+    const canManageDepartments = usePermission('department.manage')
+    const canManageEmployees = usePermission('employee.manage')
     const { theme, toggleTheme } = useTheme()
     const [profile, setProfile] = useState<Profile | null>(null)
     const [clients, setClients] = useState<Client[]>([])
-    const [selectedClient, setSelectedClient] = useState<string | null>(null)
+    // A bookmarked URL decides where the dashboard opens
+    const [initialLocation] = useState(() => readViewLocation(window.location.search))
+    const [selectedClient, setSelectedClient] = useState<string | null>(initialLocation.clientId)
 
     const [departments, setDepartments] = useState<Department[]>([])
     const [employees, setEmployees] = useState<Employee[]>([])
     const [loading, setLoading] = useState(true)
-    const [viewMode, setViewMode] = useState<'dashboard' | 'profile' | 'creative-progress' | 'tasks-tracker' | 'meetings' | 'employees'>('dashboard')
+    const [viewMode, setViewMode] = useState<DashboardView>(
+        initialLocation.view && isDashboardView<DashboardView>('client_coordinator', initialLocation.view) ? initialLocation.view : 'dashboard'
+    )
+    const [appliedView, setAppliedView] = useState<AppliedView | null>(
+        isSavedViewTarget(initialLocation.view) && initialLocation.state
+            ? { target: initialLocation.view, savedViewId: initialLocation.savedViewId, state: initialLocation.state, key: 0 }
+            : null
+    )
+    const [savedViews, setSavedViews] = useState<SavedView[]>([])
 
     // Form states
     const [showAddClient, setShowAddClient] = useState(false)
@@ -138,203 +158,49 @@ export default function CCDashboard() {
         }
     }
     const [searchTerm, setSearchTerm] = useState('')
+    const [focusMeetingId, setFocusMeetingId] = useState<string | null>(null)
 
     // Event Listener for Command Palette Navigation
     useEffect(() => {
-        const handleNavigation = (e: any) => {
-            const view = e.detail.view
-            if (view === 'dashboard') setViewMode('dashboard')
-            else if (view === 'tasks') setViewMode('tasks-tracker')
-            else if (view === 'meetings') setViewMode('meetings')
-            else if (view === 'profile') setViewMode('profile')
+        const handleNavigation = (e: Event) => {
+            const { view, meetingId, clientId, profileId, profileName, viewState, savedViewId } = (e as CustomEvent<DashboardNavigation>).detail
+            if (!isDashboardView<typeof viewMode>('client_coordinator', view)) return
+            setViewMode(view)
+            // A list surface opened without a view starts from its defaults
+            if (isSavedViewTarget(view)) {
+                setAppliedView(viewState ? { target: view, savedViewId: savedViewId ?? null, state: viewState, key: Date.now() } : null)
+            }
+            setFocusMeetingId(view === 'meetings' ? meetingId || null : null)
+            // A client result, or a meeting's client so the meetings list includes it
+            if (clientId) setSelectedClient(clientId)
+            if (view === 'employees' && profileId) {
+                setSelectedEmployeeForTasks({ id: profileId, name: profileName || '' })
+                setShowEmployeeTasks(true)
+            }
         }
 
-        window.addEventListener('dashboard-navigate', handleNavigation)
-        return () => window.removeEventListener('dashboard-navigate', handleNavigation)
+        window.addEventListener(DASHBOARD_NAVIGATE_EVENT, handleNavigation)
+        return () => window.removeEventListener(DASHBOARD_NAVIGATE_EVENT, handleNavigation)
     }, [])
     useEffect(() => {
         loadProfile()
         loadClients()
         loadEmployees()
-        cleanupDuplicates().then(() => {
-            checkOverdueTasks()
-        })
     }, [user, empPage])
 
-    const cleanupDuplicates = async () => {
-        if (!user) return
-
-        const { data: notifs } = await supabase
-            .from('notifications')
-            .select('id, title, created_at')
-            .eq('user_id', user.id)
-            .order('created_at', { ascending: false })
-
-        if (!notifs) return
-
-        const seenTitles = new Set()
-        const idsToDelete: string[] = []
-
-        for (const n of notifs) {
-            if (seenTitles.has(n.title)) {
-                idsToDelete.push(n.id)
-            } else {
-                seenTitles.add(n.title)
-            }
-        }
-
-        if (idsToDelete.length > 0) {
-            await supabase
-                .from('notifications')
-                .delete()
-                .in('id', idsToDelete)
-        }
+    const loadSavedViews = () => {
+        listSavedViews()
+            .then(setSavedViews)
+            .catch(error => console.error('Error loading saved views:', error))
     }
 
-    const checkOverdueTasks = async () => {
-        if (!user) return
-
-        try {
-            // 1. Get all tasks for this CC's clients -> workspaces -> departments
-            const { data: tasks, error } = await supabase
-                .from('tasks')
-                .select(`
-                    id,
-                    title,
-                    due_date,
-                    status_id,
-                    assigned_to,
-                    department:departments!inner(
-                        workspace:workspaces!inner(
-                            client:clients!inner(
-                                cc_id
-                            )
-                        )
-                    ),
-                    status:task_statuses(label),
-                    assignee:profiles!tasks_assigned_to_fkey(full_name)
-                `)
-                .eq('department.workspace.client.cc_id', user.id)
-                .lt('due_date', new Date().toISOString())
-
-            if (error) throw error
-
-            if (tasks && tasks.length > 0) {
-                // 2. Filter out completed tasks
-                const overdueTasks = tasks.filter((task: any) => {
-                    const statusLabel = task.status?.label?.toLowerCase() || ''
-                    return !statusLabel.includes('done') && !statusLabel.includes('complete') && !statusLabel.includes('finish')
-                })
-
-                // 3. Check and create notifications
-                for (const task of overdueTasks) {
-                    const notificationTitle = `Task Overdue: ${task.title}`
-
-                    // Get employees assigned to THIS overdue task
-                    // We fetch profiles directly for the assigned users
-                    const { data: taskAssignments } = await supabase
-                        .from('task_assignments')
-                        .select('user_id')
-                        .eq('task_id', task.id)
-
-                    const assignedIds = taskAssignments?.map(a => a.user_id) || []
-                    let assignedNames = ''
-
-                    if (assignedIds.length > 0) {
-                        const { data: profiles } = await supabase
-                            .from('profiles')
-                            .select('full_name')
-                            .in('id', assignedIds)
-                            .order('full_name', { ascending: true })
-
-                        if (profiles) {
-                            assignedNames = profiles.map(p => p.full_name).join(', ')
-                        }
-                    }
-
-                    const dueDate = new Date(task.due_date).toLocaleDateString()
-
-                    let message = `The task "${task.title}" was due on ${dueDate}.`
-                    if (assignedNames) {
-                        message += ` Assigned to: ${assignedNames}`
-                    } else {
-                        message += ` No employees assigned.`
-                    }
+    useEffect(() => {
+        loadSavedViews()
+    }, [user])
 
-                    if (ENABLE_NOTIFICATION_DEDUPLICATION) {
-                        // Server-side deduplication check
-                        try {
-                            const { data: existing, error: selectError } = await supabase
-                                .from('notifications')
-                                .select('id')
-                                .eq('user_id', user.id)
-                                .eq('deduplication_key', `task_overdue_${task.id}`)
-                                .maybeSingle()
-
-                            if (selectError) throw selectError
-
-                            if (!existing) {
-                                const { error: insertError } = await supabase
-                                    .from('notifications')
-                                    .insert({
-                                        user_id: user.id,
-                                        title: notificationTitle,
-                                        message: message,
-                                        type: 'warning',
-                                        deduplication_key: `task_overdue_${task.id}`
-                                    })
-                                if (insertError) throw insertError
-                            }
-                        } catch (err) {
-                            // Fallback: Check by content if key checks fail
-                            const { data: existingContent } = await supabase
-                                .from('notifications')
-                                .select('id')
-                                .eq('user_id', user.id)
-                                .eq('title', notificationTitle)
-                                .eq('message', message)
-                                .is('is_read', false)
-                                .maybeSingle()
-
-                            if (!existingContent) {
-                                await supabase
-                                    .from('notifications')
-                                    .insert({
-                                        user_id: user.id,
-                                        title: notificationTitle,
-                                        message: message,
-                                        type: 'warning'
-                                    })
-                            }
-                        }
-                    } else {
-                        // Deduplication disabled - but still check content to avoid spam
-                        const { data: existingContent } = await supabase
-                            .from('notifications')
-                            .select('id')
-                            .eq('user_id', user.id)
-                            .eq('title', notificationTitle)
-                            .eq('message', message)
-                            .is('is_read', false)
-                            .maybeSingle()
-
-                        if (!existingContent) {
-                            await supabase
-                                .from('notifications')
-                                .insert({
-                                    user_id: user.id,
-                                    title: notificationTitle,
-                                    message: message,
-                                    type: 'warning'
-                                })
-                        }
-                    }
-                }
-            }
-        } catch (error) {
-            console.error('Error checking overdue tasks:', error)
-        }
-    }
+    // The list surfaces write their own state into the URL
+    useViewUrl(isSavedViewTarget(viewMode) ? null : { view: viewMode === 'dashboard' ? null : viewMode, clientId: selectedClient })
+    const surfaceView = appliedView?.target === viewMode ? appliedView : null
 
     useEffect(() => {
         if (selectedClient) {
@@ -528,23 +394,21 @@ export default function CCDashboard() {
     }
 
     const handleDeleteClient = async (id: string) => {
-        if (!confirm('Are you sure you want to delete this client? This will delete all associated workspaces, departments, and tasks.')) return
-
-        const { error } = await supabase
-            .from('clients')
-            .delete()
-            .eq('id', id)
+        if (!canManageClients) return
+        const client = clients.find(c => c.id === id)
+        if (!await confirmMoveToTrash('client', id, client?.name || 'this client')) return
 
-        if (error) {
-            alert('Error deleting client: ' + error.message)
-        } else {
-            logActivity('delete_client', 'deleted a client')
-            createNotification('Client Deleted', 'Successfully deleted client', 'success')
+        try {
+            await moveToTrash('client', id)
+            logActivity('delete_client', `moved client ${client?.name || ''} to the trash`)
+            createNotification('Client Deleted', 'Moved the client to the trash', 'success')
             if (selectedClient === id) {
                 setSelectedClient(null)
                 setDepartments([])
             }
             loadClients()
+        } catch (error) {
+            alert('Error deleting client: ' + (error as Error).message)
         }
     }
 
@@ -613,22 +477,20 @@ export default function CCDashboard() {
     }
 
     const handleDeleteDepartment = async (id: string) => {
-        if (!confirm('Are you sure you want to delete this department? This will delete all associated tasks.')) return
+        if (!canManageDepartments) return
+        const department = departments.find(d => d.id === id)
+        if (!await confirmMoveToTrash('department', id, department?.name || 'this department')) return
 
-        const { error } = await supabase
-            .from('departments')
-            .delete()
-            .eq('id', id)
-
-        if (error) {
-            alert('Error deleting department: ' + error.message)
-        } else {
-            logActivity('delete_department', 'deleted a department')
-            createNotification('Department Deleted', 'Successfully deleted department', 'success')
+        try {
+            await moveToTrash('department', id)
+            logActivity('delete_department', `moved department ${department?.name || ''} to the trash`)
+            createNotification('Department Deleted', 'Moved the department to the trash', 'success')
             if (selectedDepartment === id) {
                 setSelectedDepartment(null)
             }
             if (selectedClient) loadClientDepartments(selectedClient)
+        } catch (error) {
+            alert('Error deleting department: ' + (error as Error).message)
         }
     }
 
@@ -702,27 +564,18 @@ export default function CCDashboard() {
     }
 
     const handleDeleteEmployee = async (id: string) => {
-        if (!confirm('Are you sure you want to delete this employee? This action cannot be undone.')) return
+        if (!canManageEmployees) return
+        const employee = employees.find(e => e.id === id)
+        if (!await confirmMoveToTrash('employee', id, employee?.full_name || employee?.email || 'this employee')) return
 
         try {
-            const { error, count } = await supabase
-                .from('profiles')
-                .delete({ count: 'exact' })
-                .eq('id', id)
-
-            if (error) {
-                console.error('Delete error:', error)
-                alert('Error deleting employee: ' + error.message)
-            } else if (count === 0) {
-                alert('Could not delete employee. You may not have permission, or they may have related records preventing deletion.')
-            } else {
-                logActivity('delete_employee', 'deleted an employee')
-                createNotification('Employee Deleted', 'Successfully deleted employee', 'success')
-                loadEmployees()
-            }
-        } catch (err) {
-            console.error('Unexpected error:', err)
-            alert('An unexpected error occurred while deleting.')
+            await moveToTrash('employee', id)
+            logActivity('delete_employee', `moved employee ${employee?.full_name || ''} to the trash`)
+            createNotification('Employee Deleted', 'Moved the employee to the trash', 'success')
+            loadEmployees()
+        } catch (error) {
+            console.error('Delete error:', error)
+            alert('Error deleting employee: ' + (error as Error).message)
         }
     }
 
@@ -896,7 +749,7 @@ export default function CCDashboard() {
                 }}
                 onAdd={() => setShowAddClient(true)}
                 onEdit={(c) => { setEditingClient(c); setClientName(c.name); setShowAddClient(true); }}
-                onDelete={handleDeleteClient}
+                onDelete={canManageClients ? handleDeleteClient : undefined}
                 profile={profile}
                 onSignOut={handleSignOut}
                 onProfileClick={() => {
@@ -919,11 +772,32 @@ export default function CCDashboard() {
                     setViewMode('employees')
                     setIsSidebarOpen(false)
                 }}
+                onTimesheetsClick={() => {
+                    setViewMode('timesheets')
+                    setIsSidebarOpen(false)
+                }}
+                onBillingClick={() => {
+                    setViewMode('billing')
+                    setIsSidebarOpen(false)
+                }}
+                onTrashClick={() => {
+                    setViewMode('trash')
+                    setIsSidebarOpen(false)
+                }}
+                savedViews={savedViews}
+                activeSavedViewId={surfaceView?.savedViewId ?? null}
+                onSavedViewClick={(view) => {
+                    openSavedView(view)
+                    setIsSidebarOpen(false)
+                }}
                 activeView={
                     viewMode === 'creative-progress' ? 'creative-progress' :
                         viewMode === 'tasks-tracker' ? 'tasks-tracker' :
                             viewMode === 'meetings' ? 'meetings' :
-                                viewMode === 'employees' ? 'employees' : 'clients'
+                                viewMode === 'employees' ? 'employees' :
+                                    viewMode === 'timesheets' ? 'timesheets' :
+                                        viewMode === 'billing' ? 'billing' :
+                                            viewMode === 'trash' ? 'trash' : 'clients'
                 }
                 isOpen={isSidebarOpen}
                 onClose={() => setIsSidebarOpen(false)}
@@ -936,15 +810,39 @@ export default function CCDashboard() {
                     </div>
                 ) : viewMode === 'creative-progress' ? (
                     <div style={{ padding: '2rem', overflowY: 'auto', height: '100%' }}>
-                        <CreativeProgress clientId={selectedClient} />
+                        <CreativeProgress
+                            key={surfaceView?.key}
+                            clientId={selectedClient}
+                            initialView={surfaceView?.state}
+                            savedViewId={surfaceView?.savedViewId}
+                            onSavedViewsChange={loadSavedViews}
+                        />
                     </div>
                 ) : viewMode === 'tasks-tracker' ? (
                     <div style={{ overflowY: 'auto', height: '100%' }}>
-                        <TasksTracker clientId={selectedClient} />
+                        <TasksTracker
+                            key={surfaceView?.key}
+                            clientId={selectedClient}
+                            initialView={surfaceView?.state}
+                            savedViewId={surfaceView?.savedViewId}
+                            onSavedViewsChange={loadSavedViews}
+                        />
                     </div>
                 ) : viewMode === 'meetings' ? (
                     <div style={{ overflowY: 'auto', height: '100%' }}>
-                        <Meetings clientId={selectedClient} />
+                        <Meetings clientId={selectedClient} focusMeetingId={focusMeetingId} />
+                    </div>
+                ) : viewMode === 'timesheets' ? (
+                    <div style={{ overflowY: 'auto', height: '100%' }}>
+                        <TimesheetApprovals />
+                    </div>
+                ) : viewMode === 'billing' ? (
+                    <div style={{ overflowY: 'auto', height: '100%' }}>
+                        <Billing clientId={selectedClient} clientName={clients.find(c => c.id === selectedClient)?.name} />
+                    </div>
+                ) : viewMode === 'trash' ? (
+                    <div style={{ overflowY: 'auto', height: '100%' }}>
+                        <TrashBin />
                     </div>
                 ) : viewMode === 'employees' ? (
                     <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
@@ -959,7 +857,7 @@ export default function CCDashboard() {
                                     setEmpPassword('')
                                     setShowAddEmployee(true)
                                 }}
-                                onDelete={handleDeleteEmployee}
+                                onDelete={canManageEmployees ? handleDeleteEmployee : undefined}
                                 onStatusChange={handleStatusChange}
                                 onTaskClick={(id, name) => {
                                     setSelectedEmployeeForTasks({ id, name })
@@ -1054,6 +952,7 @@ export default function CCDashboard() {
 
                                 {/* Right Actions */}
                                 <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center' }}>
+                                    <TimerWidget />
                                     <NotificationCenter />
 
                                     <button
@@ -1179,7 +1078,9 @@ export default function CCDashboard() {
                                                                     <span style={{ fontWeight: '600', color: 'var(--text-primary)', fontSize: '0.95rem' }}>{dept.name}</span>
                                                                     <div style={{ display: 'flex', gap: '0.25rem' }}>
                                                                         <button onClick={(e) => { e.stopPropagation(); setEditingDepartment(dept); setDepartmentName(dept.name); setShowAddDepartment(true); }} style={{ padding: '0.25rem', border: 'none', background: 'transparent', cursor: 'pointer', color: 'var(--text-secondary)' }}><Pencil size={14} /></button>
-                                                                        <button onClick={(e) => { e.stopPropagation(); handleDeleteDepartment(dept.id); }} style={{ padding: '0.25rem', border: 'none', background: 'transparent', cursor: 'pointer', color: 'var(--danger-color)' }}><Trash2 size={14} /></button>
+                                                                        {canManageDepartments && (
+                                                                            <button onClick={(e) => { e.stopPropagation(); handleDeleteDepartment(dept.id); }} style={{ padding: '0.25rem', border: 'none', background: 'transparent', cursor: 'pointer', color: 'var(--danger-color)' }}><Trash2 size={14} /></button>
+                                                                        )}
                                                                     </div>
                                                                 </div>
                                                                 <div style={{ display: 'flex', gap: '0.5rem' }}>
@@ -1362,6 +1263,7 @@ export default function CCDashboard() {
                     onClose={() => setShowDepartmentTasks(false)}
                     departmentId={selectedDepartment}
                     departmentName={departments.find(d => d.id === selectedDepartment)?.name || ''}
+                    clientId={selectedClient}
                     employees={selectedDepartment ? (departmentEmployees[selectedDepartment] || []) : []}
                 />
 
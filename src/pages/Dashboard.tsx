@@ -1,28 +1,10 @@
-import { useAuth } from '../contexts/AuthContext'
-import { useEffect, useState } from 'react'
-import { supabase } from '../lib/supabase'
+import { usePermissions } from '../contexts/PermissionsContext'
 import AdminDashboard from './AdminDashboard'
 import CCDashboard from './CCDashboard'
 import EmployeeDashboard from './EmployeeDashboard'
 
 export default function Dashboard() {
-    const { user } = useAuth()
-    const [role, setRole] = useState<string | null>(null)
-    const [loading, setLoading] = useState(true)
-
-    useEffect(() => {
-        const loadProfile = async () => {
-            if (!user) return
-            const { data } = await supabase
-                .from('profiles')
-                .select('role')
-                .eq('id', user.id)
-                .single()
-            setRole(data?.role || null)
-            setLoading(false)
-        }
-        loadProfile()
-    }, [user])
+    const { role, loading } = usePermissions()
 
     if (loading) {
         return (
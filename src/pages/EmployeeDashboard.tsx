@@ -2,28 +2,39 @@ import { useState, useEffect, useRef } from 'react'
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
 import { useTheme } from '../contexts/ThemeContext'
-import { LayoutGrid, List, LogOut, Moon, Sun, CheckCircle2, User, Calendar, Flag, BarChart2, Phone } from 'lucide-react'
-import { ENABLE_NOTIFICATION_DEDUPLICATION } from '../config'
+import { usePermission } from '../contexts/PermissionsContext'
+import { useUndo } from '../contexts/UndoContext'
+import { LayoutGrid, List, LogOut, Moon, Sun, CheckCircle2, User, Calendar, Flag, BarChart2, Phone, Clock, Trash2 } from 'lucide-react'
 import KanbanBoard from '../components/KanbanBoard'
 import TaskDetailsModal from '../components/TaskDetailsModal'
 import NotificationCenter from '../components/NotificationCenter'
+import TimerWidget from '../components/TimerWidget'
 import TaskCalendar from '../components/TaskCalendar'
 import TaskChart from '../components/TaskChart'
 import EmployeeAnalyticsModal from '../components/EmployeeAnalyticsModal'
 import EmployeeProfile from '../components/EmployeeProfile'
 import Meetings from '../components/Meetings'
+import Timesheet from '../components/Timesheet'
+import TrashBin from '../components/TrashBin'
+import MySubtasks from '../components/MySubtasks'
+import { getTask, listTasks, listStatuses, moveTask, isClosedStatus, isNotStartedStatus, type TaskListItem, type TaskRank, type TaskStatusRow } from '../data'
+import { DASHBOARD_NAVIGATE_EVENT, isDashboardView, type DashboardNavigation } from '../lib/navigation'
+import { taskMoveCommand } from '../lib/undo'
 
 export default function EmployeeDashboard() {
     const { user, signOut } = useAuth()
     const { theme, toggleTheme } = useTheme()
-    const [tasks, setTasks] = useState<any[]>([])
-    const [statuses, setStatuses] = useState<any[]>([])
+    const [tasks, setTasks] = useState<TaskListItem[]>([])
+    const [statuses, setStatuses] = useState<TaskStatusRow[]>([])
     const [loading, setLoading] = useState(true)
-    const [viewMode, setViewMode] = useState<'list' | 'board' | 'calendar' | 'chart' | 'profile' | 'meetings'>('list')
-    const [selectedTask, setSelectedTask] = useState<any>(null)
+    const [viewMode, setViewMode] = useState<'list' | 'board' | 'calendar' | 'chart' | 'profile' | 'meetings' | 'timesheet' | 'trash'>('list')
+    const [selectedTask, setSelectedTask] = useState<TaskListItem | null>(null)
+    const [focusMeetingId, setFocusMeetingId] = useState<string | null>(null)
     const [isTaskModalOpen, setIsTaskModalOpen] = useState(false)
     const [isReportModalOpen, setIsReportModalOpen] = useState(false)
     const [avatarUrl, setAvatarUrl] = useState<string | null>(null)
+    const canDeleteTasks = usePermission('task.delete')
+    const { record } = useUndo()
     const [userName, setUserName] = useState<string>('')
     const [currentTime, setCurrentTime] = useState(new Date())
 
@@ -61,20 +72,19 @@ export default function EmployeeDashboard() {
     }
 
     useEffect(() => {
-        const handleNavigation = (e: any) => {
-            const view = e.detail.view
-            if (view === 'dashboard' || view === 'tasks') setViewMode('list')
-            else if (view === 'meetings') setViewMode('meetings')
-            else if (view === 'profile') setViewMode('profile')
+        const handleNavigation = (e: Event) => {
+            const { view, meetingId } = (e as CustomEvent<DashboardNavigation>).detail
+            if (!isDashboardView<typeof viewMode>('employee', view)) return
+            setViewMode(view)
+            setFocusMeetingId(view === 'meetings' ? meetingId || null : null)
         }
 
-        window.addEventListener('dashboard-navigate', handleNavigation)
-        return () => window.removeEventListener('dashboard-navigate', handleNavigation)
+        window.addEventListener(DASHBOARD_NAVIGATE_EVENT, handleNavigation)
+        return () => window.removeEventListener(DASHBOARD_NAVIGATE_EVENT, handleNavigation)
     }, [])
 
     useEffect(() => {
         loadData()
-        cleanupDuplicates()
 
         const taskSubscription = supabase
             .channel('employee_dashboard_tasks')
@@ -88,103 +98,34 @@ export default function EmployeeDashboard() {
         }
     }, [user, page])
 
-    const cleanupDuplicates = async () => {
-        if (!user) return
-
-        const { data: notifs } = await supabase
-            .from('notifications')
-            .select('id, title, created_at')
-            .eq('user_id', user.id)
-            .order('created_at', { ascending: false })
-
-        if (!notifs) return
-
-        const seenTitles = new Set()
-        const idsToDelete: string[] = []
-
-        for (const n of notifs) {
-            if (seenTitles.has(n.title)) {
-                idsToDelete.push(n.id)
-            } else {
-                seenTitles.add(n.title)
-            }
-        }
-
-        if (idsToDelete.length > 0) {
-            await supabase
-                .from('notifications')
-                .delete()
-                .in('id', idsToDelete)
-        }
-    }
-
     const loadData = async () => {
         if (!user) return
 
         try {
-            // 1. Get assignments for current user
-            const { data: assignments, error: assignError } = await supabase
-                .from('task_assignments')
-                .select('task_id')
-                .eq('user_id', user.id)
-
-            if (assignError) throw assignError
-
-            const taskIds = assignments?.map(a => a.task_id) || []
-
-            // 2. Get Tasks - Fetch tasks where user is assigned directly OR via task_assignments
-            let query = supabase
-                .from('tasks')
-                .select(`
-                    *,
-                    assignments:task_assignments(
-                        user_id,
-                        user:profiles(full_name, email)
-                    ),
-                    creator:profiles!created_by(full_name)
-                `, { count: 'exact' })
-                .order('created_at', { ascending: false })
-
-            if (taskIds.length > 0) {
-                query = query.or(`assigned_to.eq.${user.id},id.in.(${taskIds.join(',')})`)
-            } else {
-                query = query.eq('assigned_to', user.id)
-            }
-
-            // Apply pagination
-            query = query.range((page - 1) * ITEMS_PER_PAGE, page * ITEMS_PER_PAGE - 1)
-
-            const { data: tasksData, error: tasksError, count } = await query
-
-            if (tasksError) throw tasksError
+            // 1. Get Tasks - assigned directly OR via task_assignments
+            const { tasks: tasksData, count } = await listTasks({
+                assigneeId: user.id,
+                page,
+                pageSize: ITEMS_PER_PAGE
+            })
 
-            // 3. Get Statuses
-            const branchIds = [...new Set(tasksData?.map(t => t.department_id) || [])]
-            let fetchedStatuses: any[] = []
+            // 2. Get Statuses
+            const branchIds = [...new Set(tasksData.map(t => t.department_id))]
 
             if (branchIds.length > 0) {
-                const { data: statusesData } = await supabase
-                    .from('task_statuses')
-                    .select('*')
-                    .in('department_id', branchIds)
-                    .order('position')
-
-                fetchedStatuses = statusesData || []
-                setStatuses(fetchedStatuses)
+                setStatuses(await listStatuses({ departmentIds: branchIds }))
             }
 
-            setTasks(tasksData || [])
-            setTotalCount(count || 0)
+            setTasks(tasksData)
+            setTotalCount(count)
 
             // Update selected task if it exists to keep it in sync
             if (selectedTask) {
-                const updatedSelectedTask = tasksData?.find(t => t.id === selectedTask.id)
+                const updatedSelectedTask = tasksData.find(t => t.id === selectedTask.id)
                 if (updatedSelectedTask) {
                     setSelectedTask(updatedSelectedTask)
                 }
             }
-
-            checkUpcomingTasks(tasksData || [], fetchedStatuses)
         } catch (error) {
             console.error('Error loading tasks:', error)
         } finally {
@@ -194,144 +135,22 @@ export default function EmployeeDashboard() {
 
 
 
-    const isCheckingRef = useRef(false)
-
-    const checkUpcomingTasks = async (currentTasks: any[], currentStatuses: any[]) => {
-        if (!user || isCheckingRef.current) return
-        isCheckingRef.current = true
-
+    // Opens a task from the subtask list, which may not be on this page
+    const openTask = async (taskId: string) => {
         try {
-            for (const task of currentTasks) {
-                // Find status label from passed currentStatuses array
-                const status = currentStatuses.find(s => s.id === task.status_id)
-                const label = status?.label?.toLowerCase() || ''
-
-                // Comprehensive check for completed statuses
-                if (label.includes('done') || label.includes('complete') || label.includes('finish') || label.includes('success') || label.includes('closed')) {
-                    continue
-                }
-
-                if (!task.due_date) continue
-
-                const dueDate = new Date(task.due_date)
-                const today = new Date()
-                const tomorrow = new Date(today)
-                tomorrow.setDate(tomorrow.getDate() + 1)
-
-                // Reset hours for date comparison
-                dueDate.setHours(0, 0, 0, 0)
-                today.setHours(0, 0, 0, 0)
-                tomorrow.setHours(0, 0, 0, 0)
-
-                let notificationTitle = ''
-                let notificationMessage = ''
-                let type: 'info' | 'warning' | 'error' = 'info'
-
-                if (dueDate.getTime() < today.getTime()) {
-                    // Overdue
-                    notificationTitle = `Task Overdue: ${task.title}`
-                    notificationMessage = `The task "${task.title}" was due on ${dueDate.toLocaleDateString()}.`
-                    type = 'error'
-                } else if (dueDate.getTime() === today.getTime()) {
-                    // Due Today
-                    notificationTitle = `Task Due Today: ${task.title}`
-                    notificationMessage = `The task "${task.title}" is due today.`
-                    type = 'warning'
-                } else if (dueDate.getTime() === tomorrow.getTime()) {
-                    // Due Tomorrow
-                    notificationTitle = `Task Due Tomorrow: ${task.title}`
-                    notificationMessage = `The task "${task.title}" is due tomorrow.`
-                    type = 'info'
-                }
-
-                if (notificationTitle) {
-                    // Generate stable key based on the type of alert
-                    let keyPrefix = ''
-                    if (type === 'error') keyPrefix = 'task_overdue'
-                    else if (type === 'warning') keyPrefix = 'task_due_today'
-                    else keyPrefix = 'task_due_tomorrow'
-
-                    const deduplicationKey = `${keyPrefix}_${task.id}`
-
-                    if (ENABLE_NOTIFICATION_DEDUPLICATION) {
-                        // Server-side deduplication check
-                        try {
-                            const { data: existing, error: selectError } = await supabase
-                                .from('notifications')
-                                .select('id')
-                                .eq('user_id', user.id)
-                                .eq('deduplication_key', deduplicationKey)
-                                .maybeSingle()
-
-                            if (selectError) throw selectError
-
-                            if (!existing) {
-                                const { error: insertError } = await supabase
-                                    .from('notifications')
-                                    .insert({
-                                        user_id: user.id,
-                                        title: notificationTitle,
-                                        message: notificationMessage,
-                                        type: type,
-                                        deduplication_key: deduplicationKey
-                                    })
-                                if (insertError) throw insertError
-                            }
-                        } catch (error) {
-                            // Fallback: Check by content if key checks fail
-                            const { data: existingContent } = await supabase
-                                .from('notifications')
-                                .select('id')
-                                .eq('user_id', user.id)
-                                .eq('title', notificationTitle)
-                                .eq('message', notificationMessage)
-                                .is('is_read', false)
-                                .maybeSingle()
-
-                            if (!existingContent) {
-                                await supabase
-                                    .from('notifications')
-                                    .insert({
-                                        user_id: user.id,
-                                        title: notificationTitle,
-                                        message: notificationMessage,
-                                        type: type
-                                    })
-                            }
-                        }
-                    } else {
-                        // Deduplication disabled - but still check content
-                        const { data: existingContent } = await supabase
-                            .from('notifications')
-                            .select('id')
-                            .eq('user_id', user.id)
-                            .eq('title', notificationTitle)
-                            .eq('message', notificationMessage)
-                            .is('is_read', false)
-                            .maybeSingle()
-
-                        if (!existingContent) {
-                            await supabase
-                                .from('notifications')
-                                .insert({
-                                    user_id: user.id,
-                                    title: notificationTitle,
-                                    message: notificationMessage,
-                                    type: type
-                                })
-                        }
-                    }
-                }
-            }
-        } finally {
-            isCheckingRef.current = false
+            const task = tasks.find(t => t.id === taskId) || await getTask(taskId)
+            if (!task) return
+            setSelectedTask(task)
+            setIsTaskModalOpen(true)
+        } catch (error) {
+            console.error('Error opening task:', error)
         }
     }
 
     // Track latest request per task to prevent race conditions
     const pendingStatusUpdateRef = useRef<Record<string, string>>({})
 
-    const handleUpdateTaskStatus = async (taskId: string, newStatusLabel: string) => {
+    const handleMoveTask = async (taskId: string, newStatusId: string, ranks: TaskRank[]) => {
         // Generate unique request ID to track this specific update
         const requestId = `${taskId}-${Date.now()}`
         pendingStatusUpdateRef.current[taskId] = requestId
@@ -339,38 +158,30 @@ export default function EmployeeDashboard() {
         const task = tasks.find(t => t.id === taskId)
         if (!task) return
 
-        let newStatus = statuses.find(s =>
-            s.department_id === task.department_id &&
-            (s.id === newStatusLabel || s.label === newStatusLabel)
-        )
-
-        // Fallback
-        if (!newStatus) {
-            newStatus = statuses.find(s => s.id === newStatusLabel || s.label === newStatusLabel)
-        }
-
+        const newStatus = statuses.find(s => s.id === newStatusId)
         if (!newStatus) return
 
         const previousStatusId = task.status_id
+        const previousRank = task.rank
 
         // Optimistic update
-        setTasks(prev => prev.map(t =>
-            t.id === taskId ? { ...t, status_id: newStatus.id } : t
-        ))
-
-        const { error } = await supabase
-            .from('tasks')
-            .update({ status_id: newStatus.id })
-            .eq('id', taskId)
+        setTasks(prev => prev.map(t => {
+            const rank = ranks.find(r => r.id === t.id)?.rank ?? t.rank
+            return t.id === taskId ? { ...t, status_id: newStatus.id, rank } : { ...t, rank }
+        }))
 
-        // Error Handling: Revert if this is still the latest request for THIS task
-        if (error) {
+        try {
+            await moveTask(taskId, newStatus.id, ranks)
+            const command = taskMoveCommand(task, newStatus, ranks, loadData)
+            if (command) record(command)
+        } catch (error) {
+            // Error Handling: Revert if this is still the latest request for THIS task
             console.error('Error updating status:', error)
 
             if (pendingStatusUpdateRef.current[taskId] === requestId) {
                 // Revert changes for this task only
                 setTasks(prev => prev.map(t =>
-                    t.id === taskId ? { ...t, status_id: previousStatusId } : t
+                    t.id === taskId ? { ...t, status_id: previousStatusId, rank: previousRank } : t
                 ))
                 alert('Failed to update status. Changes reverted.')
             }
@@ -474,6 +285,7 @@ export default function EmployeeDashboard() {
                 </div>
 
                 <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+                    <TimerWidget />
                     <NotificationCenter />
 
                     <button
@@ -592,9 +404,27 @@ export default function EmployeeDashboard() {
                         >
                             <Phone size={18} /> Meetings
                         </button>
+                        <button
+                            onClick={() => setViewMode('timesheet')}
+                            style={glassButtonStyle(viewMode === 'timesheet')}
+                        >
+                            <Clock size={18} /> Timesheet
+                        </button>
+                        {canDeleteTasks && (
+                            <button
+                                onClick={() => setViewMode('trash')}
+                                style={glassButtonStyle(viewMode === 'trash')}
+                            >
+                                <Trash2 size={18} /> Trash
+                            </button>
+                        )}
                     </div>
                 </div>
 
+                {!loading && viewMode === 'list' && user && (
+                    <MySubtasks userId={user.id} onOpenTask={openTask} />
+                )}
+
                 {/* Task View */}
                 {loading ? (
                     <div style={{ textAlign: 'center', padding: '4rem', color: 'var(--text-secondary)' }}>Loading your tasks...</div>
@@ -602,8 +432,12 @@ export default function EmployeeDashboard() {
                     <EmployeeProfile />
                 ) : viewMode === 'meetings' ? (
                     <div style={{ padding: '2rem', overflowY: 'auto', height: '100%' }}>
-                        <Meetings filterByParticipant={true} />
+                        <Meetings filterByParticipant={true} focusMeetingId={focusMeetingId} />
                     </div>
+                ) : viewMode === 'timesheet' ? (
+                    <Timesheet tasks={tasks} />
+                ) : viewMode === 'trash' ? (
+                    <TrashBin />
                 ) : tasks.length === 0 ? (
                     <div style={{
                         ...glassCardStyle,
@@ -619,7 +453,7 @@ export default function EmployeeDashboard() {
                         <KanbanBoard
                             tasks={tasks}
                             statuses={statuses}
-                            onUpdateTaskStatus={handleUpdateTaskStatus}
+                            onMoveTask={handleMoveTask}
                             onEdit={(task) => {
                                 setSelectedTask(task)
                                 setIsTaskModalOpen(true)
@@ -628,7 +462,8 @@ export default function EmployeeDashboard() {
                             onAddStatus={() => { }}
                             onReorderStatus={() => { }}
                             onDeleteStatus={() => { }}
-                            groupByLabel={true}
+                            onTasksChanged={loadData}
+                            acrossDepartments={true}
                         />
                     </div>
                 ) : viewMode === 'calendar' ? (
@@ -691,8 +526,8 @@ export default function EmployeeDashboard() {
                                                 border: `1px solid ${status?.color}40`
                                             }}>
                                                 <span style={{
-                                                    color: (status?.label?.toLowerCase().includes('done') || status?.label?.toLowerCase().includes('complete')) ? '#22c55e' : // Green
-                                                        (status?.label?.toLowerCase().includes('progress') || status?.label?.toLowerCase().includes('review')) ? '#eab308' : // Yellow
+                                                    color: isClosedStatus(status) ? '#22c55e' : // Green
+                                                        !isNotStartedStatus(status) ? '#eab308' : // Yellow
                                                             '#ef4444' // Red for To Do/Backlog
                                                 }}>{status?.label?.toUpperCase() || 'UNKNOWN'}</span>
                                             </span>
@@ -720,7 +555,7 @@ export default function EmployeeDashboard() {
                                         )}
                                         <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
                                             <User size={16} />
-                                            <span className="text-gradient">{task.assignments?.length || (task.assigned_to ? 1 : 0)}</span>
+                                            <span className="text-gradient">{task.assignees.length}</span>
                                         </div>
                                     </div>
                                 </div>
@@ -786,6 +621,7 @@ export default function EmployeeDashboard() {
             </main >
 
             <TaskDetailsModal
+                key={selectedTask?.id}
                 isOpen={isTaskModalOpen}
                 onClose={() => {
                     setIsTaskModalOpen(false)
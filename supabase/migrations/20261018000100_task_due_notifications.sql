@@ -0,0 +1,139 @@
+-- Server-side due-date reminders.
+--
+-- Replaces the per-browser overdue checks that used to run inside CCDashboard
+-- and EmployeeDashboard. One pass finds every overdue, due-today and
+-- due-tomorrow task across all clients and fans out a notification to the
+-- client's coordinator and to each assignee. Notifications are keyed on
+-- (user_id, deduplication_key) so re-running the job never repeats a reminder.
+
+alter table public.notifications
+    add column if not exists deduplication_key text;
+
+-- Existing notifications have no key, so the partial index covers none of
+-- them and they are left as they are.
+create unique index if not exists notifications_user_deduplication_key_idx
+    on public.notifications (user_id, deduplication_key)
+    where deduplication_key is not null;
+
+-- A status counts as closed when its label reads like a finished stage.
+create or replace function public.task_status_is_closed(p_label text)
+returns boolean
+language sql
+immutable
+as $$
+    select coalesce(lower(p_label), '') ~ '(done|complete|finish|success|closed)'
+$$;
+
+create or replace function public.generate_task_due_notifications(p_now timestamptz default now())
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_today date := p_now::date;
+    v_inserted integer;
+begin
+    with due as (
+        select
+            t.id,
+            t.title,
+            t.due_date,
+            c.cc_id,
+            case
+                when t.due_date::date < v_today then 'overdue'
+                when t.due_date::date = v_today then 'due_today'
+                else 'due_tomorrow'
+            end as kind
+        from tasks t
+        join departments d on d.id = t.department_id
+        join workspaces w on w.id = d.workspace_id
+        join clients c on c.id = w.client_id
+        left join task_statuses s on s.id = t.status_id
+        where t.due_date is not null
+          and t.due_date::date <= v_today + 1
+          and not public.task_status_is_closed(s.label)
+    ),
+    assignees as (
+        select ta.task_id, ta.user_id
+        from task_assignments ta
+        join due on due.id = ta.task_id
+        union
+        select t.id, t.assigned_to
+        from tasks t
+        join due on due.id = t.id
+        where t.assigned_to is not null
+    ),
+    assignee_names as (
+        select a.task_id, string_agg(p.full_name, ', ' order by p.full_name) as names
+        from assignees a
+        join profiles p on p.id = a.user_id
+        group by a.task_id
+    ),
+    recipients as (
+        select due.id as task_id, due.cc_id as user_id, true as is_coordinator
+        from due
+        where due.cc_id is not null
+        union all
+        select a.task_id, a.user_id, false
+        from assignees a
+    ),
+    outgoing as (
+        -- A coordinator who is also an assignee gets the coordinator copy only
+        select distinct on (r.user_id, r.task_id)
+            r.user_id,
+            r.is_coordinator,
+            due.*
+        from recipients r
+        join due on due.id = r.task_id
+        order by r.user_id, r.task_id, r.is_coordinator desc
+    )
+    insert into notifications (user_id, title, message, type, deduplication_key)
+    select
+        o.user_id,
+        case o.kind
+            when 'overdue' then 'Task Overdue: ' || o.title
+            when 'due_today' then 'Task Due Today: ' || o.title
+            else 'Task Due Tomorrow: ' || o.title
+        end,
+        case o.kind
+            when 'overdue' then format('The task "%s" was due on %s.', o.title, to_char(o.due_date, 'Mon DD, YYYY'))
+            when 'due_today' then format('The task "%s" is due today.', o.title)
+            else format('The task "%s" is due tomorrow.', o.title)
+        end
+        || case
+            when not o.is_coordinator then ''
+            when n.names is null then ' No employees assigned.'
+            else ' Assigned to: ' || n.names
+        end,
+        case o.kind
+            when 'overdue' then 'error'
+            when 'due_today' then 'warning'
+            else 'info'
+        end,
+        -- The due date is part of the key so a rescheduled task is reminded again
+        format('task_%s_%s_%s', o.kind, o.id, to_char(o.due_date, 'YYYY-MM-DD'))
+    from outgoing o
+    left join assignee_names n on n.task_id = o.id
+    on conflict (user_id, deduplication_key) where deduplication_key is not null do nothing;
+
+    get diagnostics v_inserted = row_count;
+    return v_inserted;
+end;
+$$;
+
+revoke execute on function public.generate_task_due_notifications(timestamptz) from public, anon, authenticated;
+
+-- Run every 15 minutes where pg_cron is available (hosted Supabase).
+-- Elsewhere, run src/run_due_notifications_pg.js from a system scheduler.
+do $$
+begin
+    if exists (select 1 from pg_extension where extname = 'pg_cron') then
+        perform cron.schedule(
+            'task-due-notifications',
+            '*/15 * * * *',
+            'select public.generate_task_due_notifications()'
+        );
+    end if;
+end;
+$$;
@@ -0,0 +1,100 @@
+-- Recurring content tasks.
+--
+-- A recurrence holds the rule (an RFC 5545 RRULE string such as
+-- FREQ=WEEKLY;BYDAY=MO,WE,FR) plus the template every generated task is
+-- copied from. Instances are ordinary rows in public.tasks that point back at
+-- their series through recurrence_id and remember the slot they were
+-- generated for in occurrence_date, so the generator can top a series up to
+-- its horizon without creating the same slot twice.
+
+create table if not exists public.task_recurrences (
+    id uuid primary key default gen_random_uuid(),
+    department_id uuid not null references public.departments (id) on delete cascade,
+    rrule text not null,
+    dtstart timestamptz not null,
+    until timestamptz,
+    horizon_days integer not null default 60 check (horizon_days between 1 and 366),
+    -- Everything up to this point has been generated; later slots are only
+    -- projected. Deleting an instance therefore never brings it back.
+    generated_until timestamptz,
+    title text not null,
+    description text,
+    content_type text,
+    priority text check (priority in ('low', 'medium', 'high')),
+    assignee_ids uuid[] not null default '{}',
+    -- Offsets from the occurrence to the instance's start and due dates.
+    -- null leaves that date empty on generated tasks.
+    start_offset_seconds integer,
+    due_offset_seconds integer,
+    created_by uuid references public.profiles (id) default auth.uid(),
+    created_at timestamptz not null default now()
+);
+
+create index if not exists task_recurrences_department_id_idx
+    on public.task_recurrences (department_id);
+
+alter table public.task_recurrences enable row level security;
+
+-- A series is visible where its department is; writes are narrowed to the
+-- task capabilities by the generated capability policies.
+drop policy if exists "Recurrences follow their department" on public.task_recurrences;
+create policy "Recurrences follow their department" on public.task_recurrences
+    for all to authenticated
+    using (exists (select 1 from public.departments d where d.id = department_id))
+    with check (exists (select 1 from public.departments d where d.id = department_id));
+
+alter table public.tasks
+    add column if not exists recurrence_id uuid references public.task_recurrences (id) on delete set null,
+    add column if not exists occurrence_date timestamptz,
+    -- Set once an instance is edited on its own ("this task only"); series
+    -- edits leave it alone from then on.
+    add column if not exists is_recurrence_exception boolean not null default false;
+
+-- Not partial, so the generator can upsert on it; one-off tasks have null
+-- in both columns and nulls never collide.
+create unique index if not exists tasks_recurrence_occurrence_idx
+    on public.tasks (recurrence_id, occurrence_date);
+
+-- Removes generated instances a series is rescheduling. The series owns its
+-- placeholders, so editors who may not delete tasks can still reschedule;
+-- this runs past the delete policies and takes only instances of the
+-- series that nobody has edited on their own or added subtasks, time or
+-- comments to. Returns the number removed.
+create or replace function public.delete_recurrence_instances(p_recurrence_id uuid, p_task_ids uuid[])
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_deleted integer;
+begin
+    if not exists (
+        select 1
+        from task_recurrences r
+        join departments d on d.id = r.department_id
+        join workspaces w on w.id = d.workspace_id
+        join clients c on c.id = w.client_id
+        where r.id = p_recurrence_id
+          and (c.cc_id = auth.uid()
+               or exists (select 1 from department_employees de where de.department_id = d.id and de.employee_id = auth.uid())
+               or exists (select 1 from profiles where id = auth.uid() and role = 'admin'))
+    ) then
+        raise exception 'Series not found';
+    end if;
+
+    delete from tasks t
+    where t.id = any (p_task_ids)
+      and t.recurrence_id = p_recurrence_id
+      and not t.is_recurrence_exception
+      and not exists (select 1 from subtasks where task_id = t.id)
+      and not exists (select 1 from subtask_time_logs where task_id = t.id)
+      and not exists (select 1 from task_comments where task_id = t.id);
+    get diagnostics v_deleted = row_count;
+
+    return v_deleted;
+end;
+$$;
+
+revoke execute on function public.delete_recurrence_instances(uuid, uuid[]) from public;
+grant execute on function public.delete_recurrence_instances(uuid, uuid[]) to authenticated;
@@ -0,0 +1,64 @@
+-- Finish-to-start dependencies between tasks.
+--
+-- A row means task_id cannot start until depends_on_id is finished (e.g.
+-- "Editing" depends on "Shooting"). The boards refuse to move a task with
+-- unfinished blockers out of its not-started column, and the timeline draws
+-- each row as an arrow from the blocker's due date to the task's start date.
+
+create table if not exists public.task_dependencies (
+    task_id uuid not null references public.tasks (id) on delete cascade,
+    depends_on_id uuid not null references public.tasks (id) on delete cascade,
+    created_by uuid references public.profiles (id) default auth.uid(),
+    created_at timestamptz not null default now(),
+    primary key (task_id, depends_on_id),
+    constraint task_dependencies_not_self check (task_id <> depends_on_id)
+);
+
+create index if not exists task_dependencies_depends_on_id_idx
+    on public.task_dependencies (depends_on_id);
+
+alter table public.task_dependencies enable row level security;
+
+-- Visible and changeable by whoever can see both tasks; writes are narrowed
+-- to task.edit by the generated capability policies.
+drop policy if exists "Dependencies follow their tasks" on public.task_dependencies;
+create policy "Dependencies follow their tasks" on public.task_dependencies
+    for all to authenticated
+    using (
+        exists (select 1 from public.tasks t where t.id = task_id)
+        and exists (select 1 from public.tasks t where t.id = depends_on_id)
+    )
+    with check (
+        exists (select 1 from public.tasks t where t.id = task_id)
+        and exists (select 1 from public.tasks t where t.id = depends_on_id)
+    );
+
+-- Walk upstream from the new blocker; reaching the dependent task again
+-- means the new edge would close a loop.
+create or replace function public.prevent_task_dependency_cycle()
+returns trigger
+language plpgsql
+as $$
+begin
+    if exists (
+        with recursive upstream (id) as (
+            select new.depends_on_id
+            union
+            select d.depends_on_id
+            from public.task_dependencies d
+            join upstream u on d.task_id = u.id
+        )
+        select 1 from upstream where id = new.task_id
+    ) then
+        raise exception 'This dependency would create a cycle'
+            using errcode = 'check_violation';
+    end if;
+
+    return new;
+end;
+$$;
+
+drop trigger if exists task_dependencies_prevent_cycle on public.task_dependencies;
+create trigger task_dependencies_prevent_cycle
+    before insert or update on public.task_dependencies
+    for each row execute function public.prevent_task_dependency_cycle();
@@ -0,0 +1,77 @@
+-- Capability-based permissions.
+--
+-- Each role is a template: the set of capabilities (e.g. task.delete) granted
+-- to everyone holding that role. Admins can edit the templates for the other
+-- roles; admins themselves always hold every capability. The policies that
+-- consult these grants are generated from src/lib/permissions.ts and live in
+-- the following migration.
+
+create table if not exists public.role_capabilities (
+    role text not null check (role in ('client_coordinator', 'employee')),
+    capability text not null,
+    primary key (role, capability)
+);
+
+create or replace function public.has_capability(p_capability text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1
+        from profiles p
+        where p.id = auth.uid()
+          and (
+              p.role = 'admin'
+              or exists (
+                  select 1
+                  from role_capabilities rc
+                  where rc.role = p.role
+                    and rc.capability = p_capability
+              )
+          )
+    );
+$$;
+
+grant execute on function public.has_capability(text) to authenticated;
+
+-- Everyone may edit their own profile, but a role is only changed by who
+-- holds employee.manage, or no one could be kept from making themselves an
+-- admin. Requests without a user (the service role) are trusted.
+create or replace function public.protect_profile_role()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+    if auth.uid() is not null
+       and new.role is distinct from old.role
+       and not public.has_capability('employee.manage') then
+        raise exception 'You do not have permission to change roles';
+    end if;
+
+    return new;
+end;
+$$;
+
+revoke execute on function public.protect_profile_role() from public;
+
+drop trigger if exists profiles_protect_role on public.profiles;
+create trigger profiles_protect_role
+    before update on public.profiles
+    for each row execute function public.protect_profile_role();
+
+alter table public.role_capabilities enable row level security;
+
+drop policy if exists "Role templates are readable" on public.role_capabilities;
+create policy "Role templates are readable" on public.role_capabilities
+    for select to authenticated
+    using (true);
+
+drop policy if exists "Admins manage role templates" on public.role_capabilities;
+create policy "Admins manage role templates" on public.role_capabilities
+    for all to authenticated
+    using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'))
+    with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
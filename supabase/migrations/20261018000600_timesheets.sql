@@ -0,0 +1,183 @@
+-- Weekly timesheets built from subtask_time_logs.
+--
+-- A timesheet is one employee's week. Its entries are simply the time logs
+-- that start inside [period_start, period_end); the period is stored rather
+-- than derived so the week boundaries follow the employee's local midnight.
+-- Employees submit a week, a coordinator approves or rejects it, and an
+-- approved week refuses any further change to its logs.
+
+create table if not exists public.timesheets (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references public.profiles (id) on delete cascade,
+    period_start timestamptz not null,
+    period_end timestamptz not null,
+    status text not null default 'draft' check (status in ('draft', 'submitted', 'approved', 'rejected')),
+    submitted_at timestamptz,
+    reviewed_by uuid references public.profiles (id),
+    reviewed_at timestamptz,
+    review_note text,
+    created_at timestamptz not null default now(),
+    unique (user_id, period_start),
+    check (period_end > period_start)
+);
+
+create index if not exists timesheets_status_idx
+    on public.timesheets (status);
+
+alter table public.timesheets enable row level security;
+
+-- Employees see and keep their own weeks; reviewers see everyone's. Updates
+-- are narrowed further by the generated timesheet.approve policy and the
+-- triggers below.
+drop policy if exists "Timesheets are visible to their owner and reviewers" on public.timesheets;
+create policy "Timesheets are visible to their owner and reviewers" on public.timesheets
+    for select to authenticated
+    using (user_id = auth.uid() or public.has_capability('timesheet.approve'));
+
+drop policy if exists "Employees start their own timesheets" on public.timesheets;
+create policy "Employees start their own timesheets" on public.timesheets
+    for insert to authenticated
+    with check (user_id = auth.uid());
+
+drop policy if exists "Owners and reviewers update timesheets" on public.timesheets;
+create policy "Owners and reviewers update timesheets" on public.timesheets
+    for update to authenticated
+    using (user_id = auth.uid() or public.has_capability('timesheet.approve'))
+    with check (user_id = auth.uid() or public.has_capability('timesheet.approve'));
+
+drop policy if exists "Owners and reviewers delete timesheets" on public.timesheets;
+create policy "Owners and reviewers delete timesheets" on public.timesheets
+    for delete to authenticated
+    using (user_id = auth.uid() or public.has_capability('timesheet.approve'));
+
+-- Manual entries and edits carry the reason they were made.
+alter table public.subtask_time_logs
+    add column if not exists source text not null default 'timer' check (source in ('timer', 'manual')),
+    add column if not exists edit_reason text,
+    add column if not exists edited_at timestamptz,
+    add column if not exists split_from uuid references public.subtask_time_logs (id) on delete set null;
+
+-- Runs as its owner so a lock holds whoever can see the timesheet.
+create or replace function public.is_time_locked(p_user_id uuid, p_at timestamptz)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1
+        from public.timesheets t
+        where t.user_id = p_user_id
+          and t.status = 'approved'
+          and p_at >= t.period_start
+          and p_at < t.period_end
+    );
+$$;
+
+create or replace function public.prevent_locked_time_log_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+    -- Both the old and the new position of a moved entry must be open
+    if tg_op <> 'INSERT' and public.is_time_locked(old.user_id, old.start_time) then
+        raise exception 'This week''s timesheet is approved and locked';
+    end if;
+    if tg_op <> 'DELETE' and public.is_time_locked(new.user_id, new.start_time) then
+        raise exception 'This week''s timesheet is approved and locked';
+    end if;
+
+    return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists subtask_time_logs_locked_week on public.subtask_time_logs;
+create trigger subtask_time_logs_locked_week
+    before insert or update or delete on public.subtask_time_logs
+    for each row execute function public.prevent_locked_time_log_changes();
+
+-- Employees move their own week between draft, submitted and back after a
+-- rejection; only reviewers may approve or reject, and approval is final.
+-- The submission and review columns are written here alone, so a review
+-- cannot be forged with a plain update.
+create or replace function public.enforce_timesheet_transition()
+returns trigger
+language plpgsql
+as $$
+begin
+    if new.user_id <> old.user_id or new.period_start <> old.period_start or new.period_end <> old.period_end then
+        raise exception 'A timesheet''s employee and week cannot be changed';
+    end if;
+
+    if new.submitted_at is distinct from old.submitted_at
+       or ((new.reviewed_by, new.reviewed_at, new.review_note) is distinct from (old.reviewed_by, old.reviewed_at, old.review_note)
+           and not (new.status in ('approved', 'rejected') and new.status <> old.status)) then
+        raise exception 'Only a review can record who reviewed a timesheet';
+    end if;
+
+    if new.status = old.status then
+        if old.status = 'approved' then
+            raise exception 'Approved timesheets cannot be changed';
+        end if;
+        return new;
+    end if;
+
+    if old.status = 'approved' then
+        raise exception 'Approved timesheets cannot be changed';
+    end if;
+
+    if new.status in ('approved', 'rejected') then
+        if old.status <> 'submitted' then
+            raise exception 'Only submitted timesheets can be reviewed';
+        end if;
+        if not public.has_capability('timesheet.approve') then
+            raise exception 'You do not have permission to review timesheets';
+        end if;
+        if old.user_id = auth.uid() then
+            raise exception 'You cannot review your own timesheet';
+        end if;
+        new.reviewed_by := auth.uid();
+        new.reviewed_at := now();
+    elsif new.status = 'submitted' then
+        new.submitted_at := now();
+        new.reviewed_by := null;
+        new.reviewed_at := null;
+    end if;
+
+    return new;
+end;
+$$;
+
+drop trigger if exists timesheets_enforce_transition on public.timesheets;
+create trigger timesheets_enforce_transition
+    before update on public.timesheets
+    for each row execute function public.enforce_timesheet_transition();
+
+-- New weeks start as unreviewed drafts, so review always goes through the
+-- transition above. Weeks under review or approved cannot be deleted; deleting an
+-- approved week would unlock its time.
+create or replace function public.guard_timesheet_rows()
+returns trigger
+language plpgsql
+as $$
+begin
+    if tg_op = 'INSERT' then
+        if new.status <> 'draft' or new.submitted_at is not null
+           or new.reviewed_by is not null or new.reviewed_at is not null or new.review_note is not null then
+            raise exception 'New timesheets start as drafts';
+        end if;
+        return new;
+    end if;
+
+    if old.status in ('submitted', 'approved') then
+        raise exception 'Submitted and approved timesheets cannot be deleted';
+    end if;
+    return old;
+end;
+$$;
+
+drop trigger if exists timesheets_guard_rows on public.timesheets;
+create trigger timesheets_guard_rows
+    before insert or delete on public.timesheets
+    for each row execute function public.guard_timesheet_rows();
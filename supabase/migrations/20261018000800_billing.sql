@@ -0,0 +1,320 @@
+-- Billable rates and client invoices.
+--
+-- A rate may be scoped to any combination of client, employee and content
+-- type; a null column matches everything. When several rates match a time
+-- log the most specific one wins (see resolveHourlyRate in src/data/billing.ts).
+-- Invoices are built from a client's billable, not yet invoiced logs and
+-- move draft -> sent -> paid.
+
+create table if not exists public.billing_rates (
+    id uuid primary key default gen_random_uuid(),
+    client_id uuid references public.clients (id) on delete cascade,
+    employee_id uuid references public.profiles (id) on delete cascade,
+    content_type text,
+    hourly_rate numeric(10, 2) not null check (hourly_rate >= 0),
+    created_at timestamptz not null default now(),
+    unique nulls not distinct (client_id, employee_id, content_type)
+);
+
+create sequence if not exists public.invoice_number_seq;
+
+create table if not exists public.invoices (
+    id uuid primary key default gen_random_uuid(),
+    client_id uuid not null references public.clients (id) on delete cascade,
+    number text not null unique default 'INV-' || lpad(nextval('public.invoice_number_seq')::text, 5, '0'),
+    status text not null default 'draft' check (status in ('draft', 'sent', 'paid')),
+    period_start date not null,
+    period_end date not null,
+    currency text not null default 'USD',
+    total numeric(12, 2) not null default 0,
+    notes text,
+    sent_at timestamptz,
+    paid_at timestamptz,
+    created_by uuid references public.profiles (id) default auth.uid(),
+    created_at timestamptz not null default now(),
+    check (period_end >= period_start)
+);
+
+create index if not exists invoices_client_id_idx
+    on public.invoices (client_id);
+
+create table if not exists public.invoice_line_items (
+    id uuid primary key default gen_random_uuid(),
+    invoice_id uuid not null references public.invoices (id) on delete cascade,
+    task_id uuid references public.tasks (id) on delete set null,
+    description text not null,
+    hours numeric(10, 2) not null,
+    rate numeric(10, 2) not null,
+    amount numeric(12, 2) not null,
+    position integer not null default 0
+);
+
+create index if not exists invoice_line_items_invoice_id_idx
+    on public.invoice_line_items (invoice_id);
+
+alter table public.billing_rates enable row level security;
+alter table public.invoices enable row level security;
+alter table public.invoice_line_items enable row level security;
+
+-- Rates and invoices are for billing managers only; invoices also follow
+-- their client's visibility and lines follow their invoice.
+drop policy if exists "Billing managers use rates" on public.billing_rates;
+create policy "Billing managers use rates" on public.billing_rates
+    for all to authenticated
+    using (public.has_capability('billing.manage'))
+    with check (public.has_capability('billing.manage'));
+
+drop policy if exists "Billing managers use invoices" on public.invoices;
+create policy "Billing managers use invoices" on public.invoices
+    for all to authenticated
+    using (public.has_capability('billing.manage') and exists (select 1 from public.clients c where c.id = client_id))
+    with check (public.has_capability('billing.manage') and exists (select 1 from public.clients c where c.id = client_id));
+
+drop policy if exists "Invoice lines follow their invoice" on public.invoice_line_items;
+create policy "Invoice lines follow their invoice" on public.invoice_line_items
+    for all to authenticated
+    using (exists (select 1 from public.invoices i where i.id = invoice_id))
+    with check (exists (select 1 from public.invoices i where i.id = invoice_id));
+
+-- Deleting a draft invoice releases its logs for the next one.
+alter table public.subtask_time_logs
+    add column if not exists is_billable boolean not null default true,
+    add column if not exists invoice_id uuid references public.invoices (id) on delete set null;
+
+create index if not exists subtask_time_logs_invoice_id_idx
+    on public.subtask_time_logs (invoice_id);
+
+-- Invoiced time is locked like an approved week. Logs join an invoice only
+-- through create_invoice and leave it only when their draft invoice is
+-- deleted. Billing changes leave the time itself alone, so approved weeks
+-- allow them.
+create or replace function public.prevent_locked_time_log_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+    if tg_op = 'INSERT' and new.invoice_id is not null then
+        raise exception 'New time cannot start out invoiced';
+    end if;
+
+    if tg_op = 'UPDATE' and new.invoice_id is distinct from old.invoice_id then
+        if old.invoice_id is not null and pg_trigger_depth() < 2 then
+            raise exception 'Invoiced time is released by deleting its draft invoice';
+        end if;
+        if new.invoice_id is not null and not public.has_capability('billing.manage') then
+            raise exception 'You do not have permission to invoice time';
+        end if;
+    end if;
+
+    if tg_op <> 'INSERT' and old.invoice_id is not null
+       and not (tg_op = 'UPDATE' and to_jsonb(new) - 'invoice_id' = to_jsonb(old) - 'invoice_id') then
+        raise exception 'This time has been invoiced and is locked';
+    end if;
+
+    if tg_op = 'UPDATE'
+       and to_jsonb(new) - 'invoice_id' - 'is_billable' = to_jsonb(old) - 'invoice_id' - 'is_billable' then
+        return new;
+    end if;
+
+    -- Both the old and the new position of a moved entry must be open
+    if tg_op <> 'INSERT' and public.is_time_locked(old.user_id, old.start_time) then
+        raise exception 'This week''s timesheet is approved and locked';
+    end if;
+    if tg_op <> 'DELETE' and public.is_time_locked(new.user_id, new.start_time) then
+        raise exception 'This week''s timesheet is approved and locked';
+    end if;
+
+    return coalesce(new, old);
+end;
+$$;
+
+-- The hourly rate billed for an employee's time on a client's content type,
+-- picked as resolveHourlyRate in src/data/billing.ts does.
+create or replace function public.billing_rate(p_client_id uuid, p_employee_id uuid, p_content_type text)
+returns numeric
+language sql
+stable
+set search_path = public
+as $$
+    select hourly_rate
+    from billing_rates
+    where (client_id is null or client_id = p_client_id)
+      and (employee_id is null or employee_id = p_employee_id)
+      and (content_type is null or content_type = p_content_type)
+    order by (employee_id is not null)::int * 4 + (content_type is not null)::int * 2 + (client_id is not null)::int desc
+    limit 1
+$$;
+
+-- Builds an invoice with its lines and claims the logs each line bills, all
+-- at once. p_lines is a list of { description, log_ids }; each line's task,
+-- hours, rate and amount come from its logs, so they match what was
+-- worked. A line bills time on one task at one rate. Fails when any of the
+-- logs is gone, not billable, belongs to another client or has been
+-- invoiced meanwhile, so the same time is never billed twice.
+create or replace function public.create_invoice(
+    p_client_id uuid,
+    p_period_start date,
+    p_period_end date,
+    p_lines jsonb,
+    p_notes text default null
+)
+returns public.invoices
+language plpgsql
+set search_path = public
+as $$
+declare
+    v_invoice invoices;
+    v_log_ids uuid[];
+    v_listed integer;
+    v_claimable integer;
+    v_line record;
+    v_lines jsonb := '[]';
+    v_total numeric := 0;
+begin
+    select coalesce(array_agg(distinct log_id::uuid), '{}'), count(*)
+    into v_log_ids, v_listed
+    from jsonb_array_elements(p_lines) line,
+         jsonb_array_elements_text(line -> 'log_ids') log_id;
+
+    if v_listed <> cardinality(v_log_ids) then
+        raise exception 'Each entry can only be billed on one line';
+    end if;
+
+    select count(*)
+    into v_claimable
+    from (
+        select l.id
+        from subtask_time_logs l
+        join tasks t on t.id = l.task_id
+        join departments d on d.id = t.department_id
+        join workspaces w on w.id = d.workspace_id
+        where l.id = any (v_log_ids)
+          and l.invoice_id is null
+          and l.is_billable
+          and l.end_time is not null
+          and w.client_id = p_client_id
+        for update of l
+    ) claimable;
+
+    if v_claimable <> cardinality(v_log_ids) then
+        raise exception 'Some of this time has changed or been invoiced since the invoice was drafted';
+    end if;
+
+    for v_line in
+        select
+            line.ordinality - 1 as position,
+            line.value ->> 'description' as description,
+            count(distinct l.task_id) as tasks,
+            (array_agg(l.task_id))[1] as task_id,
+            count(distinct r.rate) as rates,
+            bool_or(r.rate is null) as unpriced,
+            max(r.rate) as rate,
+            round(sum(coalesce(nullif(l.duration_seconds, 0), extract(epoch from l.end_time - l.start_time), 0)) / 3600, 2) as hours
+        from jsonb_array_elements(p_lines) with ordinality line
+        cross join lateral jsonb_array_elements_text(line.value -> 'log_ids') log_id
+        join subtask_time_logs l on l.id = log_id::uuid
+        join tasks t on t.id = l.task_id
+        cross join lateral (select public.billing_rate(p_client_id, l.user_id, t.content_type) as rate) r
+        group by line.ordinality, line.value
+        order by line.ordinality
+    loop
+        if v_line.unpriced then
+            raise exception 'Some of this time has no billing rate';
+        end if;
+        if v_line.tasks <> 1 or v_line.rates <> 1 then
+            raise exception 'Each line bills time on one task at one rate';
+        end if;
+
+        v_lines := v_lines || jsonb_build_object(
+            'task_id', v_line.task_id,
+            'description', v_line.description,
+            'hours', v_line.hours,
+            'rate', v_line.rate,
+            'amount', round(v_line.hours * v_line.rate, 2),
+            'position', v_line.position
+        );
+        v_total := v_total + round(v_line.hours * v_line.rate, 2);
+    end loop;
+
+    insert into invoices (client_id, period_start, period_end, total, notes)
+    values (p_client_id, p_period_start, p_period_end, v_total, p_notes)
+    returning * into v_invoice;
+
+    insert into invoice_line_items (invoice_id, task_id, description, hours, rate, amount, position)
+    select v_invoice.id, task_id, description, hours, rate, amount, position
+    from jsonb_to_recordset(v_lines)
+        as line (task_id uuid, description text, hours numeric, rate numeric, amount numeric, position integer);
+
+    update subtask_time_logs set invoice_id = v_invoice.id where id = any (v_log_ids);
+
+    return v_invoice;
+end;
+$$;
+
+revoke execute on function public.billing_rate(uuid, uuid, text) from public;
+grant execute on function public.billing_rate(uuid, uuid, text) to authenticated;
+revoke execute on function public.create_invoice(uuid, date, date, jsonb, text) from public;
+grant execute on function public.create_invoice(uuid, date, date, jsonb, text) to authenticated;
+
+-- Only drafts may be deleted or have their lines changed; a sent invoice can
+-- only move on to paid, and nothing else about it changes. The total always
+-- stays what create_invoice priced.
+create or replace function public.enforce_invoice_status()
+returns trigger
+language plpgsql
+as $$
+begin
+    if tg_op = 'DELETE' then
+        if old.status <> 'draft' then
+            raise exception 'Only draft invoices can be deleted';
+        end if;
+        return old;
+    end if;
+
+    if new.total is distinct from old.total then
+        raise exception 'An invoice total follows its billed time and cannot be edited';
+    end if;
+
+    if old.status <> 'draft'
+       and to_jsonb(new) - 'status' - 'sent_at' - 'paid_at' <> to_jsonb(old) - 'status' - 'sent_at' - 'paid_at' then
+        raise exception 'A sent invoice cannot be changed';
+    end if;
+
+    if new.status <> old.status then
+        if not (old.status = 'draft' and new.status = 'sent')
+           and not (old.status = 'sent' and new.status = 'paid') then
+            raise exception 'An invoice cannot go from % to %', old.status, new.status;
+        end if;
+        if new.status = 'sent' then new.sent_at := now(); end if;
+        if new.status = 'paid' then new.paid_at := now(); end if;
+    end if;
+
+    return new;
+end;
+$$;
+
+drop trigger if exists invoices_enforce_status on public.invoices;
+create trigger invoices_enforce_status
+    before update or delete on public.invoices
+    for each row execute function public.enforce_invoice_status();
+
+create or replace function public.prevent_issued_invoice_line_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+    if exists (
+        select 1 from public.invoices
+        where id = coalesce(new.invoice_id, old.invoice_id)
+          and status <> 'draft'
+    ) then
+        raise exception 'Lines of a sent invoice cannot be changed';
+    end if;
+    return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists invoice_line_items_draft_only on public.invoice_line_items;
+create trigger invoice_line_items_draft_only
+    before insert or update or delete on public.invoice_line_items
+    for each row execute function public.prevent_issued_invoice_line_changes();
@@ -0,0 +1,212 @@
+-- Generated by `npm run gen:policies` from src/lib/permissions.ts.
+-- Do not edit by hand; change the definitions and regenerate.
+
+create table if not exists public.capabilities (
+    key text primary key,
+    label text not null
+);
+
+-- Default grants apply only the first time a capability is seen, so an
+-- admin's later changes to the templates survive regeneration.
+insert into public.role_capabilities (role, capability)
+select v.role, v.capability
+from (values
+    ('client_coordinator', 'client.manage'),
+    ('client_coordinator', 'department.manage'),
+    ('client_coordinator', 'employee.manage'),
+    ('client_coordinator', 'employee.assign'),
+    ('client_coordinator', 'task.create'),
+    ('client_coordinator', 'task.edit'),
+    ('client_coordinator', 'task.delete'),
+    ('client_coordinator', 'status.manage'),
+    ('client_coordinator', 'comment.delete_others'),
+    ('client_coordinator', 'timelog.edit_others'),
+    ('client_coordinator', 'timesheet.approve'),
+    ('client_coordinator', 'billing.manage'),
+    ('client_coordinator', 'activity.delete'),
+    ('employee', 'task.create'),
+    ('employee', 'task.edit')
+) as v (role, capability)
+where not exists (select 1 from public.capabilities c where c.key = v.capability)
+on conflict do nothing;
+
+insert into public.capabilities (key, label) values
+    ('client.manage', 'Create, rename and delete clients'),
+    ('department.manage', 'Create, rename and delete departments'),
+    ('employee.manage', 'Edit and delete employee profiles'),
+    ('employee.assign', 'Assign employees to departments'),
+    ('task.create', 'Create tasks'),
+    ('task.edit', 'Edit and move tasks'),
+    ('task.delete', 'Delete tasks'),
+    ('status.manage', 'Add, rename and remove board columns'),
+    ('comment.delete_others', 'Delete other people''s comments'),
+    ('timelog.edit_others', 'Edit and delete other people''s time logs'),
+    ('timesheet.approve', 'Approve and reject timesheets'),
+    ('billing.manage', 'Set billing rates and issue invoices'),
+    ('activity.delete', 'Delete activity feed entries')
+on conflict (key) do update set label = excluded.label;
+
+drop policy if exists "client.manage (clients insert)" on public.clients;
+create policy "client.manage (clients insert)" on public.clients
+    as restrictive for insert to authenticated
+    with check (public.has_capability('client.manage'));
+
+drop policy if exists "client.manage (clients update)" on public.clients;
+create policy "client.manage (clients update)" on public.clients
+    as restrictive for update to authenticated
+    using (public.has_capability('client.manage'));
+
+drop policy if exists "client.manage (clients delete)" on public.clients;
+create policy "client.manage (clients delete)" on public.clients
+    as restrictive for delete to authenticated
+    using (public.has_capability('client.manage'));
+
+drop policy if exists "department.manage (workspaces insert)" on public.workspaces;
+create policy "department.manage (workspaces insert)" on public.workspaces
+    as restrictive for insert to authenticated
+    with check (public.has_capability('department.manage'));
+
+drop policy if exists "department.manage (workspaces update)" on public.workspaces;
+create policy "department.manage (workspaces update)" on public.workspaces
+    as restrictive for update to authenticated
+    using (public.has_capability('department.manage'));
+
+drop policy if exists "department.manage (workspaces delete)" on public.workspaces;
+create policy "department.manage (workspaces delete)" on public.workspaces
+    as restrictive for delete to authenticated
+    using (public.has_capability('department.manage'));
+
+drop policy if exists "department.manage (departments insert)" on public.departments;
+create policy "department.manage (departments insert)" on public.departments
+    as restrictive for insert to authenticated
+    with check (public.has_capability('department.manage'));
+
+drop policy if exists "department.manage (departments update)" on public.departments;
+create policy "department.manage (departments update)" on public.departments
+    as restrictive for update to authenticated
+    using (public.has_capability('department.manage'));
+
+drop policy if exists "department.manage (departments delete)" on public.departments;
+create policy "department.manage (departments delete)" on public.departments
+    as restrictive for delete to authenticated
+    using (public.has_capability('department.manage'));
+
+drop policy if exists "employee.manage (profiles update)" on public.profiles;
+create policy "employee.manage (profiles update)" on public.profiles
+    as restrictive for update to authenticated
+    using (id = auth.uid() or public.has_capability('employee.manage'));
+
+drop policy if exists "employee.manage (profiles delete)" on public.profiles;
+create policy "employee.manage (profiles delete)" on public.profiles
+    as restrictive for delete to authenticated
+    using (id = auth.uid() or public.has_capability('employee.manage'));
+
+drop policy if exists "employee.assign (department_employees insert)" on public.department_employees;
+create policy "employee.assign (department_employees insert)" on public.department_employees
+    as restrictive for insert to authenticated
+    with check (public.has_capability('employee.assign'));
+
+drop policy if exists "employee.assign (department_employees delete)" on public.department_employees;
+create policy "employee.assign (department_employees delete)" on public.department_employees
+    as restrictive for delete to authenticated
+    using (public.has_capability('employee.assign'));
+
+drop policy if exists "task.create (tasks insert)" on public.tasks;
+create policy "task.create (tasks insert)" on public.tasks
+    as restrictive for insert to authenticated
+    with check (public.has_capability('task.create'));
+
+drop policy if exists "task.edit (tasks update)" on public.tasks;
+create policy "task.edit (tasks update)" on public.tasks
+    as restrictive for update to authenticated
+    using (public.has_capability('task.edit'));
+
+drop policy if exists "task.delete (tasks delete)" on public.tasks;
+create policy "task.delete (tasks delete)" on public.tasks
+    as restrictive for delete to authenticated
+    using (public.has_capability('task.delete'));
+
+drop policy if exists "status.manage (task_statuses insert)" on public.task_statuses;
+create policy "status.manage (task_statuses insert)" on public.task_statuses
+    as restrictive for insert to authenticated
+    with check (public.has_capability('status.manage'));
+
+drop policy if exists "status.manage (task_statuses update)" on public.task_statuses;
+create policy "status.manage (task_statuses update)" on public.task_statuses
+    as restrictive for update to authenticated
+    using (public.has_capability('status.manage'));
+
+drop policy if exists "status.manage (task_statuses delete)" on public.task_statuses;
+create policy "status.manage (task_statuses delete)" on public.task_statuses
+    as restrictive for delete to authenticated
+    using (public.has_capability('status.manage'));
+
+drop policy if exists "comment.delete_others (task_comments delete)" on public.task_comments;
+create policy "comment.delete_others (task_comments delete)" on public.task_comments
+    as restrictive for delete to authenticated
+    using (user_id = auth.uid() or public.has_capability('comment.delete_others'));
+
+drop policy if exists "timelog.edit_others (subtask_time_logs update)" on public.subtask_time_logs;
+create policy "timelog.edit_others (subtask_time_logs update)" on public.subtask_time_logs
+    as restrictive for update to authenticated
+    using (user_id = auth.uid() or public.has_capability('timelog.edit_others'));
+
+drop policy if exists "timelog.edit_others (subtask_time_logs delete)" on public.subtask_time_logs;
+create policy "timelog.edit_others (subtask_time_logs delete)" on public.subtask_time_logs
+    as restrictive for delete to authenticated
+    using (user_id = auth.uid() or public.has_capability('timelog.edit_others'));
+
+drop policy if exists "timesheet.approve (timesheets update)" on public.timesheets;
+create policy "timesheet.approve (timesheets update)" on public.timesheets
+    as restrictive for update to authenticated
+    using (user_id = auth.uid() or public.has_capability('timesheet.approve'));
+
+drop policy if exists "billing.manage (billing_rates insert)" on public.billing_rates;
+create policy "billing.manage (billing_rates insert)" on public.billing_rates
+    as restrictive for insert to authenticated
+    with check (public.has_capability('billing.manage'));
+
+drop policy if exists "billing.manage (billing_rates update)" on public.billing_rates;
+create policy "billing.manage (billing_rates update)" on public.billing_rates
+    as restrictive for update to authenticated
+    using (public.has_capability('billing.manage'));
+
+drop policy if exists "billing.manage (billing_rates delete)" on public.billing_rates;
+create policy "billing.manage (billing_rates delete)" on public.billing_rates
+    as restrictive for delete to authenticated
+    using (public.has_capability('billing.manage'));
+
+drop policy if exists "billing.manage (invoices insert)" on public.invoices;
+create policy "billing.manage (invoices insert)" on public.invoices
+    as restrictive for insert to authenticated
+    with check (public.has_capability('billing.manage'));
+
+drop policy if exists "billing.manage (invoices update)" on public.invoices;
+create policy "billing.manage (invoices update)" on public.invoices
+    as restrictive for update to authenticated
+    using (public.has_capability('billing.manage'));
+
+drop policy if exists "billing.manage (invoices delete)" on public.invoices;
+create policy "billing.manage (invoices delete)" on public.invoices
+    as restrictive for delete to authenticated
+    using (public.has_capability('billing.manage'));
+
+drop policy if exists "billing.manage (invoice_line_items insert)" on public.invoice_line_items;
+create policy "billing.manage (invoice_line_items insert)" on public.invoice_line_items
+    as restrictive for insert to authenticated
+    with check (public.has_capability('billing.manage'));
+
+drop policy if exists "billing.manage (invoice_line_items update)" on public.invoice_line_items;
+create policy "billing.manage (invoice_line_items update)" on public.invoice_line_items
+    as restrictive for update to authenticated
+    using (public.has_capability('billing.manage'));
+
+drop policy if exists "billing.manage (invoice_line_items delete)" on public.invoice_line_items;
+create policy "billing.manage (invoice_line_items delete)" on public.invoice_line_items
+    as restrictive for delete to authenticated
+    using (public.has_capability('billing.manage'));
+
+drop policy if exists "activity.delete (activities delete)" on public.activities;
+create policy "activity.delete (activities delete)" on public.activities
+    as restrictive for delete to authenticated
+    using (public.has_capability('activity.delete'));
@@ -0,0 +1,92 @@
+-- Runaway timer protection for subtask_time_logs.
+--
+-- The browser sends a heartbeat while a timer's tab is open, and asks the
+-- user what to do with the gap when they come back from being idle, from a
+-- closed tab or from past midnight. Timers nobody comes back to are capped
+-- by a server sweep once they run past timer_settings.max_duration_hours.
+-- Every change either side makes is appended to the log's adjustments.
+
+create table if not exists public.timer_settings (
+    id integer primary key default 1 check (id = 1),
+    max_duration_hours numeric not null default 12 check (max_duration_hours > 0),
+    idle_minutes integer not null default 15 check (idle_minutes > 0),
+    updated_at timestamptz not null default now()
+);
+
+insert into public.timer_settings (id) values (1)
+on conflict (id) do nothing;
+
+alter table public.timer_settings enable row level security;
+
+drop policy if exists "Timer settings are readable" on public.timer_settings;
+create policy "Timer settings are readable" on public.timer_settings
+    for select to authenticated
+    using (true);
+
+drop policy if exists "Admins manage timer settings" on public.timer_settings;
+create policy "Admins manage timer settings" on public.timer_settings
+    for update to authenticated
+    using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'))
+    with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin'));
+
+-- Each adjustment is {kind, trigger, at, gap_start, seconds}; see
+-- TimerAdjustment in src/data/types.ts.
+alter table public.subtask_time_logs
+    add column if not exists last_heartbeat_at timestamptz,
+    add column if not exists adjustments jsonb not null default '[]'::jsonb;
+
+create index if not exists subtask_time_logs_open_idx
+    on public.subtask_time_logs (start_time)
+    where end_time is null;
+
+-- Ends open timers at start + max_duration_hours. Weeks that are already
+-- approved are left alone, as the lock trigger would refuse the update.
+create or replace function public.cap_long_running_timers(p_now timestamptz default now())
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_max interval;
+    v_capped integer;
+begin
+    select make_interval(secs => max_duration_hours * 3600)
+    into v_max
+    from timer_settings
+    where id = 1;
+
+    update subtask_time_logs l
+    set end_time = l.start_time + v_max,
+        duration_seconds = extract(epoch from v_max)::integer,
+        adjustments = l.adjustments || jsonb_build_array(jsonb_build_object(
+            'kind', 'capped',
+            'trigger', 'max_duration',
+            'at', p_now,
+            'gap_start', l.start_time + v_max,
+            'seconds', extract(epoch from p_now - (l.start_time + v_max))::integer
+        ))
+    where l.end_time is null
+      and l.start_time + v_max < p_now
+      and not public.is_time_locked(l.user_id, l.start_time);
+
+    get diagnostics v_capped = row_count;
+    return v_capped;
+end;
+$$;
+
+revoke execute on function public.cap_long_running_timers(timestamptz) from public, anon, authenticated;
+
+-- Run every 15 minutes where pg_cron is available (hosted Supabase).
+-- Elsewhere, run src/run_timer_sweep_pg.js from a system scheduler.
+do $$
+begin
+    if exists (select 1 from pg_extension where extname = 'pg_cron') then
+        perform cron.schedule(
+            'cap-long-running-timers',
+            '*/15 * * * *',
+            'select public.cap_long_running_timers()'
+        );
+    end if;
+end;
+$$;
@@ -0,0 +1,124 @@
+-- Full-text search behind the command palette.
+--
+-- Each searchable table gets a GIN expression index over its search
+-- document (HTML from the rich text editor stripped first). The documents
+-- are computed rather than stored so `select *` elsewhere stays lean.
+-- search_workspace() matches every word of the query as a prefix, so
+-- results narrow as the user types, and returns the best matches of each
+-- kind ranked by ts_rank. It runs as the caller, so row level security
+-- decides what each user can find.
+
+create or replace function public.search_document(p_title text, p_body text default null)
+returns tsvector
+language sql
+immutable
+as $$
+    select setweight(to_tsvector('english', coalesce(p_title, '')), 'A') ||
+           setweight(to_tsvector('english', regexp_replace(coalesce(p_body, ''), '<[^>]+>', ' ', 'g')), 'B')
+$$;
+
+-- 'simple' so names and addresses are not stemmed
+create or replace function public.person_search_document(p_full_name text, p_email text)
+returns tsvector
+language sql
+immutable
+as $$
+    select setweight(to_tsvector('simple', coalesce(p_full_name, '')), 'A') ||
+           setweight(to_tsvector('simple', coalesce(p_email, '')), 'B')
+$$;
+
+create index if not exists tasks_search_idx
+    on public.tasks using gin (public.search_document(title, description));
+create index if not exists subtasks_search_idx
+    on public.subtasks using gin (public.search_document(title));
+create index if not exists task_comments_search_idx
+    on public.task_comments using gin (public.search_document(null, content));
+create index if not exists meetings_search_idx
+    on public.meetings using gin (public.search_document(title, description));
+create index if not exists profiles_search_idx
+    on public.profiles using gin (public.person_search_document(full_name, email));
+
+create or replace function public.search_workspace(p_query text, p_limit integer default 8)
+returns table (kind text, id uuid, task_id uuid, client_id uuid, title text, snippet text, rank real)
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+    v_words text[];
+    v_english tsquery;
+    v_simple tsquery;
+    v_headline constant text := 'MaxFragments=1, MaxWords=18, MinWords=6, StartSel="**", StopSel="**"';
+begin
+    select array_agg(word)
+    into v_words
+    from (
+        select regexp_replace(w, '[^[:alnum:]]', '', 'g') as word
+        from regexp_split_to_table(coalesce(p_query, ''), '\s+') w
+    ) words
+    where word <> '';
+
+    if v_words is null then
+        return;
+    end if;
+
+    v_english := to_tsquery('english', array_to_string(array(select w || ':*' from unnest(v_words) w), ' & '));
+    v_simple := to_tsquery('simple', array_to_string(array(select w || ':*' from unnest(v_words) w), ' & '));
+
+    return query
+    select * from (
+        (
+            select 'task'::text, t.id, t.id, null::uuid, t.title,
+                   ts_headline('english', regexp_replace(coalesce(t.description, ''), '<[^>]+>', ' ', 'g'), v_english, v_headline),
+                   ts_rank(public.search_document(t.title, t.description), v_english)
+            from tasks t
+            where public.search_document(t.title, t.description) @@ v_english
+            order by 7 desc
+            limit p_limit
+        )
+        union all
+        (
+            select 'subtask'::text, s.id, s.task_id, null::uuid, s.title, t.title,
+                   ts_rank(public.search_document(s.title), v_english)
+            from subtasks s
+            join tasks t on t.id = s.task_id
+            where public.search_document(s.title) @@ v_english
+            order by 7 desc
+            limit p_limit
+        )
+        union all
+        (
+            select 'comment'::text, c.id, c.task_id, null::uuid, t.title,
+                   ts_headline('english', regexp_replace(coalesce(c.content, ''), '<[^>]+>', ' ', 'g'), v_english, v_headline),
+                   ts_rank(public.search_document(null, c.content), v_english)
+            from task_comments c
+            join tasks t on t.id = c.task_id
+            where public.search_document(null, c.content) @@ v_english
+            order by 7 desc
+            limit p_limit
+        )
+        union all
+        (
+            select 'meeting'::text, m.id, null::uuid, m.client_id, m.title,
+                   ts_headline('english', regexp_replace(coalesce(m.description, ''), '<[^>]+>', ' ', 'g'), v_english, v_headline),
+                   ts_rank(public.search_document(m.title, m.description), v_english)
+            from meetings m
+            where public.search_document(m.title, m.description) @@ v_english
+            order by 7 desc
+            limit p_limit
+        )
+        union all
+        (
+            select 'person'::text, p.id, null::uuid, null::uuid, coalesce(p.full_name, p.email), p.email,
+                   ts_rank(public.person_search_document(p.full_name, p.email), v_simple)
+            from profiles p
+            where public.person_search_document(p.full_name, p.email) @@ v_simple
+            order by 7 desc
+            limit p_limit
+        )
+    ) results
+    order by 7 desc;
+end;
+$$;
+
+grant execute on function public.search_workspace(text, integer) to authenticated;
@@ -0,0 +1,75 @@
+-- Custom task fields, defined per department or for every department of a
+-- client.
+--
+-- A task's values live in tasks.custom_fields, keyed by definition id:
+-- text, url, date ('yyyy-mm-dd'), select and person (a profile id) are
+-- strings, number is a number and multi_select an array of strings. The GIN
+-- index serves the containment filters the tasks tracker sends.
+
+create table if not exists public.custom_field_definitions (
+    id uuid primary key default gen_random_uuid(),
+    department_id uuid references public.departments (id) on delete cascade,
+    client_id uuid references public.clients (id) on delete cascade,
+    name text not null check (length(trim(name)) > 0),
+    field_type text not null check (field_type in ('text', 'number', 'select', 'multi_select', 'date', 'url', 'person')),
+    -- Choices for select and multi_select
+    options text[] not null default '{}',
+    position integer not null default 0,
+    created_at timestamptz not null default now(),
+    check (num_nonnulls(department_id, client_id) = 1)
+);
+
+create index if not exists custom_field_definitions_department_id_idx
+    on public.custom_field_definitions (department_id);
+create index if not exists custom_field_definitions_client_id_idx
+    on public.custom_field_definitions (client_id);
+
+alter table public.custom_field_definitions enable row level security;
+
+drop policy if exists "Custom fields are readable" on public.custom_field_definitions;
+create policy "Custom fields are readable" on public.custom_field_definitions
+    for select to authenticated
+    using (true);
+
+-- Narrowed to field.manage by the generated capability policies
+drop policy if exists "Custom fields are writable" on public.custom_field_definitions;
+create policy "Custom fields are writable" on public.custom_field_definitions
+    for all to authenticated
+    using (true)
+    with check (true);
+
+alter table public.tasks
+    add column if not exists custom_fields jsonb not null default '{}'
+        check (jsonb_typeof(custom_fields) = 'object');
+
+create index if not exists tasks_custom_fields_idx
+    on public.tasks using gin (custom_fields jsonb_path_ops);
+
+-- Generated occurrences copy the series' values
+alter table public.task_recurrences
+    add column if not exists custom_fields jsonb not null default '{}';
+
+-- A removed field takes its values with it.
+create or replace function public.drop_custom_field_values()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    update tasks
+    set custom_fields = custom_fields - old.id::text
+    where custom_fields ? old.id::text;
+    update task_recurrences
+    set custom_fields = custom_fields - old.id::text
+    where custom_fields ? old.id::text;
+    return old;
+end;
+$$;
+
+revoke execute on function public.drop_custom_field_values() from public;
+
+drop trigger if exists custom_field_definitions_drop_values on public.custom_field_definitions;
+create trigger custom_field_definitions_drop_values
+    after delete on public.custom_field_definitions
+    for each row execute function public.drop_custom_field_values();
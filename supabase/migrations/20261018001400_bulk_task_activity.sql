@@ -0,0 +1,6 @@
+-- Bulk task edits are logged as one activity for the whole batch. details
+-- holds {change, task_ids, failed: [{task_id, message}]}; see
+-- applyBulkTaskChange in src/data/bulkTasks.ts.
+
+alter table public.activities
+    add column if not exists details jsonb;
@@ -0,0 +1,69 @@
+-- Named views of the content calendar and the tasks tracker.
+--
+-- A view is private to its owner until it is shared with a client team: the
+-- client's coordinator and the employees of its departments then see it
+-- too. `state` holds what the view restores (filters, sort, grouping,
+-- visible columns and view mode), in the same shape the app encodes into
+-- the page URL.
+
+create table if not exists public.saved_views (
+    id uuid primary key default gen_random_uuid(),
+    owner_id uuid not null default auth.uid() references public.profiles (id) on delete cascade,
+    -- Set when the view is shared with this client's team
+    client_id uuid references public.clients (id) on delete cascade,
+    name text not null check (length(trim(name)) > 0),
+    target text not null check (target in ('creative-progress', 'tasks-tracker')),
+    state jsonb not null default '{}' check (jsonb_typeof(state) = 'object'),
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create index if not exists saved_views_owner_id_idx
+    on public.saved_views (owner_id);
+create index if not exists saved_views_client_id_idx
+    on public.saved_views (client_id);
+
+alter table public.saved_views enable row level security;
+
+drop policy if exists "Saved views are readable by their owner and team" on public.saved_views;
+create policy "Saved views are readable by their owner and team" on public.saved_views
+    for select to authenticated
+    using (
+        owner_id = auth.uid()
+        or exists (
+            select 1
+            from public.clients c
+            where c.id = saved_views.client_id
+              and c.cc_id = auth.uid()
+        )
+        or exists (
+            select 1
+            from public.department_employees de
+            join public.departments d on d.id = de.department_id
+            join public.workspaces w on w.id = d.workspace_id
+            where w.client_id = saved_views.client_id
+              and de.employee_id = auth.uid()
+        )
+    );
+
+-- Only the owner changes or removes a view, shared or not
+drop policy if exists "Saved views are writable by their owner" on public.saved_views;
+create policy "Saved views are writable by their owner" on public.saved_views
+    for all to authenticated
+    using (owner_id = auth.uid())
+    with check (owner_id = auth.uid());
+
+create or replace function public.touch_saved_view()
+returns trigger
+language plpgsql
+as $$
+begin
+    new.updated_at := now();
+    return new;
+end;
+$$;
+
+drop trigger if exists saved_views_touch on public.saved_views;
+create trigger saved_views_touch
+    before update on public.saved_views
+    for each row execute function public.touch_saved_view();
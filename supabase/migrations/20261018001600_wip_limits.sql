@@ -0,0 +1,44 @@
+-- Work-in-progress limits on board columns.
+--
+-- A status with a wip_limit holds at most that many tasks. With the 'warn'
+-- policy the boards ask before a drop goes over it; with 'block' they refuse,
+-- and so does this trigger, whichever client moves the task.
+
+alter table public.task_statuses
+    add column if not exists wip_limit integer check (wip_limit > 0),
+    add column if not exists wip_policy text not null default 'warn' check (wip_policy in ('warn', 'block'));
+
+-- Security definer so the count includes tasks the mover cannot see.
+create or replace function public.enforce_wip_limit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_status task_statuses%rowtype;
+begin
+    if new.status_id is null or (tg_op = 'UPDATE' and new.status_id is not distinct from old.status_id) then
+        return new;
+    end if;
+
+    select * into v_status from task_statuses where id = new.status_id;
+    if v_status.wip_limit is null or v_status.wip_policy <> 'block' then
+        return new;
+    end if;
+
+    if (select count(*) from tasks where status_id = new.status_id and id <> new.id) >= v_status.wip_limit then
+        raise exception '"%" is at its limit of % tasks', v_status.label, v_status.wip_limit
+            using errcode = 'check_violation';
+    end if;
+
+    return new;
+end;
+$$;
+
+revoke execute on function public.enforce_wip_limit() from public;
+
+drop trigger if exists tasks_enforce_wip_limit on public.tasks;
+create trigger tasks_enforce_wip_limit
+    before insert or update of status_id on public.tasks
+    for each row execute function public.enforce_wip_limit();
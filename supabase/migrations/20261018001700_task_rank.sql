@@ -0,0 +1,21 @@
+-- Manual card order within board columns.
+--
+-- rank is a fractional index (see src/lib/rank.ts): a base-36 string that
+-- sorts byte-wise, so a moved card only rewrites its own rank. Tasks
+-- without one sit on top of their column.
+
+alter table public.tasks
+    add column if not exists rank text collate "C";
+
+-- Existing cards keep the order the boards showed them in, newest first.
+update public.tasks t
+set rank = lpad(ranked.n::text, 8, '0') || 'i'
+from (
+    select id, row_number() over (partition by status_id order by created_at desc) as n
+    from public.tasks
+) ranked
+where ranked.id = t.id
+  and t.rank is null;
+
+create index if not exists tasks_status_rank_idx
+    on public.tasks (status_id, rank);
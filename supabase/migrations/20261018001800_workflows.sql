@@ -0,0 +1,242 @@
+-- Department workflows: which column moves are allowed, what a task needs
+-- before it may enter a column, and what happens once it does.
+--
+-- A department without transitions keeps free-form boards. Once it has
+-- any, a task moves from one column to another only along a listed
+-- transition (from_status_id null means "from any column"), and only for
+-- the listed roles when allowed_roles is set; admins pass every role check.
+-- The boards ask task_move_rejection() before a move to explain a refusal,
+-- and the trigger below refuses the same moves for every other client.
+
+create table if not exists public.workflow_transitions (
+    id uuid primary key default gen_random_uuid(),
+    department_id uuid not null references public.departments (id) on delete cascade,
+    from_status_id uuid references public.task_statuses (id) on delete cascade,
+    to_status_id uuid not null references public.task_statuses (id) on delete cascade,
+    allowed_roles text[] not null default '{}'
+        check (allowed_roles <@ array['admin', 'client_coordinator', 'employee']),
+    created_at timestamptz not null default now(),
+    check (from_status_id is distinct from to_status_id)
+);
+
+create unique index if not exists workflow_transitions_unique_idx
+    on public.workflow_transitions (department_id, coalesce(from_status_id, '00000000-0000-0000-0000-000000000000'::uuid), to_status_id);
+
+alter table public.workflow_transitions enable row level security;
+
+drop policy if exists "Workflow transitions are readable" on public.workflow_transitions;
+create policy "Workflow transitions are readable" on public.workflow_transitions
+    for select to authenticated
+    using (true);
+
+-- Narrowed to status.manage by the generated capability policies
+drop policy if exists "Workflow transitions are writable" on public.workflow_transitions;
+create policy "Workflow transitions are writable" on public.workflow_transitions
+    for all to authenticated
+    using (true)
+    with check (true);
+
+-- Entry requirements and actions live on the column itself.
+alter table public.task_statuses
+    add column if not exists entry_requirements text[] not null default '{}'
+        check (entry_requirements <@ array['subtasks_done', 'url_field', 'assignee', 'due_date']),
+    add column if not exists entry_actions text[] not null default '{}'
+        check (entry_actions <@ array['complete_subtasks', 'notify_assignees', 'notify_coordinator']);
+
+-- Why `p_task` may not move from `p_from_status_id` into `p_to_status_id`,
+-- or null when it may. A null from-status (a new task, or one arriving from
+-- another department) skips the transition check.
+create or replace function public.workflow_rejection(p_task tasks, p_from_status_id uuid, p_to_status_id uuid)
+returns text
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+    v_status task_statuses%rowtype;
+    v_role text;
+    v_open integer;
+begin
+    select * into v_status from task_statuses where id = p_to_status_id;
+    if not found then
+        return null;
+    end if;
+
+    if p_from_status_id is not null
+        and exists (select 1 from workflow_transitions where department_id = p_task.department_id) then
+        select role into v_role from profiles where id = auth.uid();
+
+        if not exists (
+            select 1 from workflow_transitions wt
+            where wt.department_id = p_task.department_id
+              and wt.to_status_id = p_to_status_id
+              and (wt.from_status_id is null or wt.from_status_id = p_from_status_id)
+        ) then
+            return format('This workflow does not allow moving from "%s" to "%s".',
+                coalesce((select label from task_statuses where id = p_from_status_id), 'this column'), v_status.label);
+        end if;
+
+        -- No signed-in user means a scheduled job, which passes role checks
+        if auth.uid() is not null and coalesce(v_role, '') <> 'admin' and not exists (
+            select 1 from workflow_transitions wt
+            where wt.department_id = p_task.department_id
+              and wt.to_status_id = p_to_status_id
+              and (wt.from_status_id is null or wt.from_status_id = p_from_status_id)
+              and (cardinality(wt.allowed_roles) = 0 or v_role = any (wt.allowed_roles))
+        ) then
+            return format('Only %s can move tasks into "%s".',
+                (select string_agg(case r when 'client_coordinator' then 'coordinators' else r || 's' end, ' or ')
+                 from (
+                     select distinct unnest(wt.allowed_roles) as r
+                     from workflow_transitions wt
+                     where wt.department_id = p_task.department_id
+                       and wt.to_status_id = p_to_status_id
+                       and (wt.from_status_id is null or wt.from_status_id = p_from_status_id)
+                 ) roles),
+                v_status.label);
+        end if;
+    end if;
+
+    if 'subtasks_done' = any (v_status.entry_requirements) then
+        select count(*) into v_open from subtasks where task_id = p_task.id and not is_completed;
+        if v_open > 0 then
+            return format('"%s" requires every subtask to be done; %s still open.', v_status.label, v_open);
+        end if;
+    end if;
+
+    -- A link in any of the task's URL custom fields
+    if 'url_field' = any (v_status.entry_requirements) and not exists (
+        select 1 from custom_field_definitions d
+        where d.field_type = 'url'
+          and coalesce(p_task.custom_fields ->> d.id::text, '') <> ''
+    ) then
+        return format('"%s" requires a link in one of the task''s URL fields.', v_status.label);
+    end if;
+
+    if 'assignee' = any (v_status.entry_requirements)
+        and p_task.assigned_to is null
+        and not exists (select 1 from task_assignments where task_id = p_task.id) then
+        return format('"%s" requires the task to have an assignee.', v_status.label);
+    end if;
+
+    if 'due_date' = any (v_status.entry_requirements) and p_task.due_date is null then
+        return format('"%s" requires the task to have a due date.', v_status.label);
+    end if;
+
+    return null;
+end;
+$$;
+
+-- What the boards ask before a move; runs as the caller, so a task they
+-- cannot see simply passes.
+create or replace function public.task_move_rejection(p_task_id uuid, p_status_id uuid)
+returns text
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+    v_task tasks%rowtype;
+begin
+    select * into v_task from tasks where id = p_task_id;
+    if not found or v_task.status_id is not distinct from p_status_id then
+        return null;
+    end if;
+    return public.workflow_rejection(v_task, v_task.status_id, p_status_id);
+end;
+$$;
+
+grant execute on function public.workflow_rejection(tasks, uuid, uuid) to authenticated;
+grant execute on function public.task_move_rejection(uuid, uuid) to authenticated;
+
+create or replace function public.enforce_workflow()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_reason text;
+begin
+    if new.status_id is null or (tg_op = 'UPDATE' and new.status_id is not distinct from old.status_id) then
+        return new;
+    end if;
+
+    v_reason := public.workflow_rejection(
+        new,
+        case when tg_op = 'UPDATE' and new.department_id = old.department_id then old.status_id end,
+        new.status_id
+    );
+    if v_reason is not null then
+        raise exception '%', v_reason using errcode = 'check_violation';
+    end if;
+
+    return new;
+end;
+$$;
+
+revoke execute on function public.enforce_workflow() from public;
+
+-- A new task has no column to come from, so only the entry requirements of
+-- the one it starts in apply.
+drop trigger if exists tasks_enforce_workflow on public.tasks;
+create trigger tasks_enforce_workflow
+    before insert or update of status_id on public.tasks
+    for each row execute function public.enforce_workflow();
+
+create or replace function public.apply_status_entry_actions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_status task_statuses%rowtype;
+begin
+    if new.status_id is null or new.status_id is not distinct from old.status_id then
+        return null;
+    end if;
+
+    select * into v_status from task_statuses where id = new.status_id;
+    if not found or cardinality(v_status.entry_actions) = 0 then
+        return null;
+    end if;
+
+    if 'complete_subtasks' = any (v_status.entry_actions) then
+        update subtasks set is_completed = true where task_id = new.id and not is_completed;
+    end if;
+
+    if 'notify_assignees' = any (v_status.entry_actions) then
+        insert into notifications (user_id, title, message, type)
+        select a.user_id, 'Task Moved: ' || new.title,
+            format('The task "%s" moved to %s.', new.title, v_status.label), 'info'
+        from (
+            select user_id from task_assignments where task_id = new.id
+            union
+            select new.assigned_to where new.assigned_to is not null
+        ) a
+        where a.user_id is distinct from auth.uid();
+    end if;
+
+    if 'notify_coordinator' = any (v_status.entry_actions) then
+        insert into notifications (user_id, title, message, type)
+        select c.cc_id, 'Task Moved: ' || new.title,
+            format('The task "%s" moved to %s.', new.title, v_status.label), 'info'
+        from departments d
+        join workspaces w on w.id = d.workspace_id
+        join clients c on c.id = w.client_id
+        where d.id = new.department_id
+          and c.cc_id is not null
+          and c.cc_id is distinct from auth.uid();
+    end if;
+
+    return null;
+end;
+$$;
+
+revoke execute on function public.apply_status_entry_actions() from public;
+
+drop trigger if exists tasks_apply_status_entry_actions on public.tasks;
+create trigger tasks_apply_status_entry_actions
+    after update of status_id on public.tasks
+    for each row execute function public.apply_status_entry_actions();
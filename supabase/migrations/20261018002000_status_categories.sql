@@ -0,0 +1,126 @@
+-- Semantic status categories.
+--
+-- Every column belongs to one of backlog, active, review, done or
+-- cancelled. Boards order cross-department columns by category and then
+-- position, and everything that asks "is this task finished?" reads the
+-- category, so renaming or translating a column changes nothing else.
+-- Existing columns are categorised from the label conventions used so far.
+
+alter table public.task_statuses
+    add column if not exists category text not null default 'active'
+        check (category in ('backlog', 'active', 'review', 'done', 'cancelled'));
+
+update public.task_statuses
+set category = case
+    when label ~* '(cancel|abandon)' then 'cancelled'
+    when label ~* '(done|complete|finish|success|closed)' then 'done'
+    when label ~* '(review|approv)' then 'review'
+    when label ~* '(to\s?do|backlog|pending|open|not started)' then 'backlog'
+    else 'active'
+end;
+
+create index if not exists task_statuses_category_idx
+    on public.task_statuses (category);
+
+-- Due reminders skip finished tasks by category now.
+create or replace function public.generate_task_due_notifications(p_now timestamptz default now())
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_today date := p_now::date;
+    v_inserted integer;
+begin
+    with due as (
+        select
+            t.id,
+            t.title,
+            t.due_date,
+            c.cc_id,
+            case
+                when t.due_date::date < v_today then 'overdue'
+                when t.due_date::date = v_today then 'due_today'
+                else 'due_tomorrow'
+            end as kind
+        from tasks t
+        join departments d on d.id = t.department_id
+        join workspaces w on w.id = d.workspace_id
+        join clients c on c.id = w.client_id
+        left join task_statuses s on s.id = t.status_id
+        where t.due_date is not null
+          and t.due_date::date <= v_today + 1
+          and coalesce(s.category, 'backlog') not in ('done', 'cancelled')
+    ),
+    assignees as (
+        select ta.task_id, ta.user_id
+        from task_assignments ta
+        join due on due.id = ta.task_id
+        union
+        select t.id, t.assigned_to
+        from tasks t
+        join due on due.id = t.id
+        where t.assigned_to is not null
+    ),
+    assignee_names as (
+        select a.task_id, string_agg(p.full_name, ', ' order by p.full_name) as names
+        from assignees a
+        join profiles p on p.id = a.user_id
+        group by a.task_id
+    ),
+    recipients as (
+        select due.id as task_id, due.cc_id as user_id, true as is_coordinator
+        from due
+        where due.cc_id is not null
+        union all
+        select a.task_id, a.user_id, false
+        from assignees a
+    ),
+    outgoing as (
+        -- A coordinator who is also an assignee gets the coordinator copy only
+        select distinct on (r.user_id, r.task_id)
+            r.user_id,
+            r.is_coordinator,
+            due.*
+        from recipients r
+        join due on due.id = r.task_id
+        order by r.user_id, r.task_id, r.is_coordinator desc
+    )
+    insert into notifications (user_id, title, message, type, deduplication_key)
+    select
+        o.user_id,
+        case o.kind
+            when 'overdue' then 'Task Overdue: ' || o.title
+            when 'due_today' then 'Task Due Today: ' || o.title
+            else 'Task Due Tomorrow: ' || o.title
+        end,
+        case o.kind
+            when 'overdue' then format('The task "%s" was due on %s.', o.title, to_char(o.due_date, 'Mon DD, YYYY'))
+            when 'due_today' then format('The task "%s" is due today.', o.title)
+            else format('The task "%s" is due tomorrow.', o.title)
+        end
+        || case
+            when not o.is_coordinator then ''
+            when n.names is null then ' No employees assigned.'
+            else ' Assigned to: ' || n.names
+        end,
+        case o.kind
+            when 'overdue' then 'error'
+            when 'due_today' then 'warning'
+            else 'info'
+        end,
+        -- The due date is part of the key so a rescheduled task is reminded again
+        format('task_%s_%s_%s', o.kind, o.id, to_char(o.due_date, 'YYYY-MM-DD'))
+    from outgoing o
+    left join assignee_names n on n.task_id = o.id
+    on conflict (user_id, deduplication_key) where deduplication_key is not null do nothing;
+
+    get diagnostics v_inserted = row_count;
+    return v_inserted;
+end;
+$$;
+
+revoke execute on function public.generate_task_due_notifications(timestamptz) from public, anon, authenticated;
+
+drop function if exists public.task_status_is_closed(text);
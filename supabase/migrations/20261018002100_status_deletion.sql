@@ -0,0 +1,174 @@
+-- Deleting a board column moves its tasks into another column of the same
+-- department first, so no task is left without a status.
+--
+-- The move is housekeeping rather than someone working a task: WIP limits,
+-- workflow rules and entry actions stay out of it. The function marks the
+-- transaction and the status triggers step aside while it is set.
+
+create or replace function public.delete_task_status(p_status_id uuid, p_replacement_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_status task_statuses%rowtype;
+    v_replacement task_statuses%rowtype;
+    v_moved integer;
+begin
+    if not public.has_capability('status.manage') then
+        raise exception 'You do not have permission to delete columns';
+    end if;
+
+    select * into v_status from task_statuses where id = p_status_id;
+    if not found then
+        raise exception 'Column not found';
+    end if;
+
+    -- The function runs past RLS, so it checks the board belongs to a client
+    -- the caller coordinates
+    if not exists (select 1 from profiles where id = auth.uid() and role = 'admin')
+       and not exists (
+           select 1
+           from departments d
+           join workspaces w on w.id = d.workspace_id
+           join clients c on c.id = w.client_id
+           where d.id = v_status.department_id and c.cc_id = auth.uid()
+       ) then
+        raise exception 'Column not found';
+    end if;
+
+    select * into v_replacement from task_statuses where id = p_replacement_id;
+    if not found or v_replacement.id = v_status.id
+        or v_replacement.department_id is distinct from v_status.department_id then
+        raise exception 'Tasks must move to another column of the same department';
+    end if;
+
+    perform set_config('app.status_reassignment', 'on', true);
+
+    update tasks set status_id = p_replacement_id where status_id = p_status_id;
+    get diagnostics v_moved = row_count;
+
+    delete from task_statuses where id = p_status_id;
+
+    perform set_config('app.status_reassignment', 'off', true);
+    return v_moved;
+end;
+$$;
+
+revoke execute on function public.delete_task_status(uuid, uuid) from public;
+grant execute on function public.delete_task_status(uuid, uuid) to authenticated;
+
+create or replace function public.is_status_reassignment()
+returns boolean
+language sql
+stable
+as $$
+    select coalesce(current_setting('app.status_reassignment', true), '') = 'on'
+$$;
+
+create or replace function public.enforce_wip_limit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_status task_statuses%rowtype;
+begin
+    if new.status_id is null or (tg_op = 'UPDATE' and new.status_id is not distinct from old.status_id)
+        or public.is_status_reassignment() then
+        return new;
+    end if;
+
+    select * into v_status from task_statuses where id = new.status_id;
+    if v_status.wip_limit is null or v_status.wip_policy <> 'block' then
+        return new;
+    end if;
+
+    if (select count(*) from tasks where status_id = new.status_id and id <> new.id) >= v_status.wip_limit then
+        raise exception '"%" is at its limit of % tasks', v_status.label, v_status.wip_limit
+            using errcode = 'check_violation';
+    end if;
+
+    return new;
+end;
+$$;
+
+create or replace function public.enforce_workflow()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_reason text;
+begin
+    if new.status_id is null or (tg_op = 'UPDATE' and new.status_id is not distinct from old.status_id)
+        or public.is_status_reassignment() then
+        return new;
+    end if;
+
+    v_reason := public.workflow_rejection(
+        new,
+        case when tg_op = 'UPDATE' and new.department_id = old.department_id then old.status_id end,
+        new.status_id
+    );
+    if v_reason is not null then
+        raise exception '%', v_reason using errcode = 'check_violation';
+    end if;
+
+    return new;
+end;
+$$;
+
+create or replace function public.apply_status_entry_actions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_status task_statuses%rowtype;
+begin
+    if new.status_id is null or new.status_id is not distinct from old.status_id
+        or public.is_status_reassignment() then
+        return null;
+    end if;
+
+    select * into v_status from task_statuses where id = new.status_id;
+    if not found or cardinality(v_status.entry_actions) = 0 then
+        return null;
+    end if;
+
+    if 'complete_subtasks' = any (v_status.entry_actions) then
+        update subtasks set is_completed = true where task_id = new.id and not is_completed;
+    end if;
+
+    if 'notify_assignees' = any (v_status.entry_actions) then
+        insert into notifications (user_id, title, message, type)
+        select a.user_id, 'Task Moved: ' || new.title,
+            format('The task "%s" moved to %s.', new.title, v_status.label), 'info'
+        from (
+            select user_id from task_assignments where task_id = new.id
+            union
+            select new.assigned_to where new.assigned_to is not null
+        ) a
+        where a.user_id is distinct from auth.uid();
+    end if;
+
+    if 'notify_coordinator' = any (v_status.entry_actions) then
+        insert into notifications (user_id, title, message, type)
+        select c.cc_id, 'Task Moved: ' || new.title,
+            format('The task "%s" moved to %s.', new.title, v_status.label), 'info'
+        from departments d
+        join workspaces w on w.id = d.workspace_id
+        join clients c on c.id = w.client_id
+        where d.id = new.department_id
+          and c.cc_id is not null
+          and c.cc_id is distinct from auth.uid();
+    end if;
+
+    return null;
+end;
+$$;
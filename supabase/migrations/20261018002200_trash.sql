@@ -0,0 +1,639 @@
+-- Soft deletion with a trash bin.
+--
+-- Deleting a client, department, task, employee or activity entry no longer
+-- removes rows. move_to_trash() records a deletion and stamps the row and
+-- everything under it (a client's workspaces, departments and tasks; a
+-- department's tasks) with its id and deleted_at. Stamped rows disappear
+-- from every query through the restrictive policies below, and
+-- restore_deletion() clears exactly the rows one deletion stamped, so
+-- children that were trashed on their own beforehand stay in the trash.
+--
+-- Deletions are purged for good once purge_after passes, by
+-- purge_expired_deletions() on a daily schedule, or early with
+-- purge_deletion().
+
+create table if not exists public.deletions (
+    id uuid primary key default gen_random_uuid(),
+    entity text not null check (entity in ('client', 'department', 'task', 'employee', 'activity')),
+    entity_id uuid not null,
+    label text not null,
+    -- The client the row belonged to, so its coordinator sees the deletion
+    client_id uuid,
+    -- Row counts taken when it was deleted, e.g. {"departments": 7, "tasks": 212}
+    summary jsonb not null default '{}',
+    deleted_by uuid references public.profiles (id) on delete set null,
+    deleted_at timestamptz not null default now(),
+    purge_after timestamptz not null default now() + interval '30 days'
+);
+
+create index if not exists deletions_purge_after_idx on public.deletions (purge_after);
+
+alter table public.clients
+    add column if not exists deleted_at timestamptz,
+    add column if not exists deletion_id uuid;
+alter table public.workspaces
+    add column if not exists deleted_at timestamptz,
+    add column if not exists deletion_id uuid;
+alter table public.departments
+    add column if not exists deleted_at timestamptz,
+    add column if not exists deletion_id uuid;
+alter table public.tasks
+    add column if not exists deleted_at timestamptz,
+    add column if not exists deletion_id uuid;
+alter table public.profiles
+    add column if not exists deleted_at timestamptz,
+    add column if not exists deletion_id uuid;
+alter table public.activities
+    add column if not exists deleted_at timestamptz,
+    add column if not exists deletion_id uuid;
+
+create index if not exists clients_deletion_idx on public.clients (deletion_id) where deletion_id is not null;
+create index if not exists workspaces_deletion_idx on public.workspaces (deletion_id) where deletion_id is not null;
+create index if not exists departments_deletion_idx on public.departments (deletion_id) where deletion_id is not null;
+create index if not exists tasks_deletion_idx on public.tasks (deletion_id) where deletion_id is not null;
+create index if not exists profiles_deletion_idx on public.profiles (deletion_id) where deletion_id is not null;
+create index if not exists activities_deletion_idx on public.activities (deletion_id) where deletion_id is not null;
+
+-- Trashed rows are hidden from everyone; the trash reads public.deletions.
+drop policy if exists "Trashed clients are hidden" on public.clients;
+create policy "Trashed clients are hidden" on public.clients
+    as restrictive for select to authenticated
+    using (deleted_at is null);
+
+drop policy if exists "Trashed workspaces are hidden" on public.workspaces;
+create policy "Trashed workspaces are hidden" on public.workspaces
+    as restrictive for select to authenticated
+    using (deleted_at is null);
+
+drop policy if exists "Trashed departments are hidden" on public.departments;
+create policy "Trashed departments are hidden" on public.departments
+    as restrictive for select to authenticated
+    using (deleted_at is null);
+
+drop policy if exists "Trashed tasks are hidden" on public.tasks;
+create policy "Trashed tasks are hidden" on public.tasks
+    as restrictive for select to authenticated
+    using (deleted_at is null);
+
+drop policy if exists "Trashed profiles are hidden" on public.profiles;
+create policy "Trashed profiles are hidden" on public.profiles
+    as restrictive for select to authenticated
+    using (deleted_at is null);
+
+drop policy if exists "Trashed activities are hidden" on public.activities;
+create policy "Trashed activities are hidden" on public.activities
+    as restrictive for select to authenticated
+    using (deleted_at is null);
+
+-- A trashed employee keeps their login until the deletion is purged, but
+-- holds no capabilities and is no longer an admin in the meantime.
+create or replace function public.has_capability(p_capability text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1
+        from profiles p
+        where p.id = auth.uid()
+          and p.deleted_at is null
+          and (
+              p.role = 'admin'
+              or exists (
+                  select 1
+                  from role_capabilities rc
+                  where rc.role = p.role
+                    and rc.capability = p_capability
+              )
+          )
+    );
+$$;
+
+-- Nor does anyone trash or restore their own profile by editing it.
+create or replace function public.protect_profile_role()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+    if auth.uid() is not null
+       and (new.role is distinct from old.role
+            or new.deleted_at is distinct from old.deleted_at
+            or new.deletion_id is distinct from old.deletion_id)
+       and not public.has_capability('employee.manage') then
+        raise exception 'You do not have permission to change roles or delete profiles';
+    end if;
+
+    return new;
+end;
+$$;
+
+drop policy if exists "Admins manage role templates" on public.role_capabilities;
+create policy "Admins manage role templates" on public.role_capabilities
+    for all to authenticated
+    using (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin' and deleted_at is null))
+    with check (exists (select 1 from public.profiles where id = auth.uid() and role = 'admin' and deleted_at is null));
+
+-- Higher ranks can manage lower ones: admin, then coordinator, then employee.
+create or replace function public.role_rank(p_role text)
+returns integer
+language sql
+immutable
+as $$
+    select case p_role
+        when 'admin' then 3
+        when 'client_coordinator' then 2
+        when 'employee' then 1
+        else 0
+    end
+$$;
+
+-- The capability that deletes, and so restores, each kind of row.
+create or replace function public.trash_capability(p_entity text)
+returns text
+language sql
+immutable
+as $$
+    select case p_entity
+        when 'client' then 'client.manage'
+        when 'department' then 'department.manage'
+        when 'task' then 'task.delete'
+        when 'employee' then 'employee.manage'
+        when 'activity' then 'activity.delete'
+    end
+$$;
+
+-- Admins work on every client, coordinators on the clients they coordinate.
+create or replace function public.coordinates_client(p_client_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (select 1 from profiles where id = auth.uid() and role = 'admin' and deleted_at is null)
+        or exists (select 1 from clients where id = p_client_id and cc_id = auth.uid())
+$$;
+
+-- Whether the caller may move the row to the trash: they need the
+-- capability, to coordinate the client a client, department or task belongs
+-- to, and a higher role than an employee they delete.
+create or replace function public.can_trash(p_entity text, p_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select public.has_capability(public.trash_capability(p_entity))
+        and case p_entity
+            when 'client' then public.coordinates_client(p_id)
+            when 'department' then public.coordinates_client((
+                select w.client_id from departments d join workspaces w on w.id = d.workspace_id
+                where d.id = p_id))
+            when 'task' then public.coordinates_client((
+                select w.client_id from tasks t
+                join departments d on d.id = t.department_id
+                join workspaces w on w.id = d.workspace_id
+                where t.id = p_id))
+            when 'employee' then p_id <> auth.uid()
+                and public.role_rank((select role from profiles where id = p_id))
+                    < public.role_rank((select role from profiles where id = auth.uid()))
+            else true
+        end
+$$;
+
+-- Admins see the whole trash; everyone else sees what was deleted from the
+-- clients they coordinate, and what they deleted that belongs to no client,
+-- if they hold the capability to restore it.
+create or replace function public.can_manage_deletion(p_entity text, p_client_id uuid, p_deleted_by uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select public.has_capability(public.trash_capability(p_entity))
+        and case
+            when p_client_id is not null then public.coordinates_client(p_client_id)
+            else p_deleted_by = auth.uid()
+                or exists (select 1 from profiles where id = auth.uid() and role = 'admin' and deleted_at is null)
+        end
+$$;
+
+grant execute on function public.coordinates_client(uuid) to authenticated;
+grant execute on function public.can_trash(text, uuid) to authenticated;
+grant execute on function public.can_manage_deletion(text, uuid, uuid) to authenticated;
+
+alter table public.deletions enable row level security;
+
+-- Written only through the functions below
+drop policy if exists "Deletions are readable by who can restore them" on public.deletions;
+create policy "Deletions are readable by who can restore them" on public.deletions
+    for select to authenticated
+    using (public.can_manage_deletion(entity, client_id, deleted_by));
+
+-- What deleting a row takes with it, for rows the caller may delete. It
+-- counts every row under it rather than the ones the caller can see.
+create or replace function public.deletion_preview(p_entity text, p_id uuid)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+    if not public.can_trash(p_entity, p_id) then
+        raise exception 'You do not have permission to delete this';
+    end if;
+
+    return case p_entity
+        when 'client' then jsonb_build_object(
+            'workspaces', (select count(*) from workspaces where client_id = p_id and deleted_at is null),
+            'departments', (select count(*) from departments d join workspaces w on w.id = d.workspace_id
+                            where w.client_id = p_id and d.deleted_at is null and w.deleted_at is null),
+            'tasks', (select count(*) from tasks t
+                      join departments d on d.id = t.department_id
+                      join workspaces w on w.id = d.workspace_id
+                      where w.client_id = p_id and t.deleted_at is null and d.deleted_at is null and w.deleted_at is null))
+        when 'department' then jsonb_build_object(
+            'tasks', (select count(*) from tasks where department_id = p_id and deleted_at is null))
+        when 'task' then jsonb_build_object(
+            'subtasks', (select count(*) from subtasks where task_id = p_id),
+            'comments', (select count(*) from task_comments where task_id = p_id))
+        when 'employee' then jsonb_build_object(
+            'assigned_tasks', (select count(*) from tasks t
+                      where t.deleted_at is null
+                        and (t.assigned_to = p_id or exists (select 1 from task_assignments ta where ta.task_id = t.id and ta.user_id = p_id))))
+        else '{}'::jsonb
+    end;
+end;
+$$;
+
+grant execute on function public.deletion_preview(text, uuid) to authenticated;
+
+create or replace function public.move_to_trash(p_entity text, p_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_id uuid := gen_random_uuid();
+    v_label text;
+    v_client_id uuid;
+begin
+    if p_entity = 'employee' and p_id = auth.uid() then
+        raise exception 'You cannot delete your own profile';
+    end if;
+    if p_entity = 'employee' and public.role_rank((select role from profiles where id = p_id))
+       >= public.role_rank((select role from profiles where id = auth.uid())) then
+        raise exception 'You can only delete someone with a lower role than yours';
+    end if;
+    if not public.can_trash(p_entity, p_id) then
+        raise exception 'You do not have permission to delete this';
+    end if;
+
+    case p_entity
+        when 'client' then
+            select name, id into v_label, v_client_id from clients where id = p_id and deleted_at is null;
+        when 'department' then
+            select d.name, w.client_id into v_label, v_client_id
+            from departments d left join workspaces w on w.id = d.workspace_id
+            where d.id = p_id and d.deleted_at is null;
+        when 'task' then
+            select t.title, w.client_id into v_label, v_client_id
+            from tasks t
+            left join departments d on d.id = t.department_id
+            left join workspaces w on w.id = d.workspace_id
+            where t.id = p_id and t.deleted_at is null;
+        when 'employee' then
+            select coalesce(nullif(full_name, ''), email) into v_label from profiles where id = p_id and deleted_at is null;
+        when 'activity' then
+            select left(description, 120) into v_label from activities where id = p_id and deleted_at is null;
+    end case;
+
+    if v_label is null then
+        raise exception 'Nothing to delete; it may already be in the trash';
+    end if;
+
+    insert into deletions (id, entity, entity_id, label, client_id, summary, deleted_by)
+    values (v_id, p_entity, p_id, v_label, v_client_id, public.deletion_preview(p_entity, p_id), auth.uid());
+
+    case p_entity
+        when 'client' then
+            update tasks set deleted_at = now(), deletion_id = v_id
+            where deleted_at is null and department_id in (
+                select d.id from departments d join workspaces w on w.id = d.workspace_id where w.client_id = p_id);
+            update departments set deleted_at = now(), deletion_id = v_id
+            where deleted_at is null and workspace_id in (select id from workspaces where client_id = p_id);
+            update workspaces set deleted_at = now(), deletion_id = v_id
+            where deleted_at is null and client_id = p_id;
+            update clients set deleted_at = now(), deletion_id = v_id where id = p_id;
+        when 'department' then
+            update tasks set deleted_at = now(), deletion_id = v_id
+            where deleted_at is null and department_id = p_id;
+            update departments set deleted_at = now(), deletion_id = v_id where id = p_id;
+        when 'task' then
+            update tasks set deleted_at = now(), deletion_id = v_id where id = p_id;
+        when 'employee' then
+            update profiles set deleted_at = now(), deletion_id = v_id where id = p_id;
+        when 'activity' then
+            update activities set deleted_at = now(), deletion_id = v_id where id = p_id;
+    end case;
+
+    return v_id;
+end;
+$$;
+
+grant execute on function public.move_to_trash(text, uuid) to authenticated;
+
+create or replace function public.restore_deletion(p_deletion_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_deletion deletions%rowtype;
+begin
+    select * into v_deletion from deletions where id = p_deletion_id;
+    if not found or not public.can_manage_deletion(v_deletion.entity, v_deletion.client_id, v_deletion.deleted_by) then
+        raise exception 'Deletion not found';
+    end if;
+
+    -- A child can't come back into a parent that is still in the trash
+    if v_deletion.entity = 'task' and exists (
+        select 1 from tasks t join departments d on d.id = t.department_id
+        where t.id = v_deletion.entity_id and d.deleted_at is not null
+    ) then
+        raise exception 'Its department is in the trash; restore that first';
+    end if;
+
+    if v_deletion.entity = 'department' and exists (
+        select 1 from departments d join workspaces w on w.id = d.workspace_id
+        where d.id = v_deletion.entity_id and w.deleted_at is not null
+    ) then
+        raise exception 'Its client is in the trash; restore that first';
+    end if;
+
+    update clients set deleted_at = null, deletion_id = null where deletion_id = p_deletion_id;
+    update workspaces set deleted_at = null, deletion_id = null where deletion_id = p_deletion_id;
+    update departments set deleted_at = null, deletion_id = null where deletion_id = p_deletion_id;
+    update tasks set deleted_at = null, deletion_id = null where deletion_id = p_deletion_id;
+    update profiles set deleted_at = null, deletion_id = null where deletion_id = p_deletion_id;
+    update activities set deleted_at = null, deletion_id = null where deletion_id = p_deletion_id;
+
+    delete from deletions where id = p_deletion_id;
+end;
+$$;
+
+grant execute on function public.restore_deletion(uuid) to authenticated;
+
+-- Removes the deleted row for good; foreign keys take its children along.
+create or replace function public.purge_deletion_rows(p_deletion deletions)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    case p_deletion.entity
+        when 'client' then delete from clients where id = p_deletion.entity_id;
+        when 'department' then delete from departments where id = p_deletion.entity_id;
+        when 'task' then delete from tasks where id = p_deletion.entity_id;
+        when 'employee' then delete from profiles where id = p_deletion.entity_id;
+        when 'activity' then delete from activities where id = p_deletion.entity_id;
+    end case;
+
+    delete from deletions where id = p_deletion.id;
+end;
+$$;
+
+revoke execute on function public.purge_deletion_rows(deletions) from public, anon, authenticated;
+
+create or replace function public.purge_deletion(p_deletion_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_deletion deletions%rowtype;
+begin
+    select * into v_deletion from deletions where id = p_deletion_id;
+    if not found or not public.can_manage_deletion(v_deletion.entity, v_deletion.client_id, v_deletion.deleted_by) then
+        raise exception 'Deletion not found';
+    end if;
+
+    perform public.purge_deletion_rows(v_deletion);
+end;
+$$;
+
+grant execute on function public.purge_deletion(uuid) to authenticated;
+
+-- A deletion that can't be purged yet (e.g. its time sits on an approved
+-- timesheet) is skipped and retried on the next run.
+create or replace function public.purge_expired_deletions(p_now timestamptz default now())
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_deletion deletions%rowtype;
+    v_purged integer := 0;
+begin
+    for v_deletion in select * from deletions where purge_after <= p_now order by purge_after loop
+        begin
+            perform public.purge_deletion_rows(v_deletion);
+            v_purged := v_purged + 1;
+        exception when others then
+            raise warning 'Could not purge deletion %: %', v_deletion.id, sqlerrm;
+        end;
+    end loop;
+
+    return v_purged;
+end;
+$$;
+
+revoke execute on function public.purge_expired_deletions(timestamptz) from public, anon, authenticated;
+
+-- Run daily where pg_cron is available (hosted Supabase).
+do $$
+begin
+    if exists (select 1 from pg_extension where extname = 'pg_cron') then
+        perform cron.schedule(
+            'purge-expired-deletions',
+            '30 3 * * *',
+            'select public.purge_expired_deletions()'
+        );
+    end if;
+end;
+$$;
+
+-- A task restored from the trash enters its column again, so the column's
+-- entry requirements apply as they do to a new task.
+create or replace function public.enforce_workflow()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_restored boolean := tg_op = 'UPDATE' and old.deleted_at is not null and new.deleted_at is null;
+    v_reason text;
+begin
+    if new.status_id is null or public.is_status_reassignment()
+        or (tg_op = 'UPDATE' and new.status_id is not distinct from old.status_id and not v_restored) then
+        return new;
+    end if;
+
+    v_reason := public.workflow_rejection(
+        new,
+        case when tg_op = 'UPDATE' and new.department_id = old.department_id and not v_restored then old.status_id end,
+        new.status_id
+    );
+    if v_reason is not null then
+        raise exception '%', v_reason using errcode = 'check_violation';
+    end if;
+
+    return new;
+end;
+$$;
+
+drop trigger if exists tasks_enforce_workflow on public.tasks;
+create trigger tasks_enforce_workflow
+    before insert or update of status_id, deleted_at on public.tasks
+    for each row execute function public.enforce_workflow();
+
+-- Background jobs read tasks as the owner and so past the policies above;
+-- trashed tasks get no due reminders and don't fill WIP limits.
+create or replace function public.enforce_wip_limit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_status task_statuses%rowtype;
+begin
+    if new.status_id is null or (tg_op = 'UPDATE' and new.status_id is not distinct from old.status_id)
+        or public.is_status_reassignment() then
+        return new;
+    end if;
+
+    select * into v_status from task_statuses where id = new.status_id;
+    if v_status.wip_limit is null or v_status.wip_policy <> 'block' then
+        return new;
+    end if;
+
+    if (select count(*) from tasks where status_id = new.status_id and id <> new.id and deleted_at is null) >= v_status.wip_limit then
+        raise exception '"%" is at its limit of % tasks', v_status.label, v_status.wip_limit
+            using errcode = 'check_violation';
+    end if;
+
+    return new;
+end;
+$$;
+
+create or replace function public.generate_task_due_notifications(p_now timestamptz default now())
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_today date := p_now::date;
+    v_inserted integer;
+begin
+    with due as (
+        select
+            t.id,
+            t.title,
+            t.due_date,
+            c.cc_id,
+            case
+                when t.due_date::date < v_today then 'overdue'
+                when t.due_date::date = v_today then 'due_today'
+                else 'due_tomorrow'
+            end as kind
+        from tasks t
+        join departments d on d.id = t.department_id
+        join workspaces w on w.id = d.workspace_id
+        join clients c on c.id = w.client_id
+        left join task_statuses s on s.id = t.status_id
+        where t.due_date is not null
+          and t.deleted_at is null
+          and t.due_date::date <= v_today + 1
+          and coalesce(s.category, 'backlog') not in ('done', 'cancelled')
+    ),
+    assignees as (
+        select ta.task_id, ta.user_id
+        from task_assignments ta
+        join due on due.id = ta.task_id
+        union
+        select t.id, t.assigned_to
+        from tasks t
+        join due on due.id = t.id
+        where t.assigned_to is not null
+    ),
+    assignee_names as (
+        select a.task_id, string_agg(p.full_name, ', ' order by p.full_name) as names
+        from assignees a
+        join profiles p on p.id = a.user_id
+        group by a.task_id
+    ),
+    recipients as (
+        select due.id as task_id, due.cc_id as user_id, true as is_coordinator
+        from due
+        where due.cc_id is not null
+        union all
+        select a.task_id, a.user_id, false
+        from assignees a
+    ),
+    outgoing as (
+        -- A coordinator who is also an assignee gets the coordinator copy only
+        select distinct on (r.user_id, r.task_id)
+            r.user_id,
+            r.is_coordinator,
+            due.*
+        from recipients r
+        join due on due.id = r.task_id
+        order by r.user_id, r.task_id, r.is_coordinator desc
+    )
+    insert into notifications (user_id, title, message, type, deduplication_key)
+    select
+        o.user_id,
+        case o.kind
+            when 'overdue' then 'Task Overdue: ' || o.title
+            when 'due_today' then 'Task Due Today: ' || o.title
+            else 'Task Due Tomorrow: ' || o.title
+        end,
+        case o.kind
+            when 'overdue' then format('The task "%s" was due on %s.', o.title, to_char(o.due_date, 'Mon DD, YYYY'))
+            when 'due_today' then format('The task "%s" is due today.', o.title)
+            else format('The task "%s" is due tomorrow.', o.title)
+        end
+        || case
+            when not o.is_coordinator then ''
+            when n.names is null then ' No employees assigned.'
+            else ' Assigned to: ' || n.names
+        end,
+        case o.kind
+            when 'overdue' then 'error'
+            when 'due_today' then 'warning'
+            else 'info'
+        end,
+        -- The due date is part of the key so a rescheduled task is reminded again
+        format('task_%s_%s_%s', o.kind, o.id, to_char(o.due_date, 'YYYY-MM-DD'))
+    from outgoing o
+    left join assignee_names n on n.task_id = o.id
+    on conflict (user_id, deduplication_key) where deduplication_key is not null do nothing;
+
+    get diagnostics v_inserted = row_count;
+    return v_inserted;
+end;
+$$;
@@ -0,0 +1,119 @@
+-- Field-level task history: one row per changed field with who changed it,
+-- the value before and the value after.
+--
+-- Written by triggers, so every client and every RPC that touches a task is
+-- covered. Custom fields are diffed per field as 'custom_fields.<field id>';
+-- assignees are logged one person at a time as 'assignees', with the person
+-- in new_value when added and in old_value when removed. Board ranks and
+-- trash bookkeeping are not history.
+
+create table if not exists public.task_changes (
+    id uuid primary key default gen_random_uuid(),
+    task_id uuid not null references public.tasks (id) on delete cascade,
+    -- Null when the change came from the system, e.g. a scheduled job
+    changed_by uuid references public.profiles (id) on delete set null,
+    field text not null,
+    old_value jsonb,
+    new_value jsonb,
+    changed_at timestamptz not null default now()
+);
+
+create index if not exists task_changes_task_idx on public.task_changes (task_id, changed_at desc);
+
+alter table public.task_changes enable row level security;
+
+-- Readable alongside the task; only the triggers write.
+drop policy if exists "Task changes follow their task" on public.task_changes;
+create policy "Task changes follow their task" on public.task_changes
+    for select to authenticated
+    using (exists (select 1 from public.tasks t where t.id = task_id));
+
+create or replace function public.record_task_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_old jsonb := to_jsonb(old);
+    v_new jsonb := to_jsonb(new);
+    v_field text;
+    v_key text;
+begin
+    foreach v_field in array array[
+        'title', 'description', 'status_id', 'priority', 'assigned_to',
+        'department_id', 'content_type', 'start_date', 'due_date'
+    ] loop
+        if v_old -> v_field is distinct from v_new -> v_field then
+            insert into task_changes (task_id, changed_by, field, old_value, new_value)
+            values (new.id, auth.uid(), v_field, nullif(v_old -> v_field, 'null'), nullif(v_new -> v_field, 'null'));
+        end if;
+    end loop;
+
+    if old.custom_fields is distinct from new.custom_fields then
+        for v_key in
+            select jsonb_object_keys(coalesce(old.custom_fields, '{}'))
+            union
+            select jsonb_object_keys(coalesce(new.custom_fields, '{}'))
+        loop
+            if old.custom_fields -> v_key is distinct from new.custom_fields -> v_key then
+                insert into task_changes (task_id, changed_by, field, old_value, new_value)
+                values (new.id, auth.uid(), 'custom_fields.' || v_key,
+                    nullif(old.custom_fields -> v_key, 'null'), nullif(new.custom_fields -> v_key, 'null'));
+            end if;
+        end loop;
+    end if;
+
+    return null;
+end;
+$$;
+
+revoke execute on function public.record_task_changes() from public;
+
+drop trigger if exists tasks_record_changes on public.tasks;
+create trigger tasks_record_changes
+    after update on public.tasks
+    for each row execute function public.record_task_changes();
+
+-- Replacing the assignee list removes and re-adds people in one
+-- transaction; a removal and re-add of the same person cancel out.
+create or replace function public.record_task_assignment_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if tg_op = 'INSERT' then
+        delete from task_changes
+        where task_id = new.task_id
+          and field = 'assignees'
+          and old_value = to_jsonb(new.user_id)
+          and changed_at = now();
+        if not found then
+            insert into task_changes (task_id, changed_by, field, new_value)
+            values (new.task_id, auth.uid(), 'assignees', to_jsonb(new.user_id));
+        end if;
+    -- Nothing to log when the task itself is being deleted
+    elsif exists (select 1 from tasks where id = old.task_id) then
+        delete from task_changes
+        where task_id = old.task_id
+          and field = 'assignees'
+          and new_value = to_jsonb(old.user_id)
+          and changed_at = now();
+        if not found then
+            insert into task_changes (task_id, changed_by, field, old_value)
+            values (old.task_id, auth.uid(), 'assignees', to_jsonb(old.user_id));
+        end if;
+    end if;
+
+    return null;
+end;
+$$;
+
+revoke execute on function public.record_task_assignment_change() from public;
+
+drop trigger if exists task_assignments_record_changes on public.task_assignments;
+create trigger task_assignments_record_changes
+    after insert or delete on public.task_assignments
+    for each row execute function public.record_task_assignment_change();
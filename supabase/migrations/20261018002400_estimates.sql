@@ -0,0 +1,140 @@
+-- Hour estimates on tasks and subtasks, to hold against the time logged.
+--
+-- A task's estimate is its own when set, otherwise the sum of its
+-- subtasks' estimates. Subtask estimates are matched to time logs by
+-- subtask name, as the timer records them.
+
+alter table public.tasks
+    add column if not exists estimate_hours numeric(7, 2) check (estimate_hours >= 0);
+
+alter table public.subtasks
+    add column if not exists estimate_hours numeric(7, 2) check (estimate_hours >= 0);
+
+-- Estimate changes go into the task history like any other field
+create or replace function public.record_task_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_old jsonb := to_jsonb(old);
+    v_new jsonb := to_jsonb(new);
+    v_field text;
+    v_key text;
+begin
+    foreach v_field in array array[
+        'title', 'description', 'status_id', 'priority', 'assigned_to',
+        'department_id', 'content_type', 'start_date', 'due_date', 'estimate_hours'
+    ] loop
+        if v_old -> v_field is distinct from v_new -> v_field then
+            insert into task_changes (task_id, changed_by, field, old_value, new_value)
+            values (new.id, auth.uid(), v_field, nullif(v_old -> v_field, 'null'), nullif(v_new -> v_field, 'null'));
+        end if;
+    end loop;
+
+    if old.custom_fields is distinct from new.custom_fields then
+        for v_key in
+            select jsonb_object_keys(coalesce(old.custom_fields, '{}'))
+            union
+            select jsonb_object_keys(coalesce(new.custom_fields, '{}'))
+        loop
+            if old.custom_fields -> v_key is distinct from new.custom_fields -> v_key then
+                insert into task_changes (task_id, changed_by, field, old_value, new_value)
+                values (new.id, auth.uid(), 'custom_fields.' || v_key,
+                    nullif(old.custom_fields -> v_key, 'null'), nullif(new.custom_fields -> v_key, 'null'));
+            end if;
+        end loop;
+    end if;
+
+    return null;
+end;
+$$;
+
+-- How finished, estimated tasks compared with the time logged on them, one
+-- row per employee, content type and client. Open tasks are left out so
+-- work under way doesn't read as an underrun. Each assignee is held to an
+-- equal share of the estimate against the time they logged themselves.
+-- Runs as the caller, so it covers the tasks they can see.
+create or replace function public.estimate_accuracy(p_coordinator_id uuid default null)
+returns table (
+    dimension text,
+    key text,
+    label text,
+    tasks integer,
+    estimated_seconds numeric,
+    actual_seconds numeric
+)
+language sql
+stable
+set search_path = public
+as $$
+    with estimated as (
+        select *
+        from (
+            select
+                t.id,
+                t.content_type,
+                c.id as client_id,
+                c.name as client_name,
+                coalesce(t.estimate_hours, (select sum(st.estimate_hours) from subtasks st where st.task_id = t.id)) * 3600
+                    as estimated_seconds
+            from tasks t
+            join task_statuses s on s.id = t.status_id
+            left join departments d on d.id = t.department_id
+            left join workspaces w on w.id = d.workspace_id
+            left join clients c on c.id = w.client_id
+            where s.category = 'done'
+              and t.deleted_at is null
+              and (p_coordinator_id is null or c.cc_id = p_coordinator_id)
+        ) finished
+        where estimated_seconds > 0
+    ),
+    logged as (
+        -- Open or legacy logs without a stored duration use start to end
+        select l.task_id, l.user_id,
+               sum(coalesce(nullif(l.duration_seconds, 0), extract(epoch from l.end_time - l.start_time), 0)) as seconds
+        from subtask_time_logs l
+        join estimated e on e.id = l.task_id
+        group by l.task_id, l.user_id
+    ),
+    totals as (
+        select e.*, coalesce((select sum(g.seconds) from logged g where g.task_id = e.id), 0) as actual_seconds
+        from estimated e
+    ),
+    assignees as (
+        select t.id as task_id, t.assigned_to as user_id
+        from tasks t
+        join estimated e on e.id = t.id
+        where t.assigned_to is not null
+        union
+        select ta.task_id, ta.user_id
+        from task_assignments ta
+        join estimated e on e.id = ta.task_id
+    ),
+    shares as (
+        select a.task_id, a.user_id, count(*) over (partition by a.task_id) as assignee_count
+        from assignees a
+    )
+    select 'employee', s.user_id::text, coalesce(nullif(p.full_name, ''), nullif(p.email, ''), 'Unknown'), count(*)::integer,
+           sum(e.estimated_seconds / s.assignee_count), sum(coalesce(g.seconds, 0))
+    from shares s
+    join estimated e on e.id = s.task_id
+    left join profiles p on p.id = s.user_id
+    left join logged g on g.task_id = s.task_id and g.user_id = s.user_id
+    group by s.user_id, p.full_name, p.email
+    union all
+    select 'content_type', coalesce(content_type, ''), coalesce(content_type, 'No type'), count(*)::integer,
+           sum(estimated_seconds), sum(actual_seconds)
+    from totals
+    group by content_type
+    union all
+    select 'client', client_id::text, client_name, count(*)::integer,
+           sum(estimated_seconds), sum(actual_seconds)
+    from totals
+    where client_id is not null
+    group by client_id, client_name
+    order by 3
+$$;
+
+grant execute on function public.estimate_accuracy(uuid) to authenticated;
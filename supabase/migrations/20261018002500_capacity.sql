@@ -0,0 +1,98 @@
+-- How busy people are over a stretch of days, for the assignee pickers.
+--
+-- Each person has a weekly capacity in hours, spread over the working days
+-- (Monday to Friday) of the window. Their load in the window is the part of
+-- each open task's estimate that falls inside it, spread evenly over the
+-- working days from the task's start to its due date and shared equally
+-- among its assignees, plus the meetings they attend, counted for the part
+-- that falls inside the window. As in the pickers, a task with only a due
+-- date runs from today, one with only a start date runs for a week, and one
+-- with no dates is counted as this coming week's work.
+
+alter table public.profiles
+    add column if not exists weekly_capacity_hours numeric(5, 1) not null default 40
+        check (weekly_capacity_hours >= 0);
+
+-- Monday to Friday days from p_from to p_to, both included.
+create or replace function public.working_days(p_from date, p_to date)
+returns integer
+language sql
+immutable
+as $$
+    select count(*)::integer
+    from generate_series(p_from, p_to, interval '1 day') d
+    where extract(isodow from d) < 6
+$$;
+
+-- Runs as the owner so a coordinator sees load from every client, not only
+-- their own; it returns totals only, never the tasks or meetings behind them.
+create or replace function public.employee_workloads(p_user_ids uuid[], p_from timestamptz, p_to timestamptz)
+returns table (
+    user_id uuid,
+    open_tasks integer,
+    estimated_hours numeric,
+    meeting_hours numeric,
+    capacity_hours numeric
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    with assignments as (
+        select ta.task_id, ta.user_id from task_assignments ta
+        union
+        select t.id, t.assigned_to from tasks t where t.assigned_to is not null
+    ),
+    spans as (
+        select
+            t.id,
+            coalesce(t.estimate_hours, (
+                select sum(s.estimate_hours) from subtasks s where s.task_id = t.id
+            ), 0) / nullif((select count(*) from assignments a where a.task_id = t.id), 0) as share,
+            coalesce(t.start_date::date, least(current_date, t.due_date::date)) as span_from,
+            coalesce(t.due_date::date, coalesce(t.start_date::date, current_date) + 7) as span_to
+        from tasks t
+        left join task_statuses st on st.id = t.status_id
+        where t.deleted_at is null
+          and coalesce(st.category, 'active') not in ('done', 'cancelled')
+    ),
+    open_tasks as (
+        select
+            o.id,
+            -- A span without working days is spread over its calendar days
+            o.share * coalesce(
+                public.working_days(o.overlap_from, o.overlap_to)::numeric
+                    / nullif(public.working_days(o.span_from, o.span_to), 0),
+                (o.overlap_to - o.overlap_from + 1)::numeric / (o.span_to - o.span_from + 1)
+            ) as share
+        from (
+            select
+                s.id,
+                s.share,
+                s.span_from,
+                greatest(s.span_to, s.span_from) as span_to,
+                greatest(s.span_from, p_from::date) as overlap_from,
+                least(greatest(s.span_to, s.span_from), p_to::date) as overlap_to
+            from spans s
+        ) o
+        where o.overlap_from <= o.overlap_to
+    )
+    select
+        p.id,
+        (select count(*)::integer from open_tasks o join assignments a on a.task_id = o.id where a.user_id = p.id),
+        (select coalesce(sum(o.share), 0) from open_tasks o join assignments a on a.task_id = o.id where a.user_id = p.id),
+        (
+            select coalesce(sum(extract(epoch from least(m.end_time, p_to) - greatest(m.start_time, p_from)) / 3600), 0)
+            from meetings m
+            join meeting_participants mp on mp.meeting_id = m.id
+            where mp.user_id = p.id and m.start_time < p_to and m.end_time > p_from
+        ),
+        p.weekly_capacity_hours * public.working_days(p_from::date, greatest(p_to, p_from)::date) / 5
+    from profiles p
+    where p.id = any (p_user_ids)
+      and p.deleted_at is null
+$$;
+
+revoke execute on function public.employee_workloads(uuid[], timestamptz, timestamptz) from public;
+grant execute on function public.employee_workloads(uuid[], timestamptz, timestamptz) to authenticated;
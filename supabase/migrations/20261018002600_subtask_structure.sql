@@ -0,0 +1,304 @@
+-- Subtasks with their own assignee, due date and place in the list, nested
+-- at most one level deep.
+--
+-- position orders subtasks among their siblings: top-level subtasks within
+-- the task, nested ones within their parent. A subtask can be turned into a
+-- task of its own, and a task into a subtask of another task.
+
+alter table public.subtasks
+    add column if not exists assigned_to uuid references public.profiles (id) on delete set null,
+    add column if not exists due_date date,
+    add column if not exists parent_id uuid references public.subtasks (id) on delete cascade,
+    add column if not exists position integer;
+
+-- Existing subtasks keep the order they were shown in, oldest first.
+update public.subtasks s
+set position = ordered.n
+from (
+    select id, row_number() over (partition by task_id order by created_at) - 1 as n
+    from public.subtasks
+) ordered
+where ordered.id = s.id
+  and s.position is null;
+
+alter table public.subtasks
+    alter column position set default 0,
+    alter column position set not null;
+
+create index if not exists subtasks_task_position_idx on public.subtasks (task_id, position);
+create index if not exists subtasks_parent_idx on public.subtasks (parent_id) where parent_id is not null;
+create index if not exists subtasks_assigned_to_idx on public.subtasks (assigned_to) where assigned_to is not null;
+
+-- A subtask nests only under a top-level subtask of the same task, and only
+-- when it has no nested subtasks of its own.
+create or replace function public.check_subtask_nesting()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+    if new.parent_id is null then
+        return new;
+    end if;
+
+    if new.parent_id = new.id then
+        raise exception 'A subtask cannot be nested under itself';
+    end if;
+
+    if not exists (
+        select 1 from subtasks
+        where id = new.parent_id and task_id = new.task_id and parent_id is null
+    ) then
+        raise exception 'Subtasks can only be nested one level deep, under a subtask of the same task';
+    end if;
+
+    if exists (select 1 from subtasks where parent_id = new.id) then
+        raise exception 'A subtask with nested subtasks cannot be nested itself';
+    end if;
+
+    return new;
+end;
+$$;
+
+revoke execute on function public.check_subtask_nesting() from public;
+
+drop trigger if exists subtasks_check_nesting on public.subtasks;
+create trigger subtasks_check_nesting
+    before insert or update of parent_id, task_id on public.subtasks
+    for each row execute function public.check_subtask_nesting();
+
+-- Saves a task's subtasks in the order and nesting given, touching only
+-- parent_id and position: p_parents holds each subtask's parent, null for
+-- top level. Subtasks deleted meanwhile are skipped, never recreated.
+create or replace function public.reorder_subtasks(p_task_id uuid, p_ids uuid[], p_parents uuid[])
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+    if cardinality(p_ids) <> cardinality(p_parents) then
+        raise exception 'Every subtask needs its parent, or null for the top level';
+    end if;
+
+    -- Top-level subtasks first, so nested ones find their parent in place
+    update subtasks s
+    set parent_id = null, position = o.position
+    from (
+        select id, parent_id, row_number() over (partition by parent_id order by n) - 1 as position
+        from unnest(p_ids, p_parents) with ordinality as u (id, parent_id, n)
+    ) o
+    where s.id = o.id
+      and s.task_id = p_task_id
+      and o.parent_id is null
+      and (s.parent_id is not null or s.position <> o.position);
+
+    update subtasks s
+    set parent_id = o.parent_id, position = o.position
+    from (
+        select id, parent_id, row_number() over (partition by parent_id order by n) - 1 as position
+        from unnest(p_ids, p_parents) with ordinality as u (id, parent_id, n)
+    ) o
+    where s.id = o.id
+      and s.task_id = p_task_id
+      and o.parent_id is not null
+      and (s.parent_id is distinct from o.parent_id or s.position <> o.position);
+end;
+$$;
+
+-- Time logs name the subtask they were spent on. These find a task's logs
+-- so they can follow its subtasks to another task.
+
+-- Logs spent on these subtasks of the task.
+create or replace function public.subtask_time_log_ids(p_task_id uuid, p_subtask_ids uuid[])
+returns uuid[]
+language sql
+stable
+set search_path = public
+as $$
+    select coalesce(array_agg(l.id), '{}')
+    from subtask_time_logs l
+    where l.task_id = p_task_id
+      and exists (
+          select 1 from subtasks s
+          where s.task_id = p_task_id and s.title = l.subtask_name and s.id = any (p_subtask_ids)
+      )
+$$;
+
+-- Logs spent on the task itself rather than one of its subtasks.
+create or replace function public.task_time_log_ids(p_task_id uuid)
+returns uuid[]
+language sql
+stable
+set search_path = public
+as $$
+    select coalesce(array_agg(l.id), '{}')
+    from subtask_time_logs l
+    where l.task_id = p_task_id
+      and not exists (select 1 from subtasks s where s.task_id = p_task_id and s.title = l.subtask_name)
+$$;
+
+-- Makes the subtask a task in its parent task's department, in the first
+-- column (the first done column when it was completed), carrying over its
+-- assignee, due date and estimate. Subtasks nested under it become the new
+-- task's subtasks. Runs as the caller, so creating tasks must be allowed.
+-- Returns the new task's id.
+create or replace function public.convert_subtask_to_task(p_subtask_id uuid)
+returns uuid
+language plpgsql
+set search_path = public
+as $$
+declare
+    v_subtask subtasks;
+    v_task tasks;
+    v_status_id uuid;
+    v_id uuid;
+    v_log_ids uuid[];
+begin
+    select * into v_subtask from subtasks where id = p_subtask_id;
+    if not found then
+        raise exception 'Subtask not found';
+    end if;
+
+    select * into v_task from tasks where id = v_subtask.task_id and deleted_at is null;
+    if not found then
+        raise exception 'The subtask''s task no longer exists';
+    end if;
+
+    select id into v_status_id
+    from task_statuses
+    where department_id = v_task.department_id
+    order by (v_subtask.is_completed and category = 'done') desc, position
+    limit 1;
+
+    insert into tasks (title, department_id, status_id, priority, content_type, due_date, estimate_hours, created_by)
+    values (v_subtask.title, v_task.department_id, v_status_id, v_task.priority, v_task.content_type,
+            v_subtask.due_date, v_subtask.estimate_hours, auth.uid())
+    returning id into v_id;
+
+    if v_subtask.assigned_to is not null then
+        insert into task_assignments (task_id, user_id) values (v_id, v_subtask.assigned_to);
+    end if;
+
+    -- The nested subtasks' time goes with them, and the subtask's own time
+    -- becomes time on the new task
+    v_log_ids := public.subtask_time_log_ids(
+        v_subtask.task_id,
+        array(select id from subtasks where parent_id = p_subtask_id or id = p_subtask_id)
+    );
+
+    update subtasks set task_id = v_id, parent_id = null where parent_id = p_subtask_id;
+    delete from subtasks where id = p_subtask_id;
+
+    -- Moving time leaves its hours alone, so approved weeks and invoices allow it
+    perform set_config('app.moving_time_logs', 'on', true);
+    update subtask_time_logs set task_id = v_id where id = any (v_log_ids);
+    perform set_config('app.moving_time_logs', 'off', true);
+
+    return v_id;
+end;
+$$;
+
+-- Makes the task a subtask at the end of another task's list for the same
+-- client, carrying over its first assignee, due date and estimate; it counts
+-- as completed when the task was in a done column. The task's own subtasks
+-- are nested under it, in the order they were shown, and the task goes to
+-- the trash.
+-- Returns the new subtask's id.
+create or replace function public.convert_task_to_subtask(p_task_id uuid, p_parent_task_id uuid)
+returns uuid
+language plpgsql
+set search_path = public
+as $$
+declare
+    v_task tasks;
+    v_id uuid;
+    v_task_log_ids uuid[];
+begin
+    if p_task_id = p_parent_task_id then
+        raise exception 'A task cannot become its own subtask';
+    end if;
+
+    select * into v_task from tasks where id = p_task_id and deleted_at is null;
+    if not found then
+        raise exception 'Task not found';
+    end if;
+
+    if not exists (select 1 from tasks where id = p_parent_task_id and deleted_at is null) then
+        raise exception 'The task to move it under no longer exists';
+    end if;
+
+    -- Its time moves along, invoiced time included, and must stay billed to
+    -- the same client
+    if (select w.client_id from tasks t
+        join departments d on d.id = t.department_id
+        join workspaces w on w.id = d.workspace_id
+        where t.id = p_task_id)
+       is distinct from
+       (select w.client_id from tasks t
+        join departments d on d.id = t.department_id
+        join workspaces w on w.id = d.workspace_id
+        where t.id = p_parent_task_id) then
+        raise exception 'A task can only become a subtask of a task for the same client';
+    end if;
+
+    insert into subtasks (task_id, title, is_completed, assigned_to, due_date, estimate_hours, position)
+    values (
+        p_parent_task_id,
+        v_task.title,
+        exists (select 1 from task_statuses where id = v_task.status_id and category = 'done'),
+        coalesce(v_task.assigned_to, (
+            select user_id from task_assignments where task_id = p_task_id order by created_at limit 1
+        )),
+        v_task.due_date::date,
+        v_task.estimate_hours,
+        (select coalesce(max(position), -1) + 1 from subtasks where task_id = p_parent_task_id and parent_id is null)
+    )
+    returning id into v_id;
+
+    -- Flatten the task's two levels into one list, in display order
+    update subtasks s
+    set position = ordered.n
+    from (
+        select s2.id, row_number() over (
+            order by coalesce(p.position, s2.position), coalesce(p.created_at, s2.created_at),
+                     s2.parent_id is not null, s2.position, s2.created_at
+        ) - 1 as n
+        from subtasks s2
+        left join subtasks p on p.id = s2.parent_id
+        where s2.task_id = p_task_id
+    ) ordered
+    where ordered.id = s.id;
+
+    v_task_log_ids := public.task_time_log_ids(p_task_id);
+
+    update subtasks set parent_id = null where task_id = p_task_id and parent_id is not null;
+    update subtasks set task_id = p_parent_task_id, parent_id = v_id where task_id = p_task_id;
+
+    -- Time on the subtasks goes with them and time on the task itself onto
+    -- the new subtask. Moving time leaves its hours alone, so approved weeks
+    -- and invoices allow it.
+    perform set_config('app.moving_time_logs', 'on', true);
+    update subtask_time_logs
+    set task_id = p_parent_task_id
+    where task_id = p_task_id and not id = any (v_task_log_ids);
+    update subtask_time_logs
+    set task_id = p_parent_task_id, subtask_name = v_task.title
+    where id = any (v_task_log_ids);
+    perform set_config('app.moving_time_logs', 'off', true);
+
+    perform public.move_to_trash('task', p_task_id);
+
+    return v_id;
+end;
+$$;
+
+revoke execute on function public.subtask_time_log_ids(uuid, uuid[]) from public;
+revoke execute on function public.task_time_log_ids(uuid) from public;
+revoke execute on function public.reorder_subtasks(uuid, uuid[], uuid[]) from public;
+revoke execute on function public.convert_subtask_to_task(uuid) from public;
+revoke execute on function public.convert_task_to_subtask(uuid, uuid) from public;
+grant execute on function public.subtask_time_log_ids(uuid, uuid[]) to authenticated;
+grant execute on function public.task_time_log_ids(uuid) to authenticated;
+grant execute on function public.reorder_subtasks(uuid, uuid[], uuid[]) to authenticated;
+grant execute on function public.convert_subtask_to_task(uuid) to authenticated;
+grant execute on function public.convert_task_to_subtask(uuid, uuid) to authenticated;
@@ -0,0 +1,171 @@
+-- Time logs point at their subtask by id rather than by name.
+--
+-- subtask_name stays as the log's label: it follows the subtask when it is
+-- renamed and keeps the last name once the subtask is deleted, so reports
+-- still show what the time was spent on. A log without a subtask_id is
+-- time on the task itself, or on a subtask that no longer exists.
+
+alter table public.subtask_time_logs
+    add column if not exists subtask_id uuid references public.subtasks (id) on delete set null;
+
+create index if not exists subtask_time_logs_subtask_idx
+    on public.subtask_time_logs (subtask_id) where subtask_id is not null;
+
+-- Relabelling a log leaves its time alone, so approved weeks and invoices
+-- allow it when renaming or deleting its subtask does it, from a trigger or
+-- foreign key action; editing the label of locked time directly is still
+-- refused. Converting subtasks and tasks moves time along with them.
+create or replace function public.prevent_locked_time_log_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+    if tg_op = 'UPDATE' and pg_trigger_depth() > 1
+       and to_jsonb(new) - 'subtask_id' - 'subtask_name' = to_jsonb(old) - 'subtask_id' - 'subtask_name' then
+        return new;
+    end if;
+
+    if tg_op = 'UPDATE' and current_setting('app.moving_time_logs', true) = 'on'
+       and to_jsonb(new) - 'task_id' - 'subtask_id' - 'subtask_name'
+           = to_jsonb(old) - 'task_id' - 'subtask_id' - 'subtask_name' then
+        return new;
+    end if;
+
+    if tg_op = 'INSERT' and new.invoice_id is not null then
+        raise exception 'New time cannot start out invoiced';
+    end if;
+
+    if tg_op = 'UPDATE' and new.invoice_id is distinct from old.invoice_id then
+        if old.invoice_id is not null and pg_trigger_depth() < 2 then
+            raise exception 'Invoiced time is released by deleting its draft invoice';
+        end if;
+        if new.invoice_id is not null and not public.has_capability('billing.manage') then
+            raise exception 'You do not have permission to invoice time';
+        end if;
+    end if;
+
+    if tg_op <> 'INSERT' and old.invoice_id is not null
+       and not (tg_op = 'UPDATE' and to_jsonb(new) - 'invoice_id' = to_jsonb(old) - 'invoice_id') then
+        raise exception 'This time has been invoiced and is locked';
+    end if;
+
+    if tg_op = 'UPDATE'
+       and to_jsonb(new) - 'invoice_id' - 'is_billable' = to_jsonb(old) - 'invoice_id' - 'is_billable' then
+        return new;
+    end if;
+
+    -- Both the old and the new position of a moved entry must be open
+    if tg_op <> 'INSERT' and public.is_time_locked(old.user_id, old.start_time) then
+        raise exception 'This week''s timesheet is approved and locked';
+    end if;
+    if tg_op <> 'DELETE' and public.is_time_locked(new.user_id, new.start_time) then
+        raise exception 'This week''s timesheet is approved and locked';
+    end if;
+
+    return coalesce(new, old);
+end;
+$$;
+
+-- Existing logs go to the subtask of their task with the same name, the
+-- oldest one when several share it. Time on the task itself keeps none.
+-- Linking leaves the time alone, so locked weeks are linked too.
+select set_config('app.moving_time_logs', 'on', true);
+
+update public.subtask_time_logs l
+set subtask_id = s.id
+from (
+    select distinct on (task_id, title) id, task_id, title
+    from public.subtasks
+    order by task_id, title, created_at
+) s
+where s.task_id = l.task_id
+  and s.title = l.subtask_name
+  and l.subtask_name <> 'General'
+  and l.subtask_id is null;
+
+select set_config('app.moving_time_logs', 'off', true);
+
+-- Converting subtasks and tasks finds their logs by id from now on.
+create or replace function public.subtask_time_log_ids(p_task_id uuid, p_subtask_ids uuid[])
+returns uuid[]
+language sql
+stable
+set search_path = public
+as $$
+    select coalesce(array_agg(id), '{}')
+    from subtask_time_logs
+    where task_id = p_task_id and subtask_id = any (p_subtask_ids)
+$$;
+
+-- Time on a deleted subtask has no subtask either, but keeps its label.
+create or replace function public.task_time_log_ids(p_task_id uuid)
+returns uuid[]
+language sql
+stable
+set search_path = public
+as $$
+    select coalesce(array_agg(id), '{}')
+    from subtask_time_logs
+    where task_id = p_task_id and subtask_id is null and subtask_name = 'General'
+$$;
+
+-- A log given a subtask takes its name. One given only a name, such as a
+-- manual timesheet entry or a relabelled one, is linked to the task's
+-- subtask of that name, if there is one. 'General' labels time on the task
+-- itself (TASK_TIME_LABEL in the app), so it never links to another subtask
+-- named that way.
+create or replace function public.link_time_log_subtask()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+    if new.subtask_id is not null and (tg_op = 'INSERT' or new.subtask_id is distinct from old.subtask_id) then
+        new.subtask_name := coalesce((select title from subtasks where id = new.subtask_id), new.subtask_name);
+    elsif (tg_op = 'INSERT' and new.subtask_id is null)
+       or (tg_op = 'UPDATE' and new.subtask_id is not distinct from old.subtask_id
+           and (new.subtask_name is distinct from old.subtask_name or new.task_id is distinct from old.task_id)) then
+        new.subtask_id := (
+            select id from subtasks
+            where task_id = new.task_id and title = new.subtask_name
+              and (new.subtask_name <> 'General' or id = new.subtask_id)
+            -- A rename keeps the log on its own subtask
+            order by coalesce(id = new.subtask_id, false) desc, created_at
+            limit 1
+        );
+    end if;
+
+    return new;
+end;
+$$;
+
+revoke execute on function public.link_time_log_subtask() from public;
+
+drop trigger if exists subtask_time_logs_link_subtask on public.subtask_time_logs;
+create trigger subtask_time_logs_link_subtask
+    before insert or update of subtask_id, subtask_name, task_id on public.subtask_time_logs
+    for each row execute function public.link_time_log_subtask();
+
+-- Renaming a subtask relabels everyone's time on it.
+create or replace function public.relabel_subtask_time_logs()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    update subtask_time_logs
+    set subtask_name = new.title
+    where subtask_id = new.id
+      and subtask_name is distinct from new.title;
+
+    return new;
+end;
+$$;
+
+revoke execute on function public.relabel_subtask_time_logs() from public;
+
+drop trigger if exists subtasks_relabel_time_logs on public.subtasks;
+create trigger subtasks_relabel_time_logs
+    after update of title on public.subtasks
+    for each row execute function public.relabel_subtask_time_logs();